@@ -25,9 +25,8 @@ process.env.UPSTASH_REDIS_REST_URL =
 	process.env.UPSTASH_REDIS_REST_URL || 'https://fake.upstash.io';
 process.env.UPSTASH_REDIS_REST_TOKEN =
 	process.env.UPSTASH_REDIS_REST_TOKEN || 'fake-token';
-process.env.RESEND_API_KEY = process.env.RESEND_API_KEY || 're_fake_e2e_key';
-process.env.RESEND_FROM_EMAIL =
-	process.env.RESEND_FROM_EMAIL || 'test@covoitapi.test';
+process.env.EMAIL_TRANSPORT = process.env.EMAIL_TRANSPORT || 'memory';
+process.env.EMAIL_FROM = process.env.EMAIL_FROM || 'test@covoitapi.test';
 
 // Step 2: Import the app — triggers DI container initialization
 // PrismaNeon adapter is created but connection is lazy (never actually connects)
@@ -0,0 +1,56 @@
+/**
+ * @module auth.config
+ * Defines the AuthConfig type and a factory function that reads session and
+ * account policy values (token lifetimes, email verification requirements,
+ * login throttling, the client URL used in email links) from environment
+ * variables with sensible defaults.
+ */
+
+import { envInt } from '../../lib/shared/utils/env.util.js';
+
+/**
+ * Session and account policy settings applied by the authentication use cases.
+ * The access token lifetime is configured separately via `JWT_EXPIRES_IN`.
+ *
+ * @property refreshTokenTtlDays - Days a refresh token can be exchanged for a new
+ *                                 access token. Each exchange issues a new refresh
+ *                                 token with a fresh lifetime.
+ * @property passwordResetTokenTtlMinutes - Minutes a password reset link stays valid.
+ * @property emailVerificationTokenTtlHours - Hours an email verification link stays valid.
+ * @property requireVerifiedEmailForDrivers - Whether users must verify their email
+ *                                            address before registering as drivers.
+ * @property loginDelayAfterAttempts - Failed logins from which each failure delays the
+ *                                    next attempt on the account.
+ * @property loginDelayBaseSeconds - Delay after the first delayed failure, doubled by
+ *                                  each further one.
+ * @property loginLockoutThreshold - Failed logins from which the account is locked out
+ *                                  and its owner alerted by email.
+ * @property loginLockoutMinutes - Length of a lockout.
+ * @property appUrl - Base URL of the client application, used to build the links
+ *                    sent in account emails (without trailing slash).
+ */
+export type AuthConfig = {
+	refreshTokenTtlDays: number;
+	passwordResetTokenTtlMinutes: number;
+	emailVerificationTokenTtlHours: number;
+	requireVerifiedEmailForDrivers: boolean;
+	loginDelayAfterAttempts: number;
+	loginDelayBaseSeconds: number;
+	loginLockoutThreshold: number;
+	loginLockoutMinutes: number;
+	appUrl: string;
+};
+
+export function createAuthConfig(): AuthConfig {
+	return {
+		refreshTokenTtlDays: envInt('REFRESH_TOKEN_TTL_DAYS', 30),
+		passwordResetTokenTtlMinutes: envInt('PASSWORD_RESET_TOKEN_TTL_MINUTES', 60),
+		emailVerificationTokenTtlHours: envInt('EMAIL_VERIFICATION_TOKEN_TTL_HOURS', 48),
+		requireVerifiedEmailForDrivers: process.env.REQUIRE_VERIFIED_EMAIL_FOR_DRIVERS !== 'false',
+		loginDelayAfterAttempts: envInt('LOGIN_DELAY_AFTER_ATTEMPTS', 3),
+		loginDelayBaseSeconds: envInt('LOGIN_DELAY_BASE_SECONDS', 2),
+		loginLockoutThreshold: envInt('LOGIN_LOCKOUT_THRESHOLD', 10),
+		loginLockoutMinutes: envInt('LOGIN_LOCKOUT_MINUTES', 15),
+		appUrl: (process.env.APP_URL ?? 'http://localhost:3000').replace(/\/+$/, ''),
+	};
+}
@@ -0,0 +1,25 @@
+/**
+ * @module booking.config
+ * Defines the BookingConfig type and a factory function that reads booking
+ * policy values (e.g. the cancellation cut-off) from environment variables
+ * with sensible defaults.
+ */
+
+import { envInt } from '../../lib/shared/utils/env.util.js';
+
+/**
+ * Booking policy settings applied by the inscription use cases.
+ *
+ * @property cancellationCutoffHours - Passengers cannot cancel an accepted booking
+ *                                     less than this many hours before the trip departs.
+ *                                     0 disables the cut-off.
+ */
+export type BookingConfig = {
+	cancellationCutoffHours: number;
+};
+
+export function createBookingConfig(): BookingConfig {
+	return {
+		cancellationCutoffHours: envInt('BOOKING_CANCELLATION_CUTOFF_HOURS', 24),
+	};
+}
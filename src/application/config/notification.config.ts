@@ -0,0 +1,30 @@
+/**
+ * @module notification.config
+ * Defines the NotificationConfig type and a factory function that reads the
+ * trip notification policy (reminder delay, polling of the reminder job)
+ * from environment variables with sensible defaults.
+ */
+
+import { envInt } from '../../lib/shared/utils/env.util.js';
+
+/**
+ * Trip notification policy.
+ *
+ * @property tripReminderHoursBefore - How many hours before departure passengers are reminded of a trip.
+ * @property reminderPollIntervalMs - Pause between two runs of the reminder job.
+ * @property reminderBatchSize - Maximum number of trips handled per run; a full run is followed
+ *                               immediately by the next one.
+ */
+export type NotificationConfig = {
+	tripReminderHoursBefore: number;
+	reminderPollIntervalMs: number;
+	reminderBatchSize: number;
+};
+
+export function createNotificationConfig(): NotificationConfig {
+	return {
+		tripReminderHoursBefore: envInt('TRIP_REMINDER_HOURS_BEFORE', 24),
+		reminderPollIntervalMs: envInt('TRIP_REMINDER_POLL_INTERVAL_MS', 300_000),
+		reminderBatchSize: envInt('TRIP_REMINDER_BATCH_SIZE', 50),
+	};
+}
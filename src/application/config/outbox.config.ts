@@ -0,0 +1,43 @@
+/**
+ * @module outbox.config
+ * Defines the OutboxConfig type and a factory function that reads the
+ * delivery policy of the outbox worker (retries, backoff, polling) from
+ * environment variables with sensible defaults.
+ */
+
+import { envInt } from '../../lib/shared/utils/env.util.js';
+
+/**
+ * Delivery policy of the outbox worker.
+ *
+ * @property maxAttempts - Delivery attempts made before a message is declared dead.
+ * @property retryBaseDelayMs - Delay before the first retry; doubled after each failed attempt.
+ * @property retryMaxDelayMs - Upper bound of the delay between two attempts.
+ * @property batchSize - Maximum number of messages claimed per poll.
+ * @property pollIntervalMs - Pause between two polls when the previous one found no work.
+ * @property claimTimeoutMs - How long a claimed message stays reserved for its worker. If the
+ *                            outcome is not recorded by then (the worker died), it is claimed again.
+ * @property runWorkerInProcess - Whether the API process also runs the worker and the trip reminder
+ *                                job. When false, they run as a separate process (`pnpm worker`).
+ */
+export type OutboxConfig = {
+	maxAttempts: number;
+	retryBaseDelayMs: number;
+	retryMaxDelayMs: number;
+	batchSize: number;
+	pollIntervalMs: number;
+	claimTimeoutMs: number;
+	runWorkerInProcess: boolean;
+};
+
+export function createOutboxConfig(): OutboxConfig {
+	return {
+		maxAttempts: envInt('OUTBOX_MAX_ATTEMPTS', 8),
+		retryBaseDelayMs: envInt('OUTBOX_RETRY_BASE_DELAY_MS', 30_000),
+		retryMaxDelayMs: envInt('OUTBOX_RETRY_MAX_DELAY_MS', 3_600_000),
+		batchSize: envInt('OUTBOX_BATCH_SIZE', 20),
+		pollIntervalMs: envInt('OUTBOX_POLL_INTERVAL_MS', 5_000),
+		claimTimeoutMs: envInt('OUTBOX_CLAIM_TIMEOUT_MS', 60_000),
+		runWorkerInProcess: process.env.OUTBOX_WORKER_IN_PROCESS === 'true',
+	};
+}
@@ -0,0 +1,36 @@
+/**
+ * @module trip.config
+ * Defines the TripConfig type and a factory function that reads the trip
+ * lifecycle policy (polling of the trip status job), the materialization
+ * of trip series and the time zone trips take place in from environment
+ * variables with sensible defaults.
+ */
+
+import { envInt } from '../../lib/shared/utils/env.util.js';
+
+/**
+ * Trip lifecycle policy.
+ *
+ * @property statusPollIntervalMs - Pause between two runs of the trip status job, which
+ *                                  starts departed trips and completes arrived ones.
+ * @property seriesHorizonDays - How many days ahead the occurrences of trip series are
+ *                               materialized as trips passengers can book.
+ * @property seriesPollIntervalMs - Pause between two runs of the trip series job.
+ * @property timeZone - IANA time zone the days and times of day of trips are read in,
+ *                      by trip searches and trip series.
+ */
+export type TripConfig = {
+	statusPollIntervalMs: number;
+	seriesHorizonDays: number;
+	seriesPollIntervalMs: number;
+	timeZone: string;
+};
+
+export function createTripConfig(): TripConfig {
+	return {
+		statusPollIntervalMs: envInt('TRIP_STATUS_POLL_INTERVAL_MS', 60_000),
+		seriesHorizonDays: envInt('TRIP_SERIES_HORIZON_DAYS', 28),
+		seriesPollIntervalMs: envInt('TRIP_SERIES_POLL_INTERVAL_MS', 3_600_000),
+		timeZone: process.env.TRIP_TIME_ZONE ?? 'Europe/Paris',
+	};
+}
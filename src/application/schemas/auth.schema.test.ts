@@ -1,12 +1,21 @@
 /**
  * @module auth.schema.test
- * Unit tests for the authentication Zod schemas (registerSchema, loginSchema).
+ * Unit tests for the authentication Zod schemas (registerSchema, loginSchema,
+ * resetPasswordSchema, verifyEmailSchema, changePasswordSchema, changeEmailSchema).
  * Verifies email format validation, password strength rules, password confirmation
- * matching, and login credential requirements.
+ * matching, login credential requirements, account token requirements and
+ * current password requirements.
  */
 
 import { describe, it, expect } from 'vitest';
-import { registerSchema, loginSchema } from './auth.schema.js';
+import {
+	registerSchema,
+	loginSchema,
+	resetPasswordSchema,
+	verifyEmailSchema,
+	changePasswordSchema,
+	changeEmailSchema,
+} from './auth.schema.js';
 
 /** Tests for the registration input schema. */
 describe('registerSchema', () => {
@@ -113,6 +122,24 @@ describe('registerSchema', () => {
 		const result = registerSchema.safeParse(validInput);
 		expect(result.success).toBe(true);
 	});
+
+	/** Validates the optional email language. */
+	describe('locale validation', () => {
+		it('should default to fr', () => {
+			const result = registerSchema.safeParse(validInput);
+			expect(result.success && result.data.locale).toBe('fr');
+		});
+
+		it('should accept en', () => {
+			const result = registerSchema.safeParse({ ...validInput, locale: 'en' });
+			expect(result.success && result.data.locale).toBe('en');
+		});
+
+		it('should reject an unsupported locale', () => {
+			const result = registerSchema.safeParse({ ...validInput, locale: 'de' });
+			expect(result.success).toBe(false);
+		});
+	});
 });
 
 /** Tests for the login input schema (email + non-empty password, no strength check). */
@@ -159,3 +186,84 @@ describe('loginSchema', () => {
 		expect(result.success).toBe(false);
 	});
 });
+
+/** Tests for the password reset input schema. */
+describe('resetPasswordSchema', () => {
+	const validInput = {
+		token: 'reset-token',
+		password: 'NewPassword1',
+		confirmPassword: 'NewPassword1',
+	};
+
+	it('should accept a token with a strong, confirmed password', () => {
+		expect(resetPasswordSchema.safeParse(validInput).success).toBe(true);
+	});
+
+	it('should apply the registration password strength rules', () => {
+		const result = resetPasswordSchema.safeParse({ ...validInput, password: 'weakpass', confirmPassword: 'weakpass' });
+		expect(result.success).toBe(false);
+	});
+
+	it('should reject mismatched passwords', () => {
+		const result = resetPasswordSchema.safeParse({ ...validInput, confirmPassword: 'OtherPassword1' });
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.issues.some((i) => i.path.includes('confirmPassword'))).toBe(true);
+		}
+	});
+
+	it('should reject a missing token', () => {
+		expect(resetPasswordSchema.safeParse({ ...validInput, token: '' }).success).toBe(false);
+	});
+});
+
+/** Tests for the email verification input schema. */
+describe('verifyEmailSchema', () => {
+	it('should require a non-empty token', () => {
+		expect(verifyEmailSchema.safeParse({ token: 'abc' }).success).toBe(true);
+		expect(verifyEmailSchema.safeParse({ token: '' }).success).toBe(false);
+	});
+});
+
+describe('changePasswordSchema', () => {
+	const validInput = { currentPassword: 'OldPassword1', password: 'NewPassword1', confirmPassword: 'NewPassword1' };
+
+	it('should accept a valid password change', () => {
+		expect(changePasswordSchema.safeParse(validInput).success).toBe(true);
+	});
+
+	it('should require the current password', () => {
+		expect(changePasswordSchema.safeParse({ ...validInput, currentPassword: '' }).success).toBe(false);
+	});
+
+	it('should apply the password strength rules to the new password', () => {
+		expect(changePasswordSchema.safeParse({ ...validInput, password: 'weak', confirmPassword: 'weak' }).success).toBe(false);
+	});
+
+	it('should reject a mismatched confirmation', () => {
+		const result = changePasswordSchema.safeParse({ ...validInput, confirmPassword: 'Different1' });
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.issues[0].path).toContain('confirmPassword');
+		}
+	});
+
+	it('should reject a new password equal to the current one', () => {
+		const result = changePasswordSchema.safeParse({ ...validInput, currentPassword: 'NewPassword1' });
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.issues[0].path).toContain('password');
+		}
+	});
+});
+
+describe('changeEmailSchema', () => {
+	it('should accept a valid email change', () => {
+		expect(changeEmailSchema.safeParse({ email: 'new@example.com', currentPassword: 'secret' }).success).toBe(true);
+	});
+
+	it('should reject an invalid email or a missing current password', () => {
+		expect(changeEmailSchema.safeParse({ email: 'not-an-email', currentPassword: 'secret' }).success).toBe(false);
+		expect(changeEmailSchema.safeParse({ email: 'new@example.com', currentPassword: '' }).success).toBe(false);
+	});
+});
@@ -2,10 +2,22 @@
  * @module auth.schema
  * Zod validation schemas for authentication-related API endpoints.
  * Covers user registration (with password strength and confirmation),
- * login credentials, and the authentication response payload.
+ * login credentials, refresh and logout requests, password reset and email
+ * verification requests, password and email changes by the signed-in user,
+ * and the authentication response payload.
  */
 
 import { z } from 'zod';
+import { localeSchema } from './common.schema.js';
+
+/** Password strength rules shared by registration, password reset and password change. */
+const strongPassword = z
+	.string()
+	.min(8, 'Password must be at least 8 characters')
+	.regex(
+		/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+		'Password must contain at least one lowercase, one uppercase, and one number',
+	);
 
 /**
  * Schema for validating user registration input.
@@ -15,18 +27,14 @@ import { z } from 'zod';
  * - `password` -- minimum 8 characters; must contain at least one lowercase letter,
  *   one uppercase letter, and one digit.
  * - `confirmPassword` -- must exactly match `password` (enforced via `.refine()`).
+ * - `locale` -- optional language of the account's emails, `fr` (default) or `en`.
  */
 export const registerSchema = z
 	.object({
 		email: z.email('Invalid email format'),
-		password: z
-			.string()
-			.min(8, 'Password must be at least 8 characters')
-			.regex(
-				/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
-				'Password must contain at least one lowercase, one uppercase, and one number',
-			),
+		password: strongPassword,
 		confirmPassword: z.string(),
+		locale: localeSchema.default('fr'),
 	})
 	.refine((data) => data.password === data.confirmPassword, {
 		message: 'Passwords do not match',
@@ -45,17 +53,114 @@ export const loginSchema = z.object({
 	password: z.string().min(1, 'Password is required'),
 });
 
+/**
+ * Schema for validating a refresh request.
+ *
+ * Validation rules:
+ * - `refreshToken` -- must be a non-empty string (the opaque token from login, registration or a previous refresh).
+ */
+export const refreshTokenSchema = z.object({
+	refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+/**
+ * Schema for validating a logout request.
+ *
+ * Validation rules:
+ * - `all` -- optional boolean; when true every session of the user is revoked,
+ *   otherwise only the session of the presented access token (defaults to false).
+ */
+export const logoutSchema = z.object({
+	all: z.boolean().default(false),
+});
+
+/**
+ * Schema for validating a forgotten password request.
+ *
+ * Validation rules:
+ * - `email` -- must be a valid email address.
+ */
+export const forgotPasswordSchema = z.object({
+	email: z.email('Invalid email format'),
+});
+
+/**
+ * Schema for validating a password reset.
+ *
+ * Validation rules:
+ * - `token` -- must be a non-empty string (the token from the password reset email link).
+ * - `password` -- same strength rules as registration.
+ * - `confirmPassword` -- must exactly match `password` (enforced via `.refine()`).
+ */
+export const resetPasswordSchema = z
+	.object({
+		token: z.string().min(1, 'Token is required'),
+		password: strongPassword,
+		confirmPassword: z.string(),
+	})
+	.refine((data) => data.password === data.confirmPassword, {
+		message: 'Passwords do not match',
+		path: ['confirmPassword'],
+	});
+
+/**
+ * Schema for validating an email verification.
+ *
+ * Validation rules:
+ * - `token` -- must be a non-empty string (the token from the verification email link).
+ */
+export const verifyEmailSchema = z.object({
+	token: z.string().min(1, 'Token is required'),
+});
+
+/**
+ * Schema for validating a password change by the signed-in user.
+ *
+ * Validation rules:
+ * - `currentPassword` -- must be a non-empty string (checked against the stored hash).
+ * - `password` -- same strength rules as registration; must differ from `currentPassword`.
+ * - `confirmPassword` -- must exactly match `password` (enforced via `.refine()`).
+ */
+export const changePasswordSchema = z
+	.object({
+		currentPassword: z.string().min(1, 'Current password is required'),
+		password: strongPassword,
+		confirmPassword: z.string(),
+	})
+	.refine((data) => data.password === data.confirmPassword, {
+		message: 'Passwords do not match',
+		path: ['confirmPassword'],
+	})
+	.refine((data) => data.password !== data.currentPassword, {
+		message: 'New password must differ from the current password',
+		path: ['password'],
+	});
+
+/**
+ * Schema for validating an email change by the signed-in user.
+ *
+ * Validation rules:
+ * - `email` -- must be a valid email address (the new address).
+ * - `currentPassword` -- must be a non-empty string (checked against the stored hash).
+ */
+export const changeEmailSchema = z.object({
+	email: z.email('Invalid email format'),
+	currentPassword: z.string().min(1, 'Current password is required'),
+});
+
 /**
  * Schema for validating the authentication response returned after
- * a successful login or registration.
+ * a successful login, registration or refresh.
  *
  * Validation rules:
  * - `userId` -- must be a valid UUID string.
- * - `token` -- must be a non-empty string (JWT).
+ * - `token` -- must be a non-empty string (short-lived JWT access token).
+ * - `refreshToken` -- must be a non-empty string (single-use opaque refresh token).
  */
 export const authResponseSchema = z.object({
 	userId: z.uuid(),
 	token: z.string(),
+	refreshToken: z.string(),
 });
 
 /** Inferred TypeScript type for a valid registration request body. */
@@ -64,5 +169,26 @@ export type RegisterSchemaType = z.infer<typeof registerSchema>;
 /** Inferred TypeScript type for a valid login request body. */
 export type LoginSchemaType = z.infer<typeof loginSchema>;
 
-/** Inferred TypeScript type for the authentication response payload (userId + JWT token). */
+/** Inferred TypeScript type for a valid refresh request body. */
+export type RefreshTokenSchemaType = z.infer<typeof refreshTokenSchema>;
+
+/** Inferred TypeScript type for a valid logout request body. */
+export type LogoutSchemaType = z.infer<typeof logoutSchema>;
+
+/** Inferred TypeScript type for a valid forgotten password request body. */
+export type ForgotPasswordSchemaType = z.infer<typeof forgotPasswordSchema>;
+
+/** Inferred TypeScript type for a valid password reset request body. */
+export type ResetPasswordSchemaType = z.infer<typeof resetPasswordSchema>;
+
+/** Inferred TypeScript type for a valid email verification request body. */
+export type VerifyEmailSchemaType = z.infer<typeof verifyEmailSchema>;
+
+/** Inferred TypeScript type for a valid password change request body. */
+export type ChangePasswordSchemaType = z.infer<typeof changePasswordSchema>;
+
+/** Inferred TypeScript type for a valid email change request body. */
+export type ChangeEmailSchemaType = z.infer<typeof changeEmailSchema>;
+
+/** Inferred TypeScript type for the authentication response payload (userId + JWT token + refresh token). */
 export type AuthResponseType = z.infer<typeof authResponseSchema>;
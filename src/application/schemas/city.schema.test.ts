@@ -1,7 +1,8 @@
 /**
  * @module city.schema.test
  * Unit tests for the city Zod schema (createCitySchema).
- * Verifies that both cityName and zipcode are required, non-empty strings.
+ * Verifies that both cityName and zipcode are required, non-empty strings,
+ * and that optional coordinates are in range and given together.
  */
 
 import { describe, it, expect } from 'vitest';
@@ -35,4 +36,19 @@ describe('createCitySchema', () => {
 		const result = createCitySchema.safeParse({ ...validInput, zipcode: '' });
 		expect(result.success).toBe(false);
 	});
+
+	it('should accept coordinates', () => {
+		const result = createCitySchema.safeParse({ ...validInput, latitude: 48.8566, longitude: 2.3522 });
+		expect(result.success).toBe(true);
+	});
+
+	it('should reject out-of-range coordinates', () => {
+		expect(createCitySchema.safeParse({ ...validInput, latitude: 91, longitude: 0 }).success).toBe(false);
+		expect(createCitySchema.safeParse({ ...validInput, latitude: 0, longitude: -181 }).success).toBe(false);
+	});
+
+	it('should reject a latitude without a longitude', () => {
+		const result = createCitySchema.safeParse({ ...validInput, latitude: 48.8566 });
+		expect(result.success).toBe(false);
+	});
 });
@@ -13,10 +13,18 @@ import { z } from 'zod';
  * Validation rules:
  * - `cityName` -- non-empty string for the city name (e.g. "Paris").
  * - `zipcode` -- non-empty string for the postal / zip code (e.g. "75000").
+ * - `latitude` -- optional number between -90 and 90 (decimal degrees).
+ * - `longitude` -- optional number between -180 and 180 (decimal degrees).
+ *   Coordinates must be given together.
  */
 export const createCitySchema = z.object({
 	cityName: z.string().min(1, 'City name is required'),
 	zipcode: z.string().min(1, 'Postal code is required'),
+	latitude: z.number().min(-90).max(90).optional(),
+	longitude: z.number().min(-180).max(180).optional(),
+}).refine((data) => (data.latitude === undefined) === (data.longitude === undefined), {
+	message: 'Latitude and longitude must be provided together',
+	path: ['longitude'],
 });
 
 /** Inferred TypeScript type for a valid city creation request body. */
@@ -1,3 +1,5 @@
 import { z } from 'zod';
 
 export const uuidSchema = z.uuid('Invalid UUID format');
+
+export const localeSchema = z.enum(['fr', 'en'], 'Locale must be fr or en');
@@ -0,0 +1,26 @@
+/**
+ * @module email-template.schema.test
+ * Unit tests for the email template Zod schema (emailTemplatePreviewSchema).
+ * Verifies that the locale defaults to fr and is limited to supported locales.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { emailTemplatePreviewSchema } from './email-template.schema.js';
+
+/** Tests for emailTemplatePreviewSchema -- validates the optional locale. */
+describe('emailTemplatePreviewSchema', () => {
+	it('should default the locale to fr', () => {
+		const result = emailTemplatePreviewSchema.safeParse({});
+		expect(result.success && result.data.locale).toBe('fr');
+	});
+
+	it('should accept a supported locale', () => {
+		const result = emailTemplatePreviewSchema.safeParse({ locale: 'en' });
+		expect(result.success && result.data.locale).toBe('en');
+	});
+
+	it('should reject an unsupported locale', () => {
+		const result = emailTemplatePreviewSchema.safeParse({ locale: 'es' });
+		expect(result.success).toBe(false);
+	});
+});
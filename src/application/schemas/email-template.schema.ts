@@ -0,0 +1,21 @@
+/**
+ * @module email-template.schema
+ * Zod validation schema for the email template admin endpoints.
+ * Validates the locale an email template is previewed in.
+ */
+
+import { z } from 'zod';
+import { localeSchema } from './common.schema.js';
+
+/**
+ * Schema for validating the email template preview options.
+ *
+ * Validation rules:
+ * - `locale` -- optional; `fr` (default) or `en`.
+ */
+export const emailTemplatePreviewSchema = z.object({
+	locale: localeSchema.default('fr'),
+});
+
+/** Inferred TypeScript type for valid email template preview options. */
+export type EmailTemplatePreviewSchemaType = z.infer<typeof emailTemplatePreviewSchema>;
@@ -1,12 +1,13 @@
 /**
  * @module inscription.schema.test
- * Unit tests for the inscription Zod schema (createInscriptionSchema).
- * Verifies that tripId is required and non-empty, and that userId
- * is not required in the schema (it comes from the JWT token).
+ * Unit tests for the inscription Zod schemas (createInscriptionSchema, cancelInscriptionSchema).
+ * Verifies that tripId is required and non-empty, that userId
+ * is not required in the schema (it comes from the JWT token), and that
+ * the cancellation reason is optional and bounded.
  */
 
 import { describe, it, expect } from 'vitest';
-import { createInscriptionSchema } from './inscription.schema.js';
+import { cancelInscriptionSchema, createInscriptionSchema } from './inscription.schema.js';
 
 /** Tests for createInscriptionSchema -- validates tripId presence and confirms userId is not required. */
 describe('createInscriptionSchema', () => {
@@ -31,4 +32,38 @@ describe('createInscriptionSchema', () => {
 		const result = createInscriptionSchema.safeParse({ tripId: 'trip-1' });
 		expect(result.success).toBe(true);
 	});
+
+	it('should accept optional pickup and dropoff cities', () => {
+		const result = createInscriptionSchema.safeParse({ tripId: 'trip-1', pickupCity: 'Lyon', dropoffCity: 'Marseille' });
+		expect(result.success).toBe(true);
+	});
+
+	it('should reject an empty pickup city', () => {
+		const result = createInscriptionSchema.safeParse({ tripId: 'trip-1', pickupCity: '' });
+		expect(result.success).toBe(false);
+	});
+});
+
+/** Tests for cancelInscriptionSchema -- validates the optional cancellation reason. */
+describe('cancelInscriptionSchema', () => {
+	it('should accept an empty body', () => {
+		const result = cancelInscriptionSchema.safeParse({});
+		expect(result.success).toBe(true);
+	});
+
+	it('should trim the reason', () => {
+		const result = cancelInscriptionSchema.safeParse({ reason: '  Plans changed  ' });
+		expect(result.success).toBe(true);
+		if (result.success) expect(result.data.reason).toBe('Plans changed');
+	});
+
+	it('should reject a blank reason', () => {
+		const result = cancelInscriptionSchema.safeParse({ reason: '   ' });
+		expect(result.success).toBe(false);
+	});
+
+	it('should reject a reason longer than 500 characters', () => {
+		const result = cancelInscriptionSchema.safeParse({ reason: 'a'.repeat(501) });
+		expect(result.success).toBe(false);
+	});
 });
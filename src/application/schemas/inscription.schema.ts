@@ -13,13 +13,30 @@ import { z } from 'zod';
  *
  * Validation rules:
  * - `tripId` -- non-empty string identifier referencing the trip to join.
+ * - `pickupCity` -- optional name of the stop where the passenger boards; defaults to the departure.
+ * - `dropoffCity` -- optional name of the stop where the passenger leaves; defaults to the arrival.
  *
  * Note: The passenger's user ID is not included here; it is resolved
  * from the authenticated JWT context at the controller level.
  */
 export const createInscriptionSchema = z.object({
 	tripId: z.string().min(1, 'Trip ID is required'),
+	pickupCity: z.string().min(1, 'Pickup city cannot be empty').optional(),
+	dropoffCity: z.string().min(1, 'Dropoff city cannot be empty').optional(),
+});
+
+/**
+ * Schema for validating the optional body of an inscription cancellation.
+ *
+ * Validation rules:
+ * - `reason` -- optional free-text reason, trimmed, at most 500 characters.
+ */
+export const cancelInscriptionSchema = z.object({
+	reason: z.string().trim().min(1, 'Reason cannot be empty').max(500, 'Reason must be at most 500 characters').optional(),
 });
 
 /** Inferred TypeScript type for a valid inscription (booking) request body. */
 export type CreateInscriptionSchemaType = z.infer<typeof createInscriptionSchema>;
+
+/** Inferred TypeScript type for a valid inscription cancellation body. */
+export type CancelInscriptionSchemaType = z.infer<typeof cancelInscriptionSchema>;
@@ -0,0 +1,26 @@
+/**
+ * @module outbox.schema.test
+ * Unit tests for the outbox Zod schema (outboxMessageFiltersSchema).
+ * Verifies that the status filter is optional and limited to known states.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { outboxMessageFiltersSchema } from './outbox.schema.js';
+
+/** Tests for outboxMessageFiltersSchema -- validates the optional status filter. */
+describe('outboxMessageFiltersSchema', () => {
+	it('should accept no filter', () => {
+		const result = outboxMessageFiltersSchema.safeParse({});
+		expect(result.success).toBe(true);
+	});
+
+	it('should accept a known status', () => {
+		const result = outboxMessageFiltersSchema.safeParse({ status: 'DEAD' });
+		expect(result.success).toBe(true);
+	});
+
+	it('should reject an unknown status', () => {
+		const result = outboxMessageFiltersSchema.safeParse({ status: 'FAILED' });
+		expect(result.success).toBe(false);
+	});
+});
@@ -0,0 +1,20 @@
+/**
+ * @module outbox.schema
+ * Zod validation schema for the outbox admin endpoints.
+ * Validates the filters used to inspect the email delivery queue.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for validating the outbox message list filters.
+ *
+ * Validation rules:
+ * - `status` -- optional; one of PENDING, PROCESSING, SENT or DEAD.
+ */
+export const outboxMessageFiltersSchema = z.object({
+	status: z.enum(['PENDING', 'PROCESSING', 'SENT', 'DEAD']).optional(),
+});
+
+/** Inferred TypeScript type for valid outbox message list filters. */
+export type OutboxMessageFiltersSchemaType = z.infer<typeof outboxMessageFiltersSchema>;
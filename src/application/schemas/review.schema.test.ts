@@ -0,0 +1,43 @@
+/**
+ * @module review.schema.test
+ * Unit tests for the review Zod schema (createReviewSchema).
+ * Verifies that the score is a whole number from 1 to 5 and that the
+ * optional comment is trimmed, not blank and bounded.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createReviewSchema } from './review.schema.js';
+
+/** Tests for createReviewSchema -- validates the score and comment. */
+describe('createReviewSchema', () => {
+	it('should accept a score without a comment', () => {
+		const result = createReviewSchema.safeParse({ score: 5 });
+		expect(result.success).toBe(true);
+	});
+
+	it('should trim the comment', () => {
+		const result = createReviewSchema.safeParse({ score: 4, comment: '  Punctual driver  ' });
+		expect(result.success).toBe(true);
+		if (result.success) expect(result.data.comment).toBe('Punctual driver');
+	});
+
+	it.each([0, 6, 3.5])('should reject a score of %s', (score) => {
+		const result = createReviewSchema.safeParse({ score });
+		expect(result.success).toBe(false);
+	});
+
+	it('should reject a missing score', () => {
+		const result = createReviewSchema.safeParse({ comment: 'Great' });
+		expect(result.success).toBe(false);
+	});
+
+	it('should reject a blank comment', () => {
+		const result = createReviewSchema.safeParse({ score: 3, comment: '   ' });
+		expect(result.success).toBe(false);
+	});
+
+	it('should reject a comment longer than 1000 characters', () => {
+		const result = createReviewSchema.safeParse({ score: 3, comment: 'a'.repeat(1001) });
+		expect(result.success).toBe(false);
+	});
+});
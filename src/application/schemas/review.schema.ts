@@ -0,0 +1,25 @@
+/**
+ * @module review.schema
+ * Zod validation schema for the rating endpoints.
+ * Validates the score and optional comment left by a passenger about a
+ * driver, or by a driver about a passenger. The trip, the rated user and
+ * the author come from the route and the JWT token, so none is part of
+ * this schema.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for validating a new review.
+ *
+ * Validation rules:
+ * - `score` -- integer between 1 and 5.
+ * - `comment` -- optional free text, trimmed, between 1 and 1000 characters.
+ */
+export const createReviewSchema = z.object({
+	score: z.number().int('Score must be a whole number').min(1, 'Score must be between 1 and 5').max(5, 'Score must be between 1 and 5'),
+	comment: z.string().trim().min(1, 'Comment cannot be empty').max(1000, 'Comment must be at most 1000 characters').optional(),
+});
+
+/** Inferred TypeScript type for a valid review request body. */
+export type CreateReviewSchemaType = z.infer<typeof createReviewSchema>;
@@ -0,0 +1,37 @@
+/**
+ * @module trip-message.schema.test
+ * Unit tests for the trip message Zod schema (postTripMessageSchema).
+ * Verifies that the body is required, trimmed, not blank and bounded.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { postTripMessageSchema } from './trip-message.schema.js';
+
+/** Tests for postTripMessageSchema -- validates the message body. */
+describe('postTripMessageSchema', () => {
+	it('should accept a valid message', () => {
+		const result = postTripMessageSchema.safeParse({ body: 'See you at the station' });
+		expect(result.success).toBe(true);
+	});
+
+	it('should trim the body', () => {
+		const result = postTripMessageSchema.safeParse({ body: '  On my way  ' });
+		expect(result.success).toBe(true);
+		if (result.success) expect(result.data.body).toBe('On my way');
+	});
+
+	it('should reject a missing body', () => {
+		const result = postTripMessageSchema.safeParse({});
+		expect(result.success).toBe(false);
+	});
+
+	it('should reject a blank body', () => {
+		const result = postTripMessageSchema.safeParse({ body: '   ' });
+		expect(result.success).toBe(false);
+	});
+
+	it('should reject a body longer than 2000 characters', () => {
+		const result = postTripMessageSchema.safeParse({ body: 'a'.repeat(2001) });
+		expect(result.success).toBe(false);
+	});
+});
@@ -0,0 +1,22 @@
+/**
+ * @module trip-message.schema
+ * Zod validation schema for the per-trip conversation endpoints.
+ * Validates the body of a message posted by the driver or a passenger.
+ * The trip ID comes from the route and the author from the JWT token,
+ * so neither is part of this schema.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for validating a new trip message.
+ *
+ * Validation rules:
+ * - `body` -- message text, trimmed, between 1 and 2000 characters.
+ */
+export const postTripMessageSchema = z.object({
+	body: z.string().trim().min(1, 'Message cannot be empty').max(2000, 'Message must be at most 2000 characters'),
+});
+
+/** Inferred TypeScript type for a valid trip message request body. */
+export type PostTripMessageSchemaType = z.infer<typeof postTripMessageSchema>;
@@ -0,0 +1,104 @@
+/**
+ * @module trip-series.schema.test
+ * Unit tests for the trip series Zod schemas (createTripSeriesSchema,
+ * updateTripSeriesSchema, updateTripSeriesOccurrenceSchema).
+ * Verifies the days of the week, day and time formats, the date range, the
+ * route and the requirement of at least one field on edits.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTripSeriesSchema, MAX_SERIES_EXCEPTIONS, updateTripSeriesOccurrenceSchema, updateTripSeriesSchema } from './trip-series.schema.js';
+
+const validSeries = {
+	daysOfWeek: [1, 2, 3, 4, 5],
+	departureTime: '07:45',
+	startDate: '2026-10-19',
+	endDate: '2026-12-18',
+	exceptions: ['2026-11-11'],
+	kms: 60,
+	departureCity: 'Lyon',
+	arrivalCity: 'Grenoble',
+	seats: 3,
+	carId: 'car-1',
+};
+
+/** Tests for createTripSeriesSchema -- validates the recurrence and the trip template. */
+describe('createTripSeriesSchema', () => {
+	it('should accept a valid series', () => {
+		const result = createTripSeriesSchema.safeParse(validSeries);
+		expect(result.success).toBe(true);
+	});
+
+	it('should accept an open-ended series without exceptions', () => {
+		const { endDate, exceptions, ...openEnded } = validSeries;
+		const result = createTripSeriesSchema.safeParse(openEnded);
+		expect(result.success).toBe(true);
+	});
+
+	it.each([[[]], [[0]], [[8]], [[1, 1]], [[1.5]]])('should reject days of the week %j', (daysOfWeek) => {
+		const result = createTripSeriesSchema.safeParse({ ...validSeries, daysOfWeek });
+		expect(result.success).toBe(false);
+	});
+
+	it.each(['7:45', '24:00', '07:60'])('should reject the departure time %s', (departureTime) => {
+		const result = createTripSeriesSchema.safeParse({ ...validSeries, departureTime });
+		expect(result.success).toBe(false);
+	});
+
+	it.each(['19/10/2026', '2026-13-01', 'tomorrow'])('should reject the start date %s', (startDate) => {
+		const result = createTripSeriesSchema.safeParse({ ...validSeries, startDate });
+		expect(result.success).toBe(false);
+	});
+
+	it('should reject an end date before the start date', () => {
+		const result = createTripSeriesSchema.safeParse({ ...validSeries, endDate: '2026-10-18' });
+		expect(result.success).toBe(false);
+	});
+
+	it(`should reject more than ${MAX_SERIES_EXCEPTIONS} exceptions`, () => {
+		const exceptions = Array.from({ length: MAX_SERIES_EXCEPTIONS + 1 }, () => '2026-11-11');
+		const result = createTripSeriesSchema.safeParse({ ...validSeries, exceptions });
+		expect(result.success).toBe(false);
+	});
+
+	it('should reject a route visiting a city twice', () => {
+		const result = createTripSeriesSchema.safeParse({ ...validSeries, stops: ['grenoble'] });
+		expect(result.success).toBe(false);
+	});
+});
+
+/** Tests for updateTripSeriesSchema -- validates an edit of the whole series. */
+describe('updateTripSeriesSchema', () => {
+	it('should accept a partial edit', () => {
+		const result = updateTripSeriesSchema.safeParse({ departureTime: '08:00', exceptions: [] });
+		expect(result.success).toBe(true);
+	});
+
+	it('should accept a null end date to make the series open-ended', () => {
+		const result = updateTripSeriesSchema.safeParse({ endDate: null });
+		expect(result.success).toBe(true);
+	});
+
+	it('should reject an empty edit', () => {
+		const result = updateTripSeriesSchema.safeParse({});
+		expect(result.success).toBe(false);
+	});
+});
+
+/** Tests for updateTripSeriesOccurrenceSchema -- validates an edit of one occurrence. */
+describe('updateTripSeriesOccurrenceSchema', () => {
+	it('should accept a new departure date', () => {
+		const result = updateTripSeriesOccurrenceSchema.safeParse({ date: '2026-10-21T08:15:00' });
+		expect(result.success).toBe(true);
+	});
+
+	it('should reject an invalid date', () => {
+		const result = updateTripSeriesOccurrenceSchema.safeParse({ date: 'soon' });
+		expect(result.success).toBe(false);
+	});
+
+	it('should reject an empty edit', () => {
+		const result = updateTripSeriesOccurrenceSchema.safeParse({});
+		expect(result.success).toBe(false);
+	});
+});
@@ -0,0 +1,119 @@
+/**
+ * @module trip-series.schema
+ * Zod validation schemas for the recurring trip (trip series) endpoints.
+ * Provides schemas for creating a series, editing the whole series, and
+ * editing a single occurrence. Days are given as `YYYY-MM-DD` and times of
+ * day as `HH:MM`. The driver's user ID is extracted from the JWT token and is
+ * not part of these schemas.
+ */
+
+import { z } from 'zod';
+import { MAX_TRIP_STOPS, timeOfDaySchema } from './trip.schema.js';
+
+/** Maximum number of exception days a series may declare. */
+export const MAX_SERIES_EXCEPTIONS = 100;
+
+/** A calendar day in `YYYY-MM-DD` format. */
+const daySchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, 'Day must be in YYYY-MM-DD format')
+	.refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid day');
+
+/** ISO days of the week the trip runs on, from 1 (Monday) to 7 (Sunday), each at most once. */
+const daysOfWeekSchema = z
+	.array(z.number().int().min(1, 'Days of the week go from 1 (Monday) to 7 (Sunday)').max(7, 'Days of the week go from 1 (Monday) to 7 (Sunday)'))
+	.min(1, 'At least one day of the week is required')
+	.refine((days) => new Set(days).size === days.length, 'A day of the week can only be given once');
+
+const exceptionsSchema = z.array(daySchema).max(MAX_SERIES_EXCEPTIONS, `A series cannot have more than ${MAX_SERIES_EXCEPTIONS} exceptions`);
+const kmsSchema = z.number().int().positive('Kilometers must be positive');
+const seatsSchema = z.number().int().positive('Seats must be positive');
+const pricePerSeatSchema = z.number().int().nonnegative('Price per seat cannot be negative');
+
+/**
+ * Schema for validating trip series creation input.
+ *
+ * Validation rules:
+ * - `daysOfWeek` -- non-empty list of distinct ISO days of the week (1 = Monday ... 7 = Sunday).
+ * - `departureTime` -- departure time of day, as `HH:MM`.
+ * - `startDate` -- first day of the series, as `YYYY-MM-DD`.
+ * - `endDate` -- optional last day of the series; not before `startDate`. An open-ended
+ *   series keeps running until it is cancelled.
+ * - `exceptions` -- optional days, up to {@link MAX_SERIES_EXCEPTIONS}, the trip does not run on.
+ * - `kms`, `seats`, `carId`, `departureCity`, `arrivalCity`, `stops`, `pricePerSeat` and
+ *   `requiresApproval` -- as for a one-off trip, applied to every occurrence.
+ */
+export const createTripSeriesSchema = z
+	.object({
+		daysOfWeek: daysOfWeekSchema,
+		departureTime: timeOfDaySchema,
+		startDate: daySchema,
+		endDate: daySchema.optional(),
+		exceptions: exceptionsSchema.optional(),
+		kms: kmsSchema,
+		departureCity: z.string().min(1, 'Departure city is required'),
+		arrivalCity: z.string().min(1, 'Arrival city is required'),
+		stops: z.array(z.string().min(1, 'Stop city is required')).max(MAX_TRIP_STOPS, `A trip cannot have more than ${MAX_TRIP_STOPS} stops`).optional(),
+		seats: seatsSchema,
+		carId: z.string().min(1, 'Car ID is required'),
+		pricePerSeat: pricePerSeatSchema.optional(),
+		requiresApproval: z.boolean().optional(),
+	})
+	.refine((data) => !data.endDate || data.startDate <= data.endDate, { message: 'endDate must not be before startDate', path: ['endDate'] })
+	.refine(
+		(data) => {
+			const route = [data.departureCity, ...(data.stops ?? []), data.arrivalCity].map((city) => city.toLowerCase());
+			return new Set(route).size === route.length;
+		},
+		{ message: 'A city can only appear once on a trip', path: ['stops'] },
+	);
+
+/**
+ * Schema for validating an edit of a whole series. Every field is optional, but at least
+ * one must be given. Changes apply to the series and to its upcoming occurrences that were
+ * not edited on their own.
+ *
+ * Validation rules:
+ * - `daysOfWeek`, `departureTime`, `exceptions`, `kms`, `seats`, `pricePerSeat`,
+ *   `requiresApproval` -- as on creation; `exceptions` replaces the whole list.
+ * - `endDate` -- new last day, or null to make the series open-ended.
+ */
+export const updateTripSeriesSchema = z
+	.object({
+		daysOfWeek: daysOfWeekSchema.optional(),
+		departureTime: timeOfDaySchema.optional(),
+		endDate: daySchema.nullable().optional(),
+		exceptions: exceptionsSchema.optional(),
+		kms: kmsSchema.optional(),
+		seats: seatsSchema.optional(),
+		pricePerSeat: pricePerSeatSchema.optional(),
+		requiresApproval: z.boolean().optional(),
+	})
+	.refine((data) => Object.values(data).some((value) => value !== undefined), { message: 'At least one field is required' });
+
+/**
+ * Schema for validating an edit of a single occurrence. Every field is optional, but at
+ * least one must be given. The occurrence then keeps its own values when the series is edited.
+ *
+ * Validation rules:
+ * - `date` -- new departure date and time of this occurrence.
+ * - `kms`, `seats`, `pricePerSeat`, `requiresApproval` -- as on creation.
+ */
+export const updateTripSeriesOccurrenceSchema = z
+	.object({
+		date: z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date').optional(),
+		kms: kmsSchema.optional(),
+		seats: seatsSchema.optional(),
+		pricePerSeat: pricePerSeatSchema.optional(),
+		requiresApproval: z.boolean().optional(),
+	})
+	.refine((data) => Object.values(data).some((value) => value !== undefined), { message: 'At least one field is required' });
+
+/** Inferred TypeScript type for a valid trip series creation request body. */
+export type CreateTripSeriesSchemaType = z.infer<typeof createTripSeriesSchema>;
+
+/** Inferred TypeScript type for a valid trip series edit request body. */
+export type UpdateTripSeriesSchemaType = z.infer<typeof updateTripSeriesSchema>;
+
+/** Inferred TypeScript type for a valid occurrence edit request body. */
+export type UpdateTripSeriesOccurrenceSchemaType = z.infer<typeof updateTripSeriesOccurrenceSchema>;
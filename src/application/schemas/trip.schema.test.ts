@@ -1,13 +1,14 @@
 /**
  * @module trip.schema.test
- * Unit tests for the trip Zod schema (createTripSchema).
+ * Unit tests for the trip Zod schemas (createTripSchema, findTripQuerySchema,
+ * tripPriceSuggestionQuerySchema, cancelTripSchema).
  * Verifies validation of all required fields (kms, date, departureCity,
  * arrivalCity, seats, carId) including integer and positivity constraints,
  * and confirms that userId is not required (it comes from the JWT token).
  */
 
 import { describe, it, expect } from 'vitest';
-import { createTripSchema } from './trip.schema.js';
+import { cancelTripSchema, createTripSchema, findTripQuerySchema, MAX_TRIP_STOPS, tripPriceSuggestionQuerySchema } from './trip.schema.js';
 
 /** Tests for createTripSchema -- validates all trip creation fields and their constraints. */
 describe('createTripSchema', () => {
@@ -85,4 +86,137 @@ describe('createTripSchema', () => {
         const result = createTripSchema.safeParse(rest);
         expect(result.success).toBe(false);
     });
+
+    it('should accept an optional pricePerSeat in cents', () => {
+        const result = createTripSchema.safeParse({ ...validInput, pricePerSeat: 1500 });
+        expect(result.success).toBe(true);
+    });
+
+    it('should reject a negative pricePerSeat', () => {
+        const result = createTripSchema.safeParse({ ...validInput, pricePerSeat: -1 });
+        expect(result.success).toBe(false);
+    });
+
+    it('should reject a non-integer pricePerSeat', () => {
+        const result = createTripSchema.safeParse({ ...validInput, pricePerSeat: 12.5 });
+        expect(result.success).toBe(false);
+    });
+
+    it('should accept an optional requiresApproval flag', () => {
+        const result = createTripSchema.safeParse({ ...validInput, requiresApproval: true });
+        expect(result.success).toBe(true);
+    });
+
+    it('should reject a non-boolean requiresApproval', () => {
+        const result = createTripSchema.safeParse({ ...validInput, requiresApproval: 'yes' });
+        expect(result.success).toBe(false);
+    });
+
+    it('should accept ordered intermediate stops', () => {
+        const result = createTripSchema.safeParse({ ...validInput, stops: ['Dijon', 'Macon'] });
+        expect(result.success).toBe(true);
+    });
+
+    it('should reject more stops than allowed', () => {
+        const result = createTripSchema.safeParse({ ...validInput, stops: Array.from({ length: MAX_TRIP_STOPS + 1 }, (_, i) => `City ${i}`) });
+        expect(result.success).toBe(false);
+    });
+
+    it('should reject a city appearing twice on the route', () => {
+        const result = createTripSchema.safeParse({ ...validInput, stops: [validInput.arrivalCity.toUpperCase()] });
+        expect(result.success).toBe(false);
+    });
+});
+
+/** Tests for findTripQuerySchema -- validates search filters, sort and defaults. */
+describe('findTripQuerySchema', () => {
+    it('should default the sort to ascending departure time', () => {
+        const result = findTripQuerySchema.safeParse({});
+        expect(result.success).toBe(true);
+        if (result.success) expect(result.data).toEqual({ sortBy: 'departureTime', sortOrder: 'asc' });
+    });
+
+    it('should coerce minSeats and maxPrice from query strings', () => {
+        const result = findTripQuerySchema.safeParse({ minSeats: '2', maxPrice: '0' });
+        expect(result.success).toBe(true);
+        if (result.success) {
+            expect(result.data.minSeats).toBe(2);
+            expect(result.data.maxPrice).toBe(0);
+        }
+    });
+
+    it('should reject a non-positive minSeats', () => {
+        expect(findTripQuerySchema.safeParse({ minSeats: '0' }).success).toBe(false);
+    });
+
+    it('should accept HH:MM departure times and reject other formats', () => {
+        expect(findTripQuerySchema.safeParse({ departureTimeFrom: '07:00', departureTimeTo: '23:59' }).success).toBe(true);
+        expect(findTripQuerySchema.safeParse({ departureTimeFrom: '24:00' }).success).toBe(false);
+        expect(findTripQuerySchema.safeParse({ departureTimeTo: '7:00' }).success).toBe(false);
+    });
+
+    it('should reject an invalid date or a dateFrom after dateTo', () => {
+        expect(findTripQuerySchema.safeParse({ dateFrom: 'tomorrow' }).success).toBe(false);
+        expect(findTripQuerySchema.safeParse({ dateFrom: '2025-06-20', dateTo: '2025-06-15' }).success).toBe(false);
+        expect(findTripQuerySchema.safeParse({ dateFrom: '2025-06-15', dateTo: '2025-06-15' }).success).toBe(true);
+    });
+
+    it('should coerce search coordinates and radius from query strings', () => {
+        const result = findTripQuerySchema.safeParse({ departureLat: '48.8049', departureLng: '2.1204', departureRadiusKm: '15' });
+        expect(result.success).toBe(true);
+        if (result.success) expect(result.data).toMatchObject({ departureLat: 48.8049, departureLng: 2.1204, departureRadiusKm: 15 });
+    });
+
+    it('should require latitude and longitude together', () => {
+        expect(findTripQuerySchema.safeParse({ departureLat: '48.8' }).success).toBe(false);
+        expect(findTripQuerySchema.safeParse({ arrivalLng: '4.8' }).success).toBe(false);
+    });
+
+    it('should reject out-of-range coordinates and radii', () => {
+        expect(findTripQuerySchema.safeParse({ arrivalLat: '95', arrivalLng: '4.8' }).success).toBe(false);
+        expect(findTripQuerySchema.safeParse({ departureLat: '48.8', departureLng: '2.1', departureRadiusKm: '0' }).success).toBe(false);
+        expect(findTripQuerySchema.safeParse({ departureLat: '48.8', departureLng: '2.1', departureRadiusKm: '500' }).success).toBe(false);
+    });
+
+    it('should reject an unknown sort field', () => {
+        expect(findTripQuerySchema.safeParse({ sortBy: 'price' }).success).toBe(false);
+    });
+});
+
+/** Tests for tripPriceSuggestionQuerySchema -- validates the kms query parameter. */
+describe('tripPriceSuggestionQuerySchema', () => {
+    it('should coerce kms from a query string', () => {
+        const result = tripPriceSuggestionQuerySchema.safeParse({ kms: '450' });
+        expect(result.success).toBe(true);
+        if (result.success) expect(result.data.kms).toBe(450);
+    });
+
+    it('should reject missing kms', () => {
+        const result = tripPriceSuggestionQuerySchema.safeParse({});
+        expect(result.success).toBe(false);
+    });
+});
+
+/** Tests for cancelTripSchema -- validates the optional cancellation reason. */
+describe('cancelTripSchema', () => {
+    it('should accept an empty body', () => {
+        const result = cancelTripSchema.safeParse({});
+        expect(result.success).toBe(true);
+    });
+
+    it('should trim the reason', () => {
+        const result = cancelTripSchema.safeParse({ reason: '  Car broke down  ' });
+        expect(result.success).toBe(true);
+        if (result.success) expect(result.data.reason).toBe('Car broke down');
+    });
+
+    it('should reject a blank reason', () => {
+        const result = cancelTripSchema.safeParse({ reason: '   ' });
+        expect(result.success).toBe(false);
+    });
+
+    it('should reject a reason longer than 500 characters', () => {
+        const result = cancelTripSchema.safeParse({ reason: 'a'.repeat(501) });
+        expect(result.success).toBe(false);
+    });
 });
@@ -8,6 +8,9 @@
 
 import { z } from 'zod';
 
+/** Maximum number of intermediate stops a trip may declare. */
+export const MAX_TRIP_STOPS = 8;
+
 /**
  * Schema for validating trip creation input.
  *
@@ -16,8 +19,14 @@ import { z } from 'zod';
  * - `date` -- non-empty string for the trip date (e.g. "2025-06-15").
  * - `departureCity` -- non-empty string identifier for the departure city.
  * - `arrivalCity` -- non-empty string identifier for the arrival city.
+ * - `stops` -- optional ordered list of up to {@link MAX_TRIP_STOPS} intermediate city names
+ *   served between the departure and the arrival. All cities of the route must be distinct.
  * - `seats` -- positive integer for the number of available passenger seats.
  * - `carId` -- non-empty string identifier referencing the driver's car.
+ * - `pricePerSeat` -- optional non-negative integer price per passenger, in euro cents.
+ *   When omitted, the suggested price computed from `kms` is used.
+ * - `requiresApproval` -- optional boolean; when true, passengers' inscriptions stay
+ *   pending until the driver accepts them. Defaults to false (instant booking).
  *
  * Note: The driver's user ID is not included; it is resolved from the
  * authenticated JWT context at the controller level.
@@ -27,9 +36,31 @@ export const createTripSchema = z.object({
     date: z.string().min(1, 'Date is required'),
     departureCity: z.string().min(1, 'Departure city is required'),
     arrivalCity: z.string().min(1, 'Arrival city is required'),
+    stops: z.array(z.string().min(1, 'Stop city is required')).max(MAX_TRIP_STOPS, `A trip cannot have more than ${MAX_TRIP_STOPS} stops`).optional(),
     seats: z.number().int().positive('Seats must be positive'),
     carId: z.string().min(1, 'Car ID is required'),
-});
+    pricePerSeat: z.number().int().nonnegative('Price per seat cannot be negative').optional(),
+    requiresApproval: z.boolean().optional(),
+}).refine((data) => {
+    const route = [data.departureCity, ...(data.stops ?? []), data.arrivalCity].map((city) => city.toLowerCase());
+    return new Set(route).size === route.length;
+}, { message: 'A city can only appear once on a trip', path: ['stops'] });
+
+/** Time of day in 24-hour `HH:MM` format, used to bound the departure time in searches and to schedule trip series. */
+export const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+/** Search radius applied around a searched point when none is given, in kilometers. */
+export const DEFAULT_SEARCH_RADIUS_KM = 20;
+
+/** Largest accepted search radius, in kilometers. */
+export const MAX_SEARCH_RADIUS_KM = 200;
+
+const latitudeSchema = z.coerce.number().min(-90, 'Latitude must be between -90 and 90').max(90, 'Latitude must be between -90 and 90');
+const longitudeSchema = z.coerce.number().min(-180, 'Longitude must be between -180 and 180').max(180, 'Longitude must be between -180 and 180');
+const radiusSchema = z.coerce.number().positive('Radius must be positive').max(MAX_SEARCH_RADIUS_KM, `Radius cannot exceed ${MAX_SEARCH_RADIUS_KM} km`);
+
+/** Date string accepted by `Date` parsing (e.g. "2025-06-15"). */
+const searchDateSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
 
 /**
  * Schema for validating trip search query parameters.
@@ -38,12 +69,68 @@ export const createTripSchema = z.object({
  * Validation rules:
  * - `departureCity` -- optional string to filter by departure city.
  * - `arrivalCity` -- optional string to filter by arrival city.
- * - `date` -- optional string to filter by trip date.
+ * - `departureLat` / `departureLng` -- optional coordinates (coerced, given together) of the
+ *   point the passenger boards near; takes precedence over `departureCity`.
+ * - `departureRadiusKm` -- optional radius around the departure point, up to
+ *   {@link MAX_SEARCH_RADIUS_KM} (defaults to {@link DEFAULT_SEARCH_RADIUS_KM}).
+ * - `arrivalLat` / `arrivalLng` / `arrivalRadiusKm` -- the same for the arrival point.
+ * - `date` -- optional string to filter by a single trip day (shorthand for `dateFrom` = `dateTo`).
+ * - `dateFrom` / `dateTo` -- optional inclusive day range; `dateFrom` cannot be after `dateTo`.
+ * - `departureTimeFrom` / `departureTimeTo` -- optional `HH:MM` departure time window; a
+ *   window whose start is after its end spans midnight.
+ * - `minSeats` -- optional positive integer (coerced); seats that must still be free on the
+ *   searched segment, counting accepted inscriptions.
+ * - `maxPrice` -- optional non-negative integer (coerced), maximum price per seat in euro cents.
+ * - `sortBy` -- `departureTime` (default), `remainingSeats` or `pickupDistance`.
+ * - `sortOrder` -- `asc` (default) or `desc`.
  */
 export const findTripQuerySchema = z.object({
     departureCity: z.string().optional(),
     arrivalCity: z.string().optional(),
-    date: z.string().optional(),
+    departureLat: latitudeSchema.optional(),
+    departureLng: longitudeSchema.optional(),
+    departureRadiusKm: radiusSchema.optional(),
+    arrivalLat: latitudeSchema.optional(),
+    arrivalLng: longitudeSchema.optional(),
+    arrivalRadiusKm: radiusSchema.optional(),
+    date: searchDateSchema.optional(),
+    dateFrom: searchDateSchema.optional(),
+    dateTo: searchDateSchema.optional(),
+    departureTimeFrom: timeOfDaySchema.optional(),
+    departureTimeTo: timeOfDaySchema.optional(),
+    minSeats: z.coerce.number().int().positive('Minimum seats must be positive').optional(),
+    maxPrice: z.coerce.number().int().nonnegative('Maximum price cannot be negative').optional(),
+    sortBy: z.enum(['departureTime', 'remainingSeats', 'pickupDistance']).default('departureTime'),
+    sortOrder: z.enum(['asc', 'desc']).default('asc'),
+}).refine((data) => !data.dateFrom || !data.dateTo || Date.parse(data.dateFrom) <= Date.parse(data.dateTo), {
+    message: 'dateFrom must not be after dateTo',
+    path: ['dateTo'],
+}).refine((data) => (data.departureLat === undefined) === (data.departureLng === undefined), {
+    message: 'departureLat and departureLng must be provided together',
+    path: ['departureLng'],
+}).refine((data) => (data.arrivalLat === undefined) === (data.arrivalLng === undefined), {
+    message: 'arrivalLat and arrivalLng must be provided together',
+    path: ['arrivalLng'],
+});
+
+/**
+ * Schema for validating price suggestion query parameters.
+ *
+ * Validation rules:
+ * - `kms` -- positive integer (coerced from the query string) for the trip distance.
+ */
+export const tripPriceSuggestionQuerySchema = z.object({
+    kms: z.coerce.number().int().positive('Kilometers must be positive'),
+});
+
+/**
+ * Schema for validating the optional body of a trip cancellation.
+ *
+ * Validation rules:
+ * - `reason` -- optional free-text reason shown to the passengers, trimmed, at most 500 characters.
+ */
+export const cancelTripSchema = z.object({
+    reason: z.string().trim().min(1, 'Reason cannot be empty').max(500, 'Reason must be at most 500 characters').optional(),
 });
 
 /** Inferred TypeScript type for a valid trip creation request body. */
@@ -51,3 +138,9 @@ export type CreateTripSchemaType = z.infer<typeof createTripSchema>;
 
 /** Inferred TypeScript type for valid trip search query parameters. */
 export type FindTripQueryType = z.infer<typeof findTripQuerySchema>;
+
+/** Inferred TypeScript type for valid price suggestion query parameters. */
+export type TripPriceSuggestionQueryType = z.infer<typeof tripPriceSuggestionQuerySchema>;
+
+/** Inferred TypeScript type for a valid trip cancellation body. */
+export type CancelTripSchemaType = z.infer<typeof cancelTripSchema>;
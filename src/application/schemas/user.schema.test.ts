@@ -2,7 +2,8 @@
  * @module user.schema.test
  * Unit tests for the user profile Zod schema (profileSchema).
  * Verifies that firstName and lastName are required non-empty strings,
- * and that phone meets the minimum 10-character length requirement.
+ * that phone meets the minimum 10-character length requirement, and that the
+ * optional locale is fr or en.
  */
 
 import { describe, it, expect } from 'vitest';
@@ -63,4 +64,14 @@ describe('profileSchema', () => {
 		const result = profileSchema.safeParse({ ...validInput, phone: '+33612345678' });
 		expect(result.success).toBe(true);
 	});
+
+	it('should accept a supported locale', () => {
+		const result = profileSchema.safeParse({ ...validInput, locale: 'en' });
+		expect(result.success).toBe(true);
+	});
+
+	it('should reject an unsupported locale', () => {
+		const result = profileSchema.safeParse({ ...validInput, locale: 'de' });
+		expect(result.success).toBe(false);
+	});
 });
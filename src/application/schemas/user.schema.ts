@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { localeSchema } from './common.schema.js';
 
 /**
  * Schema for validating user profile input.
@@ -15,11 +16,17 @@ import { z } from 'zod';
  * - `lastName` -- non-empty string for the user's last name.
  * - `phone` -- string with a minimum length of 10 characters to accommodate
  *   standard phone number formats (e.g. "0612345678" or "+33612345678").
+ * - `locale` -- optional language of the user's emails, `fr` or `en`.
+ * - `notifyBookingUpdates` -- optional; whether drivers are emailed about bookings on their trips.
+ * - `notifyTripReminders` -- optional; whether passengers are reminded of their trips before departure.
  */
 export const profileSchema = z.object({
 	firstName: z.string().min(1, 'First name is required'),
 	lastName: z.string().min(1, 'Last name is required'),
 	phone: z.string().min(10, 'Phone must be at least 10 characters'),
+	locale: localeSchema.optional(),
+	notifyBookingUpdates: z.boolean().optional(),
+	notifyTripReminders: z.boolean().optional(),
 });
 
 /** Inferred TypeScript type for a valid user profile request body. */
@@ -0,0 +1,75 @@
+/**
+ * @file Unit tests for the DriverRoleSubscriber.
+ *
+ * Covers the role upgrade on DriverRegistered, the lookups and writes that
+ * fail without throwing, and the events it ignores.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockAuthRepository,
+	createMockLogger,
+	createMockUserData,
+	createMockUserRepository,
+} from '../../../tests/setup.js';
+import { domainEvent } from '../../domain/events/domain-events.js';
+import { DatabaseError } from '../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import { err, ok } from '../../lib/shared/types/result.js';
+import { DriverRoleSubscriber } from './driver-role.subscriber.js';
+
+describe('DriverRoleSubscriber', () => {
+	let subscriber: DriverRoleSubscriber;
+	let mockUserRepo: ReturnType<typeof createMockUserRepository>;
+	let mockAuthRepo: ReturnType<typeof createMockAuthRepository>;
+
+	const registered = domainEvent('DriverRegistered', { driverId: 'driver-1', userId: 'user-id-1' });
+
+	beforeEach(() => {
+		mockUserRepo = createMockUserRepository();
+		mockAuthRepo = createMockAuthRepository();
+		mockUserRepo.findById.mockResolvedValue(ok(createMockUserData({ authRefId: 7 })));
+		mockAuthRepo.updateRole.mockResolvedValue(ok(undefined));
+		container.registerInstance(TOKENS.UserRepository, mockUserRepo);
+		container.registerInstance(TOKENS.AuthRepository, mockAuthRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		subscriber = container.resolve(DriverRoleSubscriber);
+	});
+
+	// Happy path: the auth record of the new driver gets the DRIVER role
+	it('should grant the DRIVER role to the registered user', async () => {
+		await subscriber.handle(registered);
+
+		expect(mockUserRepo.findById).toHaveBeenCalledWith('user-id-1');
+		expect(mockAuthRepo.updateRole).toHaveBeenCalledWith(7, 'DRIVER');
+	});
+
+	it('should not update any role when the user is not found', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(null));
+
+		await expect(subscriber.handle(registered)).resolves.toBeUndefined();
+		expect(mockAuthRepo.updateRole).not.toHaveBeenCalled();
+	});
+
+	it('should not update any role when the user lookup fails', async () => {
+		mockUserRepo.findById.mockResolvedValue(err(new DatabaseError('db error')));
+
+		await expect(subscriber.handle(registered)).resolves.toBeUndefined();
+		expect(mockAuthRepo.updateRole).not.toHaveBeenCalled();
+	});
+
+	// The driver profile is already committed, so a failed update must not throw
+	it('should tolerate a failed role update', async () => {
+		mockAuthRepo.updateRole.mockResolvedValue(err(new DatabaseError('db error')));
+
+		await expect(subscriber.handle(registered)).resolves.toBeUndefined();
+	});
+
+	it('should ignore other events', async () => {
+		await subscriber.handle(domainEvent('UserAnonymized', { userId: 'user-id-1' }));
+
+		expect(mockUserRepo.findById).not.toHaveBeenCalled();
+		expect(mockAuthRepo.updateRole).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,64 @@
+/**
+ * @module DriverRoleSubscriber
+ *
+ * Grants the DRIVER role to users who registered as drivers, so that the
+ * routes reserved to drivers accept their next access token.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { DomainEvent } from '../../domain/events/domain-events.js';
+import type { AuthRepository } from '../../domain/repositories/auth.repository.js';
+import type { UserRepository } from '../../domain/repositories/user.repository.js';
+import type { DomainEventSubscriber } from '../../domain/services/event-bus.service.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+
+/**
+ * Upgrades the Auth role of a new driver from USER to DRIVER.
+ *
+ * Reactions:
+ * - `DriverRegistered` -- resolves the user to their auth record and sets its role
+ *
+ * A failed lookup or update is logged and tolerated: the driver profile is
+ * already created.
+ *
+ * @dependencies UserRepository, AuthRepository
+ */
+@injectable()
+export class DriverRoleSubscriber implements DomainEventSubscriber {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.AuthRepository)
+		private readonly authRepository: AuthRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ subscriber: 'DriverRoleSubscriber' });
+	}
+
+	/**
+	 * Upgrades the role on `DriverRegistered`; other events are ignored.
+	 * @param event - The published event.
+	 */
+	async handle(event: DomainEvent): Promise<void> {
+		if (event.type !== 'DriverRegistered') {
+			return;
+		}
+		const { userId, driverId } = event.payload;
+
+		const userResult = await this.userRepository.findById(userId);
+		if (!userResult.success || !userResult.value) {
+			this.logger.warn('Driver role not granted, user not found', { userId, driverId });
+			return;
+		}
+
+		const roleResult = await this.authRepository.updateRole(userResult.value.authRefId, 'DRIVER');
+		if (!roleResult.success) {
+			this.logger.warn('Driver role not granted', { userId, driverId });
+			return;
+		}
+		this.logger.info('Driver role granted', { userId, driverId });
+	}
+}
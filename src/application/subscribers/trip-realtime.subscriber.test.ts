@@ -0,0 +1,200 @@
+/**
+ * @file Unit tests for the TripRealtimeSubscriber.
+ *
+ * Covers the realtime events published for each domain event (booking updates
+ * to the passenger and the driver, trip edits to followers and passengers,
+ * cancellations), the seats left over the whole route, and failed lookups
+ * that must drop the event without throwing.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockInscriptionData,
+	createMockInscriptionRepository,
+	createMockLogger,
+	createMockRealtimeBroker,
+	createMockTripData,
+	createMockTripRepository,
+} from '../../../tests/setup.js';
+import type { BookingNotificationDetails } from '../../domain/entities/inscription.entity.js';
+import { domainEvent } from '../../domain/events/domain-events.js';
+import { DatabaseError } from '../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import { err, ok } from '../../lib/shared/types/result.js';
+import { TripRealtimeSubscriber } from './trip-realtime.subscriber.js';
+
+describe('TripRealtimeSubscriber', () => {
+	let subscriber: TripRealtimeSubscriber;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
+	let mockBroker: ReturnType<typeof createMockRealtimeBroker>;
+
+	const dateTrip = new Date('2026-10-20T08:00:00.000Z');
+	const contact = (firstName: string) => ({
+		id: `${firstName.toLowerCase()}-id`,
+		firstName,
+		email: `${firstName.toLowerCase()}@example.com`,
+		locale: 'en' as const,
+		notifyBookingUpdates: true,
+		notifyTripReminders: true,
+	});
+	const details: BookingNotificationDetails = {
+		inscriptionId: 'ins-1',
+		status: 'ACTIVE',
+		trip: { id: 'trip-1', dateTrip, departureCity: 'Lyon', arrivalCity: 'Grenoble' },
+		passenger: contact('Jane'),
+		driver: contact('Paul'),
+	};
+	const city = (position: number, type: string, cityName: string) => ({
+		tripRefId: 1,
+		cityRefId: position + 10,
+		type,
+		position,
+		city: { id: `city-${position}`, refId: position + 10, cityName, zipcode: '00000', latitude: null, longitude: null },
+	});
+	const trip = {
+		...createMockTripData({ id: 'trip-1', dateTrip, seats: 3, pricePerSeat: 1200 }),
+		cities: [city(1, 'ARRIVAL', 'Grenoble'), city(0, 'DEPARTURE', 'Lyon')],
+	};
+
+	beforeEach(() => {
+		mockTripRepo = createMockTripRepository();
+		mockInscriptionRepo = createMockInscriptionRepository();
+		mockBroker = createMockRealtimeBroker();
+		mockInscriptionRepo.findNotificationDetails.mockResolvedValue(ok(details));
+		mockInscriptionRepo.findPassengerContacts.mockResolvedValue(ok([contact('Jane'), contact('Max')]));
+		mockInscriptionRepo.findByTripId.mockResolvedValue(ok([
+			createMockInscriptionData({ id: 'ins-1', status: 'ACTIVE', pickupPosition: 0, dropoffPosition: 1 }),
+			createMockInscriptionData({ id: 'ins-2', status: 'PENDING', pickupPosition: 0, dropoffPosition: 1 }),
+		]));
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
+		container.registerInstance(TOKENS.RealtimeBroker, mockBroker);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		subscriber = container.resolve(TripRealtimeSubscriber);
+	});
+
+	describe('booking events', () => {
+		it('should tell the passenger and the driver, then publish the seats left', async () => {
+			await subscriber.handle(domainEvent('InscriptionReviewed', { inscriptionId: 'ins-1', status: 'ACTIVE' }));
+
+			const update = { inscriptionId: 'ins-1', tripId: 'trip-1', status: 'ACTIVE' };
+			expect(mockBroker.publish.mock.calls).toEqual([
+				['user:jane-id', 'booking-updated', update],
+				['user:paul-id', 'booking-updated', update],
+				['trip:trip-1', 'seats-changed', { tripId: 'trip-1', seats: 3, remainingSeats: 2 }],
+			]);
+		});
+
+		it('should react the same way to new and cancelled bookings', async () => {
+			await subscriber.handle(domainEvent('InscriptionCreated', { inscriptionId: 'ins-1', tripId: 'trip-1', status: 'PENDING' }));
+			await subscriber.handle(domainEvent('InscriptionCancelled', { inscriptionId: 'ins-1' }));
+
+			expect(mockBroker.publish).toHaveBeenCalledTimes(6);
+		});
+
+		// Pending and cancelled inscriptions hold no seat
+		it('should count only the active inscriptions', async () => {
+			mockInscriptionRepo.findByTripId.mockResolvedValue(ok([
+				createMockInscriptionData({ status: 'CANCELLED', pickupPosition: 0, dropoffPosition: 1 }),
+			]));
+
+			await subscriber.handle(domainEvent('InscriptionCancelled', { inscriptionId: 'ins-1' }));
+
+			expect(mockBroker.publish).toHaveBeenLastCalledWith('trip:trip-1', 'seats-changed', { tripId: 'trip-1', seats: 3, remainingSeats: 3 });
+		});
+
+		it('should drop the event when the inscription is gone', async () => {
+			mockInscriptionRepo.findNotificationDetails.mockResolvedValue(ok(null));
+
+			await subscriber.handle(domainEvent('InscriptionCancelled', { inscriptionId: 'ins-1' }));
+
+			expect(mockBroker.publish).not.toHaveBeenCalled();
+		});
+
+		it('should still tell the users when the seats cannot be counted', async () => {
+			mockInscriptionRepo.findByTripId.mockResolvedValue(err(new DatabaseError('db error')));
+
+			await expect(subscriber.handle(domainEvent('InscriptionCancelled', { inscriptionId: 'ins-1' }))).resolves.toBeUndefined();
+			expect(mockBroker.publish).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe('TripUpdated', () => {
+		it('should send the edited trip to its followers and passengers, then the seats left', async () => {
+			await subscriber.handle(domainEvent('TripUpdated', { tripId: 'trip-1' }));
+
+			const update = {
+				tripId: 'trip-1',
+				dateTrip: '2026-10-20T08:00:00.000Z',
+				kms: 100,
+				seats: 3,
+				pricePerSeat: 1200,
+				requiresApproval: false,
+				stops: ['Lyon', 'Grenoble'],
+			};
+			expect(mockInscriptionRepo.findPassengerContacts).toHaveBeenCalledWith(1);
+			expect(mockBroker.publish.mock.calls).toEqual([
+				['trip:trip-1', 'trip-updated', update],
+				['user:jane-id', 'trip-updated', update],
+				['user:max-id', 'trip-updated', update],
+				['trip:trip-1', 'seats-changed', { tripId: 'trip-1', seats: 3, remainingSeats: 2 }],
+			]);
+		});
+
+		// Trips read from the cache carry their date as a string
+		it('should accept a serialized date', async () => {
+			mockTripRepo.findById.mockResolvedValue(ok({ ...trip, dateTrip: dateTrip.toISOString() as unknown as Date }));
+
+			await subscriber.handle(domainEvent('TripUpdated', { tripId: 'trip-1' }));
+
+			expect(mockBroker.publish.mock.calls[0][2].dateTrip).toBe('2026-10-20T08:00:00.000Z');
+		});
+
+		it('should only tell the followers when the passengers cannot be listed', async () => {
+			mockInscriptionRepo.findPassengerContacts.mockResolvedValue(err(new DatabaseError('db error')));
+
+			await subscriber.handle(domainEvent('TripUpdated', { tripId: 'trip-1' }));
+
+			expect(mockBroker.publish.mock.calls.map(([channel, type]) => [channel, type])).toEqual([
+				['trip:trip-1', 'trip-updated'],
+				['trip:trip-1', 'seats-changed'],
+			]);
+		});
+
+		it('should drop the event when the trip cannot be read', async () => {
+			mockTripRepo.findById.mockResolvedValue(err(new DatabaseError('db error')));
+
+			await expect(subscriber.handle(domainEvent('TripUpdated', { tripId: 'trip-1' }))).resolves.toBeUndefined();
+			expect(mockBroker.publish).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('TripCancelled', () => {
+		// The bookings are cancelled with the trip: the passengers come from the event
+		it('should tell the followers and every passenger that was booked', async () => {
+			const passengers = [
+				{ id: 'jane-id', email: 'jane@example.com', firstName: 'Jane', locale: 'fr' as const },
+				{ id: 'max-id', email: 'max@example.com', firstName: null, locale: 'en' as const },
+			];
+
+			await subscriber.handle(domainEvent('TripCancelled', { tripId: 'trip-1', dateTrip, reason: 'Car broke down', passengers }));
+
+			const cancellation = { tripId: 'trip-1', dateTrip: '2026-10-20T08:00:00.000Z', reason: 'Car broke down' };
+			expect(mockTripRepo.findById).not.toHaveBeenCalled();
+			expect(mockBroker.publish.mock.calls).toEqual([
+				['trip:trip-1', 'trip-cancelled', cancellation],
+				['user:jane-id', 'trip-cancelled', cancellation],
+				['user:max-id', 'trip-cancelled', cancellation],
+			]);
+		});
+	});
+
+	it('should ignore the events it does not stream', async () => {
+		await subscriber.handle(domainEvent('TripCreated', { tripId: 'trip-1' }));
+
+		expect(mockBroker.publish).not.toHaveBeenCalled();
+	});
+});
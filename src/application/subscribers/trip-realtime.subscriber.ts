@@ -0,0 +1,141 @@
+/**
+ * @module TripRealtimeSubscriber
+ *
+ * Streams the changes made to trips and bookings to the clients following
+ * them, so that passengers no longer poll a trip to learn about seat changes,
+ * edits or its cancellation. Events are published on the trip's channel and
+ * on the channels of the users concerned, through the {@link RealtimeBroker}.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import { FULL_ROUTE_SEGMENT, findMatchingSegment, maxLegOccupancy, toTripStops } from '../../domain/booking/trip-segments.js';
+import type { TripEntity } from '../../domain/entities/trip.entity.js';
+import type { DomainEvent } from '../../domain/events/domain-events.js';
+import { tripChannel, userChannel } from '../../domain/events/realtime-events.js';
+import type { InscriptionRepository } from '../../domain/repositories/inscription.repository.js';
+import type { TripRepository } from '../../domain/repositories/trip.repository.js';
+import type { DomainEventSubscriber } from '../../domain/services/event-bus.service.js';
+import type { RealtimeBroker } from '../../domain/services/realtime-broker.service.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+
+/**
+ * Publishes the realtime events of trips and bookings in reaction to domain events.
+ *
+ * Reactions:
+ * - `InscriptionCreated`, `InscriptionReviewed`, `InscriptionCancelled` -- sends a
+ *   `booking-updated` to the passenger and the driver, and the new `seats-changed`
+ *   on the trip's channel
+ * - `TripUpdated` -- sends a `trip-updated` on the trip's channel and to every booked
+ *   passenger, followed by the new `seats-changed`
+ * - `TripCancelled` -- sends a `trip-cancelled`, with the driver's reason, on the
+ *   trip's channel and to every passenger that was booked
+ *
+ * Seats are counted from the ACTIVE inscriptions over the whole route, as in trip
+ * search. Streams are best effort: a failed lookup is logged and the event is
+ * dropped; clients reconcile by fetching the trip when they reconnect.
+ *
+ * @dependencies TripRepository, InscriptionRepository, RealtimeBroker
+ */
+@injectable()
+export class TripRealtimeSubscriber implements DomainEventSubscriber {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.InscriptionRepository)
+		private readonly inscriptionRepository: InscriptionRepository,
+		@inject(TOKENS.RealtimeBroker)
+		private readonly broker: RealtimeBroker,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ subscriber: 'TripRealtimeSubscriber' });
+	}
+
+	/**
+	 * Publishes the realtime events an event calls for; other events are ignored.
+	 * @param event - The published event.
+	 */
+	async handle(event: DomainEvent): Promise<void> {
+		switch (event.type) {
+			case 'InscriptionCreated':
+			case 'InscriptionReviewed':
+			case 'InscriptionCancelled':
+				return this.publishBookingUpdate(event.payload.inscriptionId);
+			case 'TripUpdated':
+				return this.publishTripUpdate(event.payload.tripId);
+			case 'TripCancelled':
+				return this.publishTripCancellation(event);
+		}
+	}
+
+	/** Tells the passenger and the driver about a booking, then everyone about the seats left. */
+	private async publishBookingUpdate(inscriptionId: string): Promise<void> {
+		const detailsResult = await this.inscriptionRepository.findNotificationDetails(inscriptionId);
+		if (!detailsResult.success || !detailsResult.value) {
+			this.logger.warn('Booking update not streamed', { inscriptionId });
+			return;
+		}
+		const { trip, passenger, driver, status } = detailsResult.value;
+
+		const update = { inscriptionId, tripId: trip.id, status };
+		await this.broker.publish(userChannel(passenger.id), 'booking-updated', update);
+		await this.broker.publish(userChannel(driver.id), 'booking-updated', update);
+
+		const tripResult = await this.tripRepository.findById(trip.id);
+		if (tripResult.success && tripResult.value) {
+			await this.publishSeats(tripResult.value);
+		}
+	}
+
+	/** Sends the edited trip to its followers and booked passengers, then the seats left. */
+	private async publishTripUpdate(tripId: string): Promise<void> {
+		const tripResult = await this.tripRepository.findById(tripId);
+		if (!tripResult.success || !tripResult.value) {
+			this.logger.warn('Trip update not streamed', { tripId });
+			return;
+		}
+		const trip = tripResult.value;
+		const passengersResult = await this.inscriptionRepository.findPassengerContacts(trip.refId);
+		const passengers = passengersResult.success ? passengersResult.value : [];
+
+		const update = {
+			tripId,
+			// Cached trips come back with dateTrip serialized, hence the Date wrapper
+			dateTrip: new Date(trip.dateTrip).toISOString(),
+			kms: trip.kms,
+			seats: trip.seats,
+			pricePerSeat: trip.pricePerSeat,
+			requiresApproval: trip.requiresApproval,
+			stops: toTripStops(trip.cities).map((stop) => stop.cityName),
+		};
+		await this.broker.publish(tripChannel(tripId), 'trip-updated', update);
+		for (const passenger of passengers) {
+			await this.broker.publish(userChannel(passenger.id), 'trip-updated', update);
+		}
+		await this.publishSeats(trip);
+	}
+
+	/** Tells the followers of a cancelled trip and its passengers that it was cancelled. */
+	private async publishTripCancellation(event: DomainEvent<'TripCancelled'>): Promise<void> {
+		const cancellation = { tripId: event.payload.tripId, dateTrip: event.payload.dateTrip.toISOString(), reason: event.payload.reason };
+		await this.broker.publish(tripChannel(event.payload.tripId), 'trip-cancelled', cancellation);
+		for (const passenger of event.payload.passengers) {
+			await this.broker.publish(userChannel(passenger.id), 'trip-cancelled', cancellation);
+		}
+	}
+
+	/** Counts the seats still free over the whole route of a trip and publishes them on its channel. */
+	private async publishSeats(trip: TripEntity): Promise<void> {
+		const inscriptionsResult = await this.inscriptionRepository.findByTripId(trip.id);
+		if (!inscriptionsResult.success) {
+			this.logger.warn('Seat count not streamed', { tripId: trip.id });
+			return;
+		}
+		const booked = inscriptionsResult.value.filter((inscription) => inscription.status === 'ACTIVE');
+		const segment = findMatchingSegment(toTripStops(trip.cities)) ?? FULL_ROUTE_SEGMENT;
+		const remainingSeats = Math.max(0, trip.seats - maxLegOccupancy(booked, segment));
+		await this.broker.publish(tripChannel(trip.id), 'seats-changed', { tripId: trip.id, seats: trip.seats, remainingSeats });
+	}
+}
@@ -0,0 +1,104 @@
+/**
+ * @file Unit tests for the account token helpers.
+ *
+ * Covers token issuance (hash, expiry per purpose, email link) and
+ * redemption: purpose, usage and expiry checks, and the single-use race.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createMockAccountTokenRepository, createMockAuthConfig } from '../../../../tests/setup.js';
+import { InvalidAccountTokenError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { hashOpaqueToken } from '../../../lib/shared/utils/opaque-token.util.js';
+import { issueAccountToken, redeemAccountToken } from './account-tokens.js';
+
+const now = new Date('2026-10-18T10:00:00Z');
+
+describe('issueAccountToken', () => {
+	it('should store only the hash and link to the reset page', () => {
+		const issued = issueAccountToken(createMockAuthConfig(), 5, 'PASSWORD_RESET', now);
+
+		expect(issued.data).toEqual({
+			authRefId: 5,
+			purpose: 'PASSWORD_RESET',
+			tokenHash: hashOpaqueToken(issued.token),
+			expiresAt: new Date('2026-10-18T11:00:00Z'),
+		});
+		expect(issued.link).toBe(`https://app.test/reset-password?token=${issued.token}`);
+	});
+
+	it('should use the verification lifetime for email verification tokens', () => {
+		const issued = issueAccountToken(createMockAuthConfig(), 5, 'EMAIL_VERIFICATION', now);
+
+		expect(issued.data.expiresAt).toEqual(new Date('2026-10-20T10:00:00Z'));
+		expect(issued.link).toMatch(/^https:\/\/app\.test\/verify-email\?token=/);
+	});
+});
+
+describe('redeemAccountToken', () => {
+	const stored = {
+		id: 'token-1',
+		tokenHash: hashOpaqueToken('raw-token'),
+		authRefId: 5,
+		purpose: 'PASSWORD_RESET' as const,
+		expiresAt: new Date('2026-10-18T11:00:00Z'),
+		usedAt: null,
+		createdAt: now,
+	};
+
+	it('should consume a valid token', async () => {
+		const repository = createMockAccountTokenRepository();
+		repository.findByHash.mockResolvedValue(ok(stored));
+		repository.consume.mockResolvedValue(ok(true));
+
+		const result = await redeemAccountToken(repository, 'raw-token', 'PASSWORD_RESET', now);
+
+		expect(result).toEqual({ success: true, value: stored });
+		expect(repository.findByHash).toHaveBeenCalledWith(hashOpaqueToken('raw-token'));
+		expect(repository.consume).toHaveBeenCalledWith('token-1');
+	});
+
+	it.each([
+		['unknown', null],
+		['issued for another purpose', { ...stored, purpose: 'EMAIL_VERIFICATION' as const }],
+		['already used', { ...stored, usedAt: now }],
+		['expired', { ...stored, expiresAt: now }],
+	])('should reject a token that is %s without consuming it', async (_label, found) => {
+		const repository = createMockAccountTokenRepository();
+		repository.findByHash.mockResolvedValue(ok(found));
+
+		const result = await redeemAccountToken(repository, 'raw-token', 'PASSWORD_RESET', now);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(InvalidAccountTokenError);
+		}
+		expect(repository.consume).not.toHaveBeenCalled();
+	});
+
+	it('should reject a token consumed concurrently', async () => {
+		const repository = createMockAccountTokenRepository();
+		repository.findByHash.mockResolvedValue(ok(stored));
+		repository.consume.mockResolvedValue(ok(false));
+
+		const result = await redeemAccountToken(repository, 'raw-token', 'PASSWORD_RESET', now);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(InvalidAccountTokenError);
+		}
+	});
+
+	it('should propagate repository errors', async () => {
+		const repository = createMockAccountTokenRepository();
+		repository.findByHash.mockResolvedValue(err(new DatabaseError('DB down')));
+
+		const result = await redeemAccountToken(repository, 'raw-token', 'PASSWORD_RESET', now);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+	});
+});
@@ -0,0 +1,114 @@
+/**
+ * @module account-tokens
+ *
+ * Helpers shared by the password reset and email verification use cases.
+ * An account token is a random opaque string sent to the user once, inside an
+ * email link; only its hash, purpose and expiry are stored. Redeeming a token
+ * consumes it, so every link works at most once.
+ */
+
+import type { AccountTokenEntity, AccountTokenPurpose, CreateAccountTokenData } from '../../../domain/entities/account-token.entity.js';
+import type { AccountTokenRepository } from '../../../domain/repositories/account-token.repository.js';
+import { InvalidAccountTokenError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { generateOpaqueToken, hashOpaqueToken } from '../../../lib/shared/utils/opaque-token.util.js';
+import type { AuthConfig } from '../../config/auth.config.js';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/** Path of the client page each kind of link opens. */
+const LINK_PATHS: Record<AccountTokenPurpose, string> = {
+	PASSWORD_RESET: '/reset-password',
+	EMAIL_VERIFICATION: '/verify-email',
+};
+
+/**
+ * A freshly generated account token.
+ *
+ * @property token - The opaque token to send to the user.
+ * @property link - The client URL carrying the token.
+ * @property data - The hash, purpose and expiry to persist.
+ */
+export type IssuedAccountToken = {
+	token: string;
+	link: string;
+	data: CreateAccountTokenData;
+};
+
+/**
+ * Returns how long a token issued for the given purpose stays valid.
+ *
+ * @param config - Account policy providing the token lifetimes
+ * @param purpose - What the token is issued for
+ * @returns The lifetime in minutes
+ */
+export function accountTokenTtlMinutes(config: AuthConfig, purpose: AccountTokenPurpose): number {
+	return purpose === 'PASSWORD_RESET' ? config.passwordResetTokenTtlMinutes : config.emailVerificationTokenTtlHours * 60;
+}
+
+/**
+ * Generates an account token and the email link carrying it.
+ *
+ * @param config - Account policy providing the token lifetimes and client URL
+ * @param authRefId - The integer refId of the account
+ * @param purpose - What the token can be redeemed for
+ * @param now - Issue time (defaults to the current time)
+ * @returns The token, its link and the data to store
+ */
+export function issueAccountToken(
+	config: AuthConfig,
+	authRefId: number,
+	purpose: AccountTokenPurpose,
+	now: Date = new Date(),
+): IssuedAccountToken {
+	const token = generateOpaqueToken();
+	return {
+		token,
+		link: `${config.appUrl}${LINK_PATHS[purpose]}?token=${encodeURIComponent(token)}`,
+		data: {
+			authRefId,
+			purpose,
+			tokenHash: hashOpaqueToken(token),
+			expiresAt: new Date(now.getTime() + accountTokenTtlMinutes(config, purpose) * MS_PER_MINUTE),
+		},
+	};
+}
+
+/**
+ * Redeems an account token: looks it up by hash, checks its purpose and expiry,
+ * then consumes it. Every failure is reported as the same
+ * {@link InvalidAccountTokenError} so callers cannot tell unknown tokens from used ones.
+ *
+ * @param repository - Account token persistence
+ * @param token - The opaque token received from the client
+ * @param purpose - The purpose the token must have been issued for
+ * @param now - Redemption time (defaults to the current time)
+ * @returns The consumed token, or an error
+ */
+export async function redeemAccountToken(
+	repository: AccountTokenRepository,
+	token: string,
+	purpose: AccountTokenPurpose,
+	now: Date = new Date(),
+): Promise<Result<AccountTokenEntity, InvalidAccountTokenError | RepositoryError>> {
+	const found = await repository.findByHash(hashOpaqueToken(token));
+	if (!found.success) {
+		return found;
+	}
+	const accountToken = found.value;
+	if (!accountToken || accountToken.purpose !== purpose || accountToken.usedAt !== null || accountToken.expiresAt <= now) {
+		return err(new InvalidAccountTokenError());
+	}
+
+	// The conditional update settles races between two redemptions of the same token
+	const consumed = await repository.consume(accountToken.id);
+	if (!consumed.success) {
+		return consumed;
+	}
+	if (!consumed.value) {
+		return err(new InvalidAccountTokenError());
+	}
+	return ok(accountToken);
+}
@@ -0,0 +1,126 @@
+/**
+ * @file Unit tests for the ForgotPasswordUseCase.
+ *
+ * Covers issuing a reset link with its email recorded in the outbox in the user's locale,
+ * the silent outcome for unknown and anonymized addresses, and error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockAccountTokenRepository,
+	createMockAuthConfig,
+	createMockAuthRepository,
+	createMockLogger,
+	createMockUserData,
+	createMockUserRepository,
+} from '../../../../tests/setup.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { ForgotPasswordUseCase } from './forgot-password.use-case.js';
+
+describe('ForgotPasswordUseCase', () => {
+	let useCase: ForgotPasswordUseCase;
+	let mockAuthRepository: ReturnType<typeof createMockAuthRepository>;
+	let mockUserRepository: ReturnType<typeof createMockUserRepository>;
+	let mockAccountTokenRepository: ReturnType<typeof createMockAccountTokenRepository>;
+
+	const auth = {
+		id: 'auth-123',
+		refId: 5,
+		email: 'test@example.com',
+		password: 'hashed',
+		role: 'USER',
+		emailVerifiedAt: null,
+		anonymizedAt: null,
+		createdAt: new Date(),
+		updatedAt: new Date(),
+	};
+
+	beforeEach(() => {
+		mockAuthRepository = createMockAuthRepository();
+		mockUserRepository = createMockUserRepository();
+		mockUserRepository.findByAuthRefId.mockResolvedValue(ok(createMockUserData({ authRefId: 5, locale: 'en' })));
+		mockAccountTokenRepository = createMockAccountTokenRepository();
+		mockAccountTokenRepository.create.mockResolvedValue(ok({ id: 'token-1' }));
+
+		container.registerInstance(TOKENS.AuthRepository, mockAuthRepository);
+		container.registerInstance(TOKENS.UserRepository, mockUserRepository);
+		container.registerInstance(TOKENS.AccountTokenRepository, mockAccountTokenRepository);
+		container.registerInstance(TOKENS.AuthConfig, createMockAuthConfig());
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+
+		useCase = container.resolve(ForgotPasswordUseCase);
+	});
+
+	// Verifies that a reset token is stored hashed, with the email carrying its link in the outbox
+	it('should record the reset link email with the token of a registered address', async () => {
+		mockAuthRepository.findByEmail.mockResolvedValue(ok(auth));
+
+		const result = await useCase.execute({ email: 'test@example.com' });
+
+		expect(result.success).toBe(true);
+		expect(mockUserRepository.findByAuthRefId).toHaveBeenCalledWith(5);
+		expect(mockAccountTokenRepository.create).toHaveBeenCalledWith(expect.objectContaining({ authRefId: 5, purpose: 'PASSWORD_RESET' }), [
+			{
+				type: 'EMAIL',
+				payload: {
+					to: 'test@example.com',
+					locale: 'en',
+					message: {
+						template: 'password-reset',
+						variables: {
+							resetUrl: expect.stringMatching(/^https:\/\/app\.test\/reset-password\?token=/),
+							expiresInMinutes: 60,
+						},
+					},
+				},
+			},
+		]);
+	});
+
+	// Verifies that an account without a profile gets the default locale
+	it('should write the email in French when the account has no profile', async () => {
+		mockAuthRepository.findByEmail.mockResolvedValue(ok(auth));
+		mockUserRepository.findByAuthRefId.mockResolvedValue(ok(null));
+
+		await useCase.execute({ email: 'test@example.com' });
+
+		const [, [outbox]] = mockAccountTokenRepository.create.mock.calls[0];
+		expect(outbox.payload.locale).toBe('fr');
+	});
+
+	// Verifies that unknown addresses get the same outcome without any email
+	it('should succeed silently for an unknown address', async () => {
+		mockAuthRepository.findByEmail.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute({ email: 'nobody@example.com' });
+
+		expect(result.success).toBe(true);
+		expect(mockAccountTokenRepository.create).not.toHaveBeenCalled();
+	});
+
+	// Verifies that anonymized accounts cannot be recovered
+	it('should succeed silently for an anonymized account', async () => {
+		mockAuthRepository.findByEmail.mockResolvedValue(ok({ ...auth, anonymizedAt: new Date() }));
+
+		const result = await useCase.execute({ email: 'test@example.com' });
+
+		expect(result.success).toBe(true);
+		expect(mockAccountTokenRepository.create).not.toHaveBeenCalled();
+	});
+
+	// Verifies that database failures are propagated
+	it('should propagate error when the token cannot be stored', async () => {
+		mockAuthRepository.findByEmail.mockResolvedValue(ok(auth));
+		mockAccountTokenRepository.create.mockResolvedValue(err(new DatabaseError('DB down')));
+
+		const result = await useCase.execute({ email: 'test@example.com' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+	});
+});
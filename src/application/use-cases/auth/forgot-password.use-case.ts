@@ -0,0 +1,95 @@
+/**
+ * @module ForgotPasswordUseCase
+ *
+ * Starts the password recovery flow: emails a single-use, expiring reset link
+ * to the owner of an account. The outcome is the same whether or not the
+ * address belongs to an account, so the endpoint cannot be used to discover
+ * which emails are registered.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import { outboxEmail } from '../../../domain/outbox/outbox-email.js';
+import type { AccountTokenRepository } from '../../../domain/repositories/account-token.repository.js';
+import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import type { AuthConfig } from '../../config/auth.config.js';
+import type { ForgotPasswordSchemaType } from '../../schemas/auth.schema.js';
+import { issueAccountToken } from './account-tokens.js';
+
+/**
+ * Emails a password reset link to the account registered with an address.
+ *
+ * Business flow:
+ * 1. Look up the account by email; unknown and anonymized accounts end the flow silently
+ * 2. Look up the profile of the account for the locale of the email (French when missing)
+ * 3. Issue a PASSWORD_RESET token (stored hashed), superseding earlier reset links,
+ *    and record the email carrying the reset link in the outbox in the same
+ *    transaction; the request never waits on the mail provider
+ *
+ * @dependencies AuthRepository, UserRepository, AccountTokenRepository, AuthConfig
+ */
+@injectable()
+export class ForgotPasswordUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.AuthRepository)
+		private readonly authRepository: AuthRepository,
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.AccountTokenRepository)
+		private readonly accountTokenRepository: AccountTokenRepository,
+		@inject(TOKENS.AuthConfig)
+		private readonly authConfig: AuthConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ForgotPasswordUseCase' });
+	}
+
+	/**
+	 * Executes the forgotten password flow.
+	 *
+	 * @param input - Validated payload containing the email address
+	 * @returns A Result containing void whether or not the address is registered,
+	 *          or a RepositoryError on database failure
+	 */
+	async execute(input: ForgotPasswordSchemaType): Promise<Result<void, RepositoryError>> {
+		const authResult = await this.authRepository.findByEmail(input.email);
+		if (!authResult.success) {
+			return authResult;
+		}
+		const auth = authResult.value;
+		if (!auth || auth.anonymizedAt !== null) {
+			this.logger.info('Password reset requested for unknown email');
+			return ok(undefined);
+		}
+
+		const userResult = await this.userRepository.findByAuthRefId(auth.refId);
+		if (!userResult.success) {
+			return userResult;
+		}
+		const locale = userResult.value?.locale ?? 'fr';
+
+		const issued = issueAccountToken(this.authConfig, auth.refId, 'PASSWORD_RESET');
+		const tokenResult = await this.accountTokenRepository.create(issued.data, [
+			outboxEmail(
+				{ email: auth.email, locale },
+				{
+					template: 'password-reset',
+					variables: { resetUrl: issued.link, expiresInMinutes: this.authConfig.passwordResetTokenTtlMinutes },
+				},
+			),
+		]);
+		if (!tokenResult.success) {
+			return tokenResult;
+		}
+
+		this.logger.info('Password reset link queued', { authId: auth.id });
+		return ok(undefined);
+	}
+}
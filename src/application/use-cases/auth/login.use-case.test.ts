@@ -2,17 +2,21 @@
  * @file Unit tests for the LoginUseCase.
  *
  * Covers the login authentication flow including successful credential
- * verification, JWT token generation, and error paths for unknown emails
- * and incorrect passwords. All repository and service dependencies are mocked.
+ * verification, JWT token generation, error paths for unknown emails
+ * and incorrect passwords, and the per-account throttling of failed attempts
+ * (progressive delays, lockout and its outbox email alert). All repository and
+ * service dependencies are mocked.
  */
 
 import { container } from 'tsyringe';
 import { beforeEach, describe, expect, it } from 'vitest';
 import {
+	createMockAuthConfig,
 	createMockAuthRepository,
 	createMockJwtService,
 	createMockLogger,
 	createMockPasswordService,
+	createMockSessionRepository,
 	createMockUserRepository,
 } from '../../../../tests/setup.js';
 import { InvalidCredentialsError } from '../../../lib/errors/domain.errors.js';
@@ -20,6 +24,7 @@ import { DatabaseError } from '../../../lib/errors/repository.errors.js';
 import { HashVerificationError } from '../../../lib/errors/password.errors.js';
 import { TokenSigningError } from '../../../lib/errors/jwt.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { hashOpaqueToken } from '../../../lib/shared/utils/opaque-token.util.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
 import type { LoginSchemaType } from '../../schemas/auth.schema.js';
 import { LoginUseCase } from './login.use-case.js';
@@ -31,6 +36,8 @@ describe('LoginUseCase', () => {
 	let mockUserRepository: ReturnType<typeof createMockUserRepository>;
 	let mockPasswordService: ReturnType<typeof createMockPasswordService>;
 	let mockJwtService: ReturnType<typeof createMockJwtService>;
+	let mockSessionRepository: ReturnType<typeof createMockSessionRepository>;
+	let mockLogger: ReturnType<typeof createMockLogger>;
 
 	const validInput: LoginSchemaType = {
 		email: 'test@example.com',
@@ -43,6 +50,8 @@ describe('LoginUseCase', () => {
 		email: 'test@example.com',
 		password: 'hashed-password',
 		role: 'USER',
+		failedLoginAttempts: 0,
+		lockedUntil: null,
 		anonymizedAt: null,
 		createdAt: new Date(),
 		updatedAt: new Date(),
@@ -61,17 +70,33 @@ describe('LoginUseCase', () => {
 		updatedAt: new Date(),
 	};
 
+	const openedSession = {
+		id: 'session-123',
+		userRefId: 1,
+		createdAt: new Date(),
+		revokedAt: null,
+		revokedReason: null,
+	};
+
 	beforeEach(() => {
 		mockAuthRepository = createMockAuthRepository();
 		mockUserRepository = createMockUserRepository();
 		mockPasswordService = createMockPasswordService();
 		mockJwtService = createMockJwtService();
+		mockSessionRepository = createMockSessionRepository();
+		mockSessionRepository.create.mockResolvedValue(ok(openedSession));
+		mockLogger = createMockLogger();
+		mockAuthRepository.recordLoginFailure.mockResolvedValue(ok(1));
+		mockAuthRepository.lockLogin.mockResolvedValue(ok(undefined));
+		mockAuthRepository.clearLoginFailures.mockResolvedValue(ok(undefined));
 
 		container.registerInstance(TOKENS.AuthRepository, mockAuthRepository);
 		container.registerInstance(TOKENS.UserRepository, mockUserRepository);
 		container.registerInstance(TOKENS.PasswordService, mockPasswordService);
 		container.registerInstance(TOKENS.JwtService, mockJwtService);
-		container.registerInstance(TOKENS.Logger, createMockLogger());
+		container.registerInstance(TOKENS.SessionRepository, mockSessionRepository);
+		container.registerInstance(TOKENS.AuthConfig, createMockAuthConfig());
+		container.registerInstance(TOKENS.Logger, mockLogger);
 
 		loginUseCase = container.resolve(LoginUseCase);
 	});
@@ -89,13 +114,14 @@ describe('LoginUseCase', () => {
 		if (result.success) {
 			expect(result.value.userId).toBe('user-123');
 			expect(result.value.token).toBe('jwt-token');
+			expect(result.value.refreshToken).toEqual(expect.any(String));
 		}
 		expect(mockAuthRepository.findByEmail).toHaveBeenCalledWith(validInput.email);
 		expect(mockPasswordService.verify).toHaveBeenCalledWith(
 			validInput.password,
 			existingAuth.password,
 		);
-		expect(mockJwtService.sign).toHaveBeenCalledWith({ userId: 'user-123', role: 'USER' });
+		expect(mockJwtService.sign).toHaveBeenCalledWith({ userId: 'user-123', role: 'USER', sessionId: 'session-123' });
 	});
 
 	// Verifies that an unknown email returns InvalidCredentialsError without leaking info
@@ -184,6 +210,42 @@ describe('LoginUseCase', () => {
 		expect(mockJwtService.sign).not.toHaveBeenCalled();
 	});
 
+	// Verifies that the session stores only the hash of the returned refresh token
+	it('should open a session with the hashed refresh token', async () => {
+		mockAuthRepository.findByEmail.mockResolvedValue(ok(existingAuth));
+		mockPasswordService.verify.mockResolvedValue(ok(true));
+		mockUserRepository.findByAuthRefId.mockResolvedValue(ok(existingUser));
+		mockJwtService.sign.mockResolvedValue(ok('jwt-token'));
+
+		const result = await loginUseCase.execute(validInput);
+
+		expect(result.success).toBe(true);
+		const [userRefId, stored] = mockSessionRepository.create.mock.calls[0];
+		expect(userRefId).toBe(existingUser.refId);
+		if (result.success) {
+			expect(stored.tokenHash).toBe(hashOpaqueToken(result.value.refreshToken));
+		}
+		const ttlMs = stored.expiresAt.getTime() - Date.now();
+		expect(ttlMs).toBeGreaterThan(29 * 24 * 60 * 60 * 1000);
+		expect(ttlMs).toBeLessThanOrEqual(30 * 24 * 60 * 60 * 1000);
+	});
+
+	// Verifies that a session creation error propagates and no token is signed
+	it('should propagate error when session creation fails', async () => {
+		mockAuthRepository.findByEmail.mockResolvedValue(ok(existingAuth));
+		mockPasswordService.verify.mockResolvedValue(ok(true));
+		mockUserRepository.findByAuthRefId.mockResolvedValue(ok(existingUser));
+		mockSessionRepository.create.mockResolvedValue(err(new DatabaseError('Session insert failed')));
+
+		const result = await loginUseCase.execute(validInput);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+		expect(mockJwtService.sign).not.toHaveBeenCalled();
+	});
+
 	// Verifies that a JWT signing error propagates correctly
 	it('should propagate error when jwtService.sign fails', async () => {
 		mockAuthRepository.findByEmail.mockResolvedValue(ok(existingAuth));
@@ -198,4 +260,185 @@ describe('LoginUseCase', () => {
 			expect(result.error).toBeInstanceOf(TokenSigningError);
 		}
 	});
+
+	describe('failed attempt throttling', () => {
+		// Verifies that a locked account is refused before its password is checked
+		it('should return InvalidCredentialsError while the account is locked', async () => {
+			const lockedUntil = new Date(Date.now() + 60_000);
+			mockAuthRepository.findByEmail.mockResolvedValue(ok({ ...existingAuth, failedLoginAttempts: 10, lockedUntil }));
+
+			const result = await loginUseCase.execute(validInput);
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error).toBeInstanceOf(InvalidCredentialsError);
+			}
+			expect(mockPasswordService.verify).not.toHaveBeenCalled();
+			expect(mockAuthRepository.recordLoginFailure).not.toHaveBeenCalled();
+		});
+
+		// Verifies that a lock read from the cache, where dates are ISO strings, is still enforced
+		it('should refuse a lock read as a string', async () => {
+			const lockedUntil = new Date(Date.now() + 60_000);
+			mockAuthRepository.findByEmail.mockResolvedValue(
+				ok({ ...existingAuth, failedLoginAttempts: 10, lockedUntil: lockedUntil.toISOString() }),
+			);
+
+			const result = await loginUseCase.execute(validInput);
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error).toBeInstanceOf(InvalidCredentialsError);
+			}
+			expect(mockPasswordService.verify).not.toHaveBeenCalled();
+		});
+
+		// Verifies that the lock does not reveal which emails have an account
+		it('should answer a locked account exactly like an unknown email', async () => {
+			mockAuthRepository.findByEmail.mockResolvedValue(ok(null));
+			const unknown = await loginUseCase.execute(validInput);
+			mockAuthRepository.findByEmail.mockResolvedValue(
+				ok({ ...existingAuth, failedLoginAttempts: 10, lockedUntil: new Date(Date.now() + 60_000) }),
+			);
+			const locked = await loginUseCase.execute(validInput);
+
+			expect(unknown.success).toBe(false);
+			expect(locked.success).toBe(false);
+			if (!unknown.success && !locked.success) {
+				expect(locked.error.code).toBe(unknown.error.code);
+				expect(locked.error.message).toBe(unknown.error.message);
+			}
+		});
+
+		it('should accept a login once the lock expired and reset the failed attempts', async () => {
+			const lockedUntil = new Date(Date.now() - 1000);
+			mockAuthRepository.findByEmail.mockResolvedValue(ok({ ...existingAuth, failedLoginAttempts: 10, lockedUntil }));
+			mockPasswordService.verify.mockResolvedValue(ok(true));
+			mockUserRepository.findByAuthRefId.mockResolvedValue(ok(existingUser));
+			mockJwtService.sign.mockResolvedValue(ok('jwt-token'));
+
+			const result = await loginUseCase.execute(validInput);
+
+			expect(result.success).toBe(true);
+			expect(mockAuthRepository.clearLoginFailures).toHaveBeenCalledWith(existingAuth.refId);
+		});
+
+		it('should not reset the failed attempts of an account without any', async () => {
+			mockAuthRepository.findByEmail.mockResolvedValue(ok(existingAuth));
+			mockPasswordService.verify.mockResolvedValue(ok(true));
+			mockUserRepository.findByAuthRefId.mockResolvedValue(ok(existingUser));
+			mockJwtService.sign.mockResolvedValue(ok('jwt-token'));
+
+			await loginUseCase.execute(validInput);
+
+			expect(mockAuthRepository.clearLoginFailures).not.toHaveBeenCalled();
+		});
+
+		it('should count a wrong password without delaying the first attempts', async () => {
+			mockAuthRepository.findByEmail.mockResolvedValue(ok(existingAuth));
+			mockPasswordService.verify.mockResolvedValue(ok(false));
+			mockAuthRepository.recordLoginFailure.mockResolvedValue(ok(2));
+
+			const result = await loginUseCase.execute(validInput);
+
+			expect(result.success).toBe(false);
+			expect(mockAuthRepository.recordLoginFailure).toHaveBeenCalledWith(existingAuth.refId);
+			expect(mockAuthRepository.lockLogin).not.toHaveBeenCalled();
+		});
+
+		// Verifies that the wait before the next attempt doubles with each failure
+		it('should delay the next attempt progressively', async () => {
+			mockAuthRepository.findByEmail.mockResolvedValue(ok(existingAuth));
+			mockPasswordService.verify.mockResolvedValue(ok(false));
+			mockAuthRepository.recordLoginFailure.mockResolvedValue(ok(5));
+
+			const result = await loginUseCase.execute(validInput);
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error).toBeInstanceOf(InvalidCredentialsError);
+			}
+			const [refId, lockedUntil] = mockAuthRepository.lockLogin.mock.calls[0];
+			expect(refId).toBe(existingAuth.refId);
+			const delayMs = lockedUntil.getTime() - Date.now();
+			expect(delayMs).toBeGreaterThan(7_000);
+			expect(delayMs).toBeLessThanOrEqual(8_000);
+			expect(mockAuthRepository.lockLogin.mock.calls[0][2]).toEqual([]);
+		});
+
+		it('should lock the account out and alert its owner at the threshold', async () => {
+			mockAuthRepository.findByEmail.mockResolvedValue(ok(existingAuth));
+			mockPasswordService.verify.mockResolvedValue(ok(false));
+			mockAuthRepository.recordLoginFailure.mockResolvedValue(ok(10));
+			mockUserRepository.findByAuthRefId.mockResolvedValue(ok({ ...existingUser, locale: 'en' }));
+
+			const result = await loginUseCase.execute(validInput);
+
+			expect(result.success).toBe(false);
+			const [, lockedUntil, outbox] = mockAuthRepository.lockLogin.mock.calls[0];
+			const lockMs = lockedUntil.getTime() - Date.now();
+			expect(lockMs).toBeGreaterThan(14 * 60_000);
+			expect(lockMs).toBeLessThanOrEqual(15 * 60_000);
+			expect(outbox).toEqual([
+				{
+					type: 'EMAIL',
+					payload: {
+						to: existingAuth.email,
+						locale: 'en',
+						message: {
+							template: 'account-locked',
+							variables: { firstName: 'John', failedAttempts: 10, lockedUntil: lockedUntil.toISOString() },
+						},
+					},
+				},
+			]);
+		});
+
+		// Verifies that a failed profile lookup still records the alert, in the default locale
+		it('should alert in the default locale when the profile cannot be read', async () => {
+			mockAuthRepository.findByEmail.mockResolvedValue(ok(existingAuth));
+			mockPasswordService.verify.mockResolvedValue(ok(false));
+			mockAuthRepository.recordLoginFailure.mockResolvedValue(ok(10));
+			mockUserRepository.findByAuthRefId.mockResolvedValue(err(new DatabaseError('Lookup failed')));
+
+			const result = await loginUseCase.execute(validInput);
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error).toBeInstanceOf(InvalidCredentialsError);
+			}
+			const [, , [alert]] = mockAuthRepository.lockLogin.mock.calls[0];
+			expect(alert.payload.locale).toBe('fr');
+			expect(alert.payload.message.variables.firstName).toBeNull();
+		});
+
+		it('should propagate error when the lock cannot be stored', async () => {
+			mockAuthRepository.findByEmail.mockResolvedValue(ok(existingAuth));
+			mockPasswordService.verify.mockResolvedValue(ok(false));
+			mockAuthRepository.recordLoginFailure.mockResolvedValue(ok(10));
+			mockUserRepository.findByAuthRefId.mockResolvedValue(ok(existingUser));
+			mockAuthRepository.lockLogin.mockResolvedValue(err(new DatabaseError('Update failed')));
+
+			const result = await loginUseCase.execute(validInput);
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error).toBeInstanceOf(DatabaseError);
+			}
+		});
+
+		it('should propagate error when the failed attempt cannot be counted', async () => {
+			mockAuthRepository.findByEmail.mockResolvedValue(ok(existingAuth));
+			mockPasswordService.verify.mockResolvedValue(ok(false));
+			mockAuthRepository.recordLoginFailure.mockResolvedValue(err(new DatabaseError('Update failed')));
+
+			const result = await loginUseCase.execute(validInput);
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error).toBeInstanceOf(DatabaseError);
+			}
+			expect(mockAuthRepository.lockLogin).not.toHaveBeenCalled();
+		});
+	});
 });
@@ -2,13 +2,23 @@
  * @module LoginUseCase
  *
  * Handles user authentication by verifying credentials (email + password)
- * and issuing a signed JWT token upon successful login. This is the primary
+ * and opening a session upon successful login: a short-lived JWT access token
+ * bound to the session and a refresh token to renew it. This is the primary
  * entry point for existing users to obtain an access token for the carpooling API.
+ * Failed attempts are counted per account: they progressively delay the next
+ * attempt, then lock the account out and alert its owner by email. A locked
+ * account answers like an unknown email, so the lock reveals no account.
  */
 
 import { inject, injectable } from 'tsyringe';
+import { isLockout, type LoginThrottlePolicy, loginLockedUntil } from '../../../domain/authentication/login-throttle.js';
+import type { AuthEntity } from '../../../domain/entities/auth.entity.js';
+import type { CreateOutboxMessageData } from '../../../domain/entities/outbox-message.entity.js';
+import type { PublicUserEntity } from '../../../domain/entities/user.entity.js';
+import { outboxEmail } from '../../../domain/outbox/outbox-email.js';
 import { InvalidCredentialsError } from '../../../lib/errors/domain.errors.js';
 import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
+import type { SessionRepository } from '../../../domain/repositories/session.repository.js';
 import type { UserRepository } from '../../../domain/repositories/user.repository.js';
 import type { JwtService } from '../../../domain/services/jwt.service.js';
 import type { PasswordService } from '../../../domain/services/password.service.js';
@@ -19,33 +29,53 @@ import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
+import type { AuthConfig } from '../../config/auth.config.js';
 import type { LoginSchemaType, AuthResponseType } from '../../schemas/auth.schema.js';
+import { issueRefreshToken } from './session-tokens.js';
 
 /**
  * Union of all possible error types returned by the login use case.
  *
- * - {@link InvalidCredentialsError} - Email not found, wrong password, or missing user profile
- * - {@link RepositoryError} - Database-level failure during auth/user lookup
+ * - {@link InvalidCredentialsError} - Email not found, locked account, wrong password, or missing user profile
+ * - {@link RepositoryError} - Database-level failure during auth/user lookup or session creation
  * - {@link PasswordError} - Failure during Argon2 password verification
  * - {@link JwtError} - Failure during JWT token signing
  */
 type LoginError = InvalidCredentialsError | RepositoryError | PasswordError | JwtError;
 
+/**
+ * Returns the end of the account's login lock, or null if logins are accepted.
+ * Auth records read from the cache carry their dates as ISO strings, so the
+ * lock is parsed before it is compared.
+ */
+function activeLock(auth: AuthEntity): Date | null {
+	if (!auth.lockedUntil) {
+		return null;
+	}
+	const lockedUntil = new Date(auth.lockedUntil);
+	return lockedUntil.getTime() > Date.now() ? lockedUntil : null;
+}
+
 /**
  * Authenticates a user with email and password credentials.
  *
  * Business flow:
  * 1. Look up the Auth record by email
- * 2. Verify the supplied password against the stored Argon2 hash
- * 3. Retrieve the associated User profile via the Auth's internal refId
- * 4. Sign a JWT containing the user's UUID and role
- * 5. Return the userId (UUID) and signed token
+ * 2. Refuse the attempt while the account is locked, before checking the password
+ * 3. Verify the supplied password against the stored Argon2 hash; a wrong password
+ *    is counted against the account, which may delay the next attempt or lock the
+ *    account out (the alert to the owner is then recorded in the outbox with the lock)
+ * 4. Retrieve the associated User profile via the Auth's internal refId
+ * 5. Reset the failed attempts of the account
+ * 6. Open a session with a new refresh token (stored hashed)
+ * 7. Sign a JWT containing the user's UUID, role and session id
+ * 8. Return the userId (UUID), the signed token and the refresh token
  *
  * Returns {@link InvalidCredentialsError} for any authentication failure
- * (unknown email, wrong password, or missing user profile) to avoid
- * leaking information about which step failed.
+ * (unknown email, locked account, wrong password, or missing user profile) to
+ * avoid leaking information about which step failed or which emails exist.
  *
- * @dependencies AuthRepository, UserRepository, PasswordService, JwtService
+ * @dependencies AuthRepository, UserRepository, SessionRepository, PasswordService, JwtService, AuthConfig
  */
 @injectable()
 export class LoginUseCase {
@@ -56,10 +86,14 @@ export class LoginUseCase {
 		private readonly authRepository: AuthRepository,
 		@inject(TOKENS.UserRepository)
 		private readonly userRepository: UserRepository,
+		@inject(TOKENS.SessionRepository)
+		private readonly sessionRepository: SessionRepository,
 		@inject(TOKENS.PasswordService)
 		private readonly passwordService: PasswordService,
 		@inject(TOKENS.JwtService)
 		private readonly jwtService: JwtService,
+		@inject(TOKENS.AuthConfig)
+		private readonly authConfig: AuthConfig,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
 		this.logger = logger.child({ useCase: 'LoginUseCase' });
@@ -69,7 +103,7 @@ export class LoginUseCase {
 	 * Executes the login flow for the given credentials.
 	 *
 	 * @param input - Validated login payload containing email and password
-	 * @returns A Result containing the userId and JWT token on success,
+	 * @returns A Result containing the userId, JWT token and refresh token on success,
 	 *          or a LoginError on failure
 	 */
 	async execute(input: LoginSchemaType): Promise<Result<AuthResponseType, LoginError>> {
@@ -85,6 +119,12 @@ export class LoginUseCase {
 			return err(new InvalidCredentialsError());
 		}
 
+		const lockedUntil = activeLock(auth);
+		if (lockedUntil) {
+			this.logger.warn('Login refused: account locked', { authId: auth.id, lockedUntil: lockedUntil.toISOString() });
+			return err(new InvalidCredentialsError());
+		}
+
 		// Verify password
 		const passwordResult = await this.passwordService.verify(input.password, auth.password);
 		if (!passwordResult.success) {
@@ -93,7 +133,7 @@ export class LoginUseCase {
 
 		if (!passwordResult.value) {
 			this.logger.warn('Login failed', { email: input.email });
-			return err(new InvalidCredentialsError());
+			return this.recordFailure(auth);
 		}
 
 		// Find associated user
@@ -108,16 +148,98 @@ export class LoginUseCase {
 			return err(new InvalidCredentialsError());
 		}
 
+		return this.openSession(auth, user);
+	}
+
+	/**
+	 * Resets the failed attempts of the account, then opens a session and signs
+	 * its access token.
+	 *
+	 * @returns The userId, JWT token and refresh token, or the error of the failed step
+	 */
+	private async openSession(auth: AuthEntity, user: PublicUserEntity): Promise<Result<AuthResponseType, LoginError>> {
+		if (auth.failedLoginAttempts > 0) {
+			const clearResult = await this.authRepository.clearLoginFailures(auth.refId);
+			if (!clearResult.success) {
+				return clearResult;
+			}
+		}
+
+		// Open a session
+		const refreshToken = issueRefreshToken(this.authConfig);
+		const sessionResult = await this.sessionRepository.create(user.refId, refreshToken.data);
+		if (!sessionResult.success) {
+			return sessionResult;
+		}
+
 		// Generate token
-		const tokenResult = await this.jwtService.sign({ userId: user.id, role: auth.role });
+		const tokenResult = await this.jwtService.sign({ userId: user.id, role: auth.role, sessionId: sessionResult.value.id });
 		if (!tokenResult.success) {
 			return tokenResult;
 		}
 
-		this.logger.info('User logged in', { userId: user.id });
+		this.logger.info('User logged in', { userId: user.id, sessionId: sessionResult.value.id });
 		return ok({
 			userId: user.id,
 			token: tokenResult.value,
+			refreshToken: refreshToken.token,
 		});
 	}
+
+	/**
+	 * Counts a wrong password against the account, delays its next attempt or
+	 * locks it out as the throttle policy says. On lockout, the alert to the owner
+	 * is recorded in the outbox together with the lock.
+	 *
+	 * @returns InvalidCredentialsError, or a RepositoryError if the attempt could not be counted
+	 */
+	private async recordFailure(auth: AuthEntity): Promise<Result<AuthResponseType, LoginError>> {
+		const countResult = await this.authRepository.recordLoginFailure(auth.refId);
+		if (!countResult.success) {
+			return countResult;
+		}
+		const failedAttempts = countResult.value;
+		const policy = this.throttlePolicy();
+		const lockedUntil = loginLockedUntil(failedAttempts, new Date(), policy);
+		if (!lockedUntil) {
+			return err(new InvalidCredentialsError());
+		}
+
+		const lockout = isLockout(failedAttempts, policy);
+		const outbox = lockout ? [await this.lockoutAlert(auth, failedAttempts, lockedUntil)] : [];
+		const lockResult = await this.authRepository.lockLogin(auth.refId, lockedUntil, outbox);
+		if (!lockResult.success) {
+			return lockResult;
+		}
+		if (lockout) {
+			this.logger.warn('Account locked', { authId: auth.id, failedAttempts, lockedUntil: lockedUntil.toISOString() });
+		}
+		return err(new InvalidCredentialsError());
+	}
+
+	/**
+	 * Builds the email alerting the owner of a locked account, in their locale.
+	 * A failed profile lookup falls back to an alert without a first name.
+	 */
+	private async lockoutAlert(auth: AuthEntity, failedAttempts: number, lockedUntil: Date): Promise<CreateOutboxMessageData> {
+		const userResult = await this.userRepository.findByAuthRefId(auth.refId);
+		const user = userResult.success ? userResult.value : null;
+		return outboxEmail(
+			{ email: auth.email, locale: user?.locale ?? 'fr' },
+			{
+				template: 'account-locked',
+				variables: { firstName: user?.firstName ?? null, failedAttempts, lockedUntil: lockedUntil.toISOString() },
+			},
+		);
+	}
+
+	/** The login throttle settings of the {@link AuthConfig}. */
+	private throttlePolicy(): LoginThrottlePolicy {
+		return {
+			delayAfterAttempts: this.authConfig.loginDelayAfterAttempts,
+			baseDelaySeconds: this.authConfig.loginDelayBaseSeconds,
+			lockoutThreshold: this.authConfig.loginLockoutThreshold,
+			lockoutMinutes: this.authConfig.loginLockoutMinutes,
+		};
+	}
 }
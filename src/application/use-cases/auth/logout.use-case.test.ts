@@ -0,0 +1,88 @@
+/**
+ * @file Unit tests for the LogoutUseCase.
+ *
+ * Covers revoking the current session, revoking all sessions of the user,
+ * tokens without a session, and error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockLogger, createMockSessionRepository, createMockUserData, createMockUserRepository } from '../../../../tests/setup.js';
+import { UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { LogoutUseCase } from './logout.use-case.js';
+
+describe('LogoutUseCase', () => {
+	let useCase: LogoutUseCase;
+	let mockSessionRepository: ReturnType<typeof createMockSessionRepository>;
+	let mockUserRepository: ReturnType<typeof createMockUserRepository>;
+
+	beforeEach(() => {
+		mockSessionRepository = createMockSessionRepository();
+		mockUserRepository = createMockUserRepository();
+
+		container.registerInstance(TOKENS.SessionRepository, mockSessionRepository);
+		container.registerInstance(TOKENS.UserRepository, mockUserRepository);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+
+		useCase = container.resolve(LogoutUseCase);
+	});
+
+	// Verifies that only the current session is revoked by default
+	it('should revoke the current session', async () => {
+		mockSessionRepository.revoke.mockResolvedValue(ok(undefined));
+
+		const result = await useCase.execute({ userId: 'user-123', sessionId: 'session-1', all: false });
+
+		expect(result.success).toBe(true);
+		expect(mockSessionRepository.revoke).toHaveBeenCalledWith('session-1', 'LOGOUT');
+		expect(mockSessionRepository.revokeAllForUser).not.toHaveBeenCalled();
+	});
+
+	// Verifies that a token without a session logs out without touching the database
+	it('should succeed without revoking anything when the token has no session', async () => {
+		const result = await useCase.execute({ userId: 'user-123', all: false });
+
+		expect(result.success).toBe(true);
+		expect(mockSessionRepository.revoke).not.toHaveBeenCalled();
+	});
+
+	// Verifies that all sessions of the user are revoked with the all flag
+	it('should revoke every session of the user', async () => {
+		mockUserRepository.findById.mockResolvedValue(ok(createMockUserData({ id: 'user-123', refId: 7 })));
+		mockSessionRepository.revokeAllForUser.mockResolvedValue(ok(3));
+
+		const result = await useCase.execute({ userId: 'user-123', sessionId: 'session-1', all: true });
+
+		expect(result.success).toBe(true);
+		expect(mockSessionRepository.revokeAllForUser).toHaveBeenCalledWith(7, 'LOGOUT_ALL');
+		expect(mockSessionRepository.revoke).not.toHaveBeenCalled();
+	});
+
+	// Verifies that an unknown user cannot log out of all sessions
+	it('should return UserNotFoundError when the user does not exist', async () => {
+		mockUserRepository.findById.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute({ userId: 'ghost', all: true });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(UserNotFoundError);
+		}
+		expect(mockSessionRepository.revokeAllForUser).not.toHaveBeenCalled();
+	});
+
+	// Verifies that a DB error during revocation propagates
+	it('should propagate error when revocation fails', async () => {
+		mockSessionRepository.revoke.mockResolvedValue(err(new DatabaseError('Update failed')));
+
+		const result = await useCase.execute({ userId: 'user-123', sessionId: 'session-1', all: false });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+	});
+});
@@ -0,0 +1,99 @@
+/**
+ * @module LogoutUseCase
+ *
+ * Signs a user out by revoking either the session of the presented access
+ * token or every session of the user. Revoked sessions can no longer be
+ * refreshed, and their access tokens are rejected by the auth middleware
+ * even before they expire.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { SessionRepository } from '../../../domain/repositories/session.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import { UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import type { LogoutSchemaType } from '../../schemas/auth.schema.js';
+
+/**
+ * Union of all possible error types returned by the logout use case.
+ *
+ * - {@link UserNotFoundError} - The authenticated user UUID does not exist (all sessions only)
+ * - {@link RepositoryError} - Database-level failure during lookup or revocation
+ */
+type LogoutError = UserNotFoundError | RepositoryError;
+
+/**
+ * Input of the logout use case.
+ *
+ * @property sessionId - Session of the presented access token; absent for tokens
+ *                       issued without a session, which cannot be revoked individually.
+ */
+export type LogoutInput = WithAuthContext<LogoutSchemaType> & {
+	sessionId?: string;
+};
+
+/**
+ * Revokes the current session or all sessions of the authenticated user.
+ *
+ * Business flow:
+ * - Current session: revoke the session carried by the access token
+ * - All sessions: resolve the user UUID to its refId and revoke every active session
+ *
+ * @dependencies SessionRepository, UserRepository
+ */
+@injectable()
+export class LogoutUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.SessionRepository)
+		private readonly sessionRepository: SessionRepository,
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'LogoutUseCase' });
+	}
+
+	/**
+	 * Executes the logout flow.
+	 *
+	 * @param input - The authenticated userId, its current sessionId and the `all` flag
+	 * @returns A Result containing void on success, or a LogoutError on failure
+	 */
+	async execute(input: LogoutInput): Promise<Result<void, LogoutError>> {
+		if (!input.all) {
+			if (!input.sessionId) {
+				this.logger.warn('Logout without a session, nothing to revoke', { userId: input.userId });
+				return ok(undefined);
+			}
+			const result = await this.sessionRepository.revoke(input.sessionId, 'LOGOUT');
+			if (result.success) {
+				this.logger.info('User logged out', { userId: input.userId, sessionId: input.sessionId });
+			}
+			return result;
+		}
+
+		const userResult = await this.userRepository.findById(input.userId);
+		if (!userResult.success) {
+			return userResult;
+		}
+		if (!userResult.value) {
+			this.logger.warn('User not found for logout', { userId: input.userId });
+			return err(new UserNotFoundError(input.userId));
+		}
+
+		const result = await this.sessionRepository.revokeAllForUser(userResult.value.refId, 'LOGOUT_ALL');
+		if (!result.success) {
+			return result;
+		}
+
+		this.logger.info('User logged out of all sessions', { userId: input.userId, revoked: result.value });
+		return ok(undefined);
+	}
+}
@@ -0,0 +1,153 @@
+/**
+ * @file Unit tests for the RefreshTokenUseCase.
+ *
+ * Covers refresh token rotation, access token signing for the session,
+ * rejection of unknown, expired and revoked tokens, and reuse detection
+ * (including a lost rotation race) revoking the whole session.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockAuthConfig, createMockJwtService, createMockLogger, createMockSessionRepository } from '../../../../tests/setup.js';
+import { InvalidRefreshTokenError, RefreshTokenReusedError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { hashOpaqueToken } from '../../../lib/shared/utils/opaque-token.util.js';
+import { RefreshTokenUseCase } from './refresh-token.use-case.js';
+
+describe('RefreshTokenUseCase', () => {
+	let useCase: RefreshTokenUseCase;
+	let mockSessionRepository: ReturnType<typeof createMockSessionRepository>;
+	let mockJwtService: ReturnType<typeof createMockJwtService>;
+
+	const HOUR_MS = 60 * 60 * 1000;
+
+	function storedToken(overrides?: { usedAt?: Date | null; expiresAt?: Date; revokedAt?: Date | null; anonymizedAt?: Date | null }) {
+		return {
+			id: 'token-1',
+			tokenHash: hashOpaqueToken('refresh-token'),
+			sessionId: 'session-1',
+			expiresAt: overrides?.expiresAt ?? new Date(Date.now() + 24 * HOUR_MS),
+			usedAt: overrides?.usedAt ?? null,
+			createdAt: new Date(),
+			session: {
+				id: 'session-1',
+				userRefId: 1,
+				createdAt: new Date(),
+				revokedAt: overrides?.revokedAt ?? null,
+				revokedReason: overrides?.revokedAt ? 'LOGOUT' : null,
+			},
+			owner: { userId: 'user-123', role: 'DRIVER', anonymizedAt: overrides?.anonymizedAt ?? null },
+		};
+	}
+
+	beforeEach(() => {
+		mockSessionRepository = createMockSessionRepository();
+		mockJwtService = createMockJwtService();
+		mockSessionRepository.revoke.mockResolvedValue(ok(undefined));
+
+		container.registerInstance(TOKENS.SessionRepository, mockSessionRepository);
+		container.registerInstance(TOKENS.JwtService, mockJwtService);
+		container.registerInstance(TOKENS.AuthConfig, createMockAuthConfig());
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+
+		useCase = container.resolve(RefreshTokenUseCase);
+	});
+
+	// Verifies the happy path: the token is rotated and a new access token is signed
+	it('should rotate the refresh token and sign a new access token', async () => {
+		mockSessionRepository.findRefreshToken.mockResolvedValue(ok(storedToken()));
+		mockSessionRepository.rotateRefreshToken.mockResolvedValue(ok(true));
+		mockJwtService.sign.mockResolvedValue(ok('new-jwt'));
+
+		const result = await useCase.execute({ refreshToken: 'refresh-token' });
+
+		expect(mockSessionRepository.findRefreshToken).toHaveBeenCalledWith(hashOpaqueToken('refresh-token'));
+		expect(mockJwtService.sign).toHaveBeenCalledWith({ userId: 'user-123', role: 'DRIVER', sessionId: 'session-1' });
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.value.userId).toBe('user-123');
+			expect(result.value.token).toBe('new-jwt');
+			expect(result.value.refreshToken).not.toBe('refresh-token');
+			const [tokenId, next] = mockSessionRepository.rotateRefreshToken.mock.calls[0];
+			expect(tokenId).toBe('token-1');
+			expect(next.tokenHash).toBe(hashOpaqueToken(result.value.refreshToken));
+		}
+	});
+
+	// Verifies that an unknown token is rejected
+	it('should return InvalidRefreshTokenError for an unknown token', async () => {
+		mockSessionRepository.findRefreshToken.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute({ refreshToken: 'unknown' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(InvalidRefreshTokenError);
+		}
+		expect(mockSessionRepository.rotateRefreshToken).not.toHaveBeenCalled();
+	});
+
+	// Verifies that expired tokens, revoked sessions and anonymized users cannot refresh
+	it.each([
+		['an expired token', { expiresAt: new Date(Date.now() - HOUR_MS) }],
+		['a revoked session', { revokedAt: new Date() }],
+		['an anonymized user', { anonymizedAt: new Date() }],
+	])('should return InvalidRefreshTokenError for %s', async (_label, overrides) => {
+		mockSessionRepository.findRefreshToken.mockResolvedValue(ok(storedToken(overrides)));
+
+		const result = await useCase.execute({ refreshToken: 'refresh-token' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(InvalidRefreshTokenError);
+		}
+		expect(mockSessionRepository.rotateRefreshToken).not.toHaveBeenCalled();
+		expect(mockSessionRepository.revoke).not.toHaveBeenCalled();
+	});
+
+	// Verifies that presenting a rotated token again revokes the session
+	it('should revoke the session when a used token is presented again', async () => {
+		mockSessionRepository.findRefreshToken.mockResolvedValue(ok(storedToken({ usedAt: new Date() })));
+
+		const result = await useCase.execute({ refreshToken: 'refresh-token' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(RefreshTokenReusedError);
+		}
+		expect(mockSessionRepository.revoke).toHaveBeenCalledWith('session-1', 'REUSE_DETECTED');
+		expect(mockSessionRepository.rotateRefreshToken).not.toHaveBeenCalled();
+		expect(mockJwtService.sign).not.toHaveBeenCalled();
+	});
+
+	// Verifies that losing a concurrent rotation race is treated as reuse
+	it('should revoke the session when the token was rotated concurrently', async () => {
+		mockSessionRepository.findRefreshToken.mockResolvedValue(ok(storedToken()));
+		mockSessionRepository.rotateRefreshToken.mockResolvedValue(ok(false));
+
+		const result = await useCase.execute({ refreshToken: 'refresh-token' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(RefreshTokenReusedError);
+		}
+		expect(mockSessionRepository.revoke).toHaveBeenCalledWith('session-1', 'REUSE_DETECTED');
+		expect(mockJwtService.sign).not.toHaveBeenCalled();
+	});
+
+	// Verifies that a DB error during rotation propagates
+	it('should propagate error when rotation fails', async () => {
+		mockSessionRepository.findRefreshToken.mockResolvedValue(ok(storedToken()));
+		mockSessionRepository.rotateRefreshToken.mockResolvedValue(err(new DatabaseError('Rotation failed')));
+
+		const result = await useCase.execute({ refreshToken: 'refresh-token' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+		expect(mockJwtService.sign).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,141 @@
+/**
+ * @module RefreshTokenUseCase
+ *
+ * Exchanges a refresh token for a new access token. Refresh tokens rotate:
+ * every exchange consumes the presented token and returns a new one. A token
+ * presented a second time means its chain has leaked, so the whole session is
+ * revoked and every token issued for it stops working.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { RefreshTokenWithSession } from '../../../domain/entities/session.entity.js';
+import type { SessionRepository } from '../../../domain/repositories/session.repository.js';
+import type { JwtService } from '../../../domain/services/jwt.service.js';
+import { InvalidRefreshTokenError, RefreshTokenReusedError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { JwtError } from '../../../lib/errors/jwt.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { hashOpaqueToken } from '../../../lib/shared/utils/opaque-token.util.js';
+import type { AuthConfig } from '../../config/auth.config.js';
+import type { AuthResponseType, RefreshTokenSchemaType } from '../../schemas/auth.schema.js';
+import { issueRefreshToken } from './session-tokens.js';
+
+/**
+ * Union of all possible error types returned by the refresh use case.
+ *
+ * - {@link InvalidRefreshTokenError} - Unknown or expired token, revoked session, or anonymized user
+ * - {@link RefreshTokenReusedError} - The token was already exchanged; its session has been revoked
+ * - {@link RepositoryError} - Database-level failure during lookup, rotation or revocation
+ * - {@link JwtError} - Failure during JWT token signing
+ */
+type RefreshTokenError = InvalidRefreshTokenError | RefreshTokenReusedError | RepositoryError | JwtError;
+
+/** Checks whether a stored token can still be exchanged, ignoring reuse. */
+function isExchangeable(stored: RefreshTokenWithSession, now: Date): boolean {
+	return stored.session.revokedAt === null && stored.owner.anonymizedAt === null && stored.expiresAt > now;
+}
+
+/**
+ * Rotates a refresh token and signs a new access token for its session.
+ *
+ * Business flow:
+ * 1. Look up the token by the hash of the presented value
+ * 2. If it was already used, revoke its session (reuse detection)
+ * 3. Reject it if it expired, its session is revoked, or its user was anonymized
+ * 4. Mark it as used and store its successor; losing a concurrent race for the
+ *    same token counts as reuse
+ * 5. Sign a JWT for the session with the user's current role
+ * 6. Return the userId (UUID), the signed token and the new refresh token
+ *
+ * @dependencies SessionRepository, JwtService, AuthConfig
+ */
+@injectable()
+export class RefreshTokenUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.SessionRepository)
+		private readonly sessionRepository: SessionRepository,
+		@inject(TOKENS.JwtService)
+		private readonly jwtService: JwtService,
+		@inject(TOKENS.AuthConfig)
+		private readonly authConfig: AuthConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'RefreshTokenUseCase' });
+	}
+
+	/**
+	 * Executes the refresh flow for the presented token.
+	 *
+	 * @param input - Validated payload containing the refresh token
+	 * @returns A Result containing the userId, a new JWT token and a new refresh token
+	 *          on success, or a RefreshTokenError on failure
+	 */
+	async execute(input: RefreshTokenSchemaType): Promise<Result<AuthResponseType, RefreshTokenError>> {
+		const storedResult = await this.sessionRepository.findRefreshToken(hashOpaqueToken(input.refreshToken));
+		if (!storedResult.success) {
+			return storedResult;
+		}
+
+		const stored = storedResult.value;
+		if (!stored) {
+			this.logger.warn('Refresh failed: unknown token');
+			return err(new InvalidRefreshTokenError());
+		}
+
+		if (stored.usedAt !== null) {
+			return this.revokeReusedSession(stored);
+		}
+
+		const now = new Date();
+		if (!isExchangeable(stored, now)) {
+			this.logger.warn('Refresh failed: token no longer valid', { sessionId: stored.sessionId });
+			return err(new InvalidRefreshTokenError());
+		}
+
+		const next = issueRefreshToken(this.authConfig, now);
+		const rotateResult = await this.sessionRepository.rotateRefreshToken(stored.id, next.data);
+		if (!rotateResult.success) {
+			return rotateResult;
+		}
+		if (!rotateResult.value) {
+			// Another request exchanged the same token first
+			return this.revokeReusedSession(stored);
+		}
+
+		const tokenResult = await this.jwtService.sign({
+			userId: stored.owner.userId,
+			role: stored.owner.role,
+			sessionId: stored.sessionId,
+		});
+		if (!tokenResult.success) {
+			return tokenResult;
+		}
+
+		this.logger.info('Session refreshed', { userId: stored.owner.userId, sessionId: stored.sessionId });
+		return ok({
+			userId: stored.owner.userId,
+			token: tokenResult.value,
+			refreshToken: next.token,
+		});
+	}
+
+	/**
+	 * Revokes the session of a reused refresh token.
+	 *
+	 * @param stored - The reused token
+	 * @returns A RefreshTokenReusedError, or a RepositoryError if revocation failed
+	 */
+	private async revokeReusedSession(stored: RefreshTokenWithSession): Promise<Result<never, RefreshTokenReusedError | RepositoryError>> {
+		this.logger.warn('Refresh token reuse detected, revoking session', { userId: stored.owner.userId, sessionId: stored.sessionId });
+		const revokeResult = await this.sessionRepository.revoke(stored.sessionId, 'REUSE_DETECTED');
+		if (!revokeResult.success) {
+			return revokeResult;
+		}
+		return err(new RefreshTokenReusedError(stored.sessionId));
+	}
+}
@@ -2,24 +2,25 @@
  * @file Unit tests for the RegisterUseCase.
  *
  * Covers the full registration flow including Auth + User creation in a
- * single transaction, password hashing, welcome email dispatch, JWT
- * issuance, and the duplicate-email error path. All dependencies are mocked.
+ * single transaction with the welcome email recorded in the outbox, password
+ * hashing, the verification link recorded in the outbox with its token, JWT issuance, and the duplicate-email error path. All dependencies are mocked.
  */
 
 import { container } from 'tsyringe';
 import { beforeEach, describe, expect, it } from 'vitest';
 import {
+	createMockAccountTokenRepository,
+	createMockAuthConfig,
 	createMockAuthRepository,
-	createMockEmailService,
 	createMockJwtService,
 	createMockLogger,
 	createMockPasswordService,
+	createMockSessionRepository,
 } from '../../../../tests/setup.js';
 import { UserAlreadyExistsError } from '../../../lib/errors/domain.errors.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
 import { HashingError } from '../../../lib/errors/password.errors.js';
 import { TokenSigningError } from '../../../lib/errors/jwt.errors.js';
-import { EmailDeliveryError } from '../../../lib/errors/email.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
 import type { RegisterSchemaType } from '../../schemas/auth.schema.js';
@@ -30,14 +31,16 @@ describe('RegisterUseCase', () => {
 	let registerUseCase: RegisterUseCase;
 	let mockAuthRepository: ReturnType<typeof createMockAuthRepository>;
 	let mockPasswordService: ReturnType<typeof createMockPasswordService>;
-	let mockEmailService: ReturnType<typeof createMockEmailService>;
 	let mockJwtService: ReturnType<typeof createMockJwtService>;
+	let mockSessionRepository: ReturnType<typeof createMockSessionRepository>;
+	let mockAccountTokenRepository: ReturnType<typeof createMockAccountTokenRepository>;
 	let mockLogger: ReturnType<typeof createMockLogger>;
 
 	const validInput: RegisterSchemaType = {
 		email: 'test@example.com',
 		password: 'Password123!',
 		confirmPassword: 'Password123!',
+		locale: 'en',
 	};
 
 	const createdAuth = {
@@ -46,6 +49,7 @@ describe('RegisterUseCase', () => {
 		email: 'test@example.com',
 		password: 'hashed-password',
 		role: 'USER',
+		emailVerifiedAt: null,
 		anonymizedAt: null,
 		createdAt: new Date(),
 		updatedAt: new Date(),
@@ -58,34 +62,47 @@ describe('RegisterUseCase', () => {
 		firstName: null,
 		lastName: null,
 		phone: null,
+		locale: 'en' as const,
 		email: 'test@example.com',
 		anonymizedAt: null,
 		createdAt: new Date(),
 		updatedAt: new Date(),
 	};
 
+	const openedSession = {
+		id: 'session-123',
+		userRefId: 1,
+		createdAt: new Date(),
+		revokedAt: null,
+		revokedReason: null,
+	};
+
 	beforeEach(() => {
 		mockAuthRepository = createMockAuthRepository();
 		mockPasswordService = createMockPasswordService();
-		mockEmailService = createMockEmailService();
 		mockJwtService = createMockJwtService();
+		mockSessionRepository = createMockSessionRepository();
+		mockSessionRepository.create.mockResolvedValue(ok(openedSession));
+		mockAccountTokenRepository = createMockAccountTokenRepository();
+		mockAccountTokenRepository.create.mockResolvedValue(ok({ id: 'token-123' }));
 		mockLogger = createMockLogger();
 
 		container.registerInstance(TOKENS.AuthRepository, mockAuthRepository);
 		container.registerInstance(TOKENS.PasswordService, mockPasswordService);
-		container.registerInstance(TOKENS.EmailService, mockEmailService);
 		container.registerInstance(TOKENS.JwtService, mockJwtService);
+		container.registerInstance(TOKENS.SessionRepository, mockSessionRepository);
+		container.registerInstance(TOKENS.AccountTokenRepository, mockAccountTokenRepository);
+		container.registerInstance(TOKENS.AuthConfig, createMockAuthConfig());
 		container.registerInstance(TOKENS.Logger, mockLogger);
 
 		registerUseCase = container.resolve(RegisterUseCase);
 	});
 
-	// Verifies the happy path: new email leads to Auth+User creation, email sent, JWT issued
+	// Verifies the happy path: new email leads to Auth+User creation with the welcome email queued, JWT issued
 	it('should register a new user successfully', async () => {
 		mockAuthRepository.existsByEmail.mockResolvedValue(ok(false));
 		mockPasswordService.hash.mockResolvedValue(ok('hashed-password'));
 		mockAuthRepository.createWithUser.mockResolvedValue(ok({ auth: createdAuth, user: createdUser }));
-		mockEmailService.sendWelcomeEmail.mockResolvedValue(ok(undefined));
 		mockJwtService.sign.mockResolvedValue(ok('jwt-token'));
 
 		const result = await registerUseCase.execute(validInput);
@@ -94,18 +111,21 @@ describe('RegisterUseCase', () => {
 		if (result.success) {
 			expect(result.value.userId).toBe('user-123');
 			expect(result.value.token).toBe('jwt-token');
+			expect(result.value.refreshToken).toEqual(expect.any(String));
 		}
 		expect(mockAuthRepository.existsByEmail).toHaveBeenCalledWith(validInput.email);
 		expect(mockPasswordService.hash).toHaveBeenCalledWith(validInput.password);
 		expect(mockAuthRepository.createWithUser).toHaveBeenCalledWith(
 			{ email: validInput.email, password: 'hashed-password' },
-			{ firstName: null, lastName: null, phone: null },
-		);
-		expect(mockEmailService.sendWelcomeEmail).toHaveBeenCalledWith(
-			validInput.email,
-			'there',
+			{ firstName: null, lastName: null, phone: null, locale: 'en' },
+			[
+				{
+					type: 'EMAIL',
+					payload: { to: validInput.email, locale: 'en', message: { template: 'welcome', variables: { firstName: null } } },
+				},
+			],
 		);
-		expect(mockJwtService.sign).toHaveBeenCalledWith({ userId: 'user-123', role: 'USER' });
+		expect(mockJwtService.sign).toHaveBeenCalledWith({ userId: 'user-123', role: 'USER', sessionId: 'session-123' });
 	});
 
 	// Verifies that a duplicate email is rejected and no records are created
@@ -119,7 +139,6 @@ describe('RegisterUseCase', () => {
 			expect(result.error).toBeInstanceOf(UserAlreadyExistsError);
 		}
 		expect(mockAuthRepository.createWithUser).not.toHaveBeenCalled();
-		expect(mockEmailService.sendWelcomeEmail).not.toHaveBeenCalled();
 	});
 
 	// Verifies that a DB error on existsByEmail propagates correctly
@@ -163,7 +182,24 @@ describe('RegisterUseCase', () => {
 		if (!result.success) {
 			expect(result.error).toBeInstanceOf(DatabaseError);
 		}
-		expect(mockEmailService.sendWelcomeEmail).not.toHaveBeenCalled();
+		expect(mockAccountTokenRepository.create).not.toHaveBeenCalled();
+	});
+
+	// Verifies that the new user gets a session before the token is signed
+	it('should open a session for the new user', async () => {
+		mockAuthRepository.existsByEmail.mockResolvedValue(ok(false));
+		mockPasswordService.hash.mockResolvedValue(ok('hashed-password'));
+		mockAuthRepository.createWithUser.mockResolvedValue(ok({ auth: createdAuth, user: createdUser }));
+		mockSessionRepository.create.mockResolvedValue(err(new DatabaseError('Session insert failed')));
+
+		const result = await registerUseCase.execute(validInput);
+
+		expect(mockSessionRepository.create).toHaveBeenCalledWith(createdUser.refId, {
+			tokenHash: expect.any(String),
+			expiresAt: expect.any(Date),
+		});
+		expect(result.success).toBe(false);
+		expect(mockJwtService.sign).not.toHaveBeenCalled();
 	});
 
 	// Verifies that a JWT signing error propagates correctly
@@ -171,7 +207,6 @@ describe('RegisterUseCase', () => {
 		mockAuthRepository.existsByEmail.mockResolvedValue(ok(false));
 		mockPasswordService.hash.mockResolvedValue(ok('hashed-password'));
 		mockAuthRepository.createWithUser.mockResolvedValue(ok({ auth: createdAuth, user: createdUser }));
-		mockEmailService.sendWelcomeEmail.mockResolvedValue(ok(undefined));
 		mockJwtService.sign.mockResolvedValue(err(new TokenSigningError('Signing failed')));
 
 		const result = await registerUseCase.execute(validInput);
@@ -182,20 +217,43 @@ describe('RegisterUseCase', () => {
 		}
 	});
 
-	// Verifies that email failure does not block registration — logs warning instead
-	it('should succeed and log warning when welcome email fails', async () => {
+	// Verifies that the verification link email is recorded with the token, and only its hash is stored
+	it('should record a verification link email for the new address with its token', async () => {
 		mockAuthRepository.existsByEmail.mockResolvedValue(ok(false));
 		mockPasswordService.hash.mockResolvedValue(ok('hashed-password'));
 		mockAuthRepository.createWithUser.mockResolvedValue(ok({ auth: createdAuth, user: createdUser }));
-		mockEmailService.sendWelcomeEmail.mockResolvedValue(err(new EmailDeliveryError('SMTP down')));
+		mockJwtService.sign.mockResolvedValue(ok('jwt-token'));
+
+		await registerUseCase.execute(validInput);
+
+		const [token, [email]] = mockAccountTokenRepository.create.mock.calls[0];
+		expect(token).toEqual({
+			authRefId: 1,
+			purpose: 'EMAIL_VERIFICATION',
+			tokenHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+			expiresAt: expect.any(Date),
+		});
+		const { to, message, locale } = email.payload;
+		const link = message.variables.verificationUrl;
+		expect(email.type).toBe('EMAIL');
+		expect(to).toBe(validInput.email);
+		expect(message.template).toBe('email-verification');
+		expect(locale).toBe('en');
+		expect(link).toMatch(/^https:\/\/app\.test\/verify-email\?token=/);
+		expect(link).not.toContain(mockAccountTokenRepository.create.mock.calls[0][0].tokenHash);
+	});
+
+	// Verifies that a failure to issue the verification token does not block registration
+	it('should succeed without a verification email when the token cannot be stored', async () => {
+		mockAuthRepository.existsByEmail.mockResolvedValue(ok(false));
+		mockPasswordService.hash.mockResolvedValue(ok('hashed-password'));
+		mockAuthRepository.createWithUser.mockResolvedValue(ok({ auth: createdAuth, user: createdUser }));
+		mockAccountTokenRepository.create.mockResolvedValue(err(new DatabaseError('DB down')));
 		mockJwtService.sign.mockResolvedValue(ok('jwt-token'));
 
 		const result = await registerUseCase.execute(validInput);
 
 		expect(result.success).toBe(true);
-		if (result.success) {
-			expect(result.value.userId).toBe('user-123');
-			expect(result.value.token).toBe('jwt-token');
-		}
+		expect(mockLogger.warn).toHaveBeenCalledWith('Failed to issue email verification token', expect.any(Object));
 	});
 });
@@ -3,14 +3,20 @@
  *
  * Handles new user registration for the carpooling platform. Creates an Auth
  * record (email + hashed password) and a linked User profile in a single
- * database transaction, sends a welcome email, and returns a JWT so the
- * user is immediately authenticated after sign-up.
+ * database transaction, together with the welcome email in the outbox (sent
+ * by the outbox worker), issues an email verification link through the outbox
+ * too, and opens a session (JWT access token plus refresh token) so the user is
+ * immediately authenticated after sign-up.
  */
 
 import { inject, injectable } from 'tsyringe';
+import type { AuthEntity } from '../../../domain/entities/auth.entity.js';
+import type { Locale } from '../../../domain/entities/user.entity.js';
+import { outboxEmail } from '../../../domain/outbox/outbox-email.js';
 import { UserAlreadyExistsError } from '../../../lib/errors/domain.errors.js';
+import type { AccountTokenRepository } from '../../../domain/repositories/account-token.repository.js';
 import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
-import type { EmailService } from '../../../domain/services/email.service.js';
+import type { SessionRepository } from '../../../domain/repositories/session.repository.js';
 import type { JwtService } from '../../../domain/services/jwt.service.js';
 import type { PasswordService } from '../../../domain/services/password.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
@@ -20,13 +26,16 @@ import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
+import type { AuthConfig } from '../../config/auth.config.js';
 import type { RegisterSchemaType, AuthResponseType } from '../../schemas/auth.schema.js';
+import { issueAccountToken } from './account-tokens.js';
+import { issueRefreshToken } from './session-tokens.js';
 
 /**
  * Union of all possible error types returned by the registration use case.
  *
  * - {@link UserAlreadyExistsError} - The supplied email is already registered
- * - {@link RepositoryError} - Database-level failure during existence check or creation
+ * - {@link RepositoryError} - Database-level failure during existence check, creation or session creation
  * - {@link PasswordError} - Failure during Argon2 password hashing
  * - {@link JwtError} - Failure during JWT token signing
  */
@@ -38,15 +47,20 @@ export type RegisterError = UserAlreadyExistsError | RepositoryError | PasswordE
  * Business flow:
  * 1. Verify the email is not already registered
  * 2. Hash the password with Argon2
- * 3. Create Auth + User records atomically in a single transaction
- * 4. Send a welcome email (failure is logged but does not abort registration)
- * 5. Sign a JWT so the user is immediately authenticated
- * 6. Return the userId (UUID) and signed token
+ * 3. Create Auth + User records atomically in a single transaction, recording the
+ *    welcome email in the outbox so it is sent once the account is committed
+ * 4. Issue an email verification token, recording the email carrying its link
+ *    in the outbox in the same transaction (failure is logged but does not
+ *    abort registration)
+ * 5. Open a session with a new refresh token (stored hashed)
+ * 6. Sign a JWT bound to the session so the user is immediately authenticated
+ * 7. Return the userId (UUID), the signed token and the refresh token
  *
  * The User profile is initially created with null firstName, lastName, and phone;
- * these are populated later via the update-user use case.
+ * these are populated later via the update-user use case. Emails are written in
+ * the locale chosen at sign-up.
  *
- * @dependencies AuthRepository, PasswordService, EmailService, JwtService
+ * @dependencies AuthRepository, SessionRepository, AccountTokenRepository, PasswordService, JwtService, AuthConfig
  */
 @injectable()
 export class RegisterUseCase {
@@ -55,12 +69,16 @@ export class RegisterUseCase {
 	constructor(
 		@inject(TOKENS.AuthRepository)
 		private readonly authRepository: AuthRepository,
+		@inject(TOKENS.SessionRepository)
+		private readonly sessionRepository: SessionRepository,
+		@inject(TOKENS.AccountTokenRepository)
+		private readonly accountTokenRepository: AccountTokenRepository,
 		@inject(TOKENS.PasswordService)
 		private readonly passwordService: PasswordService,
-		@inject(TOKENS.EmailService)
-		private readonly emailService: EmailService,
 		@inject(TOKENS.JwtService)
 		private readonly jwtService: JwtService,
+		@inject(TOKENS.AuthConfig)
+		private readonly authConfig: AuthConfig,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
 		this.logger = logger.child({ useCase: 'RegisterUseCase' });
@@ -71,7 +89,7 @@ export class RegisterUseCase {
 	 *
 	 * @param input - Validated registration payload containing email, password,
 	 *                and confirmPassword
-	 * @returns A Result containing the userId and JWT token on success,
+	 * @returns A Result containing the userId, JWT token and refresh token on success,
 	 *          or a RegisterError on failure
 	 */
 	async execute(input: RegisterSchemaType): Promise<Result<AuthResponseType, RegisterError>> {
@@ -92,10 +110,16 @@ export class RegisterUseCase {
 			return hashResult;
 		}
 
-		// Create auth + user in transaction
+		// Create auth + user in transaction, with the welcome email in the outbox
 		const createResult = await this.authRepository.createWithUser(
 			{ email: input.email, password: hashResult.value },
-			{ firstName: null, lastName: null, phone: null },
+			{ firstName: null, lastName: null, phone: null, locale: input.locale },
+			[
+				{
+					type: 'EMAIL',
+					payload: { to: input.email, locale: input.locale, message: { template: 'welcome', variables: { firstName: null } } },
+				},
+			],
 		);
 		if (!createResult.success) {
 			return createResult;
@@ -103,19 +127,18 @@ export class RegisterUseCase {
 
 		const { auth, user } = createResult.value;
 
-		// Send welcome email (don't fail registration if email fails)
-		const emailResult = await this.emailService.sendWelcomeEmail(auth.email, user.firstName ?? 'there');
-		if (!emailResult.success) {
-			this.logger.warn('Failed to send welcome email', {
-				userId: user.id,
-				email: auth.email,
-				errorCode: emailResult.error.code,
-				errorMessage: emailResult.error.message,
-			});
+		// Ask the user to verify their address (don't fail registration if it fails)
+		await this.sendVerificationEmail(auth, user.locale);
+
+		// Open a session
+		const refreshToken = issueRefreshToken(this.authConfig);
+		const sessionResult = await this.sessionRepository.create(user.refId, refreshToken.data);
+		if (!sessionResult.success) {
+			return sessionResult;
 		}
 
 		// Generate token
-		const tokenResult = await this.jwtService.sign({ userId: user.id, role: auth.role });
+		const tokenResult = await this.jwtService.sign({ userId: user.id, role: auth.role, sessionId: sessionResult.value.id });
 		if (!tokenResult.success) {
 			return tokenResult;
 		}
@@ -124,6 +147,22 @@ export class RegisterUseCase {
 		return ok({
 			userId: user.id,
 			token: tokenResult.value,
+			refreshToken: refreshToken.token,
 		});
 	}
+
+	/**
+	 * Issues an email verification token, with the email carrying its link in
+	 * the outbox. Failures are logged only: the user can still sign in, and
+	 * unverified accounts are only restricted where the account policy requires it.
+	 */
+	private async sendVerificationEmail(auth: AuthEntity, locale: Locale): Promise<void> {
+		const issued = issueAccountToken(this.authConfig, auth.refId, 'EMAIL_VERIFICATION');
+		const tokenResult = await this.accountTokenRepository.create(issued.data, [
+			outboxEmail({ email: auth.email, locale }, { template: 'email-verification', variables: { verificationUrl: issued.link } }),
+		]);
+		if (!tokenResult.success) {
+			this.logger.warn('Failed to issue email verification token', { authId: auth.id, errorCode: tokenResult.error.code });
+		}
+	}
 }
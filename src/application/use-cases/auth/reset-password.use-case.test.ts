@@ -0,0 +1,128 @@
+/**
+ * @file Unit tests for the ResetPasswordUseCase.
+ *
+ * Covers redeeming the reset token, storing the new password hash, revoking
+ * every session of the user, invalid tokens and error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockAccountTokenRepository,
+	createMockAuthRepository,
+	createMockLogger,
+	createMockPasswordService,
+	createMockSessionRepository,
+	createMockUserData,
+	createMockUserRepository,
+} from '../../../../tests/setup.js';
+import { InvalidAccountTokenError } from '../../../lib/errors/domain.errors.js';
+import { HashingError } from '../../../lib/errors/password.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { hashOpaqueToken } from '../../../lib/shared/utils/opaque-token.util.js';
+import { ResetPasswordUseCase } from './reset-password.use-case.js';
+
+describe('ResetPasswordUseCase', () => {
+	let useCase: ResetPasswordUseCase;
+	let mockAccountTokenRepository: ReturnType<typeof createMockAccountTokenRepository>;
+	let mockAuthRepository: ReturnType<typeof createMockAuthRepository>;
+	let mockUserRepository: ReturnType<typeof createMockUserRepository>;
+	let mockSessionRepository: ReturnType<typeof createMockSessionRepository>;
+	let mockPasswordService: ReturnType<typeof createMockPasswordService>;
+
+	const input = { token: 'raw-token', password: 'NewPassword1', confirmPassword: 'NewPassword1' };
+	const resetToken = {
+		id: 'token-1',
+		tokenHash: hashOpaqueToken('raw-token'),
+		authRefId: 5,
+		purpose: 'PASSWORD_RESET' as const,
+		expiresAt: new Date(Date.now() + 60_000),
+		usedAt: null,
+		createdAt: new Date(),
+	};
+
+	beforeEach(() => {
+		mockAccountTokenRepository = createMockAccountTokenRepository();
+		mockAccountTokenRepository.findByHash.mockResolvedValue(ok(resetToken));
+		mockAccountTokenRepository.consume.mockResolvedValue(ok(true));
+		mockAuthRepository = createMockAuthRepository();
+		mockAuthRepository.updatePassword.mockResolvedValue(ok(undefined));
+		mockUserRepository = createMockUserRepository();
+		mockUserRepository.findByAuthRefId.mockResolvedValue(ok(createMockUserData({ refId: 7, authRefId: 5 })));
+		mockSessionRepository = createMockSessionRepository();
+		mockSessionRepository.revokeAllForUser.mockResolvedValue(ok(2));
+		mockPasswordService = createMockPasswordService();
+		mockPasswordService.hash.mockResolvedValue(ok('new-hash'));
+
+		container.registerInstance(TOKENS.AccountTokenRepository, mockAccountTokenRepository);
+		container.registerInstance(TOKENS.AuthRepository, mockAuthRepository);
+		container.registerInstance(TOKENS.UserRepository, mockUserRepository);
+		container.registerInstance(TOKENS.SessionRepository, mockSessionRepository);
+		container.registerInstance(TOKENS.PasswordService, mockPasswordService);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+
+		useCase = container.resolve(ResetPasswordUseCase);
+	});
+
+	// Verifies the full reset: token consumed, password replaced, sessions revoked
+	it('should replace the password and revoke every session', async () => {
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(true);
+		expect(mockAccountTokenRepository.consume).toHaveBeenCalledWith('token-1');
+		expect(mockPasswordService.hash).toHaveBeenCalledWith('NewPassword1');
+		expect(mockAuthRepository.updatePassword).toHaveBeenCalledWith(5, 'new-hash');
+		expect(mockUserRepository.findByAuthRefId).toHaveBeenCalledWith(5);
+		expect(mockSessionRepository.revokeAllForUser).toHaveBeenCalledWith(7, 'PASSWORD_RESET');
+	});
+
+	// Verifies that verification tokens cannot reset passwords
+	it('should return InvalidAccountTokenError for a token of another purpose', async () => {
+		mockAccountTokenRepository.findByHash.mockResolvedValue(ok({ ...resetToken, purpose: 'EMAIL_VERIFICATION' }));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(InvalidAccountTokenError);
+		}
+		expect(mockAuthRepository.updatePassword).not.toHaveBeenCalled();
+	});
+
+	// Verifies that a used token is rejected
+	it('should return InvalidAccountTokenError for a used token', async () => {
+		mockAccountTokenRepository.findByHash.mockResolvedValue(ok({ ...resetToken, usedAt: new Date() }));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		expect(mockPasswordService.hash).not.toHaveBeenCalled();
+	});
+
+	// Verifies that hashing errors are propagated
+	it('should propagate error when password hashing fails', async () => {
+		mockPasswordService.hash.mockResolvedValue(err(new HashingError()));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(HashingError);
+		}
+		expect(mockAuthRepository.updatePassword).not.toHaveBeenCalled();
+	});
+
+	// Verifies that revocation errors are propagated
+	it('should propagate error when sessions cannot be revoked', async () => {
+		mockSessionRepository.revokeAllForUser.mockResolvedValue(err(new DatabaseError('DB down')));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+	});
+});
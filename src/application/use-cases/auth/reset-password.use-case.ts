@@ -0,0 +1,102 @@
+/**
+ * @module ResetPasswordUseCase
+ *
+ * Completes the password recovery flow: redeems a password reset token and
+ * replaces the account's password. Every session of the user is revoked, so
+ * anyone signed in with the old password is signed out.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { AccountTokenRepository } from '../../../domain/repositories/account-token.repository.js';
+import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
+import type { SessionRepository } from '../../../domain/repositories/session.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import type { PasswordService } from '../../../domain/services/password.service.js';
+import type { InvalidAccountTokenError } from '../../../lib/errors/domain.errors.js';
+import type { PasswordError } from '../../../lib/errors/password.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import type { ResetPasswordSchemaType } from '../../schemas/auth.schema.js';
+import { redeemAccountToken } from './account-tokens.js';
+
+/**
+ * Union of all possible error types returned by the reset password use case.
+ *
+ * - {@link InvalidAccountTokenError} - The token is unknown, expired, already used or not a reset token
+ * - {@link PasswordError} - Failure during Argon2 password hashing
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type ResetPasswordError = InvalidAccountTokenError | PasswordError | RepositoryError;
+
+/**
+ * Sets a new password using a password reset token.
+ *
+ * Business flow:
+ * 1. Redeem the PASSWORD_RESET token (single use)
+ * 2. Hash the new password with Argon2 and store it on the account
+ * 3. Revoke every session of the account's user
+ *
+ * @dependencies AccountTokenRepository, AuthRepository, UserRepository, SessionRepository, PasswordService
+ */
+@injectable()
+export class ResetPasswordUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.AccountTokenRepository)
+		private readonly accountTokenRepository: AccountTokenRepository,
+		@inject(TOKENS.AuthRepository)
+		private readonly authRepository: AuthRepository,
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.SessionRepository)
+		private readonly sessionRepository: SessionRepository,
+		@inject(TOKENS.PasswordService)
+		private readonly passwordService: PasswordService,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ResetPasswordUseCase' });
+	}
+
+	/**
+	 * Executes the password reset flow.
+	 *
+	 * @param input - Validated payload containing the token, password and confirmPassword
+	 * @returns A Result containing void on success, or a ResetPasswordError on failure
+	 */
+	async execute(input: ResetPasswordSchemaType): Promise<Result<void, ResetPasswordError>> {
+		const tokenResult = await redeemAccountToken(this.accountTokenRepository, input.token, 'PASSWORD_RESET');
+		if (!tokenResult.success) {
+			this.logger.warn('Password reset rejected', { errorCode: tokenResult.error.code });
+			return tokenResult;
+		}
+		const { authRefId } = tokenResult.value;
+
+		const hashResult = await this.passwordService.hash(input.password);
+		if (!hashResult.success) {
+			return hashResult;
+		}
+
+		const updateResult = await this.authRepository.updatePassword(authRefId, hashResult.value);
+		if (!updateResult.success) {
+			return updateResult;
+		}
+
+		const userResult = await this.userRepository.findByAuthRefId(authRefId);
+		if (!userResult.success) {
+			return userResult;
+		}
+		if (userResult.value) {
+			const revokeResult = await this.sessionRepository.revokeAllForUser(userResult.value.refId, 'PASSWORD_RESET');
+			if (!revokeResult.success) {
+				return revokeResult;
+			}
+		}
+
+		this.logger.info('Password reset', { authRefId });
+		return ok(undefined);
+	}
+}
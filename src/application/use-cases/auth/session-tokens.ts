@@ -0,0 +1,42 @@
+/**
+ * @module session-tokens
+ *
+ * Helpers shared by the authentication use cases for issuing refresh tokens.
+ * A refresh token is a random opaque string returned to the client once;
+ * only its hash and expiry are stored with the session.
+ */
+
+import type { IssueRefreshTokenData } from '../../../domain/entities/session.entity.js';
+import { generateOpaqueToken, hashOpaqueToken } from '../../../lib/shared/utils/opaque-token.util.js';
+import type { AuthConfig } from '../../config/auth.config.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A freshly generated refresh token.
+ *
+ * @property token - The opaque token to return to the client.
+ * @property data - The hash and expiry to persist.
+ */
+export type IssuedRefreshToken = {
+	token: string;
+	data: IssueRefreshTokenData;
+};
+
+/**
+ * Generates a refresh token expiring after the configured lifetime.
+ *
+ * @param config - Session policy providing the refresh token lifetime
+ * @param now - Issue time (defaults to the current time)
+ * @returns The token for the client and the data to store
+ */
+export function issueRefreshToken(config: AuthConfig, now: Date = new Date()): IssuedRefreshToken {
+	const token = generateOpaqueToken();
+	return {
+		token,
+		data: {
+			tokenHash: hashOpaqueToken(token),
+			expiresAt: new Date(now.getTime() + config.refreshTokenTtlDays * MS_PER_DAY),
+		},
+	};
+}
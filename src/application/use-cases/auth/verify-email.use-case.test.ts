@@ -0,0 +1,81 @@
+/**
+ * @file Unit tests for the VerifyEmailUseCase.
+ *
+ * Covers redeeming the verification token, recording the verification
+ * time, invalid tokens and error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockAccountTokenRepository, createMockAuthRepository, createMockLogger } from '../../../../tests/setup.js';
+import { InvalidAccountTokenError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { VerifyEmailUseCase } from './verify-email.use-case.js';
+
+describe('VerifyEmailUseCase', () => {
+	let useCase: VerifyEmailUseCase;
+	let mockAccountTokenRepository: ReturnType<typeof createMockAccountTokenRepository>;
+	let mockAuthRepository: ReturnType<typeof createMockAuthRepository>;
+
+	const verificationToken = {
+		id: 'token-1',
+		tokenHash: 'hash',
+		authRefId: 5,
+		purpose: 'EMAIL_VERIFICATION' as const,
+		expiresAt: new Date(Date.now() + 60_000),
+		usedAt: null,
+		createdAt: new Date(),
+	};
+
+	beforeEach(() => {
+		mockAccountTokenRepository = createMockAccountTokenRepository();
+		mockAccountTokenRepository.consume.mockResolvedValue(ok(true));
+		mockAuthRepository = createMockAuthRepository();
+		mockAuthRepository.markEmailVerified.mockResolvedValue(ok(undefined));
+
+		container.registerInstance(TOKENS.AccountTokenRepository, mockAccountTokenRepository);
+		container.registerInstance(TOKENS.AuthRepository, mockAuthRepository);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+
+		useCase = container.resolve(VerifyEmailUseCase);
+	});
+
+	// Verifies that a valid token marks the address as verified
+	it('should mark the email address as verified', async () => {
+		mockAccountTokenRepository.findByHash.mockResolvedValue(ok(verificationToken));
+
+		const result = await useCase.execute({ token: 'raw-token' });
+
+		expect(result.success).toBe(true);
+		expect(mockAccountTokenRepository.consume).toHaveBeenCalledWith('token-1');
+		expect(mockAuthRepository.markEmailVerified).toHaveBeenCalledWith(5, expect.any(Date));
+	});
+
+	// Verifies that an expired token is rejected
+	it('should return InvalidAccountTokenError for an expired token', async () => {
+		mockAccountTokenRepository.findByHash.mockResolvedValue(ok({ ...verificationToken, expiresAt: new Date(Date.now() - 1000) }));
+
+		const result = await useCase.execute({ token: 'raw-token' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(InvalidAccountTokenError);
+		}
+		expect(mockAuthRepository.markEmailVerified).not.toHaveBeenCalled();
+	});
+
+	// Verifies that database failures are propagated
+	it('should propagate error when the account cannot be updated', async () => {
+		mockAccountTokenRepository.findByHash.mockResolvedValue(ok(verificationToken));
+		mockAuthRepository.markEmailVerified.mockResolvedValue(err(new DatabaseError('DB down')));
+
+		const result = await useCase.execute({ token: 'raw-token' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+	});
+});
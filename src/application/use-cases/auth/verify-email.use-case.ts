@@ -0,0 +1,70 @@
+/**
+ * @module VerifyEmailUseCase
+ *
+ * Confirms that a user controls the email address of their account by
+ * redeeming the verification token sent to that address.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { AccountTokenRepository } from '../../../domain/repositories/account-token.repository.js';
+import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
+import type { InvalidAccountTokenError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import type { VerifyEmailSchemaType } from '../../schemas/auth.schema.js';
+import { redeemAccountToken } from './account-tokens.js';
+
+/**
+ * Union of all possible error types returned by the verify email use case.
+ *
+ * - {@link InvalidAccountTokenError} - The token is unknown, expired, already used or not a verification token
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type VerifyEmailError = InvalidAccountTokenError | RepositoryError;
+
+/**
+ * Marks an account's email address as verified.
+ *
+ * Business flow:
+ * 1. Redeem the EMAIL_VERIFICATION token (single use)
+ * 2. Record the verification time on the account
+ *
+ * @dependencies AccountTokenRepository, AuthRepository
+ */
+@injectable()
+export class VerifyEmailUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.AccountTokenRepository)
+		private readonly accountTokenRepository: AccountTokenRepository,
+		@inject(TOKENS.AuthRepository)
+		private readonly authRepository: AuthRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'VerifyEmailUseCase' });
+	}
+
+	/**
+	 * Executes the email verification flow.
+	 *
+	 * @param input - Validated payload containing the token
+	 * @returns A Result containing void on success, or a VerifyEmailError on failure
+	 */
+	async execute(input: VerifyEmailSchemaType): Promise<Result<void, VerifyEmailError>> {
+		const tokenResult = await redeemAccountToken(this.accountTokenRepository, input.token, 'EMAIL_VERIFICATION');
+		if (!tokenResult.success) {
+			this.logger.warn('Email verification rejected', { errorCode: tokenResult.error.code });
+			return tokenResult;
+		}
+		const { authRefId } = tokenResult.value;
+
+		const result = await this.authRepository.markEmailVerified(authRefId, new Date());
+		if (result.success) {
+			this.logger.info('Email verified', { authRefId });
+		}
+		return result;
+	}
+}
@@ -0,0 +1,39 @@
+/**
+ * @file Unit tests for the GetCacheMetricsUseCase.
+ *
+ * Covers the snapshot of the per-domain cache counters.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockCacheMetrics, createMockLogger } from '../../../../tests/setup.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import { GetCacheMetricsUseCase } from './get-cache-metrics.use-case.js';
+
+describe('GetCacheMetricsUseCase', () => {
+	let useCase: GetCacheMetricsUseCase;
+	let mockMetrics: ReturnType<typeof createMockCacheMetrics>;
+
+	beforeEach(() => {
+		mockMetrics = createMockCacheMetrics();
+		container.registerInstance(TOKENS.CacheMetrics, mockMetrics);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(GetCacheMetricsUseCase);
+	});
+
+	it('should return the counters of each domain', async () => {
+		const snapshot = { trip: { hits: 12, misses: 3, evictions: 1 }, inscription: { hits: 4, misses: 4, evictions: 0 } };
+		mockMetrics.snapshot.mockReturnValue(snapshot);
+
+		const result = await useCase.execute();
+
+		expect(result).toEqual(ok(snapshot));
+	});
+
+	it('should return no domain before any cached read', async () => {
+		const result = await useCase.execute();
+
+		expect(result).toEqual(ok({}));
+	});
+});
@@ -0,0 +1,43 @@
+/**
+ * @module GetCacheMetricsUseCase
+ *
+ * Reports the hits, misses and evictions of each cached domain. Used by
+ * admins to check that the cache serves the reads, and that writes do not
+ * invalidate more than they should.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { CacheDomainMetrics, CacheMetrics } from '../../../domain/services/cache-metrics.service.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+
+/**
+ * Returns the cache counters of the node serving the request, keyed by domain.
+ *
+ * @dependencies CacheMetrics
+ */
+@injectable()
+export class GetCacheMetricsUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.CacheMetrics)
+		private readonly cacheMetrics: CacheMetrics,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'GetCacheMetricsUseCase' });
+	}
+
+	/**
+	 * Takes a snapshot of the cache counters.
+	 *
+	 * @returns A Result containing the counters of each domain read since the node started
+	 */
+	async execute(): Promise<Result<Record<string, CacheDomainMetrics>, never>> {
+		const metrics = this.cacheMetrics.snapshot();
+		this.logger.info('Read cache metrics', { domains: Object.keys(metrics).length });
+		return ok(metrics);
+	}
+}
@@ -36,6 +36,15 @@ describe('CreateCityUseCase', () => {
 		expect(mockCityRepository.create).toHaveBeenCalledWith({ cityName: 'Paris', zipcode: '75000' });
 	});
 
+	// Coordinates are forwarded to the repository
+	it('should pass coordinates to the repository', async () => {
+		mockCityRepository.create.mockResolvedValue(ok({ id: '1', cityName: 'Paris', zipcode: '75000', latitude: 48.8566, longitude: 2.3522 }));
+
+		await useCase.execute({ cityName: 'Paris', zipcode: '75000', latitude: 48.8566, longitude: 2.3522 });
+
+		expect(mockCityRepository.create).toHaveBeenCalledWith({ cityName: 'Paris', zipcode: '75000', latitude: 48.8566, longitude: 2.3522 });
+	});
+
 	// DB error bubbles up unchanged
 	it('should propagate repository error', async () => {
 		mockCityRepository.create.mockResolvedValue(err(new DatabaseError('db error')));
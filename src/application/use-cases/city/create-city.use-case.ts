@@ -35,9 +35,9 @@ export class CreateCityUseCase {
 	}
 
 	/**
-	 * Creates a new city with the given name and zip code.
+	 * Creates a new city with the given name, zip code and optional coordinates.
 	 *
-	 * @param input - Validated payload containing cityName and zipcode
+	 * @param input - Validated payload containing cityName, zipcode and optional latitude/longitude
 	 * @returns A Result containing the created CityEntity on success,
 	 *          or a RepositoryError on database failure
 	 */
@@ -45,6 +45,8 @@ export class CreateCityUseCase {
 		const result = await this.cityRepository.create({
 			cityName: input.cityName,
 			zipcode: input.zipcode,
+			latitude: input.latitude,
+			longitude: input.longitude,
 		});
 		if (result.success) {
 			this.logger.info('City created', { cityId: result.value.id });
@@ -1,20 +1,22 @@
 /**
  * @file Unit tests for the CreateDriverUseCase.
  *
- * Covers successful driver profile creation with role upgrade, duplicate
- * driver rejection, repository error propagation, and the behavior when
- * the role upgrade fails (driver creation should still succeed).
+ * Covers successful driver profile creation and the DriverRegistered event
+ * the role upgrade reacts to, duplicate driver rejection, repository error
+ * propagation, and the verified email policy.
  */
 
 import { container } from 'tsyringe';
 import { beforeEach, describe, expect, it } from 'vitest';
 import {
+	createMockAuthConfig,
 	createMockAuthRepository,
 	createMockDriverRepository,
+	createMockEventBus,
 	createMockLogger,
 	createMockUserRepository,
 } from '../../../../tests/setup.js';
-import { DriverAlreadyExistsError } from '../../../lib/errors/domain.errors.js';
+import { DriverAlreadyExistsError, EmailNotVerifiedError } from '../../../lib/errors/domain.errors.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
@@ -28,6 +30,7 @@ describe('CreateDriverUseCase', () => {
 	let mockDriverRepository: ReturnType<typeof createMockDriverRepository>;
 	let mockUserRepository: ReturnType<typeof createMockUserRepository>;
 	let mockAuthRepository: ReturnType<typeof createMockAuthRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
 
 	const validInput: WithAuthContext<CreateDriverSchemaType> = {
 		driverLicense: 'DL-123456',
@@ -59,21 +62,24 @@ describe('CreateDriverUseCase', () => {
 		mockDriverRepository = createMockDriverRepository();
 		mockUserRepository = createMockUserRepository();
 		mockAuthRepository = createMockAuthRepository();
+		mockAuthRepository.findByRefId.mockResolvedValue(ok({ refId: 10, emailVerifiedAt: new Date() }));
+		mockEventBus = createMockEventBus();
 
 		container.registerInstance(TOKENS.DriverRepository, mockDriverRepository);
 		container.registerInstance(TOKENS.UserRepository, mockUserRepository);
 		container.registerInstance(TOKENS.AuthRepository, mockAuthRepository);
+		container.registerInstance(TOKENS.AuthConfig, createMockAuthConfig());
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
 		container.registerInstance(TOKENS.Logger, createMockLogger());
 
 		useCase = container.resolve(CreateDriverUseCase);
 	});
 
-	// Happy path: driver is created and role upgrade is triggered
+	// Happy path: driver is created
 	it('should create a driver successfully', async () => {
 		mockUserRepository.findById.mockResolvedValue(ok(mockUser));
 		mockDriverRepository.findByUserId.mockResolvedValue(ok(null));
 		mockDriverRepository.create.mockResolvedValue(ok(mockDriver));
-		mockAuthRepository.updateRole.mockResolvedValue(ok(undefined));
 
 		const result = await useCase.execute(validInput);
 
@@ -89,20 +95,23 @@ describe('CreateDriverUseCase', () => {
 		});
 	});
 
-	// Verifies the Auth role is changed from USER to DRIVER
-	it('should upgrade user role to DRIVER after successful creation', async () => {
+	// The role upgrade from USER to DRIVER reacts to the event
+	it('should publish DriverRegistered after successful creation', async () => {
 		mockUserRepository.findById.mockResolvedValue(ok(mockUser));
 		mockDriverRepository.findByUserId.mockResolvedValue(ok(null));
 		mockDriverRepository.create.mockResolvedValue(ok(mockDriver));
-		mockAuthRepository.updateRole.mockResolvedValue(ok(undefined));
 
 		await useCase.execute(validInput);
 
-		expect(mockAuthRepository.updateRole).toHaveBeenCalledWith(mockUser.authRefId, 'DRIVER');
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({
+			type: 'DriverRegistered',
+			payload: { driverId: mockDriver.id, userId: mockUser.id },
+		}));
+		expect(mockAuthRepository.updateRole).not.toHaveBeenCalled();
 	});
 
-	// Verifies role is not upgraded when driver creation itself fails
-	it('should not upgrade role when driver creation fails', async () => {
+	// Verifies nothing is published when driver creation itself fails
+	it('should not publish DriverRegistered when driver creation fails', async () => {
 		mockUserRepository.findById.mockResolvedValue(ok(mockUser));
 		mockDriverRepository.findByUserId.mockResolvedValue(ok(null));
 		mockDriverRepository.create.mockResolvedValue(err(new DatabaseError('DB error')));
@@ -110,7 +119,7 @@ describe('CreateDriverUseCase', () => {
 		const result = await useCase.execute(validInput);
 
 		expect(result.success).toBe(false);
-		expect(mockAuthRepository.updateRole).not.toHaveBeenCalled();
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
 	});
 
 	// Duplicate guard: user already has a driver profile
@@ -125,7 +134,7 @@ describe('CreateDriverUseCase', () => {
 			expect(result.error).toBeInstanceOf(DriverAlreadyExistsError);
 		}
 		expect(mockDriverRepository.create).not.toHaveBeenCalled();
-		expect(mockAuthRepository.updateRole).not.toHaveBeenCalled();
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
 	});
 
 	// DB error during driver existence check bubbles up
@@ -140,19 +149,35 @@ describe('CreateDriverUseCase', () => {
 			expect(result.error).toBeInstanceOf(DatabaseError);
 		}
 		expect(mockDriverRepository.create).not.toHaveBeenCalled();
-		expect(mockAuthRepository.updateRole).not.toHaveBeenCalled();
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
 	});
 
-	// Role update failure is tolerated: driver creation still succeeds
-	it('should still return success even if role update fails', async () => {
+	// Policy: an unverified email address blocks driver registration
+	it('should return EmailNotVerifiedError when the email address is not verified', async () => {
+		mockUserRepository.findById.mockResolvedValue(ok(mockUser));
+		mockAuthRepository.findByRefId.mockResolvedValue(ok({ refId: 10, emailVerifiedAt: null }));
+
+		const result = await useCase.execute(validInput);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(EmailNotVerifiedError);
+		}
+		expect(mockAuthRepository.findByRefId).toHaveBeenCalledWith(10);
+		expect(mockDriverRepository.create).not.toHaveBeenCalled();
+	});
+
+	// Policy disabled: verification status is not checked
+	it('should allow unverified users when the policy is disabled', async () => {
+		container.registerInstance(TOKENS.AuthConfig, createMockAuthConfig({ requireVerifiedEmailForDrivers: false }));
+		useCase = container.resolve(CreateDriverUseCase);
 		mockUserRepository.findById.mockResolvedValue(ok(mockUser));
 		mockDriverRepository.findByUserId.mockResolvedValue(ok(null));
 		mockDriverRepository.create.mockResolvedValue(ok(mockDriver));
-		mockAuthRepository.updateRole.mockResolvedValue(err(new DatabaseError('Role update failed')));
 
 		const result = await useCase.execute(validInput);
 
 		expect(result.success).toBe(true);
-		expect(mockAuthRepository.updateRole).toHaveBeenCalledWith(mockUser.authRefId, 'DRIVER');
+		expect(mockAuthRepository.findByRefId).not.toHaveBeenCalled();
 	});
 });
@@ -3,21 +3,27 @@
  *
  * Promotes an existing user to the "driver" role on the carpooling platform.
  * A driver profile stores the driver's license number and is linked to the
- * User entity via the internal refId. Upon successful creation the user's
- * Auth role is upgraded from USER to DRIVER.
+ * User entity via the internal refId. Upon successful creation a
+ * `DriverRegistered` event is published, in reaction to which the user's Auth
+ * role is upgraded from USER to DRIVER. When the account policy requires it,
+ * only users who verified their email address can become drivers.
  */
 
 import { inject, injectable } from 'tsyringe';
 import type { DriverEntity } from '../../../domain/entities/driver.entity.js';
-import { DriverAlreadyExistsError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import type { PublicUserEntity } from '../../../domain/entities/user.entity.js';
+import { DriverAlreadyExistsError, EmailNotVerifiedError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
 import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
 import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
-import { err } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import type { AuthConfig } from '../../config/auth.config.js';
 import type { CreateDriverSchemaType } from '../../schemas/driver.schema.js';
 import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js';
 
@@ -26,23 +32,24 @@ import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js'
  *
  * - {@link DriverAlreadyExistsError} - The user already has a driver profile
  * - {@link UserNotFoundError} - No user exists with the given UUID
+ * - {@link EmailNotVerifiedError} - The user has not verified their email address and the policy requires it
  * - {@link RepositoryError} - Database-level failure during any step
  */
-type CreateDriverError = DriverAlreadyExistsError | UserNotFoundError | RepositoryError;
+type CreateDriverError = DriverAlreadyExistsError | UserNotFoundError | EmailNotVerifiedError | RepositoryError;
 
 /**
- * Creates a driver profile and upgrades the user's role.
+ * Creates a driver profile for a user.
  *
  * Business flow:
  * 1. Resolve the user UUID to get the internal refId
- * 2. Check the user does not already have a driver profile
- * 3. Create the driver record with the driver license and user refId
- * 4. On success, upgrade the Auth role from USER to DRIVER
- *    (role update failure is silently tolerated -- the driver is still created)
+ * 2. If `requireVerifiedEmailForDrivers` is set, check the user's email address is verified
+ * 3. Check the user does not already have a driver profile
+ * 4. Create the driver record with the driver license and user refId
+ * 5. Publish `DriverRegistered`; the role upgrade reacts to it
  *
  * The {@link WithAuthContext} wrapper adds the authenticated userId from the JWT.
  *
- * @dependencies DriverRepository, UserRepository, AuthRepository
+ * @dependencies DriverRepository, UserRepository, AuthRepository, AuthConfig, EventBus
  */
 @injectable()
 export class CreateDriverUseCase {
@@ -55,6 +62,10 @@ export class CreateDriverUseCase {
 		private readonly userRepository: UserRepository,
 		@inject(TOKENS.AuthRepository)
 		private readonly authRepository: AuthRepository,
+		@inject(TOKENS.AuthConfig)
+		private readonly authConfig: AuthConfig,
+		@inject(TOKENS.EventBus)
+		private readonly eventBus: EventBus,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
 		this.logger = logger.child({ useCase: 'CreateDriverUseCase' });
@@ -80,6 +91,11 @@ export class CreateDriverUseCase {
 
 		const user = userResult.value;
 
+		const verifiedResult = await this.checkEmailVerified(user);
+		if (!verifiedResult.success) {
+			return verifiedResult;
+		}
+
 		const existingResult = await this.driverRepository.findByUserId(input.userId);
 		if (!existingResult.success) {
 			return existingResult;
@@ -96,10 +112,33 @@ export class CreateDriverUseCase {
 		});
 
 		if (createResult.success) {
-			await this.authRepository.updateRole(user.authRefId, 'DRIVER');
 			this.logger.info('Driver created', { driverId: createResult.value.id });
+			await this.eventBus.publish(domainEvent('DriverRegistered', { driverId: createResult.value.id, userId: user.id }));
 		}
 
 		return createResult;
 	}
+
+	/**
+	 * Enforces the verified email policy for a user about to become a driver.
+	 *
+	 * @param user - The user requesting a driver profile
+	 * @returns ok when the policy is disabled or the user's email address is verified,
+	 *          EmailNotVerifiedError otherwise
+	 */
+	private async checkEmailVerified(user: PublicUserEntity): Promise<Result<void, EmailNotVerifiedError | RepositoryError>> {
+		if (!this.authConfig.requireVerifiedEmailForDrivers) {
+			return ok(undefined);
+		}
+
+		const authResult = await this.authRepository.findByRefId(user.authRefId);
+		if (!authResult.success) {
+			return authResult;
+		}
+		if (!authResult.value?.emailVerifiedAt) {
+			this.logger.warn('Unverified user cannot become a driver', { userId: user.id });
+			return err(new EmailNotVerifiedError(user.id));
+		}
+		return ok(undefined);
+	}
 }
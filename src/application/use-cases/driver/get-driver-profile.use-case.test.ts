@@ -0,0 +1,70 @@
+/**
+ * @file Unit tests for the GetDriverProfileUseCase.
+ *
+ * Covers the public profile with its rating aggregate, drivers without any
+ * rating yet, unknown drivers, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockDriverRepository, createMockLogger, createMockReviewRepository } from '../../../../tests/setup.js';
+import { DriverNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { GetDriverProfileUseCase } from './get-driver-profile.use-case.js';
+
+describe('GetDriverProfileUseCase', () => {
+	let useCase: GetDriverProfileUseCase;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+	let mockReviewRepo: ReturnType<typeof createMockReviewRepository>;
+
+	const profile = { id: 'driver-1', refId: 10, userRefId: 7, firstName: 'Jean', lastName: 'Dupont' };
+
+	beforeEach(() => {
+		mockDriverRepo = createMockDriverRepository();
+		mockReviewRepo = createMockReviewRepository();
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.ReviewRepository, mockReviewRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(GetDriverProfileUseCase);
+
+		mockDriverRepo.findProfile.mockResolvedValue(ok(profile));
+	});
+
+	it('should return the profile with its rating', async () => {
+		mockReviewRepo.summarizeDrivers.mockResolvedValue(ok(new Map([[10, { average: 4.5, count: 12 }]])));
+
+		const result = await useCase.execute('driver-1');
+
+		expect(result).toEqual(ok({ ...profile, rating: { average: 4.5, count: 12 } }));
+		expect(mockReviewRepo.summarizeDrivers).toHaveBeenCalledWith([10]);
+	});
+
+	it('should return an empty rating for a driver never rated', async () => {
+		mockReviewRepo.summarizeDrivers.mockResolvedValue(ok(new Map()));
+
+		const result = await useCase.execute('driver-1');
+
+		expect(result).toEqual(ok({ ...profile, rating: { average: null, count: 0 } }));
+	});
+
+	it('should return DriverNotFoundError for an unknown driver', async () => {
+		mockDriverRepo.findProfile.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute('driver-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DriverNotFoundError);
+		expect(mockReviewRepo.summarizeDrivers).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		mockReviewRepo.summarizeDrivers.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute('driver-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
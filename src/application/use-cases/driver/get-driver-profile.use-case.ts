@@ -0,0 +1,85 @@
+/**
+ * @module GetDriverProfileUseCase
+ *
+ * Retrieves the public profile of a driver together with the aggregate of
+ * the ratings they received from passengers (average score and count). The
+ * license number is never part of the profile.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { DriverProfile } from '../../../domain/entities/driver.entity.js';
+import type { RatingSummary } from '../../../domain/entities/review.entity.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { ReviewRepository } from '../../../domain/repositories/review.repository.js';
+import { DriverNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+
+/**
+ * Union of all possible error types returned by the get driver profile use case.
+ *
+ * - {@link DriverNotFoundError} - No driver exists with the given UUID, or it was anonymized
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type GetDriverProfileError = DriverNotFoundError | RepositoryError;
+
+/**
+ * A driver's public profile with their rating.
+ *
+ * @property rating - Average score and number of ratings received from passengers
+ */
+export type RatedDriverProfile = DriverProfile & {
+	rating: RatingSummary;
+};
+
+/**
+ * Retrieves a driver's public profile and rating.
+ *
+ * Business flow:
+ * 1. Look up the driver's public profile
+ * 2. Aggregate the ratings the driver received
+ *
+ * @dependencies DriverRepository, ReviewRepository
+ */
+@injectable()
+export class GetDriverProfileUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.ReviewRepository)
+		private readonly reviewRepository: ReviewRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'GetDriverProfileUseCase' });
+	}
+
+	/**
+	 * Fetches the profile of the given driver.
+	 *
+	 * @param driverId - The UUID of the driver
+	 * @returns A Result containing the RatedDriverProfile, or a GetDriverProfileError on failure
+	 */
+	async execute(driverId: string): Promise<Result<RatedDriverProfile, GetDriverProfileError>> {
+		const profileResult = await this.driverRepository.findProfile(driverId);
+		if (!profileResult.success) {
+			return profileResult;
+		}
+		const profile = profileResult.value;
+		if (!profile) {
+			this.logger.warn('Driver profile not found', { driverId });
+			return err(new DriverNotFoundError(driverId));
+		}
+
+		const ratingsResult = await this.reviewRepository.summarizeDrivers([profile.refId]);
+		if (!ratingsResult.success) {
+			return ratingsResult;
+		}
+		const rating = ratingsResult.value.get(profile.refId) ?? { average: null, count: 0 };
+		return ok({ ...profile, rating });
+	}
+}
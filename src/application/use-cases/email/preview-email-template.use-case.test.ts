@@ -0,0 +1,49 @@
+/**
+ * @file Unit tests for the PreviewEmailTemplateUseCase.
+ *
+ * Covers rendering the sample of a template in the requested locale and
+ * unknown templates.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockEmailRenderer, createMockLogger } from '../../../../tests/setup.js';
+import { EmailTemplateNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { PreviewEmailTemplateUseCase } from './preview-email-template.use-case.js';
+
+describe('PreviewEmailTemplateUseCase', () => {
+	let useCase: PreviewEmailTemplateUseCase;
+	let mockRenderer: ReturnType<typeof createMockEmailRenderer>;
+
+	const rendered = { subject: 'Bienvenue sur Covoiturage !', html: '<h1>Bonjour Camille,</h1>', text: 'Bonjour Camille,' };
+
+	beforeEach(() => {
+		mockRenderer = createMockEmailRenderer();
+		container.registerInstance(TOKENS.EmailRenderer, mockRenderer);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(PreviewEmailTemplateUseCase);
+	});
+
+	// Happy path: the sample is rendered in the requested locale
+	it('should return the rendered sample', async () => {
+		mockRenderer.preview.mockReturnValue(rendered);
+
+		const result = await useCase.execute({ template: 'welcome', locale: 'fr' });
+
+		expect(result).toEqual({ success: true, value: rendered });
+		expect(mockRenderer.preview).toHaveBeenCalledWith('welcome', 'fr');
+	});
+
+	// Unknown template id
+	it('should return EmailTemplateNotFoundError for an unknown template', async () => {
+		mockRenderer.preview.mockReturnValue(null);
+
+		const result = await useCase.execute({ template: 'newsletter', locale: 'en' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(EmailTemplateNotFoundError);
+		}
+	});
+});
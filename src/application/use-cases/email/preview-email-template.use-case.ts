@@ -0,0 +1,59 @@
+/**
+ * @module PreviewEmailTemplateUseCase
+ *
+ * Renders an email template with its sample variables, so admins can review
+ * the wording and layout of an email in every locale without sending it.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { Locale } from '../../../domain/entities/user.entity.js';
+import type { EmailRenderer, RenderedEmail } from '../../../domain/services/email-renderer.service.js';
+import { EmailTemplateNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+
+/** Input for previewing a template: its id and the locale to render it in. */
+export type PreviewEmailTemplateInput = {
+	template: string;
+	locale: Locale;
+};
+
+/**
+ * Renders a sample of an email template.
+ *
+ * Business flow:
+ * 1. Render the template with its sample variables in the requested locale
+ * 2. Return the subject, HTML body and plain-text body, or an error for an unknown template
+ *
+ * @dependencies EmailRenderer
+ */
+@injectable()
+export class PreviewEmailTemplateUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.EmailRenderer)
+		private readonly emailRenderer: EmailRenderer,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'PreviewEmailTemplateUseCase' });
+	}
+
+	/**
+	 * Renders the sample of the given template.
+	 *
+	 * @param input - The template id and the locale
+	 * @returns A Result containing the rendered email, or an EmailTemplateNotFoundError
+	 *          if no template has this id
+	 */
+	async execute(input: PreviewEmailTemplateInput): Promise<Result<RenderedEmail, EmailTemplateNotFoundError>> {
+		const preview = this.emailRenderer.preview(input.template, input.locale);
+		if (!preview) {
+			this.logger.warn('Unknown email template requested for preview', { template: input.template });
+			return err(new EmailTemplateNotFoundError(input.template));
+		}
+		return ok(preview);
+	}
+}
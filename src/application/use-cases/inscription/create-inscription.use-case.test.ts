@@ -1,16 +1,20 @@
 /**
  * @file Unit tests for the CreateInscriptionUseCase.
  *
- * Covers successful passenger inscription, trip not found, duplicate
- * inscription, no seats available, and repository error propagation from
- * each dependency. Also verifies that seat availability is not checked
- * when the user is already inscribed.
+ * Covers successful passenger inscription, trip not found, trips that no
+ * longer take bookings (departed or not SCHEDULED), duplicate inscription, pickup/dropoff segment resolution on multi-stop trips,
+ * no seats available (reported by the repository's atomic
+ * seat check), and repository error propagation from each dependency.
+ * Also verifies that nothing is written when the user is already inscribed,
+ * that the email to the driver is recorded with the inscription (unless they
+ * turned booking updates off), and that InscriptionCreated is only published
+ * once the inscription is stored.
  */
 
 import { container } from 'tsyringe';
 import { beforeEach, describe, expect, it } from 'vitest';
-import { createMockInscriptionRepository, createMockLogger, createMockTripRepository, createMockUserRepository } from '../../../../tests/setup.js';
-import { AlreadyInscribedError, NoSeatsAvailableError, TripNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { createMockEventBus, createMockInscriptionRepository, createMockLogger, createMockTripRepository, createMockUserRepository } from '../../../../tests/setup.js';
+import { AlreadyInscribedError, InvalidTripSegmentError, NoSeatsAvailableError, TripNotBookableError, TripNotFoundError } from '../../../lib/errors/domain.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
@@ -22,36 +26,150 @@ describe('CreateInscriptionUseCase', () => {
 	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
 	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
 	let mockUserRepo: ReturnType<typeof createMockUserRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
 
 	const validInput = { userId: 'user-1', tripId: 'trip-1' };
 	const user = { id: 'user-1', refId: 1, authRefId: 10, firstName: 'John', lastName: 'Doe', phone: '0612345678', email: 'test@example.com', anonymizedAt: null, createdAt: new Date(), updatedAt: new Date() };
-	const trip = { id: 'trip-1', refId: 2, dateTrip: new Date(), kms: 100, seats: 3, driverRefId: 1, carRefId: 1 };
+	const stop = (position: number, cityName: string, type: string) => ({ tripRefId: 2, cityRefId: position + 10, type, position, city: { id: `city-${position}`, refId: position + 10, cityName, zipcode: '' } });
+	const driver = { id: 'driver-user', firstName: 'Paul', email: 'paul@example.com', locale: 'en' as const, notifyBookingUpdates: true, notifyTripReminders: true };
+	const trip = {
+		id: 'trip-1', refId: 2, dateTrip: new Date(Date.now() + 86_400_000), kms: 100, seats: 3, pricePerSeat: 1200, requiresApproval: false, status: 'SCHEDULED', driverRefId: 1, carRefId: 1,
+		cities: [stop(0, 'Paris', 'DEPARTURE'), stop(1, 'Lyon', 'STOP'), stop(2, 'Marseille', 'ARRIVAL')],
+	};
 
 	beforeEach(() => {
 		mockInscriptionRepo = createMockInscriptionRepository();
 		mockTripRepo = createMockTripRepository();
 		mockUserRepo = createMockUserRepository();
+		mockEventBus = createMockEventBus();
+		mockTripRepo.findDriverContact.mockResolvedValue(ok(driver));
 		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
 		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
 		container.registerInstance(TOKENS.UserRepository, mockUserRepo);
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
 		container.registerInstance(TOKENS.Logger, createMockLogger());
 		useCase = container.resolve(CreateInscriptionUseCase);
 	});
 
-	// Happy path: user and trip exist, seats available, not already inscribed
+	// Happy path: user and trip exist, seats available, not already inscribed; price is snapshotted
 	it('should create inscription successfully', async () => {
-		const inscription = { id: 'i1', refId: 1, createdAt: new Date(), userRefId: 1, tripRefId: 2, status: 'ACTIVE' };
+		const inscription = { id: 'i1', refId: 1, createdAt: new Date(), userRefId: 1, tripRefId: 2, status: 'ACTIVE', pricePerSeat: 1200 };
 		mockUserRepo.findById.mockResolvedValue(ok(user));
 		mockTripRepo.findById.mockResolvedValue(ok(trip));
 		mockInscriptionRepo.existsByUserAndTrip.mockResolvedValue(ok(false));
-		mockInscriptionRepo.countByTripRefId.mockResolvedValue(ok(1));
 		mockInscriptionRepo.create.mockResolvedValue(ok(inscription));
 
 		const result = await useCase.execute(validInput);
 
 		expect(result.success).toBe(true);
 		if (result.success) expect(result.value).toEqual(inscription);
-		expect(mockInscriptionRepo.create).toHaveBeenCalledWith({ userRefId: 1, tripRefId: 2 });
+		expect(mockInscriptionRepo.create).toHaveBeenCalledWith({ userRefId: 1, tripRefId: 2, pickupPosition: 0, dropoffPosition: 2, pricePerSeat: 1200, status: 'ACTIVE' }, [
+			{
+				type: 'EMAIL',
+				payload: {
+					to: 'paul@example.com',
+					locale: 'en',
+					message: {
+						template: 'booking-received',
+						variables: {
+							firstName: 'Paul',
+							passengerName: 'John',
+							tripDate: trip.dateTrip.toISOString(),
+							departureCity: 'Paris',
+							arrivalCity: 'Marseille',
+							requiresApproval: false,
+						},
+					},
+				},
+			},
+		]);
+		expect(mockTripRepo.findDriverContact).toHaveBeenCalledWith('trip-1');
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({
+			type: 'InscriptionCreated',
+			payload: { inscriptionId: 'i1', tripId: 'trip-1', status: 'ACTIVE' },
+		}));
+	});
+
+	// Multi-stop trip: the passenger only books the legs between pickup and dropoff
+	it('should book the requested segment between two stops', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockInscriptionRepo.existsByUserAndTrip.mockResolvedValue(ok(false));
+		mockInscriptionRepo.create.mockResolvedValue(ok({ id: 'i1' }));
+
+		const result = await useCase.execute({ ...validInput, pickupCity: 'lyon' });
+
+		expect(result.success).toBe(true);
+		expect(mockInscriptionRepo.create).toHaveBeenCalledWith(expect.objectContaining({ pickupPosition: 1, dropoffPosition: 2 }), expect.any(Array));
+	});
+
+	// Segment guard: the dropoff must be a later stop of the trip
+	it('should return InvalidTripSegmentError when the dropoff is not after the pickup', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockInscriptionRepo.existsByUserAndTrip.mockResolvedValue(ok(false));
+
+		const result = await useCase.execute({ ...validInput, pickupCity: 'Marseille', dropoffCity: 'Lyon' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(InvalidTripSegmentError);
+		expect(mockInscriptionRepo.create).not.toHaveBeenCalled();
+	});
+
+	// Segment guard: cities that are not stops of the trip are refused
+	it('should return InvalidTripSegmentError when a city is not on the route', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockInscriptionRepo.existsByUserAndTrip.mockResolvedValue(ok(false));
+
+		const result = await useCase.execute({ ...validInput, dropoffCity: 'Nice' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(InvalidTripSegmentError);
+	});
+
+	// Approval-required trip: inscription waits for the driver's decision
+	it('should create a pending inscription when the trip requires approval', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockTripRepo.findById.mockResolvedValue(ok({ ...trip, requiresApproval: true }));
+		mockInscriptionRepo.existsByUserAndTrip.mockResolvedValue(ok(false));
+		mockInscriptionRepo.create.mockResolvedValue(ok({ id: 'i1', refId: 1, createdAt: new Date(), userRefId: 1, tripRefId: 2, status: 'PENDING', pricePerSeat: 1200 }));
+
+		const result = await useCase.execute(validInput);
+
+		expect(result.success).toBe(true);
+		const [data, [email]] = mockInscriptionRepo.create.mock.calls[0];
+		expect(data.status).toBe('PENDING');
+		expect(email.payload.message.variables.requiresApproval).toBe(true);
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ payload: expect.objectContaining({ status: 'PENDING' }) }));
+	});
+
+	// Driver preference: drivers who turned booking updates off are not emailed
+	it('should not email a driver who turned booking updates off', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockTripRepo.findDriverContact.mockResolvedValue(ok({ ...driver, notifyBookingUpdates: false }));
+		mockInscriptionRepo.existsByUserAndTrip.mockResolvedValue(ok(false));
+		mockInscriptionRepo.create.mockResolvedValue(ok({ id: 'i1' }));
+
+		const result = await useCase.execute(validInput);
+
+		expect(result.success).toBe(true);
+		expect(mockInscriptionRepo.create).toHaveBeenCalledWith(expect.any(Object), []);
+	});
+
+	// The email is recorded with the inscription, so a failed driver lookup stops the booking
+	it('should propagate error from the driver lookup without booking', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockTripRepo.findDriverContact.mockResolvedValue(err(new DatabaseError('Lookup failed')));
+		mockInscriptionRepo.existsByUserAndTrip.mockResolvedValue(ok(false));
+
+		const result = await useCase.execute(validInput);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+		expect(mockInscriptionRepo.create).not.toHaveBeenCalled();
 	});
 
 	// Trip UUID does not exist
@@ -63,6 +181,26 @@ describe('CreateInscriptionUseCase', () => {
 		if (!result.success) expect(result.error).toBeInstanceOf(TripNotFoundError);
 	});
 
+	// Lifecycle guard: a trip that has departed takes no bookings, even before the status job starts it
+	it('should return TripNotBookableError when the trip has departed', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockTripRepo.findById.mockResolvedValue(ok({ ...trip, dateTrip: new Date(Date.now() - 60_000) }));
+		const result = await useCase.execute(validInput);
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotBookableError);
+		expect(mockInscriptionRepo.create).not.toHaveBeenCalled();
+	});
+
+	// Lifecycle guard: only SCHEDULED trips take bookings
+	it.each(['IN_PROGRESS', 'COMPLETED', 'CANCELLED'])('should return TripNotBookableError for a %s trip', async (status) => {
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockTripRepo.findById.mockResolvedValue(ok({ ...trip, status }));
+		const result = await useCase.execute(validInput);
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotBookableError);
+		expect(mockInscriptionRepo.existsByUserAndTrip).not.toHaveBeenCalled();
+	});
+
 	// Duplicate guard: user already has an inscription on this trip
 	it('should return AlreadyInscribedError when user already inscribed', async () => {
 		mockUserRepo.findById.mockResolvedValue(ok(user));
@@ -73,12 +211,12 @@ describe('CreateInscriptionUseCase', () => {
 		if (!result.success) expect(result.error).toBeInstanceOf(AlreadyInscribedError);
 	});
 
-	// Capacity guard: all seats are taken
+	// Capacity guard: the repository refuses the booking once all seats are taken
 	it('should return NoSeatsAvailableError when no seats left', async () => {
 		mockUserRepo.findById.mockResolvedValue(ok(user));
 		mockTripRepo.findById.mockResolvedValue(ok(trip));
 		mockInscriptionRepo.existsByUserAndTrip.mockResolvedValue(ok(false));
-		mockInscriptionRepo.countByTripRefId.mockResolvedValue(ok(3));
+		mockInscriptionRepo.create.mockResolvedValue(err(new NoSeatsAvailableError('trip-1')));
 		const result = await useCase.execute(validInput);
 		expect(result.success).toBe(false);
 		if (!result.success) expect(result.error).toBeInstanceOf(NoSeatsAvailableError);
@@ -101,22 +239,24 @@ describe('CreateInscriptionUseCase', () => {
 		expect(result.success).toBe(false);
 	});
 
-	// DB error during seat counting bubbles up
-	it('should propagate error from countByTripRefId', async () => {
+	// DB error during the seat-checked write bubbles up
+	it('should propagate error from create', async () => {
 		mockUserRepo.findById.mockResolvedValue(ok(user));
 		mockTripRepo.findById.mockResolvedValue(ok(trip));
 		mockInscriptionRepo.existsByUserAndTrip.mockResolvedValue(ok(false));
-		mockInscriptionRepo.countByTripRefId.mockResolvedValue(err(new DatabaseError('db error')));
+		mockInscriptionRepo.create.mockResolvedValue(err(new DatabaseError('db error')));
 		const result = await useCase.execute(validInput);
 		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
 	});
 
-	// Short-circuit: seat check is skipped when already inscribed
-	it('should not check seats when already inscribed', async () => {
+	// Short-circuit: nothing is written when already inscribed
+	it('should not create an inscription when already inscribed', async () => {
 		mockUserRepo.findById.mockResolvedValue(ok(user));
 		mockTripRepo.findById.mockResolvedValue(ok(trip));
 		mockInscriptionRepo.existsByUserAndTrip.mockResolvedValue(ok(true));
 		await useCase.execute(validInput);
-		expect(mockInscriptionRepo.countByTripRefId).not.toHaveBeenCalled();
+		expect(mockInscriptionRepo.create).not.toHaveBeenCalled();
 	});
 });
@@ -3,21 +3,44 @@
  *
  * Registers a passenger for a carpooling trip. An "inscription"
  * represents a user booking a seat on a specific trip. The use case
- * enforces that the user is not already inscribed and that seats remain
- * available on the trip.
+ * enforces that the trip is still SCHEDULED and has not departed, that the
+ * user is not already inscribed, and resolves the booked
+ * segment between the requested pickup and dropoff stops; seat availability
+ * on that segment is enforced atomically by the repository when the row is
+ * written, so concurrent bookings cannot overbook the trip. The trip's current price per seat is snapshotted
+ * onto the inscription at booking time. On trips that require the driver's
+ * approval, the inscription is created as PENDING and does not hold a seat
+ * until the driver accepts it. The email telling the driver is recorded in
+ * the outbox with the inscription, and an `InscriptionCreated` event lets the
+ * trip's followers be told.
  */
 
 import { inject, injectable } from 'tsyringe';
-import type { InscriptionEntity } from '../../../domain/entities/inscription.entity.js';
-import { AlreadyInscribedError, NoSeatsAvailableError, TripNotFoundError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { InscriptionEntity, InscriptionStatus } from '../../../domain/entities/inscription.entity.js';
+import type { CreateOutboxMessageData } from '../../../domain/entities/outbox-message.entity.js';
+import type { TripEntity } from '../../../domain/entities/trip.entity.js';
+import type { PublicUserEntity } from '../../../domain/entities/user.entity.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import { resolveSegment, type TripSegment, toTripStops } from '../../../domain/booking/trip-segments.js';
+import { isBookable } from '../../../domain/lifecycle/trip-lifecycle.js';
+import { bookingEmails } from '../../../domain/outbox/trip-emails.js';
+import {
+	AlreadyInscribedError,
+	InvalidTripSegmentError,
+	type NoSeatsAvailableError,
+	TripNotBookableError,
+	TripNotFoundError,
+	UserNotFoundError,
+} from '../../../lib/errors/domain.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
 import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
 import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
-import { err } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
 import type { CreateInscriptionSchemaType } from '../../schemas/inscription.schema.js';
 import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js';
 
@@ -26,11 +49,28 @@ import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js'
  *
  * - {@link UserNotFoundError} - The authenticated user UUID does not exist
  * - {@link TripNotFoundError} - The target trip UUID does not exist
+ * - {@link TripNotBookableError} - The trip has departed, completed or been cancelled
  * - {@link AlreadyInscribedError} - The user is already registered on this trip
- * - {@link NoSeatsAvailableError} - All seats on the trip are taken
+ * - {@link InvalidTripSegmentError} - The pickup/dropoff cities are not ordered stops of the trip
+ * - {@link NoSeatsAvailableError} - All seats are taken on some leg of the requested segment
  * - {@link RepositoryError} - Database-level failure during any step
  */
-type CreateInscriptionError = UserNotFoundError | TripNotFoundError | AlreadyInscribedError | NoSeatsAvailableError | RepositoryError;
+type CreateInscriptionError =
+	| UserNotFoundError
+	| TripNotFoundError
+	| TripNotBookableError
+	| AlreadyInscribedError
+	| InvalidTripSegmentError
+	| NoSeatsAvailableError
+	| RepositoryError;
+
+/**
+ * Determines the status a new inscription starts in: PENDING when the trip's
+ * driver reviews passengers manually, ACTIVE (booked) otherwise.
+ */
+function initialStatusFor(trip: TripEntity): InscriptionStatus {
+	return trip.requiresApproval ? 'PENDING' : 'ACTIVE';
+}
 
 /**
  * Registers a passenger on a carpooling trip.
@@ -38,11 +78,19 @@ type CreateInscriptionError = UserNotFoundError | TripNotFoundError | AlreadyIns
  * Business flow:
  * 1. Resolve the user UUID to get the internal refId
  * 2. Resolve the trip UUID to get the internal refId and seat count
- * 3. Check the user is not already inscribed on this trip
- * 4. Verify that available seats remain (current inscriptions < total seats)
- * 5. Create the inscription record
+ * 3. Check the trip is still SCHEDULED and departs in the future
+ * 4. Check the user is not already inscribed on this trip
+ * 5. Resolve the pickup/dropoff segment on the trip's ordered stops (defaults to the full route)
+ * 6. Look up the driver, to email them unless they turned booking updates off
+ * 7. Create the inscription record, snapshotting the trip's current price per seat,
+ *    with the email to the driver in the outbox; the status is PENDING when the
+ *    trip requires approval, ACTIVE otherwise.
+ *    Under the trip row lock, the repository refuses the write with
+ *    TripNotBookableError when the trip was cancelled or departed since step 3,
+ *    or NoSeatsAvailableError when the trip is full
+ * 8. Publish `InscriptionCreated`
  *
- * @dependencies InscriptionRepository, TripRepository, UserRepository
+ * @dependencies InscriptionRepository, TripRepository, UserRepository, EventBus
  */
 @injectable()
 export class CreateInscriptionUseCase {
@@ -55,6 +103,8 @@ export class CreateInscriptionUseCase {
 		private readonly tripRepository: TripRepository,
 		@inject(TOKENS.UserRepository)
 		private readonly userRepository: UserRepository,
+		@inject(TOKENS.EventBus)
+		private readonly eventBus: EventBus,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
 		this.logger = logger.child({ useCase: 'CreateInscriptionUseCase' });
@@ -63,7 +113,8 @@ export class CreateInscriptionUseCase {
 	/**
 	 * Creates a new inscription for the authenticated user on the specified trip.
 	 *
-	 * @param input - Validated payload containing tripId and the authenticated userId
+	 * @param input - Validated payload containing tripId, optional pickupCity/dropoffCity
+	 *                and the authenticated userId
 	 * @returns A Result containing the created InscriptionEntity on success,
 	 *          or a CreateInscriptionError on failure
 	 */
@@ -87,6 +138,10 @@ export class CreateInscriptionUseCase {
 			this.logger.warn('Trip not found for inscription creation', { tripId: input.tripId });
 			return err(new TripNotFoundError(input.tripId));
 		}
+		if (!isBookable(tripResult.value, new Date())) {
+			this.logger.warn('Trip no longer takes bookings', { tripId: input.tripId, status: tripResult.value.status });
+			return err(new TripNotBookableError(input.tripId));
+		}
 
 		const userRefId = userResult.value.refId;
 		const tripRefId = tripResult.value.refId;
@@ -101,27 +156,76 @@ export class CreateInscriptionUseCase {
 			return err(new AlreadyInscribedError(input.userId, input.tripId));
 		}
 
-		// Check seats available
-		const countResult = await this.inscriptionRepository.countByTripRefId(tripRefId);
-		if (!countResult.success) {
-			return countResult;
+		const trip = tripResult.value;
+		const segment = resolveSegment(toTripStops(trip.cities), input.pickupCity, input.dropoffCity);
+		if (!segment) {
+			this.logger.warn('Requested segment not served by trip', { tripId: input.tripId, pickupCity: input.pickupCity, dropoffCity: input.dropoffCity });
+			return err(new InvalidTripSegmentError(input.tripId));
 		}
 
-		const trip = tripResult.value;
-		if (countResult.value >= trip.seats) {
-			this.logger.warn('No seats available for inscription', { tripId: input.tripId });
-			return err(new NoSeatsAvailableError(input.tripId));
+		return this.book(trip, userResult.value, segment);
+	}
+
+	/**
+	 * Stores the inscription on the segment with the email to the driver, then
+	 * publishes `InscriptionCreated`.
+	 *
+	 * @returns The created InscriptionEntity, or the error of the failed step
+	 */
+	private async book(trip: TripEntity, passenger: PublicUserEntity, segment: TripSegment): Promise<Result<InscriptionEntity, CreateInscriptionError>> {
+		const status = initialStatusFor(trip);
+		const outboxResult = await this.driverEmails(trip, passenger, status);
+		if (!outboxResult.success) {
+			return outboxResult;
 		}
 
-		const result = await this.inscriptionRepository.create({
-			userRefId,
-			tripRefId,
-		});
+		// Bookability and seat availability on the segment are re-checked by the repository under a trip row lock
+		const result = await this.inscriptionRepository.create(
+			{
+				userRefId: passenger.refId,
+				tripRefId: trip.refId,
+				...segment,
+				pricePerSeat: trip.pricePerSeat,
+				status,
+			},
+			outboxResult.value,
+		);
 
 		if (result.success) {
-			this.logger.info('Inscription created', { inscriptionId: result.value.id });
+			this.logger.info('Inscription created', { inscriptionId: result.value.id, status: result.value.status });
+			await this.eventBus.publish(
+				domainEvent('InscriptionCreated', { inscriptionId: result.value.id, tripId: trip.id, status }),
+			);
 		}
 
 		return result;
 	}
+
+	/**
+	 * Builds the email telling the driver of the trip about the new booking.
+	 *
+	 * @returns The email, none if the driver turned booking updates off, or the
+	 *          RepositoryError of the driver lookup
+	 */
+	private async driverEmails(
+		trip: TripEntity,
+		passenger: PublicUserEntity,
+		status: InscriptionStatus,
+	): Promise<Result<CreateOutboxMessageData[], RepositoryError>> {
+		const driverResult = await this.tripRepository.findDriverContact(trip.id);
+		if (!driverResult.success) {
+			return driverResult;
+		}
+		if (!driverResult.value) {
+			return ok([]);
+		}
+		const stops = toTripStops(trip.cities);
+		const summary = {
+			id: trip.id,
+			dateTrip: trip.dateTrip,
+			departureCity: stops[0]?.cityName ?? '',
+			arrivalCity: stops.at(-1)?.cityName ?? '',
+		};
+		return ok(bookingEmails({ status, trip: summary, driver: driverResult.value, passenger }, true));
+	}
 }
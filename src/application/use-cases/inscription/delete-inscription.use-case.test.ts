@@ -1,42 +1,92 @@
 /**
  * @file Unit tests for the DeleteInscriptionUseCase.
  *
- * Covers successful deletion, not-found/ownership guard (combined into a
- * single query), and repository error propagation.
+ * Covers soft cancellation (status transition instead of row deletion),
+ * not-found/ownership guard (combined into a single query), non-cancellable
+ * statuses, the cancellation cut-off before departure, the email to the driver
+ * recorded with the cancellation, the InscriptionCancelled event, and
+ * repository error propagation.
  */
 
 import { container } from 'tsyringe';
 import { beforeEach, describe, expect, it } from 'vitest';
-import { createMockInscriptionRepository, createMockLogger } from '../../../../tests/setup.js';
-import { InscriptionNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { createMockEventBus, createMockInscriptionData, createMockInscriptionRepository, createMockLogger, createMockTripData, createMockTripRepository } from '../../../../tests/setup.js';
+import { CancellationWindowClosedError, InscriptionNotCancellableError, InscriptionNotFoundError } from '../../../lib/errors/domain.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
 import { DeleteInscriptionUseCase } from './delete-inscription.use-case.js';
 
-// Test suite for cancelling (deleting) inscriptions with ownership check
+const HOUR_MS = 60 * 60 * 1000;
+
+// Test suite for cancelling inscriptions with ownership check
 describe('DeleteInscriptionUseCase', () => {
 	let useCase: DeleteInscriptionUseCase;
 	let mockRepo: ReturnType<typeof createMockInscriptionRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
 
-	const inscription = { id: 'ins-1', refId: 1, createdAt: new Date(), userRefId: 1, tripRefId: 1 };
+	const inscription = createMockInscriptionData({ id: 'ins-1', tripRefId: 1, status: 'ACTIVE' });
+	const farTrip = createMockTripData({ id: 'trip-1', refId: 1, dateTrip: new Date(Date.now() + 72 * HOUR_MS) });
+	const contact = (firstName: string, email: string) => ({
+		id: `${firstName.toLowerCase()}-id`,
+		firstName,
+		email,
+		locale: 'en' as const,
+		notifyBookingUpdates: true,
+		notifyTripReminders: true,
+	});
+	const details = {
+		inscriptionId: 'ins-1',
+		status: 'ACTIVE' as const,
+		trip: { id: 'trip-1', dateTrip: new Date('2026-10-20T08:00:00.000Z'), departureCity: 'Lyon', arrivalCity: 'Grenoble' },
+		passenger: contact('Jane', 'jane@example.com'),
+		driver: contact('Paul', 'paul@example.com'),
+	};
 
 	beforeEach(() => {
 		mockRepo = createMockInscriptionRepository();
+		mockTripRepo = createMockTripRepository();
+		mockEventBus = createMockEventBus();
+		mockRepo.findNotificationDetails.mockResolvedValue(ok(details));
 		container.registerInstance(TOKENS.InscriptionRepository, mockRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.BookingConfig, { cancellationCutoffHours: 24 });
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
 		container.registerInstance(TOKENS.Logger, createMockLogger());
 		useCase = container.resolve(DeleteInscriptionUseCase);
 	});
 
-	// Happy path: inscription exists and belongs to user, inscription is deleted
-	it('should delete inscription successfully', async () => {
+	// Happy path: the row is kept and transitions to CANCELLED with the given reason
+	it('should cancel inscription instead of deleting it', async () => {
 		mockRepo.findByIdAndUserId.mockResolvedValue(ok(inscription));
-		mockRepo.delete.mockResolvedValue(ok(undefined));
+		mockTripRepo.findByRefId.mockResolvedValue(ok(farTrip));
+		mockRepo.cancel.mockResolvedValue(ok({ ...inscription, status: 'CANCELLED' }));
 
-		const result = await useCase.execute({ id: 'ins-1', userId: 'user-1' });
+		const result = await useCase.execute({ id: 'ins-1', userId: 'user-1', reason: 'Plans changed' });
 		expect(result.success).toBe(true);
 		expect(mockRepo.findByIdAndUserId).toHaveBeenCalledWith('ins-1', 'user-1');
-		expect(mockRepo.delete).toHaveBeenCalledWith('ins-1');
+		expect(mockRepo.cancel).toHaveBeenCalledWith('ins-1', 'Plans changed', [
+			{
+				type: 'EMAIL',
+				payload: {
+					to: 'paul@example.com',
+					locale: 'en',
+					message: {
+						template: 'booking-cancelled',
+						variables: {
+							firstName: 'Paul',
+							passengerName: 'Jane',
+							tripDate: '2026-10-20T08:00:00.000Z',
+							departureCity: 'Lyon',
+							arrivalCity: 'Grenoble',
+						},
+					},
+				},
+			},
+		]);
+		expect(mockRepo.delete).not.toHaveBeenCalled();
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'InscriptionCancelled', payload: { inscriptionId: 'ins-1' } }));
 	});
 
 	// Not found or wrong owner: returns InscriptionNotFoundError
@@ -45,7 +95,66 @@ describe('DeleteInscriptionUseCase', () => {
 		const result = await useCase.execute({ id: '999', userId: 'user-1' });
 		expect(result.success).toBe(false);
 		if (!result.success) expect(result.error).toBeInstanceOf(InscriptionNotFoundError);
-		expect(mockRepo.delete).not.toHaveBeenCalled();
+		expect(mockRepo.cancel).not.toHaveBeenCalled();
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
+	});
+
+	// Already-cancelled (or rejected) inscriptions cannot be cancelled again
+	it('should return InscriptionNotCancellableError when already cancelled', async () => {
+		mockRepo.findByIdAndUserId.mockResolvedValue(ok({ ...inscription, status: 'CANCELLED' }));
+		const result = await useCase.execute({ id: 'ins-1', userId: 'user-1' });
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(InscriptionNotCancellableError);
+		expect(mockRepo.cancel).not.toHaveBeenCalled();
+	});
+
+	// Accepted booking on a trip departing within the cut-off
+	it('should return CancellationWindowClosedError inside the cut-off', async () => {
+		mockRepo.findByIdAndUserId.mockResolvedValue(ok(inscription));
+		mockTripRepo.findByRefId.mockResolvedValue(ok({ ...farTrip, dateTrip: new Date(Date.now() + 2 * HOUR_MS) }));
+		const result = await useCase.execute({ id: 'ins-1', userId: 'user-1' });
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(CancellationWindowClosedError);
+		expect(mockRepo.cancel).not.toHaveBeenCalled();
+	});
+
+	// Pending requests hold no seat, so the cut-off does not apply
+	it('should cancel a pending request without checking the cut-off', async () => {
+		mockRepo.findByIdAndUserId.mockResolvedValue(ok({ ...inscription, status: 'PENDING' }));
+		mockRepo.cancel.mockResolvedValue(ok({ ...inscription, status: 'CANCELLED' }));
+		const result = await useCase.execute({ id: 'ins-1', userId: 'user-1' });
+		expect(result.success).toBe(true);
+		expect(mockTripRepo.findByRefId).not.toHaveBeenCalled();
+	});
+
+	// A cut-off of 0 disables the check entirely
+	it('should skip the cut-off check when disabled', async () => {
+		container.registerInstance(TOKENS.BookingConfig, { cancellationCutoffHours: 0 });
+		useCase = container.resolve(DeleteInscriptionUseCase);
+		mockRepo.findByIdAndUserId.mockResolvedValue(ok(inscription));
+		mockRepo.cancel.mockResolvedValue(ok({ ...inscription, status: 'CANCELLED' }));
+		const result = await useCase.execute({ id: 'ins-1', userId: 'user-1' });
+		expect(result.success).toBe(true);
+		expect(mockTripRepo.findByRefId).not.toHaveBeenCalled();
+	});
+
+	// Driver preference: drivers who turned booking updates off are not emailed
+	it('should not email a driver who turned booking updates off', async () => {
+		mockRepo.findByIdAndUserId.mockResolvedValue(ok({ ...inscription, status: 'PENDING' }));
+		mockRepo.findNotificationDetails.mockResolvedValue(ok({ ...details, driver: { ...details.driver, notifyBookingUpdates: false } }));
+		mockRepo.cancel.mockResolvedValue(ok({ ...inscription, status: 'CANCELLED' }));
+		const result = await useCase.execute({ id: 'ins-1', userId: 'user-1' });
+		expect(result.success).toBe(true);
+		expect(mockRepo.cancel).toHaveBeenCalledWith('ins-1', undefined, []);
+	});
+
+	// The email is recorded with the cancellation, so a failed lookup stops it
+	it('should propagate error from the notification lookup without cancelling', async () => {
+		mockRepo.findByIdAndUserId.mockResolvedValue(ok({ ...inscription, status: 'PENDING' }));
+		mockRepo.findNotificationDetails.mockResolvedValue(err(new DatabaseError('db error')));
+		const result = await useCase.execute({ id: 'ins-1', userId: 'user-1' });
+		expect(result.success).toBe(false);
+		expect(mockRepo.cancel).not.toHaveBeenCalled();
 	});
 
 	// DB error during lookup bubbles up
@@ -54,4 +163,14 @@ describe('DeleteInscriptionUseCase', () => {
 		const result = await useCase.execute({ id: 'ins-1', userId: 'user-1' });
 		expect(result.success).toBe(false);
 	});
+
+	// DB error during the cancellation update bubbles up
+	it('should propagate error from cancel', async () => {
+		mockRepo.findByIdAndUserId.mockResolvedValue(ok(inscription));
+		mockTripRepo.findByRefId.mockResolvedValue(ok(farTrip));
+		mockRepo.cancel.mockResolvedValue(err(new DatabaseError('db error')));
+		const result = await useCase.execute({ id: 'ins-1', userId: 'user-1' });
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
 });
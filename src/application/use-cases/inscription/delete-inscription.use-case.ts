@@ -1,36 +1,60 @@
 /**
  * @module DeleteInscriptionUseCase
  *
- * Cancels (deletes) a passenger inscription from a carpooling travel.
- * Verifies the inscription exists and belongs to the requesting user
- * in a single optimized query before attempting deletion.
+ * Cancels a passenger inscription on a carpooling travel. The row is kept
+ * and transitions to CANCELLED (with a timestamp and optional reason) so
+ * that cancellations remain reportable; the seat is freed because only
+ * ACTIVE inscriptions are counted. Accepted bookings cannot be cancelled
+ * once the configured cut-off before departure has been reached. The email
+ * telling the driver is recorded in the outbox with the cancellation, and an
+ * `InscriptionCancelled` event lets the trip's followers be told.
  */
 
 import { inject, injectable } from 'tsyringe';
-import { InscriptionNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { BookingConfig } from '../../config/booking.config.js';
+import type { InscriptionEntity } from '../../../domain/entities/inscription.entity.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import { bookingEmails } from '../../../domain/outbox/trip-emails.js';
+import { CancellationWindowClosedError, InscriptionNotCancellableError, InscriptionNotFoundError } from '../../../lib/errors/domain.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
-import { err } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
 
 /**
  * Union of all possible error types returned by the delete inscription use case.
  *
  * - {@link InscriptionNotFoundError} - No inscription exists with the given UUID, or it does not belong to the requesting user
- * - {@link RepositoryError} - Database-level failure during lookup or deletion
+ * - {@link InscriptionNotCancellableError} - The inscription is already cancelled, rejected or anonymized
+ * - {@link CancellationWindowClosedError} - The trip departs sooner than the configured cut-off
+ * - {@link RepositoryError} - Database-level failure during lookup or cancellation
  */
-type DeleteInscriptionError = InscriptionNotFoundError | RepositoryError;
+type DeleteInscriptionError = InscriptionNotFoundError | InscriptionNotCancellableError | CancellationWindowClosedError | RepositoryError;
+
+/** Statuses from which a passenger may still cancel. */
+const CANCELLABLE_STATUSES = ['PENDING', 'ACTIVE'];
+
+const HOUR_MS = 60 * 60 * 1000;
 
 /**
- * Deletes an inscription after verifying it exists and belongs to the requesting user.
+ * Cancels an inscription after verifying it exists, belongs to the requesting user,
+ * and is still within the cancellation window.
  *
  * Business flow:
  * 1. Look up the inscription by UUID and user UUID in a single query
- * 2. Delete the inscription record, freeing a seat on the travel
+ * 2. Verify the inscription is PENDING or ACTIVE
+ * 3. For ACTIVE bookings, verify the trip departs later than the cut-off
+ * 4. Look up the booking's trip and driver, to email the driver unless they
+ *    turned booking updates off
+ * 5. Mark the inscription CANCELLED, freeing a seat on the travel, with the email
+ *    to the driver in the outbox
+ * 6. Publish `InscriptionCancelled`
  *
- * @dependencies InscriptionRepository
+ * @dependencies InscriptionRepository, TripRepository, BookingConfig, EventBus
  */
 @injectable()
 export class DeleteInscriptionUseCase {
@@ -39,33 +63,82 @@ export class DeleteInscriptionUseCase {
 	constructor(
 		@inject(TOKENS.InscriptionRepository)
 		private readonly inscriptionRepository: InscriptionRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.BookingConfig)
+		private readonly bookingConfig: BookingConfig,
+		@inject(TOKENS.EventBus)
+		private readonly eventBus: EventBus,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
 		this.logger = logger.child({ useCase: 'DeleteInscriptionUseCase' });
 	}
 
 	/**
-	 * Deletes the inscription identified by the given UUID, after verifying ownership.
+	 * Cancels the inscription identified by the given UUID, after verifying ownership.
 	 *
-	 * @param input - Object containing the inscription UUID and the authenticated userId
+	 * @param input - Object containing the inscription UUID, the authenticated userId
+	 *                and an optional cancellation reason
 	 * @returns A Result containing void on success, or a DeleteInscriptionError on failure
 	 */
-	async execute(input: { id: string; userId: string }): Promise<Result<void, DeleteInscriptionError>> {
+	async execute(input: { id: string; userId: string; reason?: string }): Promise<Result<void, DeleteInscriptionError>> {
 		// Combined existence + ownership check in a single query
 		const findResult = await this.inscriptionRepository.findByIdAndUserId(input.id, input.userId);
 		if (!findResult.success) {
 			return findResult;
 		}
 
-		if (!findResult.value) {
-			this.logger.warn('Inscription not found for deletion', { inscriptionId: input.id, userId: input.userId });
+		const inscription = findResult.value;
+		if (!inscription) {
+			this.logger.warn('Inscription not found for cancellation', { inscriptionId: input.id, userId: input.userId });
 			return err(new InscriptionNotFoundError(input.id));
 		}
 
-		const deleteResult = await this.inscriptionRepository.delete(input.id);
-		if (deleteResult.success) {
-			this.logger.info('Inscription deleted', { inscriptionId: input.id });
+		if (!CANCELLABLE_STATUSES.includes(inscription.status)) {
+			this.logger.warn('Inscription is not cancellable', { inscriptionId: input.id, status: inscription.status });
+			return err(new InscriptionNotCancellableError(input.id, inscription.status));
+		}
+
+		const windowResult = await this.checkCancellationWindow(inscription);
+		if (!windowResult.success) {
+			return windowResult;
+		}
+
+		const detailsResult = await this.inscriptionRepository.findNotificationDetails(input.id);
+		if (!detailsResult.success) {
+			return detailsResult;
+		}
+		const outbox = detailsResult.value ? bookingEmails(detailsResult.value, false) : [];
+
+		const cancelResult = await this.inscriptionRepository.cancel(input.id, input.reason, outbox);
+		if (!cancelResult.success) {
+			return cancelResult;
+		}
+		this.logger.info('Inscription cancelled', { inscriptionId: input.id });
+		await this.eventBus.publish(domainEvent('InscriptionCancelled', { inscriptionId: input.id }));
+		return ok(undefined);
+	}
+
+	/**
+	 * Refuses cancellation of an accepted booking when the trip departs within
+	 * the configured cut-off. Pending requests hold no seat and are always cancellable.
+	 */
+	private async checkCancellationWindow(inscription: InscriptionEntity): Promise<Result<void, CancellationWindowClosedError | RepositoryError>> {
+		const cutoffHours = this.bookingConfig.cancellationCutoffHours;
+		if (inscription.status !== 'ACTIVE' || cutoffHours <= 0) {
+			return ok(undefined);
+		}
+
+		const tripResult = await this.tripRepository.findByRefId(inscription.tripRefId);
+		if (!tripResult.success) {
+			return tripResult;
+		}
+		const trip = tripResult.value;
+		// Cached trips come back with dateTrip serialized, hence the Date wrapper
+		if (trip && new Date(trip.dateTrip).getTime() - Date.now() < cutoffHours * HOUR_MS) {
+			this.logger.warn('Cancellation refused after cut-off', { inscriptionId: inscription.id, tripId: trip.id, cutoffHours });
+			return err(new CancellationWindowClosedError(trip.id, cutoffHours));
 		}
-		return deleteResult;
+		return ok(undefined);
 	}
 }
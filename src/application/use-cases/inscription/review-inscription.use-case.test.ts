@@ -0,0 +1,154 @@
+/**
+ * @file Unit tests for the ReviewInscriptionUseCase.
+ *
+ * Covers accepting and rejecting a pending inscription, trip and driver
+ * lookups, ownership verification, inscriptions that belong to another trip
+ * or are no longer pending, a full trip reported by the repository's atomic
+ * seat check on acceptance, the InscriptionReviewed event, and repository
+ * error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockDriverRepository,
+	createMockEventBus,
+	createMockInscriptionData,
+	createMockInscriptionRepository,
+	createMockLogger,
+	createMockTripData,
+	createMockTripRepository,
+} from '../../../../tests/setup.js';
+import {
+	DriverNotFoundError,
+	ForbiddenError,
+	InscriptionNotFoundError,
+	InscriptionNotPendingError,
+	NoSeatsAvailableError,
+	TripNotFoundError,
+} from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { ReviewInscriptionUseCase } from './review-inscription.use-case.js';
+
+describe('ReviewInscriptionUseCase', () => {
+	let useCase: ReviewInscriptionUseCase;
+	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
+
+	const trip = createMockTripData({ id: 'trip-1', refId: 2, seats: 3, driverRefId: 10, requiresApproval: true });
+	const driver = { id: 'driver-1', refId: 10, userId: 1, licenseNumber: 'ABC123', anonymizedAt: null, createdAt: new Date(), updatedAt: new Date() };
+	const pending = createMockInscriptionData({ id: 'i1', tripRefId: 2, status: 'PENDING' });
+	const acceptInput = { tripId: 'trip-1', inscriptionId: 'i1', userId: 'user-1', decision: 'ACCEPT' as const };
+	const rejectInput = { ...acceptInput, decision: 'REJECT' as const };
+
+	beforeEach(() => {
+		mockInscriptionRepo = createMockInscriptionRepository();
+		mockTripRepo = createMockTripRepository();
+		mockDriverRepo = createMockDriverRepository();
+		mockEventBus = createMockEventBus();
+		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(ReviewInscriptionUseCase);
+
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
+		mockInscriptionRepo.findById.mockResolvedValue(ok(pending));
+	});
+
+	// Happy path: accepting a pending request with a free seat makes it ACTIVE
+	it('should accept a pending inscription', async () => {
+		mockInscriptionRepo.updateStatus.mockResolvedValue(ok({ ...pending, status: 'ACTIVE' }));
+
+		const result = await useCase.execute(acceptInput);
+
+		expect(result.success).toBe(true);
+		if (result.success) expect(result.value.status).toBe('ACTIVE');
+		expect(mockInscriptionRepo.updateStatus).toHaveBeenCalledWith('i1', 'ACTIVE');
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'InscriptionReviewed', payload: { inscriptionId: 'i1', status: 'ACTIVE' } }));
+	});
+
+	// Rejecting frees the request without taking a seat
+	it('should reject a pending inscription', async () => {
+		mockInscriptionRepo.updateStatus.mockResolvedValue(ok({ ...pending, status: 'REJECTED' }));
+
+		const result = await useCase.execute(rejectInput);
+
+		expect(result.success).toBe(true);
+		expect(mockInscriptionRepo.updateStatus).toHaveBeenCalledWith('i1', 'REJECTED');
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'InscriptionReviewed', payload: { inscriptionId: 'i1', status: 'REJECTED' } }));
+	});
+
+	// Trip UUID does not exist
+	it('should return TripNotFoundError when trip does not exist', async () => {
+		mockTripRepo.findById.mockResolvedValue(ok(null));
+		const result = await useCase.execute(acceptInput);
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotFoundError);
+	});
+
+	// Authenticated user has no driver profile
+	it('should return DriverNotFoundError when user is not a driver', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(null));
+		const result = await useCase.execute(acceptInput);
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DriverNotFoundError);
+	});
+
+	// Only the trip's own driver may review its passengers
+	it('should return ForbiddenError when driver does not own the trip', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok({ ...driver, refId: 99 }));
+		const result = await useCase.execute(acceptInput);
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(ForbiddenError);
+		expect(mockInscriptionRepo.updateStatus).not.toHaveBeenCalled();
+	});
+
+	// Inscription UUID does not exist
+	it('should return InscriptionNotFoundError when inscription does not exist', async () => {
+		mockInscriptionRepo.findById.mockResolvedValue(ok(null));
+		const result = await useCase.execute(acceptInput);
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(InscriptionNotFoundError);
+	});
+
+	// Inscription exists but belongs to a different trip
+	it('should return InscriptionNotFoundError when inscription belongs to another trip', async () => {
+		mockInscriptionRepo.findById.mockResolvedValue(ok({ ...pending, tripRefId: 5 }));
+		const result = await useCase.execute(acceptInput);
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(InscriptionNotFoundError);
+	});
+
+	// Already-decided inscriptions cannot be reviewed again
+	it('should return InscriptionNotPendingError when inscription is not pending', async () => {
+		mockInscriptionRepo.findById.mockResolvedValue(ok({ ...pending, status: 'ACTIVE' }));
+		const result = await useCase.execute(rejectInput);
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(InscriptionNotPendingError);
+	});
+
+	// Accepting is refused by the repository once all seats are held by accepted passengers
+	it('should return NoSeatsAvailableError when accepting on a full trip', async () => {
+		mockInscriptionRepo.updateStatus.mockResolvedValue(err(new NoSeatsAvailableError('trip-1')));
+		const result = await useCase.execute(acceptInput);
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(NoSeatsAvailableError);
+		expect(mockInscriptionRepo.updateStatus).toHaveBeenCalledWith('i1', 'ACTIVE');
+	});
+
+	// DB error during the status update bubbles up
+	it('should propagate error from updateStatus', async () => {
+		mockInscriptionRepo.updateStatus.mockResolvedValue(err(new DatabaseError('db error')));
+		const result = await useCase.execute(rejectInput);
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
+	});
+});
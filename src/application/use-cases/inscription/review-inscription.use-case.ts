@@ -0,0 +1,174 @@
+/**
+ * @module ReviewInscriptionUseCase
+ *
+ * Lets a trip's driver accept or reject a pending inscription on a trip
+ * that requires manual approval. Accepting moves the inscription to ACTIVE
+ * (it then holds a seat); rejecting moves it to REJECTED. Since pending
+ * requests do not reserve seats, the repository re-checks that the trip still
+ * takes bookings and has a free seat atomically when the inscription is activated. Once the decision is
+ * stored, an `InscriptionReviewed` event is published.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { InscriptionEntity } from '../../../domain/entities/inscription.entity.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import type { TripEntity } from '../../../domain/entities/trip.entity.js';
+import {
+	DriverNotFoundError,
+	ForbiddenError,
+	InscriptionNotFoundError,
+	InscriptionNotPendingError,
+	type NoSeatsAvailableError,
+	type TripNotBookableError,
+	TripNotFoundError,
+} from '../../../lib/errors/domain.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+
+/**
+ * Union of all possible error types returned by the review inscription use case.
+ *
+ * - {@link TripNotFoundError} - No trip exists with the given UUID
+ * - {@link DriverNotFoundError} - The authenticated user has no driver profile
+ * - {@link ForbiddenError} - The trip does not belong to the requesting driver
+ * - {@link InscriptionNotFoundError} - No inscription with this UUID exists on the trip
+ * - {@link InscriptionNotPendingError} - The inscription was already accepted, rejected or cancelled
+ * - {@link TripNotBookableError} - The trip has departed, completed or been cancelled since the request
+ * - {@link NoSeatsAvailableError} - Accepting would exceed the trip's seat count
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type ReviewInscriptionError =
+	| TripNotFoundError
+	| DriverNotFoundError
+	| ForbiddenError
+	| InscriptionNotFoundError
+	| InscriptionNotPendingError
+	| TripNotBookableError
+	| NoSeatsAvailableError
+	| RepositoryError;
+
+/**
+ * Input for the review inscription use case.
+ *
+ * @property tripId - UUID of the trip the inscription belongs to
+ * @property inscriptionId - UUID of the pending inscription
+ * @property userId - UUID of the authenticated user (must be the trip's driver)
+ * @property decision - Whether the driver accepts or rejects the request
+ */
+export type ReviewInscriptionInput = {
+	tripId: string;
+	inscriptionId: string;
+	userId: string;
+	decision: 'ACCEPT' | 'REJECT';
+};
+
+/**
+ * Accepts or rejects a pending inscription on behalf of the trip's driver.
+ *
+ * Business flow:
+ * 1. Look up the trip by UUID and verify the requesting user is its driver
+ * 2. Look up the inscription and verify it belongs to the trip
+ * 3. Verify the inscription is still PENDING
+ * 4. Update the inscription status to ACTIVE or REJECTED; activation is refused
+ *    by the repository with TripNotBookableError when the trip no longer takes
+ *    bookings, or NoSeatsAvailableError when it is already full
+ * 5. Publish `InscriptionReviewed`
+ *
+ * @dependencies InscriptionRepository, TripRepository, DriverRepository, EventBus
+ */
+@injectable()
+export class ReviewInscriptionUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.InscriptionRepository)
+		private readonly inscriptionRepository: InscriptionRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.EventBus)
+		private readonly eventBus: EventBus,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ReviewInscriptionUseCase' });
+	}
+
+	/**
+	 * Applies the driver's decision to a pending inscription.
+	 *
+	 * @param input - Trip and inscription UUIDs, the authenticated userId and the decision
+	 * @returns A Result containing the updated InscriptionEntity on success,
+	 *          or a ReviewInscriptionError on failure
+	 */
+	async execute(input: ReviewInscriptionInput): Promise<Result<InscriptionEntity, ReviewInscriptionError>> {
+		const tripResult = await this.findOwnedTrip(input.tripId, input.userId);
+		if (!tripResult.success) {
+			return tripResult;
+		}
+		const trip = tripResult.value;
+
+		const inscriptionResult = await this.findPendingInscription(input.inscriptionId, trip);
+		if (!inscriptionResult.success) {
+			return inscriptionResult;
+		}
+
+		const status = input.decision === 'ACCEPT' ? 'ACTIVE' : 'REJECTED';
+		const result = await this.inscriptionRepository.updateStatus(input.inscriptionId, status);
+		if (result.success) {
+			this.logger.info('Inscription reviewed', { inscriptionId: input.inscriptionId, status: result.value.status });
+			await this.eventBus.publish(domainEvent('InscriptionReviewed', { inscriptionId: input.inscriptionId, status }));
+		}
+		return result;
+	}
+
+	private async findPendingInscription(inscriptionId: string, trip: TripEntity): Promise<Result<InscriptionEntity, InscriptionNotFoundError | InscriptionNotPendingError | RepositoryError>> {
+		const inscriptionResult = await this.inscriptionRepository.findById(inscriptionId);
+		if (!inscriptionResult.success) {
+			return inscriptionResult;
+		}
+		const inscription = inscriptionResult.value;
+		if (!inscription || inscription.tripRefId !== trip.refId) {
+			this.logger.warn('Inscription not found on trip for review', { tripId: trip.id, inscriptionId });
+			return err(new InscriptionNotFoundError(inscriptionId));
+		}
+		if (inscription.status !== 'PENDING') {
+			this.logger.warn('Inscription is not pending', { inscriptionId, status: inscription.status });
+			return err(new InscriptionNotPendingError(inscriptionId, inscription.status));
+		}
+		return ok(inscription);
+	}
+
+	private async findOwnedTrip(tripId: string, userId: string): Promise<Result<TripEntity, TripNotFoundError | DriverNotFoundError | ForbiddenError | RepositoryError>> {
+		const tripResult = await this.tripRepository.findById(tripId);
+		if (!tripResult.success) {
+			return tripResult;
+		}
+		if (!tripResult.value) {
+			this.logger.warn('Trip not found for inscription review', { tripId });
+			return err(new TripNotFoundError(tripId));
+		}
+
+		// Ownership check: resolve user UUID → driver via relation filter (single query)
+		const driverResult = await this.driverRepository.findByUserId(userId);
+		if (!driverResult.success) {
+			return driverResult;
+		}
+		if (!driverResult.value) {
+			return err(new DriverNotFoundError(userId));
+		}
+
+		if (tripResult.value.driverRefId !== driverResult.value.refId) {
+			this.logger.warn('Ownership check failed for inscription review', { tripId, userId });
+			return err(new ForbiddenError('Trip', tripId));
+		}
+		return ok(tripResult.value);
+	}
+}
@@ -0,0 +1,52 @@
+/**
+ * @file Unit tests for the ListOutboxMessagesUseCase.
+ *
+ * Covers paginated listing, the status filter, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockLogger, createMockOutboxRepository } from '../../../../tests/setup.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { ListOutboxMessagesUseCase } from './list-outbox-messages.use-case.js';
+
+describe('ListOutboxMessagesUseCase', () => {
+	let useCase: ListOutboxMessagesUseCase;
+	let mockRepo: ReturnType<typeof createMockOutboxRepository>;
+
+	beforeEach(() => {
+		mockRepo = createMockOutboxRepository();
+		container.registerInstance(TOKENS.OutboxRepository, mockRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(ListOutboxMessagesUseCase);
+	});
+
+	// Happy path: returns messages with pagination meta
+	it('should return a paginated list of messages', async () => {
+		const messages = [{ id: 'message-1', status: 'DEAD' }];
+		mockRepo.findAll.mockResolvedValue(ok({ data: messages, total: 41 }));
+
+		const result = await useCase.execute({ status: 'DEAD' }, { page: 3, limit: 20 });
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.value.data).toEqual(messages);
+			expect(result.value.meta).toEqual({ page: 3, limit: 20, total: 41, totalPages: 3 });
+		}
+		expect(mockRepo.findAll).toHaveBeenCalledWith({ status: 'DEAD' }, { skip: 40, take: 20 });
+	});
+
+	// DB error bubbles up unchanged
+	it('should propagate repository error', async () => {
+		mockRepo.findAll.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute({}, { page: 1, limit: 20 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+	});
+});
@@ -0,0 +1,60 @@
+/**
+ * @module ListOutboxMessagesUseCase
+ *
+ * Retrieves a paginated list of outbox messages, optionally filtered by
+ * status. Used by admins to inspect the email delivery queue, in particular
+ * the dead messages that need attention.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { OutboxMessageEntity } from '../../../domain/entities/outbox-message.entity.js';
+import type { OutboxMessageFilters, OutboxRepository } from '../../../domain/repositories/outbox.repository.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import { type PaginationParams, type PaginatedResult, toSkipTake, buildPaginationMeta } from '../../../lib/shared/utils/pagination.util.js';
+
+/**
+ * Returns a paginated list of outbox messages, newest first, with metadata.
+ *
+ * @dependencies OutboxRepository
+ */
+@injectable()
+export class ListOutboxMessagesUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.OutboxRepository)
+		private readonly outboxRepository: OutboxRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ListOutboxMessagesUseCase' });
+	}
+
+	/**
+	 * Fetches a paginated page of outbox messages.
+	 *
+	 * @param filters - Optional status filter
+	 * @param pagination - Page and limit parameters
+	 * @returns A Result containing a PaginatedResult with the messages and pagination meta,
+	 *          or a RepositoryError on database failure
+	 */
+	async execute(
+		filters: OutboxMessageFilters,
+		pagination: PaginationParams,
+	): Promise<Result<PaginatedResult<OutboxMessageEntity>, RepositoryError>> {
+		const result = await this.outboxRepository.findAll(filters, toSkipTake(pagination));
+		if (!result.success) {
+			this.logger.error('Failed to list outbox messages', result.error);
+			return result;
+		}
+		const { data, total } = result.value;
+		this.logger.info('Listed outbox messages', { count: data.length, total, ...filters });
+		return ok({
+			data,
+			meta: buildPaginationMeta(pagination, total),
+		});
+	}
+}
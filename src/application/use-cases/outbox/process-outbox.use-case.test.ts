@@ -0,0 +1,162 @@
+/**
+ * @file Unit tests for the ProcessOutboxUseCase.
+ *
+ * Covers delivering each email template, recording sent messages, retrying
+ * failures with an exponential backoff, declaring messages dead after the
+ * last attempt, and claim error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	createMockEmailService,
+	createMockLogger,
+	createMockOutboxConfig,
+	createMockOutboxRepository,
+} from '../../../../tests/setup.js';
+import type { OutboxMessageEntity } from '../../../domain/entities/outbox-message.entity.js';
+import { EmailDeliveryError } from '../../../lib/errors/email.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { ProcessOutboxUseCase } from './process-outbox.use-case.js';
+
+describe('ProcessOutboxUseCase', () => {
+	let useCase: ProcessOutboxUseCase;
+	let mockOutboxRepository: ReturnType<typeof createMockOutboxRepository>;
+	let mockEmailService: ReturnType<typeof createMockEmailService>;
+
+	const now = new Date('2026-10-18T10:00:00Z');
+	const message = (overrides: Partial<OutboxMessageEntity> = {}): OutboxMessageEntity => ({
+		id: 'message-1',
+		type: 'EMAIL',
+		payload: { to: 'jane@example.com', locale: 'fr', message: { template: 'welcome', variables: { firstName: null } } },
+		status: 'PROCESSING',
+		attempts: 1,
+		nextAttemptAt: now,
+		lastError: null,
+		createdAt: now,
+		processedAt: null,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(now);
+		mockOutboxRepository = createMockOutboxRepository();
+		mockOutboxRepository.claimDue.mockResolvedValue(ok([]));
+		mockOutboxRepository.markSent.mockResolvedValue(ok(undefined));
+		mockOutboxRepository.markFailed.mockResolvedValue(ok(undefined));
+		mockOutboxRepository.markDead.mockResolvedValue(ok(undefined));
+		mockEmailService = createMockEmailService();
+		mockEmailService.send.mockResolvedValue(ok(undefined));
+
+		container.registerInstance(TOKENS.OutboxRepository, mockOutboxRepository);
+		container.registerInstance(TOKENS.EmailService, mockEmailService);
+		container.registerInstance(TOKENS.OutboxConfig, createMockOutboxConfig());
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(ProcessOutboxUseCase);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	// Verifies the claim parameters: batch size and claim expiry from the config
+	it('should claim a batch of due messages', async () => {
+		const result = await useCase.execute();
+
+		expect(result).toEqual({ success: true, value: { claimed: 0, sent: 0, retried: 0, dead: 0 } });
+		expect(mockOutboxRepository.claimDue).toHaveBeenCalledWith(now, 10, new Date('2026-10-18T10:01:00Z'));
+	});
+
+	// Verifies the happy path: each email is sent in its recipient's locale
+	it('should send each message and mark it as sent', async () => {
+		mockOutboxRepository.claimDue.mockResolvedValue(ok([
+			message(),
+			message({
+				id: 'message-2',
+				payload: {
+					to: 'max@example.com',
+					locale: 'en',
+					message: { template: 'trip-cancelled', variables: { firstName: 'Max', tripDate: '2026-10-20T08:00:00.000Z', reason: null } },
+				},
+			}),
+		]));
+
+		const result = await useCase.execute();
+
+		expect(result).toEqual({ success: true, value: { claimed: 2, sent: 2, retried: 0, dead: 0 } });
+		expect(mockEmailService.send).toHaveBeenCalledWith('jane@example.com', { template: 'welcome', variables: { firstName: null } }, 'fr');
+		expect(mockEmailService.send).toHaveBeenCalledWith(
+			'max@example.com',
+			{ template: 'trip-cancelled', variables: { firstName: 'Max', tripDate: '2026-10-20T08:00:00.000Z', reason: null } },
+			'en',
+		);
+		expect(mockOutboxRepository.markSent).toHaveBeenCalledWith('message-1', now);
+		expect(mockOutboxRepository.markSent).toHaveBeenCalledWith('message-2', now);
+	});
+
+	// Verifies the exponential backoff: the third attempt waits base * 2^2
+	it('should put a failed message back in the queue with a backoff', async () => {
+		mockOutboxRepository.claimDue.mockResolvedValue(ok([message({ attempts: 2 })]));
+		mockEmailService.send.mockResolvedValue(err(new EmailDeliveryError('jane@example.com')));
+
+		const result = await useCase.execute();
+
+		expect(result.success && result.value.retried).toBe(1);
+		expect(mockOutboxRepository.markFailed).toHaveBeenCalledWith(
+			'message-1',
+			'Failed to deliver email to jane@example.com',
+			new Date(now.getTime() + 2000),
+		);
+		expect(mockOutboxRepository.markSent).not.toHaveBeenCalled();
+	});
+
+	// Verifies the dead-letter state after the last allowed attempt
+	it('should mark the message as dead after its last attempt', async () => {
+		mockOutboxRepository.claimDue.mockResolvedValue(ok([message({ attempts: 3 })]));
+		mockEmailService.send.mockResolvedValue(err(new EmailDeliveryError('jane@example.com')));
+
+		const result = await useCase.execute();
+
+		expect(result.success && result.value.dead).toBe(1);
+		expect(mockOutboxRepository.markDead).toHaveBeenCalledWith('message-1', 'Failed to deliver email to jane@example.com', now);
+		expect(mockOutboxRepository.markFailed).not.toHaveBeenCalled();
+	});
+
+	// Verifies that one failing message does not stop the batch
+	it('should keep delivering the batch after a failure', async () => {
+		mockOutboxRepository.claimDue.mockResolvedValue(ok([message(), message({ id: 'message-2' })]));
+		mockEmailService.send
+			.mockResolvedValueOnce(err(new EmailDeliveryError('jane@example.com')))
+			.mockResolvedValueOnce(ok(undefined));
+
+		const result = await useCase.execute();
+
+		expect(result).toEqual({ success: true, value: { claimed: 2, sent: 1, retried: 1, dead: 0 } });
+	});
+
+	// Verifies that a failure to record the outcome does not fail the batch
+	it('should still count the message when its outcome cannot be recorded', async () => {
+		mockOutboxRepository.claimDue.mockResolvedValue(ok([message()]));
+		mockOutboxRepository.markSent.mockResolvedValue(err(new DatabaseError('DB down')));
+
+		const result = await useCase.execute();
+
+		expect(result).toEqual({ success: true, value: { claimed: 1, sent: 1, retried: 0, dead: 0 } });
+	});
+
+	// Verifies that claim errors are propagated
+	it('should propagate error when messages cannot be claimed', async () => {
+		mockOutboxRepository.claimDue.mockResolvedValue(err(new DatabaseError('DB down')));
+
+		const result = await useCase.execute();
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+		expect(mockEmailService.send).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,141 @@
+/**
+ * @module ProcessOutboxUseCase
+ *
+ * Delivers one batch of due outbox messages. Run repeatedly by the outbox
+ * worker; each run claims due messages, sends them through the EmailService
+ * and records the outcome of every attempt, retrying failures with an
+ * exponential backoff until the message is declared dead.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { OutboxEmail, OutboxMessageEntity } from '../../../domain/entities/outbox-message.entity.js';
+import { retryDelayMs } from '../../../domain/outbox/retry-policy.js';
+import type { OutboxRepository } from '../../../domain/repositories/outbox.repository.js';
+import type { EmailService } from '../../../domain/services/email.service.js';
+import type { EmailError } from '../../../lib/errors/email.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import type { OutboxConfig } from '../../config/outbox.config.js';
+
+/** Outcome of a single delivery attempt. */
+type AttemptOutcome = 'sent' | 'retried' | 'dead';
+
+/**
+ * Summary of a processed batch.
+ *
+ * @property claimed - Number of messages claimed for delivery.
+ * @property sent - Messages delivered.
+ * @property retried - Messages that failed and were put back in the queue.
+ * @property dead - Messages that failed their last allowed attempt.
+ */
+export type ProcessOutboxResult = {
+	claimed: number;
+	sent: number;
+	retried: number;
+	dead: number;
+};
+
+/**
+ * Delivers a batch of due outbox messages.
+ *
+ * Business flow:
+ * 1. Claim up to `batchSize` due messages (their attempt count is incremented)
+ * 2. Send each message through the EmailService, in the locale of its recipient
+ * 3. On success, mark the message as sent
+ * 4. On failure, put it back in the queue with an exponential backoff, or mark it
+ *    as dead once it has used `maxAttempts` attempts
+ * 5. Return how many messages were sent, retried and declared dead
+ *
+ * A failure to record an outcome is logged only: the claim expires and the
+ * message is claimed again, so it is delivered at least once.
+ *
+ * @dependencies OutboxRepository, EmailService, OutboxConfig
+ */
+@injectable()
+export class ProcessOutboxUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.OutboxRepository)
+		private readonly outboxRepository: OutboxRepository,
+		@inject(TOKENS.EmailService)
+		private readonly emailService: EmailService,
+		@inject(TOKENS.OutboxConfig)
+		private readonly outboxConfig: OutboxConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ProcessOutboxUseCase' });
+	}
+
+	/**
+	 * Claims and delivers one batch of due messages.
+	 *
+	 * @returns A Result containing the batch summary, or a RepositoryError if no
+	 *          message could be claimed
+	 */
+	async execute(): Promise<Result<ProcessOutboxResult, RepositoryError>> {
+		const now = new Date();
+		const claimUntil = new Date(now.getTime() + this.outboxConfig.claimTimeoutMs);
+		const claimResult = await this.outboxRepository.claimDue(now, this.outboxConfig.batchSize, claimUntil);
+		if (!claimResult.success) {
+			this.logger.error('Failed to claim outbox messages', claimResult.error);
+			return claimResult;
+		}
+
+		const summary: ProcessOutboxResult = { claimed: claimResult.value.length, sent: 0, retried: 0, dead: 0 };
+		// Sequential delivery keeps the provider's rate limits predictable
+		for (const message of claimResult.value) {
+			const outcome = await this.attempt(message);
+			summary[outcome] += 1;
+		}
+
+		if (summary.claimed > 0) {
+			this.logger.info('Processed outbox batch', summary);
+		}
+		return ok(summary);
+	}
+
+	/**
+	 * Delivers one claimed message and records the outcome of the attempt.
+	 */
+	private async attempt(message: OutboxMessageEntity): Promise<AttemptOutcome> {
+		const deliveryResult = await this.deliver(message.payload);
+		const now = new Date();
+
+		if (deliveryResult.success) {
+			const markResult = await this.outboxRepository.markSent(message.id, now);
+			if (!markResult.success) {
+				this.logger.error('Failed to mark outbox message as sent', markResult.error, { messageId: message.id });
+			}
+			return 'sent';
+		}
+
+		const error = deliveryResult.error.message;
+		if (message.attempts >= this.outboxConfig.maxAttempts) {
+			this.logger.error('Outbox message declared dead', deliveryResult.error, { messageId: message.id, attempts: message.attempts });
+			const markResult = await this.outboxRepository.markDead(message.id, error, now);
+			if (!markResult.success) {
+				this.logger.error('Failed to mark outbox message as dead', markResult.error, { messageId: message.id });
+			}
+			return 'dead';
+		}
+
+		const delay = retryDelayMs(message.attempts, this.outboxConfig.retryBaseDelayMs, this.outboxConfig.retryMaxDelayMs);
+		this.logger.warn('Outbox message delivery failed, retrying', { messageId: message.id, attempts: message.attempts, retryInMs: delay });
+		const markResult = await this.outboxRepository.markFailed(message.id, error, new Date(now.getTime() + delay));
+		if (!markResult.success) {
+			this.logger.error('Failed to record outbox message failure', markResult.error, { messageId: message.id });
+		}
+		return 'retried';
+	}
+
+	/**
+	 * Sends the email described by the payload.
+	 */
+	private deliver(email: OutboxEmail): Promise<Result<void, EmailError>> {
+		return this.emailService.send(email.to, email.message, email.locale);
+	}
+}
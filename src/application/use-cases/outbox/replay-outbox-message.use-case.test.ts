@@ -0,0 +1,83 @@
+/**
+ * @file Unit tests for the ReplayOutboxMessageUseCase.
+ *
+ * Covers requeuing a dead message, unknown messages, refusing to replay
+ * queued or sent messages, a concurrent replay, and error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockLogger, createMockOutboxRepository } from '../../../../tests/setup.js';
+import { OutboxMessageNotFoundError, OutboxMessageNotReplayableError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { ReplayOutboxMessageUseCase } from './replay-outbox-message.use-case.js';
+
+describe('ReplayOutboxMessageUseCase', () => {
+	let useCase: ReplayOutboxMessageUseCase;
+	let mockRepo: ReturnType<typeof createMockOutboxRepository>;
+
+	const deadMessage = { id: 'message-1', status: 'DEAD', attempts: 8 };
+
+	beforeEach(() => {
+		mockRepo = createMockOutboxRepository();
+		container.registerInstance(TOKENS.OutboxRepository, mockRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(ReplayOutboxMessageUseCase);
+	});
+
+	// Happy path: a dead message is requeued
+	it('should requeue a dead message', async () => {
+		const requeued = { ...deadMessage, status: 'PENDING', attempts: 0 };
+		mockRepo.findById.mockResolvedValue(ok(deadMessage));
+		mockRepo.replay.mockResolvedValue(ok(requeued));
+
+		const result = await useCase.execute('message-1');
+
+		expect(result).toEqual({ success: true, value: requeued });
+		expect(mockRepo.replay).toHaveBeenCalledWith('message-1', expect.any(Date));
+	});
+
+	// Unknown message UUID
+	it('should return OutboxMessageNotFoundError when the message does not exist', async () => {
+		mockRepo.findById.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute('message-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(OutboxMessageNotFoundError);
+	});
+
+	// Sent messages must never be sent twice
+	it('should return OutboxMessageNotReplayableError for a message that is not dead', async () => {
+		mockRepo.findById.mockResolvedValue(ok({ ...deadMessage, status: 'SENT' }));
+
+		const result = await useCase.execute('message-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(OutboxMessageNotReplayableError);
+		expect(mockRepo.replay).not.toHaveBeenCalled();
+	});
+
+	// The conditional update lost the race to a concurrent replay
+	it('should return OutboxMessageNotReplayableError when replayed concurrently', async () => {
+		mockRepo.findById.mockResolvedValue(ok(deadMessage));
+		mockRepo.replay.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute('message-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(OutboxMessageNotReplayableError);
+	});
+
+	// DB error bubbles up unchanged
+	it('should propagate repository error', async () => {
+		mockRepo.findById.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute('message-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
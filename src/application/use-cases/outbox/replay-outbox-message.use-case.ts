@@ -0,0 +1,82 @@
+/**
+ * @module ReplayOutboxMessageUseCase
+ *
+ * Puts a dead outbox message back in the delivery queue, e.g. once the
+ * cause of its failures (a provider outage, a misconfiguration) is fixed.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { OutboxMessageEntity } from '../../../domain/entities/outbox-message.entity.js';
+import type { OutboxRepository } from '../../../domain/repositories/outbox.repository.js';
+import { OutboxMessageNotFoundError, OutboxMessageNotReplayableError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+
+/**
+ * Union of all possible error types returned by the replay use case.
+ *
+ * - {@link OutboxMessageNotFoundError} - No message exists with the given UUID
+ * - {@link OutboxMessageNotReplayableError} - The message is not dead (still queued or already sent)
+ * - {@link RepositoryError} - Database-level failure during lookup or update
+ */
+type ReplayOutboxMessageError = OutboxMessageNotFoundError | OutboxMessageNotReplayableError | RepositoryError;
+
+/**
+ * Requeues a dead outbox message.
+ *
+ * Business flow:
+ * 1. Look up the message by UUID
+ * 2. Verify it is dead; queued and sent messages are never replayed
+ * 3. Put it back in the queue, due now, with a fresh attempt count
+ *
+ * The status check is repeated atomically by the repository, so a message
+ * replayed twice concurrently is only requeued once.
+ *
+ * @dependencies OutboxRepository
+ */
+@injectable()
+export class ReplayOutboxMessageUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.OutboxRepository)
+		private readonly outboxRepository: OutboxRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ReplayOutboxMessageUseCase' });
+	}
+
+	/**
+	 * Requeues the dead message identified by the given UUID.
+	 *
+	 * @param id - The UUID of the message
+	 * @returns A Result containing the requeued message, or a ReplayOutboxMessageError on failure
+	 */
+	async execute(id: string): Promise<Result<OutboxMessageEntity, ReplayOutboxMessageError>> {
+		const findResult = await this.outboxRepository.findById(id);
+		if (!findResult.success) {
+			return findResult;
+		}
+		if (!findResult.value) {
+			return err(new OutboxMessageNotFoundError(id));
+		}
+		if (findResult.value.status !== 'DEAD') {
+			return err(new OutboxMessageNotReplayableError(id, findResult.value.status));
+		}
+
+		const replayResult = await this.outboxRepository.replay(id, new Date());
+		if (!replayResult.success) {
+			return replayResult;
+		}
+		if (!replayResult.value) {
+			// Replayed concurrently between the lookup and the update
+			return err(new OutboxMessageNotReplayableError(id, 'PENDING'));
+		}
+
+		this.logger.info('Outbox message replayed', { messageId: id });
+		return ok(replayResult.value);
+	}
+}
@@ -0,0 +1,68 @@
+/**
+ * @file Unit tests for the ListDriverReviewsUseCase.
+ *
+ * Covers the paginated reviews received by a driver, unknown drivers, and
+ * repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockDriverRepository, createMockLogger, createMockReviewRepository } from '../../../../tests/setup.js';
+import { DriverNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { ListDriverReviewsUseCase } from './list-driver-reviews.use-case.js';
+
+describe('ListDriverReviewsUseCase', () => {
+	let useCase: ListDriverReviewsUseCase;
+	let mockReviewRepo: ReturnType<typeof createMockReviewRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+
+	const profile = { id: 'driver-1', refId: 10, userRefId: 7, firstName: 'Jean', lastName: 'Dupont' };
+	const review = { id: 'review-1', tripRefId: 2, authorRefId: 5, subjectRefId: 7, direction: 'PASSENGER_TO_DRIVER', score: 5, comment: null, createdAt: new Date() };
+
+	beforeEach(() => {
+		mockReviewRepo = createMockReviewRepository();
+		mockDriverRepo = createMockDriverRepository();
+		container.registerInstance(TOKENS.ReviewRepository, mockReviewRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(ListDriverReviewsUseCase);
+
+		mockDriverRepo.findProfile.mockResolvedValue(ok(profile));
+		mockReviewRepo.findBySubjectRefId.mockResolvedValue(ok({ data: [review], total: 21 }));
+	});
+
+	it('should list the reviews received by the driver', async () => {
+		const result = await useCase.execute('driver-1', { page: 2, limit: 10 });
+
+		expect(result).toEqual(ok({ data: [review], meta: { page: 2, limit: 10, total: 21, totalPages: 3 } }));
+		expect(mockReviewRepo.findBySubjectRefId).toHaveBeenCalledWith(7, 'PASSENGER_TO_DRIVER', { skip: 10, take: 10 });
+	});
+
+	it('should default to the first page of 20', async () => {
+		await useCase.execute('driver-1');
+
+		expect(mockReviewRepo.findBySubjectRefId).toHaveBeenCalledWith(7, 'PASSENGER_TO_DRIVER', { skip: 0, take: 20 });
+	});
+
+	it('should return DriverNotFoundError for an unknown driver', async () => {
+		mockDriverRepo.findProfile.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute('driver-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DriverNotFoundError);
+		expect(mockReviewRepo.findBySubjectRefId).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		mockReviewRepo.findBySubjectRefId.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute('driver-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
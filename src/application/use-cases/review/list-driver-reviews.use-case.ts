@@ -0,0 +1,75 @@
+/**
+ * @module ListDriverReviewsUseCase
+ *
+ * Lists the reviews a driver received from their passengers, newest first,
+ * so that passengers can see what others thought of a driver before booking.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { ReviewEntity } from '../../../domain/entities/review.entity.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { ReviewRepository } from '../../../domain/repositories/review.repository.js';
+import { DriverNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { type PaginatedResult, type PaginationParams, buildPaginationMeta, toSkipTake } from '../../../lib/shared/utils/pagination.util.js';
+
+/**
+ * Union of all possible error types returned by the list driver reviews use case.
+ *
+ * - {@link DriverNotFoundError} - No driver exists with the given UUID, or it was anonymized
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type ListDriverReviewsError = DriverNotFoundError | RepositoryError;
+
+/**
+ * Retrieves a page of the reviews a driver received.
+ *
+ * Business flow:
+ * 1. Look up the driver's public profile to resolve the reviewed user
+ * 2. Fetch a page of the reviews left by passengers, newest first
+ *
+ * @dependencies ReviewRepository, DriverRepository
+ */
+@injectable()
+export class ListDriverReviewsUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.ReviewRepository)
+		private readonly reviewRepository: ReviewRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ListDriverReviewsUseCase' });
+	}
+
+	/**
+	 * Fetches a paginated list of the reviews of the given driver.
+	 *
+	 * @param driverId - The UUID of the driver
+	 * @param pagination - Optional page and limit parameters (defaults to page 1, limit 20)
+	 * @returns A Result containing a PaginatedResult of reviews, or a ListDriverReviewsError on failure
+	 */
+	async execute(driverId: string, pagination?: PaginationParams): Promise<Result<PaginatedResult<ReviewEntity>, ListDriverReviewsError>> {
+		const profileResult = await this.driverRepository.findProfile(driverId);
+		if (!profileResult.success) {
+			return profileResult;
+		}
+		if (!profileResult.value) {
+			return err(new DriverNotFoundError(driverId));
+		}
+
+		const params = pagination ?? { page: 1, limit: 20 };
+		const result = await this.reviewRepository.findBySubjectRefId(profileResult.value.userRefId, 'PASSENGER_TO_DRIVER', toSkipTake(params));
+		if (!result.success) {
+			this.logger.error('Failed to list driver reviews', result.error, { driverId });
+			return result;
+		}
+		return ok({ data: result.value.data, meta: buildPaginationMeta(params, result.value.total) });
+	}
+}
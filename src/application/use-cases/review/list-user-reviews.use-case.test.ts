@@ -0,0 +1,70 @@
+/**
+ * @file Unit tests for the ListUserReviewsUseCase.
+ *
+ * Covers the paginated reviews received by a user as a passenger, unknown and
+ * anonymized users, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockLogger, createMockReviewRepository, createMockUserData, createMockUserRepository } from '../../../../tests/setup.js';
+import { UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { ListUserReviewsUseCase } from './list-user-reviews.use-case.js';
+
+describe('ListUserReviewsUseCase', () => {
+	let useCase: ListUserReviewsUseCase;
+	let mockReviewRepo: ReturnType<typeof createMockReviewRepository>;
+	let mockUserRepo: ReturnType<typeof createMockUserRepository>;
+
+	const review = { id: 'review-1', tripRefId: 2, authorRefId: 7, subjectRefId: 5, direction: 'DRIVER_TO_PASSENGER', score: 4, comment: null, createdAt: new Date() };
+
+	beforeEach(() => {
+		mockReviewRepo = createMockReviewRepository();
+		mockUserRepo = createMockUserRepository();
+		container.registerInstance(TOKENS.ReviewRepository, mockReviewRepo);
+		container.registerInstance(TOKENS.UserRepository, mockUserRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(ListUserReviewsUseCase);
+
+		mockUserRepo.findById.mockResolvedValue(ok(createMockUserData({ id: 'user-1', refId: 5 })));
+		mockReviewRepo.findBySubjectRefId.mockResolvedValue(ok({ data: [review], total: 1 }));
+	});
+
+	it('should list the reviews received by the user as a passenger', async () => {
+		const result = await useCase.execute('user-1', { page: 1, limit: 20 });
+
+		expect(result).toEqual(ok({ data: [review], meta: { page: 1, limit: 20, total: 1, totalPages: 1 } }));
+		expect(mockReviewRepo.findBySubjectRefId).toHaveBeenCalledWith(5, 'DRIVER_TO_PASSENGER', { skip: 0, take: 20 });
+	});
+
+	it('should return UserNotFoundError for an unknown user', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute('user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(UserNotFoundError);
+	});
+
+	it('should return UserNotFoundError for an anonymized user', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(createMockUserData({ anonymizedAt: new Date() })));
+
+		const result = await useCase.execute('user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(UserNotFoundError);
+		expect(mockReviewRepo.findBySubjectRefId).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		mockReviewRepo.findBySubjectRefId.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute('user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
@@ -0,0 +1,77 @@
+/**
+ * @module ListUserReviewsUseCase
+ *
+ * Lists the reviews a user received as a passenger from the drivers they
+ * travelled with, newest first, so that drivers can see how a passenger
+ * behaved on previous trips before accepting them.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { ReviewEntity } from '../../../domain/entities/review.entity.js';
+import type { ReviewRepository } from '../../../domain/repositories/review.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import { UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { type PaginatedResult, type PaginationParams, buildPaginationMeta, toSkipTake } from '../../../lib/shared/utils/pagination.util.js';
+
+/**
+ * Union of all possible error types returned by the list user reviews use case.
+ *
+ * - {@link UserNotFoundError} - No user exists with the given UUID, or it was anonymized
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type ListUserReviewsError = UserNotFoundError | RepositoryError;
+
+/**
+ * Retrieves a page of the reviews a user received as a passenger.
+ *
+ * Business flow:
+ * 1. Look up the user, refusing anonymized accounts
+ * 2. Fetch a page of the reviews left by drivers, newest first
+ *
+ * @dependencies ReviewRepository, UserRepository
+ */
+@injectable()
+export class ListUserReviewsUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.ReviewRepository)
+		private readonly reviewRepository: ReviewRepository,
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ListUserReviewsUseCase' });
+	}
+
+	/**
+	 * Fetches a paginated list of the reviews the given user received as a passenger.
+	 *
+	 * @param userId - The UUID of the user
+	 * @param pagination - Optional page and limit parameters (defaults to page 1, limit 20)
+	 * @returns A Result containing a PaginatedResult of reviews, or a ListUserReviewsError on failure
+	 */
+	async execute(userId: string, pagination?: PaginationParams): Promise<Result<PaginatedResult<ReviewEntity>, ListUserReviewsError>> {
+		const userResult = await this.userRepository.findById(userId);
+		if (!userResult.success) {
+			return userResult;
+		}
+		const user = userResult.value;
+		if (!user || user.anonymizedAt) {
+			return err(new UserNotFoundError(userId));
+		}
+
+		const params = pagination ?? { page: 1, limit: 20 };
+		const result = await this.reviewRepository.findBySubjectRefId(user.refId, 'DRIVER_TO_PASSENGER', toSkipTake(params));
+		if (!result.success) {
+			this.logger.error('Failed to list user reviews', result.error, { userId });
+			return result;
+		}
+		return ok({ data: result.value.data, meta: buildPaginationMeta(params, result.value.total) });
+	}
+}
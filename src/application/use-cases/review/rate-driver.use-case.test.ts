@@ -0,0 +1,129 @@
+/**
+ * @file Unit tests for the RateDriverUseCase.
+ *
+ * Covers a passenger rating the driver after the trip, trips not completed yet,
+ * users without an ACTIVE booking, anonymized users, second ratings, and
+ * repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockDriverData,
+	createMockDriverRepository,
+	createMockInscriptionData,
+	createMockInscriptionRepository,
+	createMockLogger,
+	createMockReviewRepository,
+	createMockTripData,
+	createMockTripRepository,
+	createMockUserData,
+	createMockUserRepository,
+} from '../../../../tests/setup.js';
+import { AlreadyReviewedError, NotTripPassengerError, TripNotCompletedError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { RateDriverUseCase } from './rate-driver.use-case.js';
+
+describe('RateDriverUseCase', () => {
+	let useCase: RateDriverUseCase;
+	let mockReviewRepo: ReturnType<typeof createMockReviewRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockUserRepo: ReturnType<typeof createMockUserRepository>;
+	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+
+	const input = { tripId: 'trip-1', userId: 'user-1', score: 5, comment: 'Smooth ride' };
+	const review = { id: 'review-1', tripRefId: 2, authorRefId: 5, subjectRefId: 7, direction: 'PASSENGER_TO_DRIVER', score: 5, comment: 'Smooth ride', createdAt: new Date() };
+
+	beforeEach(() => {
+		mockReviewRepo = createMockReviewRepository();
+		mockTripRepo = createMockTripRepository();
+		mockUserRepo = createMockUserRepository();
+		mockInscriptionRepo = createMockInscriptionRepository();
+		mockDriverRepo = createMockDriverRepository();
+		container.registerInstance(TOKENS.ReviewRepository, mockReviewRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.UserRepository, mockUserRepo);
+		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(RateDriverUseCase);
+
+		mockTripRepo.findById.mockResolvedValue(ok(createMockTripData({ id: 'trip-1', refId: 2, driverRefId: 10, status: 'COMPLETED' })));
+		mockUserRepo.findById.mockResolvedValue(ok(createMockUserData({ id: 'user-1', refId: 5 })));
+		mockInscriptionRepo.findByTripRefId.mockResolvedValue(ok([createMockInscriptionData({ userRefId: 5, tripRefId: 2, status: 'ACTIVE' })]));
+		mockDriverRepo.findByRefId.mockResolvedValue(ok(createMockDriverData({ refId: 10, userRefId: 7 })));
+		mockReviewRepo.exists.mockResolvedValue(ok(false));
+		mockReviewRepo.create.mockResolvedValue(ok(review));
+	});
+
+	it('should record the rating of the driver', async () => {
+		const result = await useCase.execute(input);
+
+		expect(result).toEqual(ok(review));
+		expect(mockDriverRepo.findByRefId).toHaveBeenCalledWith(10);
+		expect(mockReviewRepo.create).toHaveBeenCalledWith({
+			tripRefId: 2,
+			authorRefId: 5,
+			subjectRefId: 7,
+			direction: 'PASSENGER_TO_DRIVER',
+			score: 5,
+			comment: 'Smooth ride',
+		});
+	});
+
+	it('should store a missing comment as null', async () => {
+		await useCase.execute({ tripId: 'trip-1', userId: 'user-1', score: 3 });
+
+		expect(mockReviewRepo.create).toHaveBeenCalledWith(expect.objectContaining({ score: 3, comment: null }));
+	});
+
+	it('should return TripNotCompletedError before the trip is completed', async () => {
+		mockTripRepo.findById.mockResolvedValue(ok(createMockTripData({ status: 'IN_PROGRESS' })));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotCompletedError);
+		expect(mockReviewRepo.create).not.toHaveBeenCalled();
+	});
+
+	it('should return UserNotFoundError for an anonymized user', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(createMockUserData({ anonymizedAt: new Date() })));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(UserNotFoundError);
+	});
+
+	it.each(['PENDING', 'REJECTED', 'CANCELLED'])('should refuse a passenger whose booking is %s', async (status) => {
+		mockInscriptionRepo.findByTripRefId.mockResolvedValue(ok([createMockInscriptionData({ userRefId: 5, tripRefId: 2, status })]));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(NotTripPassengerError);
+		expect(mockReviewRepo.create).not.toHaveBeenCalled();
+	});
+
+	it('should return AlreadyReviewedError when the driver was already rated', async () => {
+		mockReviewRepo.exists.mockResolvedValue(ok(true));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(AlreadyReviewedError);
+	});
+
+	it('should propagate repository errors', async () => {
+		mockReviewRepo.create.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
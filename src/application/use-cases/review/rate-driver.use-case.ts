@@ -0,0 +1,152 @@
+/**
+ * @module RateDriverUseCase
+ *
+ * Lets a passenger rate the driver of a trip they travelled on, with a score
+ * from 1 to 5 and an optional comment. Only passengers whose booking was
+ * ACTIVE can rate, only once the trip is completed, and only once per trip.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { ReviewEntity } from '../../../domain/entities/review.entity.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { ReviewRepository } from '../../../domain/repositories/review.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import {
+	type AlreadyReviewedError,
+	DriverNotFoundError,
+	NotTripPassengerError,
+	type TripNotCompletedError,
+	type TripNotFoundError,
+	UserNotFoundError,
+} from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err } from '../../../lib/shared/types/result.js';
+import { findCompletedTrip, recordReview } from './trip-review.js';
+
+/**
+ * Union of all possible error types returned by the rate driver use case.
+ *
+ * - {@link TripNotFoundError} - No trip exists with the given UUID
+ * - {@link TripNotCompletedError} - The trip is not COMPLETED yet, or was cancelled
+ * - {@link UserNotFoundError} - The authenticated user does not exist or was anonymized
+ * - {@link NotTripPassengerError} - The user holds no ACTIVE booking on the trip
+ * - {@link DriverNotFoundError} - The trip's driver no longer exists
+ * - {@link AlreadyReviewedError} - The user already rated the driver for this trip
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type RateDriverError =
+	| TripNotFoundError
+	| TripNotCompletedError
+	| UserNotFoundError
+	| NotTripPassengerError
+	| DriverNotFoundError
+	| AlreadyReviewedError
+	| RepositoryError;
+
+/**
+ * Input for the rate driver use case.
+ *
+ * @property tripId - UUID of the trip
+ * @property userId - UUID of the authenticated passenger
+ * @property score - Rating from 1 to 5
+ * @property comment - Optional free-text comment
+ */
+export type RateDriverInput = {
+	tripId: string;
+	userId: string;
+	score: number;
+	comment?: string;
+};
+
+/**
+ * Records a passenger's rating of the driver of a past trip.
+ *
+ * Business flow:
+ * 1. Look up the trip and verify it is completed
+ * 2. Look up the user and verify they hold an ACTIVE booking on the trip
+ * 3. Resolve the trip's driver to the user being rated
+ * 4. Refuse a second rating for the same trip, then store the review
+ *
+ * @dependencies ReviewRepository, TripRepository, UserRepository, InscriptionRepository, DriverRepository
+ */
+@injectable()
+export class RateDriverUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.ReviewRepository)
+		private readonly reviewRepository: ReviewRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.InscriptionRepository)
+		private readonly inscriptionRepository: InscriptionRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'RateDriverUseCase' });
+	}
+
+	/**
+	 * Rates the driver of the trip on behalf of the passenger.
+	 *
+	 * @param input - Trip UUID, the authenticated userId, the score and the optional comment
+	 * @returns A Result containing the created ReviewEntity on success,
+	 *          or a RateDriverError on failure
+	 */
+	async execute(input: RateDriverInput): Promise<Result<ReviewEntity, RateDriverError>> {
+		const tripResult = await findCompletedTrip(this.tripRepository, input.tripId);
+		if (!tripResult.success) {
+			this.logger.warn('Driver rating rejected', { tripId: input.tripId, errorCode: tripResult.error.code });
+			return tripResult;
+		}
+		const trip = tripResult.value;
+
+		const userResult = await this.userRepository.findById(input.userId);
+		if (!userResult.success) {
+			return userResult;
+		}
+		const user = userResult.value;
+		if (!user || user.anonymizedAt) {
+			return err(new UserNotFoundError(input.userId));
+		}
+
+		const inscriptionsResult = await this.inscriptionRepository.findByTripRefId(trip.refId);
+		if (!inscriptionsResult.success) {
+			return inscriptionsResult;
+		}
+		const travelled = inscriptionsResult.value.some((inscription) => inscription.userRefId === user.refId && inscription.status === 'ACTIVE');
+		if (!travelled) {
+			this.logger.warn('Driver rating by a non-passenger', { tripId: input.tripId, userId: input.userId });
+			return err(new NotTripPassengerError(input.tripId));
+		}
+
+		const driverResult = await this.driverRepository.findByRefId(trip.driverRefId);
+		if (!driverResult.success) {
+			return driverResult;
+		}
+		if (!driverResult.value) {
+			return err(new DriverNotFoundError(String(trip.driverRefId)));
+		}
+
+		const result = await recordReview(this.reviewRepository, input.tripId, {
+			tripRefId: trip.refId,
+			authorRefId: user.refId,
+			subjectRefId: driverResult.value.userRefId,
+			direction: 'PASSENGER_TO_DRIVER',
+			score: input.score,
+			comment: input.comment ?? null,
+		});
+		if (result.success) {
+			this.logger.info('Driver rated', { tripId: input.tripId, reviewId: result.value.id, score: input.score });
+		}
+		return result;
+	}
+}
@@ -0,0 +1,141 @@
+/**
+ * @file Unit tests for the RatePassengerUseCase.
+ *
+ * Covers a driver rating a passenger after the trip, drivers rating on a trip
+ * they do not own, inscriptions of another trip or that are not ACTIVE,
+ * second ratings, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockDriverData,
+	createMockDriverRepository,
+	createMockInscriptionData,
+	createMockInscriptionRepository,
+	createMockLogger,
+	createMockReviewRepository,
+	createMockTripData,
+	createMockTripRepository,
+} from '../../../../tests/setup.js';
+import {
+	AlreadyReviewedError,
+	DriverNotFoundError,
+	ForbiddenError,
+	InscriptionNotFoundError,
+	NotTripPassengerError,
+	TripNotFoundError,
+} from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { RatePassengerUseCase } from './rate-passenger.use-case.js';
+
+describe('RatePassengerUseCase', () => {
+	let useCase: RatePassengerUseCase;
+	let mockReviewRepo: ReturnType<typeof createMockReviewRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
+
+	const input = { tripId: 'trip-1', inscriptionId: 'inscription-1', userId: 'user-7', score: 4 };
+	const review = { id: 'review-1', tripRefId: 2, authorRefId: 7, subjectRefId: 5, direction: 'DRIVER_TO_PASSENGER', score: 4, comment: null, createdAt: new Date() };
+
+	beforeEach(() => {
+		mockReviewRepo = createMockReviewRepository();
+		mockTripRepo = createMockTripRepository();
+		mockDriverRepo = createMockDriverRepository();
+		mockInscriptionRepo = createMockInscriptionRepository();
+		container.registerInstance(TOKENS.ReviewRepository, mockReviewRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(RatePassengerUseCase);
+
+		mockTripRepo.findById.mockResolvedValue(ok(createMockTripData({ id: 'trip-1', refId: 2, driverRefId: 10, status: 'COMPLETED' })));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 10, userRefId: 7 })));
+		mockInscriptionRepo.findById.mockResolvedValue(ok(createMockInscriptionData({ id: 'inscription-1', userRefId: 5, tripRefId: 2, status: 'ACTIVE' })));
+		mockReviewRepo.exists.mockResolvedValue(ok(false));
+		mockReviewRepo.create.mockResolvedValue(ok(review));
+	});
+
+	it('should record the rating of the passenger', async () => {
+		const result = await useCase.execute(input);
+
+		expect(result).toEqual(ok(review));
+		expect(mockReviewRepo.create).toHaveBeenCalledWith({
+			tripRefId: 2,
+			authorRefId: 7,
+			subjectRefId: 5,
+			direction: 'DRIVER_TO_PASSENGER',
+			score: 4,
+			comment: null,
+		});
+	});
+
+	it('should return TripNotFoundError when the trip does not exist', async () => {
+		mockTripRepo.findById.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotFoundError);
+	});
+
+	it('should return DriverNotFoundError when the user is not a driver', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DriverNotFoundError);
+	});
+
+	it('should return ForbiddenError when the driver does not own the trip', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 11 })));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(ForbiddenError);
+		expect(mockInscriptionRepo.findById).not.toHaveBeenCalled();
+	});
+
+	it('should return InscriptionNotFoundError for an inscription of another trip', async () => {
+		mockInscriptionRepo.findById.mockResolvedValue(ok(createMockInscriptionData({ tripRefId: 3 })));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(InscriptionNotFoundError);
+	});
+
+	it('should return NotTripPassengerError for a booking that is not active', async () => {
+		mockInscriptionRepo.findById.mockResolvedValue(ok(createMockInscriptionData({ tripRefId: 2, status: 'CANCELLED' })));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(NotTripPassengerError);
+		expect(mockReviewRepo.create).not.toHaveBeenCalled();
+	});
+
+	it('should return AlreadyReviewedError when the passenger was already rated', async () => {
+		mockReviewRepo.exists.mockResolvedValue(ok(true));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(AlreadyReviewedError);
+	});
+
+	it('should propagate repository errors', async () => {
+		mockInscriptionRepo.findById.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
@@ -0,0 +1,154 @@
+/**
+ * @module RatePassengerUseCase
+ *
+ * Lets the driver of a trip rate one of the passengers who travelled with
+ * them, with a score from 1 to 5 and an optional comment. The passenger is
+ * designated by their booking on the trip, which must be ACTIVE. A driver
+ * rates each passenger once per trip, once the trip is completed.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { ReviewEntity } from '../../../domain/entities/review.entity.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { ReviewRepository } from '../../../domain/repositories/review.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import {
+	type AlreadyReviewedError,
+	DriverNotFoundError,
+	ForbiddenError,
+	InscriptionNotFoundError,
+	NotTripPassengerError,
+	type TripNotCompletedError,
+	type TripNotFoundError,
+} from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err } from '../../../lib/shared/types/result.js';
+import { findCompletedTrip, recordReview } from './trip-review.js';
+
+/**
+ * Union of all possible error types returned by the rate passenger use case.
+ *
+ * - {@link TripNotFoundError} - No trip exists with the given UUID
+ * - {@link TripNotCompletedError} - The trip is not COMPLETED yet, or was cancelled
+ * - {@link DriverNotFoundError} - The authenticated user has no driver profile
+ * - {@link ForbiddenError} - The trip does not belong to the requesting driver
+ * - {@link InscriptionNotFoundError} - No inscription with this UUID exists on the trip
+ * - {@link NotTripPassengerError} - The inscription is not ACTIVE, so the passenger did not travel
+ * - {@link AlreadyReviewedError} - The driver already rated this passenger for this trip
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type RatePassengerError =
+	| TripNotFoundError
+	| TripNotCompletedError
+	| DriverNotFoundError
+	| ForbiddenError
+	| InscriptionNotFoundError
+	| NotTripPassengerError
+	| AlreadyReviewedError
+	| RepositoryError;
+
+/**
+ * Input for the rate passenger use case.
+ *
+ * @property tripId - UUID of the trip
+ * @property inscriptionId - UUID of the passenger's inscription on the trip
+ * @property userId - UUID of the authenticated user (must be the trip's driver)
+ * @property score - Rating from 1 to 5
+ * @property comment - Optional free-text comment
+ */
+export type RatePassengerInput = {
+	tripId: string;
+	inscriptionId: string;
+	userId: string;
+	score: number;
+	comment?: string;
+};
+
+/**
+ * Records a driver's rating of a passenger of a past trip.
+ *
+ * Business flow:
+ * 1. Look up the trip and verify it is completed
+ * 2. Verify the requesting user is the trip's driver
+ * 3. Look up the inscription, verify it belongs to the trip and is ACTIVE
+ * 4. Refuse a second rating of the passenger for the same trip, then store the review
+ *
+ * @dependencies ReviewRepository, TripRepository, DriverRepository, InscriptionRepository
+ */
+@injectable()
+export class RatePassengerUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.ReviewRepository)
+		private readonly reviewRepository: ReviewRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.InscriptionRepository)
+		private readonly inscriptionRepository: InscriptionRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'RatePassengerUseCase' });
+	}
+
+	/**
+	 * Rates the passenger on behalf of the trip's driver.
+	 *
+	 * @param input - Trip and inscription UUIDs, the authenticated userId, the score and the optional comment
+	 * @returns A Result containing the created ReviewEntity on success,
+	 *          or a RatePassengerError on failure
+	 */
+	async execute(input: RatePassengerInput): Promise<Result<ReviewEntity, RatePassengerError>> {
+		const tripResult = await findCompletedTrip(this.tripRepository, input.tripId);
+		if (!tripResult.success) {
+			this.logger.warn('Passenger rating rejected', { tripId: input.tripId, errorCode: tripResult.error.code });
+			return tripResult;
+		}
+		const trip = tripResult.value;
+
+		const driverResult = await this.driverRepository.findByUserId(input.userId);
+		if (!driverResult.success) {
+			return driverResult;
+		}
+		const driver = driverResult.value;
+		if (!driver) {
+			return err(new DriverNotFoundError(input.userId));
+		}
+		if (trip.driverRefId !== driver.refId) {
+			this.logger.warn('Ownership check failed for passenger rating', { tripId: input.tripId, userId: input.userId });
+			return err(new ForbiddenError('Trip', input.tripId));
+		}
+
+		const inscriptionResult = await this.inscriptionRepository.findById(input.inscriptionId);
+		if (!inscriptionResult.success) {
+			return inscriptionResult;
+		}
+		const inscription = inscriptionResult.value;
+		if (!inscription || inscription.tripRefId !== trip.refId) {
+			return err(new InscriptionNotFoundError(input.inscriptionId));
+		}
+		if (inscription.status !== 'ACTIVE') {
+			this.logger.warn('Passenger rating of an inscription that is not active', { inscriptionId: input.inscriptionId, status: inscription.status });
+			return err(new NotTripPassengerError(input.tripId));
+		}
+
+		const result = await recordReview(this.reviewRepository, input.tripId, {
+			tripRefId: trip.refId,
+			authorRefId: driver.userRefId,
+			subjectRefId: inscription.userRefId,
+			direction: 'DRIVER_TO_PASSENGER',
+			score: input.score,
+			comment: input.comment ?? null,
+		});
+		if (result.success) {
+			this.logger.info('Passenger rated', { tripId: input.tripId, reviewId: result.value.id, score: input.score });
+		}
+		return result;
+	}
+}
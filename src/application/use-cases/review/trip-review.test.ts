@@ -0,0 +1,99 @@
+/**
+ * @file Unit tests for the findCompletedTrip and recordReview helpers.
+ *
+ * Covers completed trips, trips not completed yet and missing trips,
+ * reviews recorded once, second reviews refused, and repository error
+ * propagation.
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockReviewRepository, createMockTripData, createMockTripRepository } from '../../../../tests/setup.js';
+import { AlreadyReviewedError, TripNotCompletedError, TripNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { findCompletedTrip, recordReview } from './trip-review.js';
+
+describe('findCompletedTrip', () => {
+	let tripRepository: ReturnType<typeof createMockTripRepository>;
+
+	beforeEach(() => {
+		tripRepository = createMockTripRepository();
+	});
+
+	it('should return a completed trip', async () => {
+		const trip = createMockTripData({ id: 'trip-1', status: 'COMPLETED' });
+		tripRepository.findById.mockResolvedValue(ok(trip));
+
+		const result = await findCompletedTrip(tripRepository, 'trip-1');
+
+		expect(result).toEqual(ok(trip));
+	});
+
+	it.each(['SCHEDULED', 'IN_PROGRESS', 'CANCELLED'])('should return TripNotCompletedError for a %s trip', async (status) => {
+		tripRepository.findById.mockResolvedValue(ok(createMockTripData({ status })));
+
+		const result = await findCompletedTrip(tripRepository, 'trip-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotCompletedError);
+	});
+
+	it('should return TripNotFoundError when the trip does not exist', async () => {
+		tripRepository.findById.mockResolvedValue(ok(null));
+
+		const result = await findCompletedTrip(tripRepository, 'trip-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotFoundError);
+	});
+
+	it('should propagate repository errors', async () => {
+		tripRepository.findById.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await findCompletedTrip(tripRepository, 'trip-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
+
+describe('recordReview', () => {
+	let reviewRepository: ReturnType<typeof createMockReviewRepository>;
+
+	const data = { tripRefId: 2, authorRefId: 5, subjectRefId: 7, direction: 'PASSENGER_TO_DRIVER' as const, score: 4, comment: null };
+
+	beforeEach(() => {
+		reviewRepository = createMockReviewRepository();
+		reviewRepository.exists.mockResolvedValue(ok(false));
+	});
+
+	it('should create the review when none was given yet', async () => {
+		const review = { ...data, id: 'review-1', createdAt: new Date() };
+		reviewRepository.create.mockResolvedValue(ok(review));
+
+		const result = await recordReview(reviewRepository, 'trip-1', data);
+
+		expect(result).toEqual(ok(review));
+		expect(reviewRepository.exists).toHaveBeenCalledWith(2, 5, 7);
+		expect(reviewRepository.create).toHaveBeenCalledWith(data);
+	});
+
+	it('should return AlreadyReviewedError for a second review', async () => {
+		reviewRepository.exists.mockResolvedValue(ok(true));
+
+		const result = await recordReview(reviewRepository, 'trip-1', data);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(AlreadyReviewedError);
+		expect(reviewRepository.create).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		reviewRepository.exists.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await recordReview(reviewRepository, 'trip-1', data);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
@@ -0,0 +1,65 @@
+/**
+ * @module trip-review
+ *
+ * Helpers shared by the rating use cases. A trip can only be reviewed once
+ * it is COMPLETED, and each author reviews each other participant at most
+ * once per trip.
+ */
+
+import type { CreateReviewData, ReviewEntity } from '../../../domain/entities/review.entity.js';
+import type { TripEntity } from '../../../domain/entities/trip.entity.js';
+import type { ReviewRepository } from '../../../domain/repositories/review.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import { AlreadyReviewedError, TripNotCompletedError, TripNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+
+/**
+ * Loads a trip and checks that it is completed.
+ *
+ * @param tripRepository - The trip repository.
+ * @param tripId - UUID of the trip.
+ * @returns The trip, TripNotFoundError when it does not exist, or
+ *          TripNotCompletedError while it is not COMPLETED (including cancelled trips).
+ */
+export async function findCompletedTrip(
+	tripRepository: TripRepository,
+	tripId: string,
+): Promise<Result<TripEntity, TripNotFoundError | TripNotCompletedError | RepositoryError>> {
+	const tripResult = await tripRepository.findById(tripId);
+	if (!tripResult.success) {
+		return tripResult;
+	}
+	const trip = tripResult.value;
+	if (!trip) {
+		return err(new TripNotFoundError(tripId));
+	}
+	if (trip.status !== 'COMPLETED') {
+		return err(new TripNotCompletedError(tripId));
+	}
+	return ok(trip);
+}
+
+/**
+ * Records a review unless the author already reviewed the same user for the trip.
+ *
+ * @param reviewRepository - The review repository.
+ * @param tripId - UUID of the trip, for the error message.
+ * @param data - The review to record.
+ * @returns The created review, or AlreadyReviewedError when it was already given.
+ */
+export async function recordReview(
+	reviewRepository: ReviewRepository,
+	tripId: string,
+	data: CreateReviewData,
+): Promise<Result<ReviewEntity, AlreadyReviewedError | RepositoryError>> {
+	const existsResult = await reviewRepository.exists(data.tripRefId, data.authorRefId, data.subjectRefId);
+	if (!existsResult.success) {
+		return existsResult;
+	}
+	if (existsResult.value) {
+		return err(new AlreadyReviewedError(tripId));
+	}
+	return reviewRepository.create(data);
+}
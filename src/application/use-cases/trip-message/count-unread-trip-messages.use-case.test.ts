@@ -0,0 +1,78 @@
+/**
+ * @file Unit tests for the CountUnreadTripMessagesUseCase.
+ *
+ * Covers the unread count of a participant, users who do not take part in
+ * the trip, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockDriverRepository,
+	createMockInscriptionData,
+	createMockInscriptionRepository,
+	createMockLogger,
+	createMockTripData,
+	createMockTripMessageRepository,
+	createMockTripRepository,
+	createMockUserData,
+	createMockUserRepository,
+} from '../../../../tests/setup.js';
+import { NotTripParticipantError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { CountUnreadTripMessagesUseCase } from './count-unread-trip-messages.use-case.js';
+
+describe('CountUnreadTripMessagesUseCase', () => {
+	let useCase: CountUnreadTripMessagesUseCase;
+	let mockMessageRepo: ReturnType<typeof createMockTripMessageRepository>;
+	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
+
+	beforeEach(() => {
+		mockMessageRepo = createMockTripMessageRepository();
+		mockInscriptionRepo = createMockInscriptionRepository();
+		const mockTripRepo = createMockTripRepository();
+		const mockUserRepo = createMockUserRepository();
+		const mockDriverRepo = createMockDriverRepository();
+		container.registerInstance(TOKENS.TripMessageRepository, mockMessageRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.UserRepository, mockUserRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(CountUnreadTripMessagesUseCase);
+
+		mockTripRepo.findById.mockResolvedValue(ok(createMockTripData({ id: 'trip-1', refId: 2, driverRefId: 10 })));
+		mockUserRepo.findById.mockResolvedValue(ok(createMockUserData({ id: 'user-1', refId: 5 })));
+		mockDriverRepo.findByUserRefId.mockResolvedValue(ok(null));
+		mockInscriptionRepo.findByTripRefId.mockResolvedValue(ok([createMockInscriptionData({ userRefId: 5, tripRefId: 2, status: 'ACTIVE' })]));
+		mockMessageRepo.countUnread.mockResolvedValue(ok(3));
+	});
+
+	it('should count the unread messages of a participant', async () => {
+		const result = await useCase.execute('trip-1', 'user-1');
+
+		expect(result).toEqual(ok({ tripId: 'trip-1', unreadCount: 3 }));
+		expect(mockMessageRepo.countUnread).toHaveBeenCalledWith(5, 2);
+	});
+
+	it('should refuse a user who does not take part in the trip', async () => {
+		mockInscriptionRepo.findByTripRefId.mockResolvedValue(ok([]));
+
+		const result = await useCase.execute('trip-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(NotTripParticipantError);
+		expect(mockMessageRepo.countUnread).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		mockMessageRepo.countUnread.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute('trip-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
@@ -0,0 +1,104 @@
+/**
+ * @module CountUnreadTripMessagesUseCase
+ *
+ * Counts the messages of a trip's conversation that a participant has not
+ * read yet, e.g. to show a badge on the trip. Messages posted by the
+ * participant themselves and hidden messages are never unread.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { TripMessageRepository } from '../../../domain/repositories/trip-message.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import type { NotTripParticipantError, TripNotFoundError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import { findTripParticipant } from './trip-participant.js';
+
+/**
+ * Union of all possible error types returned by the count unread trip messages use case.
+ *
+ * - {@link TripNotFoundError} - No trip exists with the given UUID
+ * - {@link UserNotFoundError} - The authenticated user does not exist or was anonymized
+ * - {@link NotTripParticipantError} - The user neither drives the trip nor is booked on it
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type CountUnreadTripMessagesError = TripNotFoundError | UserNotFoundError | NotTripParticipantError | RepositoryError;
+
+/**
+ * The unread messages of a participant in the conversation of a trip.
+ *
+ * @property tripId - UUID of the trip
+ * @property unreadCount - Number of messages posted by others since the participant last read the conversation
+ */
+export type TripMessageUnreadCount = {
+	tripId: string;
+	unreadCount: number;
+};
+
+/**
+ * Counts the unread messages of a participant of the trip.
+ *
+ * Business flow:
+ * 1. Look up the trip and verify the user drives it or holds an ACTIVE booking on it
+ * 2. Count the visible messages of others posted since the user last read the conversation
+ *
+ * @dependencies TripMessageRepository, TripRepository, UserRepository, DriverRepository, InscriptionRepository
+ */
+@injectable()
+export class CountUnreadTripMessagesUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripMessageRepository)
+		private readonly tripMessageRepository: TripMessageRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.InscriptionRepository)
+		private readonly inscriptionRepository: InscriptionRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'CountUnreadTripMessagesUseCase' });
+	}
+
+	/**
+	 * Counts the user's unread messages in the trip's conversation.
+	 *
+	 * @param tripId - UUID of the trip
+	 * @param userId - UUID of the authenticated user
+	 * @returns A Result containing the TripMessageUnreadCount on success,
+	 *          or a CountUnreadTripMessagesError on failure
+	 */
+	async execute(tripId: string, userId: string): Promise<Result<TripMessageUnreadCount, CountUnreadTripMessagesError>> {
+		const participantResult = await findTripParticipant(
+			{
+				tripRepository: this.tripRepository,
+				userRepository: this.userRepository,
+				driverRepository: this.driverRepository,
+				inscriptionRepository: this.inscriptionRepository,
+			},
+			tripId,
+			userId,
+		);
+		if (!participantResult.success) {
+			this.logger.warn('Trip messages access denied', { tripId, userId, errorCode: participantResult.error.code });
+			return participantResult;
+		}
+		const { trip, user } = participantResult.value;
+
+		const countResult = await this.tripMessageRepository.countUnread(user.refId, trip.refId);
+		if (!countResult.success) {
+			return countResult;
+		}
+		return ok({ tripId, unreadCount: countResult.value });
+	}
+}
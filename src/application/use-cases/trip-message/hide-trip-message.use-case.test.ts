@@ -0,0 +1,93 @@
+/**
+ * @file Unit tests for the HideTripMessageUseCase.
+ *
+ * Covers hiding a message, messages already hidden, unknown trips, messages
+ * that belong to another trip, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockLogger, createMockTripData, createMockTripMessageRepository, createMockTripRepository } from '../../../../tests/setup.js';
+import { TripMessageNotFoundError, TripNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { HideTripMessageUseCase } from './hide-trip-message.use-case.js';
+
+describe('HideTripMessageUseCase', () => {
+	let useCase: HideTripMessageUseCase;
+	let mockMessageRepo: ReturnType<typeof createMockTripMessageRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+
+	const message = { id: 'message-1', tripRefId: 2, authorRefId: 5, body: 'Call me on 06...', createdAt: new Date(), hiddenAt: null };
+
+	beforeEach(() => {
+		mockMessageRepo = createMockTripMessageRepository();
+		mockTripRepo = createMockTripRepository();
+		container.registerInstance(TOKENS.TripMessageRepository, mockMessageRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(HideTripMessageUseCase);
+
+		mockTripRepo.findById.mockResolvedValue(ok(createMockTripData({ id: 'trip-1', refId: 2 })));
+		mockMessageRepo.findById.mockResolvedValue(ok(message));
+	});
+
+	it('should hide the message', async () => {
+		const hidden = { ...message, hiddenAt: new Date() };
+		mockMessageRepo.hide.mockResolvedValue(ok(hidden));
+
+		const result = await useCase.execute('trip-1', 'message-1');
+
+		expect(result).toEqual(ok(hidden));
+		expect(mockMessageRepo.hide).toHaveBeenCalledWith('message-1', expect.any(Date));
+	});
+
+	// Hiding is idempotent: the first hiding time is kept
+	it('should return a message already hidden unchanged', async () => {
+		const hidden = { ...message, hiddenAt: new Date('2026-10-01') };
+		mockMessageRepo.findById.mockResolvedValue(ok(hidden));
+
+		const result = await useCase.execute('trip-1', 'message-1');
+
+		expect(result).toEqual(ok(hidden));
+		expect(mockMessageRepo.hide).not.toHaveBeenCalled();
+	});
+
+	it('should return TripNotFoundError when the trip does not exist', async () => {
+		mockTripRepo.findById.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute('trip-1', 'message-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotFoundError);
+	});
+
+	it('should return TripMessageNotFoundError for a message of another trip', async () => {
+		mockMessageRepo.findById.mockResolvedValue(ok({ ...message, tripRefId: 3 }));
+
+		const result = await useCase.execute('trip-1', 'message-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripMessageNotFoundError);
+		expect(mockMessageRepo.hide).not.toHaveBeenCalled();
+	});
+
+	it('should return TripMessageNotFoundError for an unknown message', async () => {
+		mockMessageRepo.findById.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute('trip-1', 'message-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripMessageNotFoundError);
+	});
+
+	it('should propagate repository errors', async () => {
+		mockMessageRepo.hide.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute('trip-1', 'message-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
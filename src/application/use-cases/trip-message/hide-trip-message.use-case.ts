@@ -0,0 +1,90 @@
+/**
+ * @module HideTripMessageUseCase
+ *
+ * Lets an admin hide a message from the conversation of a trip, e.g. when it
+ * is abusive or shares personal contact details. Hidden messages are kept for
+ * moderation: admins still list them, participants no longer see them and
+ * they no longer count as unread.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripMessageEntity } from '../../../domain/entities/trip-message.entity.js';
+import type { TripMessageRepository } from '../../../domain/repositories/trip-message.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import { TripMessageNotFoundError, TripNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+
+/**
+ * Union of all possible error types returned by the hide trip message use case.
+ *
+ * - {@link TripNotFoundError} - No trip exists with the given UUID
+ * - {@link TripMessageNotFoundError} - No message with this UUID exists on the trip
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type HideTripMessageError = TripNotFoundError | TripMessageNotFoundError | RepositoryError;
+
+/**
+ * Hides a message of a trip's conversation.
+ *
+ * Business flow:
+ * 1. Look up the trip by UUID
+ * 2. Look up the message and verify it belongs to the trip
+ * 3. Hide it; a message already hidden is returned unchanged
+ *
+ * @dependencies TripMessageRepository, TripRepository
+ */
+@injectable()
+export class HideTripMessageUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripMessageRepository)
+		private readonly tripMessageRepository: TripMessageRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'HideTripMessageUseCase' });
+	}
+
+	/**
+	 * Hides the message identified by the given UUIDs.
+	 *
+	 * @param tripId - UUID of the trip
+	 * @param messageId - UUID of the message
+	 * @returns A Result containing the hidden TripMessageEntity on success,
+	 *          or a HideTripMessageError on failure
+	 */
+	async execute(tripId: string, messageId: string): Promise<Result<TripMessageEntity, HideTripMessageError>> {
+		const tripResult = await this.tripRepository.findById(tripId);
+		if (!tripResult.success) {
+			return tripResult;
+		}
+		if (!tripResult.value) {
+			return err(new TripNotFoundError(tripId));
+		}
+
+		const messageResult = await this.tripMessageRepository.findById(messageId);
+		if (!messageResult.success) {
+			return messageResult;
+		}
+		const message = messageResult.value;
+		if (!message || message.tripRefId !== tripResult.value.refId) {
+			this.logger.warn('Message not found on trip for moderation', { tripId, messageId });
+			return err(new TripMessageNotFoundError(messageId));
+		}
+		if (message.hiddenAt) {
+			return ok(message);
+		}
+
+		const result = await this.tripMessageRepository.hide(messageId, new Date());
+		if (result.success) {
+			this.logger.info('Trip message hidden', { tripId, messageId });
+		}
+		return result;
+	}
+}
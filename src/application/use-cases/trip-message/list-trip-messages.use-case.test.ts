@@ -0,0 +1,126 @@
+/**
+ * @file Unit tests for the ListTripMessagesUseCase.
+ *
+ * Covers the paginated conversation listed to participants and marked as read,
+ * the moderation view of admins with hidden messages and no read marker,
+ * users who do not take part in the trip, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	createMockDriverRepository,
+	createMockInscriptionRepository,
+	createMockLogger,
+	createMockTripData,
+	createMockTripMessageRepository,
+	createMockTripRepository,
+	createMockUserData,
+	createMockUserRepository,
+} from '../../../../tests/setup.js';
+import { NotTripParticipantError, TripNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { ListTripMessagesUseCase } from './list-trip-messages.use-case.js';
+
+describe('ListTripMessagesUseCase', () => {
+	let useCase: ListTripMessagesUseCase;
+	let mockMessageRepo: ReturnType<typeof createMockTripMessageRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockUserRepo: ReturnType<typeof createMockUserRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
+
+	const now = new Date('2026-10-18T10:00:00Z');
+	const trip = createMockTripData({ id: 'trip-1', refId: 2, driverRefId: 10 });
+	const user = createMockUserData({ id: 'user-1', refId: 5 });
+	const message = { id: 'message-1', tripRefId: 2, authorRefId: 6, body: 'On my way', createdAt: now, hiddenAt: null };
+	const input = { tripId: 'trip-1', userId: 'user-1', role: 'USER' };
+	const pagination = { page: 2, limit: 10 };
+
+	beforeEach(() => {
+		vi.useFakeTimers({ now });
+		mockMessageRepo = createMockTripMessageRepository();
+		mockTripRepo = createMockTripRepository();
+		mockUserRepo = createMockUserRepository();
+		mockDriverRepo = createMockDriverRepository();
+		mockInscriptionRepo = createMockInscriptionRepository();
+		container.registerInstance(TOKENS.TripMessageRepository, mockMessageRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.UserRepository, mockUserRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(ListTripMessagesUseCase);
+
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockDriverRepo.findByUserRefId.mockResolvedValue(ok({ id: 'driver-1', refId: 10 }));
+		mockMessageRepo.findByTripRefId.mockResolvedValue(ok({ data: [message], total: 11 }));
+		mockMessageRepo.markRead.mockResolvedValue(ok(undefined));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should list the visible messages to a participant and mark them as read', async () => {
+		const result = await useCase.execute(input, pagination);
+
+		expect(result).toEqual(ok({ data: [message], meta: { page: 2, limit: 10, total: 11, totalPages: 2 } }));
+		expect(mockMessageRepo.findByTripRefId).toHaveBeenCalledWith(2, { includeHidden: false }, { skip: 10, take: 10 });
+		expect(mockMessageRepo.markRead).toHaveBeenCalledWith(5, 2, now);
+	});
+
+	it('should refuse a user who does not take part in the trip', async () => {
+		mockDriverRepo.findByUserRefId.mockResolvedValue(ok(null));
+		mockInscriptionRepo.findByTripRefId.mockResolvedValue(ok([]));
+
+		const result = await useCase.execute(input, pagination);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(NotTripParticipantError);
+		expect(mockMessageRepo.findByTripRefId).not.toHaveBeenCalled();
+	});
+
+	it('should not mark the conversation as read when it cannot be listed', async () => {
+		mockMessageRepo.findByTripRefId.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute(input, pagination);
+
+		expect(result.success).toBe(false);
+		expect(mockMessageRepo.markRead).not.toHaveBeenCalled();
+	});
+
+	it('should propagate a failure to mark the conversation as read', async () => {
+		mockMessageRepo.markRead.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute(input, pagination);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+
+	describe('as an admin', () => {
+		const adminInput = { ...input, role: 'ADMIN' };
+
+		it('should list every message, hidden ones included, without marking them as read', async () => {
+			const result = await useCase.execute(adminInput, pagination);
+
+			expect(result.success).toBe(true);
+			expect(mockMessageRepo.findByTripRefId).toHaveBeenCalledWith(2, { includeHidden: true }, { skip: 10, take: 10 });
+			expect(mockMessageRepo.markRead).not.toHaveBeenCalled();
+			expect(mockUserRepo.findById).not.toHaveBeenCalled();
+		});
+
+		it('should return TripNotFoundError when the trip does not exist', async () => {
+			mockTripRepo.findById.mockResolvedValue(ok(null));
+
+			const result = await useCase.execute(adminInput, pagination);
+
+			expect(result.success).toBe(false);
+			if (!result.success) expect(result.error).toBeInstanceOf(TripNotFoundError);
+		});
+	});
+});
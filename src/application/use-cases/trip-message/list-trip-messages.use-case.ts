@@ -0,0 +1,143 @@
+/**
+ * @module ListTripMessagesUseCase
+ *
+ * Lists the conversation of a trip, newest first. Participants (the driver
+ * and the passengers with an ACTIVE booking) see the visible messages, and
+ * reading the conversation marks it as read for them. Admins can read any
+ * conversation for moderation, hidden messages included, without marking it
+ * as read.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripMessageEntity } from '../../../domain/entities/trip-message.entity.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { TripMessageRepository } from '../../../domain/repositories/trip-message.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import { type NotTripParticipantError, TripNotFoundError, type UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { type PaginatedResult, type PaginationParams, buildPaginationMeta, toSkipTake } from '../../../lib/shared/utils/pagination.util.js';
+import { findTripParticipant } from './trip-participant.js';
+
+/**
+ * Union of all possible error types returned by the list trip messages use case.
+ *
+ * - {@link TripNotFoundError} - No trip exists with the given UUID
+ * - {@link UserNotFoundError} - The authenticated user does not exist or was anonymized
+ * - {@link NotTripParticipantError} - The user neither drives the trip nor is booked on it, and is not an admin
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type ListTripMessagesError = TripNotFoundError | UserNotFoundError | NotTripParticipantError | RepositoryError;
+
+/**
+ * Input for the list trip messages use case.
+ *
+ * @property tripId - UUID of the trip
+ * @property userId - UUID of the authenticated user
+ * @property role - Role of the authenticated user; admins read any conversation
+ */
+export type ListTripMessagesInput = {
+	tripId: string;
+	userId: string;
+	role: string;
+};
+
+/**
+ * Returns a page of the conversation of a trip, newest first, with metadata.
+ *
+ * Business flow:
+ * 1. Admins: look up the trip and list every message, hidden ones included
+ * 2. Others: verify the user drives the trip or holds an ACTIVE booking on it,
+ *    list the visible messages and mark the conversation as read
+ *
+ * @dependencies TripMessageRepository, TripRepository, UserRepository, DriverRepository, InscriptionRepository
+ */
+@injectable()
+export class ListTripMessagesUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripMessageRepository)
+		private readonly tripMessageRepository: TripMessageRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.InscriptionRepository)
+		private readonly inscriptionRepository: InscriptionRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ListTripMessagesUseCase' });
+	}
+
+	/**
+	 * Fetches a page of the trip's conversation.
+	 *
+	 * @param input - Trip UUID and the authenticated user's id and role
+	 * @param pagination - Page and limit parameters
+	 * @returns A Result containing a PaginatedResult with the messages and pagination meta,
+	 *          or a ListTripMessagesError on failure
+	 */
+	async execute(input: ListTripMessagesInput, pagination: PaginationParams): Promise<Result<PaginatedResult<TripMessageEntity>, ListTripMessagesError>> {
+		if (input.role === 'ADMIN') {
+			return this.moderate(input.tripId, pagination);
+		}
+
+		const participantResult = await findTripParticipant(
+			{
+				tripRepository: this.tripRepository,
+				userRepository: this.userRepository,
+				driverRepository: this.driverRepository,
+				inscriptionRepository: this.inscriptionRepository,
+			},
+			input.tripId,
+			input.userId,
+		);
+		if (!participantResult.success) {
+			this.logger.warn('Trip messages access denied', { tripId: input.tripId, userId: input.userId, errorCode: participantResult.error.code });
+			return participantResult;
+		}
+		const { trip, user } = participantResult.value;
+
+		// Read before listing, so that a message posted meanwhile stays unread
+		const readAt = new Date();
+		const listResult = await this.tripMessageRepository.findByTripRefId(trip.refId, { includeHidden: false }, toSkipTake(pagination));
+		if (!listResult.success) {
+			return listResult;
+		}
+		const markResult = await this.tripMessageRepository.markRead(user.refId, trip.refId, readAt);
+		if (!markResult.success) {
+			return markResult;
+		}
+
+		const { data, total } = listResult.value;
+		this.logger.info('Listed trip messages', { tripId: input.tripId, count: data.length, total });
+		return ok({ data, meta: buildPaginationMeta(pagination, total) });
+	}
+
+	/** Lists every message of a trip, hidden ones included, for an admin. */
+	private async moderate(tripId: string, pagination: PaginationParams): Promise<Result<PaginatedResult<TripMessageEntity>, TripNotFoundError | RepositoryError>> {
+		const tripResult = await this.tripRepository.findById(tripId);
+		if (!tripResult.success) {
+			return tripResult;
+		}
+		if (!tripResult.value) {
+			return err(new TripNotFoundError(tripId));
+		}
+
+		const listResult = await this.tripMessageRepository.findByTripRefId(tripResult.value.refId, { includeHidden: true }, toSkipTake(pagination));
+		if (!listResult.success) {
+			return listResult;
+		}
+		const { data, total } = listResult.value;
+		this.logger.info('Listed trip messages for moderation', { tripId, count: data.length, total });
+		return ok({ data, meta: buildPaginationMeta(pagination, total) });
+	}
+}
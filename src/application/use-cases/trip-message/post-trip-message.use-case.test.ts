@@ -0,0 +1,104 @@
+/**
+ * @file Unit tests for the PostTripMessageUseCase.
+ *
+ * Covers posting as the driver or a booked passenger, users who do not take
+ * part in the trip, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockDriverRepository,
+	createMockInscriptionData,
+	createMockInscriptionRepository,
+	createMockLogger,
+	createMockTripData,
+	createMockTripMessageRepository,
+	createMockTripRepository,
+	createMockUserData,
+	createMockUserRepository,
+} from '../../../../tests/setup.js';
+import { NotTripParticipantError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { PostTripMessageUseCase } from './post-trip-message.use-case.js';
+
+describe('PostTripMessageUseCase', () => {
+	let useCase: PostTripMessageUseCase;
+	let mockMessageRepo: ReturnType<typeof createMockTripMessageRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockUserRepo: ReturnType<typeof createMockUserRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
+
+	const trip = createMockTripData({ id: 'trip-1', refId: 2, driverRefId: 10 });
+	const user = createMockUserData({ id: 'user-1', refId: 5 });
+	const input = { tripId: 'trip-1', userId: 'user-1', body: 'Where do we meet?' };
+	const message = {
+		id: 'message-1',
+		tripRefId: 2,
+		authorRefId: 5,
+		author: { id: 'user-1', firstName: 'John', lastName: 'Doe' },
+		body: 'Where do we meet?',
+		createdAt: new Date(),
+		hiddenAt: null,
+	};
+
+	beforeEach(() => {
+		mockMessageRepo = createMockTripMessageRepository();
+		mockTripRepo = createMockTripRepository();
+		mockUserRepo = createMockUserRepository();
+		mockDriverRepo = createMockDriverRepository();
+		mockInscriptionRepo = createMockInscriptionRepository();
+		container.registerInstance(TOKENS.TripMessageRepository, mockMessageRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.UserRepository, mockUserRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(PostTripMessageUseCase);
+
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockDriverRepo.findByUserRefId.mockResolvedValue(ok(null));
+		mockInscriptionRepo.findByTripRefId.mockResolvedValue(ok([createMockInscriptionData({ userRefId: 5, tripRefId: 2, status: 'ACTIVE' })]));
+		mockMessageRepo.create.mockResolvedValue(ok(message));
+	});
+
+	it('should post the message of a booked passenger', async () => {
+		const result = await useCase.execute(input);
+
+		expect(result).toEqual(ok(message));
+		expect(mockMessageRepo.create).toHaveBeenCalledWith({ tripRefId: 2, authorRefId: 5, body: 'Where do we meet?' });
+	});
+
+	it('should post the message of the driver', async () => {
+		mockDriverRepo.findByUserRefId.mockResolvedValue(ok({ id: 'driver-1', refId: 10 }));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(true);
+		expect(mockMessageRepo.create).toHaveBeenCalled();
+	});
+
+	// Pending requests do not give access to the conversation
+	it('should refuse a passenger whose booking is pending', async () => {
+		mockInscriptionRepo.findByTripRefId.mockResolvedValue(ok([createMockInscriptionData({ userRefId: 5, tripRefId: 2, status: 'PENDING' })]));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(NotTripParticipantError);
+		expect(mockMessageRepo.create).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		mockMessageRepo.create.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
@@ -0,0 +1,106 @@
+/**
+ * @module PostTripMessageUseCase
+ *
+ * Posts a message in the conversation of a trip, so that its driver and
+ * passengers can agree on the details of the journey (meeting point, luggage,
+ * delays) without exchanging phone numbers. Only the driver and the passengers
+ * with an ACTIVE booking can post.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripMessageEntity } from '../../../domain/entities/trip-message.entity.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { TripMessageRepository } from '../../../domain/repositories/trip-message.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import type { NotTripParticipantError, TripNotFoundError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { findTripParticipant } from './trip-participant.js';
+
+/**
+ * Union of all possible error types returned by the post trip message use case.
+ *
+ * - {@link TripNotFoundError} - No trip exists with the given UUID
+ * - {@link UserNotFoundError} - The authenticated user does not exist or was anonymized
+ * - {@link NotTripParticipantError} - The user neither drives the trip nor is booked on it
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type PostTripMessageError = TripNotFoundError | UserNotFoundError | NotTripParticipantError | RepositoryError;
+
+/**
+ * Input for the post trip message use case.
+ *
+ * @property tripId - UUID of the trip
+ * @property userId - UUID of the authenticated user
+ * @property body - The text of the message
+ */
+export type PostTripMessageInput = {
+	tripId: string;
+	userId: string;
+	body: string;
+};
+
+/**
+ * Posts a message on behalf of a participant of the trip.
+ *
+ * Business flow:
+ * 1. Look up the trip and verify the user drives it or holds an ACTIVE booking on it
+ * 2. Store the message
+ *
+ * @dependencies TripMessageRepository, TripRepository, UserRepository, DriverRepository, InscriptionRepository
+ */
+@injectable()
+export class PostTripMessageUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripMessageRepository)
+		private readonly tripMessageRepository: TripMessageRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.InscriptionRepository)
+		private readonly inscriptionRepository: InscriptionRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'PostTripMessageUseCase' });
+	}
+
+	/**
+	 * Posts the message in the trip's conversation.
+	 *
+	 * @param input - Trip UUID, the authenticated userId and the text of the message
+	 * @returns A Result containing the created TripMessageEntity on success,
+	 *          or a PostTripMessageError on failure
+	 */
+	async execute(input: PostTripMessageInput): Promise<Result<TripMessageEntity, PostTripMessageError>> {
+		const participantResult = await findTripParticipant(
+			{
+				tripRepository: this.tripRepository,
+				userRepository: this.userRepository,
+				driverRepository: this.driverRepository,
+				inscriptionRepository: this.inscriptionRepository,
+			},
+			input.tripId,
+			input.userId,
+		);
+		if (!participantResult.success) {
+			this.logger.warn('Trip message rejected', { tripId: input.tripId, userId: input.userId, errorCode: participantResult.error.code });
+			return participantResult;
+		}
+		const { trip, user, role } = participantResult.value;
+
+		const result = await this.tripMessageRepository.create({ tripRefId: trip.refId, authorRefId: user.refId, body: input.body });
+		if (result.success) {
+			this.logger.info('Trip message posted', { tripId: input.tripId, messageId: result.value.id, role });
+		}
+		return result;
+	}
+}
@@ -0,0 +1,118 @@
+/**
+ * @file Unit tests for the findTripParticipant helper.
+ *
+ * Covers the driver and the passengers with an ACTIVE booking being let in,
+ * pending, rejected and cancelled bookings and strangers being turned away,
+ * missing trips and users, and repository error propagation.
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockDriverRepository,
+	createMockInscriptionData,
+	createMockInscriptionRepository,
+	createMockTripData,
+	createMockTripRepository,
+	createMockUserData,
+	createMockUserRepository,
+} from '../../../../tests/setup.js';
+import { NotTripParticipantError, TripNotFoundError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { findTripParticipant } from './trip-participant.js';
+
+describe('findTripParticipant', () => {
+	let deps: {
+		tripRepository: ReturnType<typeof createMockTripRepository>;
+		userRepository: ReturnType<typeof createMockUserRepository>;
+		driverRepository: ReturnType<typeof createMockDriverRepository>;
+		inscriptionRepository: ReturnType<typeof createMockInscriptionRepository>;
+	};
+
+	const trip = createMockTripData({ id: 'trip-1', refId: 2, driverRefId: 10 });
+	const user = createMockUserData({ id: 'user-1', refId: 5 });
+
+	beforeEach(() => {
+		deps = {
+			tripRepository: createMockTripRepository(),
+			userRepository: createMockUserRepository(),
+			driverRepository: createMockDriverRepository(),
+			inscriptionRepository: createMockInscriptionRepository(),
+		};
+		deps.tripRepository.findById.mockResolvedValue(ok(trip));
+		deps.userRepository.findById.mockResolvedValue(ok(user));
+		deps.driverRepository.findByUserRefId.mockResolvedValue(ok(null));
+		deps.inscriptionRepository.findByTripRefId.mockResolvedValue(ok([createMockInscriptionData({ userRefId: 5, tripRefId: 2, status: 'ACTIVE' })]));
+	});
+
+	it('should let the driver of the trip in', async () => {
+		deps.driverRepository.findByUserRefId.mockResolvedValue(ok({ id: 'driver-1', refId: 10 }));
+
+		const result = await findTripParticipant(deps, 'trip-1', 'user-1');
+
+		expect(result).toEqual(ok({ trip, user, role: 'DRIVER' }));
+		expect(deps.inscriptionRepository.findByTripRefId).not.toHaveBeenCalled();
+	});
+
+	it('should let a passenger with an active booking in', async () => {
+		const result = await findTripParticipant(deps, 'trip-1', 'user-1');
+
+		expect(result).toEqual(ok({ trip, user, role: 'PASSENGER' }));
+		expect(deps.inscriptionRepository.findByTripRefId).toHaveBeenCalledWith(2);
+	});
+
+	// A driver of other trips is only a passenger here
+	it('should check the bookings of a driver who does not drive this trip', async () => {
+		deps.driverRepository.findByUserRefId.mockResolvedValue(ok({ id: 'driver-2', refId: 11 }));
+
+		const result = await findTripParticipant(deps, 'trip-1', 'user-1');
+
+		expect(result.success && result.value.role).toBe('PASSENGER');
+	});
+
+	it.each(['PENDING', 'REJECTED', 'CANCELLED'])('should turn away a passenger whose booking is %s', async (status) => {
+		deps.inscriptionRepository.findByTripRefId.mockResolvedValue(ok([createMockInscriptionData({ userRefId: 5, tripRefId: 2, status })]));
+
+		const result = await findTripParticipant(deps, 'trip-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(NotTripParticipantError);
+	});
+
+	it('should turn away a user without a booking', async () => {
+		deps.inscriptionRepository.findByTripRefId.mockResolvedValue(ok([createMockInscriptionData({ userRefId: 6, tripRefId: 2, status: 'ACTIVE' })]));
+
+		const result = await findTripParticipant(deps, 'trip-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(NotTripParticipantError);
+	});
+
+	it('should return TripNotFoundError when the trip does not exist', async () => {
+		deps.tripRepository.findById.mockResolvedValue(ok(null));
+
+		const result = await findTripParticipant(deps, 'trip-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotFoundError);
+		expect(deps.userRepository.findById).not.toHaveBeenCalled();
+	});
+
+	it('should return UserNotFoundError when the user was anonymized', async () => {
+		deps.userRepository.findById.mockResolvedValue(ok({ ...user, anonymizedAt: new Date() }));
+
+		const result = await findTripParticipant(deps, 'trip-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(UserNotFoundError);
+	});
+
+	it('should propagate repository errors', async () => {
+		deps.inscriptionRepository.findByTripRefId.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await findTripParticipant(deps, 'trip-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
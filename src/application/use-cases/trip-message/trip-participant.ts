@@ -0,0 +1,92 @@
+/**
+ * @module trip-participant
+ *
+ * Helper shared by the trip message use cases. The conversation of a trip is
+ * restricted to its driver and the passengers whose booking is ACTIVE: pending,
+ * rejected and cancelled requests do not give access to it.
+ */
+
+import type { TripEntity } from '../../../domain/entities/trip.entity.js';
+import type { PublicUserEntity } from '../../../domain/entities/user.entity.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import { NotTripParticipantError, TripNotFoundError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+
+/**
+ * A participant in the conversation of a trip.
+ *
+ * @property trip - The trip.
+ * @property user - The participant's profile.
+ * @property role - Whether the participant drives the trip or is booked on it.
+ */
+export type TripParticipant = {
+	trip: TripEntity;
+	user: PublicUserEntity;
+	role: 'DRIVER' | 'PASSENGER';
+};
+
+/** Repositories needed to check who takes part in a trip. */
+export type TripParticipantDependencies = {
+	tripRepository: TripRepository;
+	userRepository: UserRepository;
+	driverRepository: DriverRepository;
+	inscriptionRepository: InscriptionRepository;
+};
+
+/**
+ * Loads a trip and checks that the signed-in user drives it or is booked on it.
+ *
+ * @param deps - The trip, user, driver and inscription repositories.
+ * @param tripId - UUID of the trip.
+ * @param userId - UUID of the signed-in user.
+ * @returns The trip, the user and their role, TripNotFoundError when the trip does
+ *          not exist, UserNotFoundError when the user does not exist or was
+ *          anonymized, or NotTripParticipantError when the user neither drives the
+ *          trip nor holds an ACTIVE booking on it.
+ */
+export async function findTripParticipant(
+	deps: TripParticipantDependencies,
+	tripId: string,
+	userId: string,
+): Promise<Result<TripParticipant, TripNotFoundError | UserNotFoundError | NotTripParticipantError | RepositoryError>> {
+	const tripResult = await deps.tripRepository.findById(tripId);
+	if (!tripResult.success) {
+		return tripResult;
+	}
+	const trip = tripResult.value;
+	if (!trip) {
+		return err(new TripNotFoundError(tripId));
+	}
+
+	const userResult = await deps.userRepository.findById(userId);
+	if (!userResult.success) {
+		return userResult;
+	}
+	const user = userResult.value;
+	if (!user || user.anonymizedAt !== null) {
+		return err(new UserNotFoundError(userId));
+	}
+
+	const driverResult = await deps.driverRepository.findByUserRefId(user.refId);
+	if (!driverResult.success) {
+		return driverResult;
+	}
+	if (driverResult.value && driverResult.value.refId === trip.driverRefId) {
+		return ok({ trip, user, role: 'DRIVER' });
+	}
+
+	const inscriptionsResult = await deps.inscriptionRepository.findByTripRefId(trip.refId);
+	if (!inscriptionsResult.success) {
+		return inscriptionsResult;
+	}
+	const booked = inscriptionsResult.value.some((inscription) => inscription.userRefId === user.refId && inscription.status === 'ACTIVE');
+	if (!booked) {
+		return err(new NotTripParticipantError(tripId));
+	}
+	return ok({ trip, user, role: 'PASSENGER' });
+}
@@ -0,0 +1,138 @@
+/**
+ * @file Unit tests for the CreateTripSeriesUseCase.
+ *
+ * Covers the creation of a series with its recurrence, the default price,
+ * the materialization of its first occurrences (whose failure does not fail
+ * the creation), unknown drivers and cars, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	createMockCarRepository,
+	createMockCityRepository,
+	createMockDriverData,
+	createMockDriverRepository,
+	createMockLogger,
+	createMockTripConfig,
+	createMockTripSeriesData,
+	createMockTripSeriesRepository,
+} from '../../../../tests/setup.js';
+import { CarNotFoundError, DriverNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { CreateTripSeriesUseCase } from './create-trip-series.use-case.js';
+import { MaterializeTripSeriesUseCase } from './materialize-trip-series.use-case.js';
+
+describe('CreateTripSeriesUseCase', () => {
+	let useCase: CreateTripSeriesUseCase;
+	let mockTripSeriesRepo: ReturnType<typeof createMockTripSeriesRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+	let mockCarRepo: ReturnType<typeof createMockCarRepository>;
+	let mockCityRepo: ReturnType<typeof createMockCityRepository>;
+	let materialize: ReturnType<typeof vi.fn>;
+
+	const series = createMockTripSeriesData();
+	const input = {
+		userId: 'user-1',
+		daysOfWeek: [5, 1, 3],
+		departureTime: '07:45',
+		startDate: '2026-10-19',
+		endDate: '2027-06-30',
+		exceptions: ['2026-11-11'],
+		kms: 60,
+		seats: 3,
+		carId: 'car-1',
+		departureCity: 'Paris',
+		arrivalCity: 'Lyon',
+	};
+
+	beforeEach(() => {
+		mockTripSeriesRepo = createMockTripSeriesRepository();
+		mockDriverRepo = createMockDriverRepository();
+		mockCarRepo = createMockCarRepository();
+		mockCityRepo = createMockCityRepository();
+		materialize = vi.fn().mockResolvedValue(ok(3));
+		container.registerInstance(TOKENS.TripSeriesRepository, mockTripSeriesRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.CarRepository, mockCarRepo);
+		container.registerInstance(TOKENS.CityRepository, mockCityRepo);
+		container.registerInstance(MaterializeTripSeriesUseCase, { materialize } as unknown as MaterializeTripSeriesUseCase);
+		container.registerInstance(TOKENS.TripConfig, createMockTripConfig());
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(CreateTripSeriesUseCase);
+
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 10 })));
+		mockCarRepo.findById.mockResolvedValue(ok({ id: 'car-1', refId: 20, licensePlate: 'XX-123-YY', modelRefId: 1, driverRefId: 10 }));
+		mockCityRepo.findByCityName
+			.mockResolvedValueOnce(ok({ id: 'city-1', refId: 30, cityName: 'Paris', zipcode: '75000' }))
+			.mockResolvedValueOnce(ok({ id: 'city-2', refId: 31, cityName: 'Lyon', zipcode: '69000' }));
+		mockTripSeriesRepo.create.mockResolvedValue(ok(series));
+	});
+
+	it('should create the series and materialize its first occurrences', async () => {
+		const result = await useCase.execute(input);
+
+		expect(result).toEqual(ok(series));
+		expect(mockTripSeriesRepo.create).toHaveBeenCalledWith({
+			daysOfWeek: [1, 3, 5],
+			departureTime: '07:45',
+			// Midnight in Paris
+			startDate: new Date('2026-10-18T22:00:00Z'),
+			endDate: new Date('2027-06-29T22:00:00Z'),
+			exceptionDates: [new Date('2026-11-10T23:00:00Z')],
+			kms: 60,
+			seats: 3,
+			pricePerSeat: 350,
+			requiresApproval: false,
+			cityRefIds: [30, 31],
+			driverRefId: 10,
+			carRefId: 20,
+		});
+		expect(materialize).toHaveBeenCalledWith(series, expect.any(Date));
+	});
+
+	it('should create an open-ended series at the price set by the driver', async () => {
+		await useCase.execute({ ...input, endDate: undefined, exceptions: undefined, pricePerSeat: 500, requiresApproval: true });
+
+		expect(mockTripSeriesRepo.create).toHaveBeenCalledWith(expect.objectContaining({ endDate: null, exceptionDates: [], pricePerSeat: 500, requiresApproval: true }));
+	});
+
+	it('should still return the series when its occurrences cannot be materialized', async () => {
+		materialize.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute(input);
+
+		expect(result).toEqual(ok(series));
+	});
+
+	it('should return DriverNotFoundError when the user is not a driver', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DriverNotFoundError);
+		expect(mockTripSeriesRepo.create).not.toHaveBeenCalled();
+	});
+
+	it('should return CarNotFoundError for an unknown car', async () => {
+		mockCarRepo.findById.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(CarNotFoundError);
+	});
+
+	it('should propagate repository errors', async () => {
+		mockTripSeriesRepo.create.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+		expect(materialize).not.toHaveBeenCalled();
+	});
+});
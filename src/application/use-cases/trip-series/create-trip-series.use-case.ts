@@ -0,0 +1,155 @@
+/**
+ * @module CreateTripSeriesUseCase
+ *
+ * Creates a recurring trip offered by a driver, such as a daily commute. The
+ * series holds the route, car, distance, seats and price shared by all its
+ * occurrences, and the days of the week, departure time, dates and exception
+ * days they follow. Cities are found or auto-created by name, and the
+ * per-seat price defaults to the suggested cost-sharing price, as for a
+ * one-off trip. The occurrences within the materialization horizon are
+ * created right away, so that passengers can book them at once. Its dates are
+ * days of the configured time zone of the trips.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { CreateTripSeriesData, TripSeriesEntity } from '../../../domain/entities/trip-series.entity.js';
+import { suggestPricePerSeat } from '../../../domain/pricing/trip-pricing.js';
+import { parseDay } from '../../../domain/recurrence/trip-recurrence.js';
+import type { CarRepository } from '../../../domain/repositories/car.repository.js';
+import type { CityRepository } from '../../../domain/repositories/city.repository.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { TripSeriesRepository } from '../../../domain/repositories/trip-series.repository.js';
+import { CarNotFoundError, DriverNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import type { TripConfig } from '../../config/trip.config.js';
+import type { CreateTripSeriesSchemaType } from '../../schemas/trip-series.schema.js';
+import { resolveRouteCityRefIds } from '../trip/trip-route.js';
+import { MaterializeTripSeriesUseCase } from './materialize-trip-series.use-case.js';
+
+/**
+ * Union of all possible error types returned by the create trip series use case.
+ *
+ * - {@link DriverNotFoundError} - The authenticated user has no driver profile
+ * - {@link CarNotFoundError} - The referenced car UUID does not exist
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type CreateTripSeriesError = DriverNotFoundError | CarNotFoundError | RepositoryError;
+
+/**
+ * Creates a new trip series offered by the authenticated driver.
+ *
+ * Business flow:
+ * 1. Resolve the user UUID to find the associated driver profile
+ * 2. Resolve the car UUID to its internal refId
+ * 3. Find or create the departure, intermediate stop and arrival cities by name
+ * 4. Persist the series with its recurrence and cities in route order
+ * 5. Materialize its first occurrences
+ *
+ * A failure to materialize the occurrences does not fail the creation: the
+ * trip series job creates them on its next run.
+ *
+ * @dependencies TripSeriesRepository, DriverRepository, CarRepository, CityRepository, MaterializeTripSeriesUseCase, TripConfig
+ */
+@injectable()
+export class CreateTripSeriesUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripSeriesRepository)
+		private readonly tripSeriesRepository: TripSeriesRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.CarRepository)
+		private readonly carRepository: CarRepository,
+		@inject(TOKENS.CityRepository)
+		private readonly cityRepository: CityRepository,
+		@inject(MaterializeTripSeriesUseCase)
+		private readonly materializeTripSeries: MaterializeTripSeriesUseCase,
+		@inject(TOKENS.TripConfig)
+		private readonly tripConfig: TripConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'CreateTripSeriesUseCase' });
+	}
+
+	/**
+	 * Creates a new series for the authenticated driver.
+	 *
+	 * @param input - Validated payload containing the recurrence, kms, seats, carId,
+	 *                departureCity, arrivalCity, optional stops, pricePerSeat and
+	 *                requiresApproval, and the authenticated userId
+	 * @returns A Result containing the created TripSeriesEntity on success,
+	 *          or a CreateTripSeriesError on failure
+	 */
+	async execute(input: WithAuthContext<CreateTripSeriesSchemaType>): Promise<Result<TripSeriesEntity, CreateTripSeriesError>> {
+		const driverResult = await this.driverRepository.findByUserId(input.userId);
+		if (!driverResult.success) {
+			return driverResult;
+		}
+		if (!driverResult.value) {
+			this.logger.warn('Driver not found for trip series creation', { userId: input.userId });
+			return err(new DriverNotFoundError(input.userId));
+		}
+
+		const carResult = await this.carRepository.findById(input.carId);
+		if (!carResult.success) {
+			return carResult;
+		}
+		if (!carResult.value) {
+			this.logger.warn('Car not found for trip series creation', { carId: input.carId });
+			return err(new CarNotFoundError(input.carId));
+		}
+
+		const routeResult = await resolveRouteCityRefIds(this.cityRepository, [input.departureCity, ...(input.stops ?? []), input.arrivalCity]);
+		if (!routeResult.success) {
+			return routeResult;
+		}
+
+		const result = await this.tripSeriesRepository.create(
+			toSeriesData(
+				input,
+				{ cityRefIds: routeResult.value, driverRefId: driverResult.value.refId, carRefId: carResult.value.refId },
+				this.tripConfig.timeZone,
+			),
+		);
+		if (!result.success) {
+			return result;
+		}
+		this.logger.info('Trip series created', { seriesId: result.value.id });
+
+		const materialized = await this.materializeTripSeries.materialize(result.value, new Date());
+		if (!materialized.success) {
+			this.logger.error('Failed to materialize new trip series', materialized.error, { seriesId: result.value.id });
+		}
+		return ok(result.value);
+	}
+}
+
+/**
+ * Maps the validated request body and the resolved refIds onto the fields of the series,
+ * its days being taken at midnight in the time zone of the trips.
+ */
+function toSeriesData(
+	input: CreateTripSeriesSchemaType,
+	refs: Pick<CreateTripSeriesData, 'cityRefIds' | 'driverRefId' | 'carRefId'>,
+	timeZone: string,
+): CreateTripSeriesData {
+	const day = (value: string) => parseDay(value, timeZone);
+	return {
+		daysOfWeek: [...input.daysOfWeek].sort((a, b) => a - b),
+		departureTime: input.departureTime,
+		startDate: day(input.startDate),
+		endDate: input.endDate ? day(input.endDate) : null,
+		exceptionDates: (input.exceptions ?? []).map(day),
+		kms: input.kms,
+		seats: input.seats,
+		pricePerSeat: input.pricePerSeat ?? suggestPricePerSeat(input.kms),
+		requiresApproval: input.requiresApproval ?? false,
+		...refs,
+	};
+}
@@ -0,0 +1,121 @@
+/**
+ * @file Unit tests for the DeleteTripSeriesUseCase.
+ *
+ * Covers the cancellation of a series and of all its upcoming occurrences,
+ * occurrences that fail without stopping the others, series already
+ * cancelled, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	createMockDriverData,
+	createMockDriverRepository,
+	createMockEventBus,
+	createMockInscriptionRepository,
+	createMockLogger,
+	createMockTripConfig,
+	createMockTripData,
+	createMockTripRepository,
+	createMockTripSeriesData,
+	createMockTripSeriesRepository,
+} from '../../../../tests/setup.js';
+import { ForbiddenError, TripSeriesNotActiveError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { DeleteTripSeriesUseCase } from './delete-trip-series.use-case.js';
+
+describe('DeleteTripSeriesUseCase', () => {
+	let useCase: DeleteTripSeriesUseCase;
+	let mockTripSeriesRepo: ReturnType<typeof createMockTripSeriesRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
+
+	// Monday 19 October 2026, after the 07:45 departure
+	const now = new Date(2026, 9, 19, 8, 0);
+	const input = { id: 'series-id-1', userId: 'user-1', reason: 'New job' };
+	const occurrence = (day: number, overrides?: Parameters<typeof createMockTripData>[0]) =>
+		createMockTripData({ id: `trip-${day}`, refId: day, seriesRefId: 4, dateTrip: new Date(2026, 9, day, 7, 45), ...overrides });
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(now);
+		mockTripSeriesRepo = createMockTripSeriesRepository();
+		mockTripRepo = createMockTripRepository();
+		mockDriverRepo = createMockDriverRepository();
+		mockInscriptionRepo = createMockInscriptionRepository();
+		mockEventBus = createMockEventBus();
+		container.registerInstance(TOKENS.TripSeriesRepository, mockTripSeriesRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
+		container.registerInstance(TOKENS.TripConfig, createMockTripConfig());
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(DeleteTripSeriesUseCase);
+
+		mockTripSeriesRepo.findById.mockResolvedValue(ok(createMockTripSeriesData()));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 10 })));
+		mockTripSeriesRepo.cancel.mockResolvedValue(ok(true));
+		mockTripRepo.findBySeries.mockResolvedValue(ok([occurrence(19, { status: 'IN_PROGRESS' }), occurrence(20), occurrence(21, { seriesDetached: true })]));
+		mockTripRepo.cancel.mockResolvedValue(ok(true));
+		mockInscriptionRepo.findPassengerContacts.mockResolvedValue(ok([]));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should cancel the series and all its upcoming occurrences', async () => {
+		const result = await useCase.execute(input);
+
+		expect(result).toEqual(ok(undefined));
+		expect(mockTripSeriesRepo.cancel).toHaveBeenCalledWith('series-id-1', now);
+		expect(mockTripRepo.cancel).toHaveBeenCalledTimes(2);
+		expect(mockTripRepo.cancel).toHaveBeenCalledWith('trip-20', 'New job', now, []);
+		expect(mockTripRepo.cancel).toHaveBeenCalledWith('trip-21', 'New job', now, []);
+		expect(mockEventBus.publish).toHaveBeenCalledTimes(2);
+	});
+
+	it('should carry on with the other occurrences when one fails', async () => {
+		mockInscriptionRepo.findPassengerContacts.mockResolvedValueOnce(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute({ id: 'series-id-1', userId: 'user-1' });
+
+		expect(result.success).toBe(true);
+		expect(mockTripRepo.cancel).toHaveBeenCalledTimes(1);
+		expect(mockTripRepo.cancel).toHaveBeenCalledWith('trip-21', null, now, []);
+	});
+
+	it('should return TripSeriesNotActiveError for a series already cancelled', async () => {
+		mockTripSeriesRepo.cancel.mockResolvedValue(ok(false));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripSeriesNotActiveError);
+		expect(mockTripRepo.findBySeries).not.toHaveBeenCalled();
+	});
+
+	it('should return ForbiddenError for the series of another driver', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 11 })));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(ForbiddenError);
+		expect(mockTripSeriesRepo.cancel).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		mockTripSeriesRepo.cancel.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
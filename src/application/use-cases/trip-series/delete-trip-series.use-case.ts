@@ -0,0 +1,114 @@
+/**
+ * @module DeleteTripSeriesUseCase
+ *
+ * Cancels a whole trip series, optionally with a reason. The series is kept
+ * with the CANCELLED status, so no further occurrences are materialized, and
+ * all its upcoming occurrences are cancelled with it, including those edited
+ * on their own. Each occurrence is cancelled like a trip cancelled by its
+ * driver: its bookings are cancelled and a `TripCancelled` event tells the
+ * passengers that were booked.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { TripSeriesRepository } from '../../../domain/repositories/trip-series.repository.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
+import {
+	type DriverNotFoundError,
+	type ForbiddenError,
+	type TripSeriesNotFoundError,
+	TripSeriesNotActiveError,
+} from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import type { TripConfig } from '../../config/trip.config.js';
+import { cancelOccurrence, findOwnedSeries, findUpcomingOccurrences } from './trip-series.js';
+
+/**
+ * Union of all possible error types returned by the delete trip series use case.
+ *
+ * - {@link TripSeriesNotFoundError} - No series exists with the given UUID
+ * - {@link DriverNotFoundError} - The authenticated user has no driver profile
+ * - {@link ForbiddenError} - The series does not belong to the requesting driver
+ * - {@link TripSeriesNotActiveError} - The series was already cancelled
+ * - {@link RepositoryError} - Database-level failure during lookup or cancellation
+ */
+type DeleteTripSeriesError = TripSeriesNotFoundError | DriverNotFoundError | ForbiddenError | TripSeriesNotActiveError | RepositoryError;
+
+/**
+ * Cancels a series owned by the requesting driver and its upcoming occurrences.
+ *
+ * Business flow:
+ * 1. Look up the series and verify it belongs to the requesting driver
+ * 2. Cancel the series, unless it was already cancelled, so that the trip
+ *    series job stops materializing it
+ * 3. Cancel each upcoming SCHEDULED occurrence and its bookings, publishing `TripCancelled`
+ *
+ * An occurrence that cannot be cancelled is logged and skipped; the driver
+ * can still cancel it on its own.
+ *
+ * @dependencies TripSeriesRepository, TripRepository, DriverRepository, InscriptionRepository, EventBus, TripConfig
+ */
+@injectable()
+export class DeleteTripSeriesUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripSeriesRepository)
+		private readonly tripSeriesRepository: TripSeriesRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.InscriptionRepository)
+		private readonly inscriptionRepository: InscriptionRepository,
+		@inject(TOKENS.EventBus)
+		private readonly eventBus: EventBus,
+		@inject(TOKENS.TripConfig)
+		private readonly tripConfig: TripConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'DeleteTripSeriesUseCase' });
+	}
+
+	/**
+	 * Cancels the series identified by the given UUID, after verifying ownership.
+	 *
+	 * @param input - Object containing the series UUID, the authenticated userId and an optional reason
+	 * @returns A Result containing void on success, or a DeleteTripSeriesError on failure
+	 */
+	async execute(input: { id: string; userId: string; reason?: string }): Promise<Result<void, DeleteTripSeriesError>> {
+		const seriesResult = await findOwnedSeries(this.tripSeriesRepository, this.driverRepository, input.id, input.userId);
+		if (!seriesResult.success) {
+			return seriesResult;
+		}
+
+		const now = new Date();
+		const cancelResult = await this.tripSeriesRepository.cancel(input.id, now);
+		if (!cancelResult.success) {
+			return cancelResult;
+		}
+		if (!cancelResult.value) {
+			return err(new TripSeriesNotActiveError(input.id));
+		}
+
+		const occurrencesResult = await findUpcomingOccurrences(this.tripRepository, seriesResult.value.refId, now, this.tripConfig.timeZone);
+		if (!occurrencesResult.success) {
+			return occurrencesResult;
+		}
+		const deps = { tripRepository: this.tripRepository, inscriptionRepository: this.inscriptionRepository, eventBus: this.eventBus };
+		for (const occurrence of occurrencesResult.value) {
+			const result = await cancelOccurrence(deps, occurrence, input.reason ?? null, now);
+			if (!result.success) {
+				this.logger.error('Failed to cancel trip series occurrence', result.error, { seriesId: input.id, tripId: occurrence.id });
+			}
+		}
+		this.logger.info('Trip series cancelled', { seriesId: input.id, occurrences: occurrencesResult.value.length });
+		return ok(undefined);
+	}
+}
@@ -0,0 +1,86 @@
+/**
+ * @file Unit tests for the GetTripSeriesUseCase.
+ *
+ * Covers a series returned with its occurrences, series of other drivers,
+ * unknown series, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockDriverData,
+	createMockDriverRepository,
+	createMockLogger,
+	createMockTripConfig,
+	createMockTripData,
+	createMockTripRepository,
+	createMockTripSeriesData,
+	createMockTripSeriesRepository,
+} from '../../../../tests/setup.js';
+import { ForbiddenError, TripSeriesNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { GetTripSeriesUseCase } from './get-trip-series.use-case.js';
+
+describe('GetTripSeriesUseCase', () => {
+	let useCase: GetTripSeriesUseCase;
+	let mockTripSeriesRepo: ReturnType<typeof createMockTripSeriesRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+
+	const input = { id: 'series-id-1', userId: 'user-1' };
+	const series = createMockTripSeriesData();
+	const occurrences = [createMockTripData({ seriesRefId: 4 }), createMockTripData({ id: 'trip-id-2', seriesRefId: 4, status: 'CANCELLED' })];
+
+	beforeEach(() => {
+		mockTripSeriesRepo = createMockTripSeriesRepository();
+		mockTripRepo = createMockTripRepository();
+		mockDriverRepo = createMockDriverRepository();
+		container.registerInstance(TOKENS.TripSeriesRepository, mockTripSeriesRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.TripConfig, createMockTripConfig());
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(GetTripSeriesUseCase);
+
+		mockTripSeriesRepo.findById.mockResolvedValue(ok(series));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 10 })));
+		mockTripRepo.findBySeries.mockResolvedValue(ok(occurrences));
+	});
+
+	it('should return the series with its occurrences from today on', async () => {
+		const result = await useCase.execute(input);
+
+		expect(result).toEqual(ok({ ...series, occurrences }));
+		expect(mockTripRepo.findBySeries).toHaveBeenCalledWith(4, expect.any(Date));
+	});
+
+	it('should return TripSeriesNotFoundError for an unknown series', async () => {
+		mockTripSeriesRepo.findById.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripSeriesNotFoundError);
+	});
+
+	it('should return ForbiddenError for the series of another driver', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 11 })));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(ForbiddenError);
+		expect(mockTripRepo.findBySeries).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		mockTripRepo.findBySeries.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
@@ -0,0 +1,80 @@
+/**
+ * @module GetTripSeriesUseCase
+ *
+ * Retrieves a trip series for its driver, along with its occurrences from
+ * today on, whatever their status, so that the driver sees which ones were
+ * edited on their own or cancelled.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripSeriesWithOccurrences } from '../../../domain/entities/trip-series.entity.js';
+import { startOfDay } from '../../../domain/recurrence/trip-recurrence.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { TripSeriesRepository } from '../../../domain/repositories/trip-series.repository.js';
+import type { DriverNotFoundError, ForbiddenError, TripSeriesNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import type { TripConfig } from '../../config/trip.config.js';
+import { findOwnedSeries } from './trip-series.js';
+
+/**
+ * Union of all possible error types returned by the get trip series use case.
+ *
+ * - {@link TripSeriesNotFoundError} - No series exists with the given UUID
+ * - {@link DriverNotFoundError} - The authenticated user has no driver profile
+ * - {@link ForbiddenError} - The series does not belong to the requesting driver
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type GetTripSeriesError = TripSeriesNotFoundError | DriverNotFoundError | ForbiddenError | RepositoryError;
+
+/**
+ * Retrieves a series owned by the requesting driver with its occurrences.
+ *
+ * Business flow:
+ * 1. Look up the series and verify it belongs to the requesting driver
+ * 2. Fetch its occurrences from today on, in the time zone of the trips, in day order
+ *
+ * @dependencies TripSeriesRepository, TripRepository, DriverRepository, TripConfig
+ */
+@injectable()
+export class GetTripSeriesUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripSeriesRepository)
+		private readonly tripSeriesRepository: TripSeriesRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.TripConfig)
+		private readonly tripConfig: TripConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'GetTripSeriesUseCase' });
+	}
+
+	/**
+	 * Fetches the series identified by the given UUID.
+	 *
+	 * @param input - Object containing the series UUID and the authenticated userId
+	 * @returns A Result containing the series and its occurrences, or a GetTripSeriesError on failure
+	 */
+	async execute(input: { id: string; userId: string }): Promise<Result<TripSeriesWithOccurrences, GetTripSeriesError>> {
+		const seriesResult = await findOwnedSeries(this.tripSeriesRepository, this.driverRepository, input.id, input.userId);
+		if (!seriesResult.success) {
+			return seriesResult;
+		}
+
+		const occurrencesResult = await this.tripRepository.findBySeries(seriesResult.value.refId, startOfDay(new Date(), this.tripConfig.timeZone));
+		if (!occurrencesResult.success) {
+			this.logger.error('Failed to load trip series occurrences', occurrencesResult.error, { seriesId: input.id });
+			return occurrencesResult;
+		}
+		return ok({ ...seriesResult.value, occurrences: occurrencesResult.value });
+	}
+}
@@ -0,0 +1,67 @@
+/**
+ * @file Unit tests for the ListTripSeriesUseCase.
+ *
+ * Covers the paginated series of the authenticated driver, users without a
+ * driver profile, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockDriverData, createMockDriverRepository, createMockLogger, createMockTripSeriesData, createMockTripSeriesRepository } from '../../../../tests/setup.js';
+import { DriverNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { ListTripSeriesUseCase } from './list-trip-series.use-case.js';
+
+describe('ListTripSeriesUseCase', () => {
+	let useCase: ListTripSeriesUseCase;
+	let mockTripSeriesRepo: ReturnType<typeof createMockTripSeriesRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+
+	const series = createMockTripSeriesData();
+
+	beforeEach(() => {
+		mockTripSeriesRepo = createMockTripSeriesRepository();
+		mockDriverRepo = createMockDriverRepository();
+		container.registerInstance(TOKENS.TripSeriesRepository, mockTripSeriesRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(ListTripSeriesUseCase);
+
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 10 })));
+		mockTripSeriesRepo.findByDriverRefId.mockResolvedValue(ok({ data: [series], total: 11 }));
+	});
+
+	it('should list the series of the driver', async () => {
+		const result = await useCase.execute('user-1', { page: 2, limit: 10 });
+
+		expect(result).toEqual(ok({ data: [series], meta: { page: 2, limit: 10, total: 11, totalPages: 2 } }));
+		expect(mockTripSeriesRepo.findByDriverRefId).toHaveBeenCalledWith(10, { skip: 10, take: 10 });
+	});
+
+	it('should default to the first page of 20', async () => {
+		await useCase.execute('user-1');
+
+		expect(mockTripSeriesRepo.findByDriverRefId).toHaveBeenCalledWith(10, { skip: 0, take: 20 });
+	});
+
+	it('should return DriverNotFoundError when the user is not a driver', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute('user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DriverNotFoundError);
+		expect(mockTripSeriesRepo.findByDriverRefId).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		mockTripSeriesRepo.findByDriverRefId.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute('user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
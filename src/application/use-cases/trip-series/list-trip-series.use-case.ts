@@ -0,0 +1,75 @@
+/**
+ * @module ListTripSeriesUseCase
+ *
+ * Lists the trip series offered by the authenticated driver, newest first,
+ * including the cancelled ones, so that drivers can manage their recurring trips.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripSeriesEntity } from '../../../domain/entities/trip-series.entity.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { TripSeriesRepository } from '../../../domain/repositories/trip-series.repository.js';
+import { DriverNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { type PaginatedResult, type PaginationParams, buildPaginationMeta, toSkipTake } from '../../../lib/shared/utils/pagination.util.js';
+
+/**
+ * Union of all possible error types returned by the list trip series use case.
+ *
+ * - {@link DriverNotFoundError} - The authenticated user has no driver profile
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type ListTripSeriesError = DriverNotFoundError | RepositoryError;
+
+/**
+ * Retrieves a page of the series of the authenticated driver.
+ *
+ * Business flow:
+ * 1. Resolve the user UUID to find the associated driver profile
+ * 2. Fetch a page of the driver's series, newest first
+ *
+ * @dependencies TripSeriesRepository, DriverRepository
+ */
+@injectable()
+export class ListTripSeriesUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripSeriesRepository)
+		private readonly tripSeriesRepository: TripSeriesRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ListTripSeriesUseCase' });
+	}
+
+	/**
+	 * Fetches a paginated list of the series of the given user's driver profile.
+	 *
+	 * @param userId - The UUID of the authenticated user
+	 * @param pagination - Optional page and limit parameters (defaults to page 1, limit 20)
+	 * @returns A Result containing a PaginatedResult of series, or a ListTripSeriesError on failure
+	 */
+	async execute(userId: string, pagination?: PaginationParams): Promise<Result<PaginatedResult<TripSeriesEntity>, ListTripSeriesError>> {
+		const driverResult = await this.driverRepository.findByUserId(userId);
+		if (!driverResult.success) {
+			return driverResult;
+		}
+		if (!driverResult.value) {
+			return err(new DriverNotFoundError(userId));
+		}
+
+		const params = pagination ?? { page: 1, limit: 20 };
+		const result = await this.tripSeriesRepository.findByDriverRefId(driverResult.value.refId, toSkipTake(params));
+		if (!result.success) {
+			this.logger.error('Failed to list trip series', result.error, { userId });
+			return result;
+		}
+		return ok({ data: result.value.data, meta: buildPaginationMeta(params, result.value.total) });
+	}
+}
@@ -0,0 +1,146 @@
+/**
+ * @file Unit tests for the MaterializeTripSeriesUseCase.
+ *
+ * Covers the occurrences created within the horizon, days that already have
+ * a trip (including cancelled ones), occurrences that already departed,
+ * series that fail without stopping the others, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	createMockEventBus,
+	createMockLogger,
+	createMockTripConfig,
+	createMockTripData,
+	createMockTripRepository,
+	createMockTripSeriesData,
+	createMockTripSeriesRepository,
+} from '../../../../tests/setup.js';
+import { dayKey, parseDay } from '../../../domain/recurrence/trip-recurrence.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { MaterializeTripSeriesUseCase } from './materialize-trip-series.use-case.js';
+
+describe('MaterializeTripSeriesUseCase', () => {
+	let useCase: MaterializeTripSeriesUseCase;
+	let mockTripSeriesRepo: ReturnType<typeof createMockTripSeriesRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
+
+	// Days and departures are those of Paris, whatever the server's time zone
+	const day = (value: string) => parseDay(value, 'Europe/Paris');
+
+	// Monday 19 October 2026 in Paris, after the 07:45 departure
+	const now = new Date('2026-10-19T06:00:00Z');
+	const series = createMockTripSeriesData({ daysOfWeek: [1, 3], endDate: day('2026-10-28') });
+
+	beforeEach(() => {
+		mockTripSeriesRepo = createMockTripSeriesRepository();
+		mockTripRepo = createMockTripRepository();
+		mockEventBus = createMockEventBus();
+		container.registerInstance(TOKENS.TripSeriesRepository, mockTripSeriesRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
+		container.registerInstance(TOKENS.TripConfig, createMockTripConfig({ seriesHorizonDays: 14 }));
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(MaterializeTripSeriesUseCase);
+
+		mockTripRepo.findBySeries.mockResolvedValue(ok([]));
+		mockTripRepo.create.mockImplementation(async (data) => ok(createMockTripData({ id: `trip-${dayKey(data.occurrenceDate, 'Europe/Paris')}` })));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should create the occurrences that depart within the horizon', async () => {
+		const result = await useCase.materialize(series, now);
+
+		// Wednesday 21, Monday 26 and Wednesday 28; Monday 19 has departed
+		expect(result).toEqual(ok(3));
+		expect(mockTripRepo.findBySeries).toHaveBeenCalledWith(4, day('2026-10-19'));
+		expect(mockTripRepo.create).toHaveBeenCalledWith({
+			dateTrip: new Date('2026-10-21T05:45:00Z'),
+			arrivalAt: expect.any(Date),
+			kms: 60,
+			seats: 3,
+			pricePerSeat: 400,
+			requiresApproval: false,
+			driverRefId: 10,
+			carRefId: 20,
+			cityRefIds: [30, 31],
+			seriesRefId: 4,
+			occurrenceDate: day('2026-10-21'),
+		});
+		// Still 07:45 in Paris once the clocks went back on Sunday 25
+		expect(mockTripRepo.create).toHaveBeenCalledWith(expect.objectContaining({ dateTrip: new Date('2026-10-26T06:45:00Z') }));
+		expect(mockEventBus.publish).toHaveBeenCalledTimes(3);
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'TripCreated', payload: { tripId: 'trip-2026-10-26' } }));
+	});
+
+	it('should not recreate the days that already have a trip, even a cancelled one', async () => {
+		mockTripRepo.findBySeries.mockResolvedValue(ok([
+			createMockTripData({ occurrenceDate: day('2026-10-21'), status: 'CANCELLED' }),
+			createMockTripData({ occurrenceDate: day('2026-10-26') }),
+		]));
+
+		const result = await useCase.materialize(series, now);
+
+		expect(result).toEqual(ok(1));
+		expect(mockTripRepo.create).toHaveBeenCalledWith(expect.objectContaining({ occurrenceDate: day('2026-10-28') }));
+	});
+
+	it('should create nothing once every occurrence exists', async () => {
+		mockTripRepo.findBySeries.mockResolvedValue(ok(['2026-10-21', '2026-10-26', '2026-10-28'].map((value) => createMockTripData({ occurrenceDate: day(value) }))));
+
+		const result = await useCase.materialize(series, now);
+
+		expect(result).toEqual(ok(0));
+		expect(mockTripRepo.create).not.toHaveBeenCalled();
+	});
+
+	it('should stop at the first trip that cannot be created', async () => {
+		mockTripRepo.create.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.materialize(series, now);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+		expect(mockTripRepo.create).toHaveBeenCalledTimes(1);
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
+	});
+
+	it('should materialize every active series and count the trips created', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(now);
+		mockTripSeriesRepo.findActive.mockResolvedValue(ok([series, createMockTripSeriesData({ id: 'series-2', refId: 5, daysOfWeek: [7] })]));
+
+		const result = await useCase.execute();
+
+		// Sundays 25 October and 1 November for the second series
+		expect(result).toEqual(ok(5));
+		expect(mockTripSeriesRepo.findActive).toHaveBeenCalledWith(day('2026-10-19'));
+	});
+
+	it('should carry on with the other series when one fails', async () => {
+		mockTripSeriesRepo.findActive.mockResolvedValue(ok([series, createMockTripSeriesData({ id: 'series-2', refId: 5 })]));
+		mockTripRepo.findBySeries.mockResolvedValueOnce(err(new DatabaseError('db error')));
+		mockTripRepo.findBySeries.mockResolvedValueOnce(ok([]));
+
+		const result = await useCase.execute();
+
+		expect(result.success).toBe(true);
+		expect(mockTripRepo.findBySeries).toHaveBeenCalledTimes(2);
+	});
+
+	it('should propagate errors loading the active series', async () => {
+		mockTripSeriesRepo.findActive.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute();
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
@@ -0,0 +1,134 @@
+/**
+ * @module MaterializeTripSeriesUseCase
+ *
+ * Turns the occurrences of trip series into trips ahead of time. Run
+ * repeatedly by the trip series job, and right after a series is created or
+ * edited; each run creates, for every active series, the occurrences that
+ * depart within the configured horizon and do not exist yet. Occurrences are
+ * ordinary trips, so passengers search and book them like any other, and
+ * each one is announced with a `TripCreated` event. Days and departure times
+ * are those of the configured time zone of the trips.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripSeriesEntity } from '../../../domain/entities/trip-series.entity.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import { estimateArrival } from '../../../domain/lifecycle/trip-lifecycle.js';
+import { dayKey, departureOn, occurrenceDays, startOfDay } from '../../../domain/recurrence/trip-recurrence.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { TripSeriesRepository } from '../../../domain/repositories/trip-series.repository.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
+import { addDays, atTimeIn, calendarDayIn } from '../../../domain/time/time-zone.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import type { TripConfig } from '../../config/trip.config.js';
+
+/**
+ * Materializes the upcoming occurrences of the active trip series.
+ *
+ * Business flow:
+ * 1. Load the series that are active and have not ended
+ * 2. For each series, list its occurrence days from today to the horizon
+ * 3. Skip the days that already have a trip, whatever its status, so that
+ *    an occurrence cancelled by the driver is not created again
+ * 4. Create a trip for each remaining day that departs in the future
+ * 5. Publish `TripCreated` for each trip created
+ *
+ * A series that fails is logged and skipped; the next run retries it.
+ *
+ * @dependencies TripSeriesRepository, TripRepository, EventBus, TripConfig
+ */
+@injectable()
+export class MaterializeTripSeriesUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripSeriesRepository)
+		private readonly tripSeriesRepository: TripSeriesRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.EventBus)
+		private readonly eventBus: EventBus,
+		@inject(TOKENS.TripConfig)
+		private readonly tripConfig: TripConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'MaterializeTripSeriesUseCase' });
+	}
+
+	/**
+	 * Materializes the occurrences of every active series once.
+	 *
+	 * @returns A Result containing how many trips were created,
+	 *          or a RepositoryError if the active series could not be loaded
+	 */
+	async execute(): Promise<Result<number, RepositoryError>> {
+		const now = new Date();
+		const seriesResult = await this.tripSeriesRepository.findActive(startOfDay(now, this.tripConfig.timeZone));
+		if (!seriesResult.success) {
+			return seriesResult;
+		}
+
+		let created = 0;
+		for (const series of seriesResult.value) {
+			const result = await this.materialize(series, now);
+			if (!result.success) {
+				this.logger.error('Failed to materialize trip series', result.error, { seriesId: series.id });
+				continue;
+			}
+			created += result.value;
+		}
+		if (created > 0) {
+			this.logger.info('Trip series materialized', { created });
+		}
+		return ok(created);
+	}
+
+	/**
+	 * Creates the missing occurrences of one series up to the horizon.
+	 *
+	 * @param series - The series, which must be ACTIVE
+	 * @param now - The current time; occurrences departing earlier are not created
+	 * @returns A Result containing how many trips were created, or a RepositoryError
+	 */
+	async materialize(series: TripSeriesEntity, now: Date): Promise<Result<number, RepositoryError>> {
+		const { timeZone } = this.tripConfig;
+		const from = startOfDay(now, timeZone);
+		const until = atTimeIn(addDays(calendarDayIn(now, timeZone), this.tripConfig.seriesHorizonDays), 0, 0, timeZone);
+		const existingResult = await this.tripRepository.findBySeries(series.refId, from);
+		if (!existingResult.success) {
+			return existingResult;
+		}
+		const existing = new Set(existingResult.value.map((trip) => dayKey(new Date(trip.occurrenceDate ?? trip.dateTrip), timeZone)));
+
+		let created = 0;
+		for (const day of occurrenceDays(series, from, until, timeZone)) {
+			const dateTrip = departureOn(day, series.departureTime, timeZone);
+			if (existing.has(dayKey(day, timeZone)) || dateTrip.getTime() <= now.getTime()) {
+				continue;
+			}
+			const result = await this.tripRepository.create({
+				dateTrip,
+				arrivalAt: estimateArrival(dateTrip, series.kms),
+				kms: series.kms,
+				seats: series.seats,
+				pricePerSeat: series.pricePerSeat,
+				requiresApproval: series.requiresApproval,
+				driverRefId: series.driverRefId,
+				carRefId: series.carRefId,
+				cityRefIds: series.cityRefIds,
+				seriesRefId: series.refId,
+				occurrenceDate: day,
+			});
+			if (!result.success) {
+				return result;
+			}
+			created++;
+			await this.eventBus.publish(domainEvent('TripCreated', { tripId: result.value.id }));
+		}
+		return ok(created);
+	}
+}
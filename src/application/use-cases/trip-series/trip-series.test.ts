@@ -0,0 +1,156 @@
+/**
+ * @file Unit tests for the trip series helpers.
+ *
+ * Covers the ownership check of a series, the selection of its upcoming
+ * occurrences, the cancellation of one occurrence, and repository error propagation.
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { TripEntity } from '../../../domain/entities/trip.entity.js';
+import {
+	createMockDriverData,
+	createMockDriverRepository,
+	createMockEventBus,
+	createMockInscriptionRepository,
+	createMockTripData,
+	createMockTripRepository,
+	createMockTripSeriesData,
+	createMockTripSeriesRepository,
+} from '../../../../tests/setup.js';
+import { DriverNotFoundError, ForbiddenError, TripSeriesNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { cancelOccurrence, findOwnedSeries, findUpcomingOccurrences } from './trip-series.js';
+
+describe('findOwnedSeries', () => {
+	let tripSeriesRepository: ReturnType<typeof createMockTripSeriesRepository>;
+	let driverRepository: ReturnType<typeof createMockDriverRepository>;
+
+	const series = createMockTripSeriesData();
+
+	beforeEach(() => {
+		tripSeriesRepository = createMockTripSeriesRepository();
+		driverRepository = createMockDriverRepository();
+		tripSeriesRepository.findById.mockResolvedValue(ok(series));
+		driverRepository.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 10 })));
+	});
+
+	it('should return the series of the requesting driver', async () => {
+		const result = await findOwnedSeries(tripSeriesRepository, driverRepository, 'series-id-1', 'user-1');
+
+		expect(result).toEqual(ok(series));
+	});
+
+	it('should return TripSeriesNotFoundError for an unknown series', async () => {
+		tripSeriesRepository.findById.mockResolvedValue(ok(null));
+
+		const result = await findOwnedSeries(tripSeriesRepository, driverRepository, 'series-id-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripSeriesNotFoundError);
+	});
+
+	it('should return DriverNotFoundError when the user is not a driver', async () => {
+		driverRepository.findByUserId.mockResolvedValue(ok(null));
+
+		const result = await findOwnedSeries(tripSeriesRepository, driverRepository, 'series-id-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DriverNotFoundError);
+	});
+
+	it('should return ForbiddenError for the series of another driver', async () => {
+		driverRepository.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 11 })));
+
+		const result = await findOwnedSeries(tripSeriesRepository, driverRepository, 'series-id-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(ForbiddenError);
+	});
+
+	it('should propagate repository errors', async () => {
+		tripSeriesRepository.findById.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await findOwnedSeries(tripSeriesRepository, driverRepository, 'series-id-1', 'user-1');
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
+
+describe('findUpcomingOccurrences', () => {
+	it('should keep the SCHEDULED occurrences that have not departed', async () => {
+		const tripRepository = createMockTripRepository();
+		// Monday 19 October 2026, 08:00 in Paris
+		const now = new Date('2026-10-19T06:00:00Z');
+		const upcoming = createMockTripData({ id: 'trip-2', dateTrip: new Date('2026-10-20T05:45:00Z') });
+		tripRepository.findBySeries.mockResolvedValue(ok([
+			createMockTripData({ id: 'trip-1', dateTrip: new Date('2026-10-19T05:45:00Z') }),
+			upcoming,
+			createMockTripData({ id: 'trip-3', dateTrip: new Date('2026-10-21T05:45:00Z'), status: 'CANCELLED' }),
+		]));
+
+		const result = await findUpcomingOccurrences(tripRepository, 4, now, 'Europe/Paris');
+
+		expect(result).toEqual(ok([upcoming]));
+		// From midnight in Paris
+		expect(tripRepository.findBySeries).toHaveBeenCalledWith(4, new Date('2026-10-18T22:00:00Z'));
+	});
+});
+
+describe('cancelOccurrence', () => {
+	let deps: {
+		tripRepository: ReturnType<typeof createMockTripRepository>;
+		inscriptionRepository: ReturnType<typeof createMockInscriptionRepository>;
+		eventBus: ReturnType<typeof createMockEventBus>;
+	};
+
+	const trip = createMockTripData({ id: 'trip-1', refId: 2, dateTrip: new Date(2026, 9, 20, 7, 45) }) as TripEntity;
+	const passengers = [{ id: 'paul-id', email: 'p@example.com', firstName: 'Paul', locale: 'fr' as const }];
+	const cancelledAt = new Date(2026, 9, 19, 8, 0);
+
+	beforeEach(() => {
+		deps = { tripRepository: createMockTripRepository(), inscriptionRepository: createMockInscriptionRepository(), eventBus: createMockEventBus() };
+		deps.inscriptionRepository.findPassengerContacts.mockResolvedValue(ok(passengers));
+		deps.tripRepository.cancel.mockResolvedValue(ok(true));
+	});
+
+	it('should cancel the occurrence and tell its passengers', async () => {
+		const result = await cancelOccurrence(deps, trip, 'Holidays', cancelledAt);
+
+		expect(result).toEqual(ok(true));
+		expect(deps.inscriptionRepository.findPassengerContacts).toHaveBeenCalledWith(2);
+		expect(deps.tripRepository.cancel).toHaveBeenCalledWith('trip-1', 'Holidays', cancelledAt, [
+			{
+				type: 'EMAIL',
+				payload: {
+					to: 'p@example.com',
+					locale: 'fr',
+					message: { template: 'trip-cancelled', variables: { firstName: 'Paul', tripDate: trip.dateTrip.toISOString(), reason: 'Holidays' } },
+				},
+			},
+		]);
+		expect(deps.eventBus.publish).toHaveBeenCalledWith(expect.objectContaining({
+			type: 'TripCancelled',
+			payload: { tripId: 'trip-1', dateTrip: trip.dateTrip, reason: 'Holidays', passengers },
+		}));
+	});
+
+	it('should not publish when the occurrence left SCHEDULED in the meantime', async () => {
+		deps.tripRepository.cancel.mockResolvedValue(ok(false));
+
+		const result = await cancelOccurrence(deps, trip, null, cancelledAt);
+
+		expect(result).toEqual(ok(false));
+		expect(deps.eventBus.publish).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		deps.inscriptionRepository.findPassengerContacts.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await cancelOccurrence(deps, trip, null, cancelledAt);
+
+		expect(result.success).toBe(false);
+		expect(deps.tripRepository.cancel).not.toHaveBeenCalled();
+	});
+});
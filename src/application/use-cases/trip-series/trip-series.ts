@@ -0,0 +1,112 @@
+/**
+ * @module trip-series
+ *
+ * Helpers shared by the trip series use cases. A series is only managed by
+ * the driver who offers it, and its upcoming occurrences are the SCHEDULED
+ * trips of the series that have not departed yet.
+ */
+
+import type { TripEntity } from '../../../domain/entities/trip.entity.js';
+import type { TripSeriesEntity } from '../../../domain/entities/trip-series.entity.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import { tripCancelledEmails } from '../../../domain/outbox/trip-emails.js';
+import { startOfDay } from '../../../domain/recurrence/trip-recurrence.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { TripSeriesRepository } from '../../../domain/repositories/trip-series.repository.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
+import { DriverNotFoundError, ForbiddenError, TripSeriesNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+
+/**
+ * Loads a series and checks that it belongs to the requesting user's driver profile.
+ *
+ * @param tripSeriesRepository - The trip series repository.
+ * @param driverRepository - The driver repository.
+ * @param seriesId - UUID of the series.
+ * @param userId - UUID of the requesting user.
+ * @returns The series, TripSeriesNotFoundError when it does not exist, DriverNotFoundError
+ *          when the user is not a driver, or ForbiddenError when another driver offers it.
+ */
+export async function findOwnedSeries(
+	tripSeriesRepository: TripSeriesRepository,
+	driverRepository: DriverRepository,
+	seriesId: string,
+	userId: string,
+): Promise<Result<TripSeriesEntity, TripSeriesNotFoundError | DriverNotFoundError | ForbiddenError | RepositoryError>> {
+	const seriesResult = await tripSeriesRepository.findById(seriesId);
+	if (!seriesResult.success) {
+		return seriesResult;
+	}
+	const series = seriesResult.value;
+	if (!series) {
+		return err(new TripSeriesNotFoundError(seriesId));
+	}
+	const driverResult = await driverRepository.findByUserId(userId);
+	if (!driverResult.success) {
+		return driverResult;
+	}
+	if (!driverResult.value) {
+		return err(new DriverNotFoundError(userId));
+	}
+	if (series.driverRefId !== driverResult.value.refId) {
+		return err(new ForbiddenError('TripSeries', seriesId));
+	}
+	return ok(series);
+}
+
+/**
+ * Loads the occurrences of a series that are still SCHEDULED and have not departed.
+ *
+ * @param tripRepository - The trip repository.
+ * @param seriesRefId - The integer refId of the series.
+ * @param now - The current time.
+ * @param timeZone - The time zone of the trips, whose day starts the occurrences looked at.
+ * @returns The upcoming occurrences, in day order.
+ */
+export async function findUpcomingOccurrences(
+	tripRepository: TripRepository,
+	seriesRefId: number,
+	now: Date,
+	timeZone: string,
+): Promise<Result<TripEntity[], RepositoryError>> {
+	const result = await tripRepository.findBySeries(seriesRefId, startOfDay(now, timeZone));
+	if (!result.success) {
+		return result;
+	}
+	return ok(result.value.filter((trip) => trip.status === 'SCHEDULED' && new Date(trip.dateTrip).getTime() > now.getTime()));
+}
+
+/**
+ * Cancels one occurrence of a series like a trip cancelled by its driver: its bookings
+ * are cancelled with it, the emails telling the passengers that were booked are recorded
+ * in the outbox, and `TripCancelled` is published with them.
+ *
+ * @param deps - The repositories and event bus involved.
+ * @param trip - The occurrence.
+ * @param reason - Why it is cancelled, if given.
+ * @param cancelledAt - When it is cancelled.
+ * @returns True if the occurrence was cancelled, false if it left SCHEDULED in the meantime.
+ */
+export async function cancelOccurrence(
+	deps: { tripRepository: TripRepository; inscriptionRepository: InscriptionRepository; eventBus: EventBus },
+	trip: TripEntity,
+	reason: string | null,
+	cancelledAt: Date,
+): Promise<Result<boolean, RepositoryError>> {
+	const contactsResult = await deps.inscriptionRepository.findPassengerContacts(trip.refId);
+	if (!contactsResult.success) {
+		return contactsResult;
+	}
+	const dateTrip = new Date(trip.dateTrip);
+	const outbox = tripCancelledEmails(contactsResult.value, dateTrip, reason);
+	const cancelResult = await deps.tripRepository.cancel(trip.id, reason, cancelledAt, outbox);
+	if (!cancelResult.success || !cancelResult.value) {
+		return cancelResult;
+	}
+	await deps.eventBus.publish(domainEvent('TripCancelled', { tripId: trip.id, dateTrip, reason, passengers: contactsResult.value }));
+	return ok(true);
+}
@@ -0,0 +1,123 @@
+/**
+ * @file Unit tests for the UpdateTripSeriesOccurrenceUseCase.
+ *
+ * Covers an occurrence edited and detached from its series, the recomputed
+ * arrival time, trips of another series, occurrences that are no longer
+ * SCHEDULED, seats lowered below the bookings, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockDriverData,
+	createMockDriverRepository,
+	createMockEventBus,
+	createMockLogger,
+	createMockTripData,
+	createMockTripRepository,
+	createMockTripSeriesData,
+	createMockTripSeriesRepository,
+} from '../../../../tests/setup.js';
+import { SeatsBelowBookingsError, TripNotEditableError, TripNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { UpdateTripSeriesOccurrenceUseCase } from './update-trip-series-occurrence.use-case.js';
+
+describe('UpdateTripSeriesOccurrenceUseCase', () => {
+	let useCase: UpdateTripSeriesOccurrenceUseCase;
+	let mockTripSeriesRepo: ReturnType<typeof createMockTripSeriesRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
+
+	const input = { seriesId: 'series-id-1', tripId: 'trip-1', userId: 'user-1' };
+	const trip = createMockTripData({ id: 'trip-1', seriesRefId: 4, dateTrip: new Date(2026, 9, 20, 7, 45), kms: 60 });
+	const updated = { ...trip, seats: 2, seriesDetached: true };
+
+	beforeEach(() => {
+		mockTripSeriesRepo = createMockTripSeriesRepository();
+		mockTripRepo = createMockTripRepository();
+		mockDriverRepo = createMockDriverRepository();
+		mockEventBus = createMockEventBus();
+		container.registerInstance(TOKENS.TripSeriesRepository, mockTripSeriesRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(UpdateTripSeriesOccurrenceUseCase);
+
+		mockTripSeriesRepo.findById.mockResolvedValue(ok(createMockTripSeriesData()));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 10 })));
+		mockTripRepo.findById.mockResolvedValueOnce(ok(trip)).mockResolvedValueOnce(ok(updated));
+		mockTripRepo.update.mockResolvedValue(ok(true));
+	});
+
+	it('should edit the occurrence and detach it from the series', async () => {
+		const result = await useCase.execute({ ...input, seats: 2 });
+
+		expect(result).toEqual(ok(updated));
+		expect(mockTripRepo.update).toHaveBeenCalledWith('trip-1', { seats: 2, seriesDetached: true });
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'TripUpdated', payload: { tripId: 'trip-1' } }));
+	});
+
+	it('should recompute the arrival time of a moved occurrence', async () => {
+		await useCase.execute({ ...input, date: '2026-10-20T09:00:00' });
+
+		expect(mockTripRepo.update).toHaveBeenCalledWith('trip-1', {
+			dateTrip: new Date(2026, 9, 20, 9, 0),
+			arrivalAt: new Date(2026, 9, 20, 9, 45),
+			seriesDetached: true,
+		});
+	});
+
+	it('should return TripNotFoundError for a trip of another series', async () => {
+		mockTripRepo.findById.mockReset();
+		mockTripRepo.findById.mockResolvedValue(ok(createMockTripData({ seriesRefId: 5 })));
+
+		const result = await useCase.execute({ ...input, seats: 2 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotFoundError);
+		expect(mockTripRepo.update).not.toHaveBeenCalled();
+	});
+
+	it('should return TripNotEditableError for an occurrence that is no longer SCHEDULED', async () => {
+		mockTripRepo.findById.mockReset();
+		mockTripRepo.findById.mockResolvedValue(ok({ ...trip, status: 'CANCELLED' }));
+
+		const result = await useCase.execute({ ...input, seats: 2 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotEditableError);
+	});
+
+	it('should return TripNotEditableError when the occurrence departed in the meantime', async () => {
+		mockTripRepo.update.mockResolvedValue(ok(false));
+
+		const result = await useCase.execute({ ...input, seats: 2 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripNotEditableError);
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
+	});
+
+	it('should refuse seats below those the bookings hold', async () => {
+		mockTripRepo.update.mockResolvedValue(err(new SeatsBelowBookingsError('trip-1', 2)));
+
+		const result = await useCase.execute({ ...input, seats: 1 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(SeatsBelowBookingsError);
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		mockTripRepo.update.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute({ ...input, seats: 2 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
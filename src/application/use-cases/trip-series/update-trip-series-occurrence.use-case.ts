@@ -0,0 +1,145 @@
+/**
+ * @module UpdateTripSeriesOccurrenceUseCase
+ *
+ * Edits a single occurrence of a trip series, such as leaving later on one
+ * day, without changing the series. The occurrence is then detached from the
+ * series: it keeps its own values when the whole series is edited later.
+ * Followers of the trip are told through the `TripUpdated` event, as for any
+ * trip edit. Its seats cannot be lowered below those its accepted bookings hold.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripEntity, UpdateTripData } from '../../../domain/entities/trip.entity.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import { estimateArrival, isEditable } from '../../../domain/lifecycle/trip-lifecycle.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { TripSeriesRepository } from '../../../domain/repositories/trip-series.repository.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
+import {
+	type DriverNotFoundError,
+	type ForbiddenError,
+	type SeatsBelowBookingsError,
+	TripNotEditableError,
+	TripNotFoundError,
+	type TripSeriesNotFoundError,
+} from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import type { UpdateTripSeriesOccurrenceSchemaType } from '../../schemas/trip-series.schema.js';
+import { findOwnedSeries } from './trip-series.js';
+
+/**
+ * Union of all possible error types returned by the update trip series occurrence use case.
+ *
+ * - {@link TripSeriesNotFoundError} - No series exists with the given UUID
+ * - {@link DriverNotFoundError} - The authenticated user has no driver profile
+ * - {@link ForbiddenError} - The series does not belong to the requesting driver
+ * - {@link TripNotFoundError} - No trip exists with the given UUID, or it is not an occurrence of the series
+ * - {@link TripNotEditableError} - The occurrence is no longer SCHEDULED
+ * - {@link SeatsBelowBookingsError} - The new seats are below those its accepted bookings hold on a leg
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type UpdateTripSeriesOccurrenceError =
+	| TripSeriesNotFoundError
+	| DriverNotFoundError
+	| ForbiddenError
+	| TripNotFoundError
+	| TripNotEditableError
+	| SeatsBelowBookingsError
+	| RepositoryError;
+
+/**
+ * Edits one occurrence of a series owned by the requesting driver.
+ *
+ * Business flow:
+ * 1. Look up the series and verify it belongs to the requesting driver
+ * 2. Look up the trip and verify it is an occurrence of the series
+ * 3. Verify the occurrence is still SCHEDULED
+ * 4. Apply the changes, recomputing the estimated arrival time, and detach
+ *    the occurrence from the series, unless it left SCHEDULED in the meantime
+ *    or its accepted bookings hold more seats than the new seats
+ * 5. Publish `TripUpdated`
+ *
+ * @dependencies TripSeriesRepository, TripRepository, DriverRepository, EventBus
+ */
+@injectable()
+export class UpdateTripSeriesOccurrenceUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripSeriesRepository)
+		private readonly tripSeriesRepository: TripSeriesRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.EventBus)
+		private readonly eventBus: EventBus,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'UpdateTripSeriesOccurrenceUseCase' });
+	}
+
+	/**
+	 * Edits the occurrence identified by the given trip UUID.
+	 *
+	 * @param input - The series and trip UUIDs, the validated changes and the authenticated userId
+	 * @returns A Result containing the updated trip, or an UpdateTripSeriesOccurrenceError on failure
+	 */
+	async execute(
+		input: WithAuthContext<UpdateTripSeriesOccurrenceSchemaType> & { seriesId: string; tripId: string },
+	): Promise<Result<TripEntity, UpdateTripSeriesOccurrenceError>> {
+		const seriesResult = await findOwnedSeries(this.tripSeriesRepository, this.driverRepository, input.seriesId, input.userId);
+		if (!seriesResult.success) {
+			return seriesResult;
+		}
+
+		const tripResult = await this.tripRepository.findById(input.tripId);
+		if (!tripResult.success) {
+			return tripResult;
+		}
+		const trip = tripResult.value;
+		if (!trip || trip.seriesRefId !== seriesResult.value.refId) {
+			return err(new TripNotFoundError(input.tripId));
+		}
+		if (!isEditable(trip.status)) {
+			return err(new TripNotEditableError(input.tripId));
+		}
+
+		const updateResult = await this.tripRepository.update(input.tripId, toOccurrenceChanges(input, trip));
+		if (!updateResult.success) {
+			return updateResult;
+		}
+		// The lifecycle job may have started the trip since it was read
+		if (!updateResult.value) {
+			return err(new TripNotEditableError(input.tripId));
+		}
+		this.logger.info('Trip series occurrence updated', { seriesId: input.seriesId, tripId: input.tripId });
+		await this.eventBus.publish(domainEvent('TripUpdated', { tripId: input.tripId }));
+
+		const updatedResult = await this.tripRepository.findById(input.tripId);
+		if (!updatedResult.success) {
+			return updatedResult;
+		}
+		return updatedResult.value ? ok(updatedResult.value) : err(new TripNotFoundError(input.tripId));
+	}
+}
+
+/**
+ * Lists the changes to an occurrence. A new departure time or distance moves
+ * its estimated arrival time.
+ */
+function toOccurrenceChanges(input: UpdateTripSeriesOccurrenceSchemaType, trip: TripEntity): UpdateTripData {
+	const { date, kms, seats, pricePerSeat, requiresApproval } = input;
+	const dateTrip = date !== undefined ? new Date(date) : undefined;
+	const changes: UpdateTripData = { dateTrip, kms, seats, pricePerSeat, requiresApproval, seriesDetached: true };
+	if (dateTrip !== undefined || kms !== undefined) {
+		changes.arrivalAt = estimateArrival(dateTrip ?? new Date(trip.dateTrip), kms ?? trip.kms);
+	}
+	return Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,194 @@
+/**
+ * @file Unit tests for the UpdateTripSeriesUseCase.
+ *
+ * Covers the changes carried over to the upcoming occurrences (but not to
+ * those edited on their own), new departure times, occurrences cancelled when
+ * the series no longer runs on their day, the re-materialization of the
+ * series, occurrences booked above new seats, cancelled series, invalid end
+ * dates, and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	createMockDriverData,
+	createMockDriverRepository,
+	createMockEventBus,
+	createMockInscriptionRepository,
+	createMockLogger,
+	createMockTripConfig,
+	createMockTripData,
+	createMockTripRepository,
+	createMockTripSeriesData,
+	createMockTripSeriesRepository,
+} from '../../../../tests/setup.js';
+import { InvalidTripSeriesScheduleError, SeatsBelowBookingsError, TripSeriesNotActiveError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { MaterializeTripSeriesUseCase } from './materialize-trip-series.use-case.js';
+import { UpdateTripSeriesUseCase } from './update-trip-series.use-case.js';
+
+describe('UpdateTripSeriesUseCase', () => {
+	let useCase: UpdateTripSeriesUseCase;
+	let mockTripSeriesRepo: ReturnType<typeof createMockTripSeriesRepository>;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
+	let materialize: ReturnType<typeof vi.fn>;
+
+	// Monday 19 October 2026 in Paris, after the 07:45 departure
+	const now = new Date('2026-10-19T06:00:00Z');
+	const series = createMockTripSeriesData();
+	// Occurrence of a day of October 2026, at midnight and 07:45 in Paris
+	const occurrence = (day: number, overrides?: Parameters<typeof createMockTripData>[0]) =>
+		createMockTripData({
+			id: `trip-${day}`,
+			refId: day,
+			seriesRefId: 4,
+			occurrenceDate: new Date(Date.UTC(2026, 9, day - 1, 22)),
+			dateTrip: new Date(Date.UTC(2026, 9, day, 5, 45)),
+			...overrides,
+		});
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(now);
+		mockTripSeriesRepo = createMockTripSeriesRepository();
+		mockTripRepo = createMockTripRepository();
+		mockDriverRepo = createMockDriverRepository();
+		mockInscriptionRepo = createMockInscriptionRepository();
+		mockEventBus = createMockEventBus();
+		materialize = vi.fn().mockResolvedValue(ok(0));
+		container.registerInstance(TOKENS.TripSeriesRepository, mockTripSeriesRepo);
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
+		container.registerInstance(MaterializeTripSeriesUseCase, { materialize } as unknown as MaterializeTripSeriesUseCase);
+		container.registerInstance(TOKENS.TripConfig, createMockTripConfig());
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(UpdateTripSeriesUseCase);
+
+		mockTripSeriesRepo.findById.mockResolvedValue(ok(series));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(createMockDriverData({ refId: 10 })));
+		mockTripRepo.findBySeries.mockResolvedValue(ok([occurrence(19, { status: 'IN_PROGRESS' }), occurrence(20), occurrence(21, { seriesDetached: true })]));
+		mockTripRepo.update.mockResolvedValue(ok(true));
+		mockTripRepo.cancel.mockResolvedValue(ok(true));
+		mockInscriptionRepo.findPassengerContacts.mockResolvedValue(ok([]));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should update the series and its upcoming occurrences not edited on their own', async () => {
+		const updated = { ...series, seats: 2 };
+		mockTripSeriesRepo.update.mockResolvedValue(ok(updated));
+
+		const result = await useCase.execute({ id: 'series-id-1', userId: 'user-1', seats: 2 });
+
+		expect(result).toEqual(ok(updated));
+		expect(mockTripSeriesRepo.update).toHaveBeenCalledWith('series-id-1', { seats: 2 });
+		expect(mockTripRepo.update).toHaveBeenCalledTimes(1);
+		expect(mockTripRepo.update).toHaveBeenCalledWith('trip-20', { seats: 2 });
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'TripUpdated', payload: { tripId: 'trip-20' } }));
+		expect(materialize).toHaveBeenCalledWith(updated, now);
+	});
+
+	it('should move the occurrences to the new departure time', async () => {
+		mockTripSeriesRepo.update.mockResolvedValue(ok({ ...series, departureTime: '08:30' }));
+
+		await useCase.execute({ id: 'series-id-1', userId: 'user-1', departureTime: '08:30' });
+
+		expect(mockTripRepo.update).toHaveBeenCalledWith('trip-20', { dateTrip: new Date('2026-10-20T06:30:00Z'), arrivalAt: expect.any(Date) });
+	});
+
+	it('should cancel the occurrences of the days the series no longer runs on', async () => {
+		mockTripSeriesRepo.update.mockResolvedValue(ok({ ...series, daysOfWeek: [1, 3, 5] }));
+
+		await useCase.execute({ id: 'series-id-1', userId: 'user-1', daysOfWeek: [5, 3, 1] });
+
+		expect(mockTripSeriesRepo.update).toHaveBeenCalledWith('series-id-1', { daysOfWeek: [1, 3, 5] });
+		expect(mockTripRepo.cancel).toHaveBeenCalledWith('trip-20', null, now, []);
+		expect(mockTripRepo.update).not.toHaveBeenCalled();
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'TripCancelled' }));
+	});
+
+	it('should not publish TripUpdated for an occurrence that departed in the meantime', async () => {
+		mockTripSeriesRepo.update.mockResolvedValue(ok({ ...series, seats: 2 }));
+		mockTripRepo.update.mockResolvedValue(ok(false));
+
+		await useCase.execute({ id: 'series-id-1', userId: 'user-1', seats: 2 });
+
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
+	});
+
+	it('should keep the seats of an occurrence booked above the new seats', async () => {
+		mockTripSeriesRepo.update.mockResolvedValue(ok({ ...series, seats: 1, departureTime: '08:30' }));
+		mockTripRepo.update.mockResolvedValueOnce(err(new SeatsBelowBookingsError('trip-20', 2)));
+
+		await useCase.execute({ id: 'series-id-1', userId: 'user-1', seats: 1, departureTime: '08:30' });
+
+		expect(mockTripRepo.update).toHaveBeenCalledTimes(2);
+		expect(mockTripRepo.update).toHaveBeenLastCalledWith('trip-20', { dateTrip: new Date('2026-10-20T06:30:00Z'), arrivalAt: expect.any(Date) });
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'TripUpdated', payload: { tripId: 'trip-20' } }));
+	});
+
+	it('should leave an occurrence booked above the new seats untouched when only the seats change', async () => {
+		mockTripSeriesRepo.update.mockResolvedValue(ok({ ...series, seats: 1 }));
+		mockTripRepo.update.mockResolvedValue(err(new SeatsBelowBookingsError('trip-20', 2)));
+
+		const result = await useCase.execute({ id: 'series-id-1', userId: 'user-1', seats: 1 });
+
+		expect(result.success).toBe(true);
+		expect(mockTripRepo.update).toHaveBeenCalledTimes(1);
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
+	});
+
+	it('should return InvalidTripSeriesScheduleError for an end date before the start date', async () => {
+		const result = await useCase.execute({ id: 'series-id-1', userId: 'user-1', endDate: '2026-10-01' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(InvalidTripSeriesScheduleError);
+		expect(mockTripSeriesRepo.update).not.toHaveBeenCalled();
+	});
+
+	it('should make the series open-ended', async () => {
+		mockTripSeriesRepo.update.mockResolvedValue(ok(series));
+
+		await useCase.execute({ id: 'series-id-1', userId: 'user-1', endDate: null });
+
+		expect(mockTripSeriesRepo.update).toHaveBeenCalledWith('series-id-1', { endDate: null });
+	});
+
+	it('should return TripSeriesNotActiveError for a cancelled series', async () => {
+		mockTripSeriesRepo.findById.mockResolvedValue(ok(createMockTripSeriesData({ status: 'CANCELLED' })));
+
+		const result = await useCase.execute({ id: 'series-id-1', userId: 'user-1', seats: 2 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripSeriesNotActiveError);
+	});
+
+	it('should return TripSeriesNotActiveError when the series was cancelled in the meantime', async () => {
+		mockTripSeriesRepo.update.mockResolvedValue(ok(null));
+
+		const result = await useCase.execute({ id: 'series-id-1', userId: 'user-1', seats: 2 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(TripSeriesNotActiveError);
+		expect(mockTripRepo.findBySeries).not.toHaveBeenCalled();
+	});
+
+	it('should propagate repository errors', async () => {
+		mockTripSeriesRepo.update.mockResolvedValue(ok(series));
+		mockTripRepo.findBySeries.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute({ id: 'series-id-1', userId: 'user-1', seats: 2 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
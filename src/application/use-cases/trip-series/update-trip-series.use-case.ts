@@ -0,0 +1,248 @@
+/**
+ * @module UpdateTripSeriesUseCase
+ *
+ * Edits a whole trip series: its recurrence, distance, seats, price or
+ * approval policy. The change applies to the series and to its upcoming
+ * occurrences, except those the driver edited on their own, which keep their
+ * values. Upcoming occurrences that fall on a day the series no longer runs
+ * on are cancelled like a trip cancelled by its driver, and the occurrences
+ * for the days the series now runs on are materialized. An occurrence already
+ * booked above the new seats keeps its seats. Days and departure times are
+ * those of the configured time zone of the trips.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripEntity, UpdateTripData } from '../../../domain/entities/trip.entity.js';
+import type { TripSeriesEntity, UpdateTripSeriesData } from '../../../domain/entities/trip-series.entity.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import { estimateArrival } from '../../../domain/lifecycle/trip-lifecycle.js';
+import { departureOn, isOccurrenceDay, parseDay } from '../../../domain/recurrence/trip-recurrence.js';
+import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { TripSeriesRepository } from '../../../domain/repositories/trip-series.repository.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
+import {
+	type DriverNotFoundError,
+	type ForbiddenError,
+	InvalidTripSeriesScheduleError,
+	SeatsBelowBookingsError,
+	type TripSeriesNotFoundError,
+	TripSeriesNotActiveError,
+} from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import type { TripConfig } from '../../config/trip.config.js';
+import type { UpdateTripSeriesSchemaType } from '../../schemas/trip-series.schema.js';
+import { MaterializeTripSeriesUseCase } from './materialize-trip-series.use-case.js';
+import { cancelOccurrence, findOwnedSeries, findUpcomingOccurrences } from './trip-series.js';
+
+/**
+ * Union of all possible error types returned by the update trip series use case.
+ *
+ * - {@link TripSeriesNotFoundError} - No series exists with the given UUID
+ * - {@link DriverNotFoundError} - The authenticated user has no driver profile
+ * - {@link ForbiddenError} - The series does not belong to the requesting driver
+ * - {@link TripSeriesNotActiveError} - The series was cancelled
+ * - {@link InvalidTripSeriesScheduleError} - The new end date is before the start date
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type UpdateTripSeriesError =
+	| TripSeriesNotFoundError
+	| DriverNotFoundError
+	| ForbiddenError
+	| TripSeriesNotActiveError
+	| InvalidTripSeriesScheduleError
+	| RepositoryError;
+
+/**
+ * Edits a series owned by the requesting driver and carries the change over
+ * to its upcoming occurrences.
+ *
+ * Business flow:
+ * 1. Look up the series and verify it belongs to the requesting driver
+ * 2. Verify the series is ACTIVE and still ends after it starts
+ * 3. Update the series, unless it was cancelled in the meantime
+ * 4. For each upcoming SCHEDULED occurrence not edited on its own:
+ *    - cancel it if the series no longer runs on its day, publishing `TripCancelled`
+ *    - otherwise apply the changed fields, recomputing its departure and arrival
+ *      times, and publish `TripUpdated`; an occurrence whose accepted bookings
+ *      hold more seats than the new seats gets the other changes only
+ * 5. Materialize the occurrences of the days the series now runs on
+ *
+ * An occurrence that cannot be updated or cancelled is logged and skipped, as
+ * is a failure to materialize: the series itself is already updated.
+ *
+ * @dependencies TripSeriesRepository, TripRepository, DriverRepository, InscriptionRepository, EventBus, MaterializeTripSeriesUseCase, TripConfig
+ */
+@injectable()
+export class UpdateTripSeriesUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripSeriesRepository)
+		private readonly tripSeriesRepository: TripSeriesRepository,
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.DriverRepository)
+		private readonly driverRepository: DriverRepository,
+		@inject(TOKENS.InscriptionRepository)
+		private readonly inscriptionRepository: InscriptionRepository,
+		@inject(TOKENS.EventBus)
+		private readonly eventBus: EventBus,
+		@inject(MaterializeTripSeriesUseCase)
+		private readonly materializeTripSeries: MaterializeTripSeriesUseCase,
+		@inject(TOKENS.TripConfig)
+		private readonly tripConfig: TripConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'UpdateTripSeriesUseCase' });
+	}
+
+	/**
+	 * Edits the series identified by the given UUID.
+	 *
+	 * @param input - The series UUID, the validated changes and the authenticated userId
+	 * @returns A Result containing the updated series, or an UpdateTripSeriesError on failure
+	 */
+	async execute(input: WithAuthContext<UpdateTripSeriesSchemaType> & { id: string }): Promise<Result<TripSeriesEntity, UpdateTripSeriesError>> {
+		const seriesResult = await findOwnedSeries(this.tripSeriesRepository, this.driverRepository, input.id, input.userId);
+		if (!seriesResult.success) {
+			return seriesResult;
+		}
+		const series = seriesResult.value;
+		if (series.status !== 'ACTIVE') {
+			return err(new TripSeriesNotActiveError(input.id));
+		}
+
+		const data = toSeriesData(input, this.tripConfig.timeZone);
+		if (data.endDate && data.endDate < series.startDate) {
+			return err(new InvalidTripSeriesScheduleError(input.id));
+		}
+
+		const updateResult = await this.tripSeriesRepository.update(input.id, data);
+		if (!updateResult.success) {
+			return updateResult;
+		}
+		const updated = updateResult.value;
+		// The series may have been cancelled since it was read
+		if (!updated) {
+			return err(new TripSeriesNotActiveError(input.id));
+		}
+		this.logger.info('Trip series updated', { seriesId: input.id });
+
+		const propagateResult = await this.propagate(updated, data);
+		if (!propagateResult.success) {
+			return propagateResult;
+		}
+		return ok(updated);
+	}
+
+	/**
+	 * Carries the changes of the series over to its upcoming occurrences, then
+	 * materializes the occurrences of the days it now runs on.
+	 */
+	private async propagate(series: TripSeriesEntity, data: UpdateTripSeriesData): Promise<Result<void, RepositoryError>> {
+		const now = new Date();
+		const occurrencesResult = await findUpcomingOccurrences(this.tripRepository, series.refId, now, this.tripConfig.timeZone);
+		if (!occurrencesResult.success) {
+			return occurrencesResult;
+		}
+		for (const occurrence of occurrencesResult.value) {
+			if (!occurrence.seriesDetached) {
+				await this.applyToOccurrence(series, data, occurrence, now);
+			}
+		}
+
+		const materialized = await this.materializeTripSeries.materialize(series, now);
+		if (!materialized.success) {
+			this.logger.error('Failed to materialize updated trip series', materialized.error, { seriesId: series.id });
+		}
+		return ok(undefined);
+	}
+
+	/**
+	 * Cancels an occurrence the series no longer runs on, or applies the changes to it.
+	 */
+	private async applyToOccurrence(series: TripSeriesEntity, data: UpdateTripSeriesData, occurrence: TripEntity, now: Date): Promise<void> {
+		const { timeZone } = this.tripConfig;
+		const day = new Date(occurrence.occurrenceDate ?? occurrence.dateTrip);
+		if (!isOccurrenceDay(series, day, timeZone)) {
+			const deps = { tripRepository: this.tripRepository, inscriptionRepository: this.inscriptionRepository, eventBus: this.eventBus };
+			const cancelResult = await cancelOccurrence(deps, occurrence, null, now);
+			if (!cancelResult.success) {
+				this.logger.error('Failed to cancel trip series occurrence', cancelResult.error, { seriesId: series.id, tripId: occurrence.id });
+			}
+			return;
+		}
+
+		const changes = toOccurrenceChanges(series, data, day, timeZone);
+		if (Object.keys(changes).length === 0) {
+			return;
+		}
+		const updateResult = await this.updateOccurrence(series, occurrence, changes);
+		if (!updateResult.success) {
+			this.logger.error('Failed to update trip series occurrence', updateResult.error, { seriesId: series.id, tripId: occurrence.id });
+			return;
+		}
+		if (updateResult.value) {
+			await this.eventBus.publish(domainEvent('TripUpdated', { tripId: occurrence.id }));
+		}
+	}
+
+	/**
+	 * Applies the changes to an occurrence. An occurrence whose accepted bookings
+	 * hold more seats than the new seats keeps its seats and gets the other changes only.
+	 */
+	private async updateOccurrence(
+		series: TripSeriesEntity,
+		occurrence: TripEntity,
+		changes: UpdateTripData,
+	): Promise<Result<boolean, RepositoryError | SeatsBelowBookingsError>> {
+		const result = await this.tripRepository.update(occurrence.id, changes);
+		if (result.success || !(result.error instanceof SeatsBelowBookingsError)) {
+			return result;
+		}
+		this.logger.warn('Trip series occurrence booked above the new seats, keeping its seats', { seriesId: series.id, tripId: occurrence.id });
+		const otherChanges: UpdateTripData = Object.fromEntries(Object.entries(changes).filter(([field]) => field !== 'seats'));
+		if (Object.keys(otherChanges).length === 0) {
+			return ok(false);
+		}
+		return this.tripRepository.update(occurrence.id, otherChanges);
+	}
+}
+
+/**
+ * Maps the validated request body onto the fields of the series, its days
+ * being taken at midnight in the time zone of the trips.
+ */
+function toSeriesData(input: UpdateTripSeriesSchemaType, timeZone: string): UpdateTripSeriesData {
+	const day = (value: string) => parseDay(value, timeZone);
+	const { daysOfWeek, departureTime, endDate, exceptions, kms, seats, pricePerSeat, requiresApproval } = input;
+	const data: UpdateTripSeriesData = { departureTime, kms, seats, pricePerSeat, requiresApproval };
+	if (daysOfWeek !== undefined) data.daysOfWeek = [...daysOfWeek].sort((a, b) => a - b);
+	if (endDate !== undefined) data.endDate = endDate === null ? null : day(endDate);
+	if (exceptions !== undefined) data.exceptionDates = exceptions.map(day);
+	return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Lists the changes of the series that apply to one of its occurrences. A new
+ * departure time or distance moves its departure and estimated arrival times.
+ */
+function toOccurrenceChanges(series: TripSeriesEntity, data: UpdateTripSeriesData, day: Date, timeZone: string): UpdateTripData {
+	const changes: UpdateTripData = {};
+	if (data.departureTime !== undefined || data.kms !== undefined) {
+		changes.dateTrip = departureOn(day, series.departureTime, timeZone);
+		changes.arrivalAt = estimateArrival(changes.dateTrip, series.kms);
+	}
+	if (data.kms !== undefined) changes.kms = data.kms;
+	if (data.seats !== undefined) changes.seats = data.seats;
+	if (data.pricePerSeat !== undefined) changes.pricePerSeat = data.pricePerSeat;
+	if (data.requiresApproval !== undefined) changes.requiresApproval = data.requiresApproval;
+	return changes;
+}
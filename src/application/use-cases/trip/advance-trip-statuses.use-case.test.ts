@@ -0,0 +1,52 @@
+/**
+ * @file Unit tests for the AdvanceTripStatusesUseCase.
+ *
+ * Covers the clock passed to the repository, the run summary and lookup
+ * error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockLogger, createMockTripRepository } from '../../../../tests/setup.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { AdvanceTripStatusesUseCase } from './advance-trip-statuses.use-case.js';
+
+describe('AdvanceTripStatusesUseCase', () => {
+	let useCase: AdvanceTripStatusesUseCase;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+
+	const now = new Date('2026-10-18T10:00:00.000Z');
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(now);
+		mockTripRepo = createMockTripRepository();
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(AdvanceTripStatusesUseCase);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should advance the trips against the current time', async () => {
+		mockTripRepo.advanceStatuses.mockResolvedValue(ok({ started: 2, completed: 1 }));
+
+		const result = await useCase.execute();
+
+		expect(result).toEqual(ok({ started: 2, completed: 1 }));
+		expect(mockTripRepo.advanceStatuses).toHaveBeenCalledWith(now);
+	});
+
+	it('should propagate repository errors', async () => {
+		mockTripRepo.advanceStatuses.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute();
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
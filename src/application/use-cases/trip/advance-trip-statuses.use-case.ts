@@ -0,0 +1,53 @@
+/**
+ * @module AdvanceTripStatusesUseCase
+ *
+ * Moves trips along their lifecycle as time passes. Run repeatedly by the
+ * trip status job; each run starts the SCHEDULED trips whose departure time
+ * has passed and completes the IN_PROGRESS trips whose estimated arrival time
+ * has passed, which opens them to reviews.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripStatusAdvance } from '../../../domain/entities/trip.entity.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+
+/**
+ * Advances the status of the trips that departed or arrived.
+ *
+ * Business flow:
+ * 1. Start the SCHEDULED trips whose departure time has passed
+ * 2. Complete the IN_PROGRESS trips whose arrival time has passed
+ * 3. Return how many trips were started and completed
+ *
+ * @dependencies TripRepository
+ */
+@injectable()
+export class AdvanceTripStatusesUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'AdvanceTripStatusesUseCase' });
+	}
+
+	/**
+	 * Advances the trip statuses once.
+	 *
+	 * @returns A Result containing how many trips were started and completed,
+	 *          or a RepositoryError if the statuses could not be updated
+	 */
+	async execute(): Promise<Result<TripStatusAdvance, RepositoryError>> {
+		const result = await this.tripRepository.advanceStatuses(new Date());
+		if (result.success && result.value.started + result.value.completed > 0) {
+			this.logger.info('Trip statuses advanced', result.value);
+		}
+		return result;
+	}
+}
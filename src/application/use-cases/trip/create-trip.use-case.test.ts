@@ -3,7 +3,7 @@
  *
  * Covers successful trip creation with existing cities, auto-creation of new
  * cities, mixed city scenarios, and error propagation from each repository
- * dependency (driver, car, city).
+ * dependency (driver, car, city). A successful creation publishes TripCreated.
  */
 
 import { container } from 'tsyringe';
@@ -12,6 +12,7 @@ import {
 	createMockCarRepository,
 	createMockCityRepository,
 	createMockDriverRepository,
+	createMockEventBus,
 	createMockLogger,
 	createMockTripRepository,
 } from '../../../../tests/setup.js';
@@ -27,12 +28,13 @@ describe('CreateTripUseCase', () => {
 	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
 	let mockCarRepo: ReturnType<typeof createMockCarRepository>;
 	let mockCityRepo: ReturnType<typeof createMockCityRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
 
 	const driver = { id: 'driver-1', refId: 10, userId: 1, licenseNumber: 'ABC123', anonymizedAt: null, createdAt: new Date(), updatedAt: new Date() };
 	const car = { id: 'car-1', refId: 20, licensePlate: 'XX-123-YY', modelRefId: 1, driverRefId: 10 };
 	const departureCity = { id: 'city-1', refId: 30, cityName: 'Paris', zipcode: '75000' };
 	const arrivalCity = { id: 'city-2', refId: 31, cityName: 'Lyon', zipcode: '69000' };
-	const trip = { id: 'trip-1', refId: 1, dateTrip: new Date('2025-06-15'), kms: 450, seats: 3, driverRefId: 10, carRefId: 20 };
+	const trip = { id: 'trip-1', refId: 1, dateTrip: new Date('2025-06-15'), kms: 450, seats: 3, pricePerSeat: 2700, driverRefId: 10, carRefId: 20 };
 
 	const validInput = {
 		userId: 'user-1',
@@ -49,10 +51,12 @@ describe('CreateTripUseCase', () => {
 		mockDriverRepo = createMockDriverRepository();
 		mockCarRepo = createMockCarRepository();
 		mockCityRepo = createMockCityRepository();
+		mockEventBus = createMockEventBus();
 		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
 		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
 		container.registerInstance(TOKENS.CarRepository, mockCarRepo);
 		container.registerInstance(TOKENS.CityRepository, mockCityRepo);
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
 		container.registerInstance(TOKENS.Logger, createMockLogger());
 		useCase = container.resolve(CreateTripUseCase);
 	});
@@ -71,13 +75,64 @@ describe('CreateTripUseCase', () => {
 		if (result.success) expect(result.value).toEqual(trip);
 		expect(mockTripRepo.create).toHaveBeenCalledWith({
 			dateTrip: new Date('2025-06-15'),
+			// 450 km at 80 km/h, rounded up to the minute
+			arrivalAt: new Date('2025-06-15T05:38:00.000Z'),
 			kms: 450,
 			seats: 3,
+			pricePerSeat: 2700,
+			requiresApproval: false,
 			driverRefId: 10,
 			carRefId: 20,
 			cityRefIds: [30, 31],
 		});
 		expect(mockCityRepo.create).not.toHaveBeenCalled();
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'TripCreated', payload: { tripId: 'trip-1' } }));
+	});
+
+	// Multi-stop trip: intermediate stops are resolved and linked in route order
+	it('should link intermediate stops between departure and arrival', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
+		mockCarRepo.findById.mockResolvedValue(ok(car));
+		mockCityRepo.findByCityName.mockResolvedValueOnce(ok(departureCity));
+		mockCityRepo.findByCityName.mockResolvedValueOnce(ok({ id: 'city-lyon', refId: 35, cityName: 'Lyon', zipcode: '69000' }));
+		mockCityRepo.findByCityName.mockResolvedValueOnce(ok(arrivalCity));
+		mockTripRepo.create.mockResolvedValue(ok(trip));
+
+		const result = await useCase.execute({ ...validInput, stops: ['Lyon'] });
+
+		expect(result.success).toBe(true);
+		expect(mockCityRepo.findByCityName).toHaveBeenNthCalledWith(2, 'Lyon');
+		expect(mockTripRepo.create).toHaveBeenCalledWith(expect.objectContaining({ cityRefIds: [30, 35, 31] }));
+	});
+
+	// Price set by the driver takes precedence over the suggested price
+	it('should use the price per seat provided by the driver', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
+		mockCarRepo.findById.mockResolvedValue(ok(car));
+		mockCityRepo.findByCityName.mockResolvedValueOnce(ok(departureCity));
+		mockCityRepo.findByCityName.mockResolvedValueOnce(ok(arrivalCity));
+		mockTripRepo.create.mockResolvedValue(ok(trip));
+
+		await useCase.execute({ ...validInput, pricePerSeat: 1990 });
+
+		expect(mockTripRepo.create).toHaveBeenCalledWith(
+			expect.objectContaining({ pricePerSeat: 1990 }),
+		);
+	});
+
+	// Driver opts into manual approval of passengers
+	it('should pass requiresApproval through to the repository', async () => {
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
+		mockCarRepo.findById.mockResolvedValue(ok(car));
+		mockCityRepo.findByCityName.mockResolvedValueOnce(ok(departureCity));
+		mockCityRepo.findByCityName.mockResolvedValueOnce(ok(arrivalCity));
+		mockTripRepo.create.mockResolvedValue(ok(trip));
+
+		await useCase.execute({ ...validInput, requiresApproval: true });
+
+		expect(mockTripRepo.create).toHaveBeenCalledWith(
+			expect.objectContaining({ requiresApproval: true }),
+		);
 	});
 
 	// Both cities are new and must be auto-created with empty zipcode
@@ -167,5 +222,6 @@ describe('CreateTripUseCase', () => {
 		expect(result.success).toBe(false);
 		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
 		expect(mockTripRepo.create).not.toHaveBeenCalled();
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
 	});
 });
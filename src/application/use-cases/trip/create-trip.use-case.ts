@@ -2,25 +2,34 @@
  * @module CreateTripUseCase
  *
  * Creates a new carpooling trip offered by a driver. A trip
- * connects two cities on a specific date with a given number of available
+ * connects a departure and an arrival city, optionally through ordered
+ * intermediate stops, on a specific date with a given number of available
  * seats and is linked to a driver and their car. Cities are found or
- * auto-created by name.
+ * auto-created by name. The per-seat price defaults to the suggested
+ * cost-sharing price when the driver does not set one. The trip starts
+ * SCHEDULED, with an arrival time estimated from its distance. Once the trip
+ * is stored, a `TripCreated` event is published.
  */
 
 import { inject, injectable } from 'tsyringe';
 import type { TripEntity } from '../../../domain/entities/trip.entity.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import { estimateArrival } from '../../../domain/lifecycle/trip-lifecycle.js';
+import { suggestPricePerSeat } from '../../../domain/pricing/trip-pricing.js';
 import { DriverNotFoundError, CarNotFoundError } from '../../../lib/errors/domain.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
 import type { CarRepository } from '../../../domain/repositories/car.repository.js';
 import type { CityRepository } from '../../../domain/repositories/city.repository.js';
 import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import { err } from '../../../lib/shared/types/result.js';
 import type { CreateTripSchemaType } from '../../schemas/trip.schema.js';
 import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js';
+import { resolveRouteCityRefIds } from './trip-route.js';
 
 /**
  * Union of all possible error types returned by the create trip use case.
@@ -37,12 +46,15 @@ type CreateTripError = DriverNotFoundError | CarNotFoundError | RepositoryError;
  * Business flow:
  * 1. Resolve the user UUID to find the associated driver profile
  * 2. Resolve the car UUID to its internal refId
- * 3. Find or create departure and arrival cities by name
- * 4. Persist the trip record with all resolved refIds
+ * 3. Find or create the departure, intermediate stop and arrival cities by name
+ * 4. Persist the trip record with all resolved refIds, cities in route order
+ *    and the estimated arrival time
+ * 5. Publish `TripCreated`
  *
  * Cities that do not yet exist are auto-created with an empty zipcode.
+ * When no pricePerSeat is supplied, the price suggested from the distance is used.
  *
- * @dependencies TripRepository, DriverRepository, CityRepository, CarRepository
+ * @dependencies TripRepository, DriverRepository, CityRepository, CarRepository, EventBus
  */
 @injectable()
 export class CreateTripUseCase {
@@ -57,6 +69,8 @@ export class CreateTripUseCase {
         private readonly cityRepository: CityRepository,
         @inject(TOKENS.CarRepository)
         private readonly carRepository: CarRepository,
+        @inject(TOKENS.EventBus)
+        private readonly eventBus: EventBus,
         @inject(TOKENS.Logger) logger: Logger,
     ) {
         this.logger = logger.child({ useCase: 'CreateTripUseCase' });
@@ -66,7 +80,8 @@ export class CreateTripUseCase {
      * Creates a new trip for the authenticated driver.
      *
      * @param input - Validated payload containing date, kms, seats, carId,
-     *                departureCity, arrivalCity, and the authenticated userId
+     *                departureCity, arrivalCity, optional stops, pricePerSeat and requiresApproval,
+     *                and the authenticated userId
      * @returns A Result containing the created TripEntity on success,
      *          or a CreateTripError on failure
      */
@@ -91,47 +106,29 @@ export class CreateTripUseCase {
             return err(new CarNotFoundError(input.carId));
         }
 
-        const departureCityRefIdResult = await this.findOrCreateCityRefId(input.departureCity);
-        if (!departureCityRefIdResult.success) {
-            return departureCityRefIdResult;
-        }
-
-        const arrivalCityRefIdResult = await this.findOrCreateCityRefId(input.arrivalCity);
-        if (!arrivalCityRefIdResult.success) {
-            return arrivalCityRefIdResult;
+        const routeResult = await resolveRouteCityRefIds(this.cityRepository, [input.departureCity, ...(input.stops ?? []), input.arrivalCity]);
+        if (!routeResult.success) {
+            return routeResult;
         }
 
+        const dateTrip = new Date(input.date);
         const result = await this.tripRepository.create({
-            dateTrip: new Date(input.date),
+            dateTrip,
+            arrivalAt: estimateArrival(dateTrip, input.kms),
             kms: input.kms,
             seats: input.seats,
+            pricePerSeat: input.pricePerSeat ?? suggestPricePerSeat(input.kms),
+            requiresApproval: input.requiresApproval ?? false,
             driverRefId: driverResult.value.refId,
             carRefId: carResult.value.refId,
-            cityRefIds: [departureCityRefIdResult.value, arrivalCityRefIdResult.value],
+            cityRefIds: routeResult.value,
         });
 
         if (result.success) {
             this.logger.info('Trip created', { tripId: result.value.id });
+            await this.eventBus.publish(domainEvent('TripCreated', { tripId: result.value.id }));
         }
 
         return result;
     }
-
-    private async findOrCreateCityRefId(cityName: string): Promise<Result<number, RepositoryError>> {
-        const findResult = await this.cityRepository.findByCityName(cityName);
-        if (!findResult.success) {
-            return findResult;
-        }
-
-        if (findResult.value) {
-            return { success: true, value: findResult.value.refId };
-        }
-
-        const createResult = await this.cityRepository.create({ cityName, zipcode: '' });
-        if (!createResult.success) {
-            return createResult;
-        }
-
-        return { success: true, value: createResult.value.refId };
-    }
 }
@@ -1,18 +1,28 @@
 /**
  * @file Unit tests for the DeleteTripUseCase.
  *
- * Covers successful deletion, trip not found, driver not found, ownership
- * verification (ForbiddenError), and repository error propagation.
+ * Covers successful cancellation, the emails to the booked passengers recorded
+ * with it, the TripCancelled event carrying the reason and the booked passengers, trip not found, driver not found,
+ * ownership verification (ForbiddenError), trips that are no longer
+ * SCHEDULED, and repository error propagation.
  */
 
 import { container } from 'tsyringe';
 import { beforeEach, describe, expect, it } from 'vitest';
 import {
 	createMockDriverRepository,
+	createMockEventBus,
+	createMockInscriptionRepository,
 	createMockLogger,
+	createMockTripData,
 	createMockTripRepository,
 } from '../../../../tests/setup.js';
-import { DriverNotFoundError, ForbiddenError, TripNotFoundError } from '../../../lib/errors/domain.errors.js';
+import {
+	DriverNotFoundError,
+	ForbiddenError,
+	InvalidTripStatusTransitionError,
+	TripNotFoundError,
+} from '../../../lib/errors/domain.errors.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
@@ -22,30 +32,87 @@ describe('DeleteTripUseCase', () => {
 	let useCase: DeleteTripUseCase;
 	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
 	let mockDriverRepo: ReturnType<typeof createMockDriverRepository>;
+	let mockInscriptionRepo: ReturnType<typeof createMockInscriptionRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
 
-	const trip = { id: 'trip-1', refId: 1, dateTrip: new Date(), kms: 100, seats: 3, driverRefId: 10, carRefId: 20 };
+	const trip = createMockTripData({ id: 'trip-1', refId: 1, dateTrip: new Date('2026-10-20T08:00:00.000Z'), driverRefId: 10, carRefId: 20 });
 	const driver = { id: 'driver-1', refId: 10, userId: 1, licenseNumber: 'ABC123', anonymizedAt: null, createdAt: new Date(), updatedAt: new Date() };
-	const validInput = { id: 'trip-1', userId: 'user-1' };
+	const validInput = { id: 'trip-1', userId: 'user-1', reason: 'Car broke down' };
 
 	beforeEach(() => {
 		mockTripRepo = createMockTripRepository();
 		mockDriverRepo = createMockDriverRepository();
+		mockInscriptionRepo = createMockInscriptionRepository();
+		mockInscriptionRepo.findPassengerContacts.mockResolvedValue(ok([]));
+		mockEventBus = createMockEventBus();
 		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
 		container.registerInstance(TOKENS.DriverRepository, mockDriverRepo);
+		container.registerInstance(TOKENS.InscriptionRepository, mockInscriptionRepo);
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
 		container.registerInstance(TOKENS.Logger, createMockLogger());
 		useCase = container.resolve(DeleteTripUseCase);
 	});
 
-	// Happy path: trip exists, driver owns it, deletion succeeds
-	it('should delete trip when driver owns it', async () => {
+	// Happy path: trip exists, driver owns it, it is still scheduled
+	it('should cancel the trip when driver owns it', async () => {
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
+		mockTripRepo.cancel.mockResolvedValue(ok(true));
+
+		const result = await useCase.execute(validInput);
+
+		expect(result.success).toBe(true);
+		expect(mockTripRepo.cancel).toHaveBeenCalledWith('trip-1', 'Car broke down', expect.any(Date), []);
+	});
+
+	it('should store a missing reason as null', async () => {
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
+		mockTripRepo.cancel.mockResolvedValue(ok(true));
+
+		await useCase.execute({ id: 'trip-1', userId: 'user-1' });
+
+		expect(mockTripRepo.cancel).toHaveBeenCalledWith('trip-1', null, expect.any(Date), []);
+	});
+
+	// The booked passengers are looked up before the cancellation so that they can be told
+	it('should email the booked passengers with the cancellation and publish TripCancelled', async () => {
+		const passengers = [
+			{ id: 'jane-id', email: 'jane@example.com', firstName: 'Jane', locale: 'fr' as const },
+			{ id: 'max-id', email: 'max@example.com', firstName: null, locale: 'en' as const },
+		];
 		mockTripRepo.findById.mockResolvedValue(ok(trip));
 		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
-		mockTripRepo.delete.mockResolvedValue(ok(undefined));
+		mockInscriptionRepo.findPassengerContacts.mockResolvedValue(ok(passengers));
+		mockTripRepo.cancel.mockResolvedValue(ok(true));
 
 		const result = await useCase.execute(validInput);
 
 		expect(result.success).toBe(true);
-		expect(mockTripRepo.delete).toHaveBeenCalledWith('trip-1');
+		expect(mockInscriptionRepo.findPassengerContacts).toHaveBeenCalledWith(1);
+		const [, , , outbox] = mockTripRepo.cancel.mock.calls[0];
+		expect(outbox).toEqual([
+			{
+				type: 'EMAIL',
+				payload: {
+					to: 'jane@example.com',
+					locale: 'fr',
+					message: { template: 'trip-cancelled', variables: { firstName: 'Jane', tripDate: '2026-10-20T08:00:00.000Z', reason: 'Car broke down' } },
+				},
+			},
+			{
+				type: 'EMAIL',
+				payload: {
+					to: 'max@example.com',
+					locale: 'en',
+					message: { template: 'trip-cancelled', variables: { firstName: null, tripDate: '2026-10-20T08:00:00.000Z', reason: 'Car broke down' } },
+				},
+			},
+		]);
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({
+			type: 'TripCancelled',
+			payload: { tripId: 'trip-1', dateTrip: trip.dateTrip, reason: 'Car broke down', passengers },
+		}));
 	});
 
 	// Trip UUID does not exist
@@ -69,7 +136,7 @@ describe('DeleteTripUseCase', () => {
 		if (!result.success) expect(result.error).toBeInstanceOf(DriverNotFoundError);
 	});
 
-	// Security-critical: driver cannot delete another driver's trip
+	// Security-critical: driver cannot cancel another driver's trip
 	it('should return ForbiddenError when driver does not own the trip', async () => {
 		const otherDriver = { ...driver, refId: 999 };
 		mockTripRepo.findById.mockResolvedValue(ok(trip));
@@ -79,7 +146,32 @@ describe('DeleteTripUseCase', () => {
 
 		expect(result.success).toBe(false);
 		if (!result.success) expect(result.error).toBeInstanceOf(ForbiddenError);
-		expect(mockTripRepo.delete).not.toHaveBeenCalled();
+		expect(mockTripRepo.cancel).not.toHaveBeenCalled();
+		expect(mockInscriptionRepo.findPassengerContacts).not.toHaveBeenCalled();
+	});
+
+	it.each(['IN_PROGRESS', 'COMPLETED', 'CANCELLED'])('should return InvalidTripStatusTransitionError for a %s trip', async (status) => {
+		mockTripRepo.findById.mockResolvedValue(ok({ ...trip, status }));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
+
+		const result = await useCase.execute(validInput);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(InvalidTripStatusTransitionError);
+		expect(mockTripRepo.cancel).not.toHaveBeenCalled();
+	});
+
+	// The lifecycle job started the trip between the lookup and the cancellation
+	it('should return InvalidTripStatusTransitionError when the trip departed meanwhile', async () => {
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
+		mockTripRepo.cancel.mockResolvedValue(ok(false));
+
+		const result = await useCase.execute(validInput);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(InvalidTripStatusTransitionError);
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
 	});
 
 	// DB error during trip lookup propagates
@@ -92,15 +184,29 @@ describe('DeleteTripUseCase', () => {
 		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
 	});
 
-	// DB error during deletion propagates
-	it('should propagate error from tripRepository.delete', async () => {
+	// DB error while looking up the passengers propagates, nothing is cancelled
+	it('should propagate error from inscriptionRepository.findPassengerContacts', async () => {
+		mockTripRepo.findById.mockResolvedValue(ok(trip));
+		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
+		mockInscriptionRepo.findPassengerContacts.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute(validInput);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+		expect(mockTripRepo.cancel).not.toHaveBeenCalled();
+	});
+
+	// DB error during cancellation propagates
+	it('should propagate error from tripRepository.cancel', async () => {
 		mockTripRepo.findById.mockResolvedValue(ok(trip));
 		mockDriverRepo.findByUserId.mockResolvedValue(ok(driver));
-		mockTripRepo.delete.mockResolvedValue(err(new DatabaseError('db error')));
+		mockTripRepo.cancel.mockResolvedValue(err(new DatabaseError('db error')));
 
 		const result = await useCase.execute(validInput);
 
 		expect(result.success).toBe(false);
 		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
 	});
 });
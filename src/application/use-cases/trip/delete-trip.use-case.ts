@@ -1,19 +1,34 @@
 /**
  * @module DeleteTripUseCase
  *
- * Deletes an existing carpooling trip by its UUID. Verifies the trip
- * exists and that the requesting driver owns it before attempting deletion.
+ * Cancels a carpooling trip by its UUID, optionally with a reason. Verifies
+ * the trip exists, that the requesting driver owns it and that it has not
+ * departed yet. The trip is kept with the CANCELLED status, and its pending
+ * and active bookings are cancelled with it. The passengers still booked are
+ * looked up beforehand: the emails telling them are recorded in the outbox
+ * with the cancellation, and they are carried by the `TripCancelled` event
+ * published once the trip is cancelled.
  */
 
 import { inject, injectable } from 'tsyringe';
-import { TripNotFoundError, DriverNotFoundError, ForbiddenError } from '../../../lib/errors/domain.errors.js';
+import { canTransition } from '../../../domain/lifecycle/trip-lifecycle.js';
+import {
+    TripNotFoundError,
+    DriverNotFoundError,
+    ForbiddenError,
+    InvalidTripStatusTransitionError,
+} from '../../../lib/errors/domain.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
 import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import { tripCancelledEmails } from '../../../domain/outbox/trip-emails.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
-import { err } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
 
 /**
  * Union of all possible error types returned by the delete trip use case.
@@ -21,20 +36,26 @@ import { err } from '../../../lib/shared/types/result.js';
  * - {@link TripNotFoundError} - No trip exists with the given UUID
  * - {@link DriverNotFoundError} - The authenticated user has no driver profile
  * - {@link ForbiddenError} - The trip does not belong to the requesting driver
- * - {@link RepositoryError} - Database-level failure during lookup or deletion
+ * - {@link InvalidTripStatusTransitionError} - The trip has already departed, completed or been cancelled
+ * - {@link RepositoryError} - Database-level failure during lookup or cancellation
  */
-type DeleteTripError = TripNotFoundError | DriverNotFoundError | ForbiddenError | RepositoryError;
+type DeleteTripError = TripNotFoundError | DriverNotFoundError | ForbiddenError | InvalidTripStatusTransitionError | RepositoryError;
 
 /**
- * Deletes a trip after verifying it exists and belongs to the requesting driver.
+ * Cancels a trip after verifying it exists, belongs to the requesting driver
+ * and is still SCHEDULED.
  *
  * Business flow:
  * 1. Look up the trip by UUID
  * 2. Resolve the authenticated user to their driver profile
  * 3. Verify the trip belongs to the requesting driver
- * 4. Delete the trip record
+ * 4. Verify the trip can move to CANCELLED
+ * 5. Look up the passengers still booked on the trip
+ * 6. Cancel the trip and its bookings, unless it departed in the meantime, with the
+ *    emails telling the passengers in the outbox
+ * 7. Publish `TripCancelled` with the reason and the passengers that were booked
  *
- * @dependencies TripRepository, DriverRepository
+ * @dependencies TripRepository, DriverRepository, InscriptionRepository, EventBus
  */
 @injectable()
 export class DeleteTripUseCase {
@@ -45,25 +66,30 @@ export class DeleteTripUseCase {
         private readonly tripRepository: TripRepository,
         @inject(TOKENS.DriverRepository)
         private readonly driverRepository: DriverRepository,
+        @inject(TOKENS.InscriptionRepository)
+        private readonly inscriptionRepository: InscriptionRepository,
+        @inject(TOKENS.EventBus)
+        private readonly eventBus: EventBus,
         @inject(TOKENS.Logger) logger: Logger,
     ) {
         this.logger = logger.child({ useCase: 'DeleteTripUseCase' });
     }
 
     /**
-     * Deletes the trip identified by the given UUID, after verifying ownership.
+     * Cancels the trip identified by the given UUID, after verifying ownership and status.
      *
-     * @param input - Object containing the trip UUID and the authenticated userId
+     * @param input - Object containing the trip UUID, the authenticated userId and an optional reason
      * @returns A Result containing void on success, or a DeleteTripError on failure
      */
-    async execute(input: { id: string; userId: string }): Promise<Result<void, DeleteTripError>> {
+    async execute(input: { id: string; userId: string; reason?: string }): Promise<Result<void, DeleteTripError>> {
         const findResult = await this.tripRepository.findById(input.id);
         if (!findResult.success) {
             return findResult;
         }
 
-        if (!findResult.value) {
-            this.logger.warn('Trip not found for deletion', { tripId: input.id });
+        const trip = findResult.value;
+        if (!trip) {
+            this.logger.warn('Trip not found for cancellation', { tripId: input.id });
             return err(new TripNotFoundError(input.id));
         }
 
@@ -76,15 +102,35 @@ export class DeleteTripUseCase {
             return err(new DriverNotFoundError(input.userId));
         }
 
-        if (findResult.value.driverRefId !== driverResult.value.refId) {
-            this.logger.warn('Ownership check failed for trip deletion', { tripId: input.id, userId: input.userId });
+        if (trip.driverRefId !== driverResult.value.refId) {
+            this.logger.warn('Ownership check failed for trip cancellation', { tripId: input.id, userId: input.userId });
             return err(new ForbiddenError('Trip', input.id));
         }
 
-        const deleteResult = await this.tripRepository.delete(input.id);
-        if (deleteResult.success) {
-            this.logger.info('Trip deleted', { tripId: input.id });
+        if (!canTransition(trip.status, 'CANCELLED')) {
+            return err(new InvalidTripStatusTransitionError(input.id, trip.status, 'CANCELLED'));
         }
-        return deleteResult;
+
+        const contactsResult = await this.inscriptionRepository.findPassengerContacts(trip.refId);
+        if (!contactsResult.success) {
+            return contactsResult;
+        }
+
+        const reason = input.reason ?? null;
+        // Cached trips come back with dateTrip serialized, hence the Date wrapper
+        const dateTrip = new Date(trip.dateTrip);
+        const outbox = tripCancelledEmails(contactsResult.value, dateTrip, reason);
+        const cancelResult = await this.tripRepository.cancel(input.id, reason, new Date(), outbox);
+        if (!cancelResult.success) {
+            return cancelResult;
+        }
+        // The lifecycle job may have started the trip since it was read
+        if (!cancelResult.value) {
+            this.logger.warn('Trip left SCHEDULED before it could be cancelled', { tripId: input.id });
+            return err(new InvalidTripStatusTransitionError(input.id, 'IN_PROGRESS', 'CANCELLED'));
+        }
+        this.logger.info('Trip cancelled', { tripId: input.id, bookedPassengers: contactsResult.value.length });
+        await this.eventBus.publish(domainEvent('TripCancelled', { tripId: input.id, dateTrip, reason, passengers: contactsResult.value }));
+        return ok(undefined);
     }
 }
@@ -1,82 +1,178 @@
 /**
  * @file Unit tests for the FindTripUseCase.
  *
- * Covers filter passthrough, date string-to-Date conversion, empty filters,
- * and repository error propagation.
+ * Covers filter passthrough, date string-to-Date range conversion, the configured
+ * time zone of trips, pagination envelope, driver ratings on each result, and
+ * repository error propagation.
  */
 
 import { container } from 'tsyringe';
 import { beforeEach, describe, expect, it } from 'vitest';
-import { createMockLogger, createMockTripRepository } from '../../../../tests/setup.js';
+import { createMockLogger, createMockReviewRepository, createMockTripConfig, createMockTripRepository } from '../../../../tests/setup.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
+import { DEFAULT_SEARCH_RADIUS_KM } from '../../schemas/trip.schema.js';
 import { FindTripUseCase } from './find-trip.use-case.js';
 
 describe('FindTripUseCase', () => {
 	let useCase: FindTripUseCase;
 	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+	let mockReviewRepo: ReturnType<typeof createMockReviewRepository>;
 
 	const trips = [
 		{ id: 'trip-1', refId: 1, dateTrip: new Date(), kms: 100, seats: 3, driverRefId: 1, carRefId: 1 },
 	];
+	const rating = { average: 4.5, count: 2 };
 
 	beforeEach(() => {
 		mockTripRepo = createMockTripRepository();
+		mockReviewRepo = createMockReviewRepository();
 		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.ReviewRepository, mockReviewRepo);
+		container.registerInstance(TOKENS.TripConfig, createMockTripConfig({ timeZone: 'America/Toronto' }));
 		container.registerInstance(TOKENS.Logger, createMockLogger());
 		useCase = container.resolve(FindTripUseCase);
+
+		mockReviewRepo.summarizeDrivers.mockResolvedValue(ok(new Map([[1, rating]])));
 	});
 
-	// All filters provided — date string converted to Date object
-	it('should pass all filters to repository with date as Date object', async () => {
-		mockTripRepo.findByFilters.mockResolvedValue(ok(trips));
+	// Single date converted to a one-day Date range, read in the configured time zone, default pagination
+	it('should pass filters to repository with date as a one-day range', async () => {
+		mockTripRepo.findByFilters.mockResolvedValue(ok({ data: trips, total: 1 }));
 
 		const result = await useCase.execute({
 			departureCity: 'Paris',
 			arrivalCity: 'Lyon',
 			date: '2025-06-15',
+			sortBy: 'departureTime',
+			sortOrder: 'asc',
 		});
 
 		expect(result.success).toBe(true);
-		if (result.success) expect(result.value).toEqual(trips);
-		expect(mockTripRepo.findByFilters).toHaveBeenCalledWith({
-			departureCity: 'Paris',
-			arrivalCity: 'Lyon',
-			date: new Date('2025-06-15'),
-		});
+		if (result.success) {
+			expect(result.value.data).toEqual([{ ...trips[0], driverRating: rating }]);
+			expect(result.value.meta).toEqual({ page: 1, limit: 20, total: 1, totalPages: 1 });
+		}
+		expect(mockTripRepo.findByFilters).toHaveBeenCalledWith(
+			{
+				departureCity: 'Paris',
+				arrivalCity: 'Lyon',
+				departureNear: undefined,
+				arrivalNear: undefined,
+				dateFrom: new Date('2025-06-15T04:00:00Z'),
+				dateTo: new Date('2025-06-15T04:00:00Z'),
+				departureTimeFrom: undefined,
+				departureTimeTo: undefined,
+				minSeats: undefined,
+				maxPricePerSeat: undefined,
+				sortBy: 'departureTime',
+				sortOrder: 'asc',
+				timeZone: 'America/Toronto',
+			},
+			{ skip: 0, take: 20 },
+		);
 	});
 
-	// No filters provided — all undefined
-	it('should pass undefined filters when none provided', async () => {
-		mockTripRepo.findByFilters.mockResolvedValue(ok([]));
+	// Range bounds take precedence over the single date; pagination is forwarded as skip/take
+	it('should pass range, time window, seats, price and sort filters with pagination', async () => {
+		mockTripRepo.findByFilters.mockResolvedValue(ok({ data: trips, total: 11 }));
+
+		const result = await useCase.execute(
+			{
+				date: '2025-06-15',
+				dateTo: '2025-06-20',
+				departureTimeFrom: '07:00',
+				departureTimeTo: '09:30',
+				minSeats: 2,
+				maxPrice: 1500,
+				sortBy: 'remainingSeats',
+				sortOrder: 'desc',
+			},
+			{ page: 2, limit: 5 },
+		);
 
-		const result = await useCase.execute({});
+		expect(mockTripRepo.findByFilters).toHaveBeenCalledWith(
+			expect.objectContaining({
+				dateFrom: new Date('2025-06-15T04:00:00Z'),
+				dateTo: new Date('2025-06-20T04:00:00Z'),
+				departureTimeFrom: '07:00',
+				departureTimeTo: '09:30',
+				minSeats: 2,
+				maxPricePerSeat: 1500,
+				sortBy: 'remainingSeats',
+				sortOrder: 'desc',
+			}),
+			{ skip: 5, take: 5 },
+		);
+		if (result.success) expect(result.value.meta).toEqual({ page: 2, limit: 5, total: 11, totalPages: 3 });
+	});
 
-		expect(result.success).toBe(true);
-		expect(mockTripRepo.findByFilters).toHaveBeenCalledWith({
-			departureCity: undefined,
-			arrivalCity: undefined,
-			date: undefined,
+	// Coordinates become search areas, with the default radius when none is given
+	it('should pass departure and arrival areas to the repository', async () => {
+		mockTripRepo.findByFilters.mockResolvedValue(ok({ data: [], total: 0 }));
+
+		await useCase.execute({
+			departureLat: 48.8049,
+			departureLng: 2.1204,
+			departureRadiusKm: 10,
+			arrivalLat: 45.764,
+			arrivalLng: 4.8357,
+			sortBy: 'pickupDistance',
+			sortOrder: 'asc',
 		});
+
+		expect(mockTripRepo.findByFilters).toHaveBeenCalledWith(
+			expect.objectContaining({
+				departureNear: { latitude: 48.8049, longitude: 2.1204, radiusKm: 10 },
+				arrivalNear: { latitude: 45.764, longitude: 4.8357, radiusKm: DEFAULT_SEARCH_RADIUS_KM },
+				sortBy: 'pickupDistance',
+			}),
+			{ skip: 0, take: 20 },
+		);
 	});
 
-	// Date string conversion: undefined date stays undefined
-	it('should not convert date when it is undefined', async () => {
-		mockTripRepo.findByFilters.mockResolvedValue(ok([]));
+	// No date provided — the range stays open
+	it('should not convert dates when they are undefined', async () => {
+		mockTripRepo.findByFilters.mockResolvedValue(ok({ data: [], total: 0 }));
 
-		await useCase.execute({ departureCity: 'Paris' });
+		await useCase.execute({ departureCity: 'Paris', sortBy: 'departureTime', sortOrder: 'asc' });
 
 		expect(mockTripRepo.findByFilters).toHaveBeenCalledWith(
-			expect.objectContaining({ date: undefined }),
+			expect.objectContaining({ dateFrom: undefined, dateTo: undefined }),
+			{ skip: 0, take: 20 },
 		);
 	});
 
+	// Ratings are loaded once per driver of the page
+	it('should attach the rating of each driver to the results', async () => {
+		const otherTrip = { ...trips[0], id: 'trip-2', refId: 2, driverRefId: 2 };
+		mockTripRepo.findByFilters.mockResolvedValue(ok({ data: [trips[0], { ...trips[0], id: 'trip-3', refId: 3 }, otherTrip], total: 3 }));
+		mockReviewRepo.summarizeDrivers.mockResolvedValue(ok(new Map([[1, rating]])));
+
+		const result = await useCase.execute({ sortBy: 'departureTime', sortOrder: 'asc' });
+
+		expect(mockReviewRepo.summarizeDrivers).toHaveBeenCalledWith([1, 2]);
+		if (result.success) {
+			expect(result.value.data.map((trip) => trip.driverRating)).toEqual([rating, rating, { average: null, count: 0 }]);
+		}
+	});
+
+	it('should propagate a failure to load driver ratings', async () => {
+		mockTripRepo.findByFilters.mockResolvedValue(ok({ data: trips, total: 1 }));
+		mockReviewRepo.summarizeDrivers.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute({ sortBy: 'departureTime', sortOrder: 'asc' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+
 	// DB error propagates
 	it('should propagate repository error', async () => {
 		mockTripRepo.findByFilters.mockResolvedValue(err(new DatabaseError('db error')));
 
-		const result = await useCase.execute({ departureCity: 'Paris' });
+		const result = await useCase.execute({ departureCity: 'Paris', sortBy: 'departureTime', sortOrder: 'asc' });
 
 		expect(result.success).toBe(false);
 		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
@@ -1,28 +1,67 @@
 /**
  * @module FindTripUseCase
  *
- * Searches for carpooling trips matching optional filters (departure city,
- * arrival city, date). This is the main discovery endpoint for passengers
- * looking for a ride.
+ * Searches for carpooling trips matching optional filters (departure and
+ * arrival city names or areas around a point, date range, departure time
+ * window, seats needed, maximum price), sorted and paginated. This is the
+ * main discovery endpoint for passengers looking for a ride. Each result
+ * carries the rating of its driver.
  */
 
 import { inject, injectable } from 'tsyringe';
-import type { TripEntity } from '../../../domain/entities/trip.entity.js';
+import type { RatingSummary } from '../../../domain/entities/review.entity.js';
+import type { GeoRadius } from '../../../domain/geo/geo-distance.js';
+import { atTimeIn, parseCalendarDay } from '../../../domain/time/time-zone.js';
+import type { ReviewRepository } from '../../../domain/repositories/review.repository.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
-import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { TripRepository, TripSearchResult } from '../../../domain/repositories/trip.repository.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { TripConfig } from '../../config/trip.config.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
-import type { FindTripQueryType } from '../../schemas/trip.schema.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import type { PaginatedResult, PaginationParams } from '../../../lib/shared/utils/pagination.util.js';
+import { buildPaginationMeta, toSkipTake } from '../../../lib/shared/utils/pagination.util.js';
+import { DEFAULT_SEARCH_RADIUS_KM, type FindTripQueryType } from '../../schemas/trip.schema.js';
+
+/** Builds a search area from optional coordinates, applying the default radius. */
+function toSearchArea(latitude?: number, longitude?: number, radiusKm?: number): GeoRadius | undefined {
+    if (latitude === undefined || longitude === undefined) return undefined;
+    return { latitude, longitude, radiusKm: radiusKm ?? DEFAULT_SEARCH_RADIUS_KM };
+}
+
+/** A plain `YYYY-MM-DD` day, as opposed to a date with a time of day. */
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Converts a searched date to a Date. A plain day becomes its midnight in the time
+ * zone of trips rather than in UTC, so that it is not read as the day before west of UTC.
+ */
+function toSearchDate(value: string | undefined, timeZone: string): Date | undefined {
+    if (!value) return undefined;
+    return DAY_PATTERN.test(value) ? atTimeIn(parseCalendarDay(value), 0, 0, timeZone) : new Date(value);
+}
+
+/**
+ * A trip search result with the average score and number of ratings its driver received.
+ */
+export type RatedTripSearchResult = TripSearchResult & {
+    driverRating: RatingSummary;
+};
 
 /**
  * Searches for trips matching the given filter criteria.
  *
  * All filters are optional -- providing none returns all trips.
- * The date string is converted to a Date object before being passed
- * to the repository.
+ * Date strings are converted to Date objects before being passed to the
+ * repository; a single `date` searches that day only, while `dateFrom`/`dateTo`
+ * take precedence over it for their own bound. Departure and arrival
+ * coordinates become search areas, with a default radius when none is given.
+ * Days and departure times are read in the configured time zone of trips.
+ * Driver ratings are aggregated for the returned page only, after the search,
+ * so cached search results never carry stale ratings.
  *
- * @dependencies TripRepository
+ * @dependencies TripRepository, ReviewRepository, TripConfig
  */
 @injectable()
 export class FindTripUseCase {
@@ -31,28 +70,59 @@ export class FindTripUseCase {
     constructor(
         @inject(TOKENS.TripRepository)
         private readonly tripRepository: TripRepository,
+        @inject(TOKENS.ReviewRepository)
+        private readonly reviewRepository: ReviewRepository,
+        @inject(TOKENS.TripConfig)
+        private readonly tripConfig: TripConfig,
         @inject(TOKENS.Logger) logger: Logger,
     ) {
         this.logger = logger.child({ useCase: 'FindTripUseCase' });
     }
 
     /**
-     * Finds trips matching the provided filters.
+     * Finds a page of trips matching the provided filters.
      *
-     * @param input - Query object with optional departureCity, arrivalCity, and date
-     * @returns A Result containing an array of matching TripEntity records,
-     *          or a RepositoryError on database failure
+     * @param input - Validated search query (route or areas, dates, time window, seats, price, sort)
+     * @param pagination - Optional page/limit parameters (defaults to page 1, limit 20)
+     * @returns A Result containing a PaginatedResult of matching trips, each with its
+     *          remaining seats, pickup distance and driver rating, or a RepositoryError
+     *          on database failure
      */
-    async execute(input: FindTripQueryType): Promise<Result<TripEntity[], RepositoryError>> {
+    async execute(input: FindTripQueryType, pagination?: PaginationParams): Promise<Result<PaginatedResult<RatedTripSearchResult>, RepositoryError>> {
         this.logger.info('Searching trips', { filters: input });
+        const params = pagination ?? { page: 1, limit: 20 };
+        const dateFrom = input.dateFrom ?? input.date;
+        const dateTo = input.dateTo ?? input.date;
         const result = await this.tripRepository.findByFilters({
             departureCity: input.departureCity,
             arrivalCity: input.arrivalCity,
-            date: input.date ? new Date(input.date) : undefined,
-        });
+            departureNear: toSearchArea(input.departureLat, input.departureLng, input.departureRadiusKm),
+            arrivalNear: toSearchArea(input.arrivalLat, input.arrivalLng, input.arrivalRadiusKm),
+            dateFrom: toSearchDate(dateFrom, this.tripConfig.timeZone),
+            dateTo: toSearchDate(dateTo, this.tripConfig.timeZone),
+            departureTimeFrom: input.departureTimeFrom,
+            departureTimeTo: input.departureTimeTo,
+            minSeats: input.minSeats,
+            maxPricePerSeat: input.maxPrice,
+            sortBy: input.sortBy,
+            sortOrder: input.sortOrder,
+            timeZone: this.tripConfig.timeZone,
+        }, toSkipTake(params));
         if (!result.success) {
             this.logger.error('Failed to search trips', result.error);
+            return result;
+        }
+
+        const driverRefIds = [...new Set(result.value.data.map((trip) => trip.driverRefId))];
+        const ratingsResult = await this.reviewRepository.summarizeDrivers(driverRefIds);
+        if (!ratingsResult.success) {
+            this.logger.error('Failed to load driver ratings', ratingsResult.error);
+            return ratingsResult;
         }
-        return result;
+        const data = result.value.data.map((trip) => ({
+            ...trip,
+            driverRating: ratingsResult.value.get(trip.driverRefId) ?? { average: null, count: 0 },
+        }));
+        return ok({ data, meta: buildPaginationMeta(params, result.value.total) });
     }
 }
@@ -0,0 +1,129 @@
+/**
+ * @file Unit tests for the SendTripRemindersUseCase.
+ *
+ * Covers the reminder window, the reminder emails recorded with each trip,
+ * the passengers' trip reminder preference, trips already reminded by a
+ * concurrent run, failed marks and lookup error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockLogger, createMockNotificationConfig, createMockTripRepository } from '../../../../tests/setup.js';
+import type { DueTripReminder } from '../../../domain/entities/trip.entity.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { SendTripRemindersUseCase } from './send-trip-reminders.use-case.js';
+
+describe('SendTripRemindersUseCase', () => {
+	let useCase: SendTripRemindersUseCase;
+	let mockTripRepo: ReturnType<typeof createMockTripRepository>;
+
+	const now = new Date('2026-10-18T10:00:00.000Z');
+	const passenger = (firstName: string, email: string, notifyTripReminders = true) => ({
+		id: `${firstName.toLowerCase()}-id`,
+		firstName,
+		email,
+		locale: 'fr' as const,
+		notifyBookingUpdates: true,
+		notifyTripReminders,
+	});
+	const dueTrip = (id: string, passengers = [passenger('Jane', 'jane@example.com')]): DueTripReminder => ({
+		id,
+		dateTrip: new Date('2026-10-19T08:00:00.000Z'),
+		departureCity: 'Lyon',
+		arrivalCity: 'Grenoble',
+		passengers,
+	});
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(now);
+		mockTripRepo = createMockTripRepository();
+		mockTripRepo.findDueReminders.mockResolvedValue(ok([]));
+		mockTripRepo.markReminderSent.mockResolvedValue(ok(true));
+		container.registerInstance(TOKENS.TripRepository, mockTripRepo);
+		container.registerInstance(TOKENS.NotificationConfig, createMockNotificationConfig({ tripReminderHoursBefore: 24, reminderBatchSize: 10 }));
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(SendTripRemindersUseCase);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should look up the trips departing within the configured number of hours', async () => {
+		await useCase.execute();
+
+		expect(mockTripRepo.findDueReminders).toHaveBeenCalledWith(now, new Date('2026-10-19T10:00:00.000Z'), 10);
+	});
+
+	it('should record a reminder email for each passenger with the trip mark', async () => {
+		mockTripRepo.findDueReminders.mockResolvedValue(ok([dueTrip('trip-1', [passenger('Jane', 'jane@example.com'), passenger('Max', 'max@example.com')])]));
+
+		const result = await useCase.execute();
+
+		expect(result).toEqual({ success: true, value: { due: 1, reminded: 1, emails: 2 } });
+		expect(mockTripRepo.markReminderSent).toHaveBeenCalledWith(
+			'trip-1',
+			[
+				expect.objectContaining({ payload: expect.objectContaining({ to: 'jane@example.com' }) }),
+				expect.objectContaining({ payload: expect.objectContaining({ to: 'max@example.com' }) }),
+			],
+			now,
+		);
+		const [[, outbox]] = mockTripRepo.markReminderSent.mock.calls;
+		expect(outbox[0]).toEqual({
+			type: 'EMAIL',
+			payload: {
+				to: 'jane@example.com',
+				locale: 'fr',
+				message: {
+					template: 'trip-reminder',
+					variables: { firstName: 'Jane', tripDate: '2026-10-19T08:00:00.000Z', departureCity: 'Lyon', arrivalCity: 'Grenoble' },
+				},
+			},
+		});
+	});
+
+	// Preference: passengers can turn reminders off; the trip is still marked
+	it('should not remind passengers who turned trip reminders off', async () => {
+		mockTripRepo.findDueReminders.mockResolvedValue(ok([dueTrip('trip-1', [passenger('Jane', 'jane@example.com', false)])]));
+
+		const result = await useCase.execute();
+
+		expect(result).toEqual({ success: true, value: { due: 1, reminded: 1, emails: 0 } });
+		expect(mockTripRepo.markReminderSent).toHaveBeenCalledWith('trip-1', [], now);
+	});
+
+	// Concurrency: another run marked the trip first and recorded its emails
+	it('should not count a trip already reminded by another run', async () => {
+		mockTripRepo.findDueReminders.mockResolvedValue(ok([dueTrip('trip-1')]));
+		mockTripRepo.markReminderSent.mockResolvedValue(ok(false));
+
+		const result = await useCase.execute();
+
+		expect(result).toEqual({ success: true, value: { due: 1, reminded: 0, emails: 0 } });
+	});
+
+	// A failed mark leaves the trip due for the next run, the others are still reminded
+	it('should carry on after a trip could not be marked', async () => {
+		mockTripRepo.findDueReminders.mockResolvedValue(ok([dueTrip('trip-1'), dueTrip('trip-2')]));
+		mockTripRepo.markReminderSent.mockResolvedValueOnce(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute();
+
+		expect(result).toEqual({ success: true, value: { due: 2, reminded: 1, emails: 1 } });
+		expect(mockTripRepo.markReminderSent).toHaveBeenCalledTimes(2);
+	});
+
+	it('should propagate error from tripRepository.findDueReminders', async () => {
+		mockTripRepo.findDueReminders.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await useCase.execute();
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+		expect(mockTripRepo.markReminderSent).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,112 @@
+/**
+ * @module SendTripRemindersUseCase
+ *
+ * Reminds passengers of their upcoming trips. Run repeatedly by the trip
+ * reminder job; each run picks the trips departing within the configured
+ * number of hours whose reminder has not been sent yet, and records a
+ * reminder email for each of their passengers in the outbox.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { CreateOutboxMessageData } from '../../../domain/entities/outbox-message.entity.js';
+import type { DueTripReminder } from '../../../domain/entities/trip.entity.js';
+import { outboxEmail } from '../../../domain/outbox/outbox-email.js';
+import type { TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import type { NotificationConfig } from '../../config/notification.config.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Summary of a reminder run.
+ *
+ * @property due - Number of trips found with a reminder to send.
+ * @property reminded - Trips marked as reminded by this run.
+ * @property emails - Reminder emails recorded in the outbox.
+ */
+export type SendTripRemindersResult = {
+	due: number;
+	reminded: number;
+	emails: number;
+};
+
+/**
+ * Sends the reminders of the trips departing soon.
+ *
+ * Business flow:
+ * 1. Find up to `reminderBatchSize` trips departing within `tripReminderHoursBefore`
+ *    hours whose reminder was not sent yet
+ * 2. Build a reminder email for each passenger who did not turn trip reminders off
+ * 3. Mark each trip as reminded, recording its emails in the same transaction
+ * 4. Return how many trips were reminded and how many emails were recorded
+ *
+ * A trip that could not be marked is logged and picked again by the next run.
+ * A trip already marked by a concurrent run is skipped without recording its emails.
+ *
+ * @dependencies TripRepository, NotificationConfig
+ */
+@injectable()
+export class SendTripRemindersUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.TripRepository)
+		private readonly tripRepository: TripRepository,
+		@inject(TOKENS.NotificationConfig)
+		private readonly notificationConfig: NotificationConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'SendTripRemindersUseCase' });
+	}
+
+	/**
+	 * Sends one batch of trip reminders.
+	 *
+	 * @returns A Result containing the run summary, or a RepositoryError if the
+	 *          due trips could not be looked up
+	 */
+	async execute(): Promise<Result<SendTripRemindersResult, RepositoryError>> {
+		const now = new Date();
+		const until = new Date(now.getTime() + this.notificationConfig.tripReminderHoursBefore * HOUR_MS);
+		const dueResult = await this.tripRepository.findDueReminders(now, until, this.notificationConfig.reminderBatchSize);
+		if (!dueResult.success) {
+			return dueResult;
+		}
+
+		const summary: SendTripRemindersResult = { due: dueResult.value.length, reminded: 0, emails: 0 };
+		for (const trip of dueResult.value) {
+			const outbox = reminderEmails(trip);
+			const markResult = await this.tripRepository.markReminderSent(trip.id, outbox, now);
+			if (!markResult.success) {
+				this.logger.warn('Trip reminder not recorded', { tripId: trip.id });
+				continue;
+			}
+			if (markResult.value) {
+				summary.reminded++;
+				summary.emails += outbox.length;
+			}
+		}
+
+		if (summary.due > 0) {
+			this.logger.info('Trip reminders sent', summary);
+		}
+		return ok(summary);
+	}
+}
+
+/** Builds the reminder email of each passenger of a trip who wants trip reminders. */
+function reminderEmails(trip: DueTripReminder): CreateOutboxMessageData[] {
+	const tripDate = trip.dateTrip.toISOString();
+	return trip.passengers
+		.filter((passenger) => passenger.notifyTripReminders)
+		.map((passenger) =>
+			outboxEmail(passenger, {
+				template: 'trip-reminder',
+				variables: { firstName: passenger.firstName, tripDate, departureCity: trip.departureCity, arrivalCity: trip.arrivalCity },
+			}),
+		);
+}
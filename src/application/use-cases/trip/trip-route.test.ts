@@ -0,0 +1,42 @@
+/**
+ * @file Unit tests for the resolveRouteCityRefIds helper.
+ *
+ * Covers existing and auto-created cities kept in route order, and
+ * repository error propagation.
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockCityRepository } from '../../../../tests/setup.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import { resolveRouteCityRefIds } from './trip-route.js';
+
+describe('resolveRouteCityRefIds', () => {
+	let cityRepository: ReturnType<typeof createMockCityRepository>;
+
+	beforeEach(() => {
+		cityRepository = createMockCityRepository();
+	});
+
+	it('should resolve existing and new cities in route order', async () => {
+		cityRepository.findByCityName
+			.mockResolvedValueOnce(ok({ id: 'city-1', refId: 30, cityName: 'Paris', zipcode: '75000' }))
+			.mockResolvedValueOnce(ok(null));
+		cityRepository.create.mockResolvedValue(ok({ id: 'city-2', refId: 31, cityName: 'Lyon', zipcode: '' }));
+
+		const result = await resolveRouteCityRefIds(cityRepository, ['Paris', 'Lyon']);
+
+		expect(result).toEqual(ok([30, 31]));
+		expect(cityRepository.create).toHaveBeenCalledWith({ cityName: 'Lyon', zipcode: '' });
+	});
+
+	it('should propagate repository errors', async () => {
+		cityRepository.findByCityName.mockResolvedValue(ok(null));
+		cityRepository.create.mockResolvedValue(err(new DatabaseError('db error')));
+
+		const result = await resolveRouteCityRefIds(cityRepository, ['Paris', 'Lyon']);
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
@@ -0,0 +1,39 @@
+/**
+ * @module trip-route
+ *
+ * Helper shared by the use cases that publish trips, one-off or recurring:
+ * the cities of a route are given by name, and found or auto-created.
+ */
+
+import type { CityRepository } from '../../../domain/repositories/city.repository.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+
+/**
+ * Resolves the cities of a route to their refIds, preserving their order.
+ * Cities that do not yet exist are created with an empty zipcode.
+ *
+ * @param cityRepository - The city repository.
+ * @param cityNames - The departure, any intermediate stops and the arrival, in route order.
+ * @returns The refIds of the cities, in the same order.
+ */
+export async function resolveRouteCityRefIds(cityRepository: CityRepository, cityNames: string[]): Promise<Result<number[], RepositoryError>> {
+	const refIds: number[] = [];
+	for (const cityName of cityNames) {
+		const findResult = await cityRepository.findByCityName(cityName);
+		if (!findResult.success) {
+			return findResult;
+		}
+		if (findResult.value) {
+			refIds.push(findResult.value.refId);
+			continue;
+		}
+		const createResult = await cityRepository.create({ cityName, zipcode: '' });
+		if (!createResult.success) {
+			return createResult;
+		}
+		refIds.push(createResult.value.refId);
+	}
+	return ok(refIds);
+}
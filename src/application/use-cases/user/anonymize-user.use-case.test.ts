@@ -1,13 +1,13 @@
 /**
  * @file Unit tests for the AnonymizeUserUseCase.
  *
- * Covers successful user anonymization, not-found guard, and
- * repository error propagation.
+ * Covers successful user anonymization and its UserAnonymized event,
+ * not-found guard, and repository error propagation.
  */
 
 import { container } from 'tsyringe';
 import { beforeEach, describe, expect, it } from 'vitest';
-import { createMockLogger, createMockUserRepository } from '../../../../tests/setup.js';
+import { createMockEventBus, createMockLogger, createMockUserRepository } from '../../../../tests/setup.js';
 import { UserNotFoundError } from '../../../lib/errors/domain.errors.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
@@ -18,10 +18,13 @@ import { AnonymizeUserUseCase } from './anonymize-user.use-case.js';
 describe('AnonymizeUserUseCase', () => {
 	let useCase: AnonymizeUserUseCase;
 	let mockUserRepository: ReturnType<typeof createMockUserRepository>;
+	let mockEventBus: ReturnType<typeof createMockEventBus>;
 
 	beforeEach(() => {
 		mockUserRepository = createMockUserRepository();
+		mockEventBus = createMockEventBus();
 		container.registerInstance(TOKENS.UserRepository, mockUserRepository);
+		container.registerInstance(TOKENS.EventBus, mockEventBus);
 		container.registerInstance(TOKENS.Logger, createMockLogger());
 		useCase = container.resolve(AnonymizeUserUseCase);
 	});
@@ -33,6 +36,7 @@ describe('AnonymizeUserUseCase', () => {
 		const result = await useCase.execute('1');
 		expect(result.success).toBe(true);
 		expect(mockUserRepository.anonymize).toHaveBeenCalledWith('1');
+		expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'UserAnonymized', payload: { userId: '1' } }));
 	});
 
 	// Not-found guard: null lookup returns UserNotFoundError
@@ -42,6 +46,7 @@ describe('AnonymizeUserUseCase', () => {
 		expect(result.success).toBe(false);
 		if (!result.success) expect(result.error).toBeInstanceOf(UserNotFoundError);
 		expect(mockUserRepository.anonymize).not.toHaveBeenCalled();
+		expect(mockEventBus.publish).not.toHaveBeenCalled();
 	});
 
 	// DB error during lookup bubbles up
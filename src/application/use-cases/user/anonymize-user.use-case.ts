@@ -4,10 +4,13 @@
  * Anonymizes a user's personal data in compliance with GDPR or similar
  * data protection requirements. The user's profile fields are scrubbed
  * and an anonymizedAt timestamp is set, but the record is not deleted
- * so that referential integrity is preserved.
+ * so that referential integrity is preserved. Once stored, a
+ * `UserAnonymized` event is published.
  */
 
 import { inject, injectable } from 'tsyringe';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
 import { UserNotFoundError } from '../../../lib/errors/domain.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import type { UserRepository } from '../../../domain/repositories/user.repository.js';
@@ -31,8 +34,9 @@ type AnonymizeUserError = UserNotFoundError | RepositoryError;
  * 1. Look up the user by UUID
  * 2. If not found, return UserNotFoundError
  * 3. Anonymize the user's profile data via the repository
+ * 4. Publish `UserAnonymized`
  *
- * @dependencies UserRepository
+ * @dependencies UserRepository, EventBus
  */
 @injectable()
 export class AnonymizeUserUseCase {
@@ -41,6 +45,8 @@ export class AnonymizeUserUseCase {
 	constructor(
 		@inject(TOKENS.UserRepository)
 		private readonly userRepository: UserRepository,
+		@inject(TOKENS.EventBus)
+		private readonly eventBus: EventBus,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
 		this.logger = logger.child({ useCase: 'AnonymizeUserUseCase' });
@@ -71,6 +77,7 @@ export class AnonymizeUserUseCase {
 		const result = await this.userRepository.anonymize(id);
 		if (result.success) {
 			this.logger.info('User anonymized', { userId: id });
+			await this.eventBus.publish(domainEvent('UserAnonymized', { userId: id }));
 		}
 		return result;
 	}
@@ -0,0 +1,155 @@
+/**
+ * @file Unit tests for the ChangeEmailUseCase.
+ *
+ * Covers checking the current password, rejecting an already registered
+ * address, storing the new email with the verification and change notice
+ * emails recorded in the outbox, revoking every other session of the user and error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockAuthConfig,
+	createMockAuthRepository,
+	createMockLogger,
+	createMockPasswordService,
+	createMockSessionRepository,
+	createMockUserData,
+	createMockUserRepository,
+} from '../../../../tests/setup.js';
+import { InvalidCurrentPasswordError, UserAlreadyExistsError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { hashOpaqueToken } from '../../../lib/shared/utils/opaque-token.util.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { ChangeEmailUseCase } from './change-email.use-case.js';
+
+describe('ChangeEmailUseCase', () => {
+	let useCase: ChangeEmailUseCase;
+	let mockUserRepository: ReturnType<typeof createMockUserRepository>;
+	let mockAuthRepository: ReturnType<typeof createMockAuthRepository>;
+	let mockSessionRepository: ReturnType<typeof createMockSessionRepository>;
+	let mockPasswordService: ReturnType<typeof createMockPasswordService>;
+
+	const input = { userId: 'user-id-1', sessionId: 'session-1', email: 'new@example.com', currentPassword: 'Password1' };
+	const auth = {
+		id: 'auth-1',
+		refId: 5,
+		email: 'old@example.com',
+		password: 'hash',
+		role: 'USER',
+		emailVerifiedAt: new Date(),
+		anonymizedAt: null,
+		createdAt: new Date(),
+		updatedAt: new Date(),
+	};
+
+	beforeEach(() => {
+		mockUserRepository = createMockUserRepository();
+		mockUserRepository.findById.mockResolvedValue(ok(createMockUserData({ refId: 7, authRefId: 5 })));
+		mockAuthRepository = createMockAuthRepository();
+		mockAuthRepository.findByRefId.mockResolvedValue(ok(auth));
+		mockAuthRepository.existsByEmail.mockResolvedValue(ok(false));
+		mockAuthRepository.updateEmail.mockResolvedValue(ok(undefined));
+		mockSessionRepository = createMockSessionRepository();
+		mockSessionRepository.revokeAllForUser.mockResolvedValue(ok(1));
+		mockPasswordService = createMockPasswordService();
+		mockPasswordService.verify.mockResolvedValue(ok(true));
+
+		container.registerInstance(TOKENS.UserRepository, mockUserRepository);
+		container.registerInstance(TOKENS.AuthRepository, mockAuthRepository);
+		container.registerInstance(TOKENS.SessionRepository, mockSessionRepository);
+		container.registerInstance(TOKENS.PasswordService, mockPasswordService);
+		container.registerInstance(TOKENS.AuthConfig, createMockAuthConfig());
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(ChangeEmailUseCase);
+	});
+
+	// Verifies the happy path: store, verify the new address, warn the old one, revoke
+	it('should store the new email with both emails in the outbox and revoke the other sessions', async () => {
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(true);
+		expect(mockAuthRepository.updateEmail).toHaveBeenCalledWith(
+			5,
+			'new@example.com',
+			expect.objectContaining({ authRefId: 5, purpose: 'EMAIL_VERIFICATION' }),
+			[
+				{
+					type: 'EMAIL',
+					payload: {
+						to: 'new@example.com',
+						locale: 'fr',
+						message: {
+							template: 'email-verification',
+							variables: { verificationUrl: expect.stringMatching(/^https:\/\/app\.test\/verify-email\?token=/) },
+						},
+					},
+				},
+				{
+					type: 'EMAIL',
+					payload: { to: 'old@example.com', locale: 'fr', message: { template: 'email-changed', variables: { newEmail: 'new@example.com' } } },
+				},
+			],
+		);
+		expect(mockSessionRepository.revokeAllForUser).toHaveBeenCalledWith(7, 'EMAIL_CHANGE', 'session-1');
+	});
+
+	// Verifies that a wrong current password changes nothing
+	it('should return InvalidCurrentPasswordError when the current password is wrong', async () => {
+		mockPasswordService.verify.mockResolvedValue(ok(false));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(InvalidCurrentPasswordError);
+		}
+		expect(mockAuthRepository.updateEmail).not.toHaveBeenCalled();
+	});
+
+	// Verifies that the emailed link carries the token stored with the new email
+	it('should email the link of the verification token stored with the new email', async () => {
+		await useCase.execute(input);
+
+		const [, , stored, [verification]] = mockAuthRepository.updateEmail.mock.calls[0];
+		const token = new URL(verification.payload.message.variables.verificationUrl).searchParams.get('token') as string;
+		expect(stored.tokenHash).toBe(hashOpaqueToken(token));
+	});
+
+	// Verifies that an address used by another account is refused
+	it('should return UserAlreadyExistsError when the new email is taken', async () => {
+		mockAuthRepository.existsByEmail.mockResolvedValue(ok(true));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(UserAlreadyExistsError);
+		}
+		expect(mockAuthRepository.updateEmail).not.toHaveBeenCalled();
+	});
+
+	// Verifies that the emails are written in the user's language
+	it("should send the emails in the user's locale", async () => {
+		mockUserRepository.findById.mockResolvedValue(ok(createMockUserData({ refId: 7, authRefId: 5, locale: 'en' })));
+
+		await useCase.execute(input);
+
+		const [, , , outbox] = mockAuthRepository.updateEmail.mock.calls[0];
+		expect(outbox.map((message: { payload: { locale: string } }) => message.payload.locale)).toEqual(['en', 'en']);
+	});
+
+	// Verifies that update errors are propagated, the verification token being stored with the email
+	it('should propagate error when the email or its verification token cannot be stored', async () => {
+		mockAuthRepository.updateEmail.mockResolvedValue(err(new DatabaseError('DB down')));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+		expect(mockSessionRepository.revokeAllForUser).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,130 @@
+/**
+ * @module ChangeEmailUseCase
+ *
+ * Lets a signed-in user move their account to a new email address. The
+ * current password must be supplied again. The new address starts unverified
+ * and receives a verification link, the links already emailed for the account
+ * stop working, the previous address is told about the change, and every other
+ * session of the user is revoked.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import { outboxEmail } from '../../../domain/outbox/outbox-email.js';
+import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
+import type { SessionRepository } from '../../../domain/repositories/session.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import type { PasswordService } from '../../../domain/services/password.service.js';
+import { type InvalidCurrentPasswordError, UserAlreadyExistsError, type UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { PasswordError } from '../../../lib/errors/password.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+import type { AuthConfig } from '../../config/auth.config.js';
+import type { ChangeEmailSchemaType } from '../../schemas/auth.schema.js';
+import { issueAccountToken } from '../auth/account-tokens.js';
+import { confirmCurrentPassword } from './current-password.js';
+
+/**
+ * Union of all possible error types returned by the change email use case.
+ *
+ * - {@link UserNotFoundError} - The authenticated user UUID does not exist
+ * - {@link InvalidCurrentPasswordError} - The supplied current password is wrong
+ * - {@link UserAlreadyExistsError} - The new email is already used by an account
+ * - {@link PasswordError} - Failure during Argon2 password verification
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type ChangeEmailError = UserNotFoundError | InvalidCurrentPasswordError | UserAlreadyExistsError | PasswordError | RepositoryError;
+
+/**
+ * Input of the change email use case.
+ *
+ * @property sessionId - Session of the presented access token, kept active;
+ *                       absent for tokens issued without a session.
+ */
+export type ChangeEmailInput = WithAuthContext<ChangeEmailSchemaType> & {
+	sessionId?: string;
+};
+
+/**
+ * Changes the email address of the authenticated user.
+ *
+ * Business flow:
+ * 1. Resolve the user and their auth record, and check the current password
+ * 2. Check the new email is not already registered
+ * 3. Store the new email on the account, clearing its verification, in one
+ *    transaction that revokes the account's outstanding email links, issues
+ *    the verification token of the new address, and records in the outbox the
+ *    verification link for the new address and a change notice for the previous one
+ * 4. Revoke every other session of the user
+ *
+ * @dependencies UserRepository, AuthRepository, SessionRepository, PasswordService, AuthConfig
+ */
+@injectable()
+export class ChangeEmailUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.AuthRepository)
+		private readonly authRepository: AuthRepository,
+		@inject(TOKENS.SessionRepository)
+		private readonly sessionRepository: SessionRepository,
+		@inject(TOKENS.PasswordService)
+		private readonly passwordService: PasswordService,
+		@inject(TOKENS.AuthConfig)
+		private readonly authConfig: AuthConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ChangeEmailUseCase' });
+	}
+
+	/**
+	 * Executes the email change flow.
+	 *
+	 * @param input - Validated payload containing the new email and currentPassword,
+	 *                the authenticated userId and the current sessionId
+	 * @returns A Result containing void on success, or a ChangeEmailError on failure
+	 */
+	async execute(input: ChangeEmailInput): Promise<Result<void, ChangeEmailError>> {
+		const accountResult = await confirmCurrentPassword(
+			{ userRepository: this.userRepository, authRepository: this.authRepository, passwordService: this.passwordService },
+			input.userId,
+			input.currentPassword,
+		);
+		if (!accountResult.success) {
+			this.logger.warn('Email change rejected', { userId: input.userId, errorCode: accountResult.error.code });
+			return accountResult;
+		}
+		const { user, auth } = accountResult.value;
+
+		const existsResult = await this.authRepository.existsByEmail(input.email);
+		if (!existsResult.success) {
+			return existsResult;
+		}
+		if (existsResult.value) {
+			this.logger.warn('Email change rejected: email already exists', { userId: user.id });
+			return err(new UserAlreadyExistsError(input.email));
+		}
+
+		const verification = issueAccountToken(this.authConfig, auth.refId, 'EMAIL_VERIFICATION');
+		const updateResult = await this.authRepository.updateEmail(auth.refId, input.email, verification.data, [
+			outboxEmail({ email: input.email, locale: user.locale }, { template: 'email-verification', variables: { verificationUrl: verification.link } }),
+			outboxEmail({ email: auth.email, locale: user.locale }, { template: 'email-changed', variables: { newEmail: input.email } }),
+		]);
+		if (!updateResult.success) {
+			return updateResult;
+		}
+
+		const revokeResult = await this.sessionRepository.revokeAllForUser(user.refId, 'EMAIL_CHANGE', input.sessionId);
+		if (!revokeResult.success) {
+			return revokeResult;
+		}
+
+		this.logger.info('Email changed', { userId: user.id, revokedSessions: revokeResult.value });
+		return ok(undefined);
+	}
+}
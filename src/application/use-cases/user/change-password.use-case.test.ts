@@ -0,0 +1,133 @@
+/**
+ * @file Unit tests for the ChangePasswordUseCase.
+ *
+ * Covers checking the current password, storing the new password hash,
+ * revoking every other session of the user and error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	createMockAuthRepository,
+	createMockLogger,
+	createMockPasswordService,
+	createMockSessionRepository,
+	createMockUserData,
+	createMockUserRepository,
+} from '../../../../tests/setup.js';
+import { InvalidCurrentPasswordError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { HashingError } from '../../../lib/errors/password.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { ChangePasswordUseCase } from './change-password.use-case.js';
+
+describe('ChangePasswordUseCase', () => {
+	let useCase: ChangePasswordUseCase;
+	let mockUserRepository: ReturnType<typeof createMockUserRepository>;
+	let mockAuthRepository: ReturnType<typeof createMockAuthRepository>;
+	let mockSessionRepository: ReturnType<typeof createMockSessionRepository>;
+	let mockPasswordService: ReturnType<typeof createMockPasswordService>;
+
+	const input = {
+		userId: 'user-id-1',
+		sessionId: 'session-1',
+		currentPassword: 'OldPassword1',
+		password: 'NewPassword1',
+		confirmPassword: 'NewPassword1',
+	};
+	const auth = {
+		id: 'auth-1',
+		refId: 5,
+		email: 'john@example.com',
+		password: 'old-hash',
+		role: 'USER',
+		emailVerifiedAt: new Date(),
+		anonymizedAt: null,
+		createdAt: new Date(),
+		updatedAt: new Date(),
+	};
+
+	beforeEach(() => {
+		mockUserRepository = createMockUserRepository();
+		mockUserRepository.findById.mockResolvedValue(ok(createMockUserData({ refId: 7, authRefId: 5 })));
+		mockAuthRepository = createMockAuthRepository();
+		mockAuthRepository.findByRefId.mockResolvedValue(ok(auth));
+		mockAuthRepository.updatePassword.mockResolvedValue(ok(undefined));
+		mockSessionRepository = createMockSessionRepository();
+		mockSessionRepository.revokeAllForUser.mockResolvedValue(ok(2));
+		mockPasswordService = createMockPasswordService();
+		mockPasswordService.verify.mockResolvedValue(ok(true));
+		mockPasswordService.hash.mockResolvedValue(ok('new-hash'));
+
+		container.registerInstance(TOKENS.UserRepository, mockUserRepository);
+		container.registerInstance(TOKENS.AuthRepository, mockAuthRepository);
+		container.registerInstance(TOKENS.SessionRepository, mockSessionRepository);
+		container.registerInstance(TOKENS.PasswordService, mockPasswordService);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(ChangePasswordUseCase);
+	});
+
+	// Verifies the happy path: check, hash, store, revoke the other sessions
+	it('should store the new password and revoke the other sessions', async () => {
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(true);
+		expect(mockPasswordService.verify).toHaveBeenCalledWith('OldPassword1', 'old-hash');
+		expect(mockPasswordService.hash).toHaveBeenCalledWith('NewPassword1');
+		expect(mockAuthRepository.updatePassword).toHaveBeenCalledWith(5, 'new-hash');
+		expect(mockSessionRepository.revokeAllForUser).toHaveBeenCalledWith(7, 'PASSWORD_CHANGE', 'session-1');
+	});
+
+	// Verifies that a wrong current password changes nothing
+	it('should return InvalidCurrentPasswordError when the current password is wrong', async () => {
+		mockPasswordService.verify.mockResolvedValue(ok(false));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(InvalidCurrentPasswordError);
+		}
+		expect(mockAuthRepository.updatePassword).not.toHaveBeenCalled();
+		expect(mockSessionRepository.revokeAllForUser).not.toHaveBeenCalled();
+	});
+
+	// Verifies that anonymized users cannot change their password
+	it('should return UserNotFoundError for an anonymized user', async () => {
+		mockUserRepository.findById.mockResolvedValue(ok(createMockUserData({ anonymizedAt: new Date() })));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(UserNotFoundError);
+		}
+		expect(mockPasswordService.verify).not.toHaveBeenCalled();
+	});
+
+	// Verifies that hashing errors are propagated
+	it('should propagate error when password hashing fails', async () => {
+		mockPasswordService.hash.mockResolvedValue(err(new HashingError()));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(HashingError);
+		}
+		expect(mockAuthRepository.updatePassword).not.toHaveBeenCalled();
+	});
+
+	// Verifies that revocation errors are propagated
+	it('should propagate error when sessions cannot be revoked', async () => {
+		mockSessionRepository.revokeAllForUser.mockResolvedValue(err(new DatabaseError('DB down')));
+
+		const result = await useCase.execute(input);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toBeInstanceOf(DatabaseError);
+		}
+	});
+});
@@ -0,0 +1,111 @@
+/**
+ * @module ChangePasswordUseCase
+ *
+ * Lets a signed-in user replace their password. The current password must be
+ * supplied again, and every other session of the user is revoked so devices
+ * signed in with the old password are signed out; the session the change was
+ * made from stays active.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
+import type { SessionRepository } from '../../../domain/repositories/session.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import type { PasswordService } from '../../../domain/services/password.service.js';
+import type { InvalidCurrentPasswordError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { PasswordError } from '../../../lib/errors/password.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok } from '../../../lib/shared/types/result.js';
+import type { ChangePasswordSchemaType } from '../../schemas/auth.schema.js';
+import { confirmCurrentPassword } from './current-password.js';
+
+/**
+ * Union of all possible error types returned by the change password use case.
+ *
+ * - {@link UserNotFoundError} - The authenticated user UUID does not exist
+ * - {@link InvalidCurrentPasswordError} - The supplied current password is wrong
+ * - {@link PasswordError} - Failure during Argon2 password verification or hashing
+ * - {@link RepositoryError} - Database-level failure during any step
+ */
+type ChangePasswordError = UserNotFoundError | InvalidCurrentPasswordError | PasswordError | RepositoryError;
+
+/**
+ * Input of the change password use case.
+ *
+ * @property sessionId - Session of the presented access token, kept active;
+ *                       absent for tokens issued without a session.
+ */
+export type ChangePasswordInput = WithAuthContext<ChangePasswordSchemaType> & {
+	sessionId?: string;
+};
+
+/**
+ * Replaces the password of the authenticated user.
+ *
+ * Business flow:
+ * 1. Resolve the user and their auth record, and check the current password
+ * 2. Hash the new password with Argon2 and store it on the account
+ * 3. Revoke every other session of the user
+ *
+ * @dependencies UserRepository, AuthRepository, SessionRepository, PasswordService
+ */
+@injectable()
+export class ChangePasswordUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.AuthRepository)
+		private readonly authRepository: AuthRepository,
+		@inject(TOKENS.SessionRepository)
+		private readonly sessionRepository: SessionRepository,
+		@inject(TOKENS.PasswordService)
+		private readonly passwordService: PasswordService,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'ChangePasswordUseCase' });
+	}
+
+	/**
+	 * Executes the password change flow.
+	 *
+	 * @param input - Validated payload containing currentPassword, password and confirmPassword,
+	 *                the authenticated userId and the current sessionId
+	 * @returns A Result containing void on success, or a ChangePasswordError on failure
+	 */
+	async execute(input: ChangePasswordInput): Promise<Result<void, ChangePasswordError>> {
+		const accountResult = await confirmCurrentPassword(
+			{ userRepository: this.userRepository, authRepository: this.authRepository, passwordService: this.passwordService },
+			input.userId,
+			input.currentPassword,
+		);
+		if (!accountResult.success) {
+			this.logger.warn('Password change rejected', { userId: input.userId, errorCode: accountResult.error.code });
+			return accountResult;
+		}
+		const { user, auth } = accountResult.value;
+
+		const hashResult = await this.passwordService.hash(input.password);
+		if (!hashResult.success) {
+			return hashResult;
+		}
+
+		const updateResult = await this.authRepository.updatePassword(auth.refId, hashResult.value);
+		if (!updateResult.success) {
+			return updateResult;
+		}
+
+		const revokeResult = await this.sessionRepository.revokeAllForUser(user.refId, 'PASSWORD_CHANGE', input.sessionId);
+		if (!revokeResult.success) {
+			return revokeResult;
+		}
+
+		this.logger.info('Password changed', { userId: user.id, revokedSessions: revokeResult.value });
+		return ok(undefined);
+	}
+}
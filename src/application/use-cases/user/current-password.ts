@@ -0,0 +1,78 @@
+/**
+ * @module current-password
+ *
+ * Helper shared by the password change and email change use cases. Changing
+ * a credential while signed in requires the current password again, so a
+ * stolen access token alone cannot take over the account.
+ */
+
+import type { AuthEntity } from '../../../domain/entities/auth.entity.js';
+import type { PublicUserEntity } from '../../../domain/entities/user.entity.js';
+import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import type { PasswordService } from '../../../domain/services/password.service.js';
+import { InvalidCurrentPasswordError, UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { PasswordError } from '../../../lib/errors/password.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err, ok } from '../../../lib/shared/types/result.js';
+
+/**
+ * The signed-in user together with their authentication record.
+ *
+ * @property user - The user's public profile.
+ * @property auth - The user's authentication record (email and password hash).
+ */
+export type ConfirmedAccount = {
+	user: PublicUserEntity;
+	auth: AuthEntity;
+};
+
+/** Repositories and services needed to check the current password. */
+export type CurrentPasswordDependencies = {
+	userRepository: UserRepository;
+	authRepository: AuthRepository;
+	passwordService: PasswordService;
+};
+
+/**
+ * Loads the account of the signed-in user and checks the password they supplied.
+ *
+ * @param deps - The user and auth repositories and the password service.
+ * @param userId - UUID of the signed-in user.
+ * @param currentPassword - The plain-text password supplied with the request.
+ * @returns The user and their auth record, UserNotFoundError when the user does
+ *          not exist or was anonymized, or InvalidCurrentPasswordError when the
+ *          password does not match.
+ */
+export async function confirmCurrentPassword(
+	deps: CurrentPasswordDependencies,
+	userId: string,
+	currentPassword: string,
+): Promise<Result<ConfirmedAccount, UserNotFoundError | InvalidCurrentPasswordError | PasswordError | RepositoryError>> {
+	const userResult = await deps.userRepository.findById(userId);
+	if (!userResult.success) {
+		return userResult;
+	}
+	const user = userResult.value;
+	if (!user || user.anonymizedAt !== null) {
+		return err(new UserNotFoundError(userId));
+	}
+
+	const authResult = await deps.authRepository.findByRefId(user.authRefId);
+	if (!authResult.success) {
+		return authResult;
+	}
+	if (!authResult.value) {
+		return err(new UserNotFoundError(userId));
+	}
+
+	const verifyResult = await deps.passwordService.verify(currentPassword, authResult.value.password);
+	if (!verifyResult.success) {
+		return verifyResult;
+	}
+	if (!verifyResult.value) {
+		return err(new InvalidCurrentPasswordError());
+	}
+	return ok({ user, auth: authResult.value });
+}
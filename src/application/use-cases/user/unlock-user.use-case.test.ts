@@ -0,0 +1,63 @@
+/**
+ * @file Unit tests for the UnlockUserUseCase.
+ *
+ * Covers lifting the login lock of an account, the not-found guard,
+ * and repository error propagation.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMockAuthRepository, createMockLogger, createMockUserRepository } from '../../../../tests/setup.js';
+import { UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { UnlockUserUseCase } from './unlock-user.use-case.js';
+
+// Test suite for the admin unlock of an account locked after failed logins
+describe('UnlockUserUseCase', () => {
+	let useCase: UnlockUserUseCase;
+	let mockUserRepository: ReturnType<typeof createMockUserRepository>;
+	let mockAuthRepository: ReturnType<typeof createMockAuthRepository>;
+
+	const user = { id: 'user-1', refId: 1, authRefId: 7, email: 'a@b.com', firstName: 'A', anonymizedAt: null };
+
+	beforeEach(() => {
+		mockUserRepository = createMockUserRepository();
+		mockAuthRepository = createMockAuthRepository();
+		container.registerInstance(TOKENS.UserRepository, mockUserRepository);
+		container.registerInstance(TOKENS.AuthRepository, mockAuthRepository);
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		useCase = container.resolve(UnlockUserUseCase);
+	});
+
+	// Happy path: the failed attempts of the user's Auth record are reset
+	it('should reset the failed logins of the user account', async () => {
+		mockUserRepository.findById.mockResolvedValue(ok(user));
+		mockAuthRepository.clearLoginFailures.mockResolvedValue(ok(undefined));
+		const result = await useCase.execute('user-1');
+		expect(result.success).toBe(true);
+		expect(mockAuthRepository.clearLoginFailures).toHaveBeenCalledWith(7);
+	});
+
+	// Not-found guard: null lookup returns UserNotFoundError
+	it('should return UserNotFoundError when not found', async () => {
+		mockUserRepository.findById.mockResolvedValue(ok(null));
+		const result = await useCase.execute('999');
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(UserNotFoundError);
+		expect(mockAuthRepository.clearLoginFailures).not.toHaveBeenCalled();
+	});
+
+	// DB errors during lookup or unlock bubble up
+	it('should propagate repository errors', async () => {
+		mockUserRepository.findById.mockResolvedValue(err(new DatabaseError('db error')));
+		expect((await useCase.execute('user-1')).success).toBe(false);
+
+		mockUserRepository.findById.mockResolvedValue(ok(user));
+		mockAuthRepository.clearLoginFailures.mockResolvedValue(err(new DatabaseError('db error')));
+		const result = await useCase.execute('user-1');
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+	});
+});
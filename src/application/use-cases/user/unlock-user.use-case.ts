@@ -0,0 +1,75 @@
+/**
+ * @module UnlockUserUseCase
+ *
+ * Lets an administrator lift the login lock of an account before it expires,
+ * e.g. once its owner proved their identity to support. The failed login
+ * attempts of the account are reset with it, so its next failures start the
+ * throttle over.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
+import type { UserRepository } from '../../../domain/repositories/user.repository.js';
+import { UserNotFoundError } from '../../../lib/errors/domain.errors.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { err } from '../../../lib/shared/types/result.js';
+
+/**
+ * Union of all possible error types returned by the unlock user use case.
+ *
+ * - {@link UserNotFoundError} - No user exists with the given UUID
+ * - {@link RepositoryError} - Database-level failure during lookup or unlock
+ */
+type UnlockUserError = UserNotFoundError | RepositoryError;
+
+/**
+ * Lifts the login lock of a user's account and resets its failed attempts.
+ *
+ * Business flow:
+ * 1. Look up the user by UUID
+ * 2. If not found, return UserNotFoundError
+ * 3. Reset the failed login attempts of the user's Auth record and lift its lock
+ *
+ * @dependencies UserRepository, AuthRepository
+ */
+@injectable()
+export class UnlockUserUseCase {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.UserRepository)
+		private readonly userRepository: UserRepository,
+		@inject(TOKENS.AuthRepository)
+		private readonly authRepository: AuthRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ useCase: 'UnlockUserUseCase' });
+	}
+
+	/**
+	 * Unlocks the account of the user identified by the given UUID.
+	 *
+	 * @param id - The UUID of the user to unlock
+	 * @returns A Result containing void on success, or an UnlockUserError on failure
+	 */
+	async execute(id: string): Promise<Result<void, UnlockUserError>> {
+		const findResult = await this.userRepository.findById(id);
+		if (!findResult.success) {
+			return findResult;
+		}
+
+		if (!findResult.value) {
+			this.logger.warn('User not found for unlock', { userId: id });
+			return err(new UserNotFoundError(id));
+		}
+
+		const result = await this.authRepository.clearLoginFailures(findResult.value.authRefId);
+		if (result.success) {
+			this.logger.info('User unlocked', { userId: id });
+		}
+		return result;
+	}
+}
@@ -58,6 +58,26 @@ describe('UpdateUserUseCase', () => {
 		expect(mockUserRepo.update).toHaveBeenCalledWith(user.id, { firstName: 'Jane' });
 	});
 
+	// Locale change: the language of the user's emails
+	it('should pass the locale to repository', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockUserRepo.update.mockResolvedValue(ok({ ...user, locale: 'en' }));
+
+		await useCase.execute(user.id, { locale: 'en' });
+
+		expect(mockUserRepo.update).toHaveBeenCalledWith(user.id, { locale: 'en' });
+	});
+
+	// Preferences: turning a notification off must be stored
+	it('should pass notification preferences set to false to repository', async () => {
+		mockUserRepo.findById.mockResolvedValue(ok(user));
+		mockUserRepo.update.mockResolvedValue(ok({ ...user, notifyTripReminders: false }));
+
+		await useCase.execute(user.id, { notifyTripReminders: false });
+
+		expect(mockUserRepo.update).toHaveBeenCalledWith(user.id, { notifyTripReminders: false });
+	});
+
 	// User UUID does not exist
 	it('should return UserNotFoundError when user does not exist', async () => {
 		mockUserRepo.findById.mockResolvedValue(ok(null));
@@ -1,13 +1,13 @@
 /**
  * @module UpdateUserUseCase
  *
- * Partially updates a user's profile information (firstName, lastName, phone).
- * These fields are initially null after registration and are populated
- * through this use case.
+ * Partially updates a user's profile information (firstName, lastName, phone),
+ * the locale of their emails and their notification preferences. The profile fields are initially null after
+ * registration and are populated through this use case.
  */
 
 import { inject, injectable } from 'tsyringe';
-import type { PublicUserEntity, UpdateUserData } from '../../../domain/entities/user.entity.js';
+import type { Locale, PublicUserEntity, UpdateUserData } from '../../../domain/entities/user.entity.js';
 import { UserNotFoundError } from '../../../lib/errors/domain.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import type { UserRepository } from '../../../domain/repositories/user.repository.js';
@@ -29,6 +29,9 @@ export type UpdateProfileInput = {
 	firstName?: string;
 	lastName?: string;
 	phone?: string;
+	locale?: Locale;
+	notifyBookingUpdates?: boolean;
+	notifyTripReminders?: boolean;
 };
 
 /**
@@ -57,7 +60,7 @@ export class UpdateUserUseCase {
 	 * Applies a partial update to the user's profile.
 	 *
 	 * @param id - The UUID of the user to update
-	 * @param input - Object with optional firstName, lastName, and phone fields
+	 * @param input - Object with optional firstName, lastName, phone, locale and notification preference fields
 	 * @returns A Result containing the updated PublicUserEntity on success,
 	 *          or an UpdateUserError on failure
 	 */
@@ -76,6 +79,10 @@ export class UpdateUserUseCase {
 		if (input.firstName) updateData.firstName = input.firstName;
 		if (input.lastName) updateData.lastName = input.lastName;
 		if (input.phone) updateData.phone = input.phone;
+		if (input.locale) updateData.locale = input.locale;
+		// Preferences are booleans: false is a value to store, not a missing field
+		if (input.notifyBookingUpdates !== undefined) updateData.notifyBookingUpdates = input.notifyBookingUpdates;
+		if (input.notifyTripReminders !== undefined) updateData.notifyTripReminders = input.notifyTripReminders;
 
 		const result = await this.userRepository.update(id, updateData);
 		if (result.success) {
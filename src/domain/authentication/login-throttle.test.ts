@@ -0,0 +1,39 @@
+/**
+ * @file Unit tests for the login throttle.
+ *
+ * Covers the free attempts, the progressive delays and the lockout.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { isLockout, type LoginThrottlePolicy, loginLockedUntil } from './login-throttle.js';
+
+const policy: LoginThrottlePolicy = { delayAfterAttempts: 3, baseDelaySeconds: 2, lockoutThreshold: 10, lockoutMinutes: 15 };
+const failedAt = new Date('2026-10-19T10:00:00Z');
+
+describe('loginLockedUntil', () => {
+	it('should not delay the first attempts', () => {
+		expect(loginLockedUntil(1, failedAt, policy)).toBeNull();
+		expect(loginLockedUntil(2, failedAt, policy)).toBeNull();
+	});
+
+	it('should wait the base delay after the first delayed failure', () => {
+		expect(loginLockedUntil(3, failedAt, policy)).toEqual(new Date('2026-10-19T10:00:02Z'));
+	});
+
+	it('should double the delay after each further failure', () => {
+		expect(loginLockedUntil(4, failedAt, policy)).toEqual(new Date('2026-10-19T10:00:04Z'));
+		expect(loginLockedUntil(9, failedAt, policy)).toEqual(new Date('2026-10-19T10:02:08Z'));
+	});
+
+	it('should lock the account out from the threshold on', () => {
+		expect(loginLockedUntil(10, failedAt, policy)).toEqual(new Date('2026-10-19T10:15:00Z'));
+		expect(loginLockedUntil(25, failedAt, policy)).toEqual(new Date('2026-10-19T10:15:00Z'));
+	});
+});
+
+describe('isLockout', () => {
+	it('should only be true from the lockout threshold on', () => {
+		expect(isLockout(9, policy)).toBe(false);
+		expect(isLockout(10, policy)).toBe(true);
+	});
+});
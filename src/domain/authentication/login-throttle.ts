@@ -0,0 +1,58 @@
+/**
+ * @module LoginThrottle
+ * Defines how long an account refuses logins after failed attempts. The first
+ * failures are free, so that a mistyped password does not slow its owner down;
+ * each further failure doubles the wait before the next attempt, until the
+ * account is locked out for a fixed time. Waits are enforced per account, so
+ * they hold against attempts spread over many addresses.
+ */
+
+/**
+ * Thresholds and durations of the throttle.
+ *
+ * @property delayAfterAttempts - Failed attempts from which each failure delays the next attempt.
+ * @property baseDelaySeconds - Delay after the first delayed failure, doubled by each further one.
+ * @property lockoutThreshold - Failed attempts from which the account is locked out.
+ * @property lockoutMinutes - Length of a lockout.
+ */
+export type LoginThrottlePolicy = {
+	delayAfterAttempts: number;
+	baseDelaySeconds: number;
+	lockoutThreshold: number;
+	lockoutMinutes: number;
+};
+
+/**
+ * Tells whether a number of failed attempts locks the account out.
+ *
+ * @param failedAttempts - Failed attempts since the last successful login.
+ * @param policy - The throttle policy.
+ * @returns True from the lockout threshold on.
+ */
+export function isLockout(failedAttempts: number, policy: LoginThrottlePolicy): boolean {
+	return failedAttempts >= policy.lockoutThreshold;
+}
+
+/**
+ * Computes until when an account refuses logins after a failed attempt.
+ *
+ * @param failedAttempts - Failed attempts since the last successful login, including this one.
+ * @param failedAt - When the attempt failed.
+ * @param policy - The throttle policy.
+ * @returns When logins are accepted again, or null if the next attempt may follow at once.
+ *
+ * @example
+ * // delayAfterAttempts 3, baseDelaySeconds 2, lockoutThreshold 10, lockoutMinutes 15
+ * loginLockedUntil(5, failedAt, policy) // failedAt + 8 seconds
+ * loginLockedUntil(10, failedAt, policy) // failedAt + 15 minutes
+ */
+export function loginLockedUntil(failedAttempts: number, failedAt: Date, policy: LoginThrottlePolicy): Date | null {
+	if (isLockout(failedAttempts, policy)) {
+		return new Date(failedAt.getTime() + policy.lockoutMinutes * 60_000);
+	}
+	if (failedAttempts < policy.delayAfterAttempts) {
+		return null;
+	}
+	const delaySeconds = policy.baseDelaySeconds * 2 ** (failedAttempts - policy.delayAfterAttempts);
+	return new Date(failedAt.getTime() + delaySeconds * 1000);
+}
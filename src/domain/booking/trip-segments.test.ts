@@ -0,0 +1,130 @@
+/**
+ * @file Unit tests for the multi-stop trip segment rules.
+ *
+ * Covers stop extraction and ordering, pickup/dropoff resolution with its
+ * defaults, ordered-pair matching used by search, and per-leg seat occupancy.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+	FULL_ROUTE_SEGMENT,
+	distanceToStopKm,
+	findMatchingSegment,
+	hasFreeSeatOnSegment,
+	maxLegOccupancy,
+	resolveSegment,
+	stopNamed,
+	stopWithin,
+	toTripStops,
+} from './trip-segments.js';
+
+const stops = [
+	{ position: 0, cityName: 'Paris', latitude: 48.8566, longitude: 2.3522 },
+	{ position: 1, cityName: 'Lyon', latitude: 45.764, longitude: 4.8357 },
+	{ position: 2, cityName: 'Marseille', latitude: null, longitude: null },
+];
+
+describe('toTripStops', () => {
+	it('should order stops by position and read the city name', () => {
+		const cities = [
+			{ tripRefId: 1, cityRefId: 3, type: 'ARRIVAL', position: 1, city: { id: 'c3', refId: 3, cityName: 'Lyon', zipcode: '', latitude: null, longitude: null } },
+			{ tripRefId: 1, cityRefId: 2, type: 'DEPARTURE', position: 0, city: { id: 'c2', refId: 2, cityName: 'Paris', zipcode: '', latitude: 48.8566, longitude: 2.3522 } },
+		];
+		expect(toTripStops(cities)).toEqual([
+			{ position: 0, cityName: 'Paris', latitude: 48.8566, longitude: 2.3522 },
+			{ position: 1, cityName: 'Lyon', latitude: null, longitude: null },
+		]);
+	});
+
+	it('should return no stops when cities were not loaded', () => {
+		expect(toTripStops(undefined)).toEqual([]);
+	});
+});
+
+describe('resolveSegment', () => {
+	it('should default to the full route', () => {
+		expect(resolveSegment(stops)).toEqual({ pickupPosition: 0, dropoffPosition: 2 });
+	});
+
+	it('should resolve pickup and dropoff case-insensitively', () => {
+		expect(resolveSegment(stops, 'lyon', 'MARSEILLE')).toEqual({ pickupPosition: 1, dropoffPosition: 2 });
+	});
+
+	it('should reject a dropoff that does not come after the pickup', () => {
+		expect(resolveSegment(stops, 'Lyon', 'Paris')).toBeNull();
+		expect(resolveSegment(stops, 'Lyon', 'Lyon')).toBeNull();
+	});
+
+	it('should reject a city that is not on the route', () => {
+		expect(resolveSegment(stops, 'Nice')).toBeNull();
+	});
+
+	it('should book trips without recorded stops end to end', () => {
+		expect(resolveSegment([])).toEqual(FULL_ROUTE_SEGMENT);
+		expect(resolveSegment([], 'Paris')).toBeNull();
+	});
+});
+
+describe('findMatchingSegment', () => {
+	it('should match any ordered pair of named stops', () => {
+		expect(findMatchingSegment(stops, stopNamed('Paris'), stopNamed('Lyon'))).toEqual({ pickupPosition: 0, dropoffPosition: 1 });
+		expect(findMatchingSegment(stops, stopNamed('Lyon'), stopNamed('Marseille'))).toEqual({ pickupPosition: 1, dropoffPosition: 2 });
+		expect(findMatchingSegment(stops, stopNamed('par'), stopNamed('mars'))).toEqual({ pickupPosition: 0, dropoffPosition: 2 });
+	});
+
+	it('should not match stops in the opposite order', () => {
+		expect(findMatchingSegment(stops, stopNamed('Marseille'), stopNamed('Paris'))).toBeNull();
+	});
+
+	it('should not board at the arrival or leave at the departure', () => {
+		expect(findMatchingSegment(stops, stopNamed('Marseille'))).toBeNull();
+		expect(findMatchingSegment(stops, undefined, stopNamed('Paris'))).toBeNull();
+		expect(findMatchingSegment(stops, stopNamed('Lyon'))).toEqual({ pickupPosition: 1, dropoffPosition: 2 });
+	});
+
+	it('should default to the full route without matchers', () => {
+		expect(findMatchingSegment(stops)).toEqual({ pickupPosition: 0, dropoffPosition: 2 });
+		expect(findMatchingSegment([])).toEqual(FULL_ROUTE_SEGMENT);
+		expect(findMatchingSegment([], stopNamed('Paris'))).toBeNull();
+	});
+});
+
+describe('stopWithin', () => {
+	// Versailles is about 18 km from central Paris
+	const nearVersailles = { latitude: 48.8049, longitude: 2.1204 };
+
+	it('should match stops inside the radius only', () => {
+		expect(stopWithin({ ...nearVersailles, radiusKm: 25 })(stops[0])).toBe(true);
+		expect(stopWithin({ ...nearVersailles, radiusKm: 10 })(stops[0])).toBe(false);
+	});
+
+	it('should never match stops without coordinates', () => {
+		expect(stopWithin({ latitude: 0, longitude: 0, radiusKm: 20_000 })(stops[2])).toBe(false);
+		expect(distanceToStopKm(nearVersailles, stops[2])).toBeNull();
+	});
+
+	it('should combine with name matchers on the other side of the segment', () => {
+		const segment = findMatchingSegment(stops, stopWithin({ ...nearVersailles, radiusKm: 25 }), stopNamed('Marseille'));
+		expect(segment).toEqual({ pickupPosition: 0, dropoffPosition: 2 });
+	});
+});
+
+describe('maxLegOccupancy', () => {
+	it('should count only bookings sharing a leg with the segment', () => {
+		const booked = [
+			{ pickupPosition: 0, dropoffPosition: 1 },
+			{ pickupPosition: 1, dropoffPosition: 2 },
+			{ pickupPosition: 0, dropoffPosition: 2 },
+		];
+		expect(maxLegOccupancy(booked, { pickupPosition: 0, dropoffPosition: 1 })).toBe(2);
+		expect(maxLegOccupancy(booked, { pickupPosition: 0, dropoffPosition: 2 })).toBe(2);
+	});
+});
+
+describe('hasFreeSeatOnSegment', () => {
+	it('should resell a seat freed at an intermediate stop', () => {
+		const booked = [{ pickupPosition: 0, dropoffPosition: 1 }];
+		expect(hasFreeSeatOnSegment(1, booked, { pickupPosition: 1, dropoffPosition: 2 })).toBe(true);
+		expect(hasFreeSeatOnSegment(1, booked, { pickupPosition: 0, dropoffPosition: 2 })).toBe(false);
+	});
+});
@@ -0,0 +1,168 @@
+/**
+ * @module TripSegments
+ * Defines the routing rules of multi-stop trips. A trip visits its stops in
+ * order of `position` (0 is the departure, the highest position the arrival),
+ * and a passenger books the segment between a pickup and a dropoff stop.
+ * A booking occupies a seat only on the legs of its segment, so the same seat
+ * can be booked again for the legs before the pickup or after the dropoff.
+ */
+
+import type { CityTripEntity } from '../entities/city-trip.entity.js';
+import { type GeoPoint, type GeoRadius, haversineKm } from '../geo/geo-distance.js';
+
+/**
+ * A stop on a trip's route.
+ *
+ * @property position - Order of the stop on the route, starting at 0 for the departure.
+ * @property cityName - Name of the city served at this stop.
+ * @property latitude - Latitude of the city, or null when unknown.
+ * @property longitude - Longitude of the city, or null when unknown.
+ */
+export type TripStop = {
+	position: number;
+	cityName: string;
+	latitude: number | null;
+	longitude: number | null;
+};
+
+/** Predicate selecting the stops a passenger may board or leave at. */
+export type StopMatcher = (stop: TripStop) => boolean;
+
+/**
+ * The part of a route travelled by a passenger, delimited by stop positions.
+ * Leg `i` (from stop `i` to the next stop) is occupied when
+ * `pickupPosition <= i < dropoffPosition`.
+ */
+export type TripSegment = {
+	pickupPosition: number;
+	dropoffPosition: number;
+};
+
+/** Segment booked on trips that have no recorded stops: departure (0) to arrival (1). */
+export const FULL_ROUTE_SEGMENT: TripSegment = { pickupPosition: 0, dropoffPosition: 1 };
+
+/**
+ * Extracts the ordered stops from a trip's city associations, as loaded with
+ * their related city. Associations loaded without the city get an empty name
+ * and no coordinates.
+ *
+ * @param cities - The trip's CityTrip records, in any order.
+ * @returns The stops sorted by position.
+ */
+export function toTripStops(cities: CityTripEntity[] | undefined): TripStop[] {
+	return (cities ?? [])
+		.map((cityTrip) => ({
+			position: cityTrip.position,
+			cityName: cityTrip.city?.cityName ?? '',
+			latitude: cityTrip.city?.latitude ?? null,
+			longitude: cityTrip.city?.longitude ?? null,
+		}))
+		.sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Resolves the segment a passenger books from the requested pickup and dropoff
+ * city names (case-insensitive exact match). An omitted pickup defaults to the
+ * departure and an omitted dropoff to the arrival.
+ *
+ * @param stops - The trip's stops, sorted by position.
+ * @param pickupCity - Optional name of the city the passenger boards at.
+ * @param dropoffCity - Optional name of the city the passenger leaves at.
+ * @returns The booked segment, or null when a city is not on the route or the
+ *          dropoff does not come after the pickup.
+ */
+export function resolveSegment(stops: TripStop[], pickupCity?: string, dropoffCity?: string): TripSegment | null {
+	const named = (query: string): StopMatcher => (stop) => stop.cityName.toLowerCase() === query.toLowerCase();
+	return findMatchingSegment(stops, pickupCity ? named(pickupCity) : undefined, dropoffCity ? named(dropoffCity) : undefined);
+}
+
+/**
+ * Finds the segment a trip can carry a passenger on, from a stop selected by
+ * `matchesPickup` to a later stop selected by `matchesDropoff`. An omitted
+ * pickup matcher selects the first stop and an omitted dropoff matcher the last one.
+ *
+ * @param stops - The trip's stops, sorted by position.
+ * @param matchesPickup - Optional predicate for the boarding stop.
+ * @param matchesDropoff - Optional predicate for the leaving stop.
+ * @returns The earliest matching pickup with its furthest matching dropoff,
+ *          or null when no ordered pair of stops matches both predicates.
+ */
+export function findMatchingSegment(stops: TripStop[], matchesPickup?: StopMatcher, matchesDropoff?: StopMatcher): TripSegment | null {
+	if (stops.length === 0) {
+		return matchesPickup || matchesDropoff ? null : FULL_ROUTE_SEGMENT;
+	}
+
+	for (const pickup of stops) {
+		if (matchesPickup && !matchesPickup(pickup)) continue;
+		const dropoff = stops.findLast((stop) => stop.position > pickup.position && (!matchesDropoff || matchesDropoff(stop)));
+		if (dropoff) {
+			return { pickupPosition: pickup.position, dropoffPosition: dropoff.position };
+		}
+	}
+	return null;
+}
+
+/**
+ * Selects stops whose city name contains the query (case-insensitive), as in trip search.
+ *
+ * @param query - The searched city name or fragment.
+ */
+export function stopNamed(query: string): StopMatcher {
+	const needle = query.toLowerCase();
+	return (stop) => stop.cityName.toLowerCase().includes(needle);
+}
+
+/**
+ * Selects stops whose city lies within a search area. Stops without known
+ * coordinates never match.
+ *
+ * @param area - The search area.
+ */
+export function stopWithin(area: GeoRadius): StopMatcher {
+	return (stop) => {
+		const distance = distanceToStopKm(area, stop);
+		return distance !== null && distance <= area.radiusKm;
+	};
+}
+
+/**
+ * Computes the distance from a point to a stop's city.
+ *
+ * @param from - The reference point.
+ * @param stop - The stop.
+ * @returns The distance in kilometers, or null when the stop has no coordinates.
+ */
+export function distanceToStopKm(from: GeoPoint, stop: TripStop): number | null {
+	if (stop.latitude === null || stop.longitude === null) {
+		return null;
+	}
+	return haversineKm(from, { latitude: stop.latitude, longitude: stop.longitude });
+}
+
+/**
+ * Computes the highest number of booked seats on any leg of a segment.
+ *
+ * @param booked - Segments of the bookings that hold a seat on the trip.
+ * @param segment - The segment being checked.
+ * @returns The peak seat occupancy across the segment's legs.
+ */
+export function maxLegOccupancy(booked: TripSegment[], segment: TripSegment): number {
+	let max = 0;
+	for (let leg = segment.pickupPosition; leg < segment.dropoffPosition; leg++) {
+		const onLeg = booked.filter((b) => b.pickupPosition <= leg && leg < b.dropoffPosition).length;
+		max = Math.max(max, onLeg);
+	}
+	return max;
+}
+
+/**
+ * Checks whether a seat is free on every leg of a segment.
+ *
+ * @param seats - Total passenger seats of the trip.
+ * @param booked - Segments of the bookings that hold a seat on the trip.
+ * @param segment - The segment a passenger wants to book.
+ * @returns True when no leg of the segment is full.
+ */
+export function hasFreeSeatOnSegment(seats: number, booked: TripSegment[], segment: TripSegment): boolean {
+	return maxLegOccupancy(booked, segment) < seats;
+}
@@ -0,0 +1,50 @@
+/**
+ * @module account-token.entity
+ * Defines the account token domain entity. Account tokens are single-use,
+ * expiring secrets sent by email to prove control of an account's email
+ * address, either to reset a forgotten password or to verify the address.
+ */
+
+/**
+ * What an account token can be redeemed for.
+ * - `PASSWORD_RESET` -- setting a new password without knowing the current one.
+ * - `EMAIL_VERIFICATION` -- marking the account's email address as verified.
+ */
+export type AccountTokenPurpose = 'PASSWORD_RESET' | 'EMAIL_VERIFICATION';
+
+/**
+ * Represents an account token. Only the SHA-256 hash of the token is stored;
+ * the token itself is sent to the user once, inside an email link.
+ *
+ * @property id - UUID primary key.
+ * @property tokenHash - Hex-encoded SHA-256 hash of the opaque token.
+ * @property authRefId - Integer FK referencing the Auth refId of the account.
+ * @property purpose - The {@link AccountTokenPurpose} the token was issued for.
+ * @property expiresAt - Timestamp after which the token can no longer be redeemed.
+ * @property usedAt - Timestamp when the token was redeemed or superseded, null while it is usable.
+ * @property createdAt - Timestamp when the token was issued.
+ */
+export type AccountTokenEntity = {
+	id: string;
+	tokenHash: string;
+	authRefId: number;
+	purpose: AccountTokenPurpose;
+	expiresAt: Date;
+	usedAt: Date | null;
+	createdAt: Date;
+};
+
+/**
+ * Data required to issue an account token.
+ *
+ * @property authRefId - The integer refId of the account.
+ * @property purpose - What the token can be redeemed for.
+ * @property tokenHash - Hash of the opaque token sent to the user.
+ * @property expiresAt - Expiry of the token.
+ */
+export type CreateAccountTokenData = {
+	authRefId: number;
+	purpose: AccountTokenPurpose;
+	tokenHash: string;
+	expiresAt: Date;
+};
@@ -13,6 +13,9 @@
  * @property email - Unique email address serving as the login credential.
  * @property password - Argon2-hashed password (never exposed publicly).
  * @property role - User role (e.g. "USER", "ADMIN") controlling authorization.
+ * @property emailVerifiedAt - Timestamp when the user proved ownership of the email address, null until then.
+ * @property failedLoginAttempts - Failed logins since the last successful one or the last unlock.
+ * @property lockedUntil - Timestamp until which logins are refused after failed attempts, null if never locked.
  * @property anonymizedAt - Timestamp when the account was anonymized (GDPR), null if active.
  * @property createdAt - Timestamp of account creation.
  * @property updatedAt - Timestamp of last modification.
@@ -23,6 +26,9 @@ export type AuthEntity = {
 	email: string;
 	password: string;
 	role: string;
+	emailVerifiedAt: Date | null;
+	failedLoginAttempts: number;
+	lockedUntil: Date | null;
 	anonymizedAt: Date | null;
 	createdAt: Date;
 	updatedAt: Date;
@@ -2,18 +2,32 @@
  * @module city-trip.entity
  * Defines the city-trip join entity.
  * CityTrip is a many-to-many association linking a city to a trip,
- * indicating whether the city is a departure or arrival point.
+ * indicating where on the trip's ordered route the city is served.
  */
 
+import type { CityEntity } from './city.entity.js';
+
+/**
+ * Role of a city on a trip's route.
+ * - `DEPARTURE` -- the first stop (position 0).
+ * - `STOP` -- an intermediate stop where passengers may board or leave.
+ * - `ARRIVAL` -- the last stop.
+ */
+export type CityTripType = 'DEPARTURE' | 'STOP' | 'ARRIVAL';
+
 /**
  * Represents the association between a city and a trip.
  *
  * @property tripRefId - Integer FK referencing the Trip refId.
  * @property cityRefId - Integer FK referencing the City refId.
- * @property type - Role of the city on this trip (e.g. "DEPARTURE", "ARRIVAL").
+ * @property type - Role of the city on this trip (see {@link CityTripType}).
+ * @property position - Order of the stop on the route, starting at 0 for the departure.
+ * @property city - The related city, when loaded with the association.
  */
 export type CityTripEntity = {
     tripRefId: number;
     cityRefId: number;
     type: string;
+    position: number;
+    city?: CityEntity;
 };
@@ -12,16 +12,22 @@
  * @property refId - Auto-incremented integer, used internally as a foreign key reference.
  * @property cityName - Display name of the city.
  * @property zipcode - Postal/zip code of the city.
+ * @property latitude - Latitude in decimal degrees (WGS 84), or null when the city has no known coordinates.
+ * @property longitude - Longitude in decimal degrees (WGS 84), or null when the city has no known coordinates.
  */
 export type CityEntity = {
 	id: string;
 	refId: number;
 	cityName: string;
 	zipcode: string;
+	latitude: number | null;
+	longitude: number | null;
 };
 
 /**
  * Data required to create a new city record.
- * Excludes auto-generated fields (id, refId).
+ * Excludes auto-generated fields (id, refId); coordinates are optional and
+ * can be filled in later by the gazetteer import.
  */
-export type CreateCityData = Omit<CityEntity, 'id' | 'refId'>;
+export type CreateCityData = Omit<CityEntity, 'id' | 'refId' | 'latitude' | 'longitude'> &
+	Partial<Pick<CityEntity, 'latitude' | 'longitude'>>;
@@ -5,6 +5,8 @@
  * Each driver is linked to a User via {@link DriverEntity.userRefId}.
  */
 
+import type { UserEntity } from './user.entity.js';
+
 /**
  * Represents a driver record in the system.
  *
@@ -27,3 +29,9 @@ export type DriverEntity = {
  * Excludes auto-generated fields (id, refId) and anonymizedAt.
  */
 export type CreateDriverData = Omit<DriverEntity, 'id' | 'refId' | 'anonymizedAt'>;
+
+/**
+ * The public profile of a driver: their identity without the license number.
+ * Names are null when not set on the user profile.
+ */
+export type DriverProfile = Pick<DriverEntity, 'id' | 'refId' | 'userRefId'> & Pick<UserEntity, 'firstName' | 'lastName'>;
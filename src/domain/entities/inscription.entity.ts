@@ -4,6 +4,19 @@
  * An Inscription represents a passenger's registration for a specific trip.
  */
 
+import type { TripSummary } from './trip.entity.js';
+import type { Locale, UserContact } from './user.entity.js';
+
+/**
+ * Lifecycle states of an inscription.
+ * - `PENDING` -- awaiting the driver's decision on a trip that requires approval.
+ * - `ACTIVE` -- booked (accepted); the only state that holds a seat.
+ * - `REJECTED` -- declined by the driver.
+ * - `CANCELLED` -- withdrawn by the passenger.
+ * - `ANONYMIZED` -- the passenger's account was anonymized.
+ */
+export type InscriptionStatus = 'PENDING' | 'ACTIVE' | 'REJECTED' | 'CANCELLED' | 'ANONYMIZED';
+
 /**
  * Represents a passenger inscription (booking) for a carpooling trip.
  *
@@ -12,7 +25,14 @@
  * @property createdAt - Timestamp when the inscription was created.
  * @property userRefId - Integer FK referencing the passenger's User refId.
  * @property tripRefId - Integer FK referencing the Trip refId.
- * @property status - Current status of the inscription (e.g. "PENDING", "CONFIRMED", "CANCELLED").
+ * @property status - Current {@link InscriptionStatus} of the inscription.
+ * @property pricePerSeat - Trip price per seat at booking time, in euro cents. Snapshotted so that
+ *                          later price edits on the trip do not change what the passenger agreed to.
+ * @property cancelledAt - Timestamp when the passenger cancelled, or null if never cancelled.
+ * @property cancellationReason - Optional free-text reason given when cancelling.
+ * @property pickupPosition - Position of the stop where the passenger boards (0 for the departure).
+ * @property dropoffPosition - Position of the stop where the passenger leaves the trip. The seat is
+ *                             only held on the legs between the pickup and the dropoff.
  */
 export type InscriptionEntity = {
 	id: string;
@@ -21,10 +41,51 @@ export type InscriptionEntity = {
 	userRefId: number;
 	tripRefId: number;
 	status: string;
+	pricePerSeat: number;
+	cancelledAt?: Date | null;
+	cancellationReason?: string | null;
+	pickupPosition: number;
+	dropoffPosition: number;
 };
 
 /**
  * Data required to create a new inscription.
- * Only the user and trip references are needed; status defaults on creation.
+ * The user and trip references, the booked segment and the price snapshot are needed; status
+ * defaults to ACTIVE unless the trip requires the driver's approval, in which case it is created
+ * as PENDING.
+ */
+export type CreateInscriptionData = Pick<InscriptionEntity, 'userRefId' | 'tripRefId' | 'pricePerSeat' | 'pickupPosition' | 'dropoffPosition'> & {
+	status?: InscriptionStatus;
+};
+
+/**
+ * How to reach a passenger booked on a trip, e.g. to tell them it was cancelled.
+ *
+ * @property id - UUID of the passenger's user profile, which names their event stream.
+ * @property email - The passenger's account email.
+ * @property firstName - The passenger's first name, or null if not set.
+ * @property locale - The language of the passenger's emails.
+ */
+export type PassengerContact = {
+	id: string;
+	email: string;
+	firstName: string | null;
+	locale: Locale;
+};
+
+/**
+ * Everything needed to tell the driver and the passenger about a booking.
+ *
+ * @property inscriptionId - UUID of the inscription.
+ * @property status - Current {@link InscriptionStatus} of the inscription.
+ * @property trip - The booked trip.
+ * @property passenger - The passenger who booked.
+ * @property driver - The driver of the trip.
  */
-export type CreateInscriptionData = Pick<InscriptionEntity, 'userRefId' | 'tripRefId'>;
+export type BookingNotificationDetails = {
+	inscriptionId: string;
+	status: InscriptionStatus;
+	trip: TripSummary;
+	passenger: UserContact;
+	driver: UserContact;
+};
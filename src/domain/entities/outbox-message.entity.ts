@@ -0,0 +1,80 @@
+/**
+ * @module outbox-message.entity
+ * Defines the outbox message domain entity. Side effects that leave the
+ * system (such as emails) are recorded as outbox messages in the same
+ * transaction as the business change that causes them, then delivered by a
+ * background worker. A message is therefore sent if and only if its change
+ * was committed, and a failed delivery is retried instead of being lost.
+ * Reactions to domain events, such as live updates, are not durable and never
+ * go through the outbox.
+ */
+
+import type { EmailMessage } from '../services/email.service.js';
+import type { Locale } from './user.entity.js';
+
+/**
+ * Kind of side effect an outbox message carries.
+ * - `EMAIL` -- an email delivered through the EmailService.
+ */
+export type OutboxMessageType = 'EMAIL';
+
+/**
+ * Delivery state of an outbox message.
+ * - `PENDING` -- waiting for its next delivery attempt.
+ * - `PROCESSING` -- claimed by a worker; returns to the queue if the worker dies.
+ * - `SENT` -- delivered.
+ * - `DEAD` -- every attempt failed; kept for inspection until replayed.
+ */
+export type OutboxMessageStatus = 'PENDING' | 'PROCESSING' | 'SENT' | 'DEAD';
+
+/**
+ * An email to deliver: its recipient, their locale, and the template and
+ * variables it is rendered from at delivery time. Emails carrying single-use
+ * account links are recorded with their token, and the link stops working once
+ * the token is used, superseded or expired.
+ *
+ * @property to - The recipient's email address.
+ * @property locale - The language of the email.
+ * @property message - The template and its variables.
+ */
+export type OutboxEmail = {
+	to: string;
+	locale: Locale;
+	message: EmailMessage;
+};
+
+/**
+ * Represents an outbox message.
+ *
+ * @property id - UUID primary key.
+ * @property type - The {@link OutboxMessageType}.
+ * @property payload - What to deliver; an {@link OutboxEmail} for `EMAIL` messages.
+ * @property status - The {@link OutboxMessageStatus}.
+ * @property attempts - Number of delivery attempts made so far.
+ * @property nextAttemptAt - Earliest time of the next attempt (or when a claim expires while processing).
+ * @property lastError - Error message of the last failed attempt, or null.
+ * @property createdAt - Timestamp when the message was recorded.
+ * @property processedAt - Timestamp when the message was sent or declared dead, or null.
+ */
+export type OutboxMessageEntity = {
+	id: string;
+	type: OutboxMessageType;
+	payload: OutboxEmail;
+	status: OutboxMessageStatus;
+	attempts: number;
+	nextAttemptAt: Date;
+	lastError: string | null;
+	createdAt: Date;
+	processedAt: Date | null;
+};
+
+/**
+ * Data required to record an outbox message.
+ *
+ * @property type - The kind of side effect.
+ * @property payload - What to deliver.
+ */
+export type CreateOutboxMessageData = {
+	type: OutboxMessageType;
+	payload: OutboxEmail;
+};
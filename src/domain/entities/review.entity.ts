@@ -0,0 +1,60 @@
+/**
+ * @module review.entity
+ * Defines the review domain entity and its associated types.
+ * Once a trip took place, each passenger who travelled on it can rate the
+ * driver, and the driver each of those passengers, with a score from 1 to 5
+ * and an optional comment. Ratings build the reputation shown on driver
+ * profiles and in trip search results.
+ */
+
+import type { UserEntity } from './user.entity.js';
+
+/** Who reviews whom: a passenger their driver, or a driver one of their passengers. */
+export type ReviewDirection = 'PASSENGER_TO_DRIVER' | 'DRIVER_TO_PASSENGER';
+
+/**
+ * The author of a review, as shown to other users.
+ * Names are null when not set or once the author's account was anonymized.
+ */
+export type ReviewAuthor = Pick<UserEntity, 'id' | 'firstName' | 'lastName'>;
+
+/**
+ * Represents a review left after a trip.
+ *
+ * @property id - UUID primary key, used as the external identifier in API responses.
+ * @property tripRefId - Integer FK referencing the reviewed Trip refId.
+ * @property authorRefId - Integer FK referencing the author's User refId.
+ * @property subjectRefId - Integer FK referencing the reviewed User refId.
+ * @property direction - Whether a passenger reviews the driver or the driver a passenger.
+ * @property score - Rating from 1 to 5.
+ * @property comment - Optional free-text comment; cleared when the author is anonymized.
+ * @property createdAt - Timestamp when the review was left.
+ * @property author - The author's public identity.
+ */
+export type ReviewEntity = {
+	id: string;
+	tripRefId: number;
+	authorRefId: number;
+	subjectRefId: number;
+	direction: ReviewDirection;
+	score: number;
+	comment: string | null;
+	createdAt: Date;
+	author: ReviewAuthor;
+};
+
+/**
+ * Data required to leave a review.
+ */
+export type CreateReviewData = Omit<ReviewEntity, 'id' | 'createdAt' | 'author'>;
+
+/**
+ * Aggregate of the ratings a user received.
+ *
+ * @property average - Mean score rounded to one decimal, or null when there is no rating yet.
+ * @property count - Number of ratings.
+ */
+export type RatingSummary = {
+	average: number | null;
+	count: number;
+};
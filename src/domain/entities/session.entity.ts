@@ -0,0 +1,86 @@
+/**
+ * @module session.entity
+ * Defines the session domain entity and its refresh tokens.
+ * A Session is one signed-in device or client of a user. Access tokens carry
+ * the session id so they stop being accepted once the session is revoked, and
+ * the session's refresh tokens are rotated on every use.
+ */
+
+/**
+ * Why a session was revoked.
+ * - `LOGOUT` -- the user signed out of this session.
+ * - `LOGOUT_ALL` -- the user signed out of every session.
+ * - `REUSE_DETECTED` -- an already rotated refresh token was presented again,
+ *   which means the token chain may have been stolen.
+ * - `PASSWORD_RESET` -- the password was reset through a password reset link.
+ * - `PASSWORD_CHANGE` -- the signed-in user changed their password.
+ * - `EMAIL_CHANGE` -- the signed-in user changed their email address.
+ */
+export type SessionRevocationReason = 'LOGOUT' | 'LOGOUT_ALL' | 'REUSE_DETECTED' | 'PASSWORD_RESET' | 'PASSWORD_CHANGE' | 'EMAIL_CHANGE';
+
+/**
+ * Represents a user session.
+ *
+ * @property id - UUID primary key, embedded in access tokens as the `sid` claim.
+ * @property userRefId - Integer FK referencing the User refId.
+ * @property createdAt - Timestamp when the user signed in.
+ * @property revokedAt - Timestamp when the session was revoked, or null while it is active.
+ * @property revokedReason - The {@link SessionRevocationReason}, or null while the session is active.
+ */
+export type SessionEntity = {
+	id: string;
+	userRefId: number;
+	createdAt: Date;
+	revokedAt: Date | null;
+	revokedReason: string | null;
+};
+
+/**
+ * Represents a refresh token issued for a session. Only the SHA-256 hash of the
+ * token is stored; the token itself is returned to the client once.
+ *
+ * @property id - UUID primary key.
+ * @property tokenHash - Hex-encoded SHA-256 hash of the opaque token.
+ * @property sessionId - UUID of the owning session.
+ * @property expiresAt - Timestamp after which the token can no longer be exchanged.
+ * @property usedAt - Timestamp when the token was rotated, or null if it is still current.
+ * @property createdAt - Timestamp when the token was issued.
+ */
+export type RefreshTokenEntity = {
+	id: string;
+	tokenHash: string;
+	sessionId: string;
+	expiresAt: Date;
+	usedAt: Date | null;
+	createdAt: Date;
+};
+
+/**
+ * The user a session belongs to, as needed to sign a new access token.
+ *
+ * @property userId - UUID of the user.
+ * @property role - Current role of the user's Auth record.
+ * @property anonymizedAt - Timestamp when the account was anonymized, null if active.
+ */
+export type SessionOwner = {
+	userId: string;
+	role: string;
+	anonymizedAt: Date | null;
+};
+
+/** A refresh token loaded with its owning session and the session's user. */
+export type RefreshTokenWithSession = RefreshTokenEntity & {
+	session: SessionEntity;
+	owner: SessionOwner;
+};
+
+/**
+ * Data required to issue a refresh token.
+ *
+ * @property tokenHash - Hash of the opaque token handed to the client.
+ * @property expiresAt - Expiry of the token.
+ */
+export type IssueRefreshTokenData = {
+	tokenHash: string;
+	expiresAt: Date;
+};
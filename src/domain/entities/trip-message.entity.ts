@@ -0,0 +1,42 @@
+/**
+ * @module trip-message.entity
+ * Defines the trip message domain entity and its associated types.
+ * A TripMessage is a message posted in the conversation of a trip, which is
+ * shared by its driver and the passengers booked on it, so that they can
+ * agree on the details of the journey without exchanging phone numbers.
+ */
+
+import type { UserEntity } from './user.entity.js';
+
+/**
+ * The author of a message, as shown to the other participants.
+ * Names are null when not set or once the author's account was anonymized.
+ */
+export type TripMessageAuthor = Pick<UserEntity, 'id' | 'firstName' | 'lastName'>;
+
+/**
+ * Represents a message posted in the conversation of a trip.
+ *
+ * @property id - UUID primary key, used as the external identifier in API responses.
+ * @property tripRefId - Integer FK referencing the Trip refId.
+ * @property authorRefId - Integer FK referencing the author's User refId.
+ * @property author - The author's public identity.
+ * @property body - The text of the message.
+ * @property createdAt - Timestamp when the message was posted.
+ * @property hiddenAt - Timestamp when an admin hid the message, or null if visible.
+ *                      Hidden messages are only listed to admins.
+ */
+export type TripMessageEntity = {
+	id: string;
+	tripRefId: number;
+	authorRefId: number;
+	author: TripMessageAuthor;
+	body: string;
+	createdAt: Date;
+	hiddenAt: Date | null;
+};
+
+/**
+ * Data required to post a message in the conversation of a trip.
+ */
+export type CreateTripMessageData = Pick<TripMessageEntity, 'tripRefId' | 'authorRefId' | 'body'>;
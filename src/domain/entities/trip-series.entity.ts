@@ -0,0 +1,89 @@
+/**
+ * @module trip-series.entity
+ * Defines the trip series domain entity and its associated types.
+ * A TripSeries is the template of a trip a driver repeats, such as a daily
+ * commute: the route, car, distance, seats and price of the trip, and the
+ * days it runs on. Its occurrences are materialized ahead of time as
+ * ordinary trips, which passengers search and book like any other.
+ */
+
+import type { TripEntity } from './trip.entity.js';
+
+/**
+ * Lifecycle state of a trip series.
+ *
+ * - `ACTIVE` -- occurrences keep being materialized until the end date, if any.
+ * - `CANCELLED` -- cancelled by its driver along with its upcoming occurrences. Kept for history.
+ */
+export type TripSeriesStatus = 'ACTIVE' | 'CANCELLED';
+
+/**
+ * When the occurrences of a series depart.
+ *
+ * @property daysOfWeek - ISO days of the week the trip runs on, from 1 (Monday) to 7 (Sunday).
+ * @property departureTime - Departure time of day, as `HH:MM`.
+ * @property startDate - First day of the series (local midnight).
+ * @property endDate - Last day of the series (local midnight), or null for an open-ended series.
+ * @property exceptionDates - Days the trip does not run on, although they match the days of the week.
+ */
+export type TripRecurrence = {
+    daysOfWeek: number[];
+    departureTime: string;
+    startDate: Date;
+    endDate: Date | null;
+    exceptionDates: Date[];
+};
+
+/**
+ * Represents a recurring trip offered by a driver.
+ *
+ * @property id - UUID primary key, used as the external identifier in API responses.
+ * @property refId - Auto-incremented integer, used internally as a foreign key reference.
+ * @property kms - Distance of each trip in kilometers.
+ * @property seats - Number of passenger seats offered on each trip.
+ * @property pricePerSeat - Price charged to each passenger, in euro cents.
+ * @property requiresApproval - When true, inscriptions on the occurrences stay PENDING until the driver accepts them.
+ * @property cityRefIds - City refIds of the route, in order: the departure, any stops, then the arrival.
+ * @property status - Lifecycle state of the series.
+ * @property cancelledAt - When the driver cancelled the series, null unless CANCELLED.
+ * @property createdAt - Timestamp when the series was created.
+ * @property driverRefId - Integer FK referencing the Driver record's refId.
+ * @property carRefId - Integer FK referencing the Car record's refId.
+ */
+export type TripSeriesEntity = TripRecurrence & {
+    id: string;
+    refId: number;
+    kms: number;
+    seats: number;
+    pricePerSeat: number;
+    requiresApproval: boolean;
+    cityRefIds: number[];
+    status: TripSeriesStatus;
+    cancelledAt: Date | null;
+    createdAt: Date;
+    driverRefId: number;
+    carRefId: number;
+};
+
+/**
+ * Data required to create a new trip series.
+ * Excludes auto-generated fields and the lifecycle fields, since a series always starts ACTIVE.
+ */
+export type CreateTripSeriesData = Omit<TripSeriesEntity, 'id' | 'refId' | 'status' | 'cancelledAt' | 'createdAt'>;
+
+/**
+ * Fields of an ACTIVE series that can be changed. The route, the car and the start
+ * date are fixed: a different route is a different series.
+ */
+export type UpdateTripSeriesData = Partial<
+    Pick<TripSeriesEntity, 'daysOfWeek' | 'departureTime' | 'endDate' | 'exceptionDates' | 'kms' | 'seats' | 'pricePerSeat' | 'requiresApproval'>
+>;
+
+/**
+ * A series with its occurrences from today on, as shown to its driver.
+ *
+ * @property occurrences - The materialized trips of the series, in day order, whatever their status.
+ */
+export type TripSeriesWithOccurrences = TripSeriesEntity & {
+    occurrences: TripEntity[];
+};
@@ -2,9 +2,22 @@
  * @module trip.entity
  * Defines the trip (carpooling journey) domain entity and its associated types.
  * A Trip represents a scheduled ride offered by a driver with a specific car,
- * including distance, available seats, and associated cities.
+ * including distance, available seats, and the ordered cities it stops at.
  */
 
+import type { CityTripEntity } from './city-trip.entity.js';
+import type { UserContact } from './user.entity.js';
+
+/**
+ * Lifecycle state of a trip.
+ *
+ * - `SCHEDULED` -- published and not departed yet; the only state open to bookings and edits.
+ * - `IN_PROGRESS` -- departed and not arrived yet.
+ * - `COMPLETED` -- arrived; passengers and driver can rate each other.
+ * - `CANCELLED` -- cancelled by its driver before departure. The trip is kept for history.
+ */
+export type TripStatus = 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+
 /**
  * Represents a carpooling trip in the system.
  *
@@ -13,8 +26,18 @@
  * @property dateTrip - Scheduled date and time of the trip.
  * @property kms - Distance of the trip in kilometers.
  * @property seats - Total number of available passenger seats.
+ * @property pricePerSeat - Price charged to each passenger, in euro cents.
+ * @property requiresApproval - When true, new inscriptions stay PENDING until the driver accepts them.
+ * @property status - Lifecycle state of the trip.
+ * @property arrivalAt - Estimated arrival time, after which the trip is completed automatically.
+ * @property cancelledAt - When the driver cancelled the trip, null unless CANCELLED.
+ * @property cancellationReason - Reason given by the driver on cancellation, if any.
+ * @property seriesRefId - Integer FK referencing the TripSeries the trip was materialized from, null for a one-off trip.
+ * @property occurrenceDate - Day of the series the trip is the occurrence of (local midnight), null for a one-off trip.
+ * @property seriesDetached - True once the occurrence was edited on its own; edits of the series no longer apply to it.
  * @property driverRefId - Integer FK referencing the Driver record's refId.
  * @property carRefId - Integer FK referencing the Car record's refId.
+ * @property cities - The trip's stops ordered by position, when loaded with its relations.
  */
 export type TripEntity = {
     id: string;
@@ -22,16 +45,78 @@ export type TripEntity = {
     dateTrip: Date;
     kms: number;
     seats: number;
+    pricePerSeat: number;
+    requiresApproval: boolean;
+    status: TripStatus;
+    arrivalAt: Date;
+    cancelledAt: Date | null;
+    cancellationReason: string | null;
+    seriesRefId: number | null;
+    occurrenceDate: Date | null;
+    seriesDetached: boolean;
     driverRefId: number;
     carRefId: number;
+    cities?: CityTripEntity[];
 };
 
 /**
  * Data required to create a new trip record.
- * Excludes auto-generated fields (id, refId) and optionally includes city associations.
+ * Excludes auto-generated fields (id, refId) and the lifecycle fields, since a trip
+ * always starts SCHEDULED, and optionally includes city associations and the
+ * series occurrence it materializes.
  *
- * @property cityRefIds - Optional array of City refIds to link as stops on this trip.
+ * @property seriesRefId - Optional refId of the series the trip is an occurrence of.
+ * @property occurrenceDate - Optional day of that series; required with `seriesRefId`.
+ * @property cityRefIds - Optional array of City refIds to link as stops on this trip, in route
+ *                        order: the first is the departure, the last the arrival, and any
+ *                        others are intermediate stops.
  */
-export type CreateTripData = Omit<TripEntity, 'id' | 'refId'> & {
+export type CreateTripData = Omit<
+    TripEntity,
+    'id' | 'refId' | 'cities' | 'status' | 'cancelledAt' | 'cancellationReason' | 'seriesRefId' | 'occurrenceDate' | 'seriesDetached'
+> & {
+    seriesRefId?: number;
+    occurrenceDate?: Date;
     cityRefIds?: number[];
 };
+
+/**
+ * Fields of a SCHEDULED trip that can be changed once it is published.
+ * A new departure time or distance comes with the arrival time estimated from them.
+ */
+export type UpdateTripData = Partial<Pick<TripEntity, 'dateTrip' | 'arrivalAt' | 'kms' | 'seats' | 'pricePerSeat' | 'requiresApproval' | 'seriesDetached'>>;
+
+/**
+ * What notifications say about a trip.
+ *
+ * @property id - UUID of the trip.
+ * @property dateTrip - Scheduled date and time of the trip.
+ * @property departureCity - Name of the first stop.
+ * @property arrivalCity - Name of the last stop.
+ */
+export type TripSummary = {
+    id: string;
+    dateTrip: Date;
+    departureCity: string;
+    arrivalCity: string;
+};
+
+/**
+ * A trip whose departure reminder is due, with the passengers to remind.
+ *
+ * @property passengers - The passengers holding a seat (ACTIVE inscriptions) on the trip.
+ */
+export type DueTripReminder = TripSummary & {
+    passengers: UserContact[];
+};
+
+/**
+ * Trips whose status was moved forward by a lifecycle run.
+ *
+ * @property started - Trips moved from SCHEDULED to IN_PROGRESS.
+ * @property completed - Trips moved from IN_PROGRESS to COMPLETED.
+ */
+export type TripStatusAdvance = {
+    started: number;
+    completed: number;
+};
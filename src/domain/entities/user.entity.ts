@@ -5,6 +5,13 @@
  * linked to an Auth entity via {@link UserEntity.authRefId}.
  */
 
+/**
+ * Language a user receives their emails in.
+ * - `fr` -- French (the default).
+ * - `en` -- English.
+ */
+export type Locale = 'fr' | 'en';
+
 /**
  * Represents a user profile in the system.
  *
@@ -13,6 +20,10 @@
  * @property firstName - User's first name, null until profile is completed.
  * @property lastName - User's last name, null until profile is completed.
  * @property phone - User's phone number, null until profile is completed.
+ * @property locale - The {@link Locale} of the user's emails.
+ * @property notifyBookingUpdates - Whether the user is emailed about bookings: seats booked or
+ *                                  released on their trips, and confirmations of their own bookings.
+ * @property notifyTripReminders - Whether the user is reminded of the trips they booked before departure.
  * @property authRefId - Integer FK referencing the associated Auth record's refId.
  * @property anonymizedAt - Timestamp when the profile was anonymized (GDPR), null if active.
  * @property createdAt - Timestamp of profile creation.
@@ -24,6 +35,9 @@ export type UserEntity = {
 	firstName: string | null;
 	lastName: string | null;
 	phone: string | null;
+	locale: Locale;
+	notifyBookingUpdates: boolean;
+	notifyTripReminders: boolean;
 	authRefId: number;
 	anonymizedAt: Date | null;
 	createdAt: Date;
@@ -37,22 +51,42 @@ export type UserEntity = {
 export type PublicUserEntity = UserEntity & { email: string };
 
 /**
- * Data required to create a new user profile.
+ * How to reach a user by email or on their event stream, with the notification
+ * preferences deciding which optional emails they receive.
+ *
+ * @property id - UUID of the user profile, which names their event stream.
+ * @property email - The user's account email.
+ * @property firstName - The user's first name, or null if not set.
+ * @property locale - The language of the user's emails.
+ * @property notifyBookingUpdates - See {@link UserEntity.notifyBookingUpdates}.
+ * @property notifyTripReminders - See {@link UserEntity.notifyTripReminders}.
+ */
+export type UserContact = Pick<UserEntity, 'id' | 'firstName' | 'locale' | 'notifyBookingUpdates' | 'notifyTripReminders'> & {
+	email: string;
+};
+
+/**
+ * Data required to create a new user profile. The notification preferences
+ * start enabled.
  *
  * @property firstName - User's first name (nullable at registration).
  * @property lastName - User's last name (nullable at registration).
  * @property phone - User's phone number (nullable at registration).
+ * @property locale - The {@link Locale} of the user's emails.
  * @property authRefId - The refId of the associated Auth record.
  */
 export type CreateUserData = {
 	firstName: string | null;
 	lastName: string | null;
 	phone: string | null;
+	locale: Locale;
 	authRefId: number;
 };
 
 /**
  * Partial update payload for modifying user profile fields.
- * Only firstName, lastName, and phone can be updated.
+ * Only firstName, lastName, phone, locale and the notification preferences can be updated.
  */
-export type UpdateUserData = Partial<Pick<UserEntity, 'firstName' | 'lastName' | 'phone'>>;
+export type UpdateUserData = Partial<
+	Pick<UserEntity, 'firstName' | 'lastName' | 'phone' | 'locale' | 'notifyBookingUpdates' | 'notifyTripReminders'>
+>;
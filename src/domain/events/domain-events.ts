@@ -0,0 +1,55 @@
+/**
+ * @module domain-events
+ * Defines the domain events: facts about a committed business change that
+ * other parts of the application react to, such as sending live updates to
+ * the people concerned. Use cases publish them through the {@link EventBus} once the
+ * change is stored; payloads only carry what reactions cannot look up
+ * afterwards.
+ */
+
+import type { InscriptionStatus, PassengerContact } from '../entities/inscription.entity.js';
+
+/**
+ * Payload of every domain event, keyed by event type.
+ *
+ * - `TripCreated` -- a driver published a trip.
+ * - `TripUpdated` -- a driver edited the schedule, distance, seats, price or stops of a trip.
+ * - `TripCancelled` -- a driver cancelled a trip, optionally giving a reason. Its bookings
+ *   are cancelled along with it, so it carries the passengers that were booked.
+ * - `InscriptionCreated` -- a passenger booked a seat, or asked for one on a trip requiring approval.
+ * - `InscriptionReviewed` -- a driver accepted (ACTIVE) or rejected (REJECTED) a pending request.
+ * - `InscriptionCancelled` -- a passenger withdrew their booking or request.
+ * - `DriverRegistered` -- a user created their driver profile.
+ * - `UserAnonymized` -- a user's personal data was scrubbed.
+ */
+export type DomainEventPayloads = {
+	TripCreated: { tripId: string };
+	TripUpdated: { tripId: string };
+	TripCancelled: { tripId: string; dateTrip: Date; reason: string | null; passengers: PassengerContact[] };
+	InscriptionCreated: { inscriptionId: string; tripId: string; status: InscriptionStatus };
+	InscriptionReviewed: { inscriptionId: string; status: InscriptionStatus };
+	InscriptionCancelled: { inscriptionId: string };
+	DriverRegistered: { driverId: string; userId: string };
+	UserAnonymized: { userId: string };
+};
+
+/** Type of a domain event. */
+export type DomainEventType = keyof DomainEventPayloads;
+
+/**
+ * A domain event: its type, when it happened and its payload.
+ * Narrowing on `type` narrows `payload` to the matching type.
+ */
+export type DomainEvent<K extends DomainEventType = DomainEventType> = {
+	[T in K]: { type: T; occurredAt: Date; payload: DomainEventPayloads[T] };
+}[K];
+
+/**
+ * Builds a domain event that happened now.
+ * @param type - The event type.
+ * @param payload - The payload of that type.
+ * @returns The event.
+ */
+export function domainEvent<K extends DomainEventType>(type: K, payload: DomainEventPayloads[K]): DomainEvent<K> {
+	return { type, occurredAt: new Date(), payload } as DomainEvent<K>;
+}
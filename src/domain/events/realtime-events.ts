@@ -0,0 +1,65 @@
+/**
+ * @module realtime-events
+ * Defines the realtime events streamed to connected clients over Server-Sent
+ * Events, and the channels they are published on. Unlike domain events, they
+ * leave the application: payloads only carry what the receivers of a channel
+ * may see, and dates are ISO strings since they are sent as JSON.
+ */
+
+import type { InscriptionStatus } from '../entities/inscription.entity.js';
+
+/**
+ * Payload of every realtime event, keyed by event type.
+ *
+ * - `seats-changed` -- the seats still free on a trip changed: a booking was made, accepted,
+ *   cancelled, or the driver changed the number of seats. `remainingSeats` counts the seats
+ *   free over the whole route.
+ * - `trip-updated` -- the driver edited a trip; carries its new schedule, distance, seats,
+ *   price and stops in route order.
+ * - `trip-cancelled` -- the driver cancelled a trip; carries the reason they gave, if any.
+ * - `booking-updated` -- a booking was made, reviewed or cancelled; sent to the passenger
+ *   and to the driver of the trip.
+ */
+export type RealtimeEventPayloads = {
+	'seats-changed': { tripId: string; seats: number; remainingSeats: number };
+	'trip-updated': {
+		tripId: string;
+		dateTrip: string;
+		kms: number;
+		seats: number;
+		pricePerSeat: number;
+		requiresApproval: boolean;
+		stops: string[];
+	};
+	'trip-cancelled': { tripId: string; dateTrip: string; reason: string | null };
+	'booking-updated': { inscriptionId: string; tripId: string; status: InscriptionStatus };
+};
+
+/** Type of a realtime event, sent as the SSE `event` field. */
+export type RealtimeEventType = keyof RealtimeEventPayloads;
+
+/**
+ * A realtime event as delivered to a stream: the id assigned when it was
+ * published, sent as the SSE `id` field so that reconnecting clients can
+ * resume after it, its type and its payload.
+ * Narrowing on `type` narrows `data` to the matching payload.
+ */
+export type RealtimeEvent<K extends RealtimeEventType = RealtimeEventType> = {
+	[T in K]: { id: string; type: T; data: RealtimeEventPayloads[T] };
+}[K];
+
+/**
+ * Names the channel of a trip, followed by anyone looking at the trip.
+ * @param tripId - UUID of the trip.
+ */
+export function tripChannel(tripId: string): string {
+	return `trip:${tripId}`;
+}
+
+/**
+ * Names the channel of a user, carrying the events about their own bookings and trips.
+ * @param userId - UUID of the user profile.
+ */
+export function userChannel(userId: string): string {
+	return `user:${userId}`;
+}
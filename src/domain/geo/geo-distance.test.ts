@@ -0,0 +1,40 @@
+/**
+ * @file Unit tests for the geographic distance rules.
+ *
+ * Covers haversine distances between known cities and the bounding box
+ * enclosing a search radius.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { boundingBox, haversineKm } from './geo-distance.js';
+
+const paris = { latitude: 48.8566, longitude: 2.3522 };
+const lyon = { latitude: 45.764, longitude: 4.8357 };
+
+describe('haversineKm', () => {
+	it('should compute the great-circle distance between two cities', () => {
+		expect(haversineKm(paris, lyon)).toBeCloseTo(391.5, 0);
+	});
+
+	it('should be symmetric and zero for the same point', () => {
+		expect(haversineKm(lyon, paris)).toBeCloseTo(haversineKm(paris, lyon), 6);
+		expect(haversineKm(paris, paris)).toBe(0);
+	});
+});
+
+describe('boundingBox', () => {
+	it('should enclose every point within the radius', () => {
+		const box = boundingBox({ ...paris, radiusKm: 20 });
+		expect(box.minLatitude).toBeLessThan(paris.latitude);
+		expect(box.maxLatitude).toBeGreaterThan(paris.latitude);
+		// A point 20 km due east lies on the box's eastern edge
+		const east = { latitude: paris.latitude, longitude: box.maxLongitude };
+		expect(haversineKm(paris, east)).toBeGreaterThanOrEqual(19.9);
+	});
+
+	it('should span all longitudes at the poles', () => {
+		const box = boundingBox({ latitude: 90, longitude: 0, radiusKm: 10 });
+		expect(box.minLongitude).toBe(-180);
+		expect(box.maxLongitude).toBe(180);
+	});
+});
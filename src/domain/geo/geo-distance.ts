@@ -0,0 +1,83 @@
+/**
+ * @module GeoDistance
+ * Defines the great-circle distance rules used by geographic trip search.
+ * Coordinates are decimal degrees (WGS 84) and distances are kilometers,
+ * computed with the haversine formula on a spherical Earth.
+ */
+
+/** Mean Earth radius used by the haversine formula, in kilometers. */
+export const EARTH_RADIUS_KM = 6371;
+
+/** Kilometers per degree of latitude (and of longitude at the equator). */
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+/**
+ * A point on the Earth's surface.
+ *
+ * @property latitude - Latitude in decimal degrees, from -90 to 90.
+ * @property longitude - Longitude in decimal degrees, from -180 to 180.
+ */
+export type GeoPoint = {
+	latitude: number;
+	longitude: number;
+};
+
+/**
+ * A circular search area around a point.
+ *
+ * @property radiusKm - Radius of the area, in kilometers.
+ */
+export type GeoRadius = GeoPoint & {
+	radiusKm: number;
+};
+
+/**
+ * Latitude/longitude bounds enclosing a search area, used to narrow candidates
+ * with plain range comparisons before computing exact distances.
+ */
+export type GeoBoundingBox = {
+	minLatitude: number;
+	maxLatitude: number;
+	minLongitude: number;
+	maxLongitude: number;
+};
+
+function toRadians(degrees: number): number {
+	return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Computes the great-circle distance between two points with the haversine formula.
+ *
+ * @param from - The first point.
+ * @param to - The second point.
+ * @returns The distance in kilometers.
+ *
+ * @example
+ * haversineKm({ latitude: 48.8566, longitude: 2.3522 }, { latitude: 45.764, longitude: 4.8357 }) // ~392
+ */
+export function haversineKm(from: GeoPoint, to: GeoPoint): number {
+	const dLat = toRadians(to.latitude - from.latitude);
+	const dLng = toRadians(to.longitude - from.longitude);
+	const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+	return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Computes the bounding box of a search area. The box always contains the whole
+ * circle; near the poles the longitude span is widened to the full range.
+ *
+ * @param area - The search area.
+ * @returns The enclosing latitude/longitude bounds.
+ */
+export function boundingBox(area: GeoRadius): GeoBoundingBox {
+	const latDelta = area.radiusKm / KM_PER_DEGREE;
+	const cosLat = Math.cos(toRadians(area.latitude));
+	const lngDelta = cosLat > 1e-6 ? area.radiusKm / (KM_PER_DEGREE * cosLat) : 180;
+	return {
+		minLatitude: Math.max(-90, area.latitude - latDelta),
+		maxLatitude: Math.min(90, area.latitude + latDelta),
+		minLongitude: lngDelta >= 180 ? -180 : area.longitude - lngDelta,
+		maxLongitude: lngDelta >= 180 ? 180 : area.longitude + lngDelta,
+	};
+}
@@ -17,9 +17,10 @@ export * from '../lib/errors/domain.errors.js';
 
 // Repositories
 export type { UserRepository } from './repositories/user.repository.js';
-export type { TripRepository, TripFilters } from './repositories/trip.repository.js';
+export type { TripRepository, TripFilters, TripSearchResult } from './repositories/trip.repository.js';
 
 // Services
-export type { EmailService, SendEmailOptions } from './services/email.service.js';
+export type { EmailRenderer, RenderedEmail } from './services/email-renderer.service.js';
+export type { EmailMessage, EmailService, EmailTemplateId, EmailTemplateVariables } from './services/email.service.js';
 export type { JwtPayload, JwtService } from './services/jwt.service.js';
 export type { PasswordService } from './services/password.service.js';
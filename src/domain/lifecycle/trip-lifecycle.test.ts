@@ -0,0 +1,64 @@
+/**
+ * @file Unit tests for the trip lifecycle rules.
+ *
+ * Covers the allowed status transitions, the trips open to bookings and
+ * edits, and the estimated arrival time.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { canTransition, estimateArrival, isBookable, isEditable } from './trip-lifecycle.js';
+
+describe('canTransition', () => {
+	it.each([
+		['SCHEDULED', 'IN_PROGRESS'],
+		['SCHEDULED', 'CANCELLED'],
+		['IN_PROGRESS', 'COMPLETED'],
+	] as const)('should allow %s to %s', (from, to) => {
+		expect(canTransition(from, to)).toBe(true);
+	});
+
+	it.each([
+		['SCHEDULED', 'COMPLETED'],
+		['IN_PROGRESS', 'CANCELLED'],
+		['IN_PROGRESS', 'SCHEDULED'],
+		['COMPLETED', 'CANCELLED'],
+		['CANCELLED', 'SCHEDULED'],
+	] as const)('should refuse %s to %s', (from, to) => {
+		expect(canTransition(from, to)).toBe(false);
+	});
+});
+
+describe('isBookable', () => {
+	const now = new Date('2026-10-18T10:00:00Z');
+
+	it('should accept a scheduled trip departing later', () => {
+		expect(isBookable({ status: 'SCHEDULED', dateTrip: new Date('2026-10-19T08:00:00Z') }, now)).toBe(true);
+	});
+
+	it('should refuse a scheduled trip whose departure has passed', () => {
+		expect(isBookable({ status: 'SCHEDULED', dateTrip: new Date('2026-10-18T09:00:00Z') }, now)).toBe(false);
+	});
+
+	it.each(['IN_PROGRESS', 'COMPLETED', 'CANCELLED'] as const)('should refuse a %s trip', (status) => {
+		expect(isBookable({ status, dateTrip: new Date('2026-10-19T08:00:00Z') }, now)).toBe(false);
+	});
+});
+
+describe('isEditable', () => {
+	it('should only allow editing scheduled trips', () => {
+		expect(isEditable('SCHEDULED')).toBe(true);
+		expect(isEditable('IN_PROGRESS')).toBe(false);
+		expect(isEditable('COMPLETED')).toBe(false);
+		expect(isEditable('CANCELLED')).toBe(false);
+	});
+});
+
+describe('estimateArrival', () => {
+	it('should add the driving time at the average speed', () => {
+		expect(estimateArrival(new Date('2026-10-20T08:00:00Z'), 100)).toEqual(new Date('2026-10-20T09:15:00Z'));
+	});
+
+	it('should round the driving time up to the minute', () => {
+		expect(estimateArrival(new Date('2026-10-20T08:00:00Z'), 1)).toEqual(new Date('2026-10-20T08:01:00Z'));
+	});
+});
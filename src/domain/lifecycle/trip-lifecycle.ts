@@ -0,0 +1,73 @@
+/**
+ * @module TripLifecycle
+ * Defines the states a trip goes through and the rules tied to them: which
+ * transitions are allowed, when a trip is still open to bookings and edits,
+ * and how its arrival time is estimated for automatic completion.
+ */
+
+import type { TripEntity, TripStatus } from '../entities/trip.entity.js';
+
+/** Average speed used to estimate how long a trip lasts, in km/h. */
+export const AVERAGE_SPEED_KMH = 80;
+
+/**
+ * Statuses each status can move to. A trip departs and arrives on its own;
+ * only a trip that has not departed can be cancelled, and completed or
+ * cancelled trips never change again.
+ */
+export const TRIP_STATUS_TRANSITIONS: Record<TripStatus, readonly TripStatus[]> = {
+	SCHEDULED: ['IN_PROGRESS', 'CANCELLED'],
+	IN_PROGRESS: ['COMPLETED'],
+	COMPLETED: [],
+	CANCELLED: [],
+};
+
+/**
+ * Checks whether a trip can move from one status to another.
+ *
+ * @param from - The current status.
+ * @param to - The requested status.
+ * @returns True if the transition is allowed.
+ */
+export function canTransition(from: TripStatus, to: TripStatus): boolean {
+	return TRIP_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Checks whether a trip still takes bookings: it must be SCHEDULED and not have
+ * departed yet, even if the lifecycle job has not moved it forward.
+ *
+ * @param trip - The trip.
+ * @param now - The current time.
+ * @returns True if a seat can be booked on the trip.
+ */
+export function isBookable(trip: Pick<TripEntity, 'status' | 'dateTrip'>, now: Date): boolean {
+	return trip.status === 'SCHEDULED' && new Date(trip.dateTrip).getTime() > now.getTime();
+}
+
+/**
+ * Checks whether the driver can still edit a trip's schedule, distance, seats,
+ * price or stops. Only SCHEDULED trips can be edited.
+ *
+ * @param status - The trip's status.
+ * @returns True if the trip can be edited.
+ */
+export function isEditable(status: TripStatus): boolean {
+	return status === 'SCHEDULED';
+}
+
+/**
+ * Estimates when a trip arrives from its departure time and distance, at
+ * {@link AVERAGE_SPEED_KMH}, rounded up to the minute.
+ *
+ * @param dateTrip - Departure time of the trip.
+ * @param kms - Distance of the trip in kilometers.
+ * @returns The estimated arrival time.
+ *
+ * @example
+ * estimateArrival(new Date('2026-10-20T08:00:00Z'), 100) // 2026-10-20T09:15:00Z
+ */
+export function estimateArrival(dateTrip: Date, kms: number): Date {
+	const minutes = Math.ceil((kms * 60) / AVERAGE_SPEED_KMH);
+	return new Date(dateTrip.getTime() + minutes * 60_000);
+}
@@ -0,0 +1,23 @@
+/**
+ * @module OutboxEmail
+ * Builds the outbox messages that deliver an email to a user, from the
+ * contact details the repositories return.
+ */
+
+import type { CreateOutboxMessageData } from '../entities/outbox-message.entity.js';
+import type { Locale } from '../entities/user.entity.js';
+import type { EmailMessage } from '../services/email.service.js';
+
+/**
+ * Builds the outbox message of an email.
+ *
+ * @param contact - The recipient's email address and the language of their emails.
+ * @param message - The template and its variables.
+ * @returns The message to record in the outbox.
+ *
+ * @example
+ * outboxEmail({ email: 'jane@example.com', locale: 'en' }, { template: 'welcome', variables: { firstName: 'Jane' } })
+ */
+export function outboxEmail(contact: { email: string; locale: Locale }, message: EmailMessage): CreateOutboxMessageData {
+	return { type: 'EMAIL', payload: { to: contact.email, locale: contact.locale, message } };
+}
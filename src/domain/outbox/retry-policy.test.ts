@@ -0,0 +1,23 @@
+/**
+ * @file Unit tests for the outbox retry policy.
+ *
+ * Covers the first retry delay, the exponential growth and the upper bound.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { retryDelayMs } from './retry-policy.js';
+
+describe('retryDelayMs', () => {
+	it('should wait the base delay after the first attempt', () => {
+		expect(retryDelayMs(1, 30_000, 3_600_000)).toBe(30_000);
+	});
+
+	it('should double the delay after each further attempt', () => {
+		expect(retryDelayMs(2, 30_000, 3_600_000)).toBe(60_000);
+		expect(retryDelayMs(4, 30_000, 3_600_000)).toBe(240_000);
+	});
+
+	it('should never exceed the maximum delay', () => {
+		expect(retryDelayMs(20, 30_000, 3_600_000)).toBe(3_600_000);
+	});
+});
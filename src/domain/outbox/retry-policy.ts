@@ -0,0 +1,24 @@
+/**
+ * @module RetryPolicy
+ * Defines how long the outbox worker waits before retrying a failed delivery.
+ * Delays grow exponentially so that a provider outage is not hammered, and are
+ * capped so that a message is still retried within a bounded time.
+ */
+
+/**
+ * Computes the delay before the next attempt of a message.
+ * The first retry waits `baseDelayMs`; each further failed attempt doubles the
+ * delay, up to `maxDelayMs`.
+ *
+ * @param attempts - Number of attempts already made (at least 1).
+ * @param baseDelayMs - Delay after the first failed attempt, in milliseconds.
+ * @param maxDelayMs - Upper bound of the delay, in milliseconds.
+ * @returns The delay before the next attempt, in milliseconds.
+ *
+ * @example
+ * retryDelayMs(3, 30_000, 3_600_000) // 120000 (2 minutes)
+ */
+export function retryDelayMs(attempts: number, baseDelayMs: number, maxDelayMs: number): number {
+	const exponent = Math.max(attempts - 1, 0);
+	return Math.min(baseDelayMs * 2 ** exponent, maxDelayMs);
+}
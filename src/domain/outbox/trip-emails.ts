@@ -0,0 +1,65 @@
+/**
+ * @module TripEmails
+ * Builds the outbox messages that tell drivers and passengers about the changes
+ * made to their trips by someone else. They are recorded in the transaction of
+ * the change, so a committed booking or cancellation is always announced.
+ */
+
+import type { BookingNotificationDetails, PassengerContact } from '../entities/inscription.entity.js';
+import type { CreateOutboxMessageData } from '../entities/outbox-message.entity.js';
+import type { UserContact } from '../entities/user.entity.js';
+import { outboxEmail } from './outbox-email.js';
+
+/**
+ * What the driver is told about a booking: its status, the trip, the driver's
+ * contact and the passenger's first name.
+ */
+export type BookingEmailDetails = Pick<BookingNotificationDetails, 'status' | 'trip' | 'driver'> & {
+	passenger: Pick<UserContact, 'firstName'>;
+};
+
+/**
+ * Builds the email telling the driver of a booking that it was received or cancelled.
+ * A received booking is worded as a request to review when it is PENDING.
+ *
+ * @param details - The booking, its trip and the driver to tell.
+ * @param received - True for a new booking, false for a cancelled one.
+ * @returns The email, or none if the driver turned booking updates off.
+ */
+export function bookingEmails(details: BookingEmailDetails, received: boolean): CreateOutboxMessageData[] {
+	if (!details.driver.notifyBookingUpdates) {
+		return [];
+	}
+
+	const variables = {
+		firstName: details.driver.firstName,
+		passengerName: details.passenger.firstName,
+		tripDate: new Date(details.trip.dateTrip).toISOString(),
+		departureCity: details.trip.departureCity,
+		arrivalCity: details.trip.arrivalCity,
+	};
+	return [
+		outboxEmail(
+			details.driver,
+			received
+				? { template: 'booking-received', variables: { ...variables, requiresApproval: details.status === 'PENDING' } }
+				: { template: 'booking-cancelled', variables },
+		),
+	];
+}
+
+/**
+ * Builds the email telling each passenger of a cancelled trip that it was
+ * cancelled, and why. Cancellations always reach the passengers.
+ *
+ * @param passengers - The passengers that were booked on the trip.
+ * @param dateTrip - The departure of the trip.
+ * @param reason - The reason given by the driver, if any.
+ * @returns One email per passenger.
+ */
+export function tripCancelledEmails(passengers: PassengerContact[], dateTrip: Date, reason: string | null): CreateOutboxMessageData[] {
+	const tripDate = new Date(dateTrip).toISOString();
+	return passengers.map((passenger) =>
+		outboxEmail(passenger, { template: 'trip-cancelled', variables: { firstName: passenger.firstName, tripDate, reason } }),
+	);
+}
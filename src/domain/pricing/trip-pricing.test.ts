@@ -0,0 +1,24 @@
+/**
+ * @file Unit tests for the trip pricing rules.
+ *
+ * Covers the per-kilometer suggestion, rounding to the configured step,
+ * and the minimum suggested price for very short trips.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PRICE_ROUNDING_CENTS, suggestPricePerSeat } from './trip-pricing.js';
+
+describe('suggestPricePerSeat', () => {
+	it('should compute the price from the distance', () => {
+		expect(suggestPricePerSeat(450)).toBe(2700);
+	});
+
+	it('should round to the nearest rounding step', () => {
+		expect(suggestPricePerSeat(104) % PRICE_ROUNDING_CENTS).toBe(0);
+		expect(suggestPricePerSeat(104)).toBe(600);
+	});
+
+	it('should never suggest less than the rounding step', () => {
+		expect(suggestPricePerSeat(1)).toBe(PRICE_ROUNDING_CENTS);
+	});
+});
@@ -0,0 +1,28 @@
+/**
+ * @module TripPricing
+ * Defines the cost-sharing rules used to suggest a per-seat price for a trip.
+ * All amounts are expressed in euro cents to avoid floating-point rounding issues.
+ */
+
+/** Suggested contribution per passenger and per kilometer, in euro cents. */
+export const PRICE_PER_KM_CENTS = 6;
+
+/** Suggested prices are rounded to the nearest multiple of this amount, in euro cents. */
+export const PRICE_ROUNDING_CENTS = 50;
+
+/**
+ * Computes the suggested price per seat for a trip of the given distance.
+ * The result is rounded to the nearest {@link PRICE_ROUNDING_CENTS} and never
+ * falls below that amount, so short trips still carry a non-zero suggestion.
+ *
+ * @param kms - Distance of the trip in kilometers.
+ * @returns The suggested price per seat, in euro cents.
+ *
+ * @example
+ * suggestPricePerSeat(450) // 2700 (27.00 EUR)
+ */
+export function suggestPricePerSeat(kms: number): number {
+	const raw = kms * PRICE_PER_KM_CENTS;
+	const rounded = Math.round(raw / PRICE_ROUNDING_CENTS) * PRICE_ROUNDING_CENTS;
+	return Math.max(rounded, PRICE_ROUNDING_CENTS);
+}
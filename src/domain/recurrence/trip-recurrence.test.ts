@@ -0,0 +1,111 @@
+/**
+ * @file Unit tests for the trip recurrence rules.
+ *
+ * Covers days of the week, day keys and parsing, departure times, and the
+ * occurrence days of a series within its dates, on its days of the week and
+ * outside its exceptions, all read in the time zone of the series' trips.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { TripRecurrence } from '../entities/trip-series.entity.js';
+import { dayKey, departureOn, isOccurrenceDay, isoDayOfWeek, occurrenceDays, parseDay, startOfDay } from './trip-recurrence.js';
+
+const TIME_ZONE = 'Europe/Paris';
+
+/** Midnight of a day in Paris. */
+function day(value: string): Date {
+	return parseDay(value, TIME_ZONE);
+}
+
+// Weekday commute from Monday 19 October 2026 to Friday 30 October 2026, except Wednesday 21
+const recurrence: TripRecurrence = {
+	daysOfWeek: [1, 2, 3, 4, 5],
+	departureTime: '07:45',
+	startDate: day('2026-10-19'),
+	endDate: day('2026-10-30'),
+	exceptionDates: [day('2026-10-21')],
+};
+
+describe('isoDayOfWeek', () => {
+	it('should number Monday 1 and Sunday 7', () => {
+		expect(isoDayOfWeek(day('2026-10-19'), TIME_ZONE)).toBe(1);
+		expect(isoDayOfWeek(day('2026-10-25'), TIME_ZONE)).toBe(7);
+	});
+
+	it('should read the day of the week in the time zone', () => {
+		// Sunday 23:30 UTC is already Monday in Paris
+		expect(isoDayOfWeek(new Date('2026-10-18T23:30:00Z'), TIME_ZONE)).toBe(1);
+		expect(isoDayOfWeek(new Date('2026-10-18T23:30:00Z'), 'UTC')).toBe(7);
+	});
+});
+
+describe('dayKey and parseDay', () => {
+	it('should format a day regardless of the time of day', () => {
+		expect(dayKey(new Date('2026-10-19T21:59:00Z'), TIME_ZONE)).toBe('2026-10-19');
+		expect(dayKey(new Date('2026-10-19T22:00:00Z'), TIME_ZONE)).toBe('2026-10-20');
+	});
+
+	it('should parse a day to its midnight in the time zone', () => {
+		expect(parseDay('2026-10-19', TIME_ZONE)).toEqual(new Date('2026-10-18T22:00:00Z'));
+		expect(startOfDay(new Date('2026-10-19T06:30:00Z'), TIME_ZONE)).toEqual(parseDay('2026-10-19', TIME_ZONE));
+	});
+});
+
+describe('departureOn', () => {
+	it('should set the departure time of day in the time zone', () => {
+		expect(departureOn(new Date('2026-10-19T20:00:00Z'), '07:45', TIME_ZONE)).toEqual(new Date('2026-10-19T05:45:00Z'));
+	});
+
+	it('should keep the time of day across a daylight saving change', () => {
+		expect(departureOn(day('2026-10-26'), '07:45', TIME_ZONE)).toEqual(new Date('2026-10-26T06:45:00Z'));
+	});
+});
+
+describe('isOccurrenceDay', () => {
+	it('should accept a listed day of the week within the dates', () => {
+		expect(isOccurrenceDay(recurrence, day('2026-10-20'), TIME_ZONE)).toBe(true);
+	});
+
+	it('should refuse days outside the days of the week', () => {
+		expect(isOccurrenceDay(recurrence, day('2026-10-24'), TIME_ZONE)).toBe(false);
+	});
+
+	it('should refuse exceptions', () => {
+		expect(isOccurrenceDay(recurrence, new Date('2026-10-21T05:45:00Z'), TIME_ZONE)).toBe(false);
+	});
+
+	it('should refuse days before the start or after the end', () => {
+		expect(isOccurrenceDay(recurrence, day('2026-10-16'), TIME_ZONE)).toBe(false);
+		expect(isOccurrenceDay(recurrence, day('2026-11-02'), TIME_ZONE)).toBe(false);
+	});
+
+	it('should accept any later day of an open-ended series', () => {
+		expect(isOccurrenceDay({ ...recurrence, endDate: null }, day('2027-01-04'), TIME_ZONE)).toBe(true);
+	});
+});
+
+describe('occurrenceDays', () => {
+	it('should list the occurrence days between two dates, both included', () => {
+		const days = occurrenceDays(recurrence, new Date('2026-10-17T10:00:00Z'), day('2026-10-26'), TIME_ZONE);
+
+		expect(days.map((occurrence) => dayKey(occurrence, TIME_ZONE))).toEqual([
+			'2026-10-19',
+			'2026-10-20',
+			'2026-10-22',
+			'2026-10-23',
+			'2026-10-26',
+		]);
+		expect(days[0]).toEqual(day('2026-10-19'));
+		expect(days[4]).toEqual(new Date('2026-10-25T23:00:00Z'));
+	});
+
+	it('should stop at the end of the series', () => {
+		const days = occurrenceDays(recurrence, day('2026-10-29'), day('2026-11-30'), TIME_ZONE);
+
+		expect(days.map((occurrence) => dayKey(occurrence, TIME_ZONE))).toEqual(['2026-10-29', '2026-10-30']);
+	});
+
+	it('should return no day when the range is empty', () => {
+		expect(occurrenceDays(recurrence, day('2026-10-26'), day('2026-10-25'), TIME_ZONE)).toEqual([]);
+	});
+});
@@ -0,0 +1,119 @@
+/**
+ * @module TripRecurrence
+ * Computes the occurrences of a trip series: the days it runs on between two
+ * dates and when each of them departs. Days and times of day are those of the
+ * given time zone, like the departure time windows of trip searches, so a
+ * series departs at the same wall clock time whatever the server's time zone.
+ */
+
+import type { TripRecurrence } from '../entities/trip-series.entity.js';
+import { addDays, atTimeIn, type CalendarDay, calendarDayIn, parseCalendarDay, startOfDayIn } from '../time/time-zone.js';
+
+/** Formats a calendar day as `YYYY-MM-DD`. */
+function formatDay(day: CalendarDay): string {
+	return `${day.year}-${String(day.month).padStart(2, '0')}-${String(day.day).padStart(2, '0')}`;
+}
+
+/**
+ * Returns the ISO day of the week of a date in a time zone, from 1 (Monday) to 7 (Sunday).
+ *
+ * @param date - The date.
+ * @param timeZone - The IANA time zone.
+ * @returns The ISO day of the week.
+ */
+export function isoDayOfWeek(date: Date, timeZone: string): number {
+	const day = calendarDayIn(date, timeZone);
+	return ((new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay() + 6) % 7) + 1;
+}
+
+/**
+ * Returns midnight of a date's day in a time zone.
+ *
+ * @param date - The date.
+ * @param timeZone - The IANA time zone.
+ * @returns A new date at the start of the same day.
+ */
+export function startOfDay(date: Date, timeZone: string): Date {
+	return startOfDayIn(date, timeZone);
+}
+
+/**
+ * Formats a date's day in a time zone as `YYYY-MM-DD`, to compare days
+ * regardless of the time of day.
+ *
+ * @param date - The date.
+ * @param timeZone - The IANA time zone.
+ * @returns The day key.
+ */
+export function dayKey(date: Date, timeZone: string): string {
+	return formatDay(calendarDayIn(date, timeZone));
+}
+
+/**
+ * Parses a `YYYY-MM-DD` day into midnight of that day in a time zone.
+ *
+ * @param value - The day, as `YYYY-MM-DD`.
+ * @param timeZone - The IANA time zone.
+ * @returns The start of the day.
+ */
+export function parseDay(value: string, timeZone: string): Date {
+	return atTimeIn(parseCalendarDay(value), 0, 0, timeZone);
+}
+
+/**
+ * Returns when the occurrence of a given day departs, at the departure time
+ * of day in a time zone.
+ *
+ * @param day - The day of the occurrence.
+ * @param departureTime - The departure time of day, as `HH:MM`.
+ * @param timeZone - The IANA time zone.
+ * @returns The departure time of the occurrence.
+ *
+ * @example
+ * departureOn(new Date('2026-10-19T10:00:00Z'), '07:45', 'Europe/Paris') // 2026-10-19T05:45:00.000Z
+ */
+export function departureOn(day: Date, departureTime: string, timeZone: string): Date {
+	const [hours, minutes] = departureTime.split(':').map(Number);
+	return atTimeIn(calendarDayIn(day, timeZone), hours, minutes, timeZone);
+}
+
+/**
+ * Checks whether a series runs on a given day: the day is within the series'
+ * dates, on one of its days of the week, and not one of its exceptions.
+ *
+ * @param recurrence - The recurrence of the series.
+ * @param day - The day.
+ * @param timeZone - The IANA time zone.
+ * @returns True if the series has an occurrence on that day.
+ */
+export function isOccurrenceDay(recurrence: TripRecurrence, day: Date, timeZone: string): boolean {
+	const key = dayKey(day, timeZone);
+	if (key < dayKey(recurrence.startDate, timeZone) || (recurrence.endDate && key > dayKey(recurrence.endDate, timeZone))) {
+		return false;
+	}
+	return (
+		recurrence.daysOfWeek.includes(isoDayOfWeek(day, timeZone)) &&
+		!recurrence.exceptionDates.some((exception) => dayKey(exception, timeZone) === key)
+	);
+}
+
+/**
+ * Lists the days a series runs on between two dates, both days included.
+ *
+ * @param recurrence - The recurrence of the series.
+ * @param from - The first day to consider.
+ * @param until - The last day to consider.
+ * @param timeZone - The IANA time zone.
+ * @returns The days of the occurrences, at midnight in the time zone, in order.
+ */
+export function occurrenceDays(recurrence: TripRecurrence, from: Date, until: Date, timeZone: string): Date[] {
+	const days: Date[] = [];
+	const last = dayKey(until, timeZone);
+	for (let day = calendarDayIn(from, timeZone); formatDay(day) <= last; day = addDays(day, 1)) {
+		const midnight = atTimeIn(day, 0, 0, timeZone);
+		if (isOccurrenceDay(recurrence, midnight, timeZone)) {
+			days.push(midnight);
+		}
+	}
+	return days;
+}
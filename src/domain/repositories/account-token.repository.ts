@@ -0,0 +1,38 @@
+/**
+ * @module account-token.repository
+ * Defines the account token repository interface.
+ * This contract abstracts the persistence of the single-use tokens used for
+ * password resets and email verification.
+ */
+
+import type { Result } from '../../lib/shared/types/result.js';
+import type { RepositoryError } from '../../lib/errors/repository.errors.js';
+import type { AccountTokenEntity, CreateAccountTokenData } from '../entities/account-token.entity.js';
+import type { CreateOutboxMessageData } from '../entities/outbox-message.entity.js';
+
+export interface AccountTokenRepository {
+	/**
+	 * Issues an account token. Unused tokens previously issued to the same
+	 * account for the same purpose are superseded, so only the latest email
+	 * link works.
+	 * @param data - The account, purpose, token hash and expiry.
+	 * @param outbox - Optional outbox messages (the email carrying the link) recorded in the same transaction.
+	 * @returns The created token.
+	 */
+	create(data: CreateAccountTokenData, outbox?: CreateOutboxMessageData[]): Promise<Result<AccountTokenEntity, RepositoryError>>;
+
+	/**
+	 * Finds an account token by the hash of its opaque value.
+	 * @param tokenHash - Hex-encoded SHA-256 hash of the token.
+	 * @returns The token, or null if not found.
+	 */
+	findByHash(tokenHash: string): Promise<Result<AccountTokenEntity | null, RepositoryError>>;
+
+	/**
+	 * Marks a token as used. Only succeeds once per token, so concurrent
+	 * redemptions of the same token cannot both proceed.
+	 * @param id - The UUID of the token.
+	 * @returns True if the token was consumed, false if it had already been used.
+	 */
+	consume(id: string): Promise<Result<boolean, RepositoryError>>;
+}
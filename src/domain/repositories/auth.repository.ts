@@ -7,7 +7,9 @@
 
 import type { Result } from '../../lib/shared/types/result.js';
 import type { RepositoryError } from '../../lib/errors/repository.errors.js';
+import type { CreateAccountTokenData } from '../entities/account-token.entity.js';
 import type { AuthEntity, CreateAuthData } from '../entities/auth.entity.js';
+import type { CreateOutboxMessageData } from '../entities/outbox-message.entity.js';
 import type { CreateUserData } from '../entities/user.entity.js';
 import type { PublicUserEntity } from '../entities/user.entity.js';
 
@@ -19,16 +21,25 @@ export interface AuthRepository {
 	 */
 	findByEmail(email: string): Promise<Result<AuthEntity | null, RepositoryError>>;
 
+	/**
+	 * Finds an authentication record by its integer refId.
+	 * @param refId - The integer refId of the Auth record.
+	 * @returns The matching AuthEntity, or null if not found.
+	 */
+	findByRefId(refId: number): Promise<Result<AuthEntity | null, RepositoryError>>;
+
 	/**
 	 * Creates a new Auth and User record atomically within a transaction.
 	 * The authRefId on the User is set automatically from the created Auth record.
 	 * @param authData - Email and hashed password for the Auth record.
 	 * @param userData - Profile data for the User record (authRefId is omitted and set internally).
+	 * @param outbox - Optional outbox messages recorded in the same transaction.
 	 * @returns The created Auth and PublicUser entities.
 	 */
 	createWithUser(
 		authData: CreateAuthData,
 		userData: Omit<CreateUserData, 'authRefId'>,
+		outbox?: CreateOutboxMessageData[],
 	): Promise<Result<{ auth: AuthEntity; user: PublicUserEntity }, RepositoryError>>;
 
 	/**
@@ -45,4 +56,63 @@ export interface AuthRepository {
 	 * @returns Void on success.
 	 */
 	updateRole(refId: number, role: string): Promise<Result<void, RepositoryError>>;
+
+	/**
+	 * Replaces the password of an authentication record.
+	 * @param refId - The integer refId of the Auth record to update.
+	 * @param password - The new Argon2-hashed password.
+	 * @returns Void on success.
+	 */
+	updatePassword(refId: number, password: string): Promise<Result<void, RepositoryError>>;
+
+	/**
+	 * Records that the email address of an authentication record was verified.
+	 * @param refId - The integer refId of the Auth record to update.
+	 * @param verifiedAt - When the address was verified.
+	 * @returns Void on success.
+	 */
+	markEmailVerified(refId: number, verifiedAt: Date): Promise<Result<void, RepositoryError>>;
+
+	/**
+	 * Replaces the email address of an authentication record. The new address
+	 * is unverified until its owner follows a verification link. Within the
+	 * same transaction, every account token still usable is revoked, so links
+	 * sent to the previous address stop working, and the verification token of
+	 * the new address is issued.
+	 * @param refId - The integer refId of the Auth record to update.
+	 * @param email - The new email address.
+	 * @param verificationToken - The email verification token of the new address.
+	 * @param outbox - Optional outbox messages recorded in the same transaction.
+	 * @returns Void on success.
+	 */
+	updateEmail(
+		refId: number,
+		email: string,
+		verificationToken: CreateAccountTokenData,
+		outbox?: CreateOutboxMessageData[],
+	): Promise<Result<void, RepositoryError>>;
+
+	/**
+	 * Counts a failed login on an authentication record. The counter is
+	 * incremented atomically, so concurrent attempts are all counted.
+	 * @param refId - The integer refId of the Auth record to update.
+	 * @returns The number of failed logins, including this one.
+	 */
+	recordLoginFailure(refId: number): Promise<Result<number, RepositoryError>>;
+
+	/**
+	 * Refuses the logins of an authentication record until a given time.
+	 * @param refId - The integer refId of the Auth record to update.
+	 * @param lockedUntil - When logins are accepted again.
+	 * @param outbox - Messages to record in the same transaction, such as the lockout alert.
+	 * @returns Void on success.
+	 */
+	lockLogin(refId: number, lockedUntil: Date, outbox?: CreateOutboxMessageData[]): Promise<Result<void, RepositoryError>>;
+
+	/**
+	 * Resets the failed login counter of an authentication record and lifts its lock.
+	 * @param refId - The integer refId of the Auth record to update.
+	 * @returns Void on success.
+	 */
+	clearLoginFailures(refId: number): Promise<Result<void, RepositoryError>>;
 }
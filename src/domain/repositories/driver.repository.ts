@@ -2,12 +2,12 @@
  * @module driver.repository
  * Defines the driver repository interface.
  * This contract abstracts persistence operations for Driver records,
- * allowing lookup by user reference and driver creation.
+ * allowing lookup by user reference, public profiles and driver creation.
  */
 
 import type { Result } from '../../lib/shared/types/result.js';
 import type { RepositoryError } from '../../lib/errors/repository.errors.js';
-import type { CreateDriverData, DriverEntity } from '../entities/driver.entity.js';
+import type { CreateDriverData, DriverEntity, DriverProfile } from '../entities/driver.entity.js';
 
 export interface DriverRepository {
 	/**
@@ -25,6 +25,20 @@ export interface DriverRepository {
 	 */
 	findByUserId(userId: string): Promise<Result<DriverEntity | null, RepositoryError>>;
 
+	/**
+	 * Finds a driver record by its internal integer refId.
+	 * @param refId - The integer refId of the driver (e.g. a trip's driverRefId).
+	 * @returns The matching DriverEntity, or null if not found.
+	 */
+	findByRefId(refId: number): Promise<Result<DriverEntity | null, RepositoryError>>;
+
+	/**
+	 * Finds the public profile of a driver by UUID. Anonymized drivers have no profile.
+	 * @param id - The UUID of the driver.
+	 * @returns The driver's profile, or null if not found or anonymized.
+	 */
+	findProfile(id: string): Promise<Result<DriverProfile | null, RepositoryError>>;
+
 	/**
 	 * Creates a new driver record.
 	 * @param data - The driver data including license number and user reference.
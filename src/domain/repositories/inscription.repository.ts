@@ -7,7 +7,9 @@
 
 import type { Result } from '../../lib/shared/types/result.js';
 import type { RepositoryError } from '../../lib/errors/repository.errors.js';
-import type { CreateInscriptionData, InscriptionEntity } from '../entities/inscription.entity.js';
+import type { NoSeatsAvailableError, TripNotBookableError } from '../../lib/errors/domain.errors.js';
+import type { BookingNotificationDetails, CreateInscriptionData, InscriptionEntity, InscriptionStatus, PassengerContact } from '../entities/inscription.entity.js';
+import type { CreateOutboxMessageData } from '../entities/outbox-message.entity.js';
 
 export interface InscriptionRepository {
 	/**
@@ -54,6 +56,23 @@ export interface InscriptionRepository {
 	 */
 	findByTripId(tripId: string): Promise<Result<InscriptionEntity[], RepositoryError>>;
 
+	/**
+	 * Retrieves how to reach the passengers still booked on a trip (ACTIVE or PENDING
+	 * inscriptions). Anonymized accounts are left out.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @returns The email and first name of each passenger.
+	 */
+	findPassengerContacts(tripRefId: number): Promise<Result<PassengerContact[], RepositoryError>>;
+
+	/**
+	 * Retrieves what the driver and the passenger of a booking are told about it:
+	 * the trip, and how to reach each of them with their notification preferences.
+	 * Cancelled inscriptions are found as well.
+	 * @param id - The UUID of the inscription.
+	 * @returns The details, or null if the inscription does not exist.
+	 */
+	findNotificationDetails(id: string): Promise<Result<BookingNotificationDetails | null, RepositoryError>>;
+
 	/**
 	 * Finds an inscription by its UUID and verifies it belongs to the given user.
 	 * Combines existence check and ownership verification in a single query.
@@ -65,10 +84,37 @@ export interface InscriptionRepository {
 
 	/**
 	 * Creates a new inscription (books a passenger on a trip).
+	 * If the user previously cancelled an inscription on the same trip, that row is
+	 * reused (reactivated) instead, since a user has at most one row per trip.
+	 * The trip's status, departure and seat availability are checked atomically with
+	 * the write, so concurrent bookings can never overbook the trip nor book it once
+	 * it was cancelled or departed.
 	 * @param data - The user and trip references for the inscription.
-	 * @returns The newly created InscriptionEntity.
+	 * @param outbox - Messages to record with the inscription, such as the email to the driver.
+	 * @returns The newly created InscriptionEntity, TripNotBookableError when the trip no
+	 *          longer takes bookings, or NoSeatsAvailableError when the trip is full.
+	 */
+	create(data: CreateInscriptionData, outbox?: CreateOutboxMessageData[]): Promise<Result<InscriptionEntity, RepositoryError | NoSeatsAvailableError | TripNotBookableError>>;
+
+	/**
+	 * Updates the status of an inscription (e.g. when the driver accepts or rejects it).
+	 * Moving to ACTIVE takes a seat and is checked atomically like {@link create}.
+	 * @param id - The UUID of the inscription to update.
+	 * @param status - The new status.
+	 * @returns The updated InscriptionEntity, TripNotBookableError when activating on a trip
+	 *          that no longer takes bookings, or NoSeatsAvailableError when activating on a full trip.
+	 */
+	updateStatus(id: string, status: InscriptionStatus): Promise<Result<InscriptionEntity, RepositoryError | NoSeatsAvailableError | TripNotBookableError>>;
+
+	/**
+	 * Cancels an inscription: sets its status to CANCELLED and records when and why.
+	 * The row is kept for history; it no longer holds a seat.
+	 * @param id - The UUID of the inscription to cancel.
+	 * @param reason - Optional reason given by the passenger.
+	 * @param outbox - Messages to record with the cancellation, such as the email to the driver.
+	 * @returns The cancelled InscriptionEntity.
 	 */
-	create(data: CreateInscriptionData): Promise<Result<InscriptionEntity, RepositoryError>>;
+	cancel(id: string, reason?: string, outbox?: CreateOutboxMessageData[]): Promise<Result<InscriptionEntity, RepositoryError>>;
 
 	/**
 	 * Deletes an inscription by UUID.
@@ -79,6 +125,7 @@ export interface InscriptionRepository {
 
 	/**
 	 * Checks whether a user is already inscribed on a specific trip.
+	 * Cancelled inscriptions are ignored so the user can book again.
 	 * Used to prevent duplicate bookings.
 	 * @param userRefId - The integer refId of the user.
 	 * @param tripRefId - The integer refId of the trip.
@@ -87,10 +134,11 @@ export interface InscriptionRepository {
 	existsByUserAndTrip(userRefId: number, tripRefId: number): Promise<Result<boolean, RepositoryError>>;
 
 	/**
-	 * Counts the number of inscriptions for a given trip.
-	 * Used to check seat availability before booking.
+	 * Counts the number of accepted (ACTIVE) inscriptions for a given trip.
+	 * Pending, rejected and cancelled inscriptions do not hold a seat.
+	 * Used for reporting remaining seats; booking relies on the atomic check in {@link create}.
 	 * @param tripRefId - The integer refId of the trip.
-	 * @returns The count of inscriptions on the trip.
+	 * @returns The count of seat-holding inscriptions on the trip.
 	 */
 	countByTripRefId(tripRefId: number): Promise<Result<number, RepositoryError>>;
 }
@@ -0,0 +1,84 @@
+/**
+ * @module outbox.repository
+ * Defines the outbox repository interface.
+ * This contract abstracts the delivery queue of outbox messages: workers
+ * claim due messages and record the outcome of each attempt, and admins list
+ * messages and replay dead ones. Messages are recorded by the repositories
+ * of the business changes that cause them, within the same transaction.
+ */
+
+import type { Result } from '../../lib/shared/types/result.js';
+import type { RepositoryError } from '../../lib/errors/repository.errors.js';
+import type { OutboxMessageEntity, OutboxMessageStatus } from '../entities/outbox-message.entity.js';
+
+/**
+ * Filters for listing outbox messages.
+ *
+ * @property status - Only list messages in this state.
+ */
+export type OutboxMessageFilters = {
+	status?: OutboxMessageStatus;
+};
+
+export interface OutboxRepository {
+	/**
+	 * Claims due messages for delivery. Pending messages whose next attempt is
+	 * due, and processing messages whose claim expired (their worker died), are
+	 * moved to PROCESSING with their attempt count incremented. Concurrent
+	 * workers never claim the same message.
+	 * @param now - The current time.
+	 * @param limit - Maximum number of messages to claim.
+	 * @param claimUntil - When the claim expires if the outcome is never recorded.
+	 * @returns The claimed messages, oldest due first.
+	 */
+	claimDue(now: Date, limit: number, claimUntil: Date): Promise<Result<OutboxMessageEntity[], RepositoryError>>;
+
+	/**
+	 * Records a successful delivery.
+	 * @param id - The UUID of the message.
+	 * @param sentAt - When the message was delivered.
+	 * @returns Void on success.
+	 */
+	markSent(id: string, sentAt: Date): Promise<Result<void, RepositoryError>>;
+
+	/**
+	 * Records a failed attempt and puts the message back in the queue.
+	 * @param id - The UUID of the message.
+	 * @param error - Why the attempt failed.
+	 * @param nextAttemptAt - When to try again.
+	 * @returns Void on success.
+	 */
+	markFailed(id: string, error: string, nextAttemptAt: Date): Promise<Result<void, RepositoryError>>;
+
+	/**
+	 * Records a failed last attempt; the message is no longer retried.
+	 * @param id - The UUID of the message.
+	 * @param error - Why the last attempt failed.
+	 * @param deadAt - When the message was given up on.
+	 * @returns Void on success.
+	 */
+	markDead(id: string, error: string, deadAt: Date): Promise<Result<void, RepositoryError>>;
+
+	/**
+	 * Retrieves a paginated list of messages, newest first.
+	 * @param filters - Optional status filter.
+	 * @param params - Pagination parameters (skip/take).
+	 * @returns An object containing the data array and the total count.
+	 */
+	findAll(filters: OutboxMessageFilters, params: { skip: number; take: number }): Promise<Result<{ data: OutboxMessageEntity[]; total: number }, RepositoryError>>;
+
+	/**
+	 * Finds a message by its UUID.
+	 * @param id - The UUID of the message.
+	 * @returns The message, or null if not found.
+	 */
+	findById(id: string): Promise<Result<OutboxMessageEntity | null, RepositoryError>>;
+
+	/**
+	 * Puts a dead message back in the queue with a fresh attempt count.
+	 * @param id - The UUID of the message.
+	 * @param now - When the message becomes due again.
+	 * @returns The requeued message, or null if the message is not dead.
+	 */
+	replay(id: string, now: Date): Promise<Result<OutboxMessageEntity | null, RepositoryError>>;
+}
@@ -0,0 +1,50 @@
+/**
+ * @module review.repository
+ * Defines the review repository interface.
+ * This contract abstracts persistence of the reviews left after trips:
+ * recording them once per trip, author and reviewed user, listing the reviews
+ * a user received, and aggregating the ratings of drivers.
+ */
+
+import type { Result } from '../../lib/shared/types/result.js';
+import type { RepositoryError } from '../../lib/errors/repository.errors.js';
+import type { CreateReviewData, RatingSummary, ReviewDirection, ReviewEntity } from '../entities/review.entity.js';
+
+export interface ReviewRepository {
+	/**
+	 * Records a review.
+	 * @param data - The trip, the author, the reviewed user, the direction, the score and the comment.
+	 * @returns The created review with its author.
+	 */
+	create(data: CreateReviewData): Promise<Result<ReviewEntity, RepositoryError>>;
+
+	/**
+	 * Checks whether an author already reviewed a user for a trip.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @param authorRefId - The integer refId of the author.
+	 * @param subjectRefId - The integer refId of the reviewed user.
+	 * @returns True if the review exists.
+	 */
+	exists(tripRefId: number, authorRefId: number, subjectRefId: number): Promise<Result<boolean, RepositoryError>>;
+
+	/**
+	 * Retrieves a paginated list of the reviews a user received in one direction, newest first.
+	 * @param subjectRefId - The integer refId of the reviewed user.
+	 * @param direction - Reviews received as a driver or as a passenger.
+	 * @param params - Pagination parameters (skip/take).
+	 * @returns An object containing the data array and the total count.
+	 */
+	findBySubjectRefId(
+		subjectRefId: number,
+		direction: ReviewDirection,
+		params: { skip: number; take: number },
+	): Promise<Result<{ data: ReviewEntity[]; total: number }, RepositoryError>>;
+
+	/**
+	 * Aggregates the ratings drivers received from their passengers.
+	 * @param driverRefIds - The integer refIds of the drivers.
+	 * @returns The rating summary of each requested driver, keyed by driver refId;
+	 *          drivers without ratings get a zero count and a null average.
+	 */
+	summarizeDrivers(driverRefIds: number[]): Promise<Result<Map<number, RatingSummary>, RepositoryError>>;
+}
@@ -0,0 +1,66 @@
+/**
+ * @module session.repository
+ * Defines the session repository interface.
+ * This contract abstracts the persistence of user sessions and their rotating
+ * refresh tokens.
+ */
+
+import type { Result } from '../../lib/shared/types/result.js';
+import type { RepositoryError } from '../../lib/errors/repository.errors.js';
+import type {
+	IssueRefreshTokenData,
+	RefreshTokenWithSession,
+	SessionEntity,
+	SessionRevocationReason,
+} from '../entities/session.entity.js';
+
+export interface SessionRepository {
+	/**
+	 * Opens a session for a user together with its first refresh token.
+	 * @param userRefId - The integer refId of the signed-in user.
+	 * @param token - Hash and expiry of the first refresh token.
+	 * @returns The created session.
+	 */
+	create(userRefId: number, token: IssueRefreshTokenData): Promise<Result<SessionEntity, RepositoryError>>;
+
+	/**
+	 * Finds a session by its UUID.
+	 * @param id - The UUID of the session.
+	 * @returns The session, or null if not found.
+	 */
+	findById(id: string): Promise<Result<SessionEntity | null, RepositoryError>>;
+
+	/**
+	 * Finds a refresh token by the hash of its value, with its session.
+	 * @param tokenHash - The SHA-256 hash of the presented token.
+	 * @returns The token and its session, or null if no token has this hash.
+	 */
+	findRefreshToken(tokenHash: string): Promise<Result<RefreshTokenWithSession | null, RepositoryError>>;
+
+	/**
+	 * Marks a refresh token as used and issues its successor in the same session.
+	 * Marking only succeeds while the token is unused, so two concurrent
+	 * refreshes with the same token cannot both rotate it.
+	 * @param tokenId - The UUID of the token being exchanged.
+	 * @param next - Hash and expiry of the successor token.
+	 * @returns True when the token was rotated, false when it had already been used.
+	 */
+	rotateRefreshToken(tokenId: string, next: IssueRefreshTokenData): Promise<Result<boolean, RepositoryError>>;
+
+	/**
+	 * Revokes a session. Revoking an already revoked session keeps its original reason.
+	 * @param id - The UUID of the session.
+	 * @param reason - Why the session is revoked.
+	 * @returns Void on success.
+	 */
+	revoke(id: string, reason: SessionRevocationReason): Promise<Result<void, RepositoryError>>;
+
+	/**
+	 * Revokes every active session of a user.
+	 * @param userRefId - The integer refId of the user.
+	 * @param reason - Why the sessions are revoked.
+	 * @param exceptSessionId - Optional session to keep active, e.g. the one the request was made from.
+	 * @returns The number of sessions revoked.
+	 */
+	revokeAllForUser(userRefId: number, reason: SessionRevocationReason, exceptSessionId?: string): Promise<Result<number, RepositoryError>>;
+}
@@ -0,0 +1,76 @@
+/**
+ * @module trip-message.repository
+ * Defines the trip message repository interface.
+ * This contract abstracts persistence of the conversations of trips: posting
+ * and listing messages, hiding them for moderation, and tracking up to when
+ * each participant read a conversation to count their unread messages.
+ */
+
+import type { Result } from '../../lib/shared/types/result.js';
+import type { RepositoryError } from '../../lib/errors/repository.errors.js';
+import type { CreateTripMessageData, TripMessageEntity } from '../entities/trip-message.entity.js';
+
+/**
+ * Options for listing the messages of a trip.
+ *
+ * @property includeHidden - Also list the messages hidden by an admin.
+ */
+export type TripMessageListOptions = {
+	includeHidden: boolean;
+};
+
+export interface TripMessageRepository {
+	/**
+	 * Posts a message.
+	 * @param data - The trip, the author and the text of the message.
+	 * @returns The created message with its author.
+	 */
+	create(data: CreateTripMessageData): Promise<Result<TripMessageEntity, RepositoryError>>;
+
+	/**
+	 * Retrieves a paginated list of the messages of a trip, newest first.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @param options - Whether hidden messages are listed.
+	 * @param params - Pagination parameters (skip/take).
+	 * @returns An object containing the data array and the total count.
+	 */
+	findByTripRefId(
+		tripRefId: number,
+		options: TripMessageListOptions,
+		params: { skip: number; take: number },
+	): Promise<Result<{ data: TripMessageEntity[]; total: number }, RepositoryError>>;
+
+	/**
+	 * Finds a message by its UUID.
+	 * @param id - The UUID of the message.
+	 * @returns The message, or null if not found.
+	 */
+	findById(id: string): Promise<Result<TripMessageEntity | null, RepositoryError>>;
+
+	/**
+	 * Hides a message from the participants of the trip.
+	 * @param id - The UUID of the message.
+	 * @param hiddenAt - When the message was hidden.
+	 * @returns The hidden message.
+	 */
+	hide(id: string, hiddenAt: Date): Promise<Result<TripMessageEntity, RepositoryError>>;
+
+	/**
+	 * Records that a user read the conversation of a trip up to a point in time.
+	 * @param userRefId - The integer refId of the reader.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @param readAt - When the conversation was read.
+	 * @returns Void on success.
+	 */
+	markRead(userRefId: number, tripRefId: number, readAt: Date): Promise<Result<void, RepositoryError>>;
+
+	/**
+	 * Counts the visible messages of a trip that a user has not read yet:
+	 * those posted by others since the user last read the conversation, or all
+	 * of them if the user never read it.
+	 * @param userRefId - The integer refId of the reader.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @returns The number of unread messages.
+	 */
+	countUnread(userRefId: number, tripRefId: number): Promise<Result<number, RepositoryError>>;
+}
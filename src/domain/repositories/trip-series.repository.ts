@@ -0,0 +1,60 @@
+/**
+ * @module trip-series.repository
+ * Defines the trip series repository interface.
+ * This contract abstracts persistence of the recurring trips drivers offer:
+ * creating and editing a series, listing a driver's series, finding the
+ * series whose occurrences are still to be materialized, and cancelling one.
+ * The occurrences themselves are trips, persisted through the TripRepository.
+ */
+
+import type { Result } from '../../lib/shared/types/result.js';
+import type { RepositoryError } from '../../lib/errors/repository.errors.js';
+import type { CreateTripSeriesData, TripSeriesEntity, UpdateTripSeriesData } from '../entities/trip-series.entity.js';
+
+export interface TripSeriesRepository {
+    /**
+     * Creates a new ACTIVE trip series.
+     * @param data - The route, car, trip details and recurrence of the series.
+     * @returns The newly created TripSeriesEntity.
+     */
+    create(data: CreateTripSeriesData): Promise<Result<TripSeriesEntity, RepositoryError>>;
+
+    /**
+     * Finds a trip series by its UUID.
+     * @param id - The UUID of the series.
+     * @returns The matching TripSeriesEntity, or null if not found.
+     */
+    findById(id: string): Promise<Result<TripSeriesEntity | null, RepositoryError>>;
+
+    /**
+     * Retrieves a paginated list of a driver's series, newest first.
+     * @param driverRefId - The integer refId of the driver.
+     * @param params - Pagination parameters (skip/take).
+     * @returns An object containing the data array and the total count.
+     */
+    findByDriverRefId(driverRefId: number, params: { skip: number; take: number }): Promise<Result<{ data: TripSeriesEntity[]; total: number }, RepositoryError>>;
+
+    /**
+     * Retrieves the ACTIVE series that have not ended, whose occurrences may still need materializing.
+     * @param today - Midnight of the current day, in the time zone of the trips.
+     * @returns The series, oldest first.
+     */
+    findActive(today: Date): Promise<Result<TripSeriesEntity[], RepositoryError>>;
+
+    /**
+     * Updates an ACTIVE series.
+     * @param id - The UUID of the series.
+     * @param data - The fields to change.
+     * @returns The updated series, or null if it was no longer ACTIVE.
+     */
+    update(id: string, data: UpdateTripSeriesData): Promise<Result<TripSeriesEntity | null, RepositoryError>>;
+
+    /**
+     * Cancels an ACTIVE series, so no further occurrence is materialized. Its existing
+     * occurrences are trips, cancelled through the TripRepository.
+     * @param id - The UUID of the series.
+     * @param cancelledAt - When the series was cancelled.
+     * @returns True if this call cancelled the series, false if it was no longer ACTIVE.
+     */
+    cancel(id: string, cancelledAt: Date): Promise<Result<boolean, RepositoryError>>;
+}
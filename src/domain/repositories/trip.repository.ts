@@ -2,24 +2,66 @@
  * @module trip.repository
  * Defines the trip repository interface and search filter types.
  * This contract abstracts persistence operations for Trip (carpooling journey) records,
- * including paginated listing, filtered search, and CRUD operations.
+ * including paginated listing, filtered search, creation, edits, cancellation, the
+ * occurrences of trip series and the status transitions driven by the clock.
  */
 
 import type { Result } from '../../lib/shared/types/result.js';
 import type { RepositoryError } from '../../lib/errors/repository.errors.js';
-import type { CreateTripData, TripEntity } from '../entities/trip.entity.js';
+import type { SeatsBelowBookingsError } from '../../lib/errors/domain.errors.js';
+import type { CreateOutboxMessageData } from '../entities/outbox-message.entity.js';
+import type { CreateTripData, DueTripReminder, TripEntity, TripStatusAdvance, UpdateTripData } from '../entities/trip.entity.js';
+import type { UserContact } from '../entities/user.entity.js';
+import type { GeoRadius } from '../geo/geo-distance.js';
+
+/** Fields trip search results can be sorted by. */
+export type TripSortField = 'departureTime' | 'remainingSeats' | 'pickupDistance';
 
 /**
  * Optional filters for searching trips.
  *
  * @property departureCity - Filter by departure city name.
  * @property arrivalCity - Filter by arrival city name.
- * @property date - Filter by trip date.
+ * @property departureNear - Boarding area: trips stopping at a city within the radius.
+ *                           Takes precedence over `departureCity`.
+ * @property arrivalNear - Leaving area: trips stopping at a later city within the radius.
+ *                         Takes precedence over `arrivalCity`.
+ * @property dateFrom - Earliest trip day (inclusive, whole day in `timeZone`).
+ * @property dateTo - Latest trip day (inclusive, whole day in `timeZone`).
+ * @property departureTimeFrom - Earliest departure time of day in `timeZone`, as `HH:MM`.
+ * @property departureTimeTo - Latest departure time of day in `timeZone`, as `HH:MM`. A window whose
+ *                             start is after its end spans midnight.
+ * @property minSeats - Minimum number of seats still free on the searched segment.
+ * @property maxPricePerSeat - Maximum price per seat, in euro cents.
+ * @property sortBy - Sort field; defaults to the departure time.
+ * @property sortOrder - Sort direction; defaults to ascending.
+ * @property timeZone - IANA time zone the days and departure times are read in.
  */
 export type TripFilters = {
     departureCity?: string;
     arrivalCity?: string;
-    date?: Date;
+    departureNear?: GeoRadius;
+    arrivalNear?: GeoRadius;
+    dateFrom?: Date;
+    dateTo?: Date;
+    departureTimeFrom?: string;
+    departureTimeTo?: string;
+    minSeats?: number;
+    maxPricePerSeat?: number;
+    sortBy?: TripSortField;
+    sortOrder?: 'asc' | 'desc';
+    timeZone: string;
+};
+
+/**
+ * A trip returned by search, with the number of seats still free between the
+ * searched departure and arrival cities (the full route when none were searched)
+ * and, for searches around a departure point, the distance from that point to the
+ * pickup stop in kilometers (null otherwise).
+ */
+export type TripSearchResult = TripEntity & {
+    remainingSeats: number;
+    pickupDistanceKm: number | null;
 };
 
 export interface TripRepository {
@@ -38,11 +80,26 @@ export interface TripRepository {
     findById(id: string): Promise<Result<TripEntity | null, RepositoryError>>;
 
     /**
-     * Searches trips matching the given filters.
-     * @param filters - Optional filters for departure city, arrival city, and date.
-     * @returns An array of matching TripEntity records.
+     * Finds a trip by its internal integer refId.
+     * @param refId - The integer refId of the trip (e.g. an inscription's tripRefId).
+     * @returns The matching TripEntity, or null if not found.
+     */
+    findByRefId(refId: number): Promise<Result<TripEntity | null, RepositoryError>>;
+
+    /**
+     * Retrieves how to reach the driver of a trip, with their notification preferences.
+     * @param id - The UUID of the trip.
+     * @returns The driver's contact, or null if the trip does not exist.
      */
-    findByFilters(filters: TripFilters): Promise<Result<TripEntity[], RepositoryError>>;
+    findDriverContact(id: string): Promise<Result<UserContact | null, RepositoryError>>;
+
+    /**
+     * Searches the SCHEDULED trips matching the given filters, sorted and paginated.
+     * @param filters - Optional route, date, time, seat and price filters, and the sort order.
+     * @param params - Optional pagination parameters (skip/take).
+     * @returns An object containing the page of matching trips and the total match count.
+     */
+    findByFilters(filters: TripFilters, params?: { skip: number; take: number }): Promise<Result<{ data: TripSearchResult[]; total: number }, RepositoryError>>;
 
     /**
      * Creates a new trip, optionally linking it to cities.
@@ -52,9 +109,62 @@ export interface TripRepository {
     create(data: CreateTripData): Promise<Result<TripEntity, RepositoryError>>;
 
     /**
-     * Deletes a trip by UUID.
-     * @param id - The UUID of the trip to delete.
-     * @returns Void on success.
+     * Updates a SCHEDULED trip. Trips that departed, completed or were cancelled are left untouched,
+     * and seats are never lowered below the seats accepted bookings hold on a leg of the trip.
+     * @param id - The UUID of the trip.
+     * @param data - The fields to change.
+     * @returns True if the trip was updated, false if it was no longer SCHEDULED, or
+     *          SeatsBelowBookingsError when the new seats are below its bookings.
+     */
+    update(id: string, data: UpdateTripData): Promise<Result<boolean, RepositoryError | SeatsBelowBookingsError>>;
+
+    /**
+     * Retrieves the occurrences of a trip series from a given day on, whatever their status,
+     * in order of their day.
+     * @param seriesRefId - The integer refId of the series.
+     * @param fromDay - The first occurrence day to include.
+     * @returns The occurrences, without relations.
+     */
+    findBySeries(seriesRefId: number, fromDay: Date): Promise<Result<TripEntity[], RepositoryError>>;
+
+    /**
+     * Cancels a SCHEDULED trip together with its pending and active bookings, in one
+     * transaction. The trip is kept, so its history stays readable.
+     * @param id - The UUID of the trip.
+     * @param reason - Why the driver cancelled, if given.
+     * @param cancelledAt - When the trip was cancelled.
+     * @param outbox - The emails telling the passengers, recorded only if this call cancels the trip.
+     * @returns True if this call cancelled the trip, false if it was no longer SCHEDULED.
+     */
+    cancel(id: string, reason: string | null, cancelledAt: Date, outbox?: CreateOutboxMessageData[]): Promise<Result<boolean, RepositoryError>>;
+
+    /**
+     * Moves trips along their lifecycle by the clock: SCHEDULED trips whose departure
+     * has passed become IN_PROGRESS, then IN_PROGRESS trips whose estimated arrival has
+     * passed become COMPLETED.
+     * @param now - The current time.
+     * @returns How many trips were started and completed.
+     */
+    advanceStatuses(now: Date): Promise<Result<TripStatusAdvance, RepositoryError>>;
+
+    /**
+     * Retrieves the SCHEDULED trips departing within a window whose reminder has not been sent yet,
+     * soonest first, with the passengers holding a seat. Anonymized passengers are left out.
+     * @param from - Start of the window (exclusive), usually now.
+     * @param until - End of the window (inclusive).
+     * @param limit - Maximum number of trips returned.
+     * @returns The trips to remind passengers of.
+     */
+    findDueReminders(from: Date, until: Date, limit: number): Promise<Result<DueTripReminder[], RepositoryError>>;
+
+    /**
+     * Records that the reminder of a trip was sent, together with the reminder emails,
+     * in one transaction. Only the first call for a trip has an effect, so concurrent
+     * runs of the reminder job never remind passengers twice.
+     * @param id - The UUID of the trip.
+     * @param outbox - The reminder emails, recorded only if this call marks the trip.
+     * @param sentAt - When the reminder was sent.
+     * @returns True if the trip was marked by this call, false if it already was.
      */
-    delete(id: string): Promise<Result<void, RepositoryError>>;
+    markReminderSent(id: string, outbox: CreateOutboxMessageData[], sentAt: Date): Promise<Result<boolean, RepositoryError>>;
 }
@@ -0,0 +1,33 @@
+/**
+ * @module cache-metrics.service
+ * Defines the cache metrics recorder: counts, per cached domain, the reads
+ * served from the cache, the reads that fell through to the database and the
+ * entries found invalidated by a write since they were cached.
+ */
+
+/**
+ * Counters of one cached domain since the process started.
+ *
+ * @property hits - Reads served from the cache.
+ * @property misses - Reads that fell through to the database, evictions included.
+ * @property evictions - Cached entries found invalidated by a write when read.
+ */
+export type CacheDomainMetrics = {
+	hits: number;
+	misses: number;
+	evictions: number;
+};
+
+export interface CacheMetrics {
+	/** Counts a read of the domain served from the cache. */
+	recordHit(domain: string): void;
+
+	/** Counts a read of the domain that fell through to the database. */
+	recordMiss(domain: string): void;
+
+	/** Counts a cached entry of the domain found invalidated when read. */
+	recordEviction(domain: string): void;
+
+	/** Returns the counters of every domain read so far, keyed by domain. */
+	snapshot(): Record<string, CacheDomainMetrics>;
+}
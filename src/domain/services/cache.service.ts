@@ -1,7 +1,7 @@
 /**
  * @module cache.service
  * Defines the cache service interface.
- * This contract abstracts cache operations (get/set/delete/pattern-delete/health),
+ * This contract abstracts cache operations (get/multi-get/set/increment/delete/pattern-delete/health),
  * allowing different cache backends (Upstash, ioredis, in-memory) to be swapped via DI.
  */
 
@@ -9,9 +9,18 @@ export interface CacheService {
 	/** Retrieve a cached value by key. Returns null on miss. */
 	get<T>(key: string): Promise<T | null>;
 
+	/** Retrieve several values in one round trip, in the order of the keys. Misses are null. */
+	getMany<T>(keys: string[]): Promise<(T | null)[]>;
+
 	/** Store a value under key with a TTL in seconds. */
 	set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
 
+	/**
+	 * Atomically increment the counter under key and return its new value.
+	 * A missing counter starts at 0 and expires after ttlSeconds; incrementing keeps its expiry.
+	 */
+	increment(key: string, ttlSeconds: number): Promise<number>;
+
 	/** Delete a single key. */
 	delete(key: string): Promise<void>;
 
@@ -0,0 +1,41 @@
+/**
+ * @module email-renderer.service
+ * Defines the email renderer interface.
+ * This contract turns a template and its variables into the localized
+ * subject, HTML body and plain-text body of an email, keeping the wording
+ * of emails out of the providers that deliver them.
+ */
+
+import type { Locale } from '../entities/user.entity.js';
+import type { EmailMessage } from './email.service.js';
+
+/**
+ * A rendered email, ready to be delivered.
+ *
+ * @property subject - The subject line.
+ * @property html - The HTML body; every variable is escaped.
+ * @property text - The plain-text alternative of the body.
+ */
+export type RenderedEmail = {
+	subject: string;
+	html: string;
+	text: string;
+};
+
+export interface EmailRenderer {
+	/**
+	 * Renders a message in the given locale.
+	 * @param message - The template and its variables.
+	 * @param locale - The language of the email.
+	 * @returns The rendered email.
+	 */
+	render(message: EmailMessage, locale: Locale): RenderedEmail;
+
+	/**
+	 * Renders a template with its built-in sample variables, for previews.
+	 * @param template - The template to render.
+	 * @param locale - The language of the email.
+	 * @returns The rendered email, or null if no template has this id.
+	 */
+	preview(template: string, locale: Locale): RenderedEmail | null;
+}
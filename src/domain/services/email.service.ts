@@ -1,39 +1,72 @@
 /**
  * @module email.service
- * Defines the email service interface and its options type.
- * This contract abstracts email sending operations, allowing different
- * email providers (e.g. Resend, SendGrid) to be swapped via dependency injection.
+ * Defines the email service interface and the catalogue of transactional
+ * emails it sends. Callers pick a template and pass its typed variables;
+ * rendering the localized subject and bodies is left to the implementation,
+ * allowing different email providers (e.g. Resend, SendGrid) to be swapped
+ * via dependency injection.
  */
 
 import type { Result } from '../../lib/shared/types/result.js';
 import type { EmailError } from '../../lib/errors/email.errors.js';
+import type { Locale } from '../entities/user.entity.js';
 
 /**
- * Options for sending a custom email.
+ * Variables of every email template, keyed by template id. Values are kept
+ * JSON-safe (dates are ISO 8601 strings) so messages can be stored in the outbox.
  *
- * @property to - The recipient's email address.
- * @property subject - The email subject line.
- * @property html - The email body as HTML content.
+ * - `welcome` -- sent once an account is created.
+ * - `email-verification` -- carries the single-use link confirming an address.
+ * - `password-reset` -- carries the single-use link to the reset form and its validity.
+ * - `email-changed` -- warns the previous address of an account that its email changed.
+ * - `account-locked` -- warns the owner of an account that it was locked after repeated
+ *   failed logins, and until when.
+ * - `trip-cancelled` -- tells a passenger that the driver cancelled their trip, and why when
+ *   the driver said.
+ * - `booking-confirmed` -- confirms a seat on a trip to its passenger.
+ * - `trip-reminder` -- reminds a passenger of an upcoming trip.
+ * - `booking-received` -- tells a driver that a passenger booked a seat, or asked for one
+ *   when the trip requires approval.
+ * - `booking-cancelled` -- tells a driver that a passenger withdrew their booking.
  */
-export type SendEmailOptions = {
-	to: string;
-	subject: string;
-	html: string;
+export type EmailTemplateVariables = {
+	welcome: { firstName: string | null };
+	'email-verification': { verificationUrl: string };
+	'password-reset': { resetUrl: string; expiresInMinutes: number };
+	'email-changed': { newEmail: string };
+	'account-locked': { firstName: string | null; failedAttempts: number; lockedUntil: string };
+	'trip-cancelled': { firstName: string | null; tripDate: string; reason: string | null };
+	'booking-confirmed': { firstName: string | null; tripDate: string; departureCity: string; arrivalCity: string };
+	'trip-reminder': { firstName: string | null; tripDate: string; departureCity: string; arrivalCity: string };
+	'booking-received': {
+		firstName: string | null;
+		passengerName: string | null;
+		tripDate: string;
+		departureCity: string;
+		arrivalCity: string;
+		requiresApproval: boolean;
+	};
+	'booking-cancelled': { firstName: string | null; passengerName: string | null; tripDate: string; departureCity: string; arrivalCity: string };
 };
 
+/** Identifier of an email template. */
+export type EmailTemplateId = keyof EmailTemplateVariables;
+
+/**
+ * An email to send: a template and the variables it is rendered with.
+ * Narrowing on `template` narrows `variables` to the matching type.
+ */
+export type EmailMessage<K extends EmailTemplateId = EmailTemplateId> = {
+	[T in K]: { template: T; variables: EmailTemplateVariables[T] };
+}[K];
+
 export interface EmailService {
 	/**
-	 * Sends a welcome email to a newly registered user.
+	 * Renders a template in the recipient's locale and sends it.
 	 * @param to - The recipient's email address.
-	 * @param firstName - The user's first name for personalization.
-	 * @returns Void on success.
-	 */
-	sendWelcomeEmail(to: string, firstName: string): Promise<Result<void, EmailError>>;
-
-	/**
-	 * Sends a custom email with the specified options.
-	 * @param options - The email configuration (to, subject, html body).
+	 * @param message - The template and its variables.
+	 * @param locale - The language of the email.
 	 * @returns Void on success.
 	 */
-	send(options: SendEmailOptions): Promise<Result<void, EmailError>>;
+	send(to: string, message: EmailMessage, locale: Locale): Promise<Result<void, EmailError>>;
 }
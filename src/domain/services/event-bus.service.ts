@@ -0,0 +1,27 @@
+/**
+ * @module event-bus.service
+ * Defines the domain event bus and the subscribers it delivers events to.
+ * Use cases publish events without knowing who reacts to them; reactions are
+ * added by registering a new subscriber.
+ */
+
+import type { DomainEvent } from '../events/domain-events.js';
+
+export interface DomainEventSubscriber {
+	/**
+	 * Reacts to a published event. Subscribers receive every event and ignore
+	 * the types they have no reaction to.
+	 * @param event - The published event.
+	 */
+	handle(event: DomainEvent): Promise<void>;
+}
+
+export interface EventBus {
+	/**
+	 * Delivers an event to every subscriber. Called once the change the event
+	 * describes is committed. A failing subscriber is reported by the bus and
+	 * does not fail the publisher, nor prevent the other subscribers from running.
+	 * @param event - The event to deliver.
+	 */
+	publish(event: DomainEvent): Promise<void>;
+}
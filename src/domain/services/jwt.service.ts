@@ -13,16 +13,19 @@ import type { JwtError } from '../../lib/errors/jwt.errors.js';
  *
  * @property userId - The UUID of the authenticated user.
  * @property role - The user's role (e.g. "USER", "ADMIN").
+ * @property sessionId - The UUID of the session the token was issued for. Tokens
+ *                       without a session cannot be revoked before they expire.
  */
 export type JwtPayload = {
 	userId: string;
 	role: string;
+	sessionId?: string;
 };
 
 export interface JwtService {
 	/**
 	 * Signs a payload into a JWT token string.
-	 * @param payload - The data to embed in the token (userId, role).
+	 * @param payload - The data to embed in the token (userId, role, sessionId).
 	 * @returns The signed JWT token string.
 	 */
 	sign(payload: JwtPayload): Promise<Result<string, JwtError>>;
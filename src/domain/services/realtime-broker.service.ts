@@ -0,0 +1,43 @@
+/**
+ * @module realtime-broker.service
+ * Defines the realtime broker: the fan-out backend of the event streams.
+ * It delivers the events published on a channel to every stream following
+ * that channel, whichever node the stream is connected to, and keeps a short
+ * backlog of each channel so that reconnecting clients miss nothing.
+ */
+
+import type { RealtimeEvent, RealtimeEventPayloads, RealtimeEventType } from '../events/realtime-events.js';
+
+/** Receives the events published on a channel. Must not throw. */
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+export interface RealtimeBroker {
+	/**
+	 * Assigns an id to an event, adds it to the channel's backlog and delivers
+	 * it to the listeners of the channel.
+	 * @param channel - The channel to publish on.
+	 * @param type - The event type.
+	 * @param data - The payload of that type.
+	 * @throws If the backend cannot be reached.
+	 */
+	publish<K extends RealtimeEventType>(channel: string, type: K, data: RealtimeEventPayloads[K]): Promise<void>;
+
+	/**
+	 * Starts delivering the events published on a channel to a listener.
+	 * @param channel - The channel to follow.
+	 * @param listener - Called with each event, in publication order.
+	 * @returns A function that stops the delivery.
+	 * @throws If the backend cannot be reached.
+	 */
+	subscribe(channel: string, listener: RealtimeListener): Promise<() => Promise<void>>;
+
+	/**
+	 * Lists the events of a channel's backlog published after a given event,
+	 * oldest first. When that event is no longer in the backlog, or the id is
+	 * not one this broker assigned, the whole backlog is returned.
+	 * @param channel - The channel to replay.
+	 * @param lastEventId - Id of the last event the client received.
+	 * @throws If the backend cannot be reached.
+	 */
+	replay(channel: string, lastEventId: string): Promise<RealtimeEvent[]>;
+}
@@ -0,0 +1,50 @@
+/**
+ * @file Unit tests for the time zone rules.
+ *
+ * Covers reading the calendar day of an instant in a time zone, parsing days,
+ * moving days across months, and building instants from a wall clock time,
+ * including on daylight saving changes.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { addDays, atTimeIn, calendarDayIn, parseCalendarDay, startOfDayIn } from './time-zone.js';
+
+describe('calendarDayIn', () => {
+	it('should read the day of the time zone, not the UTC one', () => {
+		const lateEvening = new Date('2026-10-19T23:30:00Z');
+
+		expect(calendarDayIn(lateEvening, 'Europe/Paris')).toEqual({ year: 2026, month: 10, day: 20 });
+		expect(calendarDayIn(lateEvening, 'America/New_York')).toEqual({ year: 2026, month: 10, day: 19 });
+	});
+});
+
+describe('parseCalendarDay', () => {
+	it('should read the year, month and day', () => {
+		expect(parseCalendarDay('2026-10-19')).toEqual({ year: 2026, month: 10, day: 19 });
+	});
+});
+
+describe('addDays', () => {
+	it('should move across the end of a month and a year', () => {
+		expect(addDays({ year: 2026, month: 12, day: 31 }, 1)).toEqual({ year: 2027, month: 1, day: 1 });
+		expect(addDays({ year: 2026, month: 3, day: 1 }, -1)).toEqual({ year: 2026, month: 2, day: 28 });
+	});
+});
+
+describe('atTimeIn', () => {
+	it('should apply the offset in force on that day', () => {
+		expect(atTimeIn({ year: 2026, month: 10, day: 19 }, 7, 45, 'Europe/Paris')).toEqual(new Date('2026-10-19T05:45:00Z'));
+		expect(atTimeIn({ year: 2026, month: 11, day: 2 }, 7, 45, 'Europe/Paris')).toEqual(new Date('2026-11-02T06:45:00Z'));
+	});
+
+	it('should keep the offset of before the change for a skipped time', () => {
+		expect(atTimeIn({ year: 2026, month: 3, day: 29 }, 2, 30, 'Europe/Paris')).toEqual(new Date('2026-03-29T01:30:00Z'));
+	});
+});
+
+describe('startOfDayIn', () => {
+	it('should return midnight of the day in the time zone', () => {
+		expect(startOfDayIn(new Date('2026-10-19T23:30:00Z'), 'Europe/Paris')).toEqual(new Date('2026-10-19T22:00:00Z'));
+		expect(startOfDayIn(new Date('2026-10-19T23:30:00Z'), 'UTC')).toEqual(new Date('2026-10-19T00:00:00Z'));
+	});
+});
@@ -0,0 +1,126 @@
+/**
+ * @module TimeZone
+ * Reads and builds dates in a given IANA time zone (e.g. `Europe/Paris`).
+ * Trips are stored as UTC instants, while their days and times of day are
+ * those of the place they take place in, whatever the server's time zone.
+ */
+
+/**
+ * A day of the calendar, without a time of day or a time zone.
+ *
+ * @property year - The full year.
+ * @property month - The month, from 1 (January) to 12 (December).
+ * @property day - The day of the month, from 1.
+ */
+export type CalendarDay = {
+	year: number;
+	month: number;
+	day: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Returns the cached formatter reading the wall clock of a time zone. */
+function wallClockFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = formatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric',
+		});
+		formatters.set(timeZone, formatter);
+	}
+	return formatter;
+}
+
+/** Reads the wall clock of a time zone at an instant, as if it were UTC. */
+function wallClockAsUtc(instant: number, timeZone: string): number {
+	const parts: Record<string, number> = {};
+	for (const part of wallClockFormatter(timeZone).formatToParts(new Date(instant))) {
+		if (part.type !== 'literal') {
+			parts[part.type] = Number(part.value);
+		}
+	}
+	return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/** Offset of a time zone from UTC at an instant, in milliseconds. */
+function offsetMs(instant: number, timeZone: string): number {
+	const wholeSeconds = Math.floor(instant / 1000) * 1000;
+	return wallClockAsUtc(wholeSeconds, timeZone) - wholeSeconds;
+}
+
+/**
+ * Returns the day of the calendar a date falls on in a time zone.
+ *
+ * @param date - The date.
+ * @param timeZone - The IANA time zone.
+ * @returns The calendar day.
+ *
+ * @example
+ * calendarDayIn(new Date('2026-10-19T23:30:00Z'), 'Europe/Paris') // { year: 2026, month: 10, day: 20 }
+ */
+export function calendarDayIn(date: Date, timeZone: string): CalendarDay {
+	const wallClock = new Date(wallClockAsUtc(date.getTime(), timeZone));
+	return { year: wallClock.getUTCFullYear(), month: wallClock.getUTCMonth() + 1, day: wallClock.getUTCDate() };
+}
+
+/**
+ * Parses a `YYYY-MM-DD` day of the calendar.
+ *
+ * @param value - The day, as `YYYY-MM-DD`.
+ * @returns The calendar day.
+ */
+export function parseCalendarDay(value: string): CalendarDay {
+	const [year, month, day] = value.split('-').map(Number);
+	return { year, month, day };
+}
+
+/**
+ * Moves a calendar day by a number of days, across months and years.
+ *
+ * @param day - The calendar day.
+ * @param days - How many days to move by; negative to move back.
+ * @returns The calendar day reached.
+ */
+export function addDays(day: CalendarDay, days: number): CalendarDay {
+	const moved = new Date(Date.UTC(day.year, day.month - 1, day.day + days));
+	return { year: moved.getUTCFullYear(), month: moved.getUTCMonth() + 1, day: moved.getUTCDate() };
+}
+
+/**
+ * Returns the instant a time zone's clocks show a time of day on a calendar day.
+ * A time skipped by a daylight saving change resolves to the same wall time
+ * with the offset of before the change.
+ *
+ * @param day - The calendar day.
+ * @param hours - The hours, from 0 to 23.
+ * @param minutes - The minutes, from 0 to 59.
+ * @param timeZone - The IANA time zone.
+ * @returns The instant.
+ *
+ * @example
+ * atTimeIn({ year: 2026, month: 10, day: 19 }, 7, 45, 'Europe/Paris') // 2026-10-19T05:45:00.000Z
+ */
+export function atTimeIn(day: CalendarDay, hours: number, minutes: number, timeZone: string): Date {
+	const wallClock = Date.UTC(day.year, day.month - 1, day.day, hours, minutes);
+	const guess = wallClock - offsetMs(wallClock, timeZone);
+	return new Date(wallClock - offsetMs(guess, timeZone));
+}
+
+/**
+ * Returns midnight of the day a date falls on in a time zone.
+ *
+ * @param date - The date.
+ * @param timeZone - The IANA time zone.
+ * @returns The start of the day in that time zone.
+ */
+export function startOfDayIn(date: Date, timeZone: string): Date {
+	return atTimeIn(calendarDayIn(date, timeZone), 0, 0, timeZone);
+}
@@ -1,14 +1,28 @@
 import 'reflect-metadata';
 import 'dotenv/config';
 import { Hono } from 'hono';
-import './lib/shared/di/container.js';
+import { container } from './lib/shared/di/container.js';
+import { TOKENS } from './lib/shared/di/tokens.js';
 import { logger } from './lib/logging/index.js';
+import type { OutboxConfig } from './application/config/outbox.config.js';
+import { OutboxWorker } from './infrastructure/jobs/outbox-worker.js';
+import { TripReminderJob } from './infrastructure/jobs/trip-reminder-job.js';
+import { TripSeriesJob } from './infrastructure/jobs/trip-series-job.js';
+import { TripStatusJob } from './infrastructure/jobs/trip-status-job.js';
 
 // Required for Vercel to detect this as a Hono app
 void Hono;
 
 logger.info('Server initialized', { environment: process.env.NODE_ENV });
 
+// Deliver outbox messages, trip reminders, trip status changes and trip series occurrences from this process unless a standalone worker does it
+if (container.resolve<OutboxConfig>(TOKENS.OutboxConfig).runWorkerInProcess) {
+	container.resolve(OutboxWorker).start();
+	container.resolve(TripReminderJob).start();
+	container.resolve(TripStatusJob).start();
+	container.resolve(TripSeriesJob).start();
+}
+
 import { app } from './presentation/index.js';
 
 export default app;
@@ -0,0 +1,81 @@
+/**
+ * @file Unit tests for CacheInvalidationSubscriber.
+ * Verifies the tags invalidated for each event the cached repositories did not
+ * see, and that nothing is invalidated while caching is disabled.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { container } from 'tsyringe';
+import { CacheInvalidationSubscriber } from './cache-invalidation.subscriber.js';
+import { domainEvent } from '../../domain/events/domain-events.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { DatabaseError } from '../../lib/errors/repository.errors.js';
+import { createMockCacheService, createMockCacheConfig, createMockLogger, createMockTripRepository, invalidatedTags } from '../../../tests/setup.js';
+
+describe('CacheInvalidationSubscriber', () => {
+    let subscriber: CacheInvalidationSubscriber;
+    let cache: ReturnType<typeof createMockCacheService>;
+    let tripRepository: ReturnType<typeof createMockTripRepository>;
+
+    beforeEach(() => {
+        cache = createMockCacheService();
+        tripRepository = createMockTripRepository();
+        container.registerInstance(TOKENS.CacheService, cache);
+        container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.TripRepository, tripRepository);
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        subscriber = container.resolve(CacheInvalidationSubscriber);
+    });
+
+    // The vp API edits trips without going through the cached repository
+    it('should invalidate the updated trip and the trip searches when a trip is updated', async () => {
+        tripRepository.findById.mockResolvedValue(ok({ id: 't1', refId: 9 }));
+
+        await subscriber.handle(domainEvent('TripUpdated', { tripId: 't1' }));
+
+        expect(tripRepository.findById).toHaveBeenCalledWith('t1');
+        expect(invalidatedTags(cache)).toEqual(['trip:list', 'trip:9']);
+    });
+
+    it('should invalidate the whole trip domain when the updated trip cannot be read', async () => {
+        tripRepository.findById.mockResolvedValue(err(new DatabaseError('db error')));
+
+        await subscriber.handle(domainEvent('TripUpdated', { tripId: 't1' }));
+
+        expect(invalidatedTags(cache)).toEqual(['trip']);
+    });
+
+    it('should invalidate auth, driver and inscription when a user is anonymized', async () => {
+        await subscriber.handle(domainEvent('UserAnonymized', { userId: 'u1' }));
+
+        expect(invalidatedTags(cache)).toEqual(['auth', 'driver', 'inscription']);
+    });
+
+    // The cached repositories already invalidated the trip of the inscription, and the inscriptions of the trip
+    it('should not invalidate anything for inscription events or trip cancellations', async () => {
+        await subscriber.handle(domainEvent('InscriptionCreated', { inscriptionId: 'i1', tripId: 't1', status: 'ACTIVE' }));
+        await subscriber.handle(domainEvent('InscriptionCancelled', { inscriptionId: 'i1' }));
+        await subscriber.handle(domainEvent('TripCancelled', { tripId: 't1', dateTrip: new Date(), reason: null, passengers: [] }));
+        await subscriber.handle(domainEvent('TripCreated', { tripId: 't1' }));
+
+        expect(cache.set).not.toHaveBeenCalled();
+    });
+
+    it('should not invalidate anything when caching is disabled', async () => {
+        container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig({ enabled: false }));
+        subscriber = container.resolve(CacheInvalidationSubscriber);
+
+        await subscriber.handle(domainEvent('UserAnonymized', { userId: 'u1' }));
+        await subscriber.handle(domainEvent('TripUpdated', { tripId: 't1' }));
+
+        expect(cache.set).not.toHaveBeenCalled();
+        expect(tripRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when invalidation fails', async () => {
+        cache.set.mockRejectedValue(new Error('redis down'));
+
+        await expect(subscriber.handle(domainEvent('UserAnonymized', { userId: 'u1' }))).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * @module cache-invalidation.subscriber
+ * Invalidates the cache entries made stale by writes that did not go through
+ * the cached repository decorators, from the domain events. The decorators
+ * invalidate the precise tags their writes affect, in their own domain and in
+ * the others (e.g. the trip of a new inscription); events only carry UUIDs, so
+ * what they make stale is resolved here, or a whole domain is invalidated.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { DomainEvent, DomainEventType } from '../../domain/events/domain-events.js';
+import type { CacheService } from '../../domain/services/cache.service.js';
+import type { DomainEventSubscriber } from '../../domain/services/event-bus.service.js';
+import type { TripRepository } from '../../domain/repositories/trip.repository.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import type { CacheConfig } from './cache.config.js';
+import { TRIP_LIST_TAG, tripTag } from './cache.tags.js';
+import { type CacheContext, invalidateTags } from './cache.utils.js';
+
+/**
+ * Domains made stale by each event, beyond what the decorators invalidate.
+ *
+ * - Anonymization scrubs the user's auth record, driver profile and inscriptions,
+ *   which the event only names through the user's UUID.
+ */
+const STALE_DOMAINS: Partial<Record<DomainEventType, string[]>> = {
+	UserAnonymized: ['auth', 'driver', 'inscription'],
+};
+
+/**
+ * Invalidates the cache entries made stale by an event the cached repositories did not see.
+ * Does nothing while caching is disabled. Invalidation failures are logged
+ * by {@link invalidateTags}; the entries then expire with their TTL.
+ * Injected via tsyringe.
+ */
+@injectable()
+export class CacheInvalidationSubscriber implements DomainEventSubscriber {
+	private readonly context: Pick<CacheContext, 'cache' | 'config' | 'logger'>;
+
+	constructor(
+		@inject(TOKENS.CacheService) cache: CacheService,
+		@inject(TOKENS.CacheConfig) private readonly config: CacheConfig,
+		@inject(TOKENS.TripRepository) private readonly tripRepository: TripRepository,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.context = { cache, config, logger: logger.child({ subscriber: 'CacheInvalidationSubscriber' }) };
+	}
+
+	/**
+	 * Invalidates the trip of a TripUpdated event, or the domains mapped to the event type, if any.
+	 * @param event - The published event.
+	 */
+	async handle(event: DomainEvent): Promise<void> {
+		if (!this.config.enabled) {
+			return;
+		}
+		if (event.type === 'TripUpdated') {
+			return this.invalidateTrip(event.payload.tripId);
+		}
+		const domains = STALE_DOMAINS[event.type];
+		if (domains) {
+			await invalidateTags(this.context, domains);
+		}
+	}
+
+	/**
+	 * Invalidates an updated trip, and the searches it may now appear in.
+	 * Trips edited through the vp API are written without the cached repository.
+	 * The whole trip domain is invalidated when the trip cannot be read.
+	 */
+	private async invalidateTrip(tripId: string): Promise<void> {
+		const found = await this.tripRepository.findById(tripId);
+		const tags = found.success && found.value ? [TRIP_LIST_TAG, tripTag(found.value.refId)] : ['trip'];
+		await invalidateTags(this.context, tags);
+	}
+}
@@ -0,0 +1,89 @@
+/**
+ * @module cache.config.test
+ * Unit tests for {@link createCacheConfig}.
+ * Tests cover the choice of the backend, the defaults of its bounds and of
+ * the stampede protection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createCacheConfig } from './cache.config.js';
+
+const CACHE_ENV = [
+	'CACHE_BACKEND',
+	'CACHE_MAX_ENTRIES',
+	'CACHE_L1_TTL',
+	'CACHE_TTL_JITTER_PERCENT',
+	'CACHE_STALE_TTL',
+	'CACHE_TTL_NEGATIVE',
+	'UPSTASH_REDIS_REST_URL',
+];
+
+describe('createCacheConfig()', () => {
+	const originalEnv = process.env;
+
+	beforeEach(() => {
+		process.env = { ...originalEnv };
+		for (const name of CACHE_ENV) {
+			delete process.env[name];
+		}
+	});
+
+	afterEach(() => {
+		process.env = originalEnv;
+	});
+
+	describe('backend', () => {
+		it('should use the configured backend', () => {
+			process.env.CACHE_BACKEND = 'tiered';
+
+			expect(createCacheConfig().backend).toBe('tiered');
+		});
+
+		// Verifies local runs cache without a Redis instance
+		it('should default to the in-process cache without Upstash', () => {
+			expect(createCacheConfig().backend).toBe('memory');
+		});
+
+		it('should default to Upstash when it is configured', () => {
+			process.env.UPSTASH_REDIS_REST_URL = 'https://fake.upstash.io';
+
+			expect(createCacheConfig().backend).toBe('upstash');
+		});
+
+		it('should throw on an unknown backend', () => {
+			process.env.CACHE_BACKEND = 'memcached';
+
+			expect(() => createCacheConfig()).toThrow('CACHE_BACKEND must be one of upstash, memory, tiered, got "memcached"');
+		});
+	});
+
+	describe('bounds', () => {
+		it('should default to 10000 entries and a 5 second L1 TTL', () => {
+			const config = createCacheConfig();
+
+			expect(config.maxEntries).toBe(10_000);
+			expect(config.l1Ttl).toBe(5);
+		});
+
+		it('should read the bounds from the environment', () => {
+			process.env.CACHE_MAX_ENTRIES = '500';
+			process.env.CACHE_L1_TTL = '2';
+
+			const config = createCacheConfig();
+
+			expect(config.maxEntries).toBe(500);
+			expect(config.l1Ttl).toBe(2);
+		});
+	});
+
+	describe('stampede protection', () => {
+		// Verifies stale entries are only served once an operator opts in
+		it('should jitter TTLs by 10% and never serve stale entries by default', () => {
+			const config = createCacheConfig();
+
+			expect(config.ttlJitter).toBe(10);
+			expect(config.staleTtl).toBe(0);
+			expect(config.ttl.negative).toBe(30);
+		});
+	});
+});
@@ -1,9 +1,25 @@
 /**
  * @module cache.config
- * Defines the CacheConfig type and a factory function that reads per-domain
- * TTL values from environment variables with sensible defaults.
+ * Defines the CacheConfig type and a factory function that reads the cache
+ * backend, its bounds and per-domain TTL values from environment variables
+ * with sensible defaults.
  */
 
+import { envInt } from '../../lib/shared/utils/env.util.js';
+
+/**
+ * Where cached entries are kept.
+ *
+ * - `upstash` -- in Upstash Redis, shared by every node.
+ * - `memory` -- in an LRU map of the process; nothing to run, but each node has
+ *   its own entries and invalidations do not reach the other nodes.
+ * - `tiered` -- in an LRU map of the process (L1) in front of Upstash Redis (L2).
+ *   L1 entries are kept briefly and dropped on every node when the key is written.
+ */
+export type CacheBackend = 'upstash' | 'memory' | 'tiered';
+
+const CACHE_BACKENDS: readonly CacheBackend[] = ['upstash', 'memory', 'tiered'];
+
 export type CacheTTLConfig = {
 	brand: number;
 	color: number;
@@ -15,25 +31,66 @@ export type CacheTTLConfig = {
 	auth: number;
 	trip: number;
 	inscription: number;
+	session: number;
+	/** How long a lookup that found nothing (`null`) is cached, whatever its domain. */
+	negative: number;
+	/** How long a tag version is kept; should outlive the longest entry TTL. */
+	tag: number;
 };
 
+/**
+ * Cache settings.
+ *
+ * @property enabled - Whether cached repositories read through the cache at all.
+ * @property backend - Where entries are kept.
+ * @property keyPrefix - Prefix of every cache key.
+ * @property maxEntries - Entries kept in the process by the `memory` backend and the
+ *                        L1 of the `tiered` backend; the least recently used go first.
+ * @property l1Ttl - Longest time in seconds an entry stays in the L1 of the `tiered`
+ *                   backend; bounds how stale a node can be when an invalidation is lost.
+ * @property ttlJitter - Spread applied to every entry TTL, in percent, so that the entries
+ *                       cached together do not all expire together.
+ * @property staleTtl - How long in seconds an entry past its TTL is still served while one
+ *                      caller refreshes it (stale-while-revalidate); 0 disables it.
+ * @property ttl - Per-domain entry TTLs in seconds.
+ */
 export type CacheConfig = {
 	enabled: boolean;
+	backend: CacheBackend;
 	keyPrefix: string;
+	maxEntries: number;
+	l1Ttl: number;
+	ttlJitter: number;
+	staleTtl: number;
 	ttl: CacheTTLConfig;
 };
 
-function envInt(name: string, fallback: number): number {
-	const val = process.env[name];
-	if (!val) return fallback;
-	const parsed = Number.parseInt(val, 10);
-	return Number.isNaN(parsed) ? fallback : parsed;
+/**
+ * Reads CACHE_BACKEND, defaulting to Upstash when it is configured and to the
+ * in-process cache otherwise, so that local runs need no Redis.
+ * @throws {Error} If CACHE_BACKEND names an unknown backend.
+ */
+function readBackend(): CacheBackend {
+	const value = process.env.CACHE_BACKEND;
+	if (!value) {
+		return process.env.UPSTASH_REDIS_REST_URL ? 'upstash' : 'memory';
+	}
+	const backend = CACHE_BACKENDS.find((candidate) => candidate === value);
+	if (!backend) {
+		throw new Error(`CACHE_BACKEND must be one of ${CACHE_BACKENDS.join(', ')}, got "${value}"`);
+	}
+	return backend;
 }
 
 export function createCacheConfig(): CacheConfig {
 	return {
 		enabled: process.env.CACHE_ENABLED !== 'false',
+		backend: readBackend(),
 		keyPrefix: process.env.CACHE_KEY_PREFIX ?? 'covoitapi:',
+		maxEntries: envInt('CACHE_MAX_ENTRIES', 10_000),
+		l1Ttl: envInt('CACHE_L1_TTL', 5),
+		ttlJitter: envInt('CACHE_TTL_JITTER_PERCENT', 10),
+		staleTtl: envInt('CACHE_STALE_TTL', 0),
 		ttl: {
 			brand: envInt('CACHE_TTL_BRAND', 3600),
 			color: envInt('CACHE_TTL_COLOR', 3600),
@@ -45,6 +102,9 @@ export function createCacheConfig(): CacheConfig {
 			auth: envInt('CACHE_TTL_AUTH', 300),
 			trip: envInt('CACHE_TTL_TRIP', 300),
 			inscription: envInt('CACHE_TTL_INSCRIPTION', 120),
+			session: envInt('CACHE_TTL_SESSION', 60),
+			negative: envInt('CACHE_TTL_NEGATIVE', 30),
+			tag: envInt('CACHE_TTL_TAG', 86400),
 		},
 	};
 }
@@ -0,0 +1,42 @@
+/**
+ * @module cache.tags
+ * Names of the cache tags shared by several cached repository decorators.
+ * A domain's own tag is its domain name (e.g. `trip`); the tags below are finer,
+ * so that a write only invalidates the entries it makes stale.
+ */
+
+/** Lists and searches of trips, which a new trip may join. */
+export const TRIP_LIST_TAG = 'trip:list';
+
+/** Everything read about one trip, including the lists and searches showing it. */
+export function tripTag(tripRefId: number): string {
+	return `trip:${tripRefId}`;
+}
+
+/** Lists of inscriptions not scoped to a trip or a user, which any new inscription may join. */
+export const INSCRIPTION_LIST_TAG = 'inscription:list';
+
+/** The inscriptions of one trip, and each inscription read on its own. */
+export function tripInscriptionsTag(tripRefId: number): string {
+	return `inscription:trip:${tripRefId}`;
+}
+
+/** The inscriptions of one user. */
+export function userInscriptionsTag(userRefId: number): string {
+	return `inscription:user:${userRefId}`;
+}
+
+/** The credentials of one account, whether looked up by id or by email. */
+export function authTag(authRefId: number): string {
+	return `auth:${authRefId}`;
+}
+
+/** One session, whether read on its own or among the sessions of its user. */
+export function sessionTag(sessionId: string): string {
+	return `session:${sessionId}`;
+}
+
+/** The sessions of one user. */
+export function userSessionsTag(userRefId: number): string {
+	return `session:user:${userRefId}`;
+}
@@ -1,48 +1,111 @@
 /**
- * @file Unit tests for cache.utils — cacheAside and invalidatePatterns helpers.
+ * @file Unit tests for cache.utils — cacheAside, invalidateTags and isTagKey helpers.
+ * Covers tag versions, request coalescing, stale-while-revalidate, TTL jitter and negative caching.
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { cacheAside, invalidatePatterns } from './cache.utils.js';
+import { cacheAside, invalidateTags, isTagKey } from './cache.utils.js';
+import type { CacheContext } from './cache.utils.js';
+import type { CacheConfig } from './cache.config.js';
 import { ok, err } from '../../lib/shared/types/result.js';
-import { createMockCacheService, createMockLogger } from '../../../tests/setup.js';
+import { createMockCacheConfig, createMockCacheMetrics, createMockCacheService, createMockLogger } from '../../../tests/setup.js';
 
 describe('cacheAside', () => {
     let cache: ReturnType<typeof createMockCacheService>;
     let logger: ReturnType<typeof createMockLogger>;
+    let metrics: ReturnType<typeof createMockCacheMetrics>;
+    let context: CacheContext;
 
     beforeEach(() => {
         cache = createMockCacheService();
         logger = createMockLogger();
+        metrics = createMockCacheMetrics();
+        context = { cache, config: createMockCacheConfig(), domain: 'trip', metrics, logger };
     });
 
     it('should return cached data on cache hit', async () => {
-        cache.get.mockResolvedValue({ __cached: true, data: { id: '1' } });
+        cache.get.mockResolvedValue({ __cached: true, data: { id: '1' }, tags: { trip: 'v1' }, staleAt: Date.now() + 60_000 });
+        cache.getMany.mockResolvedValue(['v1']);
 
         const source = vi.fn();
-        const result = await cacheAside(cache, 'key', 300, source, logger);
+        const result = await cacheAside(context, 'key', 300, source);
 
         expect(result).toEqual({ success: true, value: { id: '1' } });
         expect(source).not.toHaveBeenCalled();
+        expect(cache.getMany).toHaveBeenCalledWith(['test:tag:trip']);
         expect(logger.debug).toHaveBeenCalledWith('Cache hit', { key: 'key' });
+        expect(metrics.recordHit).toHaveBeenCalledWith('trip');
     });
 
     it('should call source on cache miss and cache the result', async () => {
         cache.get.mockResolvedValue(null);
         const source = vi.fn().mockResolvedValue(ok({ id: '1' }));
 
-        const result = await cacheAside(cache, 'key', 300, source, logger);
+        const result = await cacheAside(context, 'key', 300, source);
 
         expect(result).toEqual({ success: true, value: { id: '1' } });
         expect(source).toHaveBeenCalledOnce();
-        expect(cache.set).toHaveBeenCalledWith('key', { __cached: true, data: { id: '1' } }, 300);
+        expect(cache.set).toHaveBeenCalledWith('key', { __cached: true, data: { id: '1' }, tags: { trip: null }, staleAt: expect.any(Number) }, 300);
+        expect(metrics.recordMiss).toHaveBeenCalledWith('trip');
+    });
+
+    it('should record the versions of the domain tag and of the tags derived from the value', async () => {
+        cache.getMany.mockResolvedValueOnce(['v1']).mockResolvedValueOnce([null]);
+        const source = vi.fn().mockResolvedValue(ok({ refId: 4 }));
+
+        await cacheAside(context, 'key', 300, source, { fromValue: (trip: { refId: number }) => [`trip:${trip.refId}`, 'trip'] });
+
+        expect(cache.getMany).toHaveBeenNthCalledWith(1, ['test:tag:trip']);
+        expect(cache.getMany).toHaveBeenNthCalledWith(2, ['test:tag:trip:4']);
+        expect(cache.set).toHaveBeenCalledWith('key', { __cached: true, data: { refId: 4 }, tags: { trip: 'v1', 'trip:4': null }, staleAt: expect.any(Number) }, 300);
+    });
+
+    // Verifies that a write invalidating the key's tags during the source call leaves the entry outdated
+    it('should record the versions of the tags known from the key as read before the source', async () => {
+        const versions: Record<string, string> = { 'test:tag:trip': 'v1', 'test:tag:trip:4': 'v1' };
+        cache.getMany.mockImplementation(async (keys: string[]) => keys.map((key) => versions[key] ?? null));
+        const source = vi.fn().mockImplementation(async () => {
+            versions['test:tag:trip:4'] = 'v2';
+            return ok({ refId: 4 });
+        });
+
+        await cacheAside(context, 'key', 300, source, { fromKey: ['trip:4'] });
+
+        expect(cache.getMany).toHaveBeenCalledOnce();
+        expect(cache.getMany).toHaveBeenCalledWith(['test:tag:trip', 'test:tag:trip:4']);
+        expect(cache.set).toHaveBeenCalledWith('key', { __cached: true, data: { refId: 4 }, tags: { trip: 'v1', 'trip:4': 'v1' }, staleAt: expect.any(Number) }, 300);
+    });
+
+    it('should call the source without caching when the tag versions cannot be read', async () => {
+        cache.get.mockResolvedValue(null);
+        cache.getMany.mockRejectedValue(new Error('Connection refused'));
+        const source = vi.fn().mockResolvedValue(ok({ id: '1' }));
+
+        const result = await cacheAside(context, 'key', 300, source);
+
+        expect(result).toEqual({ success: true, value: { id: '1' } });
+        expect(cache.set).not.toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalledWith('Cache tag read failed, not caching', expect.objectContaining({ key: 'key' }));
+    });
+
+    it('should read the source again when a tag was invalidated since the entry was cached', async () => {
+        cache.get.mockResolvedValue({ __cached: true, data: 'old', tags: { trip: 'v1', 'trip:4': 'v1' }, staleAt: Date.now() + 60_000 });
+        cache.getMany.mockResolvedValue(['v1', 'v2']);
+        const source = vi.fn().mockResolvedValue(ok('new'));
+
+        const result = await cacheAside(context, 'key', 300, source);
+
+        expect(result).toEqual({ success: true, value: 'new' });
+        expect(metrics.recordEviction).toHaveBeenCalledWith('trip');
+        expect(metrics.recordMiss).toHaveBeenCalledWith('trip');
+        expect(metrics.recordHit).not.toHaveBeenCalled();
     });
 
     it('should fall back to source on cache read error', async () => {
         cache.get.mockRejectedValue(new Error('Redis down'));
         const source = vi.fn().mockResolvedValue(ok('value'));
 
-        const result = await cacheAside(cache, 'key', 300, source, logger);
+        const result = await cacheAside(context, 'key', 300, source);
 
         expect(result).toEqual({ success: true, value: 'value' });
         expect(source).toHaveBeenCalledOnce();
@@ -54,7 +117,7 @@ describe('cacheAside', () => {
         const error = new Error('DB error');
         const source = vi.fn().mockResolvedValue(err(error));
 
-        const result = await cacheAside(cache, 'key', 300, source, logger);
+        const result = await cacheAside(context, 'key', 300, source);
 
         expect(result).toEqual({ success: false, error });
         expect(cache.set).not.toHaveBeenCalled();
@@ -65,17 +128,17 @@ describe('cacheAside', () => {
         cache.set.mockRejectedValue(new Error('Write failed'));
         const source = vi.fn().mockResolvedValue(ok('value'));
 
-        const result = await cacheAside(cache, 'key', 300, source, logger);
+        const result = await cacheAside(context, 'key', 300, source);
 
         expect(result).toEqual({ success: true, value: 'value' });
         expect(logger.warn).toHaveBeenCalledWith('Cache write failed', expect.any(Object));
     });
 
     it('should handle cached null values correctly', async () => {
-        cache.get.mockResolvedValue({ __cached: true, data: null });
+        cache.get.mockResolvedValue({ __cached: true, data: null, tags: { trip: null }, staleAt: Date.now() + 60_000 });
         const source = vi.fn();
 
-        const result = await cacheAside(cache, 'key', 300, source, logger);
+        const result = await cacheAside(context, 'key', 300, source);
 
         expect(result).toEqual({ success: true, value: null });
         expect(source).not.toHaveBeenCalled();
@@ -85,43 +148,192 @@ describe('cacheAside', () => {
         cache.get.mockResolvedValue({ someOther: 'data' });
         const source = vi.fn().mockResolvedValue(ok('value'));
 
-        const result = await cacheAside(cache, 'key', 300, source, logger);
+        const result = await cacheAside(context, 'key', 300, source);
 
         expect(result).toEqual({ success: true, value: 'value' });
         expect(source).toHaveBeenCalledOnce();
     });
+
+    // Entries cached before tags existed cannot tell whether they are outdated
+    it('should not treat wrappers without tag versions as cache hits', async () => {
+        cache.get.mockResolvedValue({ __cached: true, data: 'old' });
+        const source = vi.fn().mockResolvedValue(ok('value'));
+
+        const result = await cacheAside(context, 'key', 300, source);
+
+        expect(result).toEqual({ success: true, value: 'value' });
+    });
+
+    describe('stampede protection', () => {
+        it('should share one source call between concurrent misses of a key', async () => {
+            let resolve: (value: unknown) => void = () => {};
+            const source = vi.fn(() => new Promise((r) => { resolve = r; }).then(() => ok('value')));
+
+            const first = cacheAside(context, 'hot', 300, source);
+            const second = cacheAside(context, 'hot', 300, source);
+            await vi.waitFor(() => expect(source).toHaveBeenCalled());
+            resolve(undefined);
+
+            expect(await first).toEqual(ok('value'));
+            expect(await second).toEqual(ok('value'));
+            expect(source).toHaveBeenCalledOnce();
+            expect(metrics.recordMiss).toHaveBeenCalledTimes(2);
+        });
+
+        it('should call the source again once the shared call settled', async () => {
+            const source = vi.fn().mockResolvedValue(ok('value'));
+
+            await cacheAside(context, 'hot', 300, source);
+            await cacheAside(context, 'hot', 300, source);
+
+            expect(source).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not share source calls between keys', async () => {
+            const source = vi.fn().mockResolvedValue(ok('value'));
+
+            await Promise.all([cacheAside(context, 'a', 300, source), cacheAside(context, 'b', 300, source)]);
+
+            expect(source).toHaveBeenCalledTimes(2);
+        });
+
+        it('should spread the TTL by up to the configured jitter', async () => {
+            context.config = { ...createMockCacheConfig(), ttlJitter: 10 } as CacheConfig;
+            vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(1);
+            const source = vi.fn().mockResolvedValue(ok('value'));
+
+            await cacheAside(context, 'a', 300, source);
+            await cacheAside(context, 'b', 300, source);
+
+            expect(cache.set.mock.calls[0][2]).toBe(270);
+            expect(cache.set.mock.calls[1][2]).toBe(330);
+            vi.restoreAllMocks();
+        });
+    });
+
+    describe('stale-while-revalidate', () => {
+        beforeEach(() => {
+            context.config = { ...createMockCacheConfig(), staleTtl: 60 } as CacheConfig;
+        });
+
+        it('should keep entries for the stale TTL past their own', async () => {
+            const source = vi.fn().mockResolvedValue(ok('value'));
+
+            await cacheAside(context, 'key', 300, source);
+
+            const [, wrapper, ttl] = cache.set.mock.calls[0];
+            expect(ttl).toBe(360);
+            expect(wrapper.staleAt).toBeGreaterThan(Date.now() + 299_000);
+            expect(wrapper.staleAt).toBeLessThanOrEqual(Date.now() + 300_000);
+        });
+
+        it('should serve a stale entry and refresh it in the background', async () => {
+            cache.get.mockResolvedValue({ __cached: true, data: 'stale', tags: { trip: null }, staleAt: Date.now() - 1 });
+            const source = vi.fn().mockResolvedValue(ok('fresh'));
+
+            const result = await cacheAside(context, 'key', 300, source);
+
+            expect(result).toEqual(ok('stale'));
+            expect(metrics.recordHit).toHaveBeenCalledWith('trip');
+            await vi.waitFor(() => expect(cache.set).toHaveBeenCalledWith('key', expect.objectContaining({ data: 'fresh' }), 360));
+            expect(source).toHaveBeenCalledOnce();
+        });
+
+        it('should refresh a stale entry once for concurrent readers', async () => {
+            cache.get.mockResolvedValue({ __cached: true, data: 'stale', tags: { trip: null }, staleAt: Date.now() - 1 });
+            const source = vi.fn().mockResolvedValue(ok('fresh'));
+
+            await Promise.all([cacheAside(context, 'key', 300, source), cacheAside(context, 'key', 300, source)]);
+
+            await vi.waitFor(() => expect(cache.set).toHaveBeenCalled());
+            expect(source).toHaveBeenCalledOnce();
+        });
+
+        it('should never serve an invalidated entry, even stale', async () => {
+            cache.get.mockResolvedValue({ __cached: true, data: 'stale', tags: { trip: 'v1' }, staleAt: Date.now() - 1 });
+            cache.getMany.mockResolvedValue(['v2']);
+            const source = vi.fn().mockResolvedValue(ok('fresh'));
+
+            const result = await cacheAside(context, 'key', 300, source);
+
+            expect(result).toEqual(ok('fresh'));
+        });
+    });
+
+    describe('negative caching', () => {
+        it('should cache a null result for the negative TTL', async () => {
+            const source = vi.fn().mockResolvedValue(ok(null));
+
+            await cacheAside(context, 'key', 300, source);
+
+            expect(cache.set).toHaveBeenCalledWith('key', expect.objectContaining({ data: null }), 30);
+        });
+
+        it('should never cache a null result longer than the entry TTL', async () => {
+            const source = vi.fn().mockResolvedValue(ok(null));
+
+            await cacheAside(context, 'key', 10, source);
+
+            expect(cache.set).toHaveBeenCalledWith('key', expect.objectContaining({ data: null }), 10);
+        });
+
+        it('should not treat empty lists as negative lookups', async () => {
+            const source = vi.fn().mockResolvedValue(ok([]));
+
+            await cacheAside(context, 'key', 300, source);
+
+            expect(cache.set).toHaveBeenCalledWith('key', expect.objectContaining({ data: [] }), 300);
+        });
+    });
 });
 
-describe('invalidatePatterns', () => {
+describe('invalidateTags', () => {
     let cache: ReturnType<typeof createMockCacheService>;
     let logger: ReturnType<typeof createMockLogger>;
+    let context: Pick<CacheContext, 'cache' | 'config' | 'logger'>;
 
     beforeEach(() => {
         cache = createMockCacheService();
         logger = createMockLogger();
+        context = { cache, config: createMockCacheConfig(), logger };
     });
 
-    it('should call deleteByPattern for each pattern with prefix', async () => {
-        await invalidatePatterns(cache, 'test:', ['car:*', 'driver:*'], logger);
+    it('should give each tag a new version kept for the tag TTL', async () => {
+        await invalidateTags(context, ['trip:list', 'trip:4']);
 
-        expect(cache.deleteByPattern).toHaveBeenCalledTimes(2);
-        expect(cache.deleteByPattern).toHaveBeenCalledWith('test:car:*');
-        expect(cache.deleteByPattern).toHaveBeenCalledWith('test:driver:*');
+        expect(cache.set).toHaveBeenCalledTimes(2);
+        expect(cache.set).toHaveBeenCalledWith('test:tag:trip:list', expect.any(String), 86400);
+        expect(cache.set).toHaveBeenCalledWith('test:tag:trip:4', expect.any(String), 86400);
+        expect(cache.set.mock.calls[0][1]).not.toEqual(cache.set.mock.calls[1][1]);
     });
 
-    it('should handle deleteByPattern error gracefully', async () => {
-        cache.deleteByPattern.mockRejectedValueOnce(new Error('Redis error'));
+    it('should never scan the keyspace', async () => {
+        await invalidateTags(context, ['trip']);
 
-        await invalidatePatterns(cache, 'test:', ['car:*', 'driver:*'], logger);
+        expect(cache.deleteByPattern).not.toHaveBeenCalled();
+    });
+
+    it('should handle write errors gracefully', async () => {
+        cache.set.mockRejectedValueOnce(new Error('Redis error'));
+
+        await invalidateTags(context, ['car', 'driver']);
 
         expect(logger.warn).toHaveBeenCalledWith('Cache invalidation failed', expect.any(Object));
-        // Second pattern should still be attempted
-        expect(cache.deleteByPattern).toHaveBeenCalledTimes(2);
+        // Second tag should still be attempted
+        expect(cache.set).toHaveBeenCalledTimes(2);
     });
 
-    it('should handle empty patterns array', async () => {
-        await invalidatePatterns(cache, 'test:', [], logger);
+    it('should handle empty tags array', async () => {
+        await invalidateTags(context, []);
 
-        expect(cache.deleteByPattern).not.toHaveBeenCalled();
+        expect(cache.set).not.toHaveBeenCalled();
+    });
+
+    // The tiered cache announces these writes only, so they must stay recognisable
+    it('should write keys that isTagKey recognises, unlike the cached entries', async () => {
+        await invalidateTags(context, ['trip:4']);
+
+        expect(isTagKey(context.config, cache.set.mock.calls[0][0])).toBe(true);
+        expect(isTagKey(context.config, 'test:trip:findById:4')).toBe(false);
     });
 });
@@ -2,78 +2,271 @@
  * @module cache.utils
  * Shared cache-aside helper and invalidation utility reused by all cached repository decorators.
  * All Redis errors are caught and logged as warnings — the app never breaks due to cache failures.
+ *
+ * Entries are invalidated through tags rather than deleted. An entry records the
+ * version of each tag it depends on when it is cached; invalidating a tag gives it
+ * a new version, so the entries cached before no longer match and are read from
+ * the source again. Every entry depends on its domain tag (e.g. `trip`), which
+ * invalidates the whole domain; decorators add finer tags such as `trip:list` for
+ * lists and searches or `trip:42` for one trip. Invalidating costs one write per
+ * tag instead of a scan of the keyspace; the outdated entries expire with their TTL.
+ * The versions of the tags known from the key are read before the source is called,
+ * so that a write invalidating them during the call leaves the entry outdated.
+ *
+ * Hot keys are protected from stampedes: concurrent misses of a key on a node share
+ * one source call, TTLs are jittered so that entries cached together expire apart,
+ * and, when the {@link CacheConfig} allows it, an expired entry is still served for
+ * a while as one caller refreshes it. Lookups that found nothing are cached too,
+ * under the shorter negative TTL.
  */
 
+import { randomUUID } from 'node:crypto';
+import type { CacheMetrics } from '../../domain/services/cache-metrics.service.js';
 import type { CacheService } from '../../domain/services/cache.service.js';
 import type { Result } from '../../lib/shared/types/result.js';
 import { ok } from '../../lib/shared/types/result.js';
 import type { Logger } from '../../lib/logging/logger.types.js';
+import type { CacheConfig } from './cache.config.js';
 
-/** Wrapper to distinguish a cached null from a cache miss. */
-type CacheWrapper<T> = { __cached: true; data: T };
+/**
+ * What a cached repository decorator reads and invalidates through.
+ * The domain names the entries' domain tag and the counters their reads go to.
+ */
+export type CacheContext = {
+	cache: CacheService;
+	config: CacheConfig;
+	domain: string;
+	metrics: CacheMetrics;
+	logger: Logger;
+};
+
+/** Derives from a value read the tags its entry depends on, besides the domain tag. */
+export type CacheTags<T> = (value: T) => string[];
+
+/**
+ * The tags an entry depends on besides the domain tag: those known from the key,
+ * e.g. the trip of `findByRefId`, and those only derived from the value read.
+ * Prefer tags known from the key; a write to a tag derived from the value that
+ * lands while the source is called goes unnoticed until the entry's TTL.
+ */
+export type EntryTags<T> = { fromKey?: string[]; fromValue?: CacheTags<T> };
+
+/**
+ * Wrapper to distinguish a cached null from a cache miss, with the tag versions seen
+ * when cached and the time (epoch ms) past which the data is stale.
+ */
+type CacheWrapper<T> = { __cached: true; data: T; tags: Record<string, string | null>; staleAt: number };
+
+/** Source calls in flight on this node, by cache key, shared by the concurrent misses of the key. */
+const inFlight = new Map<string, Promise<Result<unknown, unknown>>>();
 
 function isCacheWrapper<T>(value: unknown): value is CacheWrapper<T> {
 	return (
 		typeof value === 'object' &&
 		value !== null &&
 		'__cached' in value &&
-		(value as CacheWrapper<T>).__cached === true
+		(value as CacheWrapper<T>).__cached === true &&
+		typeof (value as CacheWrapper<T>).tags === 'object' &&
+		typeof (value as CacheWrapper<T>).staleAt === 'number'
 	);
 }
 
+/** Spreads a TTL by up to the configured jitter percentage either way; never below one second. */
+function jitter(config: CacheConfig, ttl: number): number {
+	const spread = (config.ttlJitter / 100) * (Math.random() * 2 - 1);
+	return Math.max(1, Math.round(ttl * (1 + spread)));
+}
+
+function tagKey(config: CacheConfig, tag: string): string {
+	return `${config.keyPrefix}tag:${tag}`;
+}
+
+/** Whether a key holds the version of a tag, i.e. is written by {@link invalidateTags}. */
+export function isTagKey(config: CacheConfig, key: string): boolean {
+	return key.startsWith(`${config.keyPrefix}tag:`);
+}
+
+/** Reads the current version of each tag in one round trip; a tag never invalidated has none. */
+async function readTagVersions(context: CacheContext, tags: string[]): Promise<Record<string, string | null>> {
+	const versions = await context.cache.getMany<string>(tags.map((tag) => tagKey(context.config, tag)));
+	return Object.fromEntries(tags.map((tag, index) => [tag, versions[index] ?? null]));
+}
+
+/**
+ * Reads the entry under key, if it is still current. An entry whose tags changed
+ * version since it was cached is counted as an eviction and ignored.
+ */
+async function readEntry<T>(context: CacheContext, key: string): Promise<CacheWrapper<T> | null> {
+	const cached = await context.cache.get<CacheWrapper<T>>(key);
+	if (!isCacheWrapper<T>(cached)) {
+		return null;
+	}
+	const tags = Object.keys(cached.tags);
+	const current = await readTagVersions(context, tags);
+	if (tags.some((tag) => current[tag] !== cached.tags[tag])) {
+		context.logger.debug('Cache entry invalidated', { key });
+		context.metrics.recordEviction(context.domain);
+		return null;
+	}
+	return cached;
+}
+
+/**
+ * Reads the versions of the domain tag and of the tags known from the key, before
+ * the source is called. Returns null if they cannot be read, so nothing is cached.
+ */
+async function readKeyTagVersions<T>(
+	context: CacheContext,
+	key: string,
+	tags?: EntryTags<T>,
+): Promise<Record<string, string | null> | null> {
+	try {
+		return await readTagVersions(context, [...new Set([context.domain, ...(tags?.fromKey ?? [])])]);
+	} catch (error) {
+		context.logger.warn('Cache tag read failed, not caching', { key, error: String(error) });
+		return null;
+	}
+}
+
+/**
+ * Caches a value with the tag versions read before its source was called, and those
+ * of the tags derived from it. A null value is kept for the negative TTL when shorter
+ * than the entry's. The entry is stored for the stale TTL past its own, so it can be
+ * served while refreshed.
+ */
+async function store<T>(
+	context: CacheContext,
+	key: string,
+	ttl: number,
+	value: T,
+	keyVersions: Record<string, string | null>,
+	tags?: EntryTags<T>,
+): Promise<void> {
+	const { cache, config, logger } = context;
+	try {
+		const freshTtl = jitter(config, value === null ? Math.min(ttl, config.ttl.negative) : ttl);
+		const derived = [...new Set(tags?.fromValue?.(value) ?? [])].filter((tag) => !(tag in keyVersions));
+		const wrapper: CacheWrapper<T> = {
+			__cached: true,
+			data: value,
+			tags: { ...keyVersions, ...(derived.length > 0 ? await readTagVersions(context, derived) : {}) },
+			staleAt: Date.now() + freshTtl * 1000,
+		};
+		await cache.set(key, wrapper, freshTtl + config.staleTtl);
+	} catch (error) {
+		logger.warn('Cache write failed', { key, error: String(error) });
+	}
+}
+
+/** Calls the source and caches a successful result with the versions of its tags. */
+async function load<T, E>(
+	context: CacheContext,
+	key: string,
+	ttl: number,
+	source: () => Promise<Result<T, E>>,
+	tags?: EntryTags<T>,
+): Promise<Result<T, E>> {
+	const keyVersions = await readKeyTagVersions(context, key, tags);
+	const result = await source();
+	if (result.success && keyVersions) {
+		await store(context, key, ttl, result.value, keyVersions, tags);
+	}
+	return result;
+}
+
+/** Loads the key, unless a load of it is already in flight on this node, whose result is shared. */
+function loadOnce<T, E>(
+	context: CacheContext,
+	key: string,
+	ttl: number,
+	source: () => Promise<Result<T, E>>,
+	tags?: EntryTags<T>,
+): Promise<Result<T, E>> {
+	const pending = inFlight.get(key);
+	if (pending) {
+		context.logger.debug('Cache load coalesced', { key });
+		return pending as Promise<Result<T, E>>;
+	}
+	const loading = load(context, key, ttl, source, tags).finally(() => inFlight.delete(key));
+	inFlight.set(key, loading);
+	return loading;
+}
+
+/** Refreshes a stale entry in the background; the stale entry stays in place if the refresh fails. */
+function revalidate<T, E>(
+	context: CacheContext,
+	key: string,
+	ttl: number,
+	source: () => Promise<Result<T, E>>,
+	tags?: EntryTags<T>,
+): void {
+	if (inFlight.has(key)) {
+		return;
+	}
+	loadOnce(context, key, ttl, source, tags).catch((error) => {
+		context.logger.warn('Cache refresh failed', { key, error: String(error) });
+	});
+}
+
 /**
  * Cache-aside pattern: try cache first, fall back to source on miss or error.
- * Wraps cached data in `{ __cached: true, data }` to handle cached null values.
+ * Wraps cached data in `{ __cached: true, data, tags, staleAt }` to handle cached null
+ * values and to tell outdated and stale entries apart. Concurrent misses of a key on
+ * a node share one source call. A stale entry is served as a hit while the source is
+ * called in the background; an invalidated entry never is. The versions of the tags
+ * known from the key are read before the source is called, and those derived from the
+ * value once it returned.
+ * @param context - The decorator's cache context.
+ * @param key - The entry's cache key.
+ * @param ttl - The entry's TTL in seconds, before jitter.
+ * @param source - Reads the value from the database.
+ * @param tags - The tags the entry depends on besides the domain tag, if any.
  */
 export async function cacheAside<T, E>(
-	cache: CacheService,
+	context: CacheContext,
 	key: string,
 	ttl: number,
 	source: () => Promise<Result<T, E>>,
-	logger: Logger,
+	tags?: EntryTags<T>,
 ): Promise<Result<T, E>> {
+	const { domain, metrics, logger } = context;
+
 	// 1. Try cache
 	try {
-		const cached = await cache.get<CacheWrapper<T>>(key);
-		if (isCacheWrapper<T>(cached)) {
-			logger.debug('Cache hit', { key });
+		const cached = await readEntry<T>(context, key);
+		if (cached) {
+			if (cached.staleAt <= Date.now()) {
+				logger.debug('Cache hit stale, refreshing', { key });
+				revalidate(context, key, ttl, source, tags);
+			} else {
+				logger.debug('Cache hit', { key });
+			}
+			metrics.recordHit(domain);
 			return ok(cached.data) as Result<T, E>;
 		}
 	} catch (error) {
 		logger.warn('Cache read failed, falling through to DB', { key, error: String(error) });
 	}
 
-	// 2. Cache miss or error: call source
-	const result = await source();
-
-	// 3. If source succeeded, cache the result
-	if (result.success) {
-		try {
-			const wrapper: CacheWrapper<T> = { __cached: true, data: result.value };
-			await cache.set(key, wrapper, ttl);
-		} catch (error) {
-			logger.warn('Cache write failed', { key, error: String(error) });
-		}
-	}
-
-	return result;
+	// 2. Cache miss, outdated entry or error: call source once per key, caching a success
+	metrics.recordMiss(domain);
+	return loadOnce(context, key, ttl, source, tags);
 }
 
 /**
- * Invalidates cache entries matching one or more glob patterns.
- * Prefixes each pattern with the configured key prefix.
+ * Invalidates the entries depending on one or more tags, by giving each tag a new version.
+ * Versions are kept for the tag TTL of the {@link CacheConfig}; once one expires, the entries
+ * cached under it are read from the source again.
  */
-export async function invalidatePatterns(
-	cache: CacheService,
-	keyPrefix: string,
-	patterns: string[],
-	logger: Logger,
+export async function invalidateTags(
+	context: Pick<CacheContext, 'cache' | 'config' | 'logger'>,
+	tags: string[],
 ): Promise<void> {
-	for (const pattern of patterns) {
+	for (const tag of tags) {
 		try {
-			await cache.deleteByPattern(`${keyPrefix}${pattern}`);
+			await context.cache.set(tagKey(context.config, tag), randomUUID(), context.config.ttl.tag);
 		} catch (error) {
-			logger.warn('Cache invalidation failed', { pattern, error: String(error) });
+			context.logger.warn('Cache invalidation failed', { tag, error: String(error) });
 		}
 	}
 }
@@ -0,0 +1,39 @@
+/**
+ * @file Unit tests for InMemoryCacheMetrics — per-domain counters and snapshots.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryCacheMetrics } from './in-memory-cache.metrics.js';
+
+describe('InMemoryCacheMetrics', () => {
+	let metrics: InMemoryCacheMetrics;
+
+	beforeEach(() => {
+		metrics = new InMemoryCacheMetrics();
+	});
+
+	it('should count hits, misses and evictions per domain', () => {
+		metrics.recordHit('trip');
+		metrics.recordHit('trip');
+		metrics.recordMiss('trip');
+		metrics.recordEviction('trip');
+		metrics.recordMiss('inscription');
+
+		expect(metrics.snapshot()).toEqual({
+			trip: { hits: 2, misses: 1, evictions: 1 },
+			inscription: { hits: 0, misses: 1, evictions: 0 },
+		});
+	});
+
+	it('should report no domain before any read', () => {
+		expect(metrics.snapshot()).toEqual({});
+	});
+
+	it('should not let a snapshot change the counters', () => {
+		metrics.recordHit('trip');
+		const snapshot = metrics.snapshot();
+		snapshot.trip.hits = 100;
+
+		expect(metrics.snapshot().trip.hits).toBe(1);
+	});
+});
@@ -0,0 +1,43 @@
+/**
+ * @module in-memory-cache.metrics
+ * In-process implementation of the {@link CacheMetrics} domain interface.
+ * Counts the cache reads of the node it runs on; each node reports its own.
+ */
+
+import { injectable } from 'tsyringe';
+import type { CacheDomainMetrics, CacheMetrics } from '../../domain/services/cache-metrics.service.js';
+
+/**
+ * In-process implementation of {@link CacheMetrics}.
+ * The counters restart with the process.
+ * Injected via tsyringe as a singleton, so every cached repository counts into the same counters.
+ */
+@injectable()
+export class InMemoryCacheMetrics implements CacheMetrics {
+	private readonly domains = new Map<string, CacheDomainMetrics>();
+
+	recordHit(domain: string): void {
+		this.counters(domain).hits++;
+	}
+
+	recordMiss(domain: string): void {
+		this.counters(domain).misses++;
+	}
+
+	recordEviction(domain: string): void {
+		this.counters(domain).evictions++;
+	}
+
+	snapshot(): Record<string, CacheDomainMetrics> {
+		return Object.fromEntries([...this.domains].map(([domain, counters]) => [domain, { ...counters }]));
+	}
+
+	private counters(domain: string): CacheDomainMetrics {
+		let counters = this.domains.get(domain);
+		if (!counters) {
+			counters = { hits: 0, misses: 0, evictions: 0 };
+			this.domains.set(domain, counters);
+		}
+		return counters;
+	}
+}
@@ -0,0 +1,145 @@
+/**
+ * @file Unit tests for InMemoryCacheService.
+ * Verifies get, getMany, set, delete, deleteByPattern, the TTL and the LRU bound.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMockCacheConfig, createMockLogger } from '../../../tests/setup.js';
+import type { CacheConfig } from './cache.config.js';
+import { InMemoryCacheService } from './in-memory-cache.service.js';
+
+describe('InMemoryCacheService', () => {
+	let service: InMemoryCacheService;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		service = new InMemoryCacheService(createMockCacheConfig({ maxEntries: 3 }) as CacheConfig, createMockLogger());
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe('get()', () => {
+		it('should return the value set under the key', async () => {
+			await service.set('key', { foo: 'bar' }, 60);
+
+			expect(await service.get('key')).toEqual({ foo: 'bar' });
+		});
+
+		it('should return null on miss', async () => {
+			expect(await service.get('missing')).toBeNull();
+		});
+
+		it('should return null once the TTL elapsed', async () => {
+			await service.set('key', 'value', 60);
+			vi.advanceTimersByTime(60_000);
+
+			expect(await service.get('key')).toBeNull();
+		});
+
+		it('should not share objects with the caller', async () => {
+			const value = { foo: 'bar' };
+			await service.set('key', value, 60);
+			value.foo = 'changed';
+			const read = await service.get<{ foo: string }>('key');
+			(read as { foo: string }).foo = 'changed again';
+
+			expect(await service.get('key')).toEqual({ foo: 'bar' });
+		});
+	});
+
+	describe('getMany()', () => {
+		it('should return the values in the order of the keys, with null for misses', async () => {
+			await service.set('a', 1, 60);
+			await service.set('c', 3, 60);
+
+			expect(await service.getMany(['a', 'b', 'c'])).toEqual([1, null, 3]);
+		});
+
+		it('should return an empty array for no keys', async () => {
+			expect(await service.getMany([])).toEqual([]);
+		});
+	});
+
+	describe('set()', () => {
+		it('should evict the least recently used entry over the bound', async () => {
+			await service.set('a', 1, 60);
+			await service.set('b', 2, 60);
+			await service.set('c', 3, 60);
+			await service.get('a');
+			await service.set('d', 4, 60);
+
+			expect(await service.getMany(['a', 'b', 'c', 'd'])).toEqual([1, null, 3, 4]);
+		});
+
+		it('should replace the value and TTL of an existing key', async () => {
+			await service.set('key', 'old', 10);
+			await service.set('key', 'new', 60);
+			vi.advanceTimersByTime(30_000);
+
+			expect(await service.get('key')).toBe('new');
+		});
+	});
+
+	describe('increment()', () => {
+		it('should start a missing counter at 1 and count from there', async () => {
+			expect(await service.increment('counter', 60)).toBe(1);
+			expect(await service.increment('counter', 60)).toBe(2);
+		});
+
+		it('should keep the expiry of the counter', async () => {
+			await service.increment('counter', 60);
+			vi.advanceTimersByTime(30_000);
+			await service.increment('counter', 60);
+			vi.advanceTimersByTime(30_000);
+
+			expect(await service.increment('counter', 60)).toBe(1);
+		});
+	});
+
+	describe('delete()', () => {
+		it('should delete the key', async () => {
+			await service.set('key', 'value', 60);
+			await service.delete('key');
+
+			expect(await service.get('key')).toBeNull();
+		});
+	});
+
+	describe('deleteByPattern()', () => {
+		it('should delete the keys matching the glob pattern only', async () => {
+			await service.set('city:1', 1, 60);
+			await service.set('city:2', 2, 60);
+			await service.set('color:1', 3, 60);
+
+			await service.deleteByPattern('city:*');
+
+			expect(await service.getMany(['city:1', 'city:2', 'color:1'])).toEqual([null, null, 3]);
+		});
+
+		it('should match regular expression characters literally', async () => {
+			await service.set('trip.list', 1, 60);
+			await service.set('tripXlist', 2, 60);
+
+			await service.deleteByPattern('trip.*');
+
+			expect(await service.getMany(['trip.list', 'tripXlist'])).toEqual([null, 2]);
+		});
+
+		it('should match a single character with ?', async () => {
+			await service.set('user:1', 1, 60);
+			await service.set('user:12', 2, 60);
+
+			await service.deleteByPattern('user:?');
+
+			expect(await service.getMany(['user:1', 'user:12'])).toEqual([null, 2]);
+		});
+	});
+
+	describe('isHealthy()', () => {
+		it('should always be healthy', async () => {
+			expect(await service.isHealthy()).toBe(true);
+		});
+	});
+});
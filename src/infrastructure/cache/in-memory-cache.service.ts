@@ -0,0 +1,125 @@
+/**
+ * @module in-memory-cache.service
+ * In-process implementation of the {@link CacheService} domain interface.
+ * Keeps entries in a size-bounded LRU map, so that local runs and tests cache
+ * without a Redis instance. Selected when the cache backend is `memory`, and
+ * used as the L1 of the `tiered` backend.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { CacheService } from '../../domain/services/cache.service.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import type { CacheConfig } from './cache.config.js';
+
+/** A cached value with the time it expires at, in epoch milliseconds. */
+type Entry = { value: unknown; expiresAt: number };
+
+/**
+ * Translates a Redis glob pattern into a regular expression.
+ * Supports `*` and `?`; every other character matches itself.
+ */
+function globToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.split('')
+		.map((char) => {
+			if (char === '*') return '.*';
+			if (char === '?') return '.';
+			return char.replace(/[\\^$.|+()[\]{}]/g, '\\$&');
+		})
+		.join('');
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * In-process implementation of {@link CacheService}.
+ * The map keeps entries from the least to the most recently used, so the
+ * first one is evicted when a write goes over the {@link CacheConfig} bound.
+ * Expired entries are dropped when read, or evicted as they age.
+ * Values are copied in and out, as a Redis round trip would, so callers never
+ * share an object with the cache.
+ * Injected via tsyringe as a singleton, so every resolution shares the same entries.
+ */
+@injectable()
+export class InMemoryCacheService implements CacheService {
+	private readonly entries = new Map<string, Entry>();
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.CacheConfig)
+		private readonly config: CacheConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ service: 'CacheService', backend: 'memory' });
+	}
+
+	async get<T>(key: string): Promise<T | null> {
+		const value = this.read<T>(key);
+		this.logger.debug('Cache get', { key, hit: value != null });
+		return value;
+	}
+
+	async getMany<T>(keys: string[]): Promise<(T | null)[]> {
+		this.logger.debug('Cache getMany', { keys: keys.length });
+		return keys.map((key) => this.read<T>(key));
+	}
+
+	async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlSeconds * 1000 });
+		this.evict();
+		this.logger.debug('Cache set', { key, ttlSeconds });
+	}
+
+	async increment(key: string, ttlSeconds: number): Promise<number> {
+		const entry = this.entries.get(key);
+		const current = entry && entry.expiresAt > Date.now() ? entry : { value: 0, expiresAt: Date.now() + ttlSeconds * 1000 };
+		const count = Number(current.value) + 1;
+		this.entries.delete(key);
+		this.entries.set(key, { value: count, expiresAt: current.expiresAt });
+		this.evict();
+		this.logger.debug('Cache increment', { key, count });
+		return count;
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+		this.logger.debug('Cache delete', { key });
+	}
+
+	async deleteByPattern(pattern: string): Promise<void> {
+		const regex = globToRegExp(pattern);
+		for (const key of [...this.entries.keys()]) {
+			if (regex.test(key)) {
+				this.entries.delete(key);
+			}
+		}
+		this.logger.debug('Cache deleteByPattern', { pattern });
+	}
+
+	async isHealthy(): Promise<boolean> {
+		return true;
+	}
+
+	/** Evicts the least recently used entries until the map is back within the bound. */
+	private evict(): void {
+		while (this.entries.size > this.config.maxEntries) {
+			const leastRecentlyUsed = this.entries.keys().next().value as string;
+			this.entries.delete(leastRecentlyUsed);
+		}
+	}
+
+	/** Returns a copy of the entry's value and marks it most recently used, unless it expired. */
+	private read<T>(key: string): T | null {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return null;
+		}
+		this.entries.delete(key);
+		if (entry.expiresAt <= Date.now()) {
+			return null;
+		}
+		this.entries.set(key, entry);
+		return structuredClone(entry.value) as T;
+	}
+}
@@ -1,6 +1,6 @@
 /**
  * @file Unit tests for CachedAuthRepository.
- * Verifies that all auth reads bypass cache entirely, and write invalidation
+ * Verifies that auth reads use cache-aside, and write invalidation
  * only triggers on successful DB operations.
  */
 
@@ -14,6 +14,8 @@ import {
     createMockAuthRepository,
     createMockCacheService,
     createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
     createMockLogger,
 } from '../../../../tests/setup.js';
 
@@ -29,13 +31,14 @@ describe('CachedAuthRepository', () => {
         container.register(PRISMA_TOKENS.AuthRepository, { useValue: inner });
         container.registerInstance(TOKENS.CacheService, cache);
         container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
         container.registerInstance(TOKENS.Logger, createMockLogger());
         repo = container.resolve(CachedAuthRepository);
     });
 
     describe('findByEmail()', () => {
         it('should check cache first and return cached value on hit', async () => {
-            cache.get.mockResolvedValue({ id: 'a1', email: 'a@b.com' });
+            cache.get.mockResolvedValue({ __cached: true, data: { id: 'a1', email: 'a@b.com' }, tags: { auth: null }, staleAt: Number.MAX_SAFE_INTEGER });
             const result = await repo.findByEmail('a@b.com');
             expect(result.success).toBe(true);
             expect(cache.get).toHaveBeenCalled();
@@ -50,6 +53,40 @@ describe('CachedAuthRepository', () => {
             expect(inner.findByEmail).toHaveBeenCalledWith('a@b.com');
             expect(cache.set).toHaveBeenCalled();
         });
+
+        it('should tag the entry with the account found', async () => {
+            cache.get.mockResolvedValue(null);
+            inner.findByEmail.mockResolvedValue(ok({ id: 'a1', refId: 4, email: 'a@b.com' }));
+            await repo.findByEmail('a@b.com');
+            expect(cache.getMany).toHaveBeenCalledWith(['test:tag:auth']);
+            expect(cache.getMany).toHaveBeenCalledWith(['test:tag:auth:4']);
+        });
+    });
+
+    describe('findByRefId()', () => {
+        it('should call inner on cache miss and cache the result', async () => {
+            cache.get.mockResolvedValue(null);
+            inner.findByRefId.mockResolvedValue(ok({ id: 'a1', refId: 1 }));
+            const result = await repo.findByRefId(1);
+            expect(result.success).toBe(true);
+            expect(inner.findByRefId).toHaveBeenCalledWith(1);
+            expect(cache.set).toHaveBeenCalled();
+        });
+
+        it('should tag the entry with the account', async () => {
+            cache.get.mockResolvedValue(null);
+            inner.findByRefId.mockResolvedValue(ok({ id: 'a1', refId: 1 }));
+            await repo.findByRefId(1);
+            expect(cache.getMany).toHaveBeenCalledWith(['test:tag:auth', 'test:tag:auth:1']);
+        });
+
+        // A registration invalidates the auth domain, so a missing auth is not kept once created
+        it('should cache a missing auth for the negative TTL', async () => {
+            cache.get.mockResolvedValue(null);
+            inner.findByRefId.mockResolvedValue(ok(null));
+            await repo.findByRefId(1);
+            expect(cache.set).toHaveBeenCalledWith('test:auth:findByRefId:1', { __cached: true, data: null, tags: { auth: null, 'auth:1': null }, staleAt: expect.any(Number) }, 30);
+        });
     });
 
     describe('existsByEmail()', () => {
@@ -65,28 +102,96 @@ describe('CachedAuthRepository', () => {
     describe('createWithUser()', () => {
         it('should invalidate auth and user caches on success', async () => {
             inner.createWithUser.mockResolvedValue(ok({ auth: {}, user: {} }));
-            await repo.createWithUser({ email: 'a@b.com', password: 'hash' }, { firstName: 'A', lastName: 'B', phone: '0600000000' });
-            expect(cache.deleteByPattern).toHaveBeenCalledTimes(2);
+            await repo.createWithUser({ email: 'a@b.com', password: 'hash' }, { firstName: 'A', lastName: 'B', phone: '0600000000', locale: 'fr' });
+            expect(invalidatedTags(cache)).toHaveLength(2);
         });
 
         it('should NOT invalidate cache on failure', async () => {
             inner.createWithUser.mockResolvedValue(err(new DatabaseError('fail')));
-            await repo.createWithUser({ email: 'a@b.com', password: 'hash' }, { firstName: 'A', lastName: 'B', phone: '0600000000' });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            await repo.createWithUser({ email: 'a@b.com', password: 'hash' }, { firstName: 'A', lastName: 'B', phone: '0600000000', locale: 'fr' });
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
     describe('updateRole()', () => {
-        it('should invalidate auth cache on success', async () => {
+        it('should invalidate only the account cache on success', async () => {
             inner.updateRole.mockResolvedValue(ok(undefined));
             await repo.updateRole(1, 'ADMIN');
-            expect(cache.deleteByPattern).toHaveBeenCalledTimes(1);
+            expect(invalidatedTags(cache)).toEqual(['auth:1']);
         });
 
         it('should NOT invalidate cache on failure', async () => {
             inner.updateRole.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.updateRole(1, 'ADMIN');
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
+        });
+    });
+
+    describe('updatePassword()', () => {
+        it('should invalidate only the account cache on success', async () => {
+            inner.updatePassword.mockResolvedValue(ok(undefined));
+            await repo.updatePassword(1, 'hash');
+            expect(invalidatedTags(cache)).toEqual(['auth:1']);
+        });
+
+        it('should NOT invalidate cache on failure', async () => {
+            inner.updatePassword.mockResolvedValue(err(new DatabaseError('fail')));
+            await repo.updatePassword(1, 'hash');
+            expect(invalidatedTags(cache)).toEqual([]);
+        });
+    });
+
+    describe('markEmailVerified()', () => {
+        it('should invalidate only the account cache on success', async () => {
+            inner.markEmailVerified.mockResolvedValue(ok(undefined));
+            await repo.markEmailVerified(1, new Date());
+            expect(invalidatedTags(cache)).toEqual(['auth:1']);
+        });
+    });
+
+    describe('updateEmail()', () => {
+        const verificationToken = { authRefId: 1, purpose: 'EMAIL_VERIFICATION' as const, tokenHash: 'hash-1', expiresAt: new Date() };
+
+        it('should invalidate auth and user caches on success', async () => {
+            inner.updateEmail.mockResolvedValue(ok(undefined));
+            await repo.updateEmail(1, 'new@example.com', verificationToken);
+            expect(invalidatedTags(cache)).toEqual(['auth', 'user']);
+        });
+
+        it('should NOT invalidate on failure', async () => {
+            inner.updateEmail.mockResolvedValue(err(new DatabaseError('fail')));
+            await repo.updateEmail(1, 'new@example.com', verificationToken);
+            expect(invalidatedTags(cache)).toEqual([]);
+        });
+    });
+
+    describe('recordLoginFailure()', () => {
+        it('should invalidate only the account cache on success', async () => {
+            inner.recordLoginFailure.mockResolvedValue(ok(1));
+            await repo.recordLoginFailure(1);
+            expect(invalidatedTags(cache)).toEqual(['auth:1']);
+        });
+
+        it('should NOT invalidate cache on failure', async () => {
+            inner.recordLoginFailure.mockResolvedValue(err(new DatabaseError('fail')));
+            await repo.recordLoginFailure(1);
+            expect(invalidatedTags(cache)).toEqual([]);
+        });
+    });
+
+    describe('lockLogin()', () => {
+        it('should invalidate only the account cache on success', async () => {
+            inner.lockLogin.mockResolvedValue(ok(undefined));
+            await repo.lockLogin(1, new Date());
+            expect(invalidatedTags(cache)).toEqual(['auth:1']);
+        });
+    });
+
+    describe('clearLoginFailures()', () => {
+        it('should invalidate only the account cache on success', async () => {
+            inner.clearLoginFailures.mockResolvedValue(ok(undefined));
+            await repo.clearLoginFailures(1);
+            expect(invalidatedTags(cache)).toEqual(['auth:1']);
         });
     });
 });
@@ -2,33 +2,40 @@
  * @module cached-auth.repository
  * Cache-aside decorator for {@link AuthRepository}.
  * Wraps the inner PrismaAuthRepository, caching reads and invalidating on writes.
- * The createWithUser method cross-invalidates both auth and user caches.
+ * Reads are tagged with the account, so that a write to one account (e.g. a
+ * failed login) leaves the others cached. The createWithUser method
+ * cross-invalidates both auth and user caches.
  */
 
 import { inject, injectable } from 'tsyringe';
+import type { CreateAccountTokenData } from '../../../domain/entities/account-token.entity.js';
 import type { AuthEntity, CreateAuthData } from '../../../domain/entities/auth.entity.js';
+import type { CreateOutboxMessageData } from '../../../domain/entities/outbox-message.entity.js';
 import type { CreateUserData, PublicUserEntity } from '../../../domain/entities/user.entity.js';
 import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
+import type { CacheMetrics } from '../../../domain/services/cache-metrics.service.js';
 import type { CacheService } from '../../../domain/services/cache.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS, PRISMA_TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import type { CacheConfig } from '../cache.config.js';
-import { invalidatePatterns } from '../cache.utils.js';
+import { authTag } from '../cache.tags.js';
+import { type CacheContext, cacheAside, invalidateTags } from '../cache.utils.js';
 
 @injectable()
 export class CachedAuthRepository implements AuthRepository {
-	private readonly logger: Logger;
+	private readonly context: CacheContext;
 	private readonly domain = 'auth';
 
 	constructor(
 		@inject(PRISMA_TOKENS.AuthRepository) private readonly inner: AuthRepository,
-		@inject(TOKENS.CacheService) private readonly cache: CacheService,
+		@inject(TOKENS.CacheService) cache: CacheService,
 		@inject(TOKENS.CacheConfig) private readonly config: CacheConfig,
+		@inject(TOKENS.CacheMetrics) metrics: CacheMetrics,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
-		this.logger = logger.child({ repository: 'CachedAuthRepository' });
+		this.context = { cache, config, domain: this.domain, metrics, logger: logger.child({ repository: 'CachedAuthRepository' }) };
 	}
 
 	private key(method: string, args: string): string {
@@ -36,19 +43,17 @@ export class CachedAuthRepository implements AuthRepository {
 	}
 
 	async findByEmail(email: string): Promise<Result<AuthEntity | null, RepositoryError>> {
-		const cacheKey = this.key('findByEmail', email);
-		if (this.config.enabled) {
-			const cached = await this.cache.get<AuthEntity>(cacheKey);
-			if (cached) {
-				this.logger.debug('Cache hit', { key: cacheKey });
-				return { success: true, value: cached };
-			}
-		}
-		const result = await this.inner.findByEmail(email);
-		if (this.config.enabled && result.success && result.value) {
-			await this.cache.set(cacheKey, result.value, this.config.ttl.auth);
-		}
-		return result;
+		if (!this.config.enabled) return this.inner.findByEmail(email);
+		return cacheAside(this.context, this.key('findByEmail', email), this.config.ttl.auth, () => this.inner.findByEmail(email), {
+			fromValue: (auth) => (auth ? [authTag(auth.refId)] : []),
+		});
+	}
+
+	async findByRefId(refId: number): Promise<Result<AuthEntity | null, RepositoryError>> {
+		if (!this.config.enabled) return this.inner.findByRefId(refId);
+		return cacheAside(this.context, this.key('findByRefId', String(refId)), this.config.ttl.auth, () => this.inner.findByRefId(refId), {
+			fromKey: [authTag(refId)],
+		});
 	}
 
 	async existsByEmail(email: string): Promise<Result<boolean, RepositoryError>> {
@@ -58,10 +63,11 @@ export class CachedAuthRepository implements AuthRepository {
 	async createWithUser(
 		authData: CreateAuthData,
 		userData: Omit<CreateUserData, 'authRefId'>,
+		outbox?: CreateOutboxMessageData[],
 	): Promise<Result<{ auth: AuthEntity; user: PublicUserEntity }, RepositoryError>> {
-		const result = await this.inner.createWithUser(authData, userData);
+		const result = await this.inner.createWithUser(authData, userData, outbox);
 		if (this.config.enabled && result.success) {
-			await invalidatePatterns(this.cache, this.config.keyPrefix, ['auth:*', 'user:*'], this.logger);
+			await invalidateTags(this.context, ['auth', 'user']);
 		}
 		return result;
 	}
@@ -69,7 +75,62 @@ export class CachedAuthRepository implements AuthRepository {
 	async updateRole(refId: number, role: string): Promise<Result<void, RepositoryError>> {
 		const result = await this.inner.updateRole(refId, role);
 		if (this.config.enabled && result.success) {
-			await invalidatePatterns(this.cache, this.config.keyPrefix, ['auth:*'], this.logger);
+			await invalidateTags(this.context, [authTag(refId)]);
+		}
+		return result;
+	}
+
+	async updatePassword(refId: number, password: string): Promise<Result<void, RepositoryError>> {
+		const result = await this.inner.updatePassword(refId, password);
+		if (this.config.enabled && result.success) {
+			await invalidateTags(this.context, [authTag(refId)]);
+		}
+		return result;
+	}
+
+	async markEmailVerified(refId: number, verifiedAt: Date): Promise<Result<void, RepositoryError>> {
+		const result = await this.inner.markEmailVerified(refId, verifiedAt);
+		if (this.config.enabled && result.success) {
+			await invalidateTags(this.context, [authTag(refId)]);
+		}
+		return result;
+	}
+
+	async updateEmail(
+		refId: number,
+		email: string,
+		verificationToken: CreateAccountTokenData,
+		outbox?: CreateOutboxMessageData[],
+	): Promise<Result<void, RepositoryError>> {
+		const result = await this.inner.updateEmail(refId, email, verificationToken, outbox);
+		if (this.config.enabled && result.success) {
+			// The new address may be cached as unknown, which no account tag covers;
+			// user reads embed the email from the joined auth record
+			await invalidateTags(this.context, ['auth', 'user']);
+		}
+		return result;
+	}
+
+	async recordLoginFailure(refId: number): Promise<Result<number, RepositoryError>> {
+		const result = await this.inner.recordLoginFailure(refId);
+		if (this.config.enabled && result.success) {
+			await invalidateTags(this.context, [authTag(refId)]);
+		}
+		return result;
+	}
+
+	async lockLogin(refId: number, lockedUntil: Date, outbox?: CreateOutboxMessageData[]): Promise<Result<void, RepositoryError>> {
+		const result = await this.inner.lockLogin(refId, lockedUntil, outbox);
+		if (this.config.enabled && result.success) {
+			await invalidateTags(this.context, [authTag(refId)]);
+		}
+		return result;
+	}
+
+	async clearLoginFailures(refId: number): Promise<Result<void, RepositoryError>> {
+		const result = await this.inner.clearLoginFailures(refId);
+		if (this.config.enabled && result.success) {
+			await invalidateTags(this.context, [authTag(refId)]);
 		}
 		return result;
 	}
@@ -12,6 +12,8 @@ import {
     createMockBrandRepository,
     createMockCacheService,
     createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
     createMockLogger,
 } from '../../../../tests/setup.js';
 
@@ -27,6 +29,7 @@ describe('CachedBrandRepository', () => {
         container.register(PRISMA_TOKENS.BrandRepository, { useValue: inner });
         container.registerInstance(TOKENS.CacheService, cache);
         container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
         container.registerInstance(TOKENS.Logger, createMockLogger());
         repo = container.resolve(CachedBrandRepository);
     });
@@ -42,7 +45,7 @@ describe('CachedBrandRepository', () => {
         });
 
         it('should return cached data on hit', async () => {
-            cache.get.mockResolvedValue({ __cached: true, data: { data: [], total: 0 } });
+            cache.get.mockResolvedValue({ __cached: true, data: { data: [], total: 0 }, tags: { brand: null }, staleAt: Number.MAX_SAFE_INTEGER });
             await repo.findAll();
             expect(inner.findAll).not.toHaveBeenCalled();
         });
@@ -52,13 +55,13 @@ describe('CachedBrandRepository', () => {
         it('should invalidate on success', async () => {
             inner.create.mockResolvedValue(ok({ id: '1', refId: 1, name: 'BMW' }));
             await repo.create({ name: 'BMW' });
-            expect(cache.deleteByPattern).toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual(['brand']);
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.create.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.create({ name: 'BMW' });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
@@ -66,13 +69,13 @@ describe('CachedBrandRepository', () => {
         it('should invalidate on success', async () => {
             inner.delete.mockResolvedValue(ok(undefined));
             await repo.delete('1');
-            expect(cache.deleteByPattern).toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual(['brand']);
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.delete.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.delete('1');
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 });
@@ -7,26 +7,28 @@
 import { inject, injectable } from 'tsyringe';
 import type { BrandEntity, CreateBrandData } from '../../../domain/entities/brand.entity.js';
 import type { BrandRepository } from '../../../domain/repositories/brand.repository.js';
+import type { CacheMetrics } from '../../../domain/services/cache-metrics.service.js';
 import type { CacheService } from '../../../domain/services/cache.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS, PRISMA_TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import type { CacheConfig } from '../cache.config.js';
-import { cacheAside, invalidatePatterns } from '../cache.utils.js';
+import { type CacheContext, cacheAside, invalidateTags } from '../cache.utils.js';
 
 @injectable()
 export class CachedBrandRepository implements BrandRepository {
-	private readonly logger: Logger;
+	private readonly context: CacheContext;
 	private readonly domain = 'brand';
 
 	constructor(
 		@inject(PRISMA_TOKENS.BrandRepository) private readonly inner: BrandRepository,
-		@inject(TOKENS.CacheService) private readonly cache: CacheService,
+		@inject(TOKENS.CacheService) cache: CacheService,
 		@inject(TOKENS.CacheConfig) private readonly config: CacheConfig,
+		@inject(TOKENS.CacheMetrics) metrics: CacheMetrics,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
-		this.logger = logger.child({ repository: 'CachedBrandRepository' });
+		this.context = { cache, config, domain: this.domain, metrics, logger: logger.child({ repository: 'CachedBrandRepository' }) };
 	}
 
 	private key(method: string, args: string): string {
@@ -35,18 +37,18 @@ export class CachedBrandRepository implements BrandRepository {
 
 	async findAll(params?: { skip: number; take: number }): Promise<Result<{ data: BrandEntity[]; total: number }, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findAll(params);
-		return cacheAside(this.cache, this.key('findAll', JSON.stringify(params ?? {})), this.config.ttl.brand, () => this.inner.findAll(params), this.logger);
+		return cacheAside(this.context, this.key('findAll', JSON.stringify(params ?? {})), this.config.ttl.brand, () => this.inner.findAll(params));
 	}
 
 	async findById(id: string): Promise<Result<BrandEntity | null, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findById(id);
-		return cacheAside(this.cache, this.key('findById', id), this.config.ttl.brand, () => this.inner.findById(id), this.logger);
+		return cacheAside(this.context, this.key('findById', id), this.config.ttl.brand, () => this.inner.findById(id));
 	}
 
 	async create(data: CreateBrandData): Promise<Result<BrandEntity, RepositoryError>> {
 		const result = await this.inner.create(data);
 		if (this.config.enabled && result.success) {
-			await invalidatePatterns(this.cache, this.config.keyPrefix, ['brand:*'], this.logger);
+			await invalidateTags(this.context, ['brand']);
 		}
 		return result;
 	}
@@ -54,7 +56,7 @@ export class CachedBrandRepository implements BrandRepository {
 	async delete(id: string): Promise<Result<void, RepositoryError>> {
 		const result = await this.inner.delete(id);
 		if (this.config.enabled && result.success) {
-			await invalidatePatterns(this.cache, this.config.keyPrefix, ['brand:*'], this.logger);
+			await invalidateTags(this.context, ['brand']);
 		}
 		return result;
 	}
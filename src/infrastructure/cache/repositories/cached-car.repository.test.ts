@@ -12,6 +12,8 @@ import {
     createMockCarRepository,
     createMockCacheService,
     createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
     createMockLogger,
 } from '../../../../tests/setup.js';
 
@@ -27,13 +29,14 @@ describe('CachedCarRepository', () => {
         container.register(PRISMA_TOKENS.CarRepository, { useValue: inner });
         container.registerInstance(TOKENS.CacheService, cache);
         container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
         container.registerInstance(TOKENS.Logger, createMockLogger());
         repo = container.resolve(CachedCarRepository);
     });
 
     describe('findAll()', () => {
         it('should return cached data on hit', async () => {
-            cache.get.mockResolvedValue({ __cached: true, data: { data: [], total: 0 } });
+            cache.get.mockResolvedValue({ __cached: true, data: { data: [], total: 0 }, tags: { car: null }, staleAt: Number.MAX_SAFE_INTEGER });
             const result = await repo.findAll();
             expect(result.success).toBe(true);
             expect(inner.findAll).not.toHaveBeenCalled();
@@ -69,13 +72,13 @@ describe('CachedCarRepository', () => {
         it('should invalidate on success', async () => {
             inner.create.mockResolvedValue(ok({ id: '1' }));
             await repo.create({ licensePlate: 'AB-123', modelRefId: 1, driverRefId: 1 });
-            expect(cache.deleteByPattern).toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual(['car']);
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.create.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.create({ licensePlate: 'AB-123', modelRefId: 1, driverRefId: 1 });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
@@ -83,13 +86,13 @@ describe('CachedCarRepository', () => {
         it('should invalidate on success', async () => {
             inner.update.mockResolvedValue(ok({ id: '1' }));
             await repo.update('1', { licensePlate: 'XY-999' });
-            expect(cache.deleteByPattern).toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual(['car']);
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.update.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.update('1', { licensePlate: 'XY-999' });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
@@ -97,13 +100,13 @@ describe('CachedCarRepository', () => {
         it('should invalidate on success', async () => {
             inner.delete.mockResolvedValue(ok(undefined));
             await repo.delete('1');
-            expect(cache.deleteByPattern).toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual(['car']);
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.delete.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.delete('1');
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 });
@@ -12,6 +12,8 @@ import {
     createMockCityRepository,
     createMockCacheService,
     createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
     createMockLogger,
 } from '../../../../tests/setup.js';
 
@@ -27,13 +29,14 @@ describe('CachedCityRepository', () => {
         container.register(PRISMA_TOKENS.CityRepository, { useValue: inner });
         container.registerInstance(TOKENS.CacheService, cache);
         container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
         container.registerInstance(TOKENS.Logger, createMockLogger());
         repo = container.resolve(CachedCityRepository);
     });
 
     describe('findAll()', () => {
         it('should return cached data on hit', async () => {
-            cache.get.mockResolvedValue({ __cached: true, data: { data: [], total: 0 } });
+            cache.get.mockResolvedValue({ __cached: true, data: { data: [], total: 0 }, tags: { city: null }, staleAt: Number.MAX_SAFE_INTEGER });
             await repo.findAll();
             expect(inner.findAll).not.toHaveBeenCalled();
         });
@@ -59,13 +62,13 @@ describe('CachedCityRepository', () => {
         it('should invalidate on success', async () => {
             inner.create.mockResolvedValue(ok({ id: '1', refId: 1, cityName: 'Paris', zipcode: '75000' }));
             await repo.create({ cityName: 'Paris', zipcode: '75000' });
-            expect(cache.deleteByPattern).toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual(['city']);
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.create.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.create({ cityName: 'Paris', zipcode: '75000' });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
@@ -73,7 +76,7 @@ describe('CachedCityRepository', () => {
         it('should NOT invalidate on failure', async () => {
             inner.delete.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.delete('1');
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 });
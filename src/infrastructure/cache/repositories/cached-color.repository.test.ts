@@ -12,6 +12,8 @@ import {
     createMockColorRepository,
     createMockCacheService,
     createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
     createMockLogger,
 } from '../../../../tests/setup.js';
 
@@ -27,6 +29,7 @@ describe('CachedColorRepository', () => {
         container.register(PRISMA_TOKENS.ColorRepository, { useValue: inner });
         container.registerInstance(TOKENS.CacheService, cache);
         container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
         container.registerInstance(TOKENS.Logger, createMockLogger());
         repo = container.resolve(CachedColorRepository);
     });
@@ -54,13 +57,13 @@ describe('CachedColorRepository', () => {
         it('should invalidate on success', async () => {
             inner.create.mockResolvedValue(ok({ id: '1', refId: 1, name: 'Red', hex: '#FF0000' }));
             await repo.create({ name: 'Red', hex: '#FF0000' });
-            expect(cache.deleteByPattern).toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual(['color']);
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.create.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.create({ name: 'Red', hex: '#FF0000' });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
@@ -68,7 +71,7 @@ describe('CachedColorRepository', () => {
         it('should NOT invalidate on failure', async () => {
             inner.update.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.update('1', { name: 'Blue' });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
@@ -76,7 +79,7 @@ describe('CachedColorRepository', () => {
         it('should NOT invalidate on failure', async () => {
             inner.delete.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.delete('1');
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 });
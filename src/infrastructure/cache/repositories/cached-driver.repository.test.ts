@@ -12,6 +12,8 @@ import {
     createMockDriverRepository,
     createMockCacheService,
     createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
     createMockLogger,
 } from '../../../../tests/setup.js';
 
@@ -27,13 +29,14 @@ describe('CachedDriverRepository', () => {
         container.register(PRISMA_TOKENS.DriverRepository, { useValue: inner });
         container.registerInstance(TOKENS.CacheService, cache);
         container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
         container.registerInstance(TOKENS.Logger, createMockLogger());
         repo = container.resolve(CachedDriverRepository);
     });
 
     describe('findByUserRefId()', () => {
         it('should return cached data on hit', async () => {
-            cache.get.mockResolvedValue({ __cached: true, data: { id: 'd1' } });
+            cache.get.mockResolvedValue({ __cached: true, data: { id: 'd1' }, tags: { driver: null }, staleAt: Number.MAX_SAFE_INTEGER });
             const result = await repo.findByUserRefId(1);
             expect(result.success).toBe(true);
             expect(inner.findByUserRefId).not.toHaveBeenCalled();
@@ -49,7 +52,7 @@ describe('CachedDriverRepository', () => {
 
     describe('findByUserId()', () => {
         it('should return cached data on hit', async () => {
-            cache.get.mockResolvedValue({ __cached: true, data: { id: 'd1' } });
+            cache.get.mockResolvedValue({ __cached: true, data: { id: 'd1' }, tags: { driver: null }, staleAt: Number.MAX_SAFE_INTEGER });
             const result = await repo.findByUserId('user-uuid-1');
             expect(result.success).toBe(true);
             expect(inner.findByUserId).not.toHaveBeenCalled();
@@ -63,17 +66,42 @@ describe('CachedDriverRepository', () => {
         });
     });
 
+    describe('findByRefId()', () => {
+        it('should return cached data on hit', async () => {
+            cache.get.mockResolvedValue({ __cached: true, data: { id: 'd1' }, tags: { driver: null }, staleAt: Number.MAX_SAFE_INTEGER });
+            const result = await repo.findByRefId(1);
+            expect(result.success).toBe(true);
+            expect(inner.findByRefId).not.toHaveBeenCalled();
+        });
+
+        it('should call inner on miss', async () => {
+            cache.get.mockResolvedValue(null);
+            inner.findByRefId.mockResolvedValue(ok(null));
+            await repo.findByRefId(1);
+            expect(inner.findByRefId).toHaveBeenCalledWith(1);
+        });
+    });
+
+    describe('findProfile()', () => {
+        it('should always read through to inner', async () => {
+            inner.findProfile.mockResolvedValue(ok(null));
+            await repo.findProfile('driver-uuid-1');
+            expect(inner.findProfile).toHaveBeenCalledWith('driver-uuid-1');
+            expect(cache.get).not.toHaveBeenCalled();
+        });
+    });
+
     describe('create()', () => {
         it('should invalidate on success', async () => {
             inner.create.mockResolvedValue(ok({ id: 'd1' }));
             await repo.create({ driverLicense: 'DL-123', userRefId: 1 });
-            expect(cache.deleteByPattern).toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual(['driver']);
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.create.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.create({ driverLicense: 'DL-123', userRefId: 1 });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 });
@@ -5,28 +5,30 @@
  */
 
 import { inject, injectable } from 'tsyringe';
-import type { CreateDriverData, DriverEntity } from '../../../domain/entities/driver.entity.js';
+import type { CreateDriverData, DriverEntity, DriverProfile } from '../../../domain/entities/driver.entity.js';
 import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
+import type { CacheMetrics } from '../../../domain/services/cache-metrics.service.js';
 import type { CacheService } from '../../../domain/services/cache.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS, PRISMA_TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import type { CacheConfig } from '../cache.config.js';
-import { cacheAside, invalidatePatterns } from '../cache.utils.js';
+import { type CacheContext, cacheAside, invalidateTags } from '../cache.utils.js';
 
 @injectable()
 export class CachedDriverRepository implements DriverRepository {
-	private readonly logger: Logger;
+	private readonly context: CacheContext;
 	private readonly domain = 'driver';
 
 	constructor(
 		@inject(PRISMA_TOKENS.DriverRepository) private readonly inner: DriverRepository,
-		@inject(TOKENS.CacheService) private readonly cache: CacheService,
+		@inject(TOKENS.CacheService) cache: CacheService,
 		@inject(TOKENS.CacheConfig) private readonly config: CacheConfig,
+		@inject(TOKENS.CacheMetrics) metrics: CacheMetrics,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
-		this.logger = logger.child({ repository: 'CachedDriverRepository' });
+		this.context = { cache, config, domain: this.domain, metrics, logger: logger.child({ repository: 'CachedDriverRepository' }) };
 	}
 
 	private key(method: string, args: string): string {
@@ -35,18 +37,28 @@ export class CachedDriverRepository implements DriverRepository {
 
 	async findByUserRefId(userRefId: number): Promise<Result<DriverEntity | null, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findByUserRefId(userRefId);
-		return cacheAside(this.cache, this.key('findByUserRefId', String(userRefId)), this.config.ttl.driver, () => this.inner.findByUserRefId(userRefId), this.logger);
+		return cacheAside(this.context, this.key('findByUserRefId', String(userRefId)), this.config.ttl.driver, () => this.inner.findByUserRefId(userRefId));
 	}
 
 	async findByUserId(userId: string): Promise<Result<DriverEntity | null, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findByUserId(userId);
-		return cacheAside(this.cache, this.key('findByUserId', userId), this.config.ttl.driver, () => this.inner.findByUserId(userId), this.logger);
+		return cacheAside(this.context, this.key('findByUserId', userId), this.config.ttl.driver, () => this.inner.findByUserId(userId));
+	}
+
+	async findByRefId(refId: number): Promise<Result<DriverEntity | null, RepositoryError>> {
+		if (!this.config.enabled) return this.inner.findByRefId(refId);
+		return cacheAside(this.context, this.key('findByRefId', String(refId)), this.config.ttl.driver, () => this.inner.findByRefId(refId));
+	}
+
+	// Not cached: names are read from the user profile, whose updates do not invalidate driver keys
+	async findProfile(id: string): Promise<Result<DriverProfile | null, RepositoryError>> {
+		return this.inner.findProfile(id);
 	}
 
 	async create(data: CreateDriverData): Promise<Result<DriverEntity, RepositoryError>> {
 		const result = await this.inner.create(data);
 		if (this.config.enabled && result.success) {
-			await invalidatePatterns(this.cache, this.config.keyPrefix, ['driver:*'], this.logger);
+			await invalidateTags(this.context, ['driver']);
 		}
 		return result;
 	}
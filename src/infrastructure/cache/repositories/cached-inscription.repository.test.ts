@@ -1,6 +1,7 @@
 /**
  * @file Unit tests for CachedInscriptionRepository.
- * Verifies cross-domain invalidation (inscription + trip).
+ * Verifies that reads are tagged with the trips and users they show, and that
+ * writes invalidate the inscriptions of their trip and user, and that trip alone.
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
@@ -13,6 +14,8 @@ import {
     createMockInscriptionRepository,
     createMockCacheService,
     createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
     createMockLogger,
 } from '../../../../tests/setup.js';
 
@@ -28,6 +31,7 @@ describe('CachedInscriptionRepository', () => {
         container.register(PRISMA_TOKENS.InscriptionRepository, { useValue: inner });
         container.registerInstance(TOKENS.CacheService, cache);
         container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
         container.registerInstance(TOKENS.Logger, createMockLogger());
         repo = container.resolve(CachedInscriptionRepository);
     });
@@ -66,6 +70,30 @@ describe('CachedInscriptionRepository', () => {
             await repo.findByTripId('trip-uuid-1');
             expect(inner.findByTripId).toHaveBeenCalledWith('trip-uuid-1');
         });
+
+        it('should tag the inscriptions with their trip', async () => {
+            inner.findByTripId.mockResolvedValue(ok([{ id: 'i1', userRefId: 1, tripRefId: 7 }]));
+            await repo.findByTripId('trip-uuid-1');
+            expect(cache.getMany).toHaveBeenCalledWith(['test:tag:inscription']);
+            expect(cache.getMany).toHaveBeenCalledWith(['test:tag:inscription:trip:7']);
+        });
+
+        // The trip's refId is unknown without inscriptions, so any new inscription invalidates the empty list
+        it('should tag an empty list with the unscoped lists', async () => {
+            inner.findByTripId.mockResolvedValue(ok([]));
+            await repo.findByTripId('trip-uuid-1');
+            expect(cache.getMany).toHaveBeenCalledWith(['test:tag:inscription']);
+            expect(cache.getMany).toHaveBeenCalledWith(['test:tag:inscription:list']);
+        });
+    });
+
+    describe('findPassengerContacts()', () => {
+        it('should bypass the cache', async () => {
+            inner.findPassengerContacts.mockResolvedValue(ok([]));
+            await repo.findPassengerContacts(1);
+            expect(inner.findPassengerContacts).toHaveBeenCalledWith(1);
+            expect(cache.get).not.toHaveBeenCalled();
+        });
     });
 
     describe('findByIdAndUserId()', () => {
@@ -84,34 +112,89 @@ describe('CachedInscriptionRepository', () => {
             await repo.existsByUserAndTrip(1, 2);
             expect(cache.set).toHaveBeenCalled();
         });
+
+        // A booking of the trip landing during the lookup must leave a cached false outdated
+        it("should read the version of the trip's inscriptions before the lookup", async () => {
+            cache.get.mockResolvedValue(null);
+            inner.existsByUserAndTrip.mockResolvedValue(ok(false));
+            await repo.existsByUserAndTrip(1, 2);
+            expect(cache.getMany).toHaveBeenCalledWith(['test:tag:inscription', 'test:tag:inscription:trip:2']);
+            expect(cache.getMany.mock.invocationCallOrder[0]).toBeLessThan(inner.existsByUserAndTrip.mock.invocationCallOrder[0]);
+        });
     });
 
     describe('create()', () => {
-        it('should cross-invalidate inscription and trip on success', async () => {
-            inner.create.mockResolvedValue(ok({ id: 'i1' }));
-            await repo.create({ userRefId: 1, tripRefId: 1 });
-            // 2 patterns: inscription:*, trip:*
-            expect(cache.deleteByPattern).toHaveBeenCalledTimes(2);
+        it('should invalidate the inscriptions of the trip and user, and the trip, on success', async () => {
+            inner.create.mockResolvedValue(ok({ id: 'i1', userRefId: 1, tripRefId: 7 }));
+            await repo.create({ userRefId: 1, tripRefId: 7, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500 });
+            expect(invalidatedTags(cache)).toEqual(['inscription:trip:7', 'inscription:user:1', 'inscription:list', 'trip:7']);
+        });
+
+        // One booking must not evict the searches and the other trips
+        it('should NOT invalidate other trips or the trip searches', async () => {
+            inner.create.mockResolvedValue(ok({ id: 'i1', userRefId: 1, tripRefId: 7 }));
+            await repo.create({ userRefId: 1, tripRefId: 7, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500 });
+            expect(invalidatedTags(cache)).not.toContain('trip');
+            expect(invalidatedTags(cache)).not.toContain('trip:list');
+            expect(cache.deleteByPattern).not.toHaveBeenCalled();
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.create.mockResolvedValue(err(new DatabaseError('fail')));
-            await repo.create({ userRefId: 1, tripRefId: 1 });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            await repo.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500 });
+            expect(invalidatedTags(cache)).toEqual([]);
+        });
+    });
+
+    describe('updateStatus()', () => {
+        it('should invalidate the inscriptions of the trip and user, and the trip, on success', async () => {
+            inner.updateStatus.mockResolvedValue(ok({ id: 'i1', status: 'ACTIVE', userRefId: 1, tripRefId: 7 }));
+            await repo.updateStatus('i1', 'ACTIVE');
+            expect(invalidatedTags(cache)).toEqual(['inscription:trip:7', 'inscription:user:1', 'inscription:list', 'trip:7']);
+        });
+
+        it('should NOT invalidate on failure', async () => {
+            inner.updateStatus.mockResolvedValue(err(new DatabaseError('fail')));
+            await repo.updateStatus('i1', 'ACTIVE');
+            expect(invalidatedTags(cache)).toEqual([]);
+        });
+    });
+
+    describe('cancel()', () => {
+        it('should invalidate the inscriptions of the trip and user, and the trip, on success', async () => {
+            inner.cancel.mockResolvedValue(ok({ id: 'i1', status: 'CANCELLED', userRefId: 1, tripRefId: 7 }));
+            await repo.cancel('i1', 'reason');
+            expect(inner.cancel).toHaveBeenCalledWith('i1', 'reason', undefined);
+            expect(invalidatedTags(cache)).toEqual(['inscription:trip:7', 'inscription:user:1', 'inscription:list', 'trip:7']);
+        });
+
+        it('should NOT invalidate on failure', async () => {
+            inner.cancel.mockResolvedValue(err(new DatabaseError('fail')));
+            await repo.cancel('i1');
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
     describe('delete()', () => {
-        it('should cross-invalidate inscription and trip on success', async () => {
+        it('should invalidate the tags of the inscription read before deleting it', async () => {
+            inner.findById.mockResolvedValue(ok({ id: 'i1', userRefId: 1, tripRefId: 7 }));
             inner.delete.mockResolvedValue(ok(undefined));
             await repo.delete('i1');
-            expect(cache.deleteByPattern).toHaveBeenCalledTimes(2);
+            expect(invalidatedTags(cache)).toEqual(['inscription:trip:7', 'inscription:user:1', 'inscription:list', 'trip:7']);
+        });
+
+        it('should invalidate the inscription and trip domains when the inscription cannot be read', async () => {
+            inner.findById.mockResolvedValue(ok(null));
+            inner.delete.mockResolvedValue(ok(undefined));
+            await repo.delete('i1');
+            expect(invalidatedTags(cache)).toEqual(['inscription', 'trip']);
         });
 
         it('should NOT invalidate on failure', async () => {
+            inner.findById.mockResolvedValue(ok(null));
             inner.delete.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.delete('i1');
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 });
@@ -2,33 +2,72 @@
  * @module cached-inscription.repository
  * Cache-aside decorator for {@link InscriptionRepository}.
  * Wraps the inner PrismaInscriptionRepository, caching reads and invalidating on writes.
- * Write operations cross-invalidate both inscription and trip caches,
- * since inscription changes affect trip seat availability and passenger lists.
+ * Reads are tagged with the trips and users whose inscriptions they show, so that a
+ * write only invalidates the inscriptions of its trip and user. Inscription changes
+ * also affect the seats left on the trip; a write invalidates that trip alone.
  */
 
 import { inject, injectable } from 'tsyringe';
-import type { CreateInscriptionData, InscriptionEntity } from '../../../domain/entities/inscription.entity.js';
+import type {
+	BookingNotificationDetails,
+	CreateInscriptionData,
+	InscriptionEntity,
+	InscriptionStatus,
+	PassengerContact,
+} from '../../../domain/entities/inscription.entity.js';
+import type { CreateOutboxMessageData } from '../../../domain/entities/outbox-message.entity.js';
 import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
+import type { CacheMetrics } from '../../../domain/services/cache-metrics.service.js';
 import type { CacheService } from '../../../domain/services/cache.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { NoSeatsAvailableError, TripNotBookableError } from '../../../lib/errors/domain.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS, PRISMA_TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import type { CacheConfig } from '../cache.config.js';
-import { cacheAside, invalidatePatterns } from '../cache.utils.js';
+import { INSCRIPTION_LIST_TAG, tripInscriptionsTag, tripTag, userInscriptionsTag } from '../cache.tags.js';
+import { type CacheContext, cacheAside, invalidateTags } from '../cache.utils.js';
+
+/** Tags of an inscription read on its own: the inscriptions of its trip, which a trip cancellation changes. */
+function inscriptionTags(inscription: InscriptionEntity | null): string[] {
+	return inscription ? [tripInscriptionsTag(inscription.tripRefId)] : [];
+}
+
+/** Tags of a user's inscriptions: the user's, and those of each trip shown. */
+function userListTags(inscriptions: InscriptionEntity[]): string[] {
+	// The user is only known from the inscriptions; an empty list waits for any new inscription
+	if (inscriptions.length === 0) return [INSCRIPTION_LIST_TAG];
+	return [userInscriptionsTag(inscriptions[0].userRefId), ...inscriptions.map((inscription) => tripInscriptionsTag(inscription.tripRefId))];
+}
+
+/** Tags of a trip's inscriptions, known only from the inscriptions when the trip is read by UUID. */
+function tripListTags(inscriptions: InscriptionEntity[]): string[] {
+	return inscriptions.length === 0 ? [INSCRIPTION_LIST_TAG] : [tripInscriptionsTag(inscriptions[0].tripRefId)];
+}
+
+/** Tags made stale by a write to an inscription, including the seats left on its trip. */
+function writeTags(inscription: InscriptionEntity): string[] {
+	return [
+		tripInscriptionsTag(inscription.tripRefId),
+		userInscriptionsTag(inscription.userRefId),
+		INSCRIPTION_LIST_TAG,
+		tripTag(inscription.tripRefId),
+	];
+}
 
 @injectable()
 export class CachedInscriptionRepository implements InscriptionRepository {
-	private readonly logger: Logger;
+	private readonly context: CacheContext;
 	private readonly domain = 'inscription';
 
 	constructor(
 		@inject(PRISMA_TOKENS.InscriptionRepository) private readonly inner: InscriptionRepository,
-		@inject(TOKENS.CacheService) private readonly cache: CacheService,
+		@inject(TOKENS.CacheService) cache: CacheService,
 		@inject(TOKENS.CacheConfig) private readonly config: CacheConfig,
+		@inject(TOKENS.CacheMetrics) metrics: CacheMetrics,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
-		this.logger = logger.child({ repository: 'CachedInscriptionRepository' });
+		this.context = { cache, config, domain: this.domain, metrics, logger: logger.child({ repository: 'CachedInscriptionRepository' }) };
 	}
 
 	private key(method: string, args: string): string {
@@ -37,61 +76,91 @@ export class CachedInscriptionRepository implements InscriptionRepository {
 
 	async findAll(params?: { skip: number; take: number }): Promise<Result<{ data: InscriptionEntity[]; total: number }, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findAll(params);
-		return cacheAside(this.cache, this.key('findAll', JSON.stringify(params ?? {})), this.config.ttl.inscription, () => this.inner.findAll(params), this.logger);
+		return cacheAside(this.context, this.key('findAll', JSON.stringify(params ?? {})), this.config.ttl.inscription, () => this.inner.findAll(params), { fromKey: [INSCRIPTION_LIST_TAG] });
 	}
 
 	async findById(id: string): Promise<Result<InscriptionEntity | null, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findById(id);
-		return cacheAside(this.cache, this.key('findById', id), this.config.ttl.inscription, () => this.inner.findById(id), this.logger);
+		return cacheAside(this.context, this.key('findById', id), this.config.ttl.inscription, () => this.inner.findById(id), { fromValue: inscriptionTags });
 	}
 
 	async findByUserRefId(userRefId: number): Promise<Result<InscriptionEntity[], RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findByUserRefId(userRefId);
-		return cacheAside(this.cache, this.key('findByUserRefId', String(userRefId)), this.config.ttl.inscription, () => this.inner.findByUserRefId(userRefId), this.logger);
+		return cacheAside(this.context, this.key('findByUserRefId', String(userRefId)), this.config.ttl.inscription, () => this.inner.findByUserRefId(userRefId), { fromKey: [userInscriptionsTag(userRefId)], fromValue: userListTags });
 	}
 
 	async findByTripRefId(tripRefId: number): Promise<Result<InscriptionEntity[], RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findByTripRefId(tripRefId);
-		return cacheAside(this.cache, this.key('findByTripRefId', String(tripRefId)), this.config.ttl.inscription, () => this.inner.findByTripRefId(tripRefId), this.logger);
+		return cacheAside(this.context, this.key('findByTripRefId', String(tripRefId)), this.config.ttl.inscription, () => this.inner.findByTripRefId(tripRefId), { fromKey: [tripInscriptionsTag(tripRefId)] });
 	}
 
 	async findByUserId(userId: string): Promise<Result<InscriptionEntity[], RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findByUserId(userId);
-		return cacheAside(this.cache, this.key('findByUserId', userId), this.config.ttl.inscription, () => this.inner.findByUserId(userId), this.logger);
+		return cacheAside(this.context, this.key('findByUserId', userId), this.config.ttl.inscription, () => this.inner.findByUserId(userId), { fromValue: userListTags });
 	}
 
 	async findByTripId(tripId: string): Promise<Result<InscriptionEntity[], RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findByTripId(tripId);
-		return cacheAside(this.cache, this.key('findByTripId', tripId), this.config.ttl.inscription, () => this.inner.findByTripId(tripId), this.logger);
+		return cacheAside(this.context, this.key('findByTripId', tripId), this.config.ttl.inscription, () => this.inner.findByTripId(tripId), { fromValue: tripListTags });
+	}
+
+	// Not cached: contact details are only read when notifying passengers
+	async findPassengerContacts(tripRefId: number): Promise<Result<PassengerContact[], RepositoryError>> {
+		return this.inner.findPassengerContacts(tripRefId);
+	}
+
+	// Not cached: read once per booking notification, and preferences must be current
+	async findNotificationDetails(id: string): Promise<Result<BookingNotificationDetails | null, RepositoryError>> {
+		return this.inner.findNotificationDetails(id);
 	}
 
 	async findByIdAndUserId(id: string, userId: string): Promise<Result<InscriptionEntity | null, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findByIdAndUserId(id, userId);
-		return cacheAside(this.cache, this.key('findByIdAndUserId', `${id}:${userId}`), this.config.ttl.inscription, () => this.inner.findByIdAndUserId(id, userId), this.logger);
+		return cacheAside(this.context, this.key('findByIdAndUserId', `${id}:${userId}`), this.config.ttl.inscription, () => this.inner.findByIdAndUserId(id, userId), { fromValue: inscriptionTags });
 	}
 
 	async existsByUserAndTrip(userRefId: number, tripRefId: number): Promise<Result<boolean, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.existsByUserAndTrip(userRefId, tripRefId);
-		return cacheAside(this.cache, this.key('existsByUserAndTrip', JSON.stringify({ userRefId, tripRefId })), this.config.ttl.inscription, () => this.inner.existsByUserAndTrip(userRefId, tripRefId), this.logger);
+		return cacheAside(this.context, this.key('existsByUserAndTrip', JSON.stringify({ userRefId, tripRefId })), this.config.ttl.inscription, () => this.inner.existsByUserAndTrip(userRefId, tripRefId), { fromKey: [tripInscriptionsTag(tripRefId)] });
 	}
 
 	async countByTripRefId(tripRefId: number): Promise<Result<number, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.countByTripRefId(tripRefId);
-		return cacheAside(this.cache, this.key('countByTripRefId', String(tripRefId)), this.config.ttl.inscription, () => this.inner.countByTripRefId(tripRefId), this.logger);
+		return cacheAside(this.context, this.key('countByTripRefId', String(tripRefId)), this.config.ttl.inscription, () => this.inner.countByTripRefId(tripRefId), { fromKey: [tripInscriptionsTag(tripRefId)] });
 	}
 
-	async create(data: CreateInscriptionData): Promise<Result<InscriptionEntity, RepositoryError>> {
-		const result = await this.inner.create(data);
+	async create(data: CreateInscriptionData, outbox?: CreateOutboxMessageData[]): Promise<Result<InscriptionEntity, RepositoryError | NoSeatsAvailableError | TripNotBookableError>> {
+		const result = await this.inner.create(data, outbox);
 		if (this.config.enabled && result.success) {
-			await invalidatePatterns(this.cache, this.config.keyPrefix, ['inscription:*', 'trip:*'], this.logger);
+			await invalidateTags(this.context, writeTags(result.value));
+		}
+		return result;
+	}
+
+	async updateStatus(id: string, status: InscriptionStatus): Promise<Result<InscriptionEntity, RepositoryError | NoSeatsAvailableError | TripNotBookableError>> {
+		const result = await this.inner.updateStatus(id, status);
+		if (this.config.enabled && result.success) {
+			await invalidateTags(this.context, writeTags(result.value));
+		}
+		return result;
+	}
+
+	async cancel(id: string, reason?: string, outbox?: CreateOutboxMessageData[]): Promise<Result<InscriptionEntity, RepositoryError>> {
+		const result = await this.inner.cancel(id, reason, outbox);
+		if (this.config.enabled && result.success) {
+			await invalidateTags(this.context, writeTags(result.value));
 		}
 		return result;
 	}
 
 	async delete(id: string): Promise<Result<void, RepositoryError>> {
+		if (!this.config.enabled) return this.inner.delete(id);
+		// Read first: the tags of the inscription are only known from it, and it is gone once deleted
+		const found = await this.findById(id);
 		const result = await this.inner.delete(id);
-		if (this.config.enabled && result.success) {
-			await invalidatePatterns(this.cache, this.config.keyPrefix, ['inscription:*', 'trip:*'], this.logger);
+		if (result.success) {
+			const tags = found.success && found.value ? writeTags(found.value) : [this.domain, 'trip'];
+			await invalidateTags(this.context, tags);
 		}
 		return result;
 	}
@@ -12,6 +12,8 @@ import {
     createMockModelRepository,
     createMockCacheService,
     createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
     createMockLogger,
 } from '../../../../tests/setup.js';
 
@@ -27,6 +29,7 @@ describe('CachedModelRepository', () => {
         container.register(PRISMA_TOKENS.ModelRepository, { useValue: inner });
         container.registerInstance(TOKENS.CacheService, cache);
         container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
         container.registerInstance(TOKENS.Logger, createMockLogger());
         repo = container.resolve(CachedModelRepository);
     });
@@ -54,13 +57,13 @@ describe('CachedModelRepository', () => {
         it('should invalidate on success', async () => {
             inner.create.mockResolvedValue(ok({ id: '1', refId: 1, name: 'Civic', brandRefId: 1 }));
             await repo.create({ name: 'Civic', brandRefId: 1 });
-            expect(cache.deleteByPattern).toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual(['model']);
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.create.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.create({ name: 'Civic', brandRefId: 1 });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 });
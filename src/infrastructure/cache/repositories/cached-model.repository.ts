@@ -7,26 +7,28 @@
 import { inject, injectable } from 'tsyringe';
 import type { CreateModelData, ModelEntity } from '../../../domain/entities/model.entity.js';
 import type { ModelRepository } from '../../../domain/repositories/model.repository.js';
+import type { CacheMetrics } from '../../../domain/services/cache-metrics.service.js';
 import type { CacheService } from '../../../domain/services/cache.service.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS, PRISMA_TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import type { CacheConfig } from '../cache.config.js';
-import { cacheAside, invalidatePatterns } from '../cache.utils.js';
+import { type CacheContext, cacheAside, invalidateTags } from '../cache.utils.js';
 
 @injectable()
 export class CachedModelRepository implements ModelRepository {
-	private readonly logger: Logger;
+	private readonly context: CacheContext;
 	private readonly domain = 'model';
 
 	constructor(
 		@inject(PRISMA_TOKENS.ModelRepository) private readonly inner: ModelRepository,
-		@inject(TOKENS.CacheService) private readonly cache: CacheService,
+		@inject(TOKENS.CacheService) cache: CacheService,
 		@inject(TOKENS.CacheConfig) private readonly config: CacheConfig,
+		@inject(TOKENS.CacheMetrics) metrics: CacheMetrics,
 		@inject(TOKENS.Logger) logger: Logger,
 	) {
-		this.logger = logger.child({ repository: 'CachedModelRepository' });
+		this.context = { cache, config, domain: this.domain, metrics, logger: logger.child({ repository: 'CachedModelRepository' }) };
 	}
 
 	private key(method: string, args: string): string {
@@ -35,23 +37,23 @@ export class CachedModelRepository implements ModelRepository {
 
 	async findAll(): Promise<Result<ModelEntity[], RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findAll();
-		return cacheAside(this.cache, this.key('findAll', '{}'), this.config.ttl.model, () => this.inner.findAll(), this.logger);
+		return cacheAside(this.context, this.key('findAll', '{}'), this.config.ttl.model, () => this.inner.findAll());
 	}
 
 	async findById(id: string): Promise<Result<ModelEntity | null, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findById(id);
-		return cacheAside(this.cache, this.key('findById', id), this.config.ttl.model, () => this.inner.findById(id), this.logger);
+		return cacheAside(this.context, this.key('findById', id), this.config.ttl.model, () => this.inner.findById(id));
 	}
 
 	async findByNameAndBrand(name: string, brandRefId: number): Promise<Result<ModelEntity | null, RepositoryError>> {
 		if (!this.config.enabled) return this.inner.findByNameAndBrand(name, brandRefId);
-		return cacheAside(this.cache, this.key('findByNameAndBrand', JSON.stringify({ name, brandRefId })), this.config.ttl.model, () => this.inner.findByNameAndBrand(name, brandRefId), this.logger);
+		return cacheAside(this.context, this.key('findByNameAndBrand', JSON.stringify({ name, brandRefId })), this.config.ttl.model, () => this.inner.findByNameAndBrand(name, brandRefId));
 	}
 
 	async create(data: CreateModelData): Promise<Result<ModelEntity, RepositoryError>> {
 		const result = await this.inner.create(data);
 		if (this.config.enabled && result.success) {
-			await invalidatePatterns(this.cache, this.config.keyPrefix, ['model:*'], this.logger);
+			await invalidateTags(this.context, ['model']);
 		}
 		return result;
 	}
@@ -0,0 +1,107 @@
+/**
+ * @file Unit tests for CachedSessionRepository.
+ * Verifies that session lookups are cached, refresh token operations bypass
+ * the cache, and revocations invalidate the revoked sessions on success only.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { container } from 'tsyringe';
+import { CachedSessionRepository } from './cached-session.repository.js';
+import { TOKENS, PRISMA_TOKENS } from '../../../lib/shared/di/tokens.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import {
+    createMockSessionRepository,
+    createMockCacheService,
+    createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
+    createMockLogger,
+} from '../../../../tests/setup.js';
+
+describe('CachedSessionRepository', () => {
+    let repo: CachedSessionRepository;
+    let inner: ReturnType<typeof createMockSessionRepository>;
+    let cache: ReturnType<typeof createMockCacheService>;
+
+    const session = { id: 'session-1', userRefId: 1, createdAt: new Date(), revokedAt: null, revokedReason: null };
+
+    beforeEach(() => {
+        container.clearInstances();
+        inner = createMockSessionRepository();
+        cache = createMockCacheService();
+        container.register(PRISMA_TOKENS.SessionRepository, { useValue: inner });
+        container.registerInstance(TOKENS.CacheService, cache);
+        container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        repo = container.resolve(CachedSessionRepository);
+    });
+
+    describe('findById()', () => {
+        it('should return the cached session on hit', async () => {
+            cache.get.mockResolvedValue({ __cached: true, data: session, tags: { session: null }, staleAt: Number.MAX_SAFE_INTEGER });
+            const result = await repo.findById('session-1');
+            expect(result.success).toBe(true);
+            expect(inner.findById).not.toHaveBeenCalled();
+        });
+
+        it('should call inner on cache miss and cache the result with the session TTL', async () => {
+            inner.findById.mockResolvedValue(ok(session));
+            await repo.findById('session-1');
+            expect(inner.findById).toHaveBeenCalledWith('session-1');
+            expect(cache.set).toHaveBeenCalledWith(
+                'test:session:findById:session-1',
+                { __cached: true, data: session, tags: { session: null, 'session:session-1': null, 'session:user:1': null }, staleAt: expect.any(Number) },
+                60,
+            );
+        });
+
+        it('should bypass cache when disabled', async () => {
+            container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig({ enabled: false }));
+            repo = container.resolve(CachedSessionRepository);
+            inner.findById.mockResolvedValue(ok(session));
+            await repo.findById('session-1');
+            expect(cache.get).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('refresh tokens', () => {
+        it('should always look up refresh tokens in the inner repository', async () => {
+            inner.findRefreshToken.mockResolvedValue(ok(null));
+            await repo.findRefreshToken('hash-1');
+            expect(inner.findRefreshToken).toHaveBeenCalledWith('hash-1');
+            expect(cache.get).not.toHaveBeenCalled();
+        });
+
+        it('should rotate without touching the cache', async () => {
+            inner.rotateRefreshToken.mockResolvedValue(ok(true));
+            const next = { tokenHash: 'hash-2', expiresAt: new Date() };
+            await repo.rotateRefreshToken('token-1', next);
+            expect(inner.rotateRefreshToken).toHaveBeenCalledWith('token-1', next);
+            expect(invalidatedTags(cache)).toEqual([]);
+        });
+    });
+
+    describe('revoke()', () => {
+        it('should invalidate only the revoked session on success', async () => {
+            inner.revoke.mockResolvedValue(ok(undefined));
+            await repo.revoke('session-1', 'LOGOUT');
+            expect(invalidatedTags(cache)).toEqual(['session:session-1']);
+        });
+
+        it('should NOT invalidate on failure', async () => {
+            inner.revoke.mockResolvedValue(err(new DatabaseError('fail')));
+            await repo.revoke('session-1', 'LOGOUT');
+            expect(invalidatedTags(cache)).toEqual([]);
+        });
+    });
+
+    describe('revokeAllForUser()', () => {
+        it('should invalidate only the sessions of the user on success', async () => {
+            inner.revokeAllForUser.mockResolvedValue(ok(2));
+            await repo.revokeAllForUser(1, 'LOGOUT_ALL');
+            expect(invalidatedTags(cache)).toEqual(['session:user:1']);
+        });
+    });
+});
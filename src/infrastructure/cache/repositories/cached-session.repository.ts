@@ -0,0 +1,83 @@
+/**
+ * @module cached-session.repository
+ * Cache-aside decorator for {@link SessionRepository}.
+ * Wraps the inner PrismaSessionRepository and caches session lookups, which
+ * the auth middleware performs on every authenticated request. Refresh token
+ * reads and rotations always go to the database; revocations invalidate the
+ * revoked sessions only, so a revoked session is rejected immediately while
+ * the other sessions stay cached.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type {
+	IssueRefreshTokenData,
+	RefreshTokenWithSession,
+	SessionEntity,
+	SessionRevocationReason,
+} from '../../../domain/entities/session.entity.js';
+import type { SessionRepository } from '../../../domain/repositories/session.repository.js';
+import type { CacheMetrics } from '../../../domain/services/cache-metrics.service.js';
+import type { CacheService } from '../../../domain/services/cache.service.js';
+import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS, PRISMA_TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import type { CacheConfig } from '../cache.config.js';
+import { sessionTag, userSessionsTag } from '../cache.tags.js';
+import { type CacheContext, cacheAside, invalidateTags } from '../cache.utils.js';
+
+@injectable()
+export class CachedSessionRepository implements SessionRepository {
+	private readonly context: CacheContext;
+	private readonly domain = 'session';
+
+	constructor(
+		@inject(PRISMA_TOKENS.SessionRepository) private readonly inner: SessionRepository,
+		@inject(TOKENS.CacheService) cache: CacheService,
+		@inject(TOKENS.CacheConfig) private readonly config: CacheConfig,
+		@inject(TOKENS.CacheMetrics) metrics: CacheMetrics,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.context = { cache, config, domain: this.domain, metrics, logger: logger.child({ repository: 'CachedSessionRepository' }) };
+	}
+
+	private key(method: string, args: string): string {
+		return `${this.config.keyPrefix}${this.domain}:${method}:${args}`;
+	}
+
+	async create(userRefId: number, token: IssueRefreshTokenData): Promise<Result<SessionEntity, RepositoryError>> {
+		return this.inner.create(userRefId, token);
+	}
+
+	async findById(id: string): Promise<Result<SessionEntity | null, RepositoryError>> {
+		if (!this.config.enabled) return this.inner.findById(id);
+		return cacheAside(this.context, this.key('findById', id), this.config.ttl.session, () => this.inner.findById(id), {
+			fromKey: [sessionTag(id)],
+			fromValue: (session) => (session ? [userSessionsTag(session.userRefId)] : []),
+		});
+	}
+
+	async findRefreshToken(tokenHash: string): Promise<Result<RefreshTokenWithSession | null, RepositoryError>> {
+		return this.inner.findRefreshToken(tokenHash);
+	}
+
+	async rotateRefreshToken(tokenId: string, next: IssueRefreshTokenData): Promise<Result<boolean, RepositoryError>> {
+		return this.inner.rotateRefreshToken(tokenId, next);
+	}
+
+	async revoke(id: string, reason: SessionRevocationReason): Promise<Result<void, RepositoryError>> {
+		const result = await this.inner.revoke(id, reason);
+		if (this.config.enabled && result.success) {
+			await invalidateTags(this.context, [sessionTag(id)]);
+		}
+		return result;
+	}
+
+	async revokeAllForUser(userRefId: number, reason: SessionRevocationReason, exceptSessionId?: string): Promise<Result<number, RepositoryError>> {
+		const result = await this.inner.revokeAllForUser(userRefId, reason, exceptSessionId);
+		if (this.config.enabled && result.success) {
+			await invalidateTags(this.context, [userSessionsTag(userRefId)]);
+		}
+		return result;
+	}
+}
@@ -1,6 +1,8 @@
 /**
  * @file Unit tests for CachedTripRepository.
- * Verifies cross-domain invalidation: trip.delete() → trip + inscription caches.
+ * Verifies that reads are tagged with the trips they show, that create() only invalidates
+ * the lists and searches, that update(), cancel() and advanceStatuses() invalidate only when a
+ * trip changed, and that series occurrences are read through.
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
@@ -13,6 +15,8 @@ import {
     createMockTripRepository,
     createMockCacheService,
     createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
     createMockLogger,
 } from '../../../../tests/setup.js';
 
@@ -28,6 +32,7 @@ describe('CachedTripRepository', () => {
         container.register(PRISMA_TOKENS.TripRepository, { useValue: inner });
         container.registerInstance(TOKENS.CacheService, cache);
         container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
         container.registerInstance(TOKENS.Logger, createMockLogger());
         repo = container.resolve(CachedTripRepository);
     });
@@ -41,42 +46,121 @@ describe('CachedTripRepository', () => {
         });
     });
 
+    describe('findByRefId()', () => {
+        it('should use cache-aside', async () => {
+            cache.get.mockResolvedValue(null);
+            inner.findByRefId.mockResolvedValue(ok(null));
+            await repo.findByRefId(1);
+            expect(inner.findByRefId).toHaveBeenCalledWith(1);
+        });
+    });
+
     describe('findByFilters()', () => {
         it('should use cache-aside', async () => {
             cache.get.mockResolvedValue(null);
-            inner.findByFilters.mockResolvedValue(ok([]));
-            await repo.findByFilters({});
+            inner.findByFilters.mockResolvedValue(ok({ data: [], total: 0 }));
+            await repo.findByFilters({ timeZone: 'Europe/Paris' });
             expect(inner.findByFilters).toHaveBeenCalled();
         });
+
+        // The lists are known before the search runs, the trips shown only from its results
+        it('should tag a page with the lists and each trip shown', async () => {
+            inner.findByFilters.mockResolvedValue(ok({ data: [{ id: 't1', refId: 9 }, { id: 't2', refId: 12 }], total: 2 }));
+            await repo.findByFilters({ timeZone: 'Europe/Paris' });
+            expect(cache.getMany).toHaveBeenCalledWith(['test:tag:trip', 'test:tag:trip:list']);
+            expect(cache.getMany).toHaveBeenCalledWith(['test:tag:trip:9', 'test:tag:trip:12']);
+        });
+
+        it('should key the cache on filters and pagination', async () => {
+            cache.get.mockResolvedValue(null);
+            inner.findByFilters.mockResolvedValue(ok({ data: [], total: 0 }));
+            await repo.findByFilters({ departureCity: 'Paris', timeZone: 'Europe/Paris' }, { skip: 0, take: 20 });
+            await repo.findByFilters({ departureCity: 'Paris', timeZone: 'Europe/Paris' }, { skip: 20, take: 20 });
+            const keys = cache.get.mock.calls.map(([key]) => key);
+            expect(new Set(keys).size).toBe(2);
+            expect(inner.findByFilters).toHaveBeenLastCalledWith({ departureCity: 'Paris', timeZone: 'Europe/Paris' }, { skip: 20, take: 20 });
+        });
     });
 
     describe('create()', () => {
-        it('should invalidate trip cache on success', async () => {
-            inner.create.mockResolvedValue(ok({ id: 't1' }));
-            await repo.create({ dateTrip: new Date(), kms: 100, seats: 3, driverRefId: 1, carRefId: 1 });
-            // Only trip:*
-            expect(cache.deleteByPattern).toHaveBeenCalledTimes(1);
+        it('should only invalidate the trip lists and searches on success', async () => {
+            inner.create.mockResolvedValue(ok({ id: 't1', refId: 9 }));
+            await repo.create({ dateTrip: new Date(), arrivalAt: new Date(), kms: 100, seats: 3, pricePerSeat: 600, requiresApproval: false, driverRefId: 1, carRefId: 1 });
+            expect(invalidatedTags(cache)).toEqual(['trip:list', 'trip:9']);
+            expect(cache.deleteByPattern).not.toHaveBeenCalled();
         });
 
         it('should NOT invalidate on failure', async () => {
             inner.create.mockResolvedValue(err(new DatabaseError('fail')));
-            await repo.create({ dateTrip: new Date(), kms: 100, seats: 3, driverRefId: 1, carRefId: 1 });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            await repo.create({ dateTrip: new Date(), arrivalAt: new Date(), kms: 100, seats: 3, pricePerSeat: 600, requiresApproval: false, driverRefId: 1, carRefId: 1 });
+            expect(invalidatedTags(cache)).toEqual([]);
+        });
+    });
+
+    describe('update()', () => {
+        it('should invalidate the trip and the lists and searches when the trip was updated', async () => {
+            inner.update.mockResolvedValue(ok(true));
+            inner.findById.mockResolvedValue(ok({ id: 't1', refId: 9 }));
+            await repo.update('t1', { seats: 4 });
+            expect(invalidatedTags(cache)).toEqual(['trip:list', 'trip:9']);
+        });
+
+        it('should invalidate the whole trip domain when the trip cannot be read', async () => {
+            inner.update.mockResolvedValue(ok(true));
+            inner.findById.mockResolvedValue(err(new DatabaseError('fail')));
+            await repo.update('t1', { seats: 4 });
+            expect(invalidatedTags(cache)).toEqual(['trip:list', 'trip']);
+        });
+
+        it('should NOT invalidate when the trip was no longer scheduled', async () => {
+            inner.update.mockResolvedValue(ok(false));
+            await repo.update('t1', { seats: 4 });
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
-    describe('delete()', () => {
-        it('should cross-invalidate trip AND inscription on success', async () => {
-            inner.delete.mockResolvedValue(ok(undefined));
-            await repo.delete('t1');
-            // 2 patterns: trip:*, inscription:*
-            expect(cache.deleteByPattern).toHaveBeenCalledTimes(2);
+    describe('findBySeries()', () => {
+        it('should always delegate to inner without caching', async () => {
+            inner.findBySeries.mockResolvedValue(ok([]));
+            const fromDay = new Date();
+            await repo.findBySeries(4, fromDay);
+            expect(inner.findBySeries).toHaveBeenCalledWith(4, fromDay);
+            expect(cache.get).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('cancel()', () => {
+        it('should invalidate the trip and its inscriptions when the trip was cancelled', async () => {
+            inner.cancel.mockResolvedValue(ok(true));
+            inner.findById.mockResolvedValue(ok({ id: 't1', refId: 9 }));
+            await repo.cancel('t1', null, new Date());
+            expect(invalidatedTags(cache)).toEqual(['trip:9', 'inscription:trip:9']);
+        });
+
+        it('should NOT invalidate when the trip was no longer scheduled', async () => {
+            inner.cancel.mockResolvedValue(ok(false));
+            await repo.cancel('t1', null, new Date());
+            expect(invalidatedTags(cache)).toEqual([]);
         });
 
         it('should NOT invalidate on failure', async () => {
-            inner.delete.mockResolvedValue(err(new DatabaseError('fail')));
-            await repo.delete('t1');
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            inner.cancel.mockResolvedValue(err(new DatabaseError('fail')));
+            await repo.cancel('t1', null, new Date());
+            expect(invalidatedTags(cache)).toEqual([]);
+        });
+    });
+
+    describe('advanceStatuses()', () => {
+        it('should invalidate the whole trip domain when a trip moved', async () => {
+            inner.advanceStatuses.mockResolvedValue(ok({ started: 0, completed: 1 }));
+            await repo.advanceStatuses(new Date());
+            expect(invalidatedTags(cache)).toEqual(['trip']);
+        });
+
+        it('should NOT invalidate when no trip moved', async () => {
+            inner.advanceStatuses.mockResolvedValue(ok({ started: 0, completed: 0 }));
+            await repo.advanceStatuses(new Date());
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 });
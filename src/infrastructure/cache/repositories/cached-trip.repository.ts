@@ -2,65 +2,136 @@
  * @module cached-trip.repository
  * Cache-aside decorator for {@link TripRepository}.
  * Wraps the inner PrismaTripRepository, caching reads and invalidating on writes.
+ * Every trip read is tagged with the trips it shows, and lists and searches with
+ * {@link TRIP_LIST_TAG} as well, so that a new trip only invalidates the lists and
+ * searches, and a change to one trip only the entries showing it.
  */
 
 import { inject, injectable } from 'tsyringe';
-import type { CreateTripData, TripEntity } from '../../../domain/entities/trip.entity.js';
-import type { TripFilters, TripRepository } from '../../../domain/repositories/trip.repository.js';
+import type { CreateOutboxMessageData } from '../../../domain/entities/outbox-message.entity.js';
+import type { CreateTripData, DueTripReminder, TripEntity, TripStatusAdvance, UpdateTripData } from '../../../domain/entities/trip.entity.js';
+import type { UserContact } from '../../../domain/entities/user.entity.js';
+import type { TripFilters, TripRepository, TripSearchResult } from '../../../domain/repositories/trip.repository.js';
+import type { CacheMetrics } from '../../../domain/services/cache-metrics.service.js';
 import type { CacheService } from '../../../domain/services/cache.service.js';
+import type { SeatsBelowBookingsError } from '../../../lib/errors/domain.errors.js';
 import type { RepositoryError } from '../../../lib/errors/repository.errors.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS, PRISMA_TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import type { CacheConfig } from '../cache.config.js';
-import { cacheAside, invalidatePatterns } from '../cache.utils.js';
+import { TRIP_LIST_TAG, tripInscriptionsTag, tripTag } from '../cache.tags.js';
+import { type CacheContext, type EntryTags, cacheAside, invalidateTags } from '../cache.utils.js';
+
+/** Tags of a page of trips: the lists, known from the key, and each trip shown. */
+const pageTags: EntryTags<{ data: TripEntity[] }> = {
+    fromKey: [TRIP_LIST_TAG],
+    fromValue: (page) => page.data.map((trip) => tripTag(trip.refId)),
+};
 
 @injectable()
 export class CachedTripRepository implements TripRepository {
-    private readonly logger: Logger;
+    private readonly context: CacheContext;
     private readonly domain = 'trip';
 
     constructor(
         @inject(PRISMA_TOKENS.TripRepository) private readonly inner: TripRepository,
-        @inject(TOKENS.CacheService) private readonly cache: CacheService,
+        @inject(TOKENS.CacheService) cache: CacheService,
         @inject(TOKENS.CacheConfig) private readonly config: CacheConfig,
+        @inject(TOKENS.CacheMetrics) metrics: CacheMetrics,
         @inject(TOKENS.Logger) logger: Logger,
     ) {
-        this.logger = logger.child({ repository: 'CachedTripRepository' });
+        this.context = { cache, config, domain: this.domain, metrics, logger: logger.child({ repository: 'CachedTripRepository' }) };
     }
 
     private key(method: string, args: string): string {
         return `${this.config.keyPrefix}${this.domain}:${method}:${args}`;
     }
 
+    /**
+     * Resolves the refId naming the tags of a trip written by UUID, through the cache.
+     * @returns The refId, or null when the trip cannot be read.
+     */
+    private async refIdOf(id: string): Promise<number | null> {
+        const found = await this.findById(id);
+        return found.success && found.value ? found.value.refId : null;
+    }
+
     async findAll(params?: { skip: number; take: number }): Promise<Result<{ data: TripEntity[]; total: number }, RepositoryError>> {
         if (!this.config.enabled) return this.inner.findAll(params);
-        return cacheAside(this.cache, this.key('findAll', JSON.stringify(params ?? {})), this.config.ttl.trip, () => this.inner.findAll(params), this.logger);
+        return cacheAside(this.context, this.key('findAll', JSON.stringify(params ?? {})), this.config.ttl.trip, () => this.inner.findAll(params), pageTags);
     }
 
     async findById(id: string): Promise<Result<TripEntity | null, RepositoryError>> {
         if (!this.config.enabled) return this.inner.findById(id);
-        return cacheAside(this.cache, this.key('findById', id), this.config.ttl.trip, () => this.inner.findById(id), this.logger);
+        return cacheAside(this.context, this.key('findById', id), this.config.ttl.trip, () => this.inner.findById(id), { fromValue: (trip) => (trip ? [tripTag(trip.refId)] : []) });
     }
 
-    async findByFilters(filters: TripFilters): Promise<Result<TripEntity[], RepositoryError>> {
-        if (!this.config.enabled) return this.inner.findByFilters(filters);
-        return cacheAside(this.cache, this.key('findByFilters', JSON.stringify(filters)), this.config.ttl.trip, () => this.inner.findByFilters(filters), this.logger);
+    async findByRefId(refId: number): Promise<Result<TripEntity | null, RepositoryError>> {
+        if (!this.config.enabled) return this.inner.findByRefId(refId);
+        return cacheAside(this.context, this.key('findByRefId', String(refId)), this.config.ttl.trip, () => this.inner.findByRefId(refId), { fromKey: [tripTag(refId)] });
+    }
+
+    // Not cached: read once per booking notification, and preferences must be current
+    async findDriverContact(id: string): Promise<Result<UserContact | null, RepositoryError>> {
+        return this.inner.findDriverContact(id);
+    }
+
+    async findByFilters(filters: TripFilters, params?: { skip: number; take: number }): Promise<Result<{ data: TripSearchResult[]; total: number }, RepositoryError>> {
+        if (!this.config.enabled) return this.inner.findByFilters(filters, params);
+        return cacheAside(this.context, this.key('findByFilters', JSON.stringify({ filters, params: params ?? {} })), this.config.ttl.trip, () => this.inner.findByFilters(filters, params), pageTags);
     }
 
     async create(data: CreateTripData): Promise<Result<TripEntity, RepositoryError>> {
         const result = await this.inner.create(data);
         if (this.config.enabled && result.success) {
-            await invalidatePatterns(this.cache, this.config.keyPrefix, ['trip:*'], this.logger);
+            // Cached trips are unchanged; only the lists and searches may now include the new one
+            await invalidateTags(this.context, [TRIP_LIST_TAG, tripTag(result.value.refId)]);
         }
         return result;
     }
 
-    async delete(id: string): Promise<Result<void, RepositoryError>> {
-        const result = await this.inner.delete(id);
-        if (this.config.enabled && result.success) {
-            await invalidatePatterns(this.cache, this.config.keyPrefix, ['trip:*', 'inscription:*'], this.logger);
+    async update(id: string, data: UpdateTripData): Promise<Result<boolean, RepositoryError | SeatsBelowBookingsError>> {
+        const result = await this.inner.update(id, data);
+        if (this.config.enabled && result.success && result.value) {
+            // The new date, seats or price may also bring the trip into other searches
+            const refId = await this.refIdOf(id);
+            await invalidateTags(this.context, [TRIP_LIST_TAG, refId === null ? this.domain : tripTag(refId)]);
+        }
+        return result;
+    }
+
+    // Not cached: read when materializing or editing a series, which must see the occurrences just written
+    async findBySeries(seriesRefId: number, fromDay: Date): Promise<Result<TripEntity[], RepositoryError>> {
+        return this.inner.findBySeries(seriesRefId, fromDay);
+    }
+
+    async cancel(id: string, reason: string | null, cancelledAt: Date, outbox?: CreateOutboxMessageData[]): Promise<Result<boolean, RepositoryError>> {
+        const result = await this.inner.cancel(id, reason, cancelledAt, outbox);
+        if (this.config.enabled && result.success && result.value) {
+            // The trip's inscriptions are cancelled along with it
+            const refId = await this.refIdOf(id);
+            await invalidateTags(this.context, refId === null ? [this.domain, 'inscription'] : [tripTag(refId), tripInscriptionsTag(refId)]);
         }
         return result;
     }
+
+    async advanceStatuses(now: Date): Promise<Result<TripStatusAdvance, RepositoryError>> {
+        const result = await this.inner.advanceStatuses(now);
+        if (this.config.enabled && result.success && result.value.started + result.value.completed > 0) {
+            // The trips moved are not known one by one
+            await invalidateTags(this.context, [this.domain]);
+        }
+        return result;
+    }
+
+    // Not cached: read by the reminder job, which must see the reminders just marked as sent
+    async findDueReminders(from: Date, until: Date, limit: number): Promise<Result<DueTripReminder[], RepositoryError>> {
+        return this.inner.findDueReminders(from, until, limit);
+    }
+
+    // No invalidation: the reminder bookkeeping is not part of any cached read
+    async markReminderSent(id: string, outbox: CreateOutboxMessageData[], sentAt: Date): Promise<Result<boolean, RepositoryError>> {
+        return this.inner.markReminderSent(id, outbox, sentAt);
+    }
 }
@@ -13,6 +13,8 @@ import {
     createMockUserRepository,
     createMockCacheService,
     createMockCacheConfig,
+    createMockCacheMetrics,
+    invalidatedTags,
     createMockLogger,
 } from '../../../../tests/setup.js';
 
@@ -28,6 +30,7 @@ describe('CachedUserRepository', () => {
         container.register(PRISMA_TOKENS.UserRepository, { useValue: inner });
         container.registerInstance(TOKENS.CacheService, cache);
         container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig());
+        container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
         container.registerInstance(TOKENS.Logger, createMockLogger());
         repo = container.resolve(CachedUserRepository);
     });
@@ -43,7 +46,7 @@ describe('CachedUserRepository', () => {
         });
 
         it('should return cached data on cache hit', async () => {
-            cache.get.mockResolvedValue({ __cached: true, data: [{ id: '1' }] });
+            cache.get.mockResolvedValue({ __cached: true, data: [{ id: '1' }], tags: { user: null }, staleAt: Number.MAX_SAFE_INTEGER });
             const result = await repo.findAll();
             expect(result.success).toBe(true);
             if (result.success) expect(result.value).toEqual([{ id: '1' }]);
@@ -55,6 +58,7 @@ describe('CachedUserRepository', () => {
             container.register(PRISMA_TOKENS.UserRepository, { useValue: inner });
             container.registerInstance(TOKENS.CacheService, cache);
             container.registerInstance(TOKENS.CacheConfig, createMockCacheConfig({ enabled: false }));
+            container.registerInstance(TOKENS.CacheMetrics, createMockCacheMetrics());
             container.registerInstance(TOKENS.Logger, createMockLogger());
             repo = container.resolve(CachedUserRepository);
 
@@ -67,14 +71,14 @@ describe('CachedUserRepository', () => {
     describe('create()', () => {
         it('should invalidate user cache on success', async () => {
             inner.create.mockResolvedValue(ok({ id: '1' }));
-            await repo.create({ firstName: 'J', lastName: 'D', phone: '06', authRefId: 1 });
-            expect(cache.deleteByPattern).toHaveBeenCalled();
+            await repo.create({ firstName: 'J', lastName: 'D', phone: '06', locale: 'fr', authRefId: 1 });
+            expect(invalidatedTags(cache)).toEqual(['user']);
         });
 
         it('should NOT invalidate cache on failure', async () => {
             inner.create.mockResolvedValue(err(new DatabaseError('fail')));
-            await repo.create({ firstName: 'J', lastName: 'D', phone: '06', authRefId: 1 });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            await repo.create({ firstName: 'J', lastName: 'D', phone: '06', locale: 'fr', authRefId: 1 });
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
@@ -82,7 +86,7 @@ describe('CachedUserRepository', () => {
         it('should NOT invalidate cache on failure', async () => {
             inner.update.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.update('1', { firstName: 'X' });
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
@@ -90,22 +94,22 @@ describe('CachedUserRepository', () => {
         it('should NOT invalidate cache on failure', async () => {
             inner.delete.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.delete('1');
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 
     describe('anonymize()', () => {
-        it('should cross-invalidate user, auth, driver, inscription on success', async () => {
+        it('should invalidate user caches on success', async () => {
             inner.anonymize.mockResolvedValue(ok(undefined));
             await repo.anonymize('1');
-            // 4 patterns: user:*, auth:*, driver:*, inscription:*
-            expect(cache.deleteByPattern).toHaveBeenCalledTimes(4);
+            expect(invalidatedTags(cache)).toHaveLength(1);
+            expect(invalidatedTags(cache)).toContain('user');
         });
 
         it('should NOT invalidate cache on failure', async () => {
             inner.anonymize.mockResolvedValue(err(new DatabaseError('fail')));
             await repo.anonymize('1');
-            expect(cache.deleteByPattern).not.toHaveBeenCalled();
+            expect(invalidatedTags(cache)).toEqual([]);
         });
     });
 });
@@ -0,0 +1,237 @@
+/**
+ * @file Unit tests for TieredCacheService.
+ * Uses mocked @upstash/redis to verify reads through L1 then L2, writes to
+ * both tiers, and the invalidation messages exchanged between nodes.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockCacheConfig, createMockLogger } from '../../../tests/setup.js';
+import type { CacheConfig } from './cache.config.js';
+
+const mockGet = vi.fn();
+const mockMget = vi.fn();
+const mockSet = vi.fn();
+const mockDel = vi.fn();
+const mockScan = vi.fn();
+const mockPing = vi.fn();
+const mockPublish = vi.fn();
+const mockExec = vi.fn();
+const mockMulti = vi.fn(() => {
+	const transaction = { incr: vi.fn(() => transaction), expire: vi.fn(() => transaction), exec: mockExec };
+	return transaction;
+});
+const subscriberHandlers = new Map<string, (payload: unknown) => void>();
+const mockSubscribe = vi.fn(() => ({
+	on: (type: string, handler: (payload: unknown) => void) => subscriberHandlers.set(type, handler),
+	unsubscribe: vi.fn(),
+}));
+
+vi.mock('@upstash/redis', () => ({
+	Redis: class MockRedis {
+		get = mockGet;
+		mget = mockMget;
+		set = mockSet;
+		del = mockDel;
+		scan = mockScan;
+		ping = mockPing;
+		publish = mockPublish;
+		multi = mockMulti;
+		subscribe = mockSubscribe;
+	},
+}));
+
+const { TieredCacheService } = await import('./tiered-cache.service.js');
+
+describe('TieredCacheService', () => {
+	let service: InstanceType<typeof TieredCacheService>;
+	let logger: ReturnType<typeof createMockLogger>;
+	const config = createMockCacheConfig({ backend: 'tiered', l1Ttl: 5 }) as CacheConfig;
+
+	/** Delivers a message of the invalidation channel, as another node would publish it. */
+	async function receive(message: unknown): Promise<void> {
+		subscriberHandlers.get('message')?.({ message });
+		await new Promise((resolve) => setImmediate(resolve));
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		subscriberHandlers.clear();
+		mockGet.mockResolvedValue(null);
+		mockMget.mockResolvedValue([]);
+		mockSet.mockResolvedValue('OK');
+		mockPublish.mockResolvedValue(1);
+		process.env.UPSTASH_REDIS_REST_URL = 'https://fake.upstash.io';
+		process.env.UPSTASH_REDIS_REST_TOKEN = 'fake-token';
+		logger = createMockLogger();
+		service = new TieredCacheService(config, logger);
+	});
+
+	it('should throw when the Upstash credentials are missing', () => {
+		delete process.env.UPSTASH_REDIS_REST_URL;
+
+		expect(() => new TieredCacheService(config, logger)).toThrow('UPSTASH_REDIS_REST_URL');
+	});
+
+	describe('get()', () => {
+		it('should read L2 on an L1 miss and keep the value in L1', async () => {
+			mockGet.mockResolvedValue({ foo: 'bar' });
+
+			expect(await service.get('key')).toEqual({ foo: 'bar' });
+			expect(await service.get('key')).toEqual({ foo: 'bar' });
+			expect(mockGet).toHaveBeenCalledOnce();
+		});
+
+		it('should return null when both tiers miss', async () => {
+			expect(await service.get('key')).toBeNull();
+		});
+
+		it('should subscribe to invalidations once it keeps an entry in L1', async () => {
+			mockGet.mockResolvedValue('value');
+
+			await service.get('a');
+			await service.get('b');
+
+			expect(mockSubscribe).toHaveBeenCalledOnce();
+			expect(mockSubscribe).toHaveBeenCalledWith('test:cache:invalidations');
+		});
+	});
+
+	describe('getMany()', () => {
+		it('should read from L2 only the keys missing from L1', async () => {
+			await service.set('a', 1, 60);
+			mockMget.mockResolvedValue([2, null]);
+
+			expect(await service.getMany(['a', 'b', 'c'])).toEqual([1, 2, null]);
+			expect(mockMget).toHaveBeenCalledWith('b', 'c');
+		});
+
+		it('should not read L2 when L1 holds every key', async () => {
+			await service.set('a', 1, 60);
+
+			expect(await service.getMany(['a'])).toEqual([1]);
+			expect(mockMget).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('set()', () => {
+		it('should write both tiers with the TTL without announcing a filled entry', async () => {
+			await service.set('key', 'value', 300);
+
+			expect(mockSet).toHaveBeenCalledWith('key', 'value', { ex: 300 });
+			expect(mockPublish).not.toHaveBeenCalled();
+			expect(await service.get('key')).toBe('value');
+			expect(mockGet).not.toHaveBeenCalled();
+		});
+
+		it('should announce a tag-version bump to the other nodes', async () => {
+			await service.set('test:tag:city', 'v2', 300);
+
+			expect(mockSet).toHaveBeenCalledWith('test:tag:city', 'v2', { ex: 300 });
+			expect(mockPublish).toHaveBeenCalledWith('test:cache:invalidations', { origin: expect.any(String), keys: ['test:tag:city'] });
+		});
+
+		it('should keep the entry in L1 no longer than the L1 TTL', async () => {
+			vi.useFakeTimers();
+			try {
+				await service.set('key', 'value', 300);
+				vi.advanceTimersByTime(5_000);
+
+				await service.get('key');
+
+				expect(mockGet).toHaveBeenCalledWith('key');
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		it('should only log when the announcement fails', async () => {
+			mockPublish.mockRejectedValue(new Error('Connection refused'));
+
+			await service.set('test:tag:city', 'v2', 300);
+
+			expect(logger.warn).toHaveBeenCalledWith('Cache invalidation announcement failed', expect.any(Object));
+		});
+
+		it('should propagate L2 errors', async () => {
+			mockSet.mockRejectedValue(new Error('Connection refused'));
+
+			await expect(service.set('test:tag:city', 'v2', 300)).rejects.toThrow('Connection refused');
+			expect(mockPublish).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('increment()', () => {
+		it('should count in L2 only, so every node shares the counter', async () => {
+			mockExec.mockResolvedValue([3, 0]);
+
+			expect(await service.increment('counter', 60)).toBe(3);
+			expect(await service.increment('counter', 60)).toBe(3);
+			expect(mockExec).toHaveBeenCalledTimes(2);
+			expect(mockPublish).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('delete()', () => {
+		it('should delete the key from both tiers and announce it', async () => {
+			await service.set('key', 'value', 300);
+
+			await service.delete('key');
+
+			expect(mockDel).toHaveBeenCalledWith('key');
+			expect(mockPublish).toHaveBeenLastCalledWith('test:cache:invalidations', { origin: expect.any(String), keys: ['key'] });
+			expect(await service.get('key')).toBeNull();
+		});
+	});
+
+	describe('deleteByPattern()', () => {
+		it('should delete the matching keys from both tiers and announce the pattern', async () => {
+			mockScan.mockResolvedValue(['0', []]);
+			await service.set('city:1', 1, 300);
+
+			await service.deleteByPattern('city:*');
+
+			expect(mockScan).toHaveBeenCalledWith('0', { match: 'city:*', count: 100 });
+			expect(mockPublish).toHaveBeenLastCalledWith('test:cache:invalidations', { origin: expect.any(String), pattern: 'city:*' });
+			expect(await service.get('city:1')).toBeNull();
+		});
+	});
+
+	describe('invalidation messages', () => {
+		beforeEach(async () => {
+			await service.set('city:1', 'cached', 300);
+			await service.set('city:2', 'cached', 300);
+			mockGet.mockResolvedValue('fresh');
+		});
+
+		it('should drop the keys written by another node from L1', async () => {
+			await receive({ origin: 'other-node', keys: ['city:1'] });
+
+			expect(await service.get('city:1')).toBe('fresh');
+			expect(await service.get('city:2')).toBe('cached');
+		});
+
+		it('should drop the keys matching a pattern deleted by another node from L1', async () => {
+			await receive({ origin: 'other-node', pattern: 'city:*' });
+
+			expect(await service.get('city:1')).toBe('fresh');
+			expect(await service.get('city:2')).toBe('fresh');
+		});
+
+		it('should skip its own messages', async () => {
+			await service.delete('city:3');
+			const [, ownMessage] = mockPublish.mock.calls[0];
+
+			await receive({ ...ownMessage, keys: ['city:1'] });
+
+			expect(await service.get('city:1')).toBe('cached');
+		});
+	});
+
+	describe('isHealthy()', () => {
+		it('should report the health of L2', async () => {
+			mockPing.mockResolvedValue('PONG');
+
+			expect(await service.isHealthy()).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,176 @@
+/**
+ * @module tiered-cache.service
+ * Two-tier implementation of the {@link CacheService} domain interface: an
+ * in-process LRU (L1) in front of Upstash Redis (L2). Hot entries are served
+ * without a round trip, while every node still shares the L2 entries.
+ * Selected when the cache backend is `tiered`; configured through
+ * UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { Redis } from '@upstash/redis';
+import { inject, injectable } from 'tsyringe';
+import type { CacheService } from '../../domain/services/cache.service.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import type { CacheConfig } from './cache.config.js';
+import { isTagKey } from './cache.utils.js';
+import { InMemoryCacheService } from './in-memory-cache.service.js';
+import { UpstashCacheService } from './upstash-cache.service.js';
+
+/**
+ * Message telling the other nodes to drop L1 entries: the tag keys bumped or
+ * the keys deleted, or the pattern deleted, and the node that sent it.
+ */
+type InvalidationMessage = { origin: string; keys: string[] } | { origin: string; pattern: string };
+
+/** The node's subscription to the invalidation channel. */
+type InvalidationSubscriber = ReturnType<typeof Redis.prototype.subscribe<InvalidationMessage>>;
+
+/**
+ * Two-tier implementation of {@link CacheService}.
+ * Reads try L1, then L2, and copy L2 hits into L1; counters live in L2 only.
+ * Writes and deletions go to both tiers. Deletions and tag-version bumps are then
+ * announced on a Redis pub/sub channel so that the other nodes drop the key from
+ * their L1. Entries filled from the source are not announced: the copies other
+ * nodes hold are found outdated through the tag versions they depend on.
+ * L1 entries live at most the L1 TTL of the
+ * {@link CacheConfig}, which bounds how long a node serves a stale entry when
+ * an announcement is lost.
+ * The node subscribes to the channel once it first keeps an entry in L1.
+ * Injected via tsyringe as a singleton, so every resolution shares the same L1.
+ */
+@injectable()
+export class TieredCacheService implements CacheService {
+	private readonly l1: InMemoryCacheService;
+	private readonly l2: UpstashCacheService;
+	private readonly redis: Redis;
+	private readonly logger: Logger;
+	private readonly nodeId = randomUUID();
+	private subscriber: InvalidationSubscriber | null = null;
+
+	constructor(
+		@inject(TOKENS.CacheConfig)
+		private readonly config: CacheConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ service: 'CacheService', backend: 'tiered' });
+		const url = process.env.UPSTASH_REDIS_REST_URL;
+		const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+		if (!url || !token) {
+			throw new Error('UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN must be set');
+		}
+		this.redis = new Redis({ url, token });
+		this.l1 = new InMemoryCacheService(config, logger);
+		this.l2 = new UpstashCacheService(logger);
+	}
+
+	async get<T>(key: string): Promise<T | null> {
+		const local = await this.l1.get<T>(key);
+		if (local != null) {
+			return local;
+		}
+		const value = await this.l2.get<T>(key);
+		if (value != null) {
+			await this.keepLocally(key, value, this.config.l1Ttl);
+		}
+		return value;
+	}
+
+	async getMany<T>(keys: string[]): Promise<(T | null)[]> {
+		const values = await this.l1.getMany<T>(keys);
+		const missing = keys.filter((_, index) => values[index] == null);
+		if (missing.length === 0) {
+			return values;
+		}
+		const remote = await this.l2.getMany<T>(missing);
+		const found = new Map(missing.map((key, index) => [key, remote[index]]));
+		for (const [key, value] of found) {
+			if (value != null) {
+				await this.keepLocally(key, value, this.config.l1Ttl);
+			}
+		}
+		return keys.map((key, index) => values[index] ?? found.get(key) ?? null);
+	}
+
+	async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+		await this.l2.set(key, value, ttlSeconds);
+		await this.keepLocally(key, value, Math.min(ttlSeconds, this.config.l1Ttl));
+		if (isTagKey(this.config, key)) {
+			await this.announce({ origin: this.nodeId, keys: [key] });
+		}
+	}
+
+	/** Counters are shared by every node, so they are kept in L2 only. */
+	async increment(key: string, ttlSeconds: number): Promise<number> {
+		return this.l2.increment(key, ttlSeconds);
+	}
+
+	async delete(key: string): Promise<void> {
+		await this.l2.delete(key);
+		await this.l1.delete(key);
+		await this.announce({ origin: this.nodeId, keys: [key] });
+	}
+
+	async deleteByPattern(pattern: string): Promise<void> {
+		await this.l2.deleteByPattern(pattern);
+		await this.l1.deleteByPattern(pattern);
+		await this.announce({ origin: this.nodeId, pattern });
+	}
+
+	async isHealthy(): Promise<boolean> {
+		return this.l2.isHealthy();
+	}
+
+	/** Keeps an entry in L1, subscribing first to the invalidations that would make it stale. */
+	private async keepLocally<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+		this.ensureSubscribed();
+		await this.l1.set(key, value, ttlSeconds);
+	}
+
+	/**
+	 * Tells the other nodes to drop L1 entries. The write already reached L2, so a
+	 * failure is only logged; the other nodes catch up within the L1 TTL.
+	 */
+	private async announce(message: InvalidationMessage): Promise<void> {
+		try {
+			await this.redis.publish(this.channel(), message);
+		} catch (error) {
+			this.logger.warn('Cache invalidation announcement failed', { error: String(error) });
+		}
+	}
+
+	/** Opens the node's subscription to the invalidation channel, unless it is already open. */
+	private ensureSubscribed(): void {
+		if (this.subscriber) {
+			return;
+		}
+		const subscriber = this.redis.subscribe<InvalidationMessage>(this.channel());
+		subscriber.on('message', ({ message }) => {
+			void this.dropLocally(message);
+		});
+		subscriber.on('error', (error) => {
+			this.logger.error('Cache invalidation subscription failed', error, { channel: this.channel() });
+		});
+		this.subscriber = subscriber;
+	}
+
+	/** Drops the L1 entries named by another node's message; the node's own messages are skipped. */
+	private async dropLocally(message: InvalidationMessage): Promise<void> {
+		if (message.origin === this.nodeId) {
+			return;
+		}
+		if ('pattern' in message) {
+			await this.l1.deleteByPattern(message.pattern);
+			return;
+		}
+		for (const key of message.keys) {
+			await this.l1.delete(key);
+		}
+	}
+
+	/** Name of the pub/sub channel invalidations are announced on. */
+	private channel(): string {
+		return `${this.config.keyPrefix}cache:invalidations`;
+	}
+}
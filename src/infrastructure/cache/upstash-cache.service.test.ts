@@ -1,18 +1,28 @@
 /**
  * @file Unit tests for UpstashCacheService.
- * Uses mocked @upstash/redis to verify get, set, delete, deleteByPattern, isHealthy.
+ * Uses mocked @upstash/redis to verify get, getMany, set, increment, delete, deleteByPattern, isHealthy.
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { createMockLogger } from '../../../tests/setup.js';
 
 const mockGet = vi.fn();
+const mockMget = vi.fn();
 const mockSet = vi.fn();
 const mockDel = vi.fn();
 const mockScan = vi.fn();
 const mockPing = vi.fn();
 const mockPipelineDel = vi.fn();
 const mockPipelineExec = vi.fn();
+const mockIncr = vi.fn();
+const mockExpire = vi.fn();
+const mockExec = vi.fn();
+const mockMulti = vi.fn(() => {
+    const transaction = { incr: mockIncr, expire: mockExpire, exec: mockExec };
+    mockIncr.mockReturnValue(transaction);
+    mockExpire.mockReturnValue(transaction);
+    return transaction;
+});
 const mockPipeline = vi.fn(() => ({
     del: mockPipelineDel,
     exec: mockPipelineExec,
@@ -21,11 +31,13 @@ const mockPipeline = vi.fn(() => ({
 vi.mock('@upstash/redis', () => ({
     Redis: class MockRedis {
         get = mockGet;
+        mget = mockMget;
         set = mockSet;
         del = mockDel;
         scan = mockScan;
         ping = mockPing;
         pipeline = mockPipeline;
+        multi = mockMulti;
     },
 }));
 
@@ -69,6 +81,24 @@ describe('UpstashCacheService', () => {
         });
     });
 
+    describe('getMany()', () => {
+        it('should read all keys in one call, misses as null', async () => {
+            mockMget.mockResolvedValue(['v1', null]);
+
+            const result = await service.getMany(['a', 'b']);
+
+            expect(result).toEqual(['v1', null]);
+            expect(mockMget).toHaveBeenCalledWith('a', 'b');
+        });
+
+        it('should not call redis without keys', async () => {
+            const result = await service.getMany([]);
+
+            expect(result).toEqual([]);
+            expect(mockMget).not.toHaveBeenCalled();
+        });
+    });
+
     describe('set()', () => {
         it('should set with EX TTL', async () => {
             await service.set('key', { data: 1 }, 600);
@@ -77,6 +107,24 @@ describe('UpstashCacheService', () => {
         });
     });
 
+    describe('increment()', () => {
+        it('should increment the counter and set the expiry of a new one in one transaction', async () => {
+            mockExec.mockResolvedValue([1, 1]);
+
+            const result = await service.increment('counter', 60);
+
+            expect(result).toBe(1);
+            expect(mockIncr).toHaveBeenCalledWith('counter');
+            expect(mockExpire).toHaveBeenCalledWith('counter', 60, 'NX');
+        });
+
+        it('should propagate Redis errors', async () => {
+            mockExec.mockRejectedValue(new Error('Connection refused'));
+
+            await expect(service.increment('counter', 60)).rejects.toThrow('Connection refused');
+        });
+    });
+
     describe('delete()', () => {
         it('should delete the key', async () => {
             await service.delete('key');
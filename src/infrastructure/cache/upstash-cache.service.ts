@@ -39,11 +39,27 @@ export class UpstashCacheService implements CacheService {
 		return value ?? null;
 	}
 
+	async getMany<T>(keys: string[]): Promise<(T | null)[]> {
+		if (keys.length === 0) {
+			return [];
+		}
+		const values = await this.redis.mget<(T | null)[]>(...keys);
+		this.logger.debug('Cache getMany', { keys: keys.length });
+		return values.map((value) => value ?? null);
+	}
+
 	async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
 		await this.redis.set(key, value, { ex: ttlSeconds });
 		this.logger.debug('Cache set', { key, ttlSeconds });
 	}
 
+	async increment(key: string, ttlSeconds: number): Promise<number> {
+		// NX only sets the expiry of a new counter, in the same transaction as its creation
+		const [count] = await this.redis.multi().incr(key).expire(key, ttlSeconds, 'NX').exec<[number, 0 | 1]>();
+		this.logger.debug('Cache increment', { key, count });
+		return count;
+	}
+
 	async delete(key: string): Promise<void> {
 		await this.redis.del(key);
 		this.logger.debug('Cache delete', { key });
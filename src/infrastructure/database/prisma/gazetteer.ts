@@ -0,0 +1,116 @@
+/**
+ * @module gazetteer
+ * Standalone script that imports city coordinates from an offline gazetteer
+ * CSV file, so geographic trip search works without any external geocoding
+ * service. Cities already in the database (matched case-insensitively by
+ * name) get their latitude/longitude set, and a missing zip code filled in;
+ * gazetteer cities that do not exist yet are inserted. Running it again is
+ * safe: rows are updated in place and never duplicated.
+ *
+ * CSV format (semicolon-delimited, with a header row):
+ *   city_name;zipcode;latitude;longitude
+ * Defaults to the bundled gazetteer.csv next to this script; pass another
+ * path (e.g. a larger GeoNames export converted to this format) to import it.
+ *
+ * Usage: pnpm db:gazetteer [path/to/gazetteer.csv]
+ */
+
+import "dotenv/config";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { neonConfig } from "@neondatabase/serverless";
+import { PrismaNeon } from "@prisma/adapter-neon";
+import ws from "ws";
+import { PrismaClient } from "../generated/prisma/client.js";
+
+// Read DATABASE_URL from environment (loaded by dotenv)
+const databaseUrl = process.env.DATABASE_URL;
+if (!databaseUrl) {
+	throw new Error('DATABASE_URL environment variable is required');
+}
+
+// Configure Neon serverless adapter with WebSocket support
+neonConfig.webSocketConstructor = ws;
+const adapter = new PrismaNeon({ connectionString: databaseUrl });
+const prisma = new PrismaClient({ adapter });
+
+type GazetteerEntry = { name: string; zipcode: string; latitude: number; longitude: number };
+
+/**
+ * Parses the gazetteer CSV, skipping the header, malformed rows and
+ * out-of-range coordinates. Later duplicates of a city name are ignored.
+ */
+function parseGazetteer(raw: string): GazetteerEntry[] {
+  const entries = new Map<string, GazetteerEntry>();
+  const lines = raw.split("\n").filter((l) => l.trim() !== "");
+
+  for (let i = 1; i < lines.length; i++) {
+    const [name, zipcode, lat, lng] = lines[i].replace(/\r/, "").split(";").map((c) => c.trim());
+    const latitude = Number(lat);
+    const longitude = Number(lng);
+    const valid = name && Number.isFinite(latitude) && Number.isFinite(longitude)
+      && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+    if (!valid) {
+      console.warn(`  Skipping line ${i + 1}: ${lines[i]}`);
+      continue;
+    }
+    if (!entries.has(name.toLowerCase())) {
+      entries.set(name.toLowerCase(), { name, zipcode: zipcode ?? "", latitude, longitude });
+    }
+  }
+  return Array.from(entries.values());
+}
+
+/** Renders entries as a SQL VALUES list of (name, zipcode, latitude, longitude). */
+function toValues(batch: GazetteerEntry[]): string {
+  const quote = (s: string) => `'${s.replace(/'/g, "''")}'`;
+  return batch
+    .map((e) => `(${quote(e.name)}, ${quote(e.zipcode)}, ${e.latitude}::double precision, ${e.longitude}::double precision)`)
+    .join(",\n");
+}
+
+/**
+ * Imports the gazetteer in batches:
+ * 1. Set coordinates on existing cities with the same name (case-insensitive).
+ * 2. Insert the gazetteer cities that are not in the database yet.
+ */
+async function main() {
+  const csvPath = resolve(process.cwd(), process.argv[2] ?? "src/infrastructure/database/prisma/gazetteer.csv");
+  const entries = parseGazetteer(readFileSync(csvPath, "utf-8"));
+  console.log(`Found ${entries.length} gazetteer cities in ${csvPath}`);
+
+  const BATCH = 500;
+  let updated = 0;
+  let inserted = 0;
+  for (let i = 0; i < entries.length; i += BATCH) {
+    const values = toValues(entries.slice(i, i + BATCH));
+
+    updated += await prisma.$executeRawUnsafe(`
+      UPDATE cities AS c
+      SET latitude = v.latitude,
+          longitude = v.longitude,
+          zipcode = CASE WHEN c.zipcode = '' THEN v.zipcode ELSE c.zipcode END
+      FROM (VALUES ${values}) AS v(name, zipcode, latitude, longitude)
+      WHERE lower(c.city_name) = lower(v.name)
+    `);
+
+    // gen_random_uuid() generates UUIDs at the database level; NOT EXISTS keeps the import idempotent
+    inserted += await prisma.$executeRawUnsafe(`
+      INSERT INTO cities (id, city_name, zipcode, latitude, longitude)
+      SELECT gen_random_uuid(), v.name, v.zipcode, v.latitude, v.longitude
+      FROM (VALUES ${values}) AS v(name, zipcode, latitude, longitude)
+      WHERE NOT EXISTS (SELECT 1 FROM cities c WHERE lower(c.city_name) = lower(v.name))
+    `);
+    console.log(`  Cities: ${Math.min(i + BATCH, entries.length)}/${entries.length}`);
+  }
+
+  console.log(`✅ Gazetteer imported (${updated} cities located, ${inserted} cities added)`);
+}
+
+main()
+  .then(() => prisma.$disconnect())
+  .catch((e) => {
+    console.error(e);
+    prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "price_per_seat" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "inscriptions" ADD COLUMN     "price_per_seat" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill existing trips with the suggested cost-sharing price (see suggestPricePerSeat):
+-- 6 cents per km, rounded to the nearest 50 cents, and never below 50 cents
+UPDATE "trips" SET "price_per_seat" = GREATEST(ROUND("kms" * 6 / 50.0) * 50, 50)::INTEGER;
+
+-- Existing bookings snapshot the price of their trip
+UPDATE "inscriptions" SET "price_per_seat" = "trips"."price_per_seat"
+FROM "trips"
+WHERE "trips"."ref_id" = "inscriptions"."trip_ref_id";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "inscriptions" ADD COLUMN     "cancellation_reason" TEXT,
+ADD COLUMN     "cancelled_at" TIMESTAMP(3);
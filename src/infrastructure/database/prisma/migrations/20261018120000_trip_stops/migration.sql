@@ -0,0 +1,19 @@
+-- AlterEnum
+ALTER TYPE "CityTripType" ADD VALUE 'STOP';
+
+-- AlterTable
+ALTER TABLE "city_trips" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: existing trips only have a departure (position 0) and an arrival (position 1)
+UPDATE "city_trips" SET "position" = 1 WHERE "type" = 'ARRIVAL';
+
+ALTER TABLE "city_trips" ALTER COLUMN "position" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "inscriptions" ADD COLUMN     "pickup_position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "dropoff_position" INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE "inscriptions" ALTER COLUMN "dropoff_position" DROP DEFAULT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "city_trips_trip_ref_id_position_key" ON "city_trips"("trip_ref_id", "position");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "cities" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "cities_latitude_longitude_idx" ON "cities"("latitude", "longitude");
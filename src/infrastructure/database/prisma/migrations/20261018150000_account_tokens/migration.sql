@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "SessionRevocationReason" ADD VALUE 'PASSWORD_RESET';
+
+-- CreateEnum
+CREATE TYPE "AccountTokenPurpose" AS ENUM ('PASSWORD_RESET', 'EMAIL_VERIFICATION');
+
+-- AlterTable
+ALTER TABLE "auths" ADD COLUMN "email_verified_at" TIMESTAMP(3);
+
+-- Accounts created before email verification existed are treated as verified
+UPDATE "auths" SET "email_verified_at" = "created_at" WHERE "anonymized_at" IS NULL;
+
+-- CreateTable
+CREATE TABLE "account_tokens" (
+    "id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "auth_ref_id" INTEGER NOT NULL,
+    "purpose" "AccountTokenPurpose" NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_tokens_token_hash_key" ON "account_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "account_tokens_auth_ref_id_purpose_idx" ON "account_tokens"("auth_ref_id", "purpose");
+
+-- AddForeignKey
+ALTER TABLE "account_tokens" ADD CONSTRAINT "account_tokens_auth_ref_id_fkey" FOREIGN KEY ("auth_ref_id") REFERENCES "auths"("ref_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "SessionRevocationReason" ADD VALUE 'PASSWORD_CHANGE';
+ALTER TYPE "SessionRevocationReason" ADD VALUE 'EMAIL_CHANGE';
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "OutboxMessageType" AS ENUM ('EMAIL');
+
+-- CreateEnum
+CREATE TYPE "OutboxMessageStatus" AS ENUM ('PENDING', 'PROCESSING', 'SENT', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "outbox_messages" (
+    "id" TEXT NOT NULL,
+    "type" "OutboxMessageType" NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "OutboxMessageStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processed_at" TIMESTAMP(3),
+
+    CONSTRAINT "outbox_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbox_messages_status_next_attempt_at_idx" ON "outbox_messages"("status", "next_attempt_at");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "notify_booking_updates" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "notify_trip_reminders" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "reminder_sent_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "trips_date_trip_idx" ON "trips"("date_trip");
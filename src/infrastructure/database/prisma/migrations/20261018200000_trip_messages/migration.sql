@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "trip_messages" (
+    "id" TEXT NOT NULL,
+    "trip_ref_id" INTEGER NOT NULL,
+    "author_ref_id" INTEGER NOT NULL,
+    "body" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "hidden_at" TIMESTAMP(3),
+
+    CONSTRAINT "trip_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "trip_message_reads" (
+    "user_ref_id" INTEGER NOT NULL,
+    "trip_ref_id" INTEGER NOT NULL,
+    "last_read_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trip_message_reads_pkey" PRIMARY KEY ("user_ref_id","trip_ref_id")
+);
+
+-- CreateIndex
+CREATE INDEX "trip_messages_trip_ref_id_created_at_idx" ON "trip_messages"("trip_ref_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "trip_messages" ADD CONSTRAINT "trip_messages_trip_ref_id_fkey" FOREIGN KEY ("trip_ref_id") REFERENCES "trips"("ref_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_messages" ADD CONSTRAINT "trip_messages_author_ref_id_fkey" FOREIGN KEY ("author_ref_id") REFERENCES "users"("ref_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_message_reads" ADD CONSTRAINT "trip_message_reads_user_ref_id_fkey" FOREIGN KEY ("user_ref_id") REFERENCES "users"("ref_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_message_reads" ADD CONSTRAINT "trip_message_reads_trip_ref_id_fkey" FOREIGN KEY ("trip_ref_id") REFERENCES "trips"("ref_id") ON DELETE CASCADE ON UPDATE CASCADE;
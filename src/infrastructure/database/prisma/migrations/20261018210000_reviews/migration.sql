@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "ReviewDirection" AS ENUM ('PASSENGER_TO_DRIVER', 'DRIVER_TO_PASSENGER');
+
+-- CreateTable
+CREATE TABLE "reviews" (
+    "id" TEXT NOT NULL,
+    "trip_ref_id" INTEGER NOT NULL,
+    "author_ref_id" INTEGER NOT NULL,
+    "subject_ref_id" INTEGER NOT NULL,
+    "direction" "ReviewDirection" NOT NULL,
+    "score" INTEGER NOT NULL,
+    "comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reviews_trip_ref_id_author_ref_id_subject_ref_id_key" ON "reviews"("trip_ref_id", "author_ref_id", "subject_ref_id");
+
+-- CreateIndex
+CREATE INDEX "reviews_subject_ref_id_direction_created_at_idx" ON "reviews"("subject_ref_id", "direction", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_trip_ref_id_fkey" FOREIGN KEY ("trip_ref_id") REFERENCES "trips"("ref_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_author_ref_id_fkey" FOREIGN KEY ("author_ref_id") REFERENCES "users"("ref_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_subject_ref_id_fkey" FOREIGN KEY ("subject_ref_id") REFERENCES "users"("ref_id") ON DELETE CASCADE ON UPDATE CASCADE;
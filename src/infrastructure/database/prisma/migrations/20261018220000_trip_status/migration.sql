@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "TripStatus" AS ENUM ('SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "status" "TripStatus" NOT NULL DEFAULT 'SCHEDULED',
+ADD COLUMN     "arrival_at" TIMESTAMP(3),
+ADD COLUMN     "cancelled_at" TIMESTAMP(3),
+ADD COLUMN     "cancellation_reason" TEXT;
+
+-- Backfill: estimated arrival at 80 km/h, then the status of trips already under way or over
+UPDATE "trips" SET "arrival_at" = "date_trip" + make_interval(mins => CEIL("kms" * 60.0 / 80)::int);
+UPDATE "trips" SET "status" = 'COMPLETED' WHERE "arrival_at" <= CURRENT_TIMESTAMP;
+UPDATE "trips" SET "status" = 'IN_PROGRESS' WHERE "date_trip" <= CURRENT_TIMESTAMP AND "arrival_at" > CURRENT_TIMESTAMP;
+
+ALTER TABLE "trips" ALTER COLUMN "arrival_at" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "trips_status_date_trip_idx" ON "trips"("status", "date_trip");
+
+-- CreateIndex
+CREATE INDEX "trips_status_arrival_at_idx" ON "trips"("status", "arrival_at");
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "TripSeriesStatus" AS ENUM ('ACTIVE', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "series_ref_id" INTEGER,
+ADD COLUMN     "occurrence_date" TIMESTAMP(3),
+ADD COLUMN     "series_detached" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "trip_series" (
+    "id" TEXT NOT NULL,
+    "ref_id" SERIAL NOT NULL,
+    "days_of_week" INTEGER[],
+    "departure_time" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3),
+    "exception_dates" TIMESTAMP(3)[],
+    "kms" INTEGER NOT NULL,
+    "seats" INTEGER NOT NULL,
+    "price_per_seat" INTEGER NOT NULL,
+    "requires_approval" BOOLEAN NOT NULL DEFAULT false,
+    "city_ref_ids" INTEGER[],
+    "status" "TripSeriesStatus" NOT NULL DEFAULT 'ACTIVE',
+    "cancelled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "driver_ref_id" INTEGER NOT NULL,
+    "car_ref_id" INTEGER NOT NULL,
+
+    CONSTRAINT "trip_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trip_series_ref_id_key" ON "trip_series"("ref_id");
+
+-- CreateIndex
+CREATE INDEX "trip_series_driver_ref_id_idx" ON "trip_series"("driver_ref_id");
+
+-- CreateIndex
+CREATE INDEX "trip_series_status_end_date_idx" ON "trip_series"("status", "end_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trips_series_ref_id_occurrence_date_key" ON "trips"("series_ref_id", "occurrence_date");
+
+-- AddForeignKey
+ALTER TABLE "trips" ADD CONSTRAINT "trips_series_ref_id_fkey" FOREIGN KEY ("series_ref_id") REFERENCES "trip_series"("ref_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_series" ADD CONSTRAINT "trip_series_driver_ref_id_fkey" FOREIGN KEY ("driver_ref_id") REFERENCES "drivers"("ref_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_series" ADD CONSTRAINT "trip_series_car_ref_id_fkey" FOREIGN KEY ("car_ref_id") REFERENCES "cars"("ref_id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "auths" ADD COLUMN     "failed_login_attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "locked_until" TIMESTAMP(3);
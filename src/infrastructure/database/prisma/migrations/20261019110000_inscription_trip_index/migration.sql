@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "inscriptions_trip_ref_id_status_idx" ON "inscriptions"("trip_ref_id", "status");
@@ -0,0 +1,55 @@
+/**
+ * @module notification-details
+ * Prisma selections and mappers shared by the repositories that load what
+ * notifications are built from: how to reach a user, and the summary of a trip.
+ */
+
+import type { TripSummary } from '../../../domain/entities/trip.entity.js';
+import type { Locale, UserContact } from '../../../domain/entities/user.entity.js';
+
+/** Selects the contact of a user and their notification preferences; the email is read through the auth record. */
+export const USER_CONTACT_SELECT = {
+	id: true,
+	firstName: true,
+	locale: true,
+	notifyBookingUpdates: true,
+	notifyTripReminders: true,
+	auth: { select: { email: true } },
+} as const;
+
+/** Selects what a {@link TripSummary} is built from, with the stops in route order. */
+export const TRIP_SUMMARY_SELECT = {
+	id: true,
+	dateTrip: true,
+	cities: { select: { city: { select: { cityName: true } } }, orderBy: { position: 'asc' } },
+} as const;
+
+type UserContactRow = {
+	id: string;
+	firstName: string | null;
+	locale: Locale;
+	notifyBookingUpdates: boolean;
+	notifyTripReminders: boolean;
+	auth: { email: string };
+};
+
+type TripSummaryRow = {
+	id: string;
+	dateTrip: Date;
+	cities: { city: { cityName: string } }[];
+};
+
+/** Maps a user selected with {@link USER_CONTACT_SELECT}. */
+export function toUserContact({ auth, ...user }: UserContactRow): UserContact {
+	return { ...user, email: auth.email };
+}
+
+/** Maps a trip selected with {@link TRIP_SUMMARY_SELECT}: the first stop is the departure, the last the arrival. */
+export function toTripSummary(trip: TripSummaryRow): TripSummary {
+	return {
+		id: trip.id,
+		dateTrip: trip.dateTrip,
+		departureCity: trip.cities[0]?.city.cityName ?? '',
+		arrivalCity: trip.cities.at(-1)?.city.cityName ?? '',
+	};
+}
@@ -0,0 +1,149 @@
+/**
+ * @file Unit tests for the PrismaAccountTokenRepository.
+ *
+ * Tests token issuance (superseding earlier unused tokens and recording the
+ * outbox message carrying its link), lookup by hash and
+ * the conditional single-use consumption. Each method is tested for success
+ * and DB error propagation using a mock PrismaClient.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { PrismaAccountTokenRepository } from './prisma-account-token.repository.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { createMockLogger } from '../../../../tests/setup.js';
+
+function createMockPrisma() {
+    const txAccountToken = { updateMany: vi.fn(), create: vi.fn() };
+    const txOutboxMessage = { createMany: vi.fn() };
+    return {
+        accountToken: {
+            findUnique: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        $transaction: vi.fn((fn: (tx: unknown) => Promise<unknown>) => fn({ accountToken: txAccountToken, outboxMessage: txOutboxMessage })),
+        _txAccountToken: txAccountToken,
+        _txOutboxMessage: txOutboxMessage,
+    };
+}
+
+const expiresAt = new Date('2030-01-01');
+const data = { authRefId: 1, purpose: 'PASSWORD_RESET' as const, tokenHash: 'hash-1', expiresAt };
+const token = { id: 'token-1', ...data, usedAt: null, createdAt: new Date() };
+
+describe('PrismaAccountTokenRepository', () => {
+    let repository: PrismaAccountTokenRepository;
+    let mockPrisma: ReturnType<typeof createMockPrisma>;
+
+    beforeEach(() => {
+        container.clearInstances();
+        mockPrisma = createMockPrisma();
+        container.register(TOKENS.PrismaClient, { useValue: mockPrisma });
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        repository = container.resolve(PrismaAccountTokenRepository);
+    });
+
+    describe('create()', () => {
+        it('should supersede unused tokens of the same purpose and create the new one', async () => {
+            mockPrisma._txAccountToken.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma._txAccountToken.create.mockResolvedValue(token);
+
+            const result = await repository.create(data);
+
+            expect(result).toEqual({ success: true, value: token });
+            expect(mockPrisma._txAccountToken.updateMany).toHaveBeenCalledWith({
+                where: { authRefId: 1, purpose: 'PASSWORD_RESET', usedAt: null },
+                data: { usedAt: expect.any(Date) },
+            });
+            expect(mockPrisma._txAccountToken.create).toHaveBeenCalledWith({ data });
+            expect(mockPrisma._txOutboxMessage.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should record the outbox messages in the same transaction', async () => {
+            mockPrisma._txAccountToken.updateMany.mockResolvedValue({ count: 0 });
+            mockPrisma._txAccountToken.create.mockResolvedValue(token);
+            const payload = {
+                to: 'user@example.com',
+                locale: 'fr' as const,
+                message: { template: 'password-reset' as const, variables: { resetUrl: 'https://app.test/reset-password?token=raw', expiresInMinutes: 60 } },
+            };
+
+            const result = await repository.create(data, [{ type: 'EMAIL', payload }]);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma._txOutboxMessage.createMany).toHaveBeenCalledWith({ data: [{ type: 'EMAIL', payload }] });
+        });
+
+        it('should return err(DatabaseError) when the transaction fails', async () => {
+            mockPrisma.$transaction.mockRejectedValue(new Error('Transaction failed'));
+
+            const result = await repository.create(data);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('findByHash()', () => {
+        it('should look up the token by hash', async () => {
+            mockPrisma.accountToken.findUnique.mockResolvedValue(token);
+
+            const result = await repository.findByHash('hash-1');
+
+            expect(result).toEqual({ success: true, value: token });
+            expect(mockPrisma.accountToken.findUnique).toHaveBeenCalledWith({ where: { tokenHash: 'hash-1' } });
+        });
+
+        it('should return ok(null) for an unknown hash', async () => {
+            mockPrisma.accountToken.findUnique.mockResolvedValue(null);
+
+            const result = await repository.findByHash('unknown');
+
+            expect(result).toEqual({ success: true, value: null });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.accountToken.findUnique.mockRejectedValue(new Error('Connection lost'));
+
+            const result = await repository.findByHash('hash-1');
+
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('consume()', () => {
+        it('should return true when the token was unused', async () => {
+            mockPrisma.accountToken.updateMany.mockResolvedValue({ count: 1 });
+
+            const result = await repository.consume('token-1');
+
+            expect(result).toEqual({ success: true, value: true });
+            expect(mockPrisma.accountToken.updateMany).toHaveBeenCalledWith({
+                where: { id: 'token-1', usedAt: null },
+                data: { usedAt: expect.any(Date) },
+            });
+        });
+
+        it('should return false when the token was already used', async () => {
+            mockPrisma.accountToken.updateMany.mockResolvedValue({ count: 0 });
+
+            const result = await repository.consume('token-1');
+
+            expect(result).toEqual({ success: true, value: false });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.accountToken.updateMany.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.consume('token-1');
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * @module prisma-account-token.repository
+ * Prisma-backed implementation of the {@link AccountTokenRepository} domain interface.
+ * Persists the single-use tokens sent by email for password resets and email
+ * verification. Tokens are stored as SHA-256 hashes only, the link itself living
+ * in the outbox message of its email until delivery, and redemption marks the
+ * token as used with a conditional update so it can be redeemed at most once.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { AccountTokenEntity, CreateAccountTokenData } from '../../../domain/entities/account-token.entity.js';
+import type { CreateOutboxMessageData } from '../../../domain/entities/outbox-message.entity.js';
+import type { AccountTokenRepository } from '../../../domain/repositories/account-token.repository.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import type { PrismaClient } from '../generated/prisma/client.js';
+import { writeOutboxMessages } from './prisma-outbox.repository.js';
+
+/**
+ * Prisma implementation of {@link AccountTokenRepository}.
+ * Operates on the `account_tokens` table.
+ * Injected via tsyringe with the PrismaClient token.
+ */
+@injectable()
+export class PrismaAccountTokenRepository implements AccountTokenRepository {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.PrismaClient)
+		private readonly prisma: PrismaClient,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ repository: 'AccountTokenRepository' });
+	}
+
+	/**
+	 * Supersedes the account's unused tokens for the same purpose and creates
+	 * the new token, with the outbox messages carrying its link, within a single transaction.
+	 * @param data - The account, purpose, token hash and expiry.
+	 * @param outbox - Outbox messages recorded with the token.
+	 * @returns `ok(AccountTokenEntity)` with the created token, or `err(DatabaseError)` on failure.
+	 */
+	async create(data: CreateAccountTokenData, outbox: CreateOutboxMessageData[] = []): Promise<Result<AccountTokenEntity, DatabaseError>> {
+		try {
+			const token = await this.prisma.$transaction(async (tx) => {
+				await tx.accountToken.updateMany({
+					where: { authRefId: data.authRefId, purpose: data.purpose, usedAt: null },
+					data: { usedAt: new Date() },
+				});
+				const created = await tx.accountToken.create({ data });
+				await writeOutboxMessages(tx, outbox);
+				return created;
+			});
+			return ok(token);
+		} catch (e) {
+			this.logger.error('Failed to create account token', e instanceof Error ? e : null, {
+				operation: 'create',
+				authRefId: data.authRefId,
+				purpose: data.purpose,
+			});
+			return err(new DatabaseError('Failed to create account token', e));
+		}
+	}
+
+	/**
+	 * Finds an account token by its unique hash.
+	 * @param tokenHash - Hex-encoded SHA-256 hash of the token.
+	 * @returns `ok(AccountTokenEntity)` if found, `ok(null)` if not found,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async findByHash(tokenHash: string): Promise<Result<AccountTokenEntity | null, DatabaseError>> {
+		try {
+			const token = await this.prisma.accountToken.findUnique({ where: { tokenHash } });
+			return ok(token);
+		} catch (e) {
+			this.logger.error('Failed to find account token', e instanceof Error ? e : null, { operation: 'findByHash' });
+			return err(new DatabaseError('Failed to find account token', e));
+		}
+	}
+
+	/**
+	 * Marks a token as used, provided it has not been used yet.
+	 * @param id - The UUID of the token.
+	 * @returns `ok(true)` if this call consumed the token, `ok(false)` if it was
+	 *          already used, or `err(DatabaseError)` on failure.
+	 */
+	async consume(id: string): Promise<Result<boolean, DatabaseError>> {
+		try {
+			const { count } = await this.prisma.accountToken.updateMany({
+				where: { id, usedAt: null },
+				data: { usedAt: new Date() },
+			});
+			return ok(count > 0);
+		} catch (e) {
+			this.logger.error('Failed to consume account token', e instanceof Error ? e : null, { operation: 'consume', tokenId: id });
+			return err(new DatabaseError('Failed to consume account token', e));
+		}
+	}
+}
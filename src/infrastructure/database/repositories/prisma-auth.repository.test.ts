@@ -1,8 +1,9 @@
 /**
  * @file Unit tests for the PrismaAuthRepository.
  *
- * Tests all 4 methods: findByEmail, createWithUser (transactional),
- * existsByEmail, and updateRole. Each method is tested for success
+ * Tests all 8 methods: findByEmail, findByRefId, createWithUser (transactional, with outbox messages),
+ * existsByEmail, updateRole, updatePassword, markEmailVerified, updateEmail, recordLoginFailure,
+ * lockLogin and clearLoginFailures. Each method is tested for success
  * and DB error propagation using a mock PrismaClient.
  */
 
@@ -14,8 +15,10 @@ import { DatabaseError } from '../../../lib/errors/repository.errors.js';
 import { createMockLogger } from '../../../../tests/setup.js';
 
 function createMockPrisma() {
-    const txAuth = { create: vi.fn() };
+    const txAuth = { create: vi.fn(), update: vi.fn() };
     const txUser = { create: vi.fn() };
+    const txOutboxMessage = { createMany: vi.fn() };
+    const txAccountToken = { updateMany: vi.fn(), create: vi.fn() };
     return {
         auth: {
             findUnique: vi.fn(),
@@ -23,10 +26,12 @@ function createMockPrisma() {
             update: vi.fn(),
         },
         $transaction: vi.fn((fn: (tx: unknown) => Promise<unknown>) =>
-            fn({ auth: txAuth, user: txUser }),
+            fn({ auth: txAuth, user: txUser, outboxMessage: txOutboxMessage, accountToken: txAccountToken }),
         ),
         _txAuth: txAuth,
         _txUser: txUser,
+        _txOutboxMessage: txOutboxMessage,
+        _txAccountToken: txAccountToken,
     };
 }
 
@@ -80,9 +85,32 @@ describe('PrismaAuthRepository', () => {
         });
     });
 
+    describe('findByRefId()', () => {
+        it('should look up the auth by refId', async () => {
+            const auth = { id: 'uuid-1', refId: 7, email: 'test@example.com' };
+            mockPrisma.auth.findUnique.mockResolvedValue(auth);
+
+            const result = await repository.findByRefId(7);
+
+            expect(result).toEqual({ success: true, value: auth });
+            expect(mockPrisma.auth.findUnique).toHaveBeenCalledWith({ where: { refId: 7 } });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.auth.findUnique.mockRejectedValue(new Error('Connection lost'));
+
+            const result = await repository.findByRefId(7);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
     describe('createWithUser()', () => {
         const authData = { email: 'new@example.com', password: 'hashed-pw' };
-        const userData = { firstName: null, lastName: null, phone: null };
+        const userData = { firstName: null, lastName: null, phone: null, locale: 'fr' as const };
 
         it('should return ok({ auth, user }) on successful transaction', async () => {
             const mockAuth = { id: 'auth-1', refId: 1, email: 'new@example.com', password: 'hashed-pw', role: 'USER' };
@@ -97,6 +125,18 @@ describe('PrismaAuthRepository', () => {
                 expect(result.value.auth).toEqual(mockAuth);
                 expect(result.value.user.email).toBe('new@example.com');
             }
+            expect(mockPrisma._txOutboxMessage.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should record the outbox messages in the same transaction', async () => {
+            mockPrisma._txAuth.create.mockResolvedValue({ id: 'auth-1', refId: 1, email: 'new@example.com', password: 'hashed-pw', role: 'USER' });
+            mockPrisma._txUser.create.mockResolvedValue({ id: 'user-1', refId: 1, authRefId: 1, firstName: null, lastName: null, phone: null });
+            const payload = { to: 'new@example.com', locale: 'fr' as const, message: { template: 'welcome' as const, variables: { firstName: null } } };
+
+            const result = await repository.createWithUser(authData, userData, [{ type: 'EMAIL', payload }]);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma._txOutboxMessage.createMany).toHaveBeenCalledWith({ data: [{ type: 'EMAIL', payload }] });
         });
 
         it('should return err(DatabaseError) when transaction fails', async () => {
@@ -173,4 +213,224 @@ describe('PrismaAuthRepository', () => {
             }
         });
     });
+
+    describe('updatePassword()', () => {
+        it('should store the new password hash', async () => {
+            mockPrisma.auth.update.mockResolvedValue({});
+
+            const result = await repository.updatePassword(1, 'new-hash');
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.auth.update).toHaveBeenCalledWith({
+                where: { refId: 1 },
+                data: { password: 'new-hash' },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.auth.update.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.updatePassword(1, 'new-hash');
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error.message).toBe('Failed to update auth password');
+            }
+        });
+    });
+
+    describe('markEmailVerified()', () => {
+        it('should set the verification timestamp', async () => {
+            const verifiedAt = new Date('2026-10-18T10:00:00Z');
+            mockPrisma.auth.update.mockResolvedValue({});
+
+            const result = await repository.markEmailVerified(1, verifiedAt);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.auth.update).toHaveBeenCalledWith({
+                where: { refId: 1 },
+                data: { emailVerifiedAt: verifiedAt },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.auth.update.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.markEmailVerified(1, new Date());
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('updateEmail()', () => {
+        const verificationToken = {
+            authRefId: 1,
+            purpose: 'EMAIL_VERIFICATION' as const,
+            tokenHash: 'hash-1',
+            expiresAt: new Date('2026-01-02T00:00:00Z'),
+        };
+
+        it('should store the new email and clear its verification', async () => {
+            mockPrisma._txAuth.update.mockResolvedValue({});
+
+            const result = await repository.updateEmail(1, 'new@example.com', verificationToken);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma._txAuth.update).toHaveBeenCalledWith({
+                where: { refId: 1 },
+                data: { email: 'new@example.com', emailVerifiedAt: null },
+            });
+        });
+
+        it('should revoke every unused account token and issue the verification token in the transaction', async () => {
+            mockPrisma._txAuth.update.mockResolvedValue({});
+
+            await repository.updateEmail(1, 'new@example.com', verificationToken);
+
+            expect(mockPrisma._txAccountToken.updateMany).toHaveBeenCalledWith({
+                where: { authRefId: 1, usedAt: null },
+                data: { usedAt: expect.any(Date) },
+            });
+            expect(mockPrisma._txAccountToken.create).toHaveBeenCalledWith({ data: verificationToken });
+            expect(mockPrisma._txAccountToken.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+                mockPrisma._txAccountToken.create.mock.invocationCallOrder[0],
+            );
+        });
+
+        it('should record the outbox messages in the same transaction', async () => {
+            mockPrisma._txAuth.update.mockResolvedValue({});
+            const payload = {
+                to: 'old@example.com',
+                locale: 'fr' as const,
+                message: { template: 'email-changed' as const, variables: { newEmail: 'new@example.com' } },
+            };
+
+            const result = await repository.updateEmail(1, 'new@example.com', verificationToken, [{ type: 'EMAIL', payload }]);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma._txOutboxMessage.createMany).toHaveBeenCalledWith({ data: [{ type: 'EMAIL', payload }] });
+        });
+
+        it('should return err(DatabaseError) when the verification token cannot be issued', async () => {
+            mockPrisma._txAuth.update.mockResolvedValue({});
+            mockPrisma._txAccountToken.create.mockRejectedValue(new Error('Insert failed'));
+
+            const result = await repository.updateEmail(1, 'new@example.com', verificationToken);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma._txAuth.update.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.updateEmail(1, 'new@example.com', verificationToken);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error.message).toBe('Failed to update auth email');
+            }
+        });
+    });
+
+    describe('recordLoginFailure()', () => {
+        it('should increment the counter and return its new value', async () => {
+            mockPrisma.auth.update.mockResolvedValue({ failedLoginAttempts: 4 });
+
+            const result = await repository.recordLoginFailure(1);
+
+            expect(result).toEqual({ success: true, value: 4 });
+            expect(mockPrisma.auth.update).toHaveBeenCalledWith({
+                where: { refId: 1 },
+                data: { failedLoginAttempts: { increment: 1 } },
+                select: { failedLoginAttempts: true },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.auth.update.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.recordLoginFailure(1);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error.message).toBe('Failed to record login failure');
+            }
+        });
+    });
+
+    describe('lockLogin()', () => {
+        it('should store the end of the lock', async () => {
+            const lockedUntil = new Date('2026-10-19T10:15:00Z');
+            mockPrisma._txAuth.update.mockResolvedValue({});
+
+            const result = await repository.lockLogin(1, lockedUntil);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma._txAuth.update).toHaveBeenCalledWith({
+                where: { refId: 1 },
+                data: { lockedUntil },
+            });
+            expect(mockPrisma._txOutboxMessage.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should record the lockout alert in the same transaction', async () => {
+            const lockedUntil = new Date('2026-10-19T10:15:00Z');
+            mockPrisma._txAuth.update.mockResolvedValue({});
+            const payload = {
+                to: 'user@example.com',
+                locale: 'fr' as const,
+                message: {
+                    template: 'account-locked' as const,
+                    variables: { firstName: null, failedAttempts: 10, lockedUntil: lockedUntil.toISOString() },
+                },
+            };
+
+            const result = await repository.lockLogin(1, lockedUntil, [{ type: 'EMAIL', payload }]);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma._txOutboxMessage.createMany).toHaveBeenCalledWith({ data: [{ type: 'EMAIL', payload }] });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma._txAuth.update.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.lockLogin(1, new Date());
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('clearLoginFailures()', () => {
+        it('should reset the counter and lift the lock', async () => {
+            mockPrisma.auth.update.mockResolvedValue({});
+
+            const result = await repository.clearLoginFailures(1);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.auth.update).toHaveBeenCalledWith({
+                where: { refId: 1 },
+                data: { failedLoginAttempts: 0, lockedUntil: null },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.auth.update.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.clearLoginFailures(1);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error.message).toBe('Failed to clear auth login failures');
+            }
+        });
+    });
 });
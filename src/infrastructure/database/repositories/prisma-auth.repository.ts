@@ -6,7 +6,9 @@
  */
 
 import { inject, injectable } from 'tsyringe';
+import type { CreateAccountTokenData } from '../../../domain/entities/account-token.entity.js';
 import type { AuthEntity, CreateAuthData } from '../../../domain/entities/auth.entity.js';
+import type { CreateOutboxMessageData } from '../../../domain/entities/outbox-message.entity.js';
 import type { CreateUserData, PublicUserEntity } from '../../../domain/entities/user.entity.js';
 import type { AuthRepository } from '../../../domain/repositories/auth.repository.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
@@ -15,6 +17,7 @@ import type { Result } from '../../../lib/shared/types/result.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
 import type { PrismaClient, $Enums } from '../generated/prisma/client.js';
+import { writeOutboxMessages } from './prisma-outbox.repository.js';
 
 /**
  * Prisma implementation of {@link AuthRepository}.
@@ -52,18 +55,39 @@ export class PrismaAuthRepository implements AuthRepository {
 		}
 	}
 
+	/**
+	 * Finds an authentication record by its integer refId.
+	 * @param refId - The integer auto-incremented reference ID of the auth record.
+	 * @returns `ok(AuthEntity)` if found, `ok(null)` if not found,
+	 *          or `err(DatabaseError)` if the query fails.
+	 */
+	async findByRefId(refId: number): Promise<Result<AuthEntity | null, DatabaseError>> {
+		try {
+			const auth = await this.prisma.auth.findUnique({
+				where: { refId },
+			});
+			return ok(auth);
+		} catch (e) {
+			this.logger.error('Failed to find auth by refId', e instanceof Error ? e : null, { operation: 'findByRefId', refId });
+			return err(new DatabaseError('Failed to find auth by refId', e));
+		}
+	}
+
 	/**
 	 * Creates an Auth record and its associated User profile within a single
 	 * Prisma interactive transaction. This ensures atomicity during registration:
-	 * if user creation fails, the auth record is rolled back.
+	 * if user creation fails, the auth record is rolled back, and the outbox
+	 * messages are only recorded if both records are.
 	 * @param authData - Email and hashed password for the auth record.
 	 * @param userData - First name, last name, and phone for the user profile.
+	 * @param outbox - Outbox messages to record in the same transaction.
 	 * @returns `ok({ auth, user })` on success where user includes the email
 	 *          from the auth join (PublicUserEntity), or `err(DatabaseError)` on failure.
 	 */
 	async createWithUser(
 		authData: CreateAuthData,
 		userData: Omit<CreateUserData, 'authRefId'>,
+		outbox: CreateOutboxMessageData[] = [],
 	): Promise<Result<{ auth: AuthEntity; user: PublicUserEntity }, DatabaseError>> {
 		try {
 			// Interactive transaction: auth and user are created atomically
@@ -81,10 +105,13 @@ export class PrismaAuthRepository implements AuthRepository {
 						firstName: userData.firstName,
 						lastName: userData.lastName,
 						phone: userData.phone,
+						locale: userData.locale,
 						authRefId: auth.refId,
 					},
 				});
 
+				await writeOutboxMessages(tx, outbox);
+
 				// Merge email from auth into the user to form PublicUserEntity
 				return {
 					auth,
@@ -137,4 +164,140 @@ export class PrismaAuthRepository implements AuthRepository {
 			return err(new DatabaseError('Failed to update auth role', e));
 		}
 	}
+
+	/**
+	 * Replaces the hashed password of an auth record identified by its integer refId.
+	 * @param refId - The integer auto-incremented reference ID of the auth record.
+	 * @param password - The new Argon2-hashed password.
+	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async updatePassword(refId: number, password: string): Promise<Result<void, DatabaseError>> {
+		try {
+			await this.prisma.auth.update({
+				where: { refId },
+				data: { password },
+			});
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Failed to update auth password', e instanceof Error ? e : null, { operation: 'updatePassword', refId });
+			return err(new DatabaseError('Failed to update auth password', e));
+		}
+	}
+
+	/**
+	 * Sets the email verification timestamp of an auth record identified by its integer refId.
+	 * @param refId - The integer auto-incremented reference ID of the auth record.
+	 * @param verifiedAt - When the email address was verified.
+	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async markEmailVerified(refId: number, verifiedAt: Date): Promise<Result<void, DatabaseError>> {
+		try {
+			await this.prisma.auth.update({
+				where: { refId },
+				data: { emailVerifiedAt: verifiedAt },
+			});
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Failed to mark auth email as verified', e instanceof Error ? e : null, { operation: 'markEmailVerified', refId });
+			return err(new DatabaseError('Failed to mark auth email as verified', e));
+		}
+	}
+
+	/**
+	 * Replaces the email of an auth record identified by its integer refId and
+	 * clears its verification timestamp. Within a single transaction, the unused
+	 * account tokens of the record are marked as used, the verification token
+	 * of the new address is created and the outbox messages are recorded.
+	 * @param refId - The integer auto-incremented reference ID of the auth record.
+	 * @param email - The new email address.
+	 * @param verificationToken - The email verification token of the new address.
+	 * @param outbox - Outbox messages recorded with the change.
+	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async updateEmail(
+		refId: number,
+		email: string,
+		verificationToken: CreateAccountTokenData,
+		outbox: CreateOutboxMessageData[] = [],
+	): Promise<Result<void, DatabaseError>> {
+		try {
+			await this.prisma.$transaction(async (tx) => {
+				await tx.auth.update({
+					where: { refId },
+					data: { email, emailVerifiedAt: null },
+				});
+				await tx.accountToken.updateMany({
+					where: { authRefId: refId, usedAt: null },
+					data: { usedAt: new Date() },
+				});
+				await tx.accountToken.create({ data: verificationToken });
+				await writeOutboxMessages(tx, outbox);
+			});
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Failed to update auth email', e instanceof Error ? e : null, { operation: 'updateEmail', refId });
+			return err(new DatabaseError('Failed to update auth email', e));
+		}
+	}
+
+	/**
+	 * Increments the failed login counter of an auth record identified by its integer refId.
+	 * The increment runs in the database, so concurrent failures are all counted.
+	 * @param refId - The integer auto-incremented reference ID of the auth record.
+	 * @returns `ok(count)` with the number of failed logins, or `err(DatabaseError)` on failure.
+	 */
+	async recordLoginFailure(refId: number): Promise<Result<number, DatabaseError>> {
+		try {
+			const auth = await this.prisma.auth.update({
+				where: { refId },
+				data: { failedLoginAttempts: { increment: 1 } },
+				select: { failedLoginAttempts: true },
+			});
+			return ok(auth.failedLoginAttempts);
+		} catch (e) {
+			this.logger.error('Failed to record login failure', e instanceof Error ? e : null, { operation: 'recordLoginFailure', refId });
+			return err(new DatabaseError('Failed to record login failure', e));
+		}
+	}
+
+	/**
+	 * Sets the time until which the logins of an auth record identified by its integer refId are refused.
+	 * @param refId - The integer auto-incremented reference ID of the auth record.
+	 * @param lockedUntil - When logins are accepted again.
+	 * @param outbox - Messages recorded in the same transaction, such as the lockout alert.
+	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async lockLogin(refId: number, lockedUntil: Date, outbox: CreateOutboxMessageData[] = []): Promise<Result<void, DatabaseError>> {
+		try {
+			await this.prisma.$transaction(async (tx) => {
+				await tx.auth.update({
+					where: { refId },
+					data: { lockedUntil },
+				});
+				await writeOutboxMessages(tx, outbox);
+			});
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Failed to lock auth login', e instanceof Error ? e : null, { operation: 'lockLogin', refId });
+			return err(new DatabaseError('Failed to lock auth login', e));
+		}
+	}
+
+	/**
+	 * Resets the failed login counter of an auth record identified by its integer refId and lifts its lock.
+	 * @param refId - The integer auto-incremented reference ID of the auth record.
+	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async clearLoginFailures(refId: number): Promise<Result<void, DatabaseError>> {
+		try {
+			await this.prisma.auth.update({
+				where: { refId },
+				data: { failedLoginAttempts: 0, lockedUntil: null },
+			});
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Failed to clear auth login failures', e instanceof Error ? e : null, { operation: 'clearLoginFailures', refId });
+			return err(new DatabaseError('Failed to clear auth login failures', e));
+		}
+	}
 }
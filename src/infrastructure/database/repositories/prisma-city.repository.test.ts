@@ -244,7 +244,17 @@ describe('PrismaCityRepository', () => {
             await repository.create(createData);
 
             expect(mockPrisma.city.create).toHaveBeenCalledWith({
-                data: { cityName: 'Lyon', zipcode: '69000' },
+                data: { cityName: 'Lyon', zipcode: '69000', latitude: null, longitude: null },
+            });
+        });
+
+        it('should pass coordinates when provided', async () => {
+            mockPrisma.city.create.mockResolvedValue(mockCity);
+
+            await repository.create({ ...createData, latitude: 45.764, longitude: 4.8357 });
+
+            expect(mockPrisma.city.create).toHaveBeenCalledWith({
+                data: { cityName: 'Lyon', zipcode: '69000', latitude: 45.764, longitude: 4.8357 },
             });
         });
 
@@ -107,6 +107,8 @@ export class PrismaCityRepository implements CityRepository {
 				data: {
 					cityName: data.cityName,
 					zipcode: data.zipcode,
+					latitude: data.latitude ?? null,
+					longitude: data.longitude ?? null,
 				},
 			});
 			return ok(city);
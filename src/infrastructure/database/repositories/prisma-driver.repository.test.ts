@@ -1,7 +1,7 @@
 /**
  * @file Unit tests for the PrismaDriverRepository.
  *
- * Tests all 2 methods: findByUserRefId, create.
+ * Tests all 5 methods: findByUserRefId, findByUserId, findByRefId, findProfile, create.
  * Each method is tested for success, edge cases, and DB error propagation.
  * Uses a mock PrismaClient injected via tsyringe to verify that each
  * repository method correctly delegates to Prisma and wraps results
@@ -138,6 +138,81 @@ describe('PrismaDriverRepository', () => {
         });
     });
 
+    // ── findByRefId ──────────────────────────────────────────────────────
+
+    describe('findByRefId()', () => {
+        it('should return ok(driver) when driver with given refId exists', async () => {
+            mockPrisma.driver.findUnique.mockResolvedValue(mockDriver);
+
+            const result = await repository.findByRefId(1);
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value).toEqual(mockDriver);
+            }
+            expect(mockPrisma.driver.findUnique).toHaveBeenCalledWith({
+                where: { refId: 1 },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.driver.findUnique.mockRejectedValue(new Error('Connection lost'));
+
+            const result = await repository.findByRefId(1);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+                expect(result.error.message).toBe('Failed to find driver by ref id');
+            }
+        });
+    });
+
+    // ── findProfile ──────────────────────────────────────────────────────
+
+    describe('findProfile()', () => {
+        it('should return the profile flattened with the user names', async () => {
+            mockPrisma.driver.findFirst.mockResolvedValue({
+                id: 'driver-123',
+                refId: 1,
+                userRefId: 42,
+                user: { firstName: 'Jane', lastName: 'Doe' },
+            });
+
+            const result = await repository.findProfile('driver-123');
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value).toEqual({ id: 'driver-123', refId: 1, userRefId: 42, firstName: 'Jane', lastName: 'Doe' });
+            }
+            expect(mockPrisma.driver.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: 'driver-123', anonymizedAt: null },
+            }));
+        });
+
+        it('should return ok(null) when the driver is missing or anonymized', async () => {
+            mockPrisma.driver.findFirst.mockResolvedValue(null);
+
+            const result = await repository.findProfile('driver-999');
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value).toBeNull();
+            }
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.driver.findFirst.mockRejectedValue(new Error('Connection lost'));
+
+            const result = await repository.findProfile('driver-123');
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error.message).toBe('Failed to find driver profile');
+            }
+        });
+    });
+
     // ── create ────────────────────────────────────────────────────────────
 
     describe('create()', () => {
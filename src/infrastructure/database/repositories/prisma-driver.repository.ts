@@ -6,7 +6,7 @@
  */
 
 import { inject, injectable } from 'tsyringe';
-import type { CreateDriverData, DriverEntity } from '../../../domain/entities/driver.entity.js';
+import type { CreateDriverData, DriverEntity, DriverProfile } from '../../../domain/entities/driver.entity.js';
 import type { DriverRepository } from '../../../domain/repositories/driver.repository.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
@@ -72,6 +72,46 @@ export class PrismaDriverRepository implements DriverRepository {
 		}
 	}
 
+	/**
+	 * Finds a driver record by its integer reference ID.
+	 * @param refId - The integer auto-incremented refId of the driver.
+	 * @returns `ok(DriverEntity)` if found, `ok(null)` if not found,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async findByRefId(refId: number): Promise<Result<DriverEntity | null, DatabaseError>> {
+		try {
+			const driver = await this.prisma.driver.findUnique({
+				where: { refId },
+			});
+			return ok(driver);
+		} catch (e) {
+			this.logger.error('Failed to find driver by ref id', e instanceof Error ? e : null, { operation: 'findByRefId', refId });
+			return err(new DatabaseError('Failed to find driver by ref id', e));
+		}
+	}
+
+	/**
+	 * Finds the public profile of a driver, joining the user for the names.
+	 * Anonymized drivers are filtered out in the query.
+	 * @param id - The UUID of the driver.
+	 * @returns `ok(DriverProfile)` if found, `ok(null)` if not found or anonymized,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async findProfile(id: string): Promise<Result<DriverProfile | null, DatabaseError>> {
+		try {
+			const driver = await this.prisma.driver.findFirst({
+				where: { id, anonymizedAt: null },
+				select: { id: true, refId: true, userRefId: true, user: { select: { firstName: true, lastName: true } } },
+			});
+			if (!driver) return ok(null);
+			const { user, ...rest } = driver;
+			return ok({ ...rest, firstName: user.firstName, lastName: user.lastName });
+		} catch (e) {
+			this.logger.error('Failed to find driver profile', e instanceof Error ? e : null, { operation: 'findProfile', driverId: id });
+			return err(new DatabaseError('Failed to find driver profile', e));
+		}
+	}
+
 	/**
 	 * Creates a new driver record linked to an existing user.
 	 * @param data - Driver creation data containing driverLicense and userRefId.
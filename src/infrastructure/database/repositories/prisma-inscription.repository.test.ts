@@ -1,9 +1,10 @@
 /**
  * @file Unit tests for the PrismaInscriptionRepository.
  *
- * Tests key methods: findAll, findById, create, delete,
+ * Tests key methods: findAll, findById, findNotificationDetails, create, updateStatus, cancel, delete,
  * existsByUserAndTrip, countByTripRefId. Each method is tested
- * for success and DB error propagation.
+ * for success and DB error propagation; seat-taking writes are also tested
+ * for the trip row lock and the per-segment full-trip refusal.
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -11,19 +12,30 @@ import { container } from 'tsyringe';
 import { PrismaInscriptionRepository } from './prisma-inscription.repository.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { NoSeatsAvailableError, TripNotBookableError } from '../../../lib/errors/domain.errors.js';
 import { createMockLogger } from '../../../../tests/setup.js';
 
 function createMockPrisma() {
-    return {
+    const prisma = {
         inscription: {
             findUnique: vi.fn(),
+            findUniqueOrThrow: vi.fn(),
             findFirst: vi.fn(),
-            findMany: vi.fn(),
+            findMany: vi.fn().mockResolvedValue([]),
             create: vi.fn(),
+            upsert: vi.fn(),
+            update: vi.fn(),
             delete: vi.fn(),
             count: vi.fn(),
         },
+        outboxMessage: { createMany: vi.fn() },
+        // Locked trip row returned by SELECT ... FOR UPDATE
+        $queryRaw: vi.fn().mockResolvedValue([{ id: 'trip-1', seats: 3, status: 'SCHEDULED', date_trip: new Date(Date.now() + 86_400_000) }]),
+        $transaction: vi.fn(),
     };
+    // Interactive transactions run the callback against the same mock client
+    prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+    return prisma;
 }
 
 describe('PrismaInscriptionRepository', () => {
@@ -177,6 +189,98 @@ describe('PrismaInscriptionRepository', () => {
         });
     });
 
+    describe('findPassengerContacts()', () => {
+        it('should return the email and first name of the booked passengers', async () => {
+            mockPrisma.inscription.findMany.mockResolvedValue([
+                { user: { id: 'jane-id', firstName: 'Jane', locale: 'fr', auth: { email: 'jane@example.com' } } },
+                { user: { id: 'max-id', firstName: null, locale: 'en', auth: { email: 'max@example.com' } } },
+            ]);
+
+            const result = await repository.findPassengerContacts(10);
+
+            expect(result).toEqual({
+                success: true,
+                value: [
+                    { id: 'jane-id', email: 'jane@example.com', firstName: 'Jane', locale: 'fr' },
+                    { id: 'max-id', email: 'max@example.com', firstName: null, locale: 'en' },
+                ],
+            });
+            expect(mockPrisma.inscription.findMany).toHaveBeenCalledWith({
+                where: { tripRefId: 10, status: { in: ['ACTIVE', 'PENDING'] }, user: { anonymizedAt: null } },
+                select: { user: { select: { id: true, firstName: true, locale: true, auth: { select: { email: true } } } } },
+            });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.inscription.findMany.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.findPassengerContacts(10);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('findNotificationDetails()', () => {
+        const contact = (firstName: string, email: string) => ({
+            id: `${firstName.toLowerCase()}-id`,
+            firstName,
+            locale: 'fr',
+            notifyBookingUpdates: true,
+            notifyTripReminders: true,
+            auth: { email },
+        });
+
+        it('should map the trip summary and the contacts of the passenger and the driver', async () => {
+            const dateTrip = new Date('2026-10-20T08:00:00.000Z');
+            mockPrisma.inscription.findUnique.mockResolvedValue({
+                id: 'ins-1',
+                status: 'PENDING',
+                user: contact('Jane', 'jane@example.com'),
+                trip: {
+                    id: 'trip-1',
+                    dateTrip,
+                    cities: [{ city: { cityName: 'Lyon' } }, { city: { cityName: 'Valence' } }, { city: { cityName: 'Marseille' } }],
+                    driver: { user: contact('Paul', 'paul@example.com') },
+                },
+            });
+
+            const result = await repository.findNotificationDetails('ins-1');
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value).toEqual({
+                    inscriptionId: 'ins-1',
+                    status: 'PENDING',
+                    trip: { id: 'trip-1', dateTrip, departureCity: 'Lyon', arrivalCity: 'Marseille' },
+                    passenger: expect.objectContaining({ id: 'jane-id', firstName: 'Jane', email: 'jane@example.com' }),
+                    driver: expect.objectContaining({ firstName: 'Paul', email: 'paul@example.com', notifyBookingUpdates: true }),
+                });
+            }
+        });
+
+        it('should return ok(null) when the inscription does not exist', async () => {
+            mockPrisma.inscription.findUnique.mockResolvedValue(null);
+
+            const result = await repository.findNotificationDetails('missing');
+
+            expect(result).toEqual({ success: true, value: null });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.inscription.findUnique.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.findNotificationDetails('ins-1');
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
     describe('findByIdAndUserId()', () => {
         it('should return ok(inscription) when found and owned', async () => {
             mockPrisma.inscription.findFirst.mockResolvedValue(mockInscription);
@@ -216,24 +320,257 @@ describe('PrismaInscriptionRepository', () => {
     });
 
     describe('create()', () => {
+        it('should pass the initial status when provided', async () => {
+            mockPrisma.inscription.upsert.mockResolvedValue({ ...mockInscription, status: 'PENDING' });
+
+            await repository.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500, status: 'PENDING' });
+
+            expect(mockPrisma.inscription.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                create: { userRefId: 1, tripRefId: 1, pricePerSeat: 1500, pickupPosition: 0, dropoffPosition: 1, status: 'PENDING' },
+            }));
+        });
+
         it('should return ok(inscription) on success', async () => {
-            mockPrisma.inscription.create.mockResolvedValue(mockInscription);
+            mockPrisma.inscription.upsert.mockResolvedValue(mockInscription);
 
-            const result = await repository.create({ userRefId: 1, tripRefId: 1 });
+            const result = await repository.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500 });
 
             expect(result.success).toBe(true);
             if (result.success) {
                 expect(result.value).toEqual(mockInscription);
             }
-            expect(mockPrisma.inscription.create).toHaveBeenCalledWith({
-                data: { userRefId: 1, tripRefId: 1 },
+            expect(mockPrisma.inscription.upsert).toHaveBeenCalledWith({
+                where: { userRefId_tripRefId: { userRefId: 1, tripRefId: 1 } },
+                create: { userRefId: 1, tripRefId: 1, pricePerSeat: 1500, pickupPosition: 0, dropoffPosition: 1, status: 'ACTIVE' },
+                update: expect.objectContaining({ pricePerSeat: 1500, pickupPosition: 0, dropoffPosition: 1, status: 'ACTIVE', cancelledAt: null, cancellationReason: null }),
+            });
+        });
+
+        it('should lock the trip row and load overlapping accepted bookings inside a transaction', async () => {
+            mockPrisma.inscription.upsert.mockResolvedValue(mockInscription);
+
+            await repository.create({ userRefId: 1, tripRefId: 7, pickupPosition: 1, dropoffPosition: 3, pricePerSeat: 1500 });
+
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            const [sql, refId] = mockPrisma.$queryRaw.mock.calls[0];
+            expect(sql.join('?')).toContain('FOR UPDATE');
+            expect(sql.join('?')).toContain('"status", "date_trip"');
+            expect(refId).toBe(7);
+            expect(mockPrisma.inscription.findMany).toHaveBeenCalledWith({
+                where: { tripRefId: 7, status: 'ACTIVE', pickupPosition: { lt: 3 }, dropoffPosition: { gt: 1 } },
+                select: { pickupPosition: true, dropoffPosition: true },
+            });
+        });
+
+        it('should book a segment whose legs still have a free seat', async () => {
+            // Three seats, but the bookings on legs 0 and 1 never overlap: at most two per leg
+            mockPrisma.inscription.findMany.mockResolvedValue([
+                { pickupPosition: 0, dropoffPosition: 1 },
+                { pickupPosition: 0, dropoffPosition: 1 },
+                { pickupPosition: 1, dropoffPosition: 2 },
+                { pickupPosition: 1, dropoffPosition: 2 },
+            ]);
+            mockPrisma.inscription.upsert.mockResolvedValue(mockInscription);
+
+            const result = await repository.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 2, pricePerSeat: 1500 });
+
+            expect(result.success).toBe(true);
+        });
+
+        it('should record the outbox messages with the inscription', async () => {
+            mockPrisma.inscription.upsert.mockResolvedValue(mockInscription);
+            const message = { type: 'EMAIL' as const, payload: { to: 'paul@example.com', locale: 'fr' as const, message: { template: 'booking-received' as const, variables: { firstName: 'Paul', passengerName: 'Jane', tripDate: '2026-10-20T08:00:00.000Z', departureCity: 'Lyon', arrivalCity: 'Grenoble', requiresApproval: false } } } };
+
+            const result = await repository.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500 }, [message]);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.outboxMessage.createMany).toHaveBeenCalledWith({ data: [message] });
+        });
+
+        it('should return err(NoSeatsAvailableError) without writing when the trip is full', async () => {
+            mockPrisma.inscription.findMany.mockResolvedValue(Array(3).fill({ pickupPosition: 0, dropoffPosition: 1 }));
+            const message = { type: 'EMAIL' as const, payload: { to: 'paul@example.com', locale: 'fr' as const, message: { template: 'booking-cancelled' as const, variables: { firstName: 'Paul', passengerName: 'Jane', tripDate: '2026-10-20T08:00:00.000Z', departureCity: 'Lyon', arrivalCity: 'Grenoble' } } } };
+
+            const result = await repository.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500 }, [message]);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(NoSeatsAvailableError);
+            }
+            expect(mockPrisma.inscription.upsert).not.toHaveBeenCalled();
+            expect(mockPrisma.outboxMessage.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should return err(TripNotBookableError) without writing when the locked trip was cancelled', async () => {
+            mockPrisma.$queryRaw.mockResolvedValue([{ id: 'trip-1', seats: 3, status: 'CANCELLED', date_trip: new Date(Date.now() + 86_400_000) }]);
+
+            const result = await repository.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500 });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(TripNotBookableError);
+            }
+            expect(mockPrisma.inscription.upsert).not.toHaveBeenCalled();
+        });
+
+        it('should return err(TripNotBookableError) without writing when the locked trip has departed', async () => {
+            mockPrisma.$queryRaw.mockResolvedValue([{ id: 'trip-1', seats: 3, status: 'SCHEDULED', date_trip: new Date(Date.now() - 60_000) }]);
+
+            const result = await repository.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500 });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(TripNotBookableError);
+            }
+            expect(mockPrisma.inscription.upsert).not.toHaveBeenCalled();
+        });
+
+        it('should return err(DatabaseError) when the trip row does not exist', async () => {
+            mockPrisma.$queryRaw.mockResolvedValue([]);
+
+            const result = await repository.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500 });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+
+        it('should reactivate a previously cancelled row on re-booking', async () => {
+            mockPrisma.inscription.upsert.mockResolvedValue(mockInscription);
+
+            await repository.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1800 });
+
+            const call = mockPrisma.inscription.upsert.mock.calls[0][0];
+            expect(call.update.status).toBe('ACTIVE');
+            expect(call.update.createdAt).toBeInstanceOf(Date);
+            expect(call.update.cancelledAt).toBeNull();
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.inscription.upsert.mockRejectedValue(new Error('Unique constraint'));
+
+            const result = await repository.create({ userRefId: 1, tripRefId: 1, pickupPosition: 0, dropoffPosition: 1, pricePerSeat: 1500 });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('updateStatus()', () => {
+        it('should return ok(inscription) on success', async () => {
+            mockPrisma.inscription.update.mockResolvedValue({ ...mockInscription, status: 'REJECTED' });
+
+            const result = await repository.updateStatus('ins-1', 'REJECTED');
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value.status).toBe('REJECTED');
+            }
+            expect(mockPrisma.inscription.update).toHaveBeenCalledWith({
+                where: { id: 'ins-1' },
+                data: { status: 'REJECTED' },
             });
         });
 
+        it('should check seats under the trip row lock when activating', async () => {
+            mockPrisma.inscription.findUniqueOrThrow.mockResolvedValue({ tripRefId: 4, pickupPosition: 0, dropoffPosition: 1 });
+            mockPrisma.inscription.update.mockResolvedValue({ ...mockInscription, status: 'ACTIVE' });
+
+            const result = await repository.updateStatus('ins-1', 'ACTIVE');
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.$queryRaw.mock.calls[0][1]).toBe(4);
+            expect(mockPrisma.inscription.update).toHaveBeenCalledWith({ where: { id: 'ins-1' }, data: { status: 'ACTIVE' } });
+        });
+
+        it('should return err(NoSeatsAvailableError) when activating on a full trip', async () => {
+            mockPrisma.inscription.findUniqueOrThrow.mockResolvedValue({ tripRefId: 4, pickupPosition: 0, dropoffPosition: 1 });
+            mockPrisma.inscription.findMany.mockResolvedValue(Array(3).fill({ pickupPosition: 0, dropoffPosition: 1 }));
+
+            const result = await repository.updateStatus('ins-1', 'ACTIVE');
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(NoSeatsAvailableError);
+            }
+            expect(mockPrisma.inscription.update).not.toHaveBeenCalled();
+        });
+
+        it('should return err(TripNotBookableError) when activating on a trip that no longer takes bookings', async () => {
+            mockPrisma.inscription.findUniqueOrThrow.mockResolvedValue({ tripRefId: 4, pickupPosition: 0, dropoffPosition: 1 });
+            mockPrisma.$queryRaw.mockResolvedValue([{ id: 'trip-4', seats: 3, status: 'IN_PROGRESS', date_trip: new Date(Date.now() - 60_000) }]);
+
+            const result = await repository.updateStatus('ins-1', 'ACTIVE');
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(TripNotBookableError);
+            }
+            expect(mockPrisma.inscription.update).not.toHaveBeenCalled();
+        });
+
+        it('should not lock the trip when the status does not take a seat', async () => {
+            mockPrisma.inscription.update.mockResolvedValue({ ...mockInscription, status: 'REJECTED' });
+
+            await repository.updateStatus('ins-1', 'REJECTED');
+
+            expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.inscription.update.mockRejectedValue(new Error('Not found'));
+
+            const result = await repository.updateStatus('ins-1', 'REJECTED');
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('cancel()', () => {
+        it('should mark the inscription CANCELLED with timestamp and reason', async () => {
+            mockPrisma.inscription.update.mockResolvedValue({ ...mockInscription, status: 'CANCELLED' });
+
+            const result = await repository.cancel('ins-1', 'Plans changed');
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.inscription.update).toHaveBeenCalledWith({
+                where: { id: 'ins-1' },
+                data: { status: 'CANCELLED', cancelledAt: expect.any(Date), cancellationReason: 'Plans changed' },
+            });
+        });
+
+        it('should record the outbox messages in the same transaction', async () => {
+            mockPrisma.inscription.update.mockResolvedValue({ ...mockInscription, status: 'CANCELLED' });
+            const message = { type: 'EMAIL' as const, payload: { to: 'paul@example.com', locale: 'fr' as const, message: { template: 'booking-cancelled' as const, variables: { firstName: 'Paul', passengerName: 'Jane', tripDate: '2026-10-20T08:00:00.000Z', departureCity: 'Lyon', arrivalCity: 'Grenoble' } } } };
+
+            const result = await repository.cancel('ins-1', undefined, [message]);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.outboxMessage.createMany).toHaveBeenCalledWith({ data: [message] });
+        });
+
+        it('should store a null reason when none is given', async () => {
+            mockPrisma.inscription.update.mockResolvedValue({ ...mockInscription, status: 'CANCELLED' });
+
+            await repository.cancel('ins-1');
+
+            expect(mockPrisma.inscription.update).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ cancellationReason: null }),
+            }));
+        });
+
         it('should return err(DatabaseError) on failure', async () => {
-            mockPrisma.inscription.create.mockRejectedValue(new Error('Unique constraint'));
+            mockPrisma.inscription.update.mockRejectedValue(new Error('Not found'));
 
-            const result = await repository.create({ userRefId: 1, tripRefId: 1 });
+            const result = await repository.cancel('ins-1');
 
             expect(result.success).toBe(false);
             if (!result.success) {
@@ -275,7 +612,7 @@ describe('PrismaInscriptionRepository', () => {
                 expect(result.value).toBe(true);
             }
             expect(mockPrisma.inscription.count).toHaveBeenCalledWith({
-                where: { userRefId: 1, tripRefId: 1 },
+                where: { userRefId: 1, tripRefId: 1, status: { not: 'CANCELLED' } },
             });
         });
 
@@ -313,7 +650,7 @@ describe('PrismaInscriptionRepository', () => {
                 expect(result.value).toBe(5);
             }
             expect(mockPrisma.inscription.count).toHaveBeenCalledWith({
-                where: { tripRefId: 1 },
+                where: { tripRefId: 1, status: 'ACTIVE' },
             });
         });
 
@@ -3,18 +3,46 @@
  * Prisma-backed implementation of the {@link InscriptionRepository} domain interface.
  * Manages passenger inscriptions (sign-ups) to carpooling trips.
  * Inscriptions link a user to a trip via integer refId foreign keys
- * (userRefId, tripRefId).
+ * (userRefId, tripRefId). Writes that take a seat run in a transaction
+ * holding a row lock on the trip so that concurrent bookings cannot overbook it
+ * nor book a trip that was cancelled or departed meanwhile; availability is
+ * computed per leg of the booked pickup/dropoff segment.
  */
 
 import { inject, injectable } from 'tsyringe';
-import type { CreateInscriptionData, InscriptionEntity } from '../../../domain/entities/inscription.entity.js';
+import type {
+	BookingNotificationDetails,
+	CreateInscriptionData,
+	InscriptionEntity,
+	InscriptionStatus,
+	PassengerContact,
+} from '../../../domain/entities/inscription.entity.js';
+import type { CreateOutboxMessageData } from '../../../domain/entities/outbox-message.entity.js';
 import type { InscriptionRepository } from '../../../domain/repositories/inscription.repository.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
-import type { PrismaClient } from '../generated/prisma/client.js';
+import { NoSeatsAvailableError, TripNotBookableError } from '../../../lib/errors/domain.errors.js';
+import type { Prisma, PrismaClient } from '../generated/prisma/client.js';
+import { hasFreeSeatOnSegment, type TripSegment } from '../../../domain/booking/trip-segments.js';
+import type { TripStatus } from '../../../domain/entities/trip.entity.js';
+import { isBookable } from '../../../domain/lifecycle/trip-lifecycle.js';
+import { TRIP_SUMMARY_SELECT, USER_CONTACT_SELECT, toTripSummary, toUserContact } from './notification-details.js';
+import { writeOutboxMessages } from './prisma-outbox.repository.js';
+
+/**
+ * Why the locked trip refuses a seat: it no longer takes bookings, or a leg of
+ * the segment is full.
+ */
+type SeatRefusal = 'NOT_BOOKABLE' | 'FULL';
+
+/**
+ * Outcome of a seat-taking write inside a transaction: either the trip refused
+ * the seat (nothing written) or the inscription row that now holds the seat.
+ */
+type SeatWriteOutcome = { refusal: SeatRefusal; tripId: string } | { refusal: null; inscription: InscriptionEntity };
 
 /**
  * Prisma implementation of {@link InscriptionRepository}.
@@ -158,6 +186,58 @@ export class PrismaInscriptionRepository implements InscriptionRepository {
 		}
 	}
 
+	/**
+	 * Retrieves the email and first name of the passengers still booked on a trip.
+	 * Only ACTIVE and PENDING inscriptions of non-anonymized users are considered;
+	 * the email is read through the user's auth record.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @returns `ok(PassengerContact[])` on success, or `err(DatabaseError)` on failure.
+	 */
+	async findPassengerContacts(tripRefId: number): Promise<Result<PassengerContact[], DatabaseError>> {
+		try {
+			const inscriptions = await this.prisma.inscription.findMany({
+				where: { tripRefId, status: { in: ['ACTIVE', 'PENDING'] }, user: { anonymizedAt: null } },
+				select: { user: { select: { id: true, firstName: true, locale: true, auth: { select: { email: true } } } } },
+			});
+			return ok(inscriptions.map(({ user }) => ({ id: user.id, email: user.auth.email, firstName: user.firstName, locale: user.locale })));
+		} catch (e) {
+			this.logger.error('Failed to find passenger contacts', e instanceof Error ? e : null, { operation: 'findPassengerContacts', tripRefId });
+			return err(new DatabaseError('Failed to find passenger contacts', e));
+		}
+	}
+
+	/**
+	 * Loads an inscription with its trip summary, its passenger and the driver of
+	 * the trip, each with their contact and notification preferences.
+	 * @param id - The UUID of the inscription.
+	 * @returns `ok(BookingNotificationDetails)` if found, `ok(null)` if not found,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async findNotificationDetails(id: string): Promise<Result<BookingNotificationDetails | null, DatabaseError>> {
+		try {
+			const inscription = await this.prisma.inscription.findUnique({
+				where: { id },
+				select: {
+					id: true,
+					status: true,
+					user: { select: USER_CONTACT_SELECT },
+					trip: { select: { ...TRIP_SUMMARY_SELECT, driver: { select: { user: { select: USER_CONTACT_SELECT } } } } },
+				},
+			});
+			if (!inscription) return ok(null);
+			return ok({
+				inscriptionId: inscription.id,
+				status: inscription.status,
+				trip: toTripSummary(inscription.trip),
+				passenger: toUserContact(inscription.user),
+				driver: toUserContact(inscription.trip.driver.user),
+			});
+		} catch (e) {
+			this.logger.error('Failed to find inscription notification details', e instanceof Error ? e : null, { operation: 'findNotificationDetails', inscriptionId: id });
+			return err(new DatabaseError('Failed to find inscription notification details', e));
+		}
+	}
+
 	/**
 	 * Finds an inscription by its UUID and verifies it belongs to the given user.
 	 * Combines existence check and ownership verification in a single query.
@@ -180,25 +260,132 @@ export class PrismaInscriptionRepository implements InscriptionRepository {
 
 	/**
 	 * Creates a new inscription linking a user to a trip via integer refIds.
-	 * @param data - Inscription creation data with userRefId and tripRefId.
+	 * Upserts on the (userRefId, tripRefId) unique constraint so that re-booking
+	 * after a cancellation reactivates the existing row: status, price snapshot and
+	 * createdAt are reset and the cancellation fields are cleared. Callers must check
+	 * {@link existsByUserAndTrip} first so that a live inscription is never overwritten.
+	 *
+	 * The trip and seat checks and the write run in one transaction that locks the
+	 * trip row, so two passengers racing for the last seat are serialized and only one
+	 * succeeds, and a trip cancelled meanwhile is not booked.
+	 * Pending requests are refused on a full segment too, as they could never be accepted.
+	 * The outbox messages are recorded in the same transaction, only if the seat is taken.
+	 * @param data - Inscription creation data with userRefId, tripRefId, the booked segment,
+	 *               the price snapshot and an optional initial status (defaults to ACTIVE).
+	 * @param outbox - Messages to record with the inscription, such as the email to the driver.
 	 * @returns `ok(InscriptionEntity)` with the created inscription,
+	 *          `err(TripNotBookableError)` when the trip no longer takes bookings,
+	 *          `err(NoSeatsAvailableError)` when a leg of the segment is full,
 	 *          or `err(DatabaseError)` on failure.
 	 */
-	async create(data: CreateInscriptionData): Promise<Result<InscriptionEntity, DatabaseError>> {
+	async create(data: CreateInscriptionData, outbox: CreateOutboxMessageData[] = []): Promise<Result<InscriptionEntity, DatabaseError | NoSeatsAvailableError | TripNotBookableError>> {
 		try {
-			const inscription = await this.prisma.inscription.create({
-				data: {
-					userRefId: data.userRefId,
-					tripRefId: data.tripRefId,
-				},
+			const status = data.status ?? 'ACTIVE';
+			const outcome = await this.prisma.$transaction(async (tx): Promise<SeatWriteOutcome> => {
+				const seats = await this.lockTripSeats(tx, data.tripRefId, data);
+				if (seats.refusal) {
+					return { refusal: seats.refusal, tripId: seats.tripId };
+				}
+				const inscription = await tx.inscription.upsert({
+					where: { userRefId_tripRefId: { userRefId: data.userRefId, tripRefId: data.tripRefId } },
+					create: {
+						userRefId: data.userRefId,
+						tripRefId: data.tripRefId,
+						pricePerSeat: data.pricePerSeat,
+						pickupPosition: data.pickupPosition,
+						dropoffPosition: data.dropoffPosition,
+						status,
+					},
+					update: {
+						pricePerSeat: data.pricePerSeat,
+						pickupPosition: data.pickupPosition,
+						dropoffPosition: data.dropoffPosition,
+						status,
+						createdAt: new Date(),
+						cancelledAt: null,
+						cancellationReason: null,
+					},
+				});
+				await writeOutboxMessages(tx, outbox);
+				return { refusal: null, inscription };
 			});
-			return ok(inscription);
+			return this.toSeatResult(outcome);
 		} catch (e) {
 			this.logger.error('Failed to create inscription', e instanceof Error ? e : null, { operation: 'create', userRefId: data.userRefId, tripRefId: data.tripRefId });
 			return err(new DatabaseError('Failed to create inscription', e));
 		}
 	}
 
+	/**
+	 * Updates the status of an inscription.
+	 * Moving to ACTIVE takes a seat, so it runs under the same trip row lock as
+	 * {@link create} and is refused when the trip no longer takes bookings or is
+	 * already full.
+	 * @param id - The UUID of the inscription to update.
+	 * @param status - The new inscription status.
+	 * @returns `ok(InscriptionEntity)` with the updated inscription,
+	 *          `err(TripNotBookableError)` when activating on a trip that no longer takes bookings,
+	 *          `err(NoSeatsAvailableError)` when activating on a full trip,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async updateStatus(id: string, status: InscriptionStatus): Promise<Result<InscriptionEntity, DatabaseError | NoSeatsAvailableError | TripNotBookableError>> {
+		try {
+			if (status === 'ACTIVE') {
+				const outcome = await this.prisma.$transaction(async (tx): Promise<SeatWriteOutcome> => {
+					const current = await tx.inscription.findUniqueOrThrow({
+						where: { id },
+						select: { tripRefId: true, pickupPosition: true, dropoffPosition: true },
+					});
+					const seats = await this.lockTripSeats(tx, current.tripRefId, current);
+					if (seats.refusal) {
+						return { refusal: seats.refusal, tripId: seats.tripId };
+					}
+					return { refusal: null, inscription: await tx.inscription.update({ where: { id }, data: { status } }) };
+				});
+				return this.toSeatResult(outcome);
+			}
+			const inscription = await this.prisma.inscription.update({
+				where: { id },
+				data: { status },
+			});
+			return ok(inscription);
+		} catch (e) {
+			this.logger.error('Failed to update inscription status', e instanceof Error ? e : null, { operation: 'updateStatus', inscriptionId: id, status });
+			return err(new DatabaseError('Failed to update inscription status', e));
+		}
+	}
+
+	/**
+	 * Cancels an inscription by setting its status to CANCELLED and recording
+	 * the cancellation timestamp and optional reason. The row is kept for history.
+	 * The outbox messages are recorded in the same transaction.
+	 * @param id - The UUID of the inscription to cancel.
+	 * @param reason - Optional reason given by the passenger.
+	 * @param outbox - Messages to record with the cancellation, such as the email to the driver.
+	 * @returns `ok(InscriptionEntity)` with the cancelled inscription,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async cancel(id: string, reason?: string, outbox: CreateOutboxMessageData[] = []): Promise<Result<InscriptionEntity, DatabaseError>> {
+		try {
+			const inscription = await this.prisma.$transaction(async (tx) => {
+				const cancelled = await tx.inscription.update({
+					where: { id },
+					data: {
+						status: 'CANCELLED',
+						cancelledAt: new Date(),
+						cancellationReason: reason ?? null,
+					},
+				});
+				await writeOutboxMessages(tx, outbox);
+				return cancelled;
+			});
+			return ok(inscription);
+		} catch (e) {
+			this.logger.error('Failed to cancel inscription', e instanceof Error ? e : null, { operation: 'cancel', inscriptionId: id });
+			return err(new DatabaseError('Failed to cancel inscription', e));
+		}
+	}
+
 	/**
 	 * Deletes an inscription by UUID.
 	 * @param id - The UUID of the inscription to delete.
@@ -218,6 +405,7 @@ export class PrismaInscriptionRepository implements InscriptionRepository {
 
 	/**
 	 * Checks if a user is already inscribed to a specific trip.
+	 * Cancelled inscriptions are excluded so that the user may book again.
 	 * Uses a count query for efficiency to avoid loading the full record.
 	 * @param userRefId - The integer refId of the user.
 	 * @param tripRefId - The integer refId of the trip.
@@ -228,7 +416,7 @@ export class PrismaInscriptionRepository implements InscriptionRepository {
 		try {
 			// Count query is more efficient than findFirst for existence checks
 			const count = await this.prisma.inscription.count({
-				where: { userRefId, tripRefId },
+				where: { userRefId, tripRefId, status: { not: 'CANCELLED' } },
 			});
 			return ok(count > 0);
 		} catch (e) {
@@ -238,15 +426,16 @@ export class PrismaInscriptionRepository implements InscriptionRepository {
 	}
 
 	/**
-	 * Counts the number of inscriptions for a given trip.
-	 * Used to check seat availability before allowing new inscriptions.
+	 * Counts the number of accepted (ACTIVE) inscriptions for a given trip.
+	 * Pending, rejected and cancelled inscriptions do not hold a seat and are excluded.
+	 * Bookings themselves are checked per segment under the trip row lock in {@link create}.
 	 * @param tripRefId - The integer refId of the trip.
 	 * @returns `ok(number)` with the inscription count, or `err(DatabaseError)` on failure.
 	 */
 	async countByTripRefId(tripRefId: number): Promise<Result<number, DatabaseError>> {
 		try {
 			const count = await this.prisma.inscription.count({
-				where: { tripRefId },
+				where: { tripRefId, status: 'ACTIVE' },
 			});
 			return ok(count);
 		} catch (e) {
@@ -254,4 +443,53 @@ export class PrismaInscriptionRepository implements InscriptionRepository {
 			return err(new DatabaseError('Failed to count inscriptions for trip', e));
 		}
 	}
+
+	/**
+	 * Locks the trip row (`SELECT ... FOR UPDATE`) until the surrounding transaction
+	 * ends and reports whether it still takes bookings and has a seat free on every
+	 * leg of a segment. Concurrent seat-taking writes and status changes on the same
+	 * trip queue on this lock, so the trip and bookings read here stay valid until commit.
+	 * @param tx - The interactive transaction client.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @param segment - The pickup/dropoff positions that the write would occupy.
+	 * @returns The trip UUID and why it refuses the seat, or null when the seat can be taken.
+	 */
+	private async lockTripSeats(tx: Prisma.TransactionClient, tripRefId: number, segment: TripSegment): Promise<{ tripId: string; refusal: SeatRefusal | null }> {
+		const rows = await tx.$queryRaw<{ id: string; seats: number; status: TripStatus; date_trip: Date }[]>`
+			SELECT "id", "seats", "status", "date_trip" FROM "trips" WHERE "ref_id" = ${tripRefId} FOR UPDATE`;
+		const trip = rows[0];
+		if (!trip) {
+			throw new Error(`Trip not found for ref id ${tripRefId}`);
+		}
+		if (!isBookable({ status: trip.status, dateTrip: trip.date_trip }, new Date())) {
+			return { tripId: trip.id, refusal: 'NOT_BOOKABLE' };
+		}
+		// Only bookings sharing at least one leg with the segment can compete for its seats
+		const booked = await tx.inscription.findMany({
+			where: {
+				tripRefId,
+				status: 'ACTIVE',
+				pickupPosition: { lt: segment.dropoffPosition },
+				dropoffPosition: { gt: segment.pickupPosition },
+			},
+			select: { pickupPosition: true, dropoffPosition: true },
+		});
+		return { tripId: trip.id, refusal: hasFreeSeatOnSegment(trip.seats, booked, segment) ? null : 'FULL' };
+	}
+
+	/**
+	 * Maps a transactional seat write outcome to a Result, turning a closed trip
+	 * into TripNotBookableError and a full trip into NoSeatsAvailableError.
+	 */
+	private toSeatResult(outcome: SeatWriteOutcome): Result<InscriptionEntity, NoSeatsAvailableError | TripNotBookableError> {
+		if (outcome.refusal === null) {
+			return ok(outcome.inscription);
+		}
+		if (outcome.refusal === 'NOT_BOOKABLE') {
+			this.logger.warn('Trip no longer takes bookings', { tripId: outcome.tripId });
+			return err(new TripNotBookableError(outcome.tripId));
+		}
+		this.logger.warn('No seats available on trip', { tripId: outcome.tripId });
+		return err(new NoSeatsAvailableError(outcome.tripId));
+	}
 }
@@ -0,0 +1,291 @@
+/**
+ * @file Unit tests for the PrismaOutboxRepository.
+ *
+ * Tests queueing, claiming due messages, recording delivery outcomes, listing, lookup,
+ * the conditional replay of dead messages and the transactional write helper.
+ * Each method is tested for success and DB error propagation using a mock PrismaClient.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { PrismaOutboxRepository, writeOutboxMessages } from './prisma-outbox.repository.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { createMockLogger } from '../../../../tests/setup.js';
+import type { Prisma } from '../generated/prisma/client.js';
+
+function createMockPrisma() {
+    return {
+        outboxMessage: {
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            update: vi.fn(),
+            updateMany: vi.fn(),
+            count: vi.fn(),
+            createMany: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    };
+}
+
+const now = new Date('2026-10-18T10:00:00Z');
+const payload = { to: 'jane@example.com', locale: 'fr' as const, message: { template: 'welcome' as const, variables: { firstName: null } } };
+const message = {
+    id: 'message-1',
+    type: 'EMAIL',
+    payload,
+    status: 'PENDING',
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+    createdAt: now,
+    processedAt: null,
+};
+
+describe('PrismaOutboxRepository', () => {
+    let repository: PrismaOutboxRepository;
+    let mockPrisma: ReturnType<typeof createMockPrisma>;
+
+    beforeEach(() => {
+        container.clearInstances();
+        mockPrisma = createMockPrisma();
+        container.register(TOKENS.PrismaClient, { useValue: mockPrisma });
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        repository = container.resolve(PrismaOutboxRepository);
+    });
+
+    describe('claimDue()', () => {
+        it('should load the claimed messages', async () => {
+            const claimed = { ...message, status: 'PROCESSING', attempts: 1 };
+            mockPrisma.$queryRaw.mockResolvedValue([{ id: 'message-1' }]);
+            mockPrisma.outboxMessage.findMany.mockResolvedValue([claimed]);
+
+            const result = await repository.claimDue(now, 10, new Date('2026-10-18T10:01:00Z'));
+
+            expect(result).toEqual({ success: true, value: [claimed] });
+            expect(mockPrisma.outboxMessage.findMany).toHaveBeenCalledWith({
+                where: { id: { in: ['message-1'] } },
+                orderBy: { createdAt: 'asc' },
+            });
+        });
+
+        it('should return an empty list without a lookup when nothing is due', async () => {
+            mockPrisma.$queryRaw.mockResolvedValue([]);
+
+            const result = await repository.claimDue(now, 10, now);
+
+            expect(result).toEqual({ success: true, value: [] });
+            expect(mockPrisma.outboxMessage.findMany).not.toHaveBeenCalled();
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.$queryRaw.mockRejectedValue(new Error('Connection lost'));
+
+            const result = await repository.claimDue(now, 10, now);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+                expect(result.error.message).toBe('Failed to claim outbox messages');
+            }
+        });
+    });
+
+    describe('markSent()', () => {
+        it('should mark the message as sent', async () => {
+            mockPrisma.outboxMessage.update.mockResolvedValue({});
+
+            const result = await repository.markSent('message-1', now);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.outboxMessage.update).toHaveBeenCalledWith({
+                where: { id: 'message-1' },
+                data: { status: 'SENT', processedAt: now, lastError: null },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.outboxMessage.update.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.markSent('message-1', now);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('markFailed()', () => {
+        it('should put the message back in the queue with the error', async () => {
+            mockPrisma.outboxMessage.update.mockResolvedValue({});
+            const nextAttemptAt = new Date('2026-10-18T10:05:00Z');
+
+            const result = await repository.markFailed('message-1', 'SMTP timeout', nextAttemptAt);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.outboxMessage.update).toHaveBeenCalledWith({
+                where: { id: 'message-1' },
+                data: { status: 'PENDING', lastError: 'SMTP timeout', nextAttemptAt },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.outboxMessage.update.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.markFailed('message-1', 'SMTP timeout', now);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('markDead()', () => {
+        it('should mark the message as dead with the error', async () => {
+            mockPrisma.outboxMessage.update.mockResolvedValue({});
+
+            const result = await repository.markDead('message-1', 'SMTP timeout', now);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.outboxMessage.update).toHaveBeenCalledWith({
+                where: { id: 'message-1' },
+                data: { status: 'DEAD', lastError: 'SMTP timeout', processedAt: now },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.outboxMessage.update.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.markDead('message-1', 'SMTP timeout', now);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('findAll()', () => {
+        it('should return a page of messages filtered by status', async () => {
+            mockPrisma.outboxMessage.findMany.mockResolvedValue([message]);
+            mockPrisma.outboxMessage.count.mockResolvedValue(1);
+
+            const result = await repository.findAll({ status: 'DEAD' }, { skip: 20, take: 20 });
+
+            expect(result).toEqual({ success: true, value: { data: [message], total: 1 } });
+            expect(mockPrisma.outboxMessage.findMany).toHaveBeenCalledWith({
+                where: { status: 'DEAD' },
+                orderBy: { createdAt: 'desc' },
+                skip: 20,
+                take: 20,
+            });
+            expect(mockPrisma.outboxMessage.count).toHaveBeenCalledWith({ where: { status: 'DEAD' } });
+        });
+
+        it('should not filter when no status is given', async () => {
+            mockPrisma.outboxMessage.findMany.mockResolvedValue([]);
+            mockPrisma.outboxMessage.count.mockResolvedValue(0);
+
+            await repository.findAll({}, { skip: 0, take: 20 });
+
+            expect(mockPrisma.outboxMessage.count).toHaveBeenCalledWith({ where: {} });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.outboxMessage.findMany.mockRejectedValue(new Error('Query failed'));
+            mockPrisma.outboxMessage.count.mockResolvedValue(0);
+
+            const result = await repository.findAll({}, { skip: 0, take: 20 });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('findById()', () => {
+        it('should return ok(message) when found', async () => {
+            mockPrisma.outboxMessage.findUnique.mockResolvedValue(message);
+
+            const result = await repository.findById('message-1');
+
+            expect(result).toEqual({ success: true, value: message });
+            expect(mockPrisma.outboxMessage.findUnique).toHaveBeenCalledWith({ where: { id: 'message-1' } });
+        });
+
+        it('should return ok(null) when not found', async () => {
+            mockPrisma.outboxMessage.findUnique.mockResolvedValue(null);
+
+            const result = await repository.findById('unknown');
+
+            expect(result).toEqual({ success: true, value: null });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.outboxMessage.findUnique.mockRejectedValue(new Error('Query failed'));
+
+            const result = await repository.findById('message-1');
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('replay()', () => {
+        it('should requeue a dead message with a fresh attempt count', async () => {
+            mockPrisma.outboxMessage.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma.outboxMessage.findUnique.mockResolvedValue(message);
+
+            const result = await repository.replay('message-1', now);
+
+            expect(result).toEqual({ success: true, value: message });
+            expect(mockPrisma.outboxMessage.updateMany).toHaveBeenCalledWith({
+                where: { id: 'message-1', status: 'DEAD' },
+                data: { status: 'PENDING', attempts: 0, nextAttemptAt: now, processedAt: null },
+            });
+        });
+
+        it('should return ok(null) when the message is not dead', async () => {
+            mockPrisma.outboxMessage.updateMany.mockResolvedValue({ count: 0 });
+
+            const result = await repository.replay('message-1', now);
+
+            expect(result).toEqual({ success: true, value: null });
+            expect(mockPrisma.outboxMessage.findUnique).not.toHaveBeenCalled();
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.outboxMessage.updateMany.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.replay('message-1', now);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+});
+
+describe('writeOutboxMessages()', () => {
+    it('should record every message with the transaction client', async () => {
+        const tx = { outboxMessage: { createMany: vi.fn() } };
+
+        await writeOutboxMessages(tx as unknown as Prisma.TransactionClient, [{ type: 'EMAIL', payload }]);
+
+        expect(tx.outboxMessage.createMany).toHaveBeenCalledWith({ data: [{ type: 'EMAIL', payload }] });
+    });
+
+    it('should not write anything for an empty list', async () => {
+        const tx = { outboxMessage: { createMany: vi.fn() } };
+
+        await writeOutboxMessages(tx as unknown as Prisma.TransactionClient, []);
+
+        expect(tx.outboxMessage.createMany).not.toHaveBeenCalled();
+    });
+});
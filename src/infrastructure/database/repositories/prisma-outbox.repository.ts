@@ -0,0 +1,217 @@
+/**
+ * @module prisma-outbox.repository
+ * Prisma-backed implementation of the {@link OutboxRepository} domain interface.
+ * Persists the outbox messages delivered by the background worker. Claiming
+ * uses `FOR UPDATE SKIP LOCKED`, so several workers can poll the table
+ * without delivering a message twice. Also exports the helper that other
+ * repositories use to record messages inside their own transactions.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { CreateOutboxMessageData, OutboxEmail, OutboxMessageEntity } from '../../../domain/entities/outbox-message.entity.js';
+import type { OutboxMessageFilters, OutboxRepository } from '../../../domain/repositories/outbox.repository.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import type { Prisma, PrismaClient } from '../generated/prisma/client.js';
+
+type OutboxMessageRow = Omit<OutboxMessageEntity, 'payload'> & { payload: Prisma.JsonValue };
+
+/** Narrows the stored JSON payload to the domain payload type. */
+function toEntity(row: OutboxMessageRow): OutboxMessageEntity {
+	return { ...row, payload: row.payload as unknown as OutboxEmail };
+}
+
+/**
+ * Records outbox messages with the given transaction client, so they are
+ * committed or rolled back together with the business change that causes them.
+ * @param tx - The interactive transaction client.
+ * @param messages - The messages to record; nothing is written when empty.
+ */
+export async function writeOutboxMessages(tx: Prisma.TransactionClient, messages: CreateOutboxMessageData[]): Promise<void> {
+	if (messages.length === 0) {
+		return;
+	}
+	await tx.outboxMessage.createMany({
+		data: messages.map((message) => ({ type: message.type, payload: message.payload })),
+	});
+}
+
+/**
+ * Prisma implementation of {@link OutboxRepository}.
+ * Operates on the `outbox_messages` table.
+ * Injected via tsyringe with the PrismaClient token.
+ */
+@injectable()
+export class PrismaOutboxRepository implements OutboxRepository {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.PrismaClient)
+		private readonly prisma: PrismaClient,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ repository: 'OutboxRepository' });
+	}
+
+	/**
+	 * Claims due messages in a single statement: locked rows are skipped, and
+	 * the claimed rows get the PROCESSING status, an incremented attempt count
+	 * and `next_attempt_at` set to the claim expiry.
+	 * @param now - The current time.
+	 * @param limit - Maximum number of messages to claim.
+	 * @param claimUntil - When the claim expires.
+	 * @returns `ok(OutboxMessageEntity[])` with the claimed messages, or `err(DatabaseError)` on failure.
+	 */
+	async claimDue(now: Date, limit: number, claimUntil: Date): Promise<Result<OutboxMessageEntity[], DatabaseError>> {
+		try {
+			const claimed = await this.prisma.$queryRaw<{ id: string }[]>`
+				UPDATE "outbox_messages"
+				SET "status" = 'PROCESSING', "attempts" = "attempts" + 1, "next_attempt_at" = ${claimUntil}
+				WHERE "id" IN (
+					SELECT "id" FROM "outbox_messages"
+					WHERE "status" IN ('PENDING', 'PROCESSING') AND "next_attempt_at" <= ${now}
+					ORDER BY "next_attempt_at"
+					LIMIT ${limit}
+					FOR UPDATE SKIP LOCKED
+				)
+				RETURNING "id"`;
+			if (claimed.length === 0) {
+				return ok([]);
+			}
+			const messages = await this.prisma.outboxMessage.findMany({
+				where: { id: { in: claimed.map((row) => row.id) } },
+				orderBy: { createdAt: 'asc' },
+			});
+			return ok(messages.map(toEntity));
+		} catch (e) {
+			this.logger.error('Failed to claim outbox messages', e instanceof Error ? e : null, { operation: 'claimDue', limit });
+			return err(new DatabaseError('Failed to claim outbox messages', e));
+		}
+	}
+
+	/**
+	 * Marks a message as sent.
+	 * @param id - The UUID of the message.
+	 * @param sentAt - When the message was delivered.
+	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async markSent(id: string, sentAt: Date): Promise<Result<void, DatabaseError>> {
+		try {
+			await this.prisma.outboxMessage.update({
+				where: { id },
+				data: { status: 'SENT', processedAt: sentAt, lastError: null },
+			});
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Failed to mark outbox message as sent', e instanceof Error ? e : null, { operation: 'markSent', messageId: id });
+			return err(new DatabaseError('Failed to mark outbox message as sent', e));
+		}
+	}
+
+	/**
+	 * Returns a message to PENDING with the error of the failed attempt.
+	 * @param id - The UUID of the message.
+	 * @param error - Why the attempt failed.
+	 * @param nextAttemptAt - When to try again.
+	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async markFailed(id: string, error: string, nextAttemptAt: Date): Promise<Result<void, DatabaseError>> {
+		try {
+			await this.prisma.outboxMessage.update({
+				where: { id },
+				data: { status: 'PENDING', lastError: error, nextAttemptAt },
+			});
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Failed to record outbox message failure', e instanceof Error ? e : null, { operation: 'markFailed', messageId: id });
+			return err(new DatabaseError('Failed to record outbox message failure', e));
+		}
+	}
+
+	/**
+	 * Marks a message as dead with the error of its last attempt.
+	 * @param id - The UUID of the message.
+	 * @param error - Why the last attempt failed.
+	 * @param deadAt - When the message was given up on.
+	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async markDead(id: string, error: string, deadAt: Date): Promise<Result<void, DatabaseError>> {
+		try {
+			await this.prisma.outboxMessage.update({
+				where: { id },
+				data: { status: 'DEAD', lastError: error, processedAt: deadAt },
+			});
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Failed to mark outbox message as dead', e instanceof Error ? e : null, { operation: 'markDead', messageId: id });
+			return err(new DatabaseError('Failed to mark outbox message as dead', e));
+		}
+	}
+
+	/**
+	 * Retrieves a page of messages, newest first, optionally filtered by status.
+	 * @param filters - Optional status filter.
+	 * @param params - Pagination parameters (skip/take).
+	 * @returns `ok({ data, total })` on success, or `err(DatabaseError)` on failure.
+	 */
+	async findAll(
+		filters: OutboxMessageFilters,
+		params: { skip: number; take: number },
+	): Promise<Result<{ data: OutboxMessageEntity[]; total: number }, DatabaseError>> {
+		try {
+			const where = filters.status ? { status: filters.status } : {};
+			// Parallel queries: paginated data + total count
+			const [messages, total] = await Promise.all([
+				this.prisma.outboxMessage.findMany({ where, orderBy: { createdAt: 'desc' }, skip: params.skip, take: params.take }),
+				this.prisma.outboxMessage.count({ where }),
+			]);
+			return ok({ data: messages.map(toEntity), total });
+		} catch (e) {
+			this.logger.error('Failed to find outbox messages', e instanceof Error ? e : null, { operation: 'findAll', ...filters });
+			return err(new DatabaseError('Failed to find outbox messages', e));
+		}
+	}
+
+	/**
+	 * Finds a message by its UUID.
+	 * @param id - The UUID of the message.
+	 * @returns `ok(OutboxMessageEntity)` if found, `ok(null)` if not found,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async findById(id: string): Promise<Result<OutboxMessageEntity | null, DatabaseError>> {
+		try {
+			const message = await this.prisma.outboxMessage.findUnique({ where: { id } });
+			return ok(message ? toEntity(message) : null);
+		} catch (e) {
+			this.logger.error('Failed to find outbox message', e instanceof Error ? e : null, { operation: 'findById', messageId: id });
+			return err(new DatabaseError('Failed to find outbox message', e));
+		}
+	}
+
+	/**
+	 * Requeues a dead message with a conditional update, so only DEAD messages are affected.
+	 * @param id - The UUID of the message.
+	 * @param now - When the message becomes due again.
+	 * @returns `ok(OutboxMessageEntity)` with the requeued message, `ok(null)` if it is not dead,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async replay(id: string, now: Date): Promise<Result<OutboxMessageEntity | null, DatabaseError>> {
+		try {
+			const { count } = await this.prisma.outboxMessage.updateMany({
+				where: { id, status: 'DEAD' },
+				data: { status: 'PENDING', attempts: 0, nextAttemptAt: now, processedAt: null },
+			});
+			if (count === 0) {
+				return ok(null);
+			}
+			const message = await this.prisma.outboxMessage.findUnique({ where: { id } });
+			return ok(message ? toEntity(message) : null);
+		} catch (e) {
+			this.logger.error('Failed to replay outbox message', e instanceof Error ? e : null, { operation: 'replay', messageId: id });
+			return err(new DatabaseError('Failed to replay outbox message', e));
+		}
+	}
+}
@@ -0,0 +1,189 @@
+/**
+ * @file Unit tests for the PrismaReviewRepository.
+ *
+ * Tests recording a review, the existence check on the unique constraint,
+ * the paginated listing of received reviews and the aggregation of driver ratings.
+ * Each method is tested for success and DB error propagation using a mock PrismaClient.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { PrismaReviewRepository } from './prisma-review.repository.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { createMockLogger } from '../../../../tests/setup.js';
+
+function createMockPrisma() {
+    return {
+        review: {
+            create: vi.fn(),
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+            count: vi.fn(),
+            groupBy: vi.fn(),
+        },
+        driver: {
+            findMany: vi.fn(),
+        },
+    };
+}
+
+const withAuthor = { author: { select: { id: true, firstName: true, lastName: true } } };
+const reviewData = {
+    tripRefId: 1,
+    authorRefId: 2,
+    subjectRefId: 3,
+    direction: 'PASSENGER_TO_DRIVER' as const,
+    score: 4,
+    comment: 'Smooth ride',
+};
+const review = {
+    id: 'review-1',
+    ...reviewData,
+    createdAt: new Date('2026-10-18T10:00:00Z'),
+    author: { id: 'user-2', firstName: 'Jane', lastName: 'Doe' },
+};
+
+describe('PrismaReviewRepository', () => {
+    let repository: PrismaReviewRepository;
+    let mockPrisma: ReturnType<typeof createMockPrisma>;
+
+    beforeEach(() => {
+        container.clearInstances();
+        mockPrisma = createMockPrisma();
+        container.register(TOKENS.PrismaClient, { useValue: mockPrisma });
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        repository = container.resolve(PrismaReviewRepository);
+    });
+
+    describe('create()', () => {
+        it('should create the review with its author', async () => {
+            mockPrisma.review.create.mockResolvedValue(review);
+
+            const result = await repository.create(reviewData);
+
+            expect(result).toEqual({ success: true, value: review });
+            expect(mockPrisma.review.create).toHaveBeenCalledWith({ data: reviewData, include: withAuthor });
+        });
+
+        it('should return DatabaseError on failure', async () => {
+            mockPrisma.review.create.mockRejectedValue(new Error('Unique constraint failed'));
+
+            const result = await repository.create(reviewData);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+                expect(result.error.message).toBe('Failed to create review');
+            }
+        });
+    });
+
+    describe('exists()', () => {
+        it('should look the review up by trip, author and reviewed user', async () => {
+            mockPrisma.review.findUnique.mockResolvedValue({ id: 'review-1' });
+
+            const result = await repository.exists(1, 2, 3);
+
+            expect(result).toEqual({ success: true, value: true });
+            expect(mockPrisma.review.findUnique).toHaveBeenCalledWith({
+                where: { tripRefId_authorRefId_subjectRefId: { tripRefId: 1, authorRefId: 2, subjectRefId: 3 } },
+                select: { id: true },
+            });
+        });
+
+        it('should return false when there is no review', async () => {
+            mockPrisma.review.findUnique.mockResolvedValue(null);
+
+            const result = await repository.exists(1, 2, 3);
+
+            expect(result).toEqual({ success: true, value: false });
+        });
+
+        it('should return DatabaseError on failure', async () => {
+            mockPrisma.review.findUnique.mockRejectedValue(new Error('db down'));
+
+            const result = await repository.exists(1, 2, 3);
+
+            expect(result.success).toBe(false);
+            if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+        });
+    });
+
+    describe('findBySubjectRefId()', () => {
+        it('should list the reviews received in one direction, newest first', async () => {
+            mockPrisma.review.findMany.mockResolvedValue([review]);
+            mockPrisma.review.count.mockResolvedValue(11);
+
+            const result = await repository.findBySubjectRefId(3, 'PASSENGER_TO_DRIVER', { skip: 10, take: 10 });
+
+            expect(result).toEqual({ success: true, value: { data: [review], total: 11 } });
+            expect(mockPrisma.review.findMany).toHaveBeenCalledWith({
+                where: { subjectRefId: 3, direction: 'PASSENGER_TO_DRIVER' },
+                include: withAuthor,
+                orderBy: { createdAt: 'desc' },
+                skip: 10,
+                take: 10,
+            });
+            expect(mockPrisma.review.count).toHaveBeenCalledWith({ where: { subjectRefId: 3, direction: 'PASSENGER_TO_DRIVER' } });
+        });
+
+        it('should return DatabaseError on failure', async () => {
+            mockPrisma.review.findMany.mockRejectedValue(new Error('db down'));
+            mockPrisma.review.count.mockResolvedValue(0);
+
+            const result = await repository.findBySubjectRefId(3, 'DRIVER_TO_PASSENGER', { skip: 0, take: 20 });
+
+            expect(result.success).toBe(false);
+            if (!result.success) expect(result.error.message).toBe('Failed to find reviews');
+        });
+    });
+
+    describe('summarizeDrivers()', () => {
+        it('should aggregate the ratings drivers received from passengers', async () => {
+            mockPrisma.driver.findMany.mockResolvedValue([{ refId: 10, userRefId: 3 }, { refId: 11, userRefId: 4 }]);
+            mockPrisma.review.groupBy.mockResolvedValue([{ subjectRefId: 3, _avg: { score: 4.333333 }, _count: { _all: 3 } }]);
+
+            const result = await repository.summarizeDrivers([10, 11]);
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value.get(10)).toEqual({ average: 4.3, count: 3 });
+                expect(result.value.get(11)).toEqual({ average: null, count: 0 });
+            }
+            expect(mockPrisma.review.groupBy).toHaveBeenCalledWith({
+                by: ['subjectRefId'],
+                where: { direction: 'PASSENGER_TO_DRIVER', subjectRefId: { in: [3, 4] } },
+                _avg: { score: true },
+                _count: { _all: true },
+            });
+        });
+
+        it('should not query the database without drivers', async () => {
+            const result = await repository.summarizeDrivers([]);
+
+            expect(result.success).toBe(true);
+            if (result.success) expect(result.value.size).toBe(0);
+            expect(mockPrisma.driver.findMany).not.toHaveBeenCalled();
+        });
+
+        // Unknown drivers still get an empty summary
+        it('should return an empty summary for a driver that does not exist', async () => {
+            mockPrisma.driver.findMany.mockResolvedValue([]);
+            mockPrisma.review.groupBy.mockResolvedValue([]);
+
+            const result = await repository.summarizeDrivers([99]);
+
+            expect(result.success && result.value.get(99)).toEqual({ average: null, count: 0 });
+        });
+
+        it('should return DatabaseError on failure', async () => {
+            mockPrisma.driver.findMany.mockRejectedValue(new Error('db down'));
+
+            const result = await repository.summarizeDrivers([10]);
+
+            expect(result.success).toBe(false);
+            if (!result.success) expect(result.error.message).toBe('Failed to summarize driver ratings');
+        });
+    });
+});
@@ -0,0 +1,141 @@
+/**
+ * @module prisma-review.repository
+ * Prisma-backed implementation of the {@link ReviewRepository} domain interface.
+ * Persists the reviews left after trips in the `reviews` table, where a unique
+ * constraint on (trip, author, reviewed user) enforces one review per trip.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { CreateReviewData, RatingSummary, ReviewDirection, ReviewEntity } from '../../../domain/entities/review.entity.js';
+import type { ReviewRepository } from '../../../domain/repositories/review.repository.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import type { PrismaClient } from '../generated/prisma/client.js';
+
+/** Loads the public identity of the author with each review. */
+const WITH_AUTHOR = {
+	author: { select: { id: true, firstName: true, lastName: true } },
+} as const;
+
+/** Rounds an average score to one decimal, as shown to users. */
+function roundAverage(average: number | null): number | null {
+	return average === null ? null : Math.round(average * 10) / 10;
+}
+
+/**
+ * Prisma implementation of {@link ReviewRepository}.
+ * Operates on the `reviews` table, joining `drivers` to aggregate driver ratings.
+ * Injected via tsyringe with the PrismaClient token.
+ */
+@injectable()
+export class PrismaReviewRepository implements ReviewRepository {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.PrismaClient)
+		private readonly prisma: PrismaClient,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ repository: 'ReviewRepository' });
+	}
+
+	/**
+	 * Creates a review and returns it with its author.
+	 * @param data - The trip, the author, the reviewed user, the direction, the score and the comment.
+	 * @returns `ok(ReviewEntity)` on success, or `err(DatabaseError)` on failure
+	 *          (e.g. unique constraint violation on a concurrent duplicate).
+	 */
+	async create(data: CreateReviewData): Promise<Result<ReviewEntity, DatabaseError>> {
+		try {
+			const review = await this.prisma.review.create({ data, include: WITH_AUTHOR });
+			return ok(review);
+		} catch (e) {
+			this.logger.error('Failed to create review', e instanceof Error ? e : null, { operation: 'create', tripRefId: data.tripRefId });
+			return err(new DatabaseError('Failed to create review', e));
+		}
+	}
+
+	/**
+	 * Checks for a review through the (trip, author, reviewed user) unique constraint.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @param authorRefId - The integer refId of the author.
+	 * @param subjectRefId - The integer refId of the reviewed user.
+	 * @returns `ok(true)` if it exists, `ok(false)` otherwise, or `err(DatabaseError)` on failure.
+	 */
+	async exists(tripRefId: number, authorRefId: number, subjectRefId: number): Promise<Result<boolean, DatabaseError>> {
+		try {
+			const review = await this.prisma.review.findUnique({
+				where: { tripRefId_authorRefId_subjectRefId: { tripRefId, authorRefId, subjectRefId } },
+				select: { id: true },
+			});
+			return ok(review !== null);
+		} catch (e) {
+			this.logger.error('Failed to check review existence', e instanceof Error ? e : null, { operation: 'exists', tripRefId, authorRefId });
+			return err(new DatabaseError('Failed to check review existence', e));
+		}
+	}
+
+	/**
+	 * Retrieves a page of the reviews a user received in one direction, newest first.
+	 * @param subjectRefId - The integer refId of the reviewed user.
+	 * @param direction - Reviews received as a driver or as a passenger.
+	 * @param params - Pagination parameters (skip/take).
+	 * @returns `ok({ data, total })` on success, or `err(DatabaseError)` on failure.
+	 */
+	async findBySubjectRefId(
+		subjectRefId: number,
+		direction: ReviewDirection,
+		params: { skip: number; take: number },
+	): Promise<Result<{ data: ReviewEntity[]; total: number }, DatabaseError>> {
+		try {
+			const where = { subjectRefId, direction };
+			// Parallel queries: paginated data + total count
+			const [reviews, total] = await Promise.all([
+				this.prisma.review.findMany({ where, include: WITH_AUTHOR, orderBy: { createdAt: 'desc' }, skip: params.skip, take: params.take }),
+				this.prisma.review.count({ where }),
+			]);
+			return ok({ data: reviews, total });
+		} catch (e) {
+			this.logger.error('Failed to find reviews', e instanceof Error ? e : null, { operation: 'findBySubjectRefId', subjectRefId, direction });
+			return err(new DatabaseError('Failed to find reviews', e));
+		}
+	}
+
+	/**
+	 * Aggregates driver ratings in two queries: the drivers are resolved to their
+	 * users, then the reviews those users received from passengers are grouped.
+	 * @param driverRefIds - The integer refIds of the drivers.
+	 * @returns `ok(Map)` with a summary for every requested driver, or `err(DatabaseError)` on failure.
+	 */
+	async summarizeDrivers(driverRefIds: number[]): Promise<Result<Map<number, RatingSummary>, DatabaseError>> {
+		const summaries = new Map<number, RatingSummary>(driverRefIds.map((refId) => [refId, { average: null, count: 0 }]));
+		if (driverRefIds.length === 0) {
+			return ok(summaries);
+		}
+		try {
+			const drivers = await this.prisma.driver.findMany({
+				where: { refId: { in: driverRefIds } },
+				select: { refId: true, userRefId: true },
+			});
+			const groups = await this.prisma.review.groupBy({
+				by: ['subjectRefId'],
+				where: { direction: 'PASSENGER_TO_DRIVER', subjectRefId: { in: drivers.map((driver) => driver.userRefId) } },
+				_avg: { score: true },
+				_count: { _all: true },
+			});
+			for (const driver of drivers) {
+				const group = groups.find((g) => g.subjectRefId === driver.userRefId);
+				if (group) {
+					summaries.set(driver.refId, { average: roundAverage(group._avg.score), count: group._count._all });
+				}
+			}
+			return ok(summaries);
+		} catch (e) {
+			this.logger.error('Failed to summarize driver ratings', e instanceof Error ? e : null, { operation: 'summarizeDrivers', driverCount: driverRefIds.length });
+			return err(new DatabaseError('Failed to summarize driver ratings', e));
+		}
+	}
+}
@@ -0,0 +1,239 @@
+/**
+ * @file Unit tests for the PrismaSessionRepository.
+ *
+ * Tests session creation with the first refresh token, lookups, the
+ * conditional refresh token rotation, and session revocation. Each method is
+ * tested for success and DB error propagation using a mock PrismaClient.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { PrismaSessionRepository } from './prisma-session.repository.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { createMockLogger } from '../../../../tests/setup.js';
+
+function createMockPrisma() {
+    const txRefreshToken = { updateMany: vi.fn(), findUniqueOrThrow: vi.fn(), create: vi.fn() };
+    return {
+        session: {
+            create: vi.fn(),
+            findUnique: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        refreshToken: {
+            findUnique: vi.fn(),
+        },
+        $transaction: vi.fn((fn: (tx: unknown) => Promise<unknown>) => fn({ refreshToken: txRefreshToken })),
+        _txRefreshToken: txRefreshToken,
+    };
+}
+
+const session = { id: 'session-1', userRefId: 1, createdAt: new Date(), revokedAt: null, revokedReason: null };
+const expiresAt = new Date('2030-01-01');
+
+describe('PrismaSessionRepository', () => {
+    let repository: PrismaSessionRepository;
+    let mockPrisma: ReturnType<typeof createMockPrisma>;
+
+    beforeEach(() => {
+        container.clearInstances();
+        mockPrisma = createMockPrisma();
+        container.register(TOKENS.PrismaClient, { useValue: mockPrisma });
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        repository = container.resolve(PrismaSessionRepository);
+    });
+
+    describe('create()', () => {
+        it('should create the session with its first refresh token', async () => {
+            mockPrisma.session.create.mockResolvedValue(session);
+
+            const result = await repository.create(1, { tokenHash: 'hash-1', expiresAt });
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value).toEqual(session);
+            }
+            expect(mockPrisma.session.create).toHaveBeenCalledWith({
+                data: { userRefId: 1, refreshTokens: { create: { tokenHash: 'hash-1', expiresAt } } },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.session.create.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.create(1, { tokenHash: 'hash-1', expiresAt });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('findById()', () => {
+        it('should return ok(session) when found', async () => {
+            mockPrisma.session.findUnique.mockResolvedValue(session);
+
+            const result = await repository.findById('session-1');
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value).toEqual(session);
+            }
+            expect(mockPrisma.session.findUnique).toHaveBeenCalledWith({ where: { id: 'session-1' } });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.session.findUnique.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.findById('session-1');
+
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('findRefreshToken()', () => {
+        it('should return the token with its session and owner', async () => {
+            mockPrisma.refreshToken.findUnique.mockResolvedValue({
+                id: 'token-1',
+                tokenHash: 'hash-1',
+                sessionId: 'session-1',
+                expiresAt,
+                usedAt: null,
+                createdAt: new Date(),
+                session: { ...session, user: { id: 'user-1', anonymizedAt: null, auth: { role: 'DRIVER' } } },
+            });
+
+            const result = await repository.findRefreshToken('hash-1');
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value?.session).toEqual(session);
+                expect(result.value?.owner).toEqual({ userId: 'user-1', role: 'DRIVER', anonymizedAt: null });
+            }
+            expect(mockPrisma.refreshToken.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { tokenHash: 'hash-1' } }));
+        });
+
+        it('should return ok(null) when no token has this hash', async () => {
+            mockPrisma.refreshToken.findUnique.mockResolvedValue(null);
+
+            const result = await repository.findRefreshToken('unknown');
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value).toBeNull();
+            }
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.refreshToken.findUnique.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.findRefreshToken('hash-1');
+
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('rotateRefreshToken()', () => {
+        it('should mark the token as used and create its successor', async () => {
+            mockPrisma._txRefreshToken.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma._txRefreshToken.findUniqueOrThrow.mockResolvedValue({ id: 'token-1', sessionId: 'session-1' });
+
+            const result = await repository.rotateRefreshToken('token-1', { tokenHash: 'hash-2', expiresAt });
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value).toBe(true);
+            }
+            expect(mockPrisma._txRefreshToken.updateMany).toHaveBeenCalledWith({
+                where: { id: 'token-1', usedAt: null },
+                data: { usedAt: expect.any(Date) },
+            });
+            expect(mockPrisma._txRefreshToken.create).toHaveBeenCalledWith({
+                data: { sessionId: 'session-1', tokenHash: 'hash-2', expiresAt },
+            });
+        });
+
+        it('should return ok(false) without issuing a successor when the token was already used', async () => {
+            mockPrisma._txRefreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+            const result = await repository.rotateRefreshToken('token-1', { tokenHash: 'hash-2', expiresAt });
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value).toBe(false);
+            }
+            expect(mockPrisma._txRefreshToken.create).not.toHaveBeenCalled();
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma._txRefreshToken.updateMany.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.rotateRefreshToken('token-1', { tokenHash: 'hash-2', expiresAt });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('revoke()', () => {
+        it('should revoke the session only while it is active', async () => {
+            mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+
+            const result = await repository.revoke('session-1', 'LOGOUT');
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+                where: { id: 'session-1', revokedAt: null },
+                data: { revokedAt: expect.any(Date), revokedReason: 'LOGOUT' },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.session.updateMany.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.revoke('session-1', 'LOGOUT');
+
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('revokeAllForUser()', () => {
+        it('should revoke every active session of the user and return the count', async () => {
+            mockPrisma.session.updateMany.mockResolvedValue({ count: 3 });
+
+            const result = await repository.revokeAllForUser(1, 'LOGOUT_ALL');
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.value).toBe(3);
+            }
+            expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+                where: { userRefId: 1, revokedAt: null },
+                data: { revokedAt: expect.any(Date), revokedReason: 'LOGOUT_ALL' },
+            });
+        });
+
+        it('should keep the excepted session active', async () => {
+            mockPrisma.session.updateMany.mockResolvedValue({ count: 2 });
+
+            await repository.revokeAllForUser(1, 'PASSWORD_CHANGE', 'session-1');
+
+            expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+                where: { userRefId: 1, revokedAt: null, NOT: { id: 'session-1' } },
+                data: { revokedAt: expect.any(Date), revokedReason: 'PASSWORD_CHANGE' },
+            });
+        });
+
+        it('should return err(DatabaseError) on Prisma error', async () => {
+            mockPrisma.session.updateMany.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.revokeAllForUser(1, 'LOGOUT_ALL');
+
+            expect(result.success).toBe(false);
+        });
+    });
+});
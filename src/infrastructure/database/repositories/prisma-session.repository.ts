@@ -0,0 +1,183 @@
+/**
+ * @module prisma-session.repository
+ * Prisma-backed implementation of the {@link SessionRepository} domain interface.
+ * Persists user sessions and their refresh tokens. Refresh tokens are stored
+ * as SHA-256 hashes only, and rotation marks the presented token as used with
+ * a conditional update so a token can be exchanged at most once.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type {
+	IssueRefreshTokenData,
+	RefreshTokenWithSession,
+	SessionEntity,
+	SessionRevocationReason,
+} from '../../../domain/entities/session.entity.js';
+import type { SessionRepository } from '../../../domain/repositories/session.repository.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import type { PrismaClient } from '../generated/prisma/client.js';
+
+/**
+ * Prisma implementation of {@link SessionRepository}.
+ * Operates on the `sessions` and `refresh_tokens` tables.
+ * Injected via tsyringe with the PrismaClient token.
+ */
+@injectable()
+export class PrismaSessionRepository implements SessionRepository {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.PrismaClient)
+		private readonly prisma: PrismaClient,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ repository: 'SessionRepository' });
+	}
+
+	/**
+	 * Creates a session and its first refresh token with a nested write.
+	 * @param userRefId - The integer refId of the signed-in user.
+	 * @param token - Hash and expiry of the first refresh token.
+	 * @returns `ok(SessionEntity)` with the created session, or `err(DatabaseError)` on failure.
+	 */
+	async create(userRefId: number, token: IssueRefreshTokenData): Promise<Result<SessionEntity, DatabaseError>> {
+		try {
+			const session = await this.prisma.session.create({
+				data: {
+					userRefId,
+					refreshTokens: { create: { tokenHash: token.tokenHash, expiresAt: token.expiresAt } },
+				},
+			});
+			return ok(session);
+		} catch (e) {
+			this.logger.error('Failed to create session', e instanceof Error ? e : null, { operation: 'create', userRefId });
+			return err(new DatabaseError('Failed to create session', e));
+		}
+	}
+
+	/**
+	 * Finds a session by UUID.
+	 * @param id - The UUID of the session.
+	 * @returns `ok(SessionEntity)` if found, `ok(null)` if not found,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async findById(id: string): Promise<Result<SessionEntity | null, DatabaseError>> {
+		try {
+			const session = await this.prisma.session.findUnique({ where: { id } });
+			return ok(session);
+		} catch (e) {
+			this.logger.error('Failed to find session by id', e instanceof Error ? e : null, { operation: 'findById', sessionId: id });
+			return err(new DatabaseError('Failed to find session by id', e));
+		}
+	}
+
+	/**
+	 * Finds a refresh token by its unique hash, including its session and the
+	 * session's user with the role from the user's Auth record.
+	 * @param tokenHash - The SHA-256 hash of the presented token.
+	 * @returns `ok(RefreshTokenWithSession)` if found, `ok(null)` if not found,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async findRefreshToken(tokenHash: string): Promise<Result<RefreshTokenWithSession | null, DatabaseError>> {
+		try {
+			const token = await this.prisma.refreshToken.findUnique({
+				where: { tokenHash },
+				include: {
+					session: {
+						include: { user: { select: { id: true, anonymizedAt: true, auth: { select: { role: true } } } } },
+					},
+				},
+			});
+			if (!token) {
+				return ok(null);
+			}
+
+			// Flatten the session's user into the owner projection
+			const { user, ...session } = token.session;
+			return ok({
+				...token,
+				session,
+				owner: { userId: user.id, role: user.auth.role, anonymizedAt: user.anonymizedAt },
+			});
+		} catch (e) {
+			this.logger.error('Failed to find refresh token', e instanceof Error ? e : null, { operation: 'findRefreshToken' });
+			return err(new DatabaseError('Failed to find refresh token', e));
+		}
+	}
+
+	/**
+	 * Rotates a refresh token inside a transaction: the token is marked as used
+	 * only if it is still unused, then its successor is created in the same session.
+	 * @param tokenId - The UUID of the token being exchanged.
+	 * @param next - Hash and expiry of the successor token.
+	 * @returns `ok(true)` when rotated, `ok(false)` when the token had already been used,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async rotateRefreshToken(tokenId: string, next: IssueRefreshTokenData): Promise<Result<boolean, DatabaseError>> {
+		try {
+			const rotated = await this.prisma.$transaction(async (tx) => {
+				// Conditional update: a concurrent rotation of the same token matches no row
+				const { count } = await tx.refreshToken.updateMany({
+					where: { id: tokenId, usedAt: null },
+					data: { usedAt: new Date() },
+				});
+				if (count === 0) {
+					return false;
+				}
+
+				const current = await tx.refreshToken.findUniqueOrThrow({ where: { id: tokenId } });
+				await tx.refreshToken.create({
+					data: { sessionId: current.sessionId, tokenHash: next.tokenHash, expiresAt: next.expiresAt },
+				});
+				return true;
+			});
+			return ok(rotated);
+		} catch (e) {
+			this.logger.error('Failed to rotate refresh token', e instanceof Error ? e : null, { operation: 'rotateRefreshToken', tokenId });
+			return err(new DatabaseError('Failed to rotate refresh token', e));
+		}
+	}
+
+	/**
+	 * Revokes a session if it is still active.
+	 * @param id - The UUID of the session.
+	 * @param reason - Why the session is revoked.
+	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async revoke(id: string, reason: SessionRevocationReason): Promise<Result<void, DatabaseError>> {
+		try {
+			await this.prisma.session.updateMany({
+				where: { id, revokedAt: null },
+				data: { revokedAt: new Date(), revokedReason: reason },
+			});
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Failed to revoke session', e instanceof Error ? e : null, { operation: 'revoke', sessionId: id, reason });
+			return err(new DatabaseError('Failed to revoke session', e));
+		}
+	}
+
+	/**
+	 * Revokes all active sessions of a user.
+	 * @param userRefId - The integer refId of the user.
+	 * @param reason - Why the sessions are revoked.
+	 * @param exceptSessionId - Optional session left active.
+	 * @returns `ok(number)` with the count of revoked sessions, or `err(DatabaseError)` on failure.
+	 */
+	async revokeAllForUser(userRefId: number, reason: SessionRevocationReason, exceptSessionId?: string): Promise<Result<number, DatabaseError>> {
+		try {
+			const { count } = await this.prisma.session.updateMany({
+				where: { userRefId, revokedAt: null, ...(exceptSessionId ? { NOT: { id: exceptSessionId } } : {}) },
+				data: { revokedAt: new Date(), revokedReason: reason },
+			});
+			return ok(count);
+		} catch (e) {
+			this.logger.error('Failed to revoke user sessions', e instanceof Error ? e : null, { operation: 'revokeAllForUser', userRefId, reason, exceptSessionId });
+			return err(new DatabaseError('Failed to revoke user sessions', e));
+		}
+	}
+}
@@ -0,0 +1,223 @@
+/**
+ * @file Unit tests for the PrismaTripMessageRepository.
+ *
+ * Tests posting, listing with and without hidden messages, lookup, hiding,
+ * the read marker upsert and the unread count relative to it.
+ * Each method is tested for success and DB error propagation using a mock PrismaClient.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { PrismaTripMessageRepository } from './prisma-trip-message.repository.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { createMockLogger } from '../../../../tests/setup.js';
+
+function createMockPrisma() {
+    return {
+        tripMessage: {
+            create: vi.fn(),
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            update: vi.fn(),
+            count: vi.fn(),
+        },
+        tripMessageRead: {
+            findUnique: vi.fn(),
+            upsert: vi.fn(),
+        },
+    };
+}
+
+const now = new Date('2026-10-18T10:00:00Z');
+const withAuthor = { author: { select: { id: true, firstName: true, lastName: true } } };
+const message = {
+    id: 'message-1',
+    tripRefId: 1,
+    authorRefId: 2,
+    author: { id: 'user-1', firstName: 'Jane', lastName: 'Doe' },
+    body: 'Where do we meet?',
+    createdAt: now,
+    hiddenAt: null,
+};
+
+describe('PrismaTripMessageRepository', () => {
+    let repository: PrismaTripMessageRepository;
+    let mockPrisma: ReturnType<typeof createMockPrisma>;
+
+    beforeEach(() => {
+        container.clearInstances();
+        mockPrisma = createMockPrisma();
+        container.register(TOKENS.PrismaClient, { useValue: mockPrisma });
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        repository = container.resolve(PrismaTripMessageRepository);
+    });
+
+    describe('create()', () => {
+        it('should create the message with its author', async () => {
+            mockPrisma.tripMessage.create.mockResolvedValue(message);
+
+            const result = await repository.create({ tripRefId: 1, authorRefId: 2, body: 'Where do we meet?' });
+
+            expect(result).toEqual({ success: true, value: message });
+            expect(mockPrisma.tripMessage.create).toHaveBeenCalledWith({
+                data: { tripRefId: 1, authorRefId: 2, body: 'Where do we meet?' },
+                include: withAuthor,
+            });
+        });
+
+        it('should return DatabaseError on failure', async () => {
+            mockPrisma.tripMessage.create.mockRejectedValue(new Error('db down'));
+
+            const result = await repository.create({ tripRefId: 1, authorRefId: 2, body: 'Hi' });
+
+            expect(result.success).toBe(false);
+            if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+        });
+    });
+
+    describe('findByTripRefId()', () => {
+        it('should list the visible messages, newest first', async () => {
+            mockPrisma.tripMessage.findMany.mockResolvedValue([message]);
+            mockPrisma.tripMessage.count.mockResolvedValue(1);
+
+            const result = await repository.findByTripRefId(1, { includeHidden: false }, { skip: 20, take: 10 });
+
+            expect(result).toEqual({ success: true, value: { data: [message], total: 1 } });
+            expect(mockPrisma.tripMessage.findMany).toHaveBeenCalledWith({
+                where: { tripRefId: 1, hiddenAt: null },
+                include: withAuthor,
+                orderBy: { createdAt: 'desc' },
+                skip: 20,
+                take: 10,
+            });
+            expect(mockPrisma.tripMessage.count).toHaveBeenCalledWith({ where: { tripRefId: 1, hiddenAt: null } });
+        });
+
+        it('should also list hidden messages when asked to', async () => {
+            mockPrisma.tripMessage.findMany.mockResolvedValue([]);
+            mockPrisma.tripMessage.count.mockResolvedValue(0);
+
+            await repository.findByTripRefId(1, { includeHidden: true }, { skip: 0, take: 10 });
+
+            expect(mockPrisma.tripMessage.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { tripRefId: 1 } }));
+            expect(mockPrisma.tripMessage.count).toHaveBeenCalledWith({ where: { tripRefId: 1 } });
+        });
+
+        it('should return DatabaseError on failure', async () => {
+            mockPrisma.tripMessage.findMany.mockRejectedValue(new Error('db down'));
+            mockPrisma.tripMessage.count.mockResolvedValue(0);
+
+            const result = await repository.findByTripRefId(1, { includeHidden: false }, { skip: 0, take: 10 });
+
+            expect(result.success).toBe(false);
+            if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+        });
+    });
+
+    describe('findById()', () => {
+        it('should return the message', async () => {
+            mockPrisma.tripMessage.findUnique.mockResolvedValue(message);
+
+            const result = await repository.findById('message-1');
+
+            expect(result).toEqual({ success: true, value: message });
+            expect(mockPrisma.tripMessage.findUnique).toHaveBeenCalledWith({ where: { id: 'message-1' }, include: withAuthor });
+        });
+
+        it('should return null when not found', async () => {
+            mockPrisma.tripMessage.findUnique.mockResolvedValue(null);
+
+            expect(await repository.findById('missing')).toEqual({ success: true, value: null });
+        });
+
+        it('should return DatabaseError on failure', async () => {
+            mockPrisma.tripMessage.findUnique.mockRejectedValue(new Error('db down'));
+
+            const result = await repository.findById('message-1');
+
+            expect(result.success).toBe(false);
+            if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+        });
+    });
+
+    describe('hide()', () => {
+        it('should set the hiding time', async () => {
+            mockPrisma.tripMessage.update.mockResolvedValue({ ...message, hiddenAt: now });
+
+            const result = await repository.hide('message-1', now);
+
+            expect(result).toEqual({ success: true, value: { ...message, hiddenAt: now } });
+            expect(mockPrisma.tripMessage.update).toHaveBeenCalledWith({ where: { id: 'message-1' }, data: { hiddenAt: now }, include: withAuthor });
+        });
+
+        it('should return DatabaseError on failure', async () => {
+            mockPrisma.tripMessage.update.mockRejectedValue(new Error('db down'));
+
+            const result = await repository.hide('message-1', now);
+
+            expect(result.success).toBe(false);
+            if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+        });
+    });
+
+    describe('markRead()', () => {
+        it('should create or move the read marker of the user on the trip', async () => {
+            mockPrisma.tripMessageRead.upsert.mockResolvedValue({});
+
+            const result = await repository.markRead(2, 1, now);
+
+            expect(result).toEqual({ success: true, value: undefined });
+            expect(mockPrisma.tripMessageRead.upsert).toHaveBeenCalledWith({
+                where: { userRefId_tripRefId: { userRefId: 2, tripRefId: 1 } },
+                create: { userRefId: 2, tripRefId: 1, lastReadAt: now },
+                update: { lastReadAt: now },
+            });
+        });
+
+        it('should return DatabaseError on failure', async () => {
+            mockPrisma.tripMessageRead.upsert.mockRejectedValue(new Error('db down'));
+
+            const result = await repository.markRead(2, 1, now);
+
+            expect(result.success).toBe(false);
+            if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+        });
+    });
+
+    describe('countUnread()', () => {
+        it('should count the visible messages of others posted after the read marker', async () => {
+            mockPrisma.tripMessageRead.findUnique.mockResolvedValue({ userRefId: 2, tripRefId: 1, lastReadAt: now });
+            mockPrisma.tripMessage.count.mockResolvedValue(3);
+
+            const result = await repository.countUnread(2, 1);
+
+            expect(result).toEqual({ success: true, value: 3 });
+            expect(mockPrisma.tripMessage.count).toHaveBeenCalledWith({
+                where: { tripRefId: 1, hiddenAt: null, authorRefId: { not: 2 }, createdAt: { gt: now } },
+            });
+        });
+
+        // A conversation never opened is entirely unread
+        it('should count every visible message of others without a read marker', async () => {
+            mockPrisma.tripMessageRead.findUnique.mockResolvedValue(null);
+            mockPrisma.tripMessage.count.mockResolvedValue(5);
+
+            const result = await repository.countUnread(2, 1);
+
+            expect(result).toEqual({ success: true, value: 5 });
+            expect(mockPrisma.tripMessage.count).toHaveBeenCalledWith({
+                where: { tripRefId: 1, hiddenAt: null, authorRefId: { not: 2 } },
+            });
+        });
+
+        it('should return DatabaseError on failure', async () => {
+            mockPrisma.tripMessageRead.findUnique.mockRejectedValue(new Error('db down'));
+
+            const result = await repository.countUnread(2, 1);
+
+            expect(result.success).toBe(false);
+            if (!result.success) expect(result.error).toBeInstanceOf(DatabaseError);
+        });
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * @module prisma-trip-message.repository
+ * Prisma-backed implementation of the {@link TripMessageRepository} domain interface.
+ * Persists the conversations of trips in the `trip_messages` table, and up to
+ * when each participant read them in `trip_message_reads`.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { CreateTripMessageData, TripMessageEntity } from '../../../domain/entities/trip-message.entity.js';
+import type { TripMessageListOptions, TripMessageRepository } from '../../../domain/repositories/trip-message.repository.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import type { PrismaClient } from '../generated/prisma/client.js';
+
+/** Loads the public identity of the author with each message. */
+const WITH_AUTHOR = {
+	author: { select: { id: true, firstName: true, lastName: true } },
+} as const;
+
+/**
+ * Prisma implementation of {@link TripMessageRepository}.
+ * Operates on the `trip_messages` and `trip_message_reads` tables.
+ * Injected via tsyringe with the PrismaClient token.
+ */
+@injectable()
+export class PrismaTripMessageRepository implements TripMessageRepository {
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.PrismaClient)
+		private readonly prisma: PrismaClient,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ repository: 'TripMessageRepository' });
+	}
+
+	/**
+	 * Creates a message and returns it with its author.
+	 * @param data - The trip, the author and the text of the message.
+	 * @returns `ok(TripMessageEntity)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async create(data: CreateTripMessageData): Promise<Result<TripMessageEntity, DatabaseError>> {
+		try {
+			const message = await this.prisma.tripMessage.create({ data, include: WITH_AUTHOR });
+			return ok(message);
+		} catch (e) {
+			this.logger.error('Failed to create trip message', e instanceof Error ? e : null, { operation: 'create', tripRefId: data.tripRefId });
+			return err(new DatabaseError('Failed to create trip message', e));
+		}
+	}
+
+	/**
+	 * Retrieves a page of the messages of a trip, newest first.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @param options - Whether hidden messages are listed.
+	 * @param params - Pagination parameters (skip/take).
+	 * @returns `ok({ data, total })` on success, or `err(DatabaseError)` on failure.
+	 */
+	async findByTripRefId(
+		tripRefId: number,
+		options: TripMessageListOptions,
+		params: { skip: number; take: number },
+	): Promise<Result<{ data: TripMessageEntity[]; total: number }, DatabaseError>> {
+		try {
+			const where = options.includeHidden ? { tripRefId } : { tripRefId, hiddenAt: null };
+			// Parallel queries: paginated data + total count
+			const [messages, total] = await Promise.all([
+				this.prisma.tripMessage.findMany({ where, include: WITH_AUTHOR, orderBy: { createdAt: 'desc' }, skip: params.skip, take: params.take }),
+				this.prisma.tripMessage.count({ where }),
+			]);
+			return ok({ data: messages, total });
+		} catch (e) {
+			this.logger.error('Failed to find trip messages', e instanceof Error ? e : null, { operation: 'findByTripRefId', tripRefId });
+			return err(new DatabaseError('Failed to find trip messages', e));
+		}
+	}
+
+	/**
+	 * Finds a message by its UUID.
+	 * @param id - The UUID of the message.
+	 * @returns `ok(TripMessageEntity)` if found, `ok(null)` if not found,
+	 *          or `err(DatabaseError)` on failure.
+	 */
+	async findById(id: string): Promise<Result<TripMessageEntity | null, DatabaseError>> {
+		try {
+			const message = await this.prisma.tripMessage.findUnique({ where: { id }, include: WITH_AUTHOR });
+			return ok(message);
+		} catch (e) {
+			this.logger.error('Failed to find trip message by id', e instanceof Error ? e : null, { operation: 'findById', messageId: id });
+			return err(new DatabaseError('Failed to find trip message by id', e));
+		}
+	}
+
+	/**
+	 * Sets the hiding time of a message.
+	 * @param id - The UUID of the message.
+	 * @param hiddenAt - When the message was hidden.
+	 * @returns `ok(TripMessageEntity)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async hide(id: string, hiddenAt: Date): Promise<Result<TripMessageEntity, DatabaseError>> {
+		try {
+			const message = await this.prisma.tripMessage.update({ where: { id }, data: { hiddenAt }, include: WITH_AUTHOR });
+			return ok(message);
+		} catch (e) {
+			this.logger.error('Failed to hide trip message', e instanceof Error ? e : null, { operation: 'hide', messageId: id });
+			return err(new DatabaseError('Failed to hide trip message', e));
+		}
+	}
+
+	/**
+	 * Creates or moves forward the read marker of a user on a trip.
+	 * @param userRefId - The integer refId of the reader.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @param readAt - When the conversation was read.
+	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async markRead(userRefId: number, tripRefId: number, readAt: Date): Promise<Result<void, DatabaseError>> {
+		try {
+			await this.prisma.tripMessageRead.upsert({
+				where: { userRefId_tripRefId: { userRefId, tripRefId } },
+				create: { userRefId, tripRefId, lastReadAt: readAt },
+				update: { lastReadAt: readAt },
+			});
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Failed to mark trip messages as read', e instanceof Error ? e : null, { operation: 'markRead', userRefId, tripRefId });
+			return err(new DatabaseError('Failed to mark trip messages as read', e));
+		}
+	}
+
+	/**
+	 * Counts the visible messages posted by others after the user's read marker.
+	 * @param userRefId - The integer refId of the reader.
+	 * @param tripRefId - The integer refId of the trip.
+	 * @returns `ok(number)` on success, or `err(DatabaseError)` on failure.
+	 */
+	async countUnread(userRefId: number, tripRefId: number): Promise<Result<number, DatabaseError>> {
+		try {
+			const read = await this.prisma.tripMessageRead.findUnique({
+				where: { userRefId_tripRefId: { userRefId, tripRefId } },
+			});
+			const count = await this.prisma.tripMessage.count({
+				where: {
+					tripRefId,
+					hiddenAt: null,
+					authorRefId: { not: userRefId },
+					...(read ? { createdAt: { gt: read.lastReadAt } } : {}),
+				},
+			});
+			return ok(count);
+		} catch (e) {
+			this.logger.error('Failed to count unread trip messages', e instanceof Error ? e : null, { operation: 'countUnread', userRefId, tripRefId });
+			return err(new DatabaseError('Failed to count unread trip messages', e));
+		}
+	}
+}
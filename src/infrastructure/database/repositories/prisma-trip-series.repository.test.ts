@@ -0,0 +1,192 @@
+/**
+ * @file Unit tests for the PrismaTripSeriesRepository.
+ *
+ * Tests creating a series, finding one, the paginated listing of a driver's
+ * series, the active series still running, and the conditional update and
+ * cancellation of ACTIVE series.
+ * Each method is tested for success and DB error propagation using a mock PrismaClient.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { PrismaTripSeriesRepository } from './prisma-trip-series.repository.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { createMockLogger, createMockTripSeriesData } from '../../../../tests/setup.js';
+
+function createMockPrisma() {
+    return {
+        tripSeries: {
+            create: vi.fn(),
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+            count: vi.fn(),
+            updateMany: vi.fn(),
+        },
+    };
+}
+
+const series = createMockTripSeriesData();
+
+describe('PrismaTripSeriesRepository', () => {
+    let repository: PrismaTripSeriesRepository;
+    let mockPrisma: ReturnType<typeof createMockPrisma>;
+
+    beforeEach(() => {
+        container.clearInstances();
+        mockPrisma = createMockPrisma();
+        container.register(TOKENS.PrismaClient, { useValue: mockPrisma });
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        repository = container.resolve(PrismaTripSeriesRepository);
+    });
+
+    describe('create()', () => {
+        const { id, refId, status, cancelledAt, createdAt, ...data } = series;
+
+        it('should create the series', async () => {
+            mockPrisma.tripSeries.create.mockResolvedValue(series);
+
+            const result = await repository.create(data);
+
+            expect(result).toEqual({ success: true, value: series });
+            expect(mockPrisma.tripSeries.create).toHaveBeenCalledWith({ data });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.tripSeries.create.mockRejectedValue(new Error('Create failed'));
+
+            const result = await repository.create(data);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('findById()', () => {
+        it('should return the series or null', async () => {
+            mockPrisma.tripSeries.findUnique.mockResolvedValueOnce(series).mockResolvedValueOnce(null);
+
+            expect(await repository.findById('series-id-1')).toEqual({ success: true, value: series });
+            expect(await repository.findById('unknown')).toEqual({ success: true, value: null });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.tripSeries.findUnique.mockRejectedValue(new Error('Query failed'));
+
+            const result = await repository.findById('series-id-1');
+
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('findByDriverRefId()', () => {
+        it('should return a page of the driver series, newest first', async () => {
+            mockPrisma.tripSeries.findMany.mockResolvedValue([series]);
+            mockPrisma.tripSeries.count.mockResolvedValue(3);
+
+            const result = await repository.findByDriverRefId(10, { skip: 2, take: 2 });
+
+            expect(result).toEqual({ success: true, value: { data: [series], total: 3 } });
+            expect(mockPrisma.tripSeries.findMany).toHaveBeenCalledWith({ where: { driverRefId: 10 }, orderBy: { createdAt: 'desc' }, skip: 2, take: 2 });
+            expect(mockPrisma.tripSeries.count).toHaveBeenCalledWith({ where: { driverRefId: 10 } });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.tripSeries.findMany.mockRejectedValue(new Error('Query failed'));
+
+            const result = await repository.findByDriverRefId(10, { skip: 0, take: 20 });
+
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('findActive()', () => {
+        it('should return the active series that have not ended', async () => {
+            mockPrisma.tripSeries.findMany.mockResolvedValue([series]);
+
+            const today = new Date('2026-10-18T22:00:00Z');
+
+            const result = await repository.findActive(today);
+
+            expect(result).toEqual({ success: true, value: [series] });
+            expect(mockPrisma.tripSeries.findMany).toHaveBeenCalledWith({
+                where: { status: 'ACTIVE', OR: [{ endDate: null }, { endDate: { gte: today } }] },
+                orderBy: { refId: 'asc' },
+            });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.tripSeries.findMany.mockRejectedValue(new Error('Query failed'));
+
+            const result = await repository.findActive(new Date());
+
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('update()', () => {
+        it('should update an active series and return it', async () => {
+            mockPrisma.tripSeries.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma.tripSeries.findUnique.mockResolvedValue({ ...series, seats: 4 });
+
+            const result = await repository.update('series-id-1', { seats: 4 });
+
+            expect(result).toEqual({ success: true, value: { ...series, seats: 4 } });
+            expect(mockPrisma.tripSeries.updateMany).toHaveBeenCalledWith({ where: { id: 'series-id-1', status: 'ACTIVE' }, data: { seats: 4 } });
+        });
+
+        it('should return ok(null) when the series is no longer active', async () => {
+            mockPrisma.tripSeries.updateMany.mockResolvedValue({ count: 0 });
+
+            const result = await repository.update('series-id-1', { seats: 4 });
+
+            expect(result).toEqual({ success: true, value: null });
+            expect(mockPrisma.tripSeries.findUnique).not.toHaveBeenCalled();
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.tripSeries.updateMany.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.update('series-id-1', { seats: 4 });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('cancel()', () => {
+        const cancelledAt = new Date('2026-10-19T10:00:00.000Z');
+
+        it('should cancel an active series', async () => {
+            mockPrisma.tripSeries.updateMany.mockResolvedValue({ count: 1 });
+
+            const result = await repository.cancel('series-id-1', cancelledAt);
+
+            expect(result).toEqual({ success: true, value: true });
+            expect(mockPrisma.tripSeries.updateMany).toHaveBeenCalledWith({
+                where: { id: 'series-id-1', status: 'ACTIVE' },
+                data: { status: 'CANCELLED', cancelledAt },
+            });
+        });
+
+        it('should return ok(false) when the series was already cancelled', async () => {
+            mockPrisma.tripSeries.updateMany.mockResolvedValue({ count: 0 });
+
+            const result = await repository.cancel('series-id-1', cancelledAt);
+
+            expect(result).toEqual({ success: true, value: false });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.tripSeries.updateMany.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.cancel('series-id-1', cancelledAt);
+
+            expect(result.success).toBe(false);
+        });
+    });
+});
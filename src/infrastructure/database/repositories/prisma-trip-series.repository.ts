@@ -0,0 +1,147 @@
+/**
+ * @module prisma-trip-series.repository
+ * Prisma-backed implementation of the {@link TripSeriesRepository} domain interface.
+ * Persists the recurring trips drivers offer in the `trip_series` table, with
+ * their route stored as an ordered array of city refIds. Their occurrences
+ * are rows of the `trips` table pointing back to the series.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { CreateTripSeriesData, TripSeriesEntity, UpdateTripSeriesData } from '../../../domain/entities/trip-series.entity.js';
+import type { TripSeriesRepository } from '../../../domain/repositories/trip-series.repository.js';
+import type { Logger } from '../../../lib/logging/logger.types.js';
+import { TOKENS } from '../../../lib/shared/di/tokens.js';
+import type { Result } from '../../../lib/shared/types/result.js';
+import { ok, err } from '../../../lib/shared/types/result.js';
+import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import type { PrismaClient } from '../generated/prisma/client.js';
+
+/**
+ * Prisma implementation of {@link TripSeriesRepository}.
+ * Operates on the `trip_series` table via the Prisma `TripSeries` model.
+ * Injected via tsyringe with the PrismaClient token.
+ */
+@injectable()
+export class PrismaTripSeriesRepository implements TripSeriesRepository {
+    private readonly logger: Logger;
+
+    constructor(
+        @inject(TOKENS.PrismaClient)
+        private readonly prisma: PrismaClient,
+        @inject(TOKENS.Logger) logger: Logger,
+    ) {
+        this.logger = logger.child({ repository: 'TripSeriesRepository' });
+    }
+
+    /**
+     * Creates a new series, ACTIVE by default.
+     * @param data - The route, car, trip details and recurrence of the series.
+     * @returns `ok(TripSeriesEntity)` on success, or `err(DatabaseError)` on failure.
+     */
+    async create(data: CreateTripSeriesData): Promise<Result<TripSeriesEntity, DatabaseError>> {
+        try {
+            const series = await this.prisma.tripSeries.create({ data });
+            return ok(series);
+        } catch (e) {
+            this.logger.error('Failed to create trip series', e instanceof Error ? e : null, { operation: 'create', driverRefId: data.driverRefId });
+            return err(new DatabaseError('Failed to create trip series', e));
+        }
+    }
+
+    /**
+     * Finds a series by UUID.
+     * @param id - The UUID of the series.
+     * @returns `ok(TripSeriesEntity)` if found, `ok(null)` if not found,
+     *          or `err(DatabaseError)` on failure.
+     */
+    async findById(id: string): Promise<Result<TripSeriesEntity | null, DatabaseError>> {
+        try {
+            const series = await this.prisma.tripSeries.findUnique({ where: { id } });
+            return ok(series);
+        } catch (e) {
+            this.logger.error('Failed to find trip series by ID', e instanceof Error ? e : null, { operation: 'findById', seriesId: id });
+            return err(new DatabaseError('Failed to find trip series by id', e));
+        }
+    }
+
+    /**
+     * Retrieves a page of a driver's series, newest first.
+     * @param driverRefId - The integer refId of the driver.
+     * @param params - Pagination parameters (skip/take).
+     * @returns `ok({ data, total })` on success, or `err(DatabaseError)` on failure.
+     */
+    async findByDriverRefId(driverRefId: number, params: { skip: number; take: number }): Promise<Result<{ data: TripSeriesEntity[]; total: number }, DatabaseError>> {
+        try {
+            const where = { driverRefId };
+            // Parallel queries: paginated data + total count
+            const [series, total] = await Promise.all([
+                this.prisma.tripSeries.findMany({ where, orderBy: { createdAt: 'desc' }, skip: params.skip, take: params.take }),
+                this.prisma.tripSeries.count({ where }),
+            ]);
+            return ok({ data: series, total });
+        } catch (e) {
+            this.logger.error('Failed to find trip series by driver', e instanceof Error ? e : null, { operation: 'findByDriverRefId', driverRefId });
+            return err(new DatabaseError('Failed to find trip series by driver', e));
+        }
+    }
+
+    /**
+     * Retrieves the ACTIVE series that are open-ended or end today or later, oldest first.
+     * @param today - Midnight of the current day, in the time zone of the trips.
+     * @returns `ok(TripSeriesEntity[])` on success, or `err(DatabaseError)` on failure.
+     */
+    async findActive(today: Date): Promise<Result<TripSeriesEntity[], DatabaseError>> {
+        try {
+            const series = await this.prisma.tripSeries.findMany({
+                where: { status: 'ACTIVE', OR: [{ endDate: null }, { endDate: { gte: today } }] },
+                orderBy: { refId: 'asc' },
+            });
+            return ok(series);
+        } catch (e) {
+            this.logger.error('Failed to find active trip series', e instanceof Error ? e : null, { operation: 'findActive' });
+            return err(new DatabaseError('Failed to find active trip series', e));
+        }
+    }
+
+    /**
+     * Updates the series with a conditional update, so only an ACTIVE series is
+     * affected, then reads it back.
+     * @param id - The UUID of the series.
+     * @param data - The fields to change.
+     * @returns `ok(TripSeriesEntity)` with the updated series, `ok(null)` if it was no
+     *          longer ACTIVE, or `err(DatabaseError)` on failure.
+     */
+    async update(id: string, data: UpdateTripSeriesData): Promise<Result<TripSeriesEntity | null, DatabaseError>> {
+        try {
+            const { count } = await this.prisma.tripSeries.updateMany({ where: { id, status: 'ACTIVE' }, data });
+            if (count === 0) {
+                return ok(null);
+            }
+            const series = await this.prisma.tripSeries.findUnique({ where: { id } });
+            return ok(series);
+        } catch (e) {
+            this.logger.error('Failed to update trip series', e instanceof Error ? e : null, { operation: 'update', seriesId: id });
+            return err(new DatabaseError('Failed to update trip series', e));
+        }
+    }
+
+    /**
+     * Sets the series CANCELLED with a conditional update, so only an ACTIVE series is affected.
+     * @param id - The UUID of the series.
+     * @param cancelledAt - When the series was cancelled.
+     * @returns `ok(true)` if this call cancelled the series, `ok(false)` if it was no longer
+     *          ACTIVE, or `err(DatabaseError)` on failure.
+     */
+    async cancel(id: string, cancelledAt: Date): Promise<Result<boolean, DatabaseError>> {
+        try {
+            const { count } = await this.prisma.tripSeries.updateMany({
+                where: { id, status: 'ACTIVE' },
+                data: { status: 'CANCELLED', cancelledAt },
+            });
+            return ok(count > 0);
+        } catch (e) {
+            this.logger.error('Failed to cancel trip series', e instanceof Error ? e : null, { operation: 'cancel', seriesId: id });
+            return err(new DatabaseError('Failed to cancel trip series', e));
+        }
+    }
+}
@@ -1,7 +1,9 @@
 /**
  * @file Unit tests for the PrismaTripRepository.
  *
- * Tests all 5 methods: findAll, findById, findByFilters, create, delete.
+ * Tests findAll, findById, findByFilters, create (including series occurrences),
+ * update, findBySeries, cancel (with its bookings), advanceStatuses and the trip reminder methods findDueReminders and
+ * markReminderSent (with its outbox messages).
  * Each method is tested for success and DB error propagation.
  */
 
@@ -10,25 +12,41 @@ import { container } from 'tsyringe';
 import { PrismaTripRepository } from './prisma-trip.repository.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
+import { SeatsBelowBookingsError } from '../../../lib/errors/domain.errors.js';
+import { boundingBox } from '../../../domain/geo/geo-distance.js';
+import type { TripFilters } from '../../../domain/repositories/trip.repository.js';
+import { Prisma } from '../generated/prisma/client.js';
 import { createMockLogger } from '../../../../tests/setup.js';
 
 function createMockPrisma() {
-    return {
+    const prisma = {
         trip: {
             findUnique: vi.fn(),
             findMany: vi.fn(),
             create: vi.fn(),
-            delete: vi.fn(),
             count: vi.fn(),
+            updateMany: vi.fn(),
         },
+        inscription: {
+            findMany: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        outboxMessage: {
+            createMany: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+        // Interactive transactions run against the same mock client
+        $transaction: vi.fn(),
     };
+    prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => Promise<unknown>) => fn(prisma));
+    return prisma;
 }
 
 describe('PrismaTripRepository', () => {
     let repository: PrismaTripRepository;
     let mockPrisma: ReturnType<typeof createMockPrisma>;
 
-    const mockTrip = { id: 'trip-1', kms: 150, seats: 3, driverRefId: 1, carRefId: 1 };
+    const mockTrip = { id: 'trip-1', dateTrip: new Date(2025, 5, 15, 8, 0), kms: 150, seats: 3, driverRefId: 1, carRefId: 1 };
 
     beforeEach(() => {
         container.clearInstances();
@@ -111,54 +129,228 @@ describe('PrismaTripRepository', () => {
         });
     });
 
+    describe('findByRefId()', () => {
+        it('should return ok(trip) looked up by refId', async () => {
+            mockPrisma.trip.findUnique.mockResolvedValue(mockTrip);
+
+            const result = await repository.findByRefId(1);
+
+            expect(result.success).toBe(true);
+            expect(mockPrisma.trip.findUnique).toHaveBeenCalledWith({ where: { refId: 1 } });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.trip.findUnique.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.findByRefId(1);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('findDriverContact()', () => {
+        it('should return the contact of the driver of the trip', async () => {
+            mockPrisma.trip.findUnique.mockResolvedValue({
+                driver: {
+                    user: { id: 'user-1', firstName: 'Paul', locale: 'en', notifyBookingUpdates: true, notifyTripReminders: false, auth: { email: 'paul@example.com' } },
+                },
+            });
+
+            const result = await repository.findDriverContact('trip-1');
+
+            expect(result).toEqual({
+                success: true,
+                value: { id: 'user-1', firstName: 'Paul', locale: 'en', notifyBookingUpdates: true, notifyTripReminders: false, email: 'paul@example.com' },
+            });
+            expect(mockPrisma.trip.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'trip-1' } }));
+        });
+
+        it('should return ok(null) for an unknown trip', async () => {
+            mockPrisma.trip.findUnique.mockResolvedValue(null);
+
+            const result = await repository.findDriverContact('missing');
+
+            expect(result).toEqual({ success: true, value: null });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.trip.findUnique.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.findDriverContact('trip-1');
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
     describe('findByFilters()', () => {
-        it('should return ok(trips) with no filters', async () => {
+        const paris = 'Europe/Paris';
+
+        /** Rebuilds the SQL of a `$queryRaw` call, with its whitespace collapsed. */
+        const rawQuery = (call = 0) => {
+            const [strings, ...values] = mockPrisma.$queryRaw.mock.calls[call] as [TemplateStringsArray, ...Prisma.Sql[]];
+            const query = Prisma.sql(strings, ...values);
+            return { text: query.text.replace(/\s+/g, ' '), values: query.values };
+        };
+        const searchFor = async (filters: Omit<TripFilters, 'timeZone'>, params?: { skip: number; take: number }) => {
+            mockPrisma.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([{ total: 0n }]);
+            await repository.findByFilters({ ...filters, timeZone: paris }, params);
+            return rawQuery();
+        };
+
+        it('should return the page with the seats left and the pickup distance of each trip', async () => {
+            mockPrisma.$queryRaw
+                .mockResolvedValueOnce([{ id: 'trip-1', remaining_seats: 2, pickup_distance_km: 17.9 }])
+                .mockResolvedValueOnce([{ total: 1n }]);
             mockPrisma.trip.findMany.mockResolvedValue([mockTrip]);
 
-            const result = await repository.findByFilters({});
+            const result = await repository.findByFilters({ timeZone: paris });
 
             expect(result.success).toBe(true);
             if (result.success) {
-                expect(result.value).toHaveLength(1);
+                expect(result.value.data).toEqual([{ ...mockTrip, remainingSeats: 2, pickupDistanceKm: 17.9 }]);
+                expect(result.value.total).toBe(1);
             }
+            expect(mockPrisma.trip.findMany).toHaveBeenCalledWith({
+                where: { id: { in: ['trip-1'] } },
+                include: { driver: true, car: true, cities: { include: { city: true }, orderBy: { position: 'asc' } } },
+            });
         });
 
-        it('should build city filter conditions for departure city', async () => {
-            mockPrisma.trip.findMany.mockResolvedValue([]);
+        it('should keep the order of the page and leave out trips deleted since', async () => {
+            mockPrisma.$queryRaw
+                .mockResolvedValueOnce([
+                    { id: 'b', remaining_seats: 1, pickup_distance_km: null },
+                    { id: 'a', remaining_seats: 3, pickup_distance_km: null },
+                    { id: 'gone', remaining_seats: 3, pickup_distance_km: null },
+                ])
+                .mockResolvedValueOnce([{ total: 3n }]);
+            mockPrisma.trip.findMany.mockResolvedValue([{ ...mockTrip, id: 'a' }, { ...mockTrip, id: 'b' }]);
 
-            await repository.findByFilters({ departureCity: 'Paris' });
+            const result = await repository.findByFilters({ timeZone: paris });
 
-            expect(mockPrisma.trip.findMany).toHaveBeenCalledWith(expect.objectContaining({
-                where: expect.objectContaining({
-                    cities: {
-                        some: {
-                            city: { cityName: { contains: 'Paris', mode: 'insensitive' } },
-                            type: 'DEPARTURE',
-                        },
-                    },
-                }),
-            }));
+            if (result.success) expect(result.value.data.map((t) => t.id)).toEqual(['b', 'a']);
         });
 
-        it('should build date filter conditions', async () => {
-            mockPrisma.trip.findMany.mockResolvedValue([]);
+        it('should not load any trip when none matches', async () => {
+            mockPrisma.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([{ total: 0n }]);
 
-            await repository.findByFilters({ date: new Date('2025-06-15') });
+            const result = await repository.findByFilters({ timeZone: paris });
 
-            expect(mockPrisma.trip.findMany).toHaveBeenCalledWith(expect.objectContaining({
-                where: expect.objectContaining({
-                    dateTrip: expect.objectContaining({
-                        gte: expect.any(Date),
-                        lt: expect.any(Date),
-                    }),
-                }),
-            }));
+            expect(result).toEqual({ success: true, value: { data: [], total: 0 } });
+            expect(mockPrisma.trip.findMany).not.toHaveBeenCalled();
+        });
+
+        it('should only search scheduled trips, and count the matches with the same conditions', async () => {
+            const { text } = await searchFor({ maxPricePerSeat: 1500 });
+            const count = rawQuery(1);
+
+            expect(text).toContain(`"trip"."status" = 'SCHEDULED'`);
+            expect(count.text).toContain('SELECT COUNT(*) AS "total"');
+            expect(count.text).toContain(`"trip"."status" = 'SCHEDULED'`);
+            expect(count.values).toContain(1500);
+        });
+
+        describe('with intermediate stops', () => {
+            it('should match the searched cities literally, in the order of the stops', async () => {
+                const { text, values } = await searchFor({ departureCity: 'Saint_Louis', arrivalCity: 'Lyon' });
+
+                expect(text).toContain('"dropoff"."position" > "pickup"."position"');
+                expect(text).toContain('"pickup_city"."city_name" ILIKE');
+                expect(text).toContain('"dropoff_city"."city_name" ILIKE');
+                expect(values).toEqual(expect.arrayContaining(['%Saint\\_Louis%', '%Lyon%']));
+            });
+
+            it('should travel trips without stops end to end only when no route is searched', async () => {
+                const anyRoute = await searchFor({});
+                mockPrisma.$queryRaw.mockClear();
+                const fromParis = await searchFor({ departureCity: 'Paris' });
+
+                expect(anyRoute.text).toContain('UNION ALL SELECT 0, 1, NULL::float8 WHERE NOT EXISTS');
+                expect(fromParis.text).not.toContain('UNION ALL');
+            });
+
+            it('should count the seats left on the busiest leg of the segment, against active bookings', async () => {
+                const { text, values } = await searchFor({ departureCity: 'Lyon', minSeats: 2 });
+
+                expect(text).toContain('generate_series("segment"."pickup_position", "segment"."dropoff_position" - 1)');
+                expect(text).toContain(`"inscription"."status" = 'ACTIVE'`);
+                expect(text).toContain('GREATEST(0, "trip"."seats" - "occupancy"."booked") AS "remaining_seats"');
+                expect(text).toContain('"trip"."seats" - "occupancy"."booked" >=');
+                expect(values).toContain(2);
+            });
+        });
+
+        describe('around a point', () => {
+            const versailles = { latitude: 48.8049, longitude: 2.1204 };
+
+            it('should narrow the stops by the bounding box of the area, then by distance', async () => {
+                const { text, values } = await searchFor({ departureNear: { ...versailles, radiusKm: 25 }, arrivalCity: 'Lyon' });
+                const box = boundingBox({ ...versailles, radiusKm: 25 });
+
+                expect(text).toContain('"pickup_city"."latitude" BETWEEN');
+                expect(text).toContain('asin(least(1, sqrt(');
+                expect(values).toEqual(expect.arrayContaining([box.minLatitude, box.maxLatitude, box.minLongitude, box.maxLongitude, 25, '%Lyon%']));
+            });
+
+            it('should report the distance to the pickup for area searches only', async () => {
+                const near = await searchFor({ departureNear: { ...versailles, radiusKm: 25 } });
+                mockPrisma.$queryRaw.mockClear();
+                const named = await searchFor({ departureCity: 'Paris' });
+
+                expect(near.text).toMatch(/round\(.*::numeric, 1\)::float8 AS "pickup_distance_km"/);
+                expect(named.text).toContain('NULL::float8 AS "pickup_distance_km"');
+            });
+
+            it('should sort by pickup distance', async () => {
+                const { text } = await searchFor({ departureNear: { ...versailles, radiusKm: 25 }, sortBy: 'pickupDistance' });
+
+                expect(text).toContain('ORDER BY "pickup_distance_km" ASC, "date_trip" ASC, "id" ASC');
+            });
+        });
+
+        it('should search whole days in the time zone of the trips', async () => {
+            const { text, values } = await searchFor({ dateFrom: new Date('2025-06-15T10:00:00Z'), dateTo: new Date('2025-06-20T23:30:00Z') });
+
+            expect(text).toContain('"trip"."date_trip" >=');
+            expect(text).toContain('"trip"."date_trip" <');
+            expect(values).toEqual(expect.arrayContaining([new Date('2025-06-14T22:00:00Z'), new Date('2025-06-21T22:00:00Z')]));
+        });
+
+        it('should read departure times on the clocks of the time zone, including across midnight', async () => {
+            const morning = await searchFor({ departureTimeFrom: '07:00', departureTimeTo: '09:30' });
+            mockPrisma.$queryRaw.mockClear();
+            const overnight = await searchFor({ departureTimeFrom: '22:00', departureTimeTo: '02:00' });
+
+            expect(morning.text).toContain(`to_char(("trip"."date_trip" AT TIME ZONE 'UTC') AT TIME ZONE`);
+            expect(morning.values).toEqual(expect.arrayContaining([paris, '07:00', '09:30']));
+            expect(morning.text).not.toContain(' OR ');
+            expect(overnight.text).toContain(' OR ');
+            expect(overnight.values).toEqual(expect.arrayContaining(['22:00', '02:00']));
+        });
+
+        it('should sort and page in the query', async () => {
+            const { text, values } = await searchFor({ sortBy: 'remainingSeats', sortOrder: 'desc' }, { skip: 20, take: 10 });
+
+            expect(text).toContain('ORDER BY "remaining_seats" DESC, "date_trip" ASC, "id" ASC LIMIT');
+            expect(values.slice(-2)).toEqual([10, 20]);
+        });
+
+        it('should sort by departure time by default, without a limit when not paginated', async () => {
+            const { text } = await searchFor({});
+
+            expect(text).toMatch(/ORDER BY "date_trip" ASC, "id" ASC\s*$/);
         });
 
         it('should return err(DatabaseError) on failure', async () => {
-            mockPrisma.trip.findMany.mockRejectedValue(new Error('DB error'));
+            mockPrisma.$queryRaw.mockRejectedValue(new Error('DB error'));
 
-            const result = await repository.findByFilters({});
+            const result = await repository.findByFilters({ timeZone: paris });
 
             expect(result.success).toBe(false);
             if (!result.success) {
@@ -173,8 +365,11 @@ describe('PrismaTripRepository', () => {
 
             const result = await repository.create({
                 dateTrip: new Date('2025-06-15'),
+                arrivalAt: new Date('2025-06-15T01:53:00'),
                 kms: 150,
                 seats: 3,
+                pricePerSeat: 900,
+                requiresApproval: false,
                 driverRefId: 1,
                 carRefId: 1,
             });
@@ -190,8 +385,11 @@ describe('PrismaTripRepository', () => {
 
             await repository.create({
                 dateTrip: new Date('2025-06-15'),
+                arrivalAt: new Date('2025-06-15T01:53:00'),
                 kms: 150,
                 seats: 3,
+                pricePerSeat: 900,
+                requiresApproval: false,
                 driverRefId: 1,
                 carRefId: 1,
                 cityRefIds: [10, 20],
@@ -201,21 +399,68 @@ describe('PrismaTripRepository', () => {
                 data: expect.objectContaining({
                     cities: {
                         create: [
-                            { cityRefId: 10, type: 'DEPARTURE' },
-                            { cityRefId: 20, type: 'ARRIVAL' },
+                            { cityRefId: 10, type: 'DEPARTURE', position: 0 },
+                            { cityRefId: 20, type: 'ARRIVAL', position: 1 },
                         ],
                     },
                 }),
             }));
         });
 
+        it('should store intermediate cities as ordered stops', async () => {
+            mockPrisma.trip.create.mockResolvedValue(mockTrip);
+
+            await repository.create({
+                dateTrip: new Date('2025-06-15'),
+                arrivalAt: new Date('2025-06-15T01:53:00'),
+                kms: 775,
+                seats: 3,
+                pricePerSeat: 4500,
+                requiresApproval: false,
+                driverRefId: 1,
+                carRefId: 1,
+                cityRefIds: [10, 15, 20],
+            });
+
+            const { data } = mockPrisma.trip.create.mock.calls[0][0];
+            expect(data.cities.create).toEqual([
+                { cityRefId: 10, type: 'DEPARTURE', position: 0 },
+                { cityRefId: 15, type: 'STOP', position: 1 },
+                { cityRefId: 20, type: 'ARRIVAL', position: 2 },
+            ]);
+        });
+
+        it('should link an occurrence to its series and day', async () => {
+            mockPrisma.trip.create.mockResolvedValue(mockTrip);
+            const occurrenceDate = new Date(2026, 9, 19);
+
+            await repository.create({
+                dateTrip: new Date(2026, 9, 19, 7, 45),
+                arrivalAt: new Date(2026, 9, 19, 8, 30),
+                kms: 60,
+                seats: 3,
+                pricePerSeat: 400,
+                requiresApproval: false,
+                driverRefId: 1,
+                carRefId: 1,
+                seriesRefId: 4,
+                occurrenceDate,
+            });
+
+            const { data } = mockPrisma.trip.create.mock.calls[0][0];
+            expect(data).toEqual(expect.objectContaining({ seriesRefId: 4, occurrenceDate }));
+        });
+
         it('should return err(DatabaseError) on failure', async () => {
             mockPrisma.trip.create.mockRejectedValue(new Error('Create failed'));
 
             const result = await repository.create({
                 dateTrip: new Date('2025-06-15'),
+                arrivalAt: new Date('2025-06-15T01:53:00'),
                 kms: 150,
                 seats: 3,
+                pricePerSeat: 900,
+                requiresApproval: false,
                 driverRefId: 1,
                 carRefId: 1,
             });
@@ -227,20 +472,286 @@ describe('PrismaTripRepository', () => {
         });
     });
 
-    describe('delete()', () => {
-        it('should return ok(undefined) on success', async () => {
-            mockPrisma.trip.delete.mockResolvedValue({});
+    describe('update()', () => {
+        it('should update a scheduled trip only', async () => {
+            mockPrisma.trip.updateMany.mockResolvedValue({ count: 1 });
 
-            const result = await repository.delete('trip-1');
+            const result = await repository.update('trip-1', { kms: 50, seriesDetached: true });
 
-            expect(result.success).toBe(true);
-            expect(mockPrisma.trip.delete).toHaveBeenCalledWith({ where: { id: 'trip-1' } });
+            expect(result).toEqual({ success: true, value: true });
+            expect(mockPrisma.trip.updateMany).toHaveBeenCalledWith({
+                where: { id: 'trip-1', status: 'SCHEDULED' },
+                data: { kms: 50, seriesDetached: true },
+            });
+            expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should check new seats against the bookings under the trip row lock', async () => {
+            mockPrisma.$queryRaw.mockResolvedValue([{ ref_id: 1 }]);
+            // Two passengers share the first leg, one rides the second
+            mockPrisma.inscription.findMany.mockResolvedValue([
+                { pickupPosition: 0, dropoffPosition: 1 },
+                { pickupPosition: 0, dropoffPosition: 2 },
+            ]);
+            mockPrisma.trip.updateMany.mockResolvedValue({ count: 1 });
+
+            const result = await repository.update('trip-1', { seats: 2 });
+
+            expect(result).toEqual({ success: true, value: true });
+            const [lock, id] = mockPrisma.$queryRaw.mock.calls[0] as [TemplateStringsArray, string];
+            expect(lock.join('?')).toContain('FOR UPDATE');
+            expect(id).toBe('trip-1');
+            expect(mockPrisma.inscription.findMany).toHaveBeenCalledWith({
+                where: { tripRefId: 1, status: 'ACTIVE' },
+                select: { pickupPosition: true, dropoffPosition: true },
+            });
+            expect(mockPrisma.trip.updateMany).toHaveBeenCalledWith({ where: { id: 'trip-1', status: 'SCHEDULED' }, data: { seats: 2 } });
+        });
+
+        it('should return err(SeatsBelowBookingsError) when a leg has more seats booked', async () => {
+            mockPrisma.$queryRaw.mockResolvedValue([{ ref_id: 1 }]);
+            mockPrisma.inscription.findMany.mockResolvedValue([
+                { pickupPosition: 0, dropoffPosition: 1 },
+                { pickupPosition: 0, dropoffPosition: 2 },
+            ]);
+
+            const result = await repository.update('trip-1', { seats: 1 });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(SeatsBelowBookingsError);
+            }
+            expect(mockPrisma.trip.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('should return ok(false) when the trip is no longer scheduled', async () => {
+            mockPrisma.$queryRaw.mockResolvedValue([{ ref_id: 1 }]);
+            mockPrisma.inscription.findMany.mockResolvedValue([]);
+            mockPrisma.trip.updateMany.mockResolvedValue({ count: 0 });
+
+            const result = await repository.update('trip-1', { seats: 4 });
+
+            expect(result).toEqual({ success: true, value: false });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.trip.updateMany.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.update('trip-1', { kms: 50 });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('findBySeries()', () => {
+        it('should return the occurrences from the given day in day order', async () => {
+            const fromDay = new Date(2026, 9, 19);
+            mockPrisma.trip.findMany.mockResolvedValue([mockTrip]);
+
+            const result = await repository.findBySeries(4, fromDay);
+
+            expect(result).toEqual({ success: true, value: [mockTrip] });
+            expect(mockPrisma.trip.findMany).toHaveBeenCalledWith({
+                where: { seriesRefId: 4, occurrenceDate: { gte: fromDay } },
+                orderBy: { occurrenceDate: 'asc' },
+            });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.trip.findMany.mockRejectedValue(new Error('Query failed'));
+
+            const result = await repository.findBySeries(4, new Date());
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('cancel()', () => {
+        const cancelledAt = new Date('2026-10-18T10:00:00.000Z');
+
+        it('should cancel the trip and its pending and active bookings in the same transaction', async () => {
+            mockPrisma.trip.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma.inscription.updateMany.mockResolvedValue({ count: 2 });
+
+            const result = await repository.cancel('trip-1', 'Car broke down', cancelledAt);
+
+            expect(result).toEqual({ success: true, value: true });
+            expect(mockPrisma.trip.updateMany).toHaveBeenCalledWith({
+                where: { id: 'trip-1', status: 'SCHEDULED' },
+                data: { status: 'CANCELLED', cancelledAt, cancellationReason: 'Car broke down' },
+            });
+            expect(mockPrisma.inscription.updateMany).toHaveBeenCalledWith({
+                where: { trip: { id: 'trip-1' }, status: { in: ['PENDING', 'ACTIVE'] } },
+                data: { status: 'CANCELLED', cancelledAt, cancellationReason: 'Car broke down' },
+            });
+            expect(mockPrisma.outboxMessage.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should record the emails to the passengers in the same transaction', async () => {
+            mockPrisma.trip.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma.inscription.updateMany.mockResolvedValue({ count: 1 });
+            const message = {
+                type: 'EMAIL' as const,
+                payload: {
+                    to: 'jane@example.com',
+                    locale: 'fr' as const,
+                    message: { template: 'trip-cancelled' as const, variables: { firstName: 'Jane', tripDate: '2026-10-20T08:00:00.000Z', reason: null } },
+                },
+            };
+
+            await repository.cancel('trip-1', null, cancelledAt, [message]);
+
+            expect(mockPrisma.outboxMessage.createMany).toHaveBeenCalledWith({ data: [message] });
+        });
+
+        it('should leave the bookings alone when the trip is no longer scheduled', async () => {
+            mockPrisma.trip.updateMany.mockResolvedValue({ count: 0 });
+            const message = {
+                type: 'EMAIL' as const,
+                payload: {
+                    to: 'jane@example.com',
+                    locale: 'fr' as const,
+                    message: { template: 'trip-cancelled' as const, variables: { firstName: 'Jane', tripDate: '2026-10-20T08:00:00.000Z', reason: null } },
+                },
+            };
+
+            const result = await repository.cancel('trip-1', null, cancelledAt, [message]);
+
+            expect(result).toEqual({ success: true, value: false });
+            expect(mockPrisma.inscription.updateMany).not.toHaveBeenCalled();
+            expect(mockPrisma.outboxMessage.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.trip.updateMany.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.cancel('trip-1', null, cancelledAt);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('advanceStatuses()', () => {
+        const now = new Date('2026-10-18T10:00:00.000Z');
+
+        it('should start departed trips then complete arrived ones', async () => {
+            mockPrisma.trip.updateMany.mockResolvedValueOnce({ count: 2 }).mockResolvedValueOnce({ count: 3 });
+
+            const result = await repository.advanceStatuses(now);
+
+            expect(result).toEqual({ success: true, value: { started: 2, completed: 3 } });
+            expect(mockPrisma.trip.updateMany).toHaveBeenNthCalledWith(1, {
+                where: { status: 'SCHEDULED', dateTrip: { lte: now } },
+                data: { status: 'IN_PROGRESS' },
+            });
+            expect(mockPrisma.trip.updateMany).toHaveBeenNthCalledWith(2, {
+                where: { status: 'IN_PROGRESS', arrivalAt: { lte: now } },
+                data: { status: 'COMPLETED' },
+            });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.trip.updateMany.mockRejectedValue(new Error('Update failed'));
+
+            const result = await repository.advanceStatuses(now);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('findDueReminders()', () => {
+        const from = new Date('2026-10-19T08:00:00.000Z');
+        const until = new Date('2026-10-20T08:00:00.000Z');
+        const contact = { id: 'jane-id', firstName: 'Jane', locale: 'fr', notifyBookingUpdates: true, notifyTripReminders: false, auth: { email: 'jane@example.com' } };
+
+        it('should return the trips departing in the window with their passengers', async () => {
+            mockPrisma.trip.findMany.mockResolvedValue([{
+                id: 'trip-1',
+                dateTrip: until,
+                cities: [{ city: { cityName: 'Lyon' } }, { city: { cityName: 'Grenoble' } }],
+                inscriptions: [{ user: contact }],
+            }]);
+
+            const result = await repository.findDueReminders(from, until, 50);
+
+            expect(result).toEqual({
+                success: true,
+                value: [{
+                    id: 'trip-1',
+                    dateTrip: until,
+                    departureCity: 'Lyon',
+                    arrivalCity: 'Grenoble',
+                    passengers: [{ id: 'jane-id', firstName: 'Jane', locale: 'fr', notifyBookingUpdates: true, notifyTripReminders: false, email: 'jane@example.com' }],
+                }],
+            });
+            expect(mockPrisma.trip.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { status: 'SCHEDULED', dateTrip: { gt: from, lte: until }, reminderSentAt: null },
+                orderBy: { dateTrip: 'asc' },
+                take: 50,
+            }));
+        });
+
+        it('should only remind active passengers whose account is not anonymized', async () => {
+            mockPrisma.trip.findMany.mockResolvedValue([]);
+
+            await repository.findDueReminders(from, until, 50);
+
+            const query = mockPrisma.trip.findMany.mock.calls[0][0];
+            expect(query.select.inscriptions.where).toEqual({ status: 'ACTIVE', user: { anonymizedAt: null } });
+        });
+
+        it('should return err(DatabaseError) on failure', async () => {
+            mockPrisma.trip.findMany.mockRejectedValue(new Error('DB error'));
+
+            const result = await repository.findDueReminders(from, until, 50);
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error).toBeInstanceOf(DatabaseError);
+            }
+        });
+    });
+
+    describe('markReminderSent()', () => {
+        const sentAt = new Date('2026-10-19T08:00:00.000Z');
+        const payload = { to: 'jane@example.com', locale: 'fr' as const, message: { template: 'trip-reminder' as const, variables: { firstName: 'Jane', tripDate: '2026-10-20T08:00:00.000Z', departureCity: 'Lyon', arrivalCity: 'Grenoble' } } };
+
+        it('should mark the trip and record the reminder emails in the same transaction', async () => {
+            mockPrisma.trip.updateMany.mockResolvedValue({ count: 1 });
+
+            const result = await repository.markReminderSent('trip-1', [{ type: 'EMAIL', payload }], sentAt);
+
+            expect(result).toEqual({ success: true, value: true });
+            expect(mockPrisma.$transaction).toHaveBeenCalled();
+            expect(mockPrisma.trip.updateMany).toHaveBeenCalledWith({ where: { id: 'trip-1', reminderSentAt: null }, data: { reminderSentAt: sentAt } });
+            expect(mockPrisma.outboxMessage.createMany).toHaveBeenCalledWith({ data: [{ type: 'EMAIL', payload }] });
+        });
+
+        it('should not record the emails again when the trip is already marked', async () => {
+            mockPrisma.trip.updateMany.mockResolvedValue({ count: 0 });
+
+            const result = await repository.markReminderSent('trip-1', [{ type: 'EMAIL', payload }], sentAt);
+
+            expect(result).toEqual({ success: true, value: false });
+            expect(mockPrisma.outboxMessage.createMany).not.toHaveBeenCalled();
         });
 
         it('should return err(DatabaseError) on failure', async () => {
-            mockPrisma.trip.delete.mockRejectedValue(new Error('Delete failed'));
+            mockPrisma.trip.updateMany.mockRejectedValue(new Error('DB error'));
 
-            const result = await repository.delete('trip-1');
+            const result = await repository.markReminderSent('trip-1', [], sentAt);
 
             expect(result.success).toBe(false);
             if (!result.success) {
@@ -2,19 +2,204 @@
  * @module prisma-trip.repository
  * Prisma-backed implementation of the {@link TripRepository} domain interface.
  * Manages carpooling trips, including paginated listing, filtered search,
- * creation with city associations, and deletion. All queries operate on the
+ * creation with ordered city stops, edits, cancellation, the occurrences of trip
+ * series, the status transitions driven by the clock, and the bookkeeping of departure reminders. All queries operate on the
  * `trips` database table via the renamed Prisma `Trip` model.
  */
 
 import { inject, injectable } from 'tsyringe';
-import type { CreateTripData, TripEntity } from '../../../domain/entities/trip.entity.js';
-import type { TripRepository, TripFilters } from '../../../domain/repositories/trip.repository.js';
+import { maxLegOccupancy } from '../../../domain/booking/trip-segments.js';
+import type { CityTripType } from '../../../domain/entities/city-trip.entity.js';
+import type { CreateOutboxMessageData } from '../../../domain/entities/outbox-message.entity.js';
+import type { CreateTripData, DueTripReminder, TripEntity, TripStatusAdvance, UpdateTripData } from '../../../domain/entities/trip.entity.js';
+import type { UserContact } from '../../../domain/entities/user.entity.js';
+import { boundingBox, EARTH_RADIUS_KM, type GeoPoint, type GeoRadius } from '../../../domain/geo/geo-distance.js';
+import type { TripRepository, TripFilters, TripSearchResult, TripSortField } from '../../../domain/repositories/trip.repository.js';
+import { addDays, atTimeIn, calendarDayIn, startOfDayIn } from '../../../domain/time/time-zone.js';
 import type { Logger } from '../../../lib/logging/logger.types.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import type { Result } from '../../../lib/shared/types/result.js';
 import { ok, err } from '../../../lib/shared/types/result.js';
 import { DatabaseError } from '../../../lib/errors/repository.errors.js';
-import type { PrismaClient } from '../generated/prisma/client.js';
+import { SeatsBelowBookingsError } from '../../../lib/errors/domain.errors.js';
+import { Prisma, type PrismaClient } from '../generated/prisma/client.js';
+import { writeOutboxMessages } from './prisma-outbox.repository.js';
+import { TRIP_SUMMARY_SELECT, USER_CONTACT_SELECT, toTripSummary, toUserContact } from './notification-details.js';
+
+/**
+ * Labels a stop from its index on the route: the first city is the departure,
+ * the last the arrival, and every city in between an intermediate stop.
+ */
+function stopTypeAt(index: number, count: number): CityTripType {
+    if (index === 0) return 'DEPARTURE';
+    return index === count - 1 ? 'ARRIVAL' : 'STOP';
+}
+
+/** A matching trip as returned by the search query, before its relations are loaded. */
+type SearchRow = {
+    id: string;
+    remaining_seats: number;
+    pickup_distance_km: number | null;
+};
+
+/** Columns of the search query the results can be sorted by. */
+const SORT_COLUMNS: Record<TripSortField, string> = {
+    departureTime: '"date_trip"',
+    remainingSeats: '"remaining_seats"',
+    pickupDistance: '"pickup_distance_km"',
+};
+
+/** Escapes the `LIKE` wildcards of a searched city name, so that it is matched literally. */
+function containsPattern(query: string): string {
+    return `%${query.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+/** Great-circle distance in kilometers from a point to a city, with the haversine formula of the geo rules. */
+function distanceKmSql(from: GeoPoint, city: Prisma.Sql): Prisma.Sql {
+    return Prisma.sql`2 * ${EARTH_RADIUS_KM}::float8 * asin(least(1, sqrt(
+        power(sin(radians(${city}."latitude" - ${from.latitude}::float8) / 2), 2)
+        + cos(radians(${from.latitude}::float8)) * cos(radians(${city}."latitude"))
+        * power(sin(radians(${city}."longitude" - ${from.longitude}::float8) / 2), 2))))`;
+}
+
+/**
+ * Selects the cities matching one end of the searched route: within the area when
+ * given, narrowed first by its bounding box, and containing the city name otherwise
+ * (case-insensitive). Cities without known coordinates are never within an area.
+ */
+function cityMatchSql(city: Prisma.Sql, cityName: string | undefined, area: GeoRadius | undefined): Prisma.Sql {
+    if (area) {
+        const box = boundingBox(area);
+        return Prisma.sql`${city}."latitude" BETWEEN ${box.minLatitude}::float8 AND ${box.maxLatitude}::float8
+            AND ${city}."longitude" BETWEEN ${box.minLongitude}::float8 AND ${box.maxLongitude}::float8
+            AND ${distanceKmSql(area, city)} <= ${area.radiusKm}::float8`;
+    }
+    return cityName ? Prisma.sql`${city}."city_name" ILIKE ${containsPattern(cityName)}` : Prisma.sql`TRUE`;
+}
+
+/**
+ * Finds the searched segment of a trip, as the trip segment rules do: the earliest
+ * matching pickup stop with its furthest matching dropoff stop after it. A trip
+ * without stops is travelled from its departure (0) to its arrival (1) when no
+ * route is searched. The distance from the searched departure point to the pickup
+ * is rounded to 100 m.
+ */
+function segmentSql(filters: TripFilters): Prisma.Sql {
+    const pickupCity = Prisma.sql`"pickup_city"`;
+    const pickupDistance = filters.departureNear
+        ? Prisma.sql`round((${distanceKmSql(filters.departureNear, pickupCity)})::numeric, 1)::float8`
+        : Prisma.sql`NULL::float8`;
+    const searchesRoute = Boolean(filters.departureCity || filters.departureNear || filters.arrivalCity || filters.arrivalNear);
+    const fullRoute = searchesRoute
+        ? Prisma.empty
+        : Prisma.sql`UNION ALL
+            SELECT 0, 1, NULL::float8
+            WHERE NOT EXISTS (SELECT 1 FROM "city_trips" WHERE "trip_ref_id" = "trip"."ref_id")`;
+    return Prisma.sql`(
+            SELECT "pickup"."position" AS "pickup_position", MAX("dropoff"."position") AS "dropoff_position", ${pickupDistance} AS "pickup_distance_km"
+            FROM "city_trips" "pickup"
+            JOIN "cities" "pickup_city" ON "pickup_city"."ref_id" = "pickup"."city_ref_id"
+            JOIN "city_trips" "dropoff" ON "dropoff"."trip_ref_id" = "pickup"."trip_ref_id" AND "dropoff"."position" > "pickup"."position"
+            JOIN "cities" "dropoff_city" ON "dropoff_city"."ref_id" = "dropoff"."city_ref_id"
+            WHERE "pickup"."trip_ref_id" = "trip"."ref_id"
+                AND ${cityMatchSql(pickupCity, filters.departureCity, filters.departureNear)}
+                AND ${cityMatchSql(Prisma.sql`"dropoff_city"`, filters.arrivalCity, filters.arrivalNear)}
+            GROUP BY "pickup"."position", "pickup_city"."latitude", "pickup_city"."longitude"
+            ORDER BY "pickup"."position"
+            LIMIT 1
+        ) ${fullRoute}`;
+}
+
+/**
+ * Counts the seats booked on the busiest leg of the searched segment, against
+ * ACTIVE inscriptions only. A booking holds a seat on leg `i` when
+ * `pickup_position <= i < dropoff_position`.
+ */
+function bookedOnSegmentSql(): Prisma.Sql {
+    return Prisma.sql`
+        SELECT COALESCE(MAX("on_leg"), 0)::int AS "booked"
+        FROM (
+            SELECT COUNT("inscription"."id") AS "on_leg"
+            FROM generate_series("segment"."pickup_position", "segment"."dropoff_position" - 1) AS "leg"
+            LEFT JOIN "inscriptions" "inscription" ON "inscription"."trip_ref_id" = "trip"."ref_id"
+                AND "inscription"."status" = 'ACTIVE'
+                AND "inscription"."pickup_position" <= "leg"
+                AND "leg" < "inscription"."dropoff_position"
+            GROUP BY "leg"
+        ) "legs"`;
+}
+
+/**
+ * Builds the `date_trip` bounds matching whole days in the trips' time zone, from
+ * the start of `from`'s day to the end of `to`'s day.
+ */
+function dateTripRangeSql(filters: TripFilters): Prisma.Sql[] {
+    const bounds: Prisma.Sql[] = [];
+    if (filters.dateFrom) {
+        bounds.push(Prisma.sql`"trip"."date_trip" >= ${startOfDayIn(filters.dateFrom, filters.timeZone)}`);
+    }
+    if (filters.dateTo) {
+        const dayAfter = atTimeIn(addDays(calendarDayIn(filters.dateTo, filters.timeZone), 1), 0, 0, filters.timeZone);
+        bounds.push(Prisma.sql`"trip"."date_trip" < ${dayAfter}`);
+    }
+    return bounds;
+}
+
+/**
+ * Keeps departures inside an `HH:MM` time-of-day window, read on the clocks of the
+ * trips' time zone. A window whose start is after its end spans midnight (e.g. 22:00 to 02:00).
+ */
+function timeWindowSql(filters: TripFilters): Prisma.Sql[] {
+    const { departureTimeFrom: from, departureTimeTo: to } = filters;
+    const time = Prisma.sql`to_char(("trip"."date_trip" AT TIME ZONE 'UTC') AT TIME ZONE ${filters.timeZone}, 'HH24:MI')`;
+    if (from && to && from > to) {
+        return [Prisma.sql`(${time} >= ${from} OR ${time} <= ${to})`];
+    }
+    return [...(from ? [Prisma.sql`${time} >= ${from}`] : []), ...(to ? [Prisma.sql`${time} <= ${to}`] : [])];
+}
+
+/**
+ * Builds the conditions of a search besides the route: SCHEDULED trips only, the
+ * date range, the departure time window, the price cap and the seats still free
+ * on the searched segment.
+ */
+function searchConditionsSql(filters: TripFilters): Prisma.Sql {
+    const conditions = [Prisma.sql`"trip"."status" = 'SCHEDULED'`, ...dateTripRangeSql(filters), ...timeWindowSql(filters)];
+    if (filters.maxPricePerSeat !== undefined) {
+        conditions.push(Prisma.sql`"trip"."price_per_seat" <= ${filters.maxPricePerSeat}`);
+    }
+    if (filters.minSeats !== undefined) {
+        conditions.push(Prisma.sql`"trip"."seats" - "occupancy"."booked" >= ${filters.minSeats}`);
+    }
+    return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * Orders search results by the requested field, breaking ties by departure time
+ * then id so that pages are stable. Trips without a pickup distance come last in
+ * ascending order and first in descending order, as PostgreSQL sorts NULL.
+ */
+function searchOrderSql(sortBy: TripSortField, sortOrder: 'asc' | 'desc'): Prisma.Sql {
+    const direction = sortOrder === 'desc' ? Prisma.sql`DESC` : Prisma.sql`ASC`;
+    const tieBreak = sortBy === 'departureTime' ? Prisma.sql`"id" ASC` : Prisma.sql`"date_trip" ASC, "id" ASC`;
+    return Prisma.sql`ORDER BY ${Prisma.raw(SORT_COLUMNS[sortBy])} ${direction}, ${tieBreak}`;
+}
+
+/**
+ * Builds the search query: the SCHEDULED trips having a segment between the searched
+ * departure and arrival, with the seats still free on that segment and the
+ * distance to its pickup.
+ */
+function searchSql(filters: TripFilters): Prisma.Sql {
+    return Prisma.sql`
+        SELECT "trip"."id", "trip"."date_trip",
+            GREATEST(0, "trip"."seats" - "occupancy"."booked") AS "remaining_seats",
+            "segment"."pickup_distance_km"
+        FROM "trips" "trip"
+        CROSS JOIN LATERAL (${segmentSql(filters)}) "segment"
+        CROSS JOIN LATERAL (${bookedOnSegmentSql()}) "occupancy"
+        WHERE ${searchConditionsSql(filters)}`;
+}
 
 /**
  * Prisma implementation of {@link TripRepository}.
@@ -49,7 +234,7 @@ export class PrismaTripRepository implements TripRepository {
                     include: {
                         driver: true,
                         car: true,
-                        cities: { include: { city: true } },
+                        cities: { include: { city: true }, orderBy: { position: 'asc' } },
                         inscriptions: true,
                     },
                 }),
@@ -75,7 +260,7 @@ export class PrismaTripRepository implements TripRepository {
                 include: {
                     driver: true,
                     car: true,
-                    cities: { include: { city: true } },
+                    cities: { include: { city: true }, orderBy: { position: 'asc' } },
                     inscriptions: true,
                 },
             });
@@ -87,64 +272,81 @@ export class PrismaTripRepository implements TripRepository {
     }
 
     /**
-     * Searches trips matching optional departure city, arrival city, and date filters.
-     * Uses Prisma `some` relation filters on the nested `cities` relation, checking
-     * city name and CityTrip type (DEPARTURE/ARRIVAL).
-     * @param filters - Optional search filters.
-     * @returns `ok(TripEntity[])` with matching trips, or `err(DatabaseError)` on failure.
+     * Finds a single trip by its integer refId, without relations.
+     * @param refId - The integer auto-incremented refId of the trip.
+     * @returns `ok(TripEntity)` if found, `ok(null)` if not found,
+     *          or `err(DatabaseError)` on failure.
      */
-    async findByFilters(filters: TripFilters): Promise<Result<TripEntity[], DatabaseError>> {
+    async findByRefId(refId: number): Promise<Result<TripEntity | null, DatabaseError>> {
         try {
-            const where: Record<string, unknown> = {};
-
-            if (filters.departureCity) {
-                where.cities = {
-                    some: {
-                        city: { cityName: { contains: filters.departureCity, mode: 'insensitive' } },
-                        type: 'DEPARTURE',
-                    },
-                };
-            }
+            const trip = await this.prisma.trip.findUnique({
+                where: { refId },
+            });
+            return ok(trip);
+        } catch (e) {
+            this.logger.error('Failed to find trip by ref ID', e instanceof Error ? e : null, { operation: 'findByRefId', tripRefId: refId });
+            return err(new DatabaseError('Failed to find trip by ref id', e));
+        }
+    }
 
-            if (filters.arrivalCity) {
-                const arrivalFilter = {
-                    some: {
-                        city: { cityName: { contains: filters.arrivalCity, mode: 'insensitive' } },
-                        type: 'ARRIVAL',
-                    },
-                };
-                // Merge with existing cities filter if departureCity was also specified
-                if (where.cities) {
-                    where.AND = [
-                        { cities: where.cities },
-                        { cities: arrivalFilter },
-                    ];
-                    delete where.cities;
-                } else {
-                    where.cities = arrivalFilter;
-                }
-            }
+    /**
+     * Loads the contact of the driver of a trip and their notification preferences;
+     * the email is read through the driver's auth record.
+     * @param id - The UUID of the trip.
+     * @returns `ok(UserContact)` if found, `ok(null)` if not found,
+     *          or `err(DatabaseError)` on failure.
+     */
+    async findDriverContact(id: string): Promise<Result<UserContact | null, DatabaseError>> {
+        try {
+            const trip = await this.prisma.trip.findUnique({
+                where: { id },
+                select: { driver: { select: { user: { select: USER_CONTACT_SELECT } } } },
+            });
+            return ok(trip ? toUserContact(trip.driver.user) : null);
+        } catch (e) {
+            this.logger.error('Failed to find trip driver contact', e instanceof Error ? e : null, { operation: 'findDriverContact', tripId: id });
+            return err(new DatabaseError('Failed to find trip driver contact', e));
+        }
+    }
 
-            if (filters.date) {
-                // Match the full day: from start of day to start of next day
-                const startOfDay = new Date(filters.date);
-                startOfDay.setHours(0, 0, 0, 0);
-                const endOfDay = new Date(startOfDay);
-                endOfDay.setDate(endOfDay.getDate() + 1);
-                where.dateTrip = { gte: startOfDay, lt: endOfDay };
-            }
+    /**
+     * Searches SCHEDULED trips matching the given filters, sorted and paginated.
+     * A trip matches when any of its stops matches the departure city (or lies within
+     * the departure area) and a later stop matches the arrival city (or area), so
+     * intermediate stops can be searched too. One query finds, sorts and pages the
+     * matching trips with the seats still free on the searched segment and the
+     * distance to its pickup, and another counts them; the relations of the trips
+     * of the page are then loaded, without their inscriptions.
+     * @param filters - Search filters, the time zone they are read in and the sort order.
+     * @param params - Optional pagination with `skip` and `take`.
+     * @returns `ok({ data, total })` with the page of matching trips and the total match count,
+     *          or `err(DatabaseError)` on failure.
+     */
+    async findByFilters(filters: TripFilters, params?: { skip: number; take: number }): Promise<Result<{ data: TripSearchResult[]; total: number }, DatabaseError>> {
+        try {
+            const matches = searchSql(filters);
+            const order = searchOrderSql(filters.sortBy ?? 'departureTime', filters.sortOrder ?? 'asc');
+            const page = params ? Prisma.sql`LIMIT ${params.take} OFFSET ${params.skip}` : Prisma.empty;
+            const [rows, counted] = await Promise.all([
+                this.prisma.$queryRaw<SearchRow[]>`SELECT * FROM (${matches}) "match" ${order} ${page}`,
+                this.prisma.$queryRaw<{ total: bigint }[]>`SELECT COUNT(*) AS "total" FROM (${matches}) "match"`,
+            ]);
 
-            const trips = await this.prisma.trip.findMany({
-                where,
+            const trips = rows.length === 0 ? [] : await this.prisma.trip.findMany({
+                where: { id: { in: rows.map((row) => row.id) } },
                 include: {
                     driver: true,
                     car: true,
-                    cities: { include: { city: true } },
-                    inscriptions: true,
+                    cities: { include: { city: true }, orderBy: { position: 'asc' } },
                 },
             });
-
-            return ok(trips as unknown as TripEntity[]);
+            const byId = new Map((trips as unknown as TripEntity[]).map((trip) => [trip.id, trip]));
+            // A trip deleted between the two reads is left out of the page
+            const data = rows.flatMap((row) => {
+                const trip = byId.get(row.id);
+                return trip ? [{ ...trip, remainingSeats: row.remaining_seats, pickupDistanceKm: row.pickup_distance_km }] : [];
+            });
+            return ok({ data, total: Number(counted[0]?.total ?? 0) });
         } catch (e) {
             this.logger.error('Failed to find trips by filters', e instanceof Error ? e : null, { operation: 'findByFilters', filters });
             return err(new DatabaseError('Failed to find trips by filters', e));
@@ -154,6 +356,9 @@ export class PrismaTripRepository implements TripRepository {
     /**
      * Creates a new trip, optionally linking it to cities via CityTrip join records.
      * Uses a Prisma nested create to atomically persist the trip and its city associations.
+     * Cities are stored in the given order with their position on the route; the first is
+     * the DEPARTURE, the last the ARRIVAL and any in between are STOPs. An occurrence of a
+     * series is unique per series and day, so materializing the same day twice fails.
      * @param data - Trip data including driver/car refIds and optional cityRefIds.
      * @returns `ok(TripEntity)` with the created trip, or `err(DatabaseError)` on failure.
      */
@@ -162,15 +367,20 @@ export class PrismaTripRepository implements TripRepository {
             const trip = await this.prisma.trip.create({
                 data: {
                     dateTrip: data.dateTrip,
+                    arrivalAt: data.arrivalAt,
                     kms: data.kms,
                     seats: data.seats,
+                    pricePerSeat: data.pricePerSeat,
+                    requiresApproval: data.requiresApproval,
                     driverRefId: data.driverRefId,
                     carRefId: data.carRefId,
+                    ...(data.seriesRefId !== undefined && { seriesRefId: data.seriesRefId, occurrenceDate: data.occurrenceDate }),
                     ...(data.cityRefIds && data.cityRefIds.length > 0 && {
                         cities: {
-                            create: data.cityRefIds.map((cityRefId, index) => ({
+                            create: data.cityRefIds.map((cityRefId, index, all) => ({
                                 cityRefId,
-                                type: index === 0 ? 'DEPARTURE' : 'ARRIVAL',
+                                type: stopTypeAt(index, all.length),
+                                position: index,
                             })),
                         },
                     }),
@@ -178,7 +388,7 @@ export class PrismaTripRepository implements TripRepository {
                 include: {
                     driver: true,
                     car: true,
-                    cities: { include: { city: true } },
+                    cities: { include: { city: true }, orderBy: { position: 'asc' } },
                     inscriptions: true,
                 },
             });
@@ -190,19 +400,198 @@ export class PrismaTripRepository implements TripRepository {
     }
 
     /**
-     * Deletes a trip by UUID.
-     * @param id - The UUID of the trip to delete.
-     * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
+     * Updates the trip with a conditional update, so only a SCHEDULED trip is affected.
+     * New seats are checked against the accepted bookings under the trip row lock
+     * that bookings take, so no booking can slip in between the check and the update.
+     * @param id - The UUID of the trip.
+     * @param data - The fields to change.
+     * @returns `ok(true)` if the trip was updated, `ok(false)` if it was no longer
+     *          SCHEDULED, `err(SeatsBelowBookingsError)` when a leg of the trip already
+     *          has more seats booked than the new seats, or `err(DatabaseError)` on failure.
      */
-    async delete(id: string): Promise<Result<void, DatabaseError>> {
+    async update(id: string, data: UpdateTripData): Promise<Result<boolean, DatabaseError | SeatsBelowBookingsError>> {
         try {
-            await this.prisma.trip.delete({
-                where: { id },
+            const { seats } = data;
+            if (seats === undefined) {
+                const { count } = await this.prisma.trip.updateMany({ where: { id, status: 'SCHEDULED' }, data });
+                return ok(count > 0);
+            }
+            const outcome = await this.prisma.$transaction(async (tx): Promise<{ booked: number } | { updated: boolean }> => {
+                const booked = await this.lockBookedSeats(tx, id);
+                if (booked > seats) {
+                    return { booked };
+                }
+                const { count } = await tx.trip.updateMany({ where: { id, status: 'SCHEDULED' }, data });
+                return { updated: count > 0 };
+            });
+            if ('booked' in outcome) {
+                this.logger.warn('Trip seats below its bookings', { tripId: id, seats, booked: outcome.booked });
+                return err(new SeatsBelowBookingsError(id, outcome.booked));
+            }
+            return ok(outcome.updated);
+        } catch (e) {
+            this.logger.error('Failed to update trip', e instanceof Error ? e : null, { operation: 'update', tripId: id });
+            return err(new DatabaseError('Failed to update trip', e));
+        }
+    }
+
+    /**
+     * Locks the trip row (`SELECT ... FOR UPDATE`) until the surrounding transaction
+     * ends, as bookings do, and reads the most seats its accepted bookings hold on a leg.
+     * @param tx - The interactive transaction client.
+     * @param id - The UUID of the trip.
+     * @returns The peak seat occupancy of the trip, 0 when it has no booking or does not exist.
+     */
+    private async lockBookedSeats(tx: Prisma.TransactionClient, id: string): Promise<number> {
+        const rows = await tx.$queryRaw<{ ref_id: number }[]>`SELECT "ref_id" FROM "trips" WHERE "id" = ${id} FOR UPDATE`;
+        if (rows.length === 0) {
+            return 0;
+        }
+        const booked = await tx.inscription.findMany({
+            where: { tripRefId: rows[0].ref_id, status: 'ACTIVE' },
+            select: { pickupPosition: true, dropoffPosition: true },
+        });
+        const lastStop = Math.max(0, ...booked.map((segment) => segment.dropoffPosition));
+        return maxLegOccupancy(booked, { pickupPosition: 0, dropoffPosition: lastStop });
+    }
+
+    /**
+     * Retrieves the occurrences of a series whose day is on or after `fromDay`, in day order.
+     * @param seriesRefId - The integer refId of the series.
+     * @param fromDay - The first occurrence day to include.
+     * @returns `ok(TripEntity[])` on success, or `err(DatabaseError)` on failure.
+     */
+    async findBySeries(seriesRefId: number, fromDay: Date): Promise<Result<TripEntity[], DatabaseError>> {
+        try {
+            const trips = await this.prisma.trip.findMany({
+                where: { seriesRefId, occurrenceDate: { gte: fromDay } },
+                orderBy: { occurrenceDate: 'asc' },
+            });
+            return ok(trips);
+        } catch (e) {
+            this.logger.error('Failed to find series occurrences', e instanceof Error ? e : null, { operation: 'findBySeries', seriesRefId });
+            return err(new DatabaseError('Failed to find series occurrences', e));
+        }
+    }
+
+    /**
+     * Sets the trip CANCELLED with a conditional update, so only a SCHEDULED trip is
+     * affected, and cancels its PENDING and ACTIVE inscriptions with the same reason
+     * in the same transaction when it is.
+     * @param id - The UUID of the trip.
+     * @param reason - Why the driver cancelled, if given.
+     * @param cancelledAt - When the trip was cancelled.
+     * @param outbox - The emails telling the passengers, recorded in the same transaction.
+     * @returns `ok(true)` if this call cancelled the trip, `ok(false)` if it was no longer
+     *          SCHEDULED, or `err(DatabaseError)` on failure.
+     */
+    async cancel(id: string, reason: string | null, cancelledAt: Date, outbox: CreateOutboxMessageData[] = []): Promise<Result<boolean, DatabaseError>> {
+        try {
+            const cancelled = await this.prisma.$transaction(async (tx) => {
+                const { count } = await tx.trip.updateMany({
+                    where: { id, status: 'SCHEDULED' },
+                    data: { status: 'CANCELLED', cancelledAt, cancellationReason: reason },
+                });
+                if (count === 0) {
+                    return false;
+                }
+                await tx.inscription.updateMany({
+                    where: { trip: { id }, status: { in: ['PENDING', 'ACTIVE'] } },
+                    data: { status: 'CANCELLED', cancelledAt, cancellationReason: reason },
+                });
+                await writeOutboxMessages(tx, outbox);
+                return true;
+            });
+            return ok(cancelled);
+        } catch (e) {
+            this.logger.error('Failed to cancel trip', e instanceof Error ? e : null, { operation: 'cancel', tripId: id });
+            return err(new DatabaseError('Failed to cancel trip', e));
+        }
+    }
+
+    /**
+     * Starts the SCHEDULED trips whose departure is at or before `now`, then completes
+     * the IN_PROGRESS trips whose arrival is at or before `now`, so a trip whose whole
+     * journey was missed between two runs goes straight through to COMPLETED.
+     * @param now - The current time.
+     * @returns `ok({ started, completed })` with the number of trips moved by each step,
+     *          or `err(DatabaseError)` on failure.
+     */
+    async advanceStatuses(now: Date): Promise<Result<TripStatusAdvance, DatabaseError>> {
+        try {
+            const started = await this.prisma.trip.updateMany({
+                where: { status: 'SCHEDULED', dateTrip: { lte: now } },
+                data: { status: 'IN_PROGRESS' },
+            });
+            const completed = await this.prisma.trip.updateMany({
+                where: { status: 'IN_PROGRESS', arrivalAt: { lte: now } },
+                data: { status: 'COMPLETED' },
+            });
+            return ok({ started: started.count, completed: completed.count });
+        } catch (e) {
+            this.logger.error('Failed to advance trip statuses', e instanceof Error ? e : null, { operation: 'advanceStatuses' });
+            return err(new DatabaseError('Failed to advance trip statuses', e));
+        }
+    }
+
+    /**
+     * Retrieves the SCHEDULED trips departing in `(from, until]` whose reminder was not sent,
+     * soonest first, with the ACTIVE passengers of non-anonymized accounts.
+     * @param from - Start of the window (exclusive).
+     * @param until - End of the window (inclusive).
+     * @param limit - Maximum number of trips returned.
+     * @returns `ok(DueTripReminder[])` on success, or `err(DatabaseError)` on failure.
+     */
+    async findDueReminders(from: Date, until: Date, limit: number): Promise<Result<DueTripReminder[], DatabaseError>> {
+        try {
+            const trips = await this.prisma.trip.findMany({
+                where: { status: 'SCHEDULED', dateTrip: { gt: from, lte: until }, reminderSentAt: null },
+                orderBy: { dateTrip: 'asc' },
+                take: limit,
+                select: {
+                    ...TRIP_SUMMARY_SELECT,
+                    inscriptions: {
+                        where: { status: 'ACTIVE', user: { anonymizedAt: null } },
+                        select: { user: { select: USER_CONTACT_SELECT } },
+                    },
+                },
+            });
+            return ok(trips.map((trip) => ({
+                ...toTripSummary(trip),
+                passengers: trip.inscriptions.map((inscription) => toUserContact(inscription.user)),
+            })));
+        } catch (e) {
+            this.logger.error('Failed to find due trip reminders', e instanceof Error ? e : null, { operation: 'findDueReminders', limit });
+            return err(new DatabaseError('Failed to find due trip reminders', e));
+        }
+    }
+
+    /**
+     * Sets `reminderSentAt` with a conditional update, so only a trip not yet marked is
+     * affected, and records the reminder emails in the same transaction when it is.
+     * @param id - The UUID of the trip.
+     * @param outbox - The reminder emails.
+     * @param sentAt - When the reminder was sent.
+     * @returns `ok(true)` if this call marked the trip, `ok(false)` if it already was marked,
+     *          or `err(DatabaseError)` on failure.
+     */
+    async markReminderSent(id: string, outbox: CreateOutboxMessageData[], sentAt: Date): Promise<Result<boolean, DatabaseError>> {
+        try {
+            const marked = await this.prisma.$transaction(async (tx) => {
+                const { count } = await tx.trip.updateMany({
+                    where: { id, reminderSentAt: null },
+                    data: { reminderSentAt: sentAt },
+                });
+                if (count === 0) {
+                    return false;
+                }
+                await writeOutboxMessages(tx, outbox);
+                return true;
             });
-            return ok(undefined);
+            return ok(marked);
         } catch (e) {
-            this.logger.error('Failed to delete trip', e instanceof Error ? e : null, { operation: 'delete', tripId: id });
-            return err(new DatabaseError('Failed to delete trip', e));
+            this.logger.error('Failed to mark trip reminder as sent', e instanceof Error ? e : null, { operation: 'markReminderSent', tripId: id });
+            return err(new DatabaseError('Failed to mark trip reminder as sent', e));
         }
     }
 }
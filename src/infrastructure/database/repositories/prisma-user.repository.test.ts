@@ -106,6 +106,7 @@ describe('PrismaUserRepository', () => {
 			firstName: 'Jane',
 			lastName: 'Smith',
 			phone: '+33698765432',
+			locale: 'fr' as const,
 			authRefId: 1,
 		};
 
@@ -131,6 +132,7 @@ describe('PrismaUserRepository', () => {
 					firstName: createData.firstName,
 					lastName: createData.lastName,
 					phone: createData.phone,
+					locale: createData.locale,
 					authRefId: createData.authRefId,
 				},
 				include: { auth: { select: { email: true } } },
@@ -149,4 +151,46 @@ describe('PrismaUserRepository', () => {
 			}
 		});
 	});
+
+	// Verifies that anonymization reaches every table holding personal data, reviews included
+	describe('anonymize()', () => {
+		function createMockTx() {
+			return {
+				user: { findUniqueOrThrow: vi.fn().mockResolvedValue({ ...mockUser, refId: 7, authRefId: 3 }), update: vi.fn() },
+				auth: { update: vi.fn() },
+				driver: { updateMany: vi.fn() },
+				inscription: { updateMany: vi.fn() },
+				accountToken: { deleteMany: vi.fn() },
+				review: { updateMany: vi.fn() },
+			};
+		}
+
+		it('should clear the comments of the reviews the user wrote and keep their scores', async () => {
+			const tx = createMockTx();
+			Object.assign(mockPrisma, { $transaction: vi.fn((fn: (client: typeof tx) => Promise<void>) => fn(tx)) });
+
+			const result = await repository.anonymize('user-123');
+
+			expect(result.success).toBe(true);
+			expect(tx.review.updateMany).toHaveBeenCalledWith({
+				where: { authorRefId: 7 },
+				data: { comment: null },
+			});
+			expect(tx.inscription.updateMany).toHaveBeenCalledWith({
+				where: { userRefId: 7 },
+				data: { status: 'ANONYMIZED' },
+			});
+		});
+
+		it('should return err(DatabaseError) when the transaction fails', async () => {
+			Object.assign(mockPrisma, { $transaction: vi.fn().mockRejectedValue(new Error('Deadlock')) });
+
+			const result = await repository.anonymize('user-123');
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.message).toBe('Failed to anonymize user');
+			}
+		});
+	});
 });
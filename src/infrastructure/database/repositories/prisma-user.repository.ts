@@ -98,7 +98,7 @@ export class PrismaUserRepository implements UserRepository {
 
 	/**
 	 * Creates a new user profile linked to an existing auth record via authRefId.
-	 * @param data - User creation data including firstName, lastName, phone, and authRefId.
+	 * @param data - User creation data including firstName, lastName, phone, locale, and authRefId.
 	 * @returns `ok(PublicUserEntity)` with the created user (including email),
 	 *          or `err(DatabaseError)` on failure (e.g. unique constraint violation).
 	 */
@@ -109,6 +109,7 @@ export class PrismaUserRepository implements UserRepository {
 					firstName: data.firstName,
 					lastName: data.lastName,
 					phone: data.phone,
+					locale: data.locale,
 					authRefId: data.authRefId,
 				},
 				// Include auth email in the response for PublicUserEntity
@@ -162,13 +163,16 @@ export class PrismaUserRepository implements UserRepository {
 	/**
 	 * GDPR-compliant anonymization of a user and all related records.
 	 * Runs within a Prisma interactive transaction to ensure atomicity across
-	 * four tables: auth, user, driver, and inscription.
+	 * six tables: auth, user, driver, inscription, account token and review.
 	 *
 	 * Steps performed inside the transaction:
 	 * 1. Replace auth email/password with random values and set anonymizedAt.
 	 * 2. Null out user profile fields (firstName, lastName, phone) and set anonymizedAt.
 	 * 3. Replace driver license with an anonymized placeholder if a driver record exists.
 	 * 4. Mark all inscriptions for this user as "ANONYMIZED" status.
+	 * 5. Delete pending password reset and email verification tokens of the account.
+	 * 6. Clear the comments of the reviews the user wrote; scores are kept so the
+	 *    ratings of the reviewed users do not change.
 	 *
 	 * @param id - The UUID of the user to anonymize.
 	 * @returns `ok(undefined)` on success, or `err(DatabaseError)` on failure.
@@ -217,6 +221,17 @@ export class PrismaUserRepository implements UserRepository {
 					where: { userRefId: user.refId },
 					data: { status: 'ANONYMIZED' },
 				});
+
+				// 5. Discard account tokens so emailed links stop working
+				await tx.accountToken.deleteMany({
+					where: { authRefId: user.authRefId },
+				});
+
+				// 6. Strip free text from the user's reviews, which may identify them
+				await tx.review.updateMany({
+					where: { authorRefId: user.refId },
+					data: { comment: null },
+				});
 			});
 			return ok(undefined);
 		} catch (e) {
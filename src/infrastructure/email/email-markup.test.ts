@@ -0,0 +1,39 @@
+/**
+ * @module email-markup.test
+ * Unit tests for the email markup helpers: escaping in the `html` tagged
+ * template, nesting of safe fragments, and the greeting line.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { greeting, html, SafeHtml } from './email-markup.js';
+
+describe('html', () => {
+	it('should escape interpolated strings and numbers', () => {
+		expect(html`<p>${'<b>"Tom" & Jerry\'s</b>'} ${42}</p>`.value).toBe('<p>&lt;b&gt;&quot;Tom&quot; &amp; Jerry&#39;s&lt;/b&gt; 42</p>');
+	});
+
+	it('should keep nested fragments as they are', () => {
+		const inner = html`<strong>${'A & B'}</strong>`;
+
+		expect(html`<p>${inner}</p>`.value).toBe('<p><strong>A &amp; B</strong></p>');
+	});
+
+	it('should render arrays and skip null or undefined values', () => {
+		expect(html`<ul>${['<a>', html`<li>b</li>`]}${null}${undefined}</ul>`.value).toBe('<ul>&lt;a&gt;<li>b</li></ul>');
+	});
+
+	it('should return SafeHtml', () => {
+		expect(html`<p></p>`).toBeInstanceOf(SafeHtml);
+	});
+});
+
+describe('greeting', () => {
+	it('should greet by first name when known', () => {
+		expect(greeting('fr', 'Camille')).toBe('Bonjour Camille,');
+		expect(greeting('en', 'Camille')).toBe('Hello Camille,');
+	});
+
+	it('should fall back to a plain greeting', () => {
+		expect(greeting('fr', null)).toBe('Bonjour,');
+	});
+});
@@ -0,0 +1,123 @@
+/**
+ * @module email-markup
+ * Building blocks shared by the email templates: an `html` tagged template
+ * that escapes every interpolated value, the common page layout, and the
+ * locale-aware formatting of the values shown in emails.
+ */
+
+import type { Locale } from '../../domain/entities/user.entity.js';
+import { escapeHtml } from '../../lib/shared/utils/html-escape.util.js';
+
+/** Time zone trip dates are shown in; trips are stored in UTC and take place in France. */
+export const EMAIL_TIME_ZONE = 'Europe/Paris';
+
+/** BCP 47 tag used to format values for each locale. */
+const INTL_LOCALES: Record<Locale, string> = {
+	fr: 'fr-FR',
+	en: 'en-GB',
+};
+
+/** Footer closing every email. */
+const FOOTERS: Record<Locale, string> = {
+	fr: 'Vous recevez cet email car vous avez un compte Covoiturage. Merci de ne pas y répondre.',
+	en: 'You are receiving this email because you have a Carpooling account. Please do not reply to it.',
+};
+
+/**
+ * HTML markup that is already safe to output. Only produced by {@link html},
+ * so every value reaching an email went through {@link escapeHtml}.
+ */
+export class SafeHtml {
+	constructor(readonly value: string) {}
+
+	toString(): string {
+		return this.value;
+	}
+}
+
+/** Values accepted inside an {@link html} template. */
+type HtmlValue = SafeHtml | string | number | null | undefined | HtmlValue[];
+
+function renderValue(value: HtmlValue): string {
+	if (value instanceof SafeHtml) {
+		return value.value;
+	}
+	if (Array.isArray(value)) {
+		return value.map(renderValue).join('');
+	}
+	if (value === null || value === undefined) {
+		return '';
+	}
+	return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template building {@link SafeHtml}. Interpolated strings and numbers
+ * are escaped, nested `html` fragments are kept as they are, and null or
+ * undefined render nothing.
+ * @example html`<p>Hello ${firstName}</p>`
+ */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+	let result = strings[0];
+	values.forEach((value, index) => {
+		result += renderValue(value) + strings[index + 1];
+	});
+	return new SafeHtml(result);
+}
+
+/**
+ * Wraps the body of an email in the common HTML document.
+ * @param locale - The language of the email, set on the document.
+ * @param subject - The subject, used as the document title.
+ * @param body - The content of the email.
+ * @returns The complete HTML document.
+ */
+export function renderHtmlLayout(locale: Locale, subject: string, body: SafeHtml): string {
+	return html`<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${subject}</title>
+</head>
+<body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+${body}
+<hr style="border: none; border-top: 1px solid #e5e7eb;">
+<p style="font-size: 12px; color: #6b7280;">${FOOTERS[locale]}</p>
+</body>
+</html>`.value;
+}
+
+/**
+ * Appends the common footer to the plain-text body of an email.
+ * @param locale - The language of the email.
+ * @param lines - The paragraphs of the body.
+ * @returns The complete plain-text body.
+ */
+export function renderTextLayout(locale: Locale, lines: string[]): string {
+	return [...lines, '--', FOOTERS[locale]].join('\n\n');
+}
+
+/**
+ * Formats a trip date with its time, in {@link EMAIL_TIME_ZONE}.
+ * @param isoDate - The date as an ISO 8601 string.
+ * @param locale - The language of the email.
+ * @returns e.g. "mardi 20 octobre 2026 à 10:00" or "Tuesday, 20 October 2026 at 10:00".
+ */
+export function formatTripDate(isoDate: string, locale: Locale): string {
+	return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+		dateStyle: 'full',
+		timeStyle: 'short',
+		timeZone: EMAIL_TIME_ZONE,
+	}).format(new Date(isoDate));
+}
+
+/**
+ * Opening line of an email, personalized when the first name is known.
+ * @param locale - The language of the email.
+ * @param firstName - The recipient's first name, or null if not set.
+ * @returns e.g. "Bonjour Camille," or "Hello,".
+ */
+export function greeting(locale: Locale, firstName: string | null): string {
+	const hello = locale === 'fr' ? 'Bonjour' : 'Hello';
+	return firstName ? `${hello} ${firstName},` : `${hello},`;
+}
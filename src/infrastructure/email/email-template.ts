@@ -0,0 +1,33 @@
+/**
+ * @module email-template
+ * Shape of an email template: the wording of the email in every supported
+ * locale, and sample variables used to preview it.
+ */
+
+import type { Locale } from '../../domain/entities/user.entity.js';
+import type { EmailTemplateId, EmailTemplateVariables } from '../../domain/services/email.service.js';
+import type { SafeHtml } from './email-markup.js';
+
+/**
+ * The content of an email in one locale, before the common layout is applied.
+ *
+ * @property subject - The subject line.
+ * @property html - The HTML body, built with the escaping `html` tag.
+ * @property text - The paragraphs of the plain-text body.
+ */
+export type EmailContent = {
+	subject: string;
+	html: SafeHtml;
+	text: string[];
+};
+
+/**
+ * An email template.
+ *
+ * @property sample - Realistic variables used by the admin preview.
+ * @property locales - Builds the content of the email, for each locale.
+ */
+export type EmailTemplate<K extends EmailTemplateId> = {
+	sample: EmailTemplateVariables[K];
+	locales: Record<Locale, (variables: EmailTemplateVariables[K]) => EmailContent>;
+};
@@ -0,0 +1,42 @@
+/**
+ * @module email-templates
+ * Registry of the email templates, keyed by template id. The mapped type
+ * makes adding a template id to the domain catalogue a compile error until
+ * its template is registered here.
+ */
+
+import type { EmailTemplateId } from '../../domain/services/email.service.js';
+import type { EmailTemplate } from './email-template.js';
+import { accountLockedTemplate } from './templates/account-locked.template.js';
+import { bookingCancelledTemplate } from './templates/booking-cancelled.template.js';
+import { bookingConfirmedTemplate } from './templates/booking-confirmed.template.js';
+import { bookingReceivedTemplate } from './templates/booking-received.template.js';
+import { emailChangedTemplate } from './templates/email-changed.template.js';
+import { emailVerificationTemplate } from './templates/email-verification.template.js';
+import { passwordResetTemplate } from './templates/password-reset.template.js';
+import { tripCancelledTemplate } from './templates/trip-cancelled.template.js';
+import { tripReminderTemplate } from './templates/trip-reminder.template.js';
+import { welcomeTemplate } from './templates/welcome.template.js';
+
+/** Every email template, keyed by id. */
+export const emailTemplates: { [K in EmailTemplateId]: EmailTemplate<K> } = {
+	welcome: welcomeTemplate,
+	'email-verification': emailVerificationTemplate,
+	'password-reset': passwordResetTemplate,
+	'email-changed': emailChangedTemplate,
+	'account-locked': accountLockedTemplate,
+	'trip-cancelled': tripCancelledTemplate,
+	'booking-confirmed': bookingConfirmedTemplate,
+	'trip-reminder': tripReminderTemplate,
+	'booking-received': bookingReceivedTemplate,
+	'booking-cancelled': bookingCancelledTemplate,
+};
+
+/**
+ * Narrows a string to a registered template id.
+ * @param template - The candidate id.
+ * @returns True if a template is registered under this id.
+ */
+export function isEmailTemplateId(template: string): template is EmailTemplateId {
+	return Object.hasOwn(emailTemplates, template);
+}
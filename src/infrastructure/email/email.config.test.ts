@@ -0,0 +1,96 @@
+/**
+ * @module email.config.test
+ * Unit tests for {@link createEmailConfig}.
+ * Tests cover the choice of the transport, the fallbacks of the sender
+ * address and the SMTP defaults matching a local Mailpit.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createEmailConfig } from './email.config.js';
+
+const EMAIL_ENV = [
+	'EMAIL_TRANSPORT',
+	'EMAIL_FROM',
+	'EMAIL_FILE_DIR',
+	'RESEND_API_KEY',
+	'RESEND_FROM_EMAIL',
+	'SMTP_HOST',
+	'SMTP_PORT',
+	'SMTP_SECURE',
+	'SMTP_USER',
+	'SMTP_PASSWORD',
+];
+
+describe('createEmailConfig()', () => {
+	const originalEnv = process.env;
+
+	beforeEach(() => {
+		process.env = { ...originalEnv };
+		for (const name of EMAIL_ENV) {
+			delete process.env[name];
+		}
+	});
+
+	afterEach(() => {
+		process.env = originalEnv;
+	});
+
+	describe('transport', () => {
+		it('should use the configured transport', () => {
+			process.env.EMAIL_TRANSPORT = 'smtp';
+			process.env.RESEND_API_KEY = 're_test';
+
+			expect(createEmailConfig().transport).toBe('smtp');
+		});
+
+		// Verifies local runs never reach a real provider by default
+		it('should default to the file sink without a Resend API key', () => {
+			expect(createEmailConfig().transport).toBe('file');
+		});
+
+		it('should default to Resend when an API key is set', () => {
+			process.env.RESEND_API_KEY = 're_test';
+
+			expect(createEmailConfig().transport).toBe('resend');
+		});
+
+		it('should throw on an unknown transport', () => {
+			process.env.EMAIL_TRANSPORT = 'pigeon';
+
+			expect(() => createEmailConfig()).toThrow('EMAIL_TRANSPORT must be one of resend, smtp, file, memory, got "pigeon"');
+		});
+	});
+
+	describe('from', () => {
+		it('should prefer EMAIL_FROM over RESEND_FROM_EMAIL', () => {
+			process.env.EMAIL_FROM = 'hello@example.com';
+			process.env.RESEND_FROM_EMAIL = 'resend@example.com';
+
+			expect(createEmailConfig().from).toBe('hello@example.com');
+		});
+
+		it('should fall back to RESEND_FROM_EMAIL, then to a local address', () => {
+			process.env.RESEND_FROM_EMAIL = 'resend@example.com';
+			expect(createEmailConfig().from).toBe('resend@example.com');
+
+			delete process.env.RESEND_FROM_EMAIL;
+			expect(createEmailConfig().from).toBe('noreply@covoitapi.local');
+		});
+	});
+
+	describe('smtp', () => {
+		it('should default to an unauthenticated local server on port 1025', () => {
+			expect(createEmailConfig().smtp).toEqual({ host: 'localhost', port: 1025, secure: false, user: undefined, password: undefined });
+		});
+
+		it('should read the SMTP settings from the environment', () => {
+			process.env.SMTP_HOST = 'smtp.example.com';
+			process.env.SMTP_PORT = '465';
+			process.env.SMTP_SECURE = 'true';
+			process.env.SMTP_USER = 'mailer';
+			process.env.SMTP_PASSWORD = 'secret';
+
+			expect(createEmailConfig().smtp).toEqual({ host: 'smtp.example.com', port: 465, secure: true, user: 'mailer', password: 'secret' });
+		});
+	});
+});
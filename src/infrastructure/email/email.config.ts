@@ -0,0 +1,86 @@
+/**
+ * @module email.config
+ * Defines the EmailConfig type and a factory function that reads the email
+ * transport and its settings from environment variables with sensible defaults.
+ */
+
+import { envInt } from '../../lib/shared/utils/env.util.js';
+
+/**
+ * How emails leave the application.
+ *
+ * - `resend` -- the Resend API, used in production.
+ * - `smtp` -- any SMTP server, e.g. a local Mailpit or MailHog.
+ * - `file` -- writes each email as an `.eml` file in a directory; nothing is sent.
+ * - `memory` -- keeps emails in memory so tests can assert on them.
+ */
+export type EmailTransport = 'resend' | 'smtp' | 'file' | 'memory';
+
+const EMAIL_TRANSPORTS: readonly EmailTransport[] = ['resend', 'smtp', 'file', 'memory'];
+
+/**
+ * Connection settings of the SMTP transport.
+ *
+ * @property host - Host name of the SMTP server.
+ * @property port - Port of the SMTP server; Mailpit and MailHog listen on 1025.
+ * @property secure - Whether to connect over TLS from the start (port 465) instead of upgrading with STARTTLS.
+ * @property user - User name, or undefined when the server does not require authentication.
+ * @property password - Password of the user.
+ */
+export type SmtpConfig = {
+	host: string;
+	port: number;
+	secure: boolean;
+	user: string | undefined;
+	password: string | undefined;
+};
+
+/**
+ * Email delivery settings.
+ *
+ * @property transport - The transport emails are sent with.
+ * @property from - Sender address of every email.
+ * @property resendApiKey - API key of the Resend transport.
+ * @property smtp - Settings of the SMTP transport.
+ * @property fileSinkDir - Directory the file transport writes emails to.
+ */
+export type EmailConfig = {
+	transport: EmailTransport;
+	from: string;
+	resendApiKey: string | undefined;
+	smtp: SmtpConfig;
+	fileSinkDir: string;
+};
+
+/**
+ * Reads EMAIL_TRANSPORT. When it is not set, Resend is used if an API key is
+ * configured, and the file sink otherwise, so local runs never need a provider.
+ * @throws {Error} If EMAIL_TRANSPORT names an unknown transport.
+ */
+function readTransport(): EmailTransport {
+	const value = process.env.EMAIL_TRANSPORT;
+	if (!value) {
+		return process.env.RESEND_API_KEY ? 'resend' : 'file';
+	}
+	const transport = EMAIL_TRANSPORTS.find((candidate) => candidate === value);
+	if (!transport) {
+		throw new Error(`EMAIL_TRANSPORT must be one of ${EMAIL_TRANSPORTS.join(', ')}, got "${value}"`);
+	}
+	return transport;
+}
+
+export function createEmailConfig(): EmailConfig {
+	return {
+		transport: readTransport(),
+		from: process.env.EMAIL_FROM ?? process.env.RESEND_FROM_EMAIL ?? 'noreply@covoitapi.local',
+		resendApiKey: process.env.RESEND_API_KEY,
+		smtp: {
+			host: process.env.SMTP_HOST ?? 'localhost',
+			port: envInt('SMTP_PORT', 1025),
+			secure: process.env.SMTP_SECURE === 'true',
+			user: process.env.SMTP_USER,
+			password: process.env.SMTP_PASSWORD,
+		},
+		fileSinkDir: process.env.EMAIL_FILE_DIR ?? 'tmp/emails',
+	};
+}
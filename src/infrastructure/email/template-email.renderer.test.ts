@@ -0,0 +1,136 @@
+/**
+ * @module template-email.renderer.test
+ * Unit tests for {@link TemplateEmailRenderer}.
+ * Renders the real template registry: every template in every locale, the
+ * escaping of variables in HTML bodies, the plain-text alternative, trip
+ * dates in the local time zone, and previews with sample variables.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Locale } from '../../domain/entities/user.entity.js';
+import type { EmailTemplateId } from '../../domain/services/email.service.js';
+import { emailTemplates } from './email-templates.js';
+import { TemplateEmailRenderer } from './template-email.renderer.js';
+
+const renderer = new TemplateEmailRenderer();
+const templateIds = Object.keys(emailTemplates) as EmailTemplateId[];
+const locales: Locale[] = ['fr', 'en'];
+
+describe('TemplateEmailRenderer', () => {
+	// Verifies that no template is missing a locale or produces an empty part
+	describe.each(templateIds)('%s template', (template) => {
+		it.each(locales)('should render a subject, an HTML body and a text body in %s', (locale) => {
+			const email = renderer.preview(template, locale);
+
+			expect(email?.subject).not.toBe('');
+			expect(email?.html).toContain(`<html lang="${locale}">`);
+			expect(email?.text).not.toBe('');
+		});
+
+		it('should be worded differently in each locale', () => {
+			expect(renderer.preview(template, 'fr')?.subject).not.toBe(renderer.preview(template, 'en')?.subject);
+		});
+	});
+
+	describe('render()', () => {
+		// Verifies the automatic escaping of every variable in the HTML body
+		it('should escape variables in the HTML body', () => {
+			const email = renderer.render({ template: 'welcome', variables: { firstName: '<script>alert(1)</script>' } }, 'en');
+
+			expect(email.html).toContain('Hello &lt;script&gt;alert(1)&lt;/script&gt;,');
+			expect(email.html).not.toContain('<script>');
+		});
+
+		it('should escape links used as attributes', () => {
+			const email = renderer.render(
+				{ template: 'password-reset', variables: { resetUrl: 'https://app.test/reset-password?token=abc&x="1"', expiresInMinutes: 60 } },
+				'en',
+			);
+
+			expect(email.html).toContain('href="https://app.test/reset-password?token=abc&amp;x=&quot;1&quot;"');
+			expect(email.html).toContain('60 minutes');
+		});
+
+		// Verifies that the text body carries the raw values
+		it('should keep variables unescaped in the text body', () => {
+			const email = renderer.render({ template: 'email-changed', variables: { newEmail: 'o\'brien@example.com' } }, 'en');
+
+			expect(email.text).toContain("changed to o'brien@example.com.");
+			expect(email.text).toContain('Carpooling account');
+		});
+
+		it('should use a plain greeting without a first name', () => {
+			const email = renderer.render({ template: 'welcome', variables: { firstName: null } }, 'fr');
+
+			expect(email.subject).toBe('Bienvenue sur Covoiturage !');
+			expect(email.html).toContain('<h1>Bonjour,</h1>');
+		});
+
+		// Verifies that trip dates are shown in French time, in the language of the email
+		it('should format the trip date in the local time zone', () => {
+			const variables = { firstName: 'Jane', tripDate: '2026-10-20T08:00:00.000Z', reason: null };
+
+			expect(renderer.render({ template: 'trip-cancelled', variables }, 'fr').text).toContain('mardi 20 octobre 2026');
+			expect(renderer.render({ template: 'trip-cancelled', variables }, 'fr').text).toContain('10:00');
+			expect(renderer.render({ template: 'trip-cancelled', variables }, 'en').text).toContain('20 October 2026 at 10:00');
+		});
+
+		// Verifies that the end of a lockout is shown in French time, in the language of the email
+		it('should show until when an account is locked', () => {
+			const variables = { firstName: 'Jane', failedAttempts: 10, lockedUntil: '2026-10-20T08:15:00.000Z' };
+
+			expect(renderer.render({ template: 'account-locked', variables }, 'fr').text).toContain('10 tentatives');
+			expect(renderer.render({ template: 'account-locked', variables }, 'fr').text).toContain('10:15');
+			expect(renderer.render({ template: 'account-locked', variables }, 'en').text).toContain('locked until Tuesday, 20 October 2026 at 10:15');
+		});
+
+		// Verifies that the driver's reason is only mentioned when one was given
+		it('should show the reason of a cancellation when given', () => {
+			const variables = { firstName: 'Jane', tripDate: '2026-10-20T08:00:00.000Z', reason: 'Car <broke> down' };
+
+			const withReason = renderer.render({ template: 'trip-cancelled', variables }, 'en');
+			const withoutReason = renderer.render({ template: 'trip-cancelled', variables: { ...variables, reason: null } }, 'en');
+
+			expect(withReason.text).toContain('Reason given by the driver: Car <broke> down');
+			expect(withReason.html).toContain('Car &lt;broke&gt; down');
+			expect(withoutReason.text).not.toContain('Reason');
+			expect(withoutReason.html).not.toContain('Reason');
+		});
+
+		// Verifies that drivers are asked to act on trips requiring approval
+		it('should word a booking request differently from a booking', () => {
+			const variables = {
+				firstName: 'Camille',
+				passengerName: null,
+				tripDate: '2026-10-20T08:00:00.000Z',
+				departureCity: 'Lyon',
+				arrivalCity: 'Grenoble',
+				requiresApproval: true,
+			};
+
+			const request = renderer.render({ template: 'booking-received', variables }, 'en');
+			const booking = renderer.render({ template: 'booking-received', variables: { ...variables, requiresApproval: false } }, 'en');
+
+			expect(request.subject).toBe('New booking request: Lyon → Grenoble');
+			expect(request.text).toContain('A passenger is asking for a seat');
+			expect(booking.subject).toBe('New booking: Lyon → Grenoble');
+			expect(booking.text).toContain('A passenger booked a seat');
+		});
+	});
+
+	describe('preview()', () => {
+		it('should render the sample variables of the template', () => {
+			const email = renderer.preview('booking-confirmed', 'en');
+
+			expect(email?.subject).toBe('Booking confirmed: Lyon → Grenoble');
+		});
+
+		it('should return null for an unknown template', () => {
+			expect(renderer.preview('newsletter', 'fr')).toBeNull();
+		});
+
+		it('should not resolve inherited object properties as templates', () => {
+			expect(renderer.preview('toString', 'fr')).toBeNull();
+		});
+	});
+});
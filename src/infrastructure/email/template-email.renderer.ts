@@ -0,0 +1,56 @@
+/**
+ * @module template-email.renderer
+ * Implementation of the {@link EmailRenderer} domain interface backed by the
+ * template registry. Each template provides its wording per locale; the
+ * renderer wraps it in the common HTML and plain-text layouts.
+ */
+
+import { injectable } from 'tsyringe';
+import type { Locale } from '../../domain/entities/user.entity.js';
+import type { EmailRenderer, RenderedEmail } from '../../domain/services/email-renderer.service.js';
+import type { EmailMessage, EmailTemplateId, EmailTemplateVariables } from '../../domain/services/email.service.js';
+import { renderHtmlLayout, renderTextLayout } from './email-markup.js';
+import { emailTemplates, isEmailTemplateId } from './email-templates.js';
+
+/**
+ * Renders a template with the given variables in one locale.
+ * Generic so the variables are checked against the template they belong to.
+ */
+function renderTemplate<K extends EmailTemplateId>(template: K, variables: EmailTemplateVariables[K], locale: Locale): RenderedEmail {
+	const content = emailTemplates[template].locales[locale](variables);
+	return {
+		subject: content.subject,
+		html: renderHtmlLayout(locale, content.subject, content.html),
+		text: renderTextLayout(locale, content.text),
+	};
+}
+
+/**
+ * Template registry implementation of {@link EmailRenderer}.
+ * Stateless; injected via tsyringe as a singleton.
+ */
+@injectable()
+export class TemplateEmailRenderer implements EmailRenderer {
+	/**
+	 * Renders a message in the given locale.
+	 * @param message - The template and its variables.
+	 * @param locale - The language of the email.
+	 * @returns The subject, HTML body and plain-text body.
+	 */
+	render<K extends EmailTemplateId>(message: EmailMessage<K>, locale: Locale): RenderedEmail {
+		return renderTemplate(message.template, message.variables, locale);
+	}
+
+	/**
+	 * Renders a template with its sample variables.
+	 * @param template - The id of the template.
+	 * @param locale - The language of the email.
+	 * @returns The rendered sample, or null if no template has this id.
+	 */
+	preview(template: string, locale: Locale): RenderedEmail | null {
+		if (!isEmailTemplateId(template)) {
+			return null;
+		}
+		return renderTemplate(template, emailTemplates[template].sample, locale);
+	}
+}
@@ -0,0 +1,43 @@
+/**
+ * @module account-locked.template
+ * Alert sent to the owner of an account locked after repeated failed logins.
+ */
+
+import { formatTripDate, greeting, html } from '../email-markup.js';
+import type { EmailTemplate } from '../email-template.js';
+
+export const accountLockedTemplate: EmailTemplate<'account-locked'> = {
+	sample: { firstName: 'Camille', failedAttempts: 10, lockedUntil: '2026-10-20T08:15:00.000Z' },
+	locales: {
+		fr: ({ firstName, failedAttempts, lockedUntil }) => {
+			const until = formatTripDate(lockedUntil, 'fr');
+			return {
+				subject: 'Votre compte Covoiturage a été verrouillé',
+				html: html`<p>${greeting('fr', firstName)}</p>
+<p>Après ${failedAttempts} tentatives de connexion échouées, votre compte est verrouillé jusqu'au ${until}.</p>
+<p>Si vous n'êtes pas à l'origine de ces tentatives, quelqu'un essaie peut-être d'accéder à votre compte :
+réinitialisez votre mot de passe et contactez le support.</p>`,
+				text: [
+					greeting('fr', firstName),
+					`Après ${failedAttempts} tentatives de connexion échouées, votre compte est verrouillé jusqu'au ${until}.`,
+					"Si vous n'êtes pas à l'origine de ces tentatives, quelqu'un essaie peut-être d'accéder à votre compte : réinitialisez votre mot de passe et contactez le support.",
+				],
+			};
+		},
+		en: ({ firstName, failedAttempts, lockedUntil }) => {
+			const until = formatTripDate(lockedUntil, 'en');
+			return {
+				subject: 'Your Carpooling account was locked',
+				html: html`<p>${greeting('en', firstName)}</p>
+<p>After ${failedAttempts} failed login attempts, your account is locked until ${until}.</p>
+<p>If you did not make these attempts, someone may be trying to access your account:
+reset your password and contact support.</p>`,
+				text: [
+					greeting('en', firstName),
+					`After ${failedAttempts} failed login attempts, your account is locked until ${until}.`,
+					'If you did not make these attempts, someone may be trying to access your account: reset your password and contact support.',
+				],
+			};
+		},
+	},
+};
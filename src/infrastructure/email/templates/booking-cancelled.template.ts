@@ -0,0 +1,43 @@
+/**
+ * @module booking-cancelled.template
+ * Email telling a driver that a passenger withdrew their booking or request.
+ */
+
+import { formatTripDate, greeting, html } from '../email-markup.js';
+import type { EmailTemplate } from '../email-template.js';
+
+export const bookingCancelledTemplate: EmailTemplate<'booking-cancelled'> = {
+	sample: { firstName: 'Camille', passengerName: 'Louis', tripDate: '2026-10-20T08:00:00.000Z', departureCity: 'Lyon', arrivalCity: 'Grenoble' },
+	locales: {
+		fr: ({ firstName, passengerName, tripDate, departureCity, arrivalCity }) => {
+			const date = formatTripDate(tripDate, 'fr');
+			const passenger = passengerName ?? 'Un passager';
+			return {
+				subject: `Réservation annulée : ${departureCity} → ${arrivalCity}`,
+				html: html`<p>${greeting('fr', firstName)}</p>
+<p>${passenger} a annulé sa réservation sur votre trajet <strong>${departureCity} → ${arrivalCity}</strong> du ${date}.</p>
+<p>La place est de nouveau disponible.</p>`,
+				text: [
+					greeting('fr', firstName),
+					`${passenger} a annulé sa réservation sur votre trajet ${departureCity} → ${arrivalCity} du ${date}.`,
+					'La place est de nouveau disponible.',
+				],
+			};
+		},
+		en: ({ firstName, passengerName, tripDate, departureCity, arrivalCity }) => {
+			const date = formatTripDate(tripDate, 'en');
+			const passenger = passengerName ?? 'A passenger';
+			return {
+				subject: `Booking cancelled: ${departureCity} → ${arrivalCity}`,
+				html: html`<p>${greeting('en', firstName)}</p>
+<p>${passenger} cancelled their booking on your trip <strong>${departureCity} → ${arrivalCity}</strong> of ${date}.</p>
+<p>The seat is available again.</p>`,
+				text: [
+					greeting('en', firstName),
+					`${passenger} cancelled their booking on your trip ${departureCity} → ${arrivalCity} of ${date}.`,
+					'The seat is available again.',
+				],
+			};
+		},
+	},
+};
@@ -0,0 +1,41 @@
+/**
+ * @module booking-confirmed.template
+ * Email confirming a seat on a trip to its passenger.
+ */
+
+import { formatTripDate, greeting, html } from '../email-markup.js';
+import type { EmailTemplate } from '../email-template.js';
+
+export const bookingConfirmedTemplate: EmailTemplate<'booking-confirmed'> = {
+	sample: { firstName: 'Camille', tripDate: '2026-10-20T08:00:00.000Z', departureCity: 'Lyon', arrivalCity: 'Grenoble' },
+	locales: {
+		fr: ({ firstName, tripDate, departureCity, arrivalCity }) => {
+			const date = formatTripDate(tripDate, 'fr');
+			return {
+				subject: `Réservation confirmée : ${departureCity} → ${arrivalCity}`,
+				html: html`<p>${greeting('fr', firstName)}</p>
+<p>Votre place est réservée sur le trajet <strong>${departureCity} → ${arrivalCity}</strong> du ${date}.</p>
+<p>Bon voyage !</p>`,
+				text: [
+					greeting('fr', firstName),
+					`Votre place est réservée sur le trajet ${departureCity} → ${arrivalCity} du ${date}.`,
+					'Bon voyage !',
+				],
+			};
+		},
+		en: ({ firstName, tripDate, departureCity, arrivalCity }) => {
+			const date = formatTripDate(tripDate, 'en');
+			return {
+				subject: `Booking confirmed: ${departureCity} → ${arrivalCity}`,
+				html: html`<p>${greeting('en', firstName)}</p>
+<p>Your seat is booked on the trip <strong>${departureCity} → ${arrivalCity}</strong> of ${date}.</p>
+<p>Have a good trip!</p>`,
+				text: [
+					greeting('en', firstName),
+					`Your seat is booked on the trip ${departureCity} → ${arrivalCity} of ${date}.`,
+					'Have a good trip!',
+				],
+			};
+		},
+	},
+};
@@ -0,0 +1,51 @@
+/**
+ * @module booking-received.template
+ * Email telling a driver that a passenger booked a seat on their trip, or
+ * asked for one when the trip requires approval.
+ */
+
+import { formatTripDate, greeting, html } from '../email-markup.js';
+import type { EmailTemplate } from '../email-template.js';
+
+export const bookingReceivedTemplate: EmailTemplate<'booking-received'> = {
+	sample: {
+		firstName: 'Camille',
+		passengerName: 'Louis',
+		tripDate: '2026-10-20T08:00:00.000Z',
+		departureCity: 'Lyon',
+		arrivalCity: 'Grenoble',
+		requiresApproval: false,
+	},
+	locales: {
+		fr: ({ firstName, passengerName, tripDate, departureCity, arrivalCity, requiresApproval }) => {
+			const date = formatTripDate(tripDate, 'fr');
+			const passenger = passengerName ?? 'Un passager';
+			const news = requiresApproval ? `${passenger} demande une place` : `${passenger} a réservé une place`;
+			const next = requiresApproval ? 'Acceptez ou refusez sa demande depuis la liste des passagers du trajet.' : 'Sa place est confirmée.';
+			return {
+				subject: requiresApproval
+					? `Nouvelle demande de réservation : ${departureCity} → ${arrivalCity}`
+					: `Nouvelle réservation : ${departureCity} → ${arrivalCity}`,
+				html: html`<p>${greeting('fr', firstName)}</p>
+<p>${news} sur votre trajet <strong>${departureCity} → ${arrivalCity}</strong> du ${date}.</p>
+<p>${next}</p>`,
+				text: [greeting('fr', firstName), `${news} sur votre trajet ${departureCity} → ${arrivalCity} du ${date}.`, next],
+			};
+		},
+		en: ({ firstName, passengerName, tripDate, departureCity, arrivalCity, requiresApproval }) => {
+			const date = formatTripDate(tripDate, 'en');
+			const passenger = passengerName ?? 'A passenger';
+			const news = requiresApproval ? `${passenger} is asking for a seat` : `${passenger} booked a seat`;
+			const next = requiresApproval ? 'Accept or decline the request from the passenger list of the trip.' : 'Their seat is confirmed.';
+			return {
+				subject: requiresApproval
+					? `New booking request: ${departureCity} → ${arrivalCity}`
+					: `New booking: ${departureCity} → ${arrivalCity}`,
+				html: html`<p>${greeting('en', firstName)}</p>
+<p>${news} on your trip <strong>${departureCity} → ${arrivalCity}</strong> of ${date}.</p>
+<p>${next}</p>`,
+				text: [greeting('en', firstName), `${news} on your trip ${departureCity} → ${arrivalCity} of ${date}.`, next],
+			};
+		},
+	},
+};
@@ -0,0 +1,33 @@
+/**
+ * @module email-changed.template
+ * Warning sent to the previous address of an account whose email was changed.
+ */
+
+import { html } from '../email-markup.js';
+import type { EmailTemplate } from '../email-template.js';
+
+export const emailChangedTemplate: EmailTemplate<'email-changed'> = {
+	sample: { newEmail: 'camille.martin@example.com' },
+	locales: {
+		fr: ({ newEmail }) => ({
+			subject: 'Votre adresse email a été modifiée',
+			html: html`<h1>Votre adresse email a été modifiée</h1>
+<p>L'adresse email de votre compte est désormais <strong>${newEmail}</strong>.</p>
+<p>Si vous n'êtes pas à l'origine de ce changement, réinitialisez votre mot de passe et contactez le support immédiatement.</p>`,
+			text: [
+				`L'adresse email de votre compte est désormais ${newEmail}.`,
+				"Si vous n'êtes pas à l'origine de ce changement, réinitialisez votre mot de passe et contactez le support immédiatement.",
+			],
+		}),
+		en: ({ newEmail }) => ({
+			subject: 'Your email address was changed',
+			html: html`<h1>Your email address was changed</h1>
+<p>The email address of your account was changed to <strong>${newEmail}</strong>.</p>
+<p>If you did not make this change, reset your password and contact support immediately.</p>`,
+			text: [
+				`The email address of your account was changed to ${newEmail}.`,
+				'If you did not make this change, reset your password and contact support immediately.',
+			],
+		}),
+	},
+};
@@ -0,0 +1,33 @@
+/**
+ * @module email-verification.template
+ * Email carrying the single-use link that confirms an email address.
+ */
+
+import { html } from '../email-markup.js';
+import type { EmailTemplate } from '../email-template.js';
+
+export const emailVerificationTemplate: EmailTemplate<'email-verification'> = {
+	sample: { verificationUrl: 'https://app.example.com/verify-email?token=sample-token' },
+	locales: {
+		fr: ({ verificationUrl }) => ({
+			subject: 'Confirmez votre adresse email',
+			html: html`<h1>Confirmez votre adresse email</h1>
+<p>Confirmez que cette adresse vous appartient pour finaliser votre compte.</p>
+<p><a href="${verificationUrl}">Confirmer mon adresse email</a></p>`,
+			text: [
+				'Confirmez que cette adresse vous appartient pour finaliser votre compte :',
+				verificationUrl,
+			],
+		}),
+		en: ({ verificationUrl }) => ({
+			subject: 'Confirm your email address',
+			html: html`<h1>Confirm your email address</h1>
+<p>Please confirm that this address belongs to you to finish setting up your account.</p>
+<p><a href="${verificationUrl}">Confirm my email address</a></p>`,
+			text: [
+				'Please confirm that this address belongs to you to finish setting up your account:',
+				verificationUrl,
+			],
+		}),
+	},
+};
@@ -0,0 +1,39 @@
+/**
+ * @module password-reset.template
+ * Email carrying the single-use link to the password reset form.
+ */
+
+import { html } from '../email-markup.js';
+import type { EmailTemplate } from '../email-template.js';
+
+export const passwordResetTemplate: EmailTemplate<'password-reset'> = {
+	sample: { resetUrl: 'https://app.example.com/reset-password?token=sample-token', expiresInMinutes: 30 },
+	locales: {
+		fr: ({ resetUrl, expiresInMinutes }) => ({
+			subject: 'Réinitialisez votre mot de passe Covoiturage',
+			html: html`<h1>Réinitialisez votre mot de passe</h1>
+<p>Nous avons reçu une demande de réinitialisation du mot de passe de votre compte.</p>
+<p><a href="${resetUrl}">Choisir un nouveau mot de passe</a></p>
+<p>Ce lien expire dans ${expiresInMinutes} minutes et ne peut être utilisé qu'une fois.
+Si vous n'avez pas demandé de nouveau mot de passe, ignorez cet email.</p>`,
+			text: [
+				'Nous avons reçu une demande de réinitialisation du mot de passe de votre compte.',
+				`Choisissez un nouveau mot de passe : ${resetUrl}`,
+				`Ce lien expire dans ${expiresInMinutes} minutes et ne peut être utilisé qu'une fois. Si vous n'avez pas demandé de nouveau mot de passe, ignorez cet email.`,
+			],
+		}),
+		en: ({ resetUrl, expiresInMinutes }) => ({
+			subject: 'Reset your Carpooling password',
+			html: html`<h1>Reset your password</h1>
+<p>We received a request to reset the password of your account.</p>
+<p><a href="${resetUrl}">Choose a new password</a></p>
+<p>This link expires in ${expiresInMinutes} minutes and can only be used once.
+If you did not ask for a new password, you can ignore this email.</p>`,
+			text: [
+				'We received a request to reset the password of your account.',
+				`Choose a new password: ${resetUrl}`,
+				`This link expires in ${expiresInMinutes} minutes and can only be used once. If you did not ask for a new password, you can ignore this email.`,
+			],
+		}),
+	},
+};
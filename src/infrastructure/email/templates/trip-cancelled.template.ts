@@ -0,0 +1,48 @@
+/**
+ * @module trip-cancelled.template
+ * Email telling a passenger that the driver cancelled a trip they were booked on,
+ * with the driver's reason when one was given.
+ */
+
+import { formatTripDate, greeting, html } from '../email-markup.js';
+import type { EmailTemplate } from '../email-template.js';
+
+export const tripCancelledTemplate: EmailTemplate<'trip-cancelled'> = {
+	sample: { firstName: 'Camille', tripDate: '2026-10-20T08:00:00.000Z', reason: 'Ma voiture est en panne.' },
+	locales: {
+		fr: ({ firstName, tripDate, reason }) => {
+			const date = formatTripDate(tripDate, 'fr');
+			const motive = reason ? `Motif donné par le conducteur : ${reason}` : null;
+			return {
+				subject: 'Votre trajet a été annulé',
+				html: html`<p>${greeting('fr', firstName)}</p>
+<p>Le trajet du ${date} sur lequel vous étiez inscrit a été annulé par son conducteur.</p>
+${motive && html`<p>${motive}</p>`}
+<p>Recherchez un autre trajet vers votre destination sur la plateforme.</p>`,
+				text: [
+					greeting('fr', firstName),
+					`Le trajet du ${date} sur lequel vous étiez inscrit a été annulé par son conducteur.`,
+					...(motive ? [motive] : []),
+					'Recherchez un autre trajet vers votre destination sur la plateforme.',
+				],
+			};
+		},
+		en: ({ firstName, tripDate, reason }) => {
+			const date = formatTripDate(tripDate, 'en');
+			const motive = reason ? `Reason given by the driver: ${reason}` : null;
+			return {
+				subject: 'Your trip was cancelled',
+				html: html`<p>${greeting('en', firstName)}</p>
+<p>The trip of ${date} you were booked on was cancelled by its driver.</p>
+${motive && html`<p>${motive}</p>`}
+<p>Search the platform for another ride to your destination.</p>`,
+				text: [
+					greeting('en', firstName),
+					`The trip of ${date} you were booked on was cancelled by its driver.`,
+					...(motive ? [motive] : []),
+					'Search the platform for another ride to your destination.',
+				],
+			};
+		},
+	},
+};
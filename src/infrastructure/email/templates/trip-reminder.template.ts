@@ -0,0 +1,41 @@
+/**
+ * @module trip-reminder.template
+ * Email reminding a passenger of an upcoming trip.
+ */
+
+import { formatTripDate, greeting, html } from '../email-markup.js';
+import type { EmailTemplate } from '../email-template.js';
+
+export const tripReminderTemplate: EmailTemplate<'trip-reminder'> = {
+	sample: { firstName: 'Camille', tripDate: '2026-10-20T08:00:00.000Z', departureCity: 'Lyon', arrivalCity: 'Grenoble' },
+	locales: {
+		fr: ({ firstName, tripDate, departureCity, arrivalCity }) => {
+			const date = formatTripDate(tripDate, 'fr');
+			return {
+				subject: `Rappel : votre trajet ${departureCity} → ${arrivalCity}`,
+				html: html`<p>${greeting('fr', firstName)}</p>
+<p>Votre trajet <strong>${departureCity} → ${arrivalCity}</strong> part le ${date}.</p>
+<p>Pensez à être à l'heure au point de rendez-vous.</p>`,
+				text: [
+					greeting('fr', firstName),
+					`Votre trajet ${departureCity} → ${arrivalCity} part le ${date}.`,
+					"Pensez à être à l'heure au point de rendez-vous.",
+				],
+			};
+		},
+		en: ({ firstName, tripDate, departureCity, arrivalCity }) => {
+			const date = formatTripDate(tripDate, 'en');
+			return {
+				subject: `Reminder: your trip ${departureCity} → ${arrivalCity}`,
+				html: html`<p>${greeting('en', firstName)}</p>
+<p>Your trip <strong>${departureCity} → ${arrivalCity}</strong> leaves on ${date}.</p>
+<p>Please be on time at the meeting point.</p>`,
+				text: [
+					greeting('en', firstName),
+					`Your trip ${departureCity} → ${arrivalCity} leaves on ${date}.`,
+					'Please be on time at the meeting point.',
+				],
+			};
+		},
+	},
+};
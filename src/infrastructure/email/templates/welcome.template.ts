@@ -0,0 +1,35 @@
+/**
+ * @module welcome.template
+ * Welcome email, sent once an account is created.
+ */
+
+import { greeting, html } from '../email-markup.js';
+import type { EmailTemplate } from '../email-template.js';
+
+export const welcomeTemplate: EmailTemplate<'welcome'> = {
+	sample: { firstName: 'Camille' },
+	locales: {
+		fr: ({ firstName }) => ({
+			subject: 'Bienvenue sur Covoiturage !',
+			html: html`<h1>${greeting('fr', firstName)}</h1>
+<p>Merci d'avoir rejoint notre plateforme de covoiturage.</p>
+<p>Trouvez un trajet, économisez et réduisez votre empreinte carbone !</p>`,
+			text: [
+				greeting('fr', firstName),
+				"Merci d'avoir rejoint notre plateforme de covoiturage.",
+				'Trouvez un trajet, économisez et réduisez votre empreinte carbone !',
+			],
+		}),
+		en: ({ firstName }) => ({
+			subject: 'Welcome to Carpooling!',
+			html: html`<h1>${greeting('en', firstName)}</h1>
+<p>Thank you for joining our carpooling platform.</p>
+<p>Start exploring rides and save money while reducing your carbon footprint!</p>`,
+			text: [
+				greeting('en', firstName),
+				'Thank you for joining our carpooling platform.',
+				'Start exploring rides and save money while reducing your carbon footprint!',
+			],
+		}),
+	},
+};
@@ -0,0 +1,62 @@
+/**
+ * @file Unit tests for the InProcessEventBus.
+ *
+ * Covers delivery to every registered subscriber in registration order, and
+ * subscribers that throw without failing the publisher or the others.
+ */
+
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockLogger } from '../../../tests/setup.js';
+import { domainEvent } from '../../domain/events/domain-events.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import { InProcessEventBus } from './in-process-event-bus.js';
+
+describe('InProcessEventBus', () => {
+	const event = domainEvent('InscriptionCancelled', { inscriptionId: 'ins-1' });
+	let calls: string[];
+	let logger: ReturnType<typeof createMockLogger>;
+
+	const subscriber = (name: string, handle = vi.fn().mockResolvedValue(undefined)) => ({
+		handle: vi.fn(async (published: unknown) => {
+			calls.push(name);
+			return handle(published);
+		}),
+	});
+
+	beforeEach(() => {
+		calls = [];
+		logger = createMockLogger();
+	});
+
+	const createBus = (subscribers: ReturnType<typeof subscriber>[]) => {
+		const child = container.createChildContainer();
+		for (const instance of subscribers) {
+			child.register(TOKENS.DomainEventSubscriber, { useValue: instance });
+		}
+		child.registerInstance(TOKENS.Logger, logger);
+		return child.resolve(InProcessEventBus);
+	};
+
+	it('should deliver the event to every subscriber in registration order', async () => {
+		const first = subscriber('first');
+		const second = subscriber('second');
+
+		await createBus([first, second]).publish(event);
+
+		expect(calls).toEqual(['first', 'second']);
+		expect(first.handle).toHaveBeenCalledWith(event);
+		expect(second.handle).toHaveBeenCalledWith(event);
+	});
+
+	// The change is committed: a failing reaction must not fail the publisher
+	it('should log a failing subscriber and still run the others', async () => {
+		const failing = subscriber('failing', vi.fn().mockRejectedValue(new Error('boom')));
+		const next = subscriber('next');
+
+		await expect(createBus([failing, next]).publish(event)).resolves.toBeUndefined();
+
+		expect(calls).toEqual(['failing', 'next']);
+		expect(logger.error).toHaveBeenCalledWith('Event subscriber failed', expect.any(Error), expect.objectContaining({ eventType: 'InscriptionCancelled' }));
+	});
+});
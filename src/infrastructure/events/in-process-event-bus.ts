@@ -0,0 +1,50 @@
+/**
+ * @module in-process-event-bus
+ * In-process implementation of the {@link EventBus} domain interface.
+ * Delivers events to the subscribers registered under the
+ * `DomainEventSubscriber` token, within the process that published them.
+ */
+
+import { inject, injectable, injectAll } from 'tsyringe';
+import type { DomainEvent } from '../../domain/events/domain-events.js';
+import type { DomainEventSubscriber, EventBus } from '../../domain/services/event-bus.service.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+
+/**
+ * In-process implementation of {@link EventBus}.
+ * Subscribers run one after the other, in registration order, and the
+ * publisher waits for all of them. A subscriber that throws is logged and
+ * skipped: the change the event describes is already committed, so the
+ * publisher's outcome must not depend on its reactions.
+ * Injected via tsyringe as a singleton.
+ */
+@injectable()
+export class InProcessEventBus implements EventBus {
+	private readonly logger: Logger;
+
+	constructor(
+		@injectAll(TOKENS.DomainEventSubscriber)
+		private readonly subscribers: DomainEventSubscriber[],
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ service: 'EventBus' });
+	}
+
+	/**
+	 * Delivers an event to every subscriber.
+	 * @param event - The event to deliver.
+	 */
+	async publish(event: DomainEvent): Promise<void> {
+		for (const subscriber of this.subscribers) {
+			try {
+				await subscriber.handle(event);
+			} catch (e) {
+				this.logger.error('Event subscriber failed', e instanceof Error ? e : null, {
+					eventType: event.type,
+					subscriber: subscriber.constructor.name,
+				});
+			}
+		}
+	}
+}
@@ -14,3 +14,7 @@ export { PrismaTripRepository } from './database/repositories/prisma-trip.reposi
 export { ArgonPasswordService } from './services/argon-password.service.js';
 export { HonoJwtService } from './services/hono-jwt.service.js';
 export { ResendEmailService } from './services/resend-email.service.js';
+export { SmtpEmailService } from './services/smtp-email.service.js';
+export { FileEmailService } from './services/file-email.service.js';
+export { InMemoryEmailService } from './services/in-memory-email.service.js';
+export { TemplateEmailRenderer } from './email/template-email.renderer.js';
@@ -0,0 +1,94 @@
+/**
+ * @file Unit tests for the OutboxWorker.
+ *
+ * Covers polling at the configured interval, draining full batches without
+ * waiting, surviving failed ticks, and stopping.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { OutboxWorker } from './outbox-worker.js';
+import { ProcessOutboxUseCase } from '../../application/use-cases/outbox/process-outbox.use-case.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { DatabaseError } from '../../lib/errors/repository.errors.js';
+import { createMockLogger, createMockOutboxConfig } from '../../../tests/setup.js';
+
+const batch = (claimed: number) => ok({ claimed, sent: claimed, retried: 0, dead: 0 });
+
+describe('OutboxWorker', () => {
+    let worker: OutboxWorker;
+    let execute: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        container.clearInstances();
+        execute = vi.fn().mockResolvedValue(batch(0));
+        container.registerInstance(ProcessOutboxUseCase, { execute } as unknown as ProcessOutboxUseCase);
+        container.registerInstance(TOKENS.OutboxConfig, createMockOutboxConfig({ batchSize: 10, pollIntervalMs: 100 }));
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        worker = container.resolve(OutboxWorker);
+    });
+
+    afterEach(async () => {
+        await worker.stop();
+        vi.useRealTimers();
+    });
+
+    it('should poll at the configured interval', async () => {
+        worker.start();
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(execute).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(execute).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should process the next batch immediately after a full one', async () => {
+        execute.mockResolvedValueOnce(batch(10)).mockResolvedValueOnce(batch(10)).mockResolvedValue(batch(3));
+        worker.start();
+
+        // Well within one poll interval
+        await vi.advanceTimersByTimeAsync(50);
+
+        expect(execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep polling after a failed batch', async () => {
+        execute.mockResolvedValueOnce(err(new DatabaseError('DB down'))).mockRejectedValueOnce(new Error('boom'));
+        worker.start();
+
+        await vi.advanceTimersByTimeAsync(200);
+
+        expect(execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not start twice', async () => {
+        worker.start();
+        worker.start();
+
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop polling once stopped', async () => {
+        worker.start();
+        await vi.advanceTimersByTimeAsync(0);
+
+        await worker.stop();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should process a single batch with runOnce', async () => {
+        execute.mockResolvedValue(batch(4));
+
+        expect(await worker.runOnce()).toBe(4);
+    });
+});
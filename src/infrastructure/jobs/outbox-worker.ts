@@ -0,0 +1,95 @@
+/**
+ * @module outbox-worker
+ * Background loop that delivers outbox messages. Each tick runs the
+ * {@link ProcessOutboxUseCase} once; a full batch is followed immediately by
+ * the next one to drain a backlog, otherwise the worker sleeps for the poll
+ * interval. Runs either inside the API process (`OUTBOX_WORKER_IN_PROCESS=true`)
+ * or as a standalone process started with `pnpm worker`.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { OutboxConfig } from '../../application/config/outbox.config.js';
+import { ProcessOutboxUseCase } from '../../application/use-cases/outbox/process-outbox.use-case.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+
+/**
+ * Polls the outbox and delivers due messages until stopped.
+ * Ticks never overlap: the next one is only scheduled once the previous
+ * batch is fully processed. Several workers (one per process) can run side
+ * by side, since claiming is safe under concurrency.
+ * Injected via tsyringe; resolve one instance per process.
+ */
+@injectable()
+export class OutboxWorker {
+	private readonly logger: Logger;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private running: Promise<void> | null = null;
+	private stopped = true;
+
+	constructor(
+		@inject(ProcessOutboxUseCase)
+		private readonly processOutbox: ProcessOutboxUseCase,
+		@inject(TOKENS.OutboxConfig)
+		private readonly outboxConfig: OutboxConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ job: 'OutboxWorker' });
+	}
+
+	/**
+	 * Starts polling immediately. Calling it on a running worker has no effect.
+	 */
+	start(): void {
+		if (!this.stopped) {
+			return;
+		}
+		this.stopped = false;
+		this.logger.info('Outbox worker started', { pollIntervalMs: this.outboxConfig.pollIntervalMs, batchSize: this.outboxConfig.batchSize });
+		this.schedule(0);
+	}
+
+	/**
+	 * Stops polling and waits for the batch in progress, if any, to finish,
+	 * so that no claimed message is left without a recorded outcome.
+	 */
+	async stop(): Promise<void> {
+		this.stopped = true;
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		await this.running;
+		this.logger.info('Outbox worker stopped');
+	}
+
+	/**
+	 * Processes a single batch.
+	 * @returns The number of messages claimed (0 if the batch could not be claimed).
+	 */
+	async runOnce(): Promise<number> {
+		const result = await this.processOutbox.execute();
+		return result.success ? result.value.claimed : 0;
+	}
+
+	private schedule(delayMs: number): void {
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			this.running = this.tick();
+		}, delayMs);
+	}
+
+	private async tick(): Promise<void> {
+		let claimed = 0;
+		try {
+			claimed = await this.runOnce();
+		} catch (e) {
+			// Keep polling: an unexpected failure must not stop email delivery
+			this.logger.error('Outbox worker tick failed', e instanceof Error ? e : null);
+		}
+		this.running = null;
+		if (!this.stopped) {
+			this.schedule(claimed >= this.outboxConfig.batchSize ? 0 : this.outboxConfig.pollIntervalMs);
+		}
+	}
+}
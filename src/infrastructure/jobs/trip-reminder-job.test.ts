@@ -0,0 +1,85 @@
+/**
+ * @file Unit tests for the TripReminderJob.
+ *
+ * Covers polling at the configured interval, draining full batches without
+ * waiting, surviving failed ticks, and stopping.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { TripReminderJob } from './trip-reminder-job.js';
+import { SendTripRemindersUseCase } from '../../application/use-cases/trip/send-trip-reminders.use-case.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { DatabaseError } from '../../lib/errors/repository.errors.js';
+import { createMockLogger, createMockNotificationConfig } from '../../../tests/setup.js';
+
+const batch = (reminded: number) => ok({ due: reminded, reminded, emails: reminded });
+
+describe('TripReminderJob', () => {
+    let job: TripReminderJob;
+    let execute: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        container.clearInstances();
+        execute = vi.fn().mockResolvedValue(batch(0));
+        container.registerInstance(SendTripRemindersUseCase, { execute } as unknown as SendTripRemindersUseCase);
+        container.registerInstance(TOKENS.NotificationConfig, createMockNotificationConfig({ reminderBatchSize: 10, reminderPollIntervalMs: 100 }));
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        job = container.resolve(TripReminderJob);
+    });
+
+    afterEach(async () => {
+        await job.stop();
+        vi.useRealTimers();
+    });
+
+    it('should poll at the configured interval', async () => {
+        job.start();
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(execute).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(execute).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should process the next batch immediately after a full one', async () => {
+        execute.mockResolvedValueOnce(batch(10)).mockResolvedValue(batch(2));
+        job.start();
+
+        // Well within one poll interval
+        await vi.advanceTimersByTimeAsync(50);
+
+        expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep polling after a failed batch', async () => {
+        execute.mockResolvedValueOnce(err(new DatabaseError('DB down'))).mockRejectedValueOnce(new Error('boom'));
+        job.start();
+
+        await vi.advanceTimersByTimeAsync(200);
+
+        expect(execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop polling once stopped', async () => {
+        job.start();
+        await vi.advanceTimersByTimeAsync(0);
+
+        await job.stop();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should process a single batch with runOnce', async () => {
+        execute.mockResolvedValue(batch(4));
+
+        expect(await job.runOnce()).toBe(4);
+    });
+});
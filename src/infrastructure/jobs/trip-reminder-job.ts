@@ -0,0 +1,97 @@
+/**
+ * @module trip-reminder-job
+ * Background loop that reminds passengers of their upcoming trips. Each tick
+ * runs the {@link SendTripRemindersUseCase} once; a full batch is followed
+ * immediately by the next one, otherwise the job sleeps for the poll interval.
+ * Runs alongside the outbox worker, in the API process
+ * (`OUTBOX_WORKER_IN_PROCESS=true`) or in the process started with `pnpm worker`.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { NotificationConfig } from '../../application/config/notification.config.js';
+import { SendTripRemindersUseCase } from '../../application/use-cases/trip/send-trip-reminders.use-case.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+
+/**
+ * Polls for trips departing soon and records their reminders until stopped.
+ * Ticks never overlap: the next one is only scheduled once the previous
+ * batch is fully processed. Several jobs (one per process) can run side by
+ * side, since a trip is only ever marked as reminded once.
+ * Injected via tsyringe; resolve one instance per process.
+ */
+@injectable()
+export class TripReminderJob {
+	private readonly logger: Logger;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private running: Promise<void> | null = null;
+	private stopped = true;
+
+	constructor(
+		@inject(SendTripRemindersUseCase)
+		private readonly sendTripReminders: SendTripRemindersUseCase,
+		@inject(TOKENS.NotificationConfig)
+		private readonly notificationConfig: NotificationConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ job: 'TripReminderJob' });
+	}
+
+	/**
+	 * Starts polling immediately. Calling it on a running job has no effect.
+	 */
+	start(): void {
+		if (!this.stopped) {
+			return;
+		}
+		this.stopped = false;
+		this.logger.info('Trip reminder job started', {
+			hoursBefore: this.notificationConfig.tripReminderHoursBefore,
+			pollIntervalMs: this.notificationConfig.reminderPollIntervalMs,
+		});
+		this.schedule(0);
+	}
+
+	/**
+	 * Stops polling and waits for the batch in progress, if any, to finish.
+	 */
+	async stop(): Promise<void> {
+		this.stopped = true;
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		await this.running;
+		this.logger.info('Trip reminder job stopped');
+	}
+
+	/**
+	 * Processes a single batch.
+	 * @returns The number of trips reminded (0 if the due trips could not be looked up).
+	 */
+	async runOnce(): Promise<number> {
+		const result = await this.sendTripReminders.execute();
+		return result.success ? result.value.reminded : 0;
+	}
+
+	private schedule(delayMs: number): void {
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			this.running = this.tick();
+		}, delayMs);
+	}
+
+	private async tick(): Promise<void> {
+		let reminded = 0;
+		try {
+			reminded = await this.runOnce();
+		} catch (e) {
+			// Keep polling: an unexpected failure must not stop the reminders
+			this.logger.error('Trip reminder job tick failed', e instanceof Error ? e : null);
+		}
+		this.running = null;
+		if (!this.stopped) {
+			this.schedule(reminded >= this.notificationConfig.reminderBatchSize ? 0 : this.notificationConfig.reminderPollIntervalMs);
+		}
+	}
+}
@@ -0,0 +1,79 @@
+/**
+ * @file Unit tests for the TripSeriesJob.
+ *
+ * Covers polling at the configured interval, surviving failed ticks,
+ * and stopping.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { TripSeriesJob } from './trip-series-job.js';
+import { MaterializeTripSeriesUseCase } from '../../application/use-cases/trip-series/materialize-trip-series.use-case.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { DatabaseError } from '../../lib/errors/repository.errors.js';
+import { createMockLogger, createMockTripConfig } from '../../../tests/setup.js';
+
+describe('TripSeriesJob', () => {
+    let job: TripSeriesJob;
+    let execute: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        container.clearInstances();
+        execute = vi.fn().mockResolvedValue(ok(0));
+        container.registerInstance(MaterializeTripSeriesUseCase, { execute } as unknown as MaterializeTripSeriesUseCase);
+        container.registerInstance(TOKENS.TripConfig, createMockTripConfig({ seriesPollIntervalMs: 100 }));
+        container.registerInstance(TOKENS.Logger, createMockLogger());
+        job = container.resolve(TripSeriesJob);
+    });
+
+    afterEach(async () => {
+        await job.stop();
+        vi.useRealTimers();
+    });
+
+    it('should poll at the configured interval', async () => {
+        job.start();
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(execute).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(execute).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep polling after a failed run', async () => {
+        execute.mockResolvedValueOnce(err(new DatabaseError('DB down'))).mockRejectedValueOnce(new Error('boom'));
+        job.start();
+
+        await vi.advanceTimersByTimeAsync(200);
+
+        expect(execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop polling once stopped', async () => {
+        job.start();
+        await vi.advanceTimersByTimeAsync(0);
+
+        await job.stop();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count the trips created by runOnce', async () => {
+        execute.mockResolvedValue(ok(4));
+
+        expect(await job.runOnce()).toBe(4);
+    });
+
+    it('should count no trip when the run failed', async () => {
+        execute.mockResolvedValue(err(new DatabaseError('DB down')));
+
+        expect(await job.runOnce()).toBe(0);
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * @module trip-series-job
+ * Background loop that materializes the occurrences of recurring trips ahead
+ * of time, so that passengers can book them. Each tick runs the
+ * {@link MaterializeTripSeriesUseCase} once, then the job sleeps for the poll
+ * interval. Runs alongside the outbox worker, in the API process
+ * (`OUTBOX_WORKER_IN_PROCESS=true`) or in the process started with `pnpm worker`.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripConfig } from '../../application/config/trip.config.js';
+import { MaterializeTripSeriesUseCase } from '../../application/use-cases/trip-series/materialize-trip-series.use-case.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+
+/**
+ * Polls for the trip series occurrences entering the horizon and creates them until stopped.
+ * Ticks never overlap: the next one is only scheduled once the previous one
+ * is done. Several jobs (one per process) can run side by side, since a
+ * series has at most one trip per day: a job racing another one for the same
+ * occurrence fails on that series, which the next tick picks up again.
+ * Injected via tsyringe; resolve one instance per process.
+ */
+@injectable()
+export class TripSeriesJob {
+	private readonly logger: Logger;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private running: Promise<void> | null = null;
+	private stopped = true;
+
+	constructor(
+		@inject(MaterializeTripSeriesUseCase)
+		private readonly materializeTripSeries: MaterializeTripSeriesUseCase,
+		@inject(TOKENS.TripConfig)
+		private readonly tripConfig: TripConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ job: 'TripSeriesJob' });
+	}
+
+	/**
+	 * Starts polling immediately. Calling it on a running job has no effect.
+	 */
+	start(): void {
+		if (!this.stopped) {
+			return;
+		}
+		this.stopped = false;
+		this.logger.info('Trip series job started', { pollIntervalMs: this.tripConfig.seriesPollIntervalMs, horizonDays: this.tripConfig.seriesHorizonDays });
+		this.schedule(0);
+	}
+
+	/**
+	 * Stops polling and waits for the run in progress, if any, to finish.
+	 */
+	async stop(): Promise<void> {
+		this.stopped = true;
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		await this.running;
+		this.logger.info('Trip series job stopped');
+	}
+
+	/**
+	 * Materializes the trip series once.
+	 * @returns The number of trips created (0 if the active series could not be loaded).
+	 */
+	async runOnce(): Promise<number> {
+		const result = await this.materializeTripSeries.execute();
+		return result.success ? result.value : 0;
+	}
+
+	private schedule(delayMs: number): void {
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			this.running = this.tick();
+		}, delayMs);
+	}
+
+	private async tick(): Promise<void> {
+		try {
+			await this.runOnce();
+		} catch (e) {
+			// Keep polling: an unexpected failure must not stop the series from being materialized
+			this.logger.error('Trip series job tick failed', e instanceof Error ? e : null);
+		}
+		this.running = null;
+		if (!this.stopped) {
+			this.schedule(this.tripConfig.seriesPollIntervalMs);
+		}
+	}
+}
@@ -0,0 +1,93 @@
+/**
+ * @module trip-status-job
+ * Background loop that moves trips along their lifecycle: departed trips
+ * start and arrived trips complete. Each tick runs the
+ * {@link AdvanceTripStatusesUseCase} once, then the job sleeps for the poll
+ * interval. Runs alongside the outbox worker, in the API process
+ * (`OUTBOX_WORKER_IN_PROCESS=true`) or in the process started with `pnpm worker`.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { TripConfig } from '../../application/config/trip.config.js';
+import { AdvanceTripStatusesUseCase } from '../../application/use-cases/trip/advance-trip-statuses.use-case.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+
+/**
+ * Polls for trips that departed or arrived and advances their status until stopped.
+ * Ticks never overlap: the next one is only scheduled once the previous one
+ * is done. Several jobs (one per process) can run side by side, since each
+ * status update only applies to trips still in the expected status.
+ * Injected via tsyringe; resolve one instance per process.
+ */
+@injectable()
+export class TripStatusJob {
+	private readonly logger: Logger;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private running: Promise<void> | null = null;
+	private stopped = true;
+
+	constructor(
+		@inject(AdvanceTripStatusesUseCase)
+		private readonly advanceTripStatuses: AdvanceTripStatusesUseCase,
+		@inject(TOKENS.TripConfig)
+		private readonly tripConfig: TripConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ job: 'TripStatusJob' });
+	}
+
+	/**
+	 * Starts polling immediately. Calling it on a running job has no effect.
+	 */
+	start(): void {
+		if (!this.stopped) {
+			return;
+		}
+		this.stopped = false;
+		this.logger.info('Trip status job started', { pollIntervalMs: this.tripConfig.statusPollIntervalMs });
+		this.schedule(0);
+	}
+
+	/**
+	 * Stops polling and waits for the run in progress, if any, to finish.
+	 */
+	async stop(): Promise<void> {
+		this.stopped = true;
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		await this.running;
+		this.logger.info('Trip status job stopped');
+	}
+
+	/**
+	 * Advances the trip statuses once.
+	 * @returns The number of trips started or completed (0 if the statuses could not be updated).
+	 */
+	async runOnce(): Promise<number> {
+		const result = await this.advanceTripStatuses.execute();
+		return result.success ? result.value.started + result.value.completed : 0;
+	}
+
+	private schedule(delayMs: number): void {
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			this.running = this.tick();
+		}, delayMs);
+	}
+
+	private async tick(): Promise<void> {
+		try {
+			await this.runOnce();
+		} catch (e) {
+			// Keep polling: an unexpected failure must not leave trips stuck in their status
+			this.logger.error('Trip status job tick failed', e instanceof Error ? e : null);
+		}
+		this.running = null;
+		if (!this.stopped) {
+			this.schedule(this.tripConfig.statusPollIntervalMs);
+		}
+	}
+}
@@ -0,0 +1,108 @@
+/**
+ * @file Unit tests for InMemoryRealtimeBroker.
+ * Covers delivery to the listeners of a channel, unsubscribing, replay after
+ * a known or unknown event id, and the size and TTL bounds of the backlog.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockRealtimeConfig } from '../../../tests/setup.js';
+import { InMemoryRealtimeBroker } from './in-memory-realtime.broker.js';
+
+describe('InMemoryRealtimeBroker', () => {
+	let broker: InMemoryRealtimeBroker;
+	const seats = (remainingSeats: number) => ({ tripId: 'trip-1', seats: 3, remainingSeats });
+
+	beforeEach(() => {
+		broker = new InMemoryRealtimeBroker(createMockRealtimeConfig({ backlogSize: 3, backlogTtlSeconds: 60 }));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe('publish() and subscribe()', () => {
+		it('should deliver events to the listeners of their channel only', async () => {
+			const onTrip = vi.fn();
+			const onOther = vi.fn();
+			await broker.subscribe('trip:trip-1', onTrip);
+			await broker.subscribe('trip:trip-2', onOther);
+
+			await broker.publish('trip:trip-1', 'seats-changed', seats(2));
+
+			expect(onTrip).toHaveBeenCalledWith({ id: '1', type: 'seats-changed', data: seats(2) });
+			expect(onOther).not.toHaveBeenCalled();
+		});
+
+		it('should stop delivering once unsubscribed', async () => {
+			const listener = vi.fn();
+			const unsubscribe = await broker.subscribe('trip:trip-1', listener);
+
+			await unsubscribe();
+			await broker.publish('trip:trip-1', 'seats-changed', seats(2));
+
+			expect(listener).not.toHaveBeenCalled();
+		});
+
+		// Ids are shared by all channels, so they order every event of the process
+		it('should assign increasing ids across channels', async () => {
+			await broker.publish('trip:trip-1', 'seats-changed', seats(2));
+			await broker.publish('user:user-1', 'booking-updated', { inscriptionId: 'ins-1', tripId: 'trip-1', status: 'ACTIVE' });
+
+			const replayed = await broker.replay('user:user-1', 'unknown');
+			expect(replayed.map((event) => event.id)).toEqual(['2']);
+		});
+	});
+
+	describe('replay()', () => {
+		it('should return the events published after the given id', async () => {
+			await broker.publish('trip:trip-1', 'seats-changed', seats(2));
+			await broker.publish('trip:trip-1', 'seats-changed', seats(1));
+			await broker.publish('trip:trip-1', 'seats-changed', seats(0));
+
+			const replayed = await broker.replay('trip:trip-1', '1');
+
+			expect(replayed.map((event) => event.data)).toEqual([seats(1), seats(0)]);
+		});
+
+		it('should return nothing when the client is up to date', async () => {
+			await broker.publish('trip:trip-1', 'seats-changed', seats(2));
+
+			expect(await broker.replay('trip:trip-1', '1')).toEqual([]);
+		});
+
+		// The id may predate a restart or have left the backlog
+		it('should return the whole backlog for an unknown id', async () => {
+			await broker.publish('trip:trip-1', 'seats-changed', seats(2));
+			await broker.publish('trip:trip-1', 'seats-changed', seats(1));
+
+			const replayed = await broker.replay('trip:trip-1', '42');
+
+			expect(replayed.map((event) => event.id)).toEqual(['1', '2']);
+		});
+
+		it('should return nothing for a channel without events', async () => {
+			expect(await broker.replay('trip:trip-1', '1')).toEqual([]);
+		});
+
+		it('should keep only the latest events of a channel', async () => {
+			for (let remaining = 4; remaining >= 0; remaining--) {
+				await broker.publish('trip:trip-1', 'seats-changed', seats(remaining));
+			}
+
+			const replayed = await broker.replay('trip:trip-1', 'unknown');
+
+			expect(replayed.map((event) => event.id)).toEqual(['3', '4', '5']);
+		});
+
+		it('should leave out the events older than the backlog TTL', async () => {
+			vi.useFakeTimers();
+			await broker.publish('trip:trip-1', 'seats-changed', seats(2));
+			vi.advanceTimersByTime(61_000);
+			await broker.publish('trip:trip-1', 'seats-changed', seats(1));
+
+			const replayed = await broker.replay('trip:trip-1', 'unknown');
+
+			expect(replayed.map((event) => event.id)).toEqual(['2']);
+		});
+	});
+});
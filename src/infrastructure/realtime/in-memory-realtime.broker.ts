@@ -0,0 +1,90 @@
+/**
+ * @module in-memory-realtime.broker
+ * In-process implementation of the {@link RealtimeBroker} domain interface.
+ * Delivers events to the streams connected to the node that published them,
+ * which is enough for a single node. Selected when the realtime transport is `memory`.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { RealtimeEvent, RealtimeEventPayloads, RealtimeEventType } from '../../domain/events/realtime-events.js';
+import type { RealtimeBroker, RealtimeListener } from '../../domain/services/realtime-broker.service.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import type { RealtimeConfig } from './realtime.config.js';
+
+/** An event kept in the backlog of a channel, with when it was published. */
+type BacklogEntry = { event: RealtimeEvent; publishedAt: number };
+
+/** The listeners and the backlog of a channel. */
+type Channel = { listeners: Set<RealtimeListener>; backlog: BacklogEntry[] };
+
+/**
+ * In-process implementation of {@link RealtimeBroker}.
+ * Event ids are a counter of the process, so they restart with it; a client
+ * resuming with an id from before a restart gets the whole (new) backlog.
+ * Backlogs are bounded by the {@link RealtimeConfig}; a channel without
+ * listeners is forgotten once its backlog expired.
+ * Injected via tsyringe as a singleton, so every resolution shares the same channels.
+ */
+@injectable()
+export class InMemoryRealtimeBroker implements RealtimeBroker {
+	private readonly channels = new Map<string, Channel>();
+	private lastId = 0;
+
+	constructor(
+		@inject(TOKENS.RealtimeConfig)
+		private readonly config: RealtimeConfig,
+	) {}
+
+	async publish<K extends RealtimeEventType>(channel: string, type: K, data: RealtimeEventPayloads[K]): Promise<void> {
+		this.lastId++;
+		const event = { id: String(this.lastId), type, data } as RealtimeEvent;
+		const state = this.channel(channel);
+		state.backlog.push({ event, publishedAt: Date.now() });
+		if (state.backlog.length > this.config.backlogSize) {
+			state.backlog.splice(0, state.backlog.length - this.config.backlogSize);
+		}
+		for (const listener of state.listeners) {
+			listener(event);
+		}
+		this.forgetExpired();
+	}
+
+	async subscribe(channel: string, listener: RealtimeListener): Promise<() => Promise<void>> {
+		this.channel(channel).listeners.add(listener);
+		return async () => {
+			this.channels.get(channel)?.listeners.delete(listener);
+		};
+	}
+
+	async replay(channel: string, lastEventId: string): Promise<RealtimeEvent[]> {
+		const backlog = this.unexpired(this.channels.get(channel)?.backlog ?? []).map((entry) => entry.event);
+		const last = backlog.findIndex((event) => event.id === lastEventId);
+		return last === -1 ? backlog : backlog.slice(last + 1);
+	}
+
+	/** Returns the state of a channel, creating it on first use. */
+	private channel(name: string): Channel {
+		let state = this.channels.get(name);
+		if (!state) {
+			state = { listeners: new Set(), backlog: [] };
+			this.channels.set(name, state);
+		}
+		return state;
+	}
+
+	/** Keeps the backlog entries published within the backlog TTL. */
+	private unexpired(backlog: BacklogEntry[]): BacklogEntry[] {
+		const oldest = Date.now() - this.config.backlogTtlSeconds * 1000;
+		return backlog.filter((entry) => entry.publishedAt >= oldest);
+	}
+
+	/** Drops expired backlog entries, and the channels left without listeners or backlog. */
+	private forgetExpired(): void {
+		for (const [name, state] of this.channels) {
+			state.backlog = this.unexpired(state.backlog);
+			if (state.backlog.length === 0 && state.listeners.size === 0) {
+				this.channels.delete(name);
+			}
+		}
+	}
+}
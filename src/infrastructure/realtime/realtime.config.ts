@@ -0,0 +1,65 @@
+/**
+ * @module realtime.config
+ * Defines the RealtimeConfig type and a factory function that reads the
+ * event stream transport, heartbeat and backlog from environment variables
+ * with sensible defaults.
+ */
+
+import { envInt } from '../../lib/shared/utils/env.util.js';
+
+/**
+ * How realtime events reach the streams.
+ *
+ * - `memory` -- within the process; streams only receive the events published by
+ *   the node they are connected to, so it fits a single node.
+ * - `redis` -- through Redis pub/sub on the Upstash instance used by the cache, so
+ *   that every node receives every event.
+ */
+export type RealtimeTransport = 'memory' | 'redis';
+
+const REALTIME_TRANSPORTS: readonly RealtimeTransport[] = ['memory', 'redis'];
+
+/**
+ * Event stream settings.
+ *
+ * @property transport - The transport events are fanned out with.
+ * @property heartbeatIntervalMs - Pause between two heartbeat comments on an idle stream,
+ *                                 keeping proxies from closing the connection.
+ * @property backlogSize - Number of events kept per channel for clients resuming with `Last-Event-ID`.
+ * @property backlogTtlSeconds - How long the backlog of a channel is kept after its last event.
+ * @property keyPrefix - Prefix of the Redis keys and channel of the `redis` transport;
+ *                       shares the cache key prefix.
+ */
+export type RealtimeConfig = {
+	transport: RealtimeTransport;
+	heartbeatIntervalMs: number;
+	backlogSize: number;
+	backlogTtlSeconds: number;
+	keyPrefix: string;
+};
+
+/**
+ * Reads REALTIME_TRANSPORT, defaulting to the in-process transport.
+ * @throws {Error} If REALTIME_TRANSPORT names an unknown transport.
+ */
+function readTransport(): RealtimeTransport {
+	const value = process.env.REALTIME_TRANSPORT;
+	if (!value) {
+		return 'memory';
+	}
+	const transport = REALTIME_TRANSPORTS.find((candidate) => candidate === value);
+	if (!transport) {
+		throw new Error(`REALTIME_TRANSPORT must be one of ${REALTIME_TRANSPORTS.join(', ')}, got "${value}"`);
+	}
+	return transport;
+}
+
+export function createRealtimeConfig(): RealtimeConfig {
+	return {
+		transport: readTransport(),
+		heartbeatIntervalMs: envInt('REALTIME_HEARTBEAT_INTERVAL_MS', 15_000),
+		backlogSize: envInt('REALTIME_BACKLOG_SIZE', 100),
+		backlogTtlSeconds: envInt('REALTIME_BACKLOG_TTL_SECONDS', 3600),
+		keyPrefix: process.env.CACHE_KEY_PREFIX ?? 'covoitapi:',
+	};
+}
@@ -0,0 +1,142 @@
+/**
+ * @file Unit tests for UpstashRealtimeBroker.
+ * Uses mocked @upstash/redis to verify the stream backlog, the shared pub/sub
+ * subscription and its dispatch to local listeners, and replay.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockLogger, createMockRealtimeConfig } from '../../../tests/setup.js';
+
+const mockXadd = vi.fn();
+const mockXrange = vi.fn();
+const mockExpire = vi.fn();
+const mockPublish = vi.fn();
+const mockUnsubscribe = vi.fn();
+const subscriberHandlers = new Map<string, (payload: unknown) => void>();
+const mockSubscribe = vi.fn(() => ({
+	on: (type: string, handler: (payload: unknown) => void) => subscriberHandlers.set(type, handler),
+	unsubscribe: mockUnsubscribe,
+}));
+
+vi.mock('@upstash/redis', () => ({
+	Redis: class MockRedis {
+		xadd = mockXadd;
+		xrange = mockXrange;
+		expire = mockExpire;
+		publish = mockPublish;
+		subscribe = mockSubscribe;
+	},
+}));
+
+const { UpstashRealtimeBroker } = await import('./upstash-realtime.broker.js');
+
+describe('UpstashRealtimeBroker', () => {
+	let broker: InstanceType<typeof UpstashRealtimeBroker>;
+	let logger: ReturnType<typeof createMockLogger>;
+	const seats = { tripId: 'trip-1', seats: 3, remainingSeats: 2 };
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		subscriberHandlers.clear();
+		mockXadd.mockResolvedValue('1712345678901-0');
+		mockUnsubscribe.mockResolvedValue(undefined);
+		process.env.UPSTASH_REDIS_REST_URL = 'https://fake.upstash.io';
+		process.env.UPSTASH_REDIS_REST_TOKEN = 'fake-token';
+		logger = createMockLogger();
+		broker = new UpstashRealtimeBroker(createMockRealtimeConfig({ backlogSize: 50, backlogTtlSeconds: 600 }), logger);
+	});
+
+	it('should throw when the Upstash credentials are missing', () => {
+		delete process.env.UPSTASH_REDIS_REST_URL;
+
+		expect(() => new UpstashRealtimeBroker(createMockRealtimeConfig(), logger)).toThrow('UPSTASH_REDIS_REST_URL');
+	});
+
+	describe('publish()', () => {
+		it('should append the event to the channel backlog and publish it with the stream id', async () => {
+			await broker.publish('trip:trip-1', 'seats-changed', seats);
+
+			expect(mockXadd).toHaveBeenCalledWith('test:realtime:trip:trip-1', '*', { type: 'seats-changed', data: JSON.stringify(seats) }, {
+				trim: { type: 'MAXLEN', threshold: 50, comparison: '~' },
+			});
+			expect(mockExpire).toHaveBeenCalledWith('test:realtime:trip:trip-1', 600);
+			expect(mockPublish).toHaveBeenCalledWith('test:realtime', {
+				channel: 'trip:trip-1',
+				event: { id: '1712345678901-0', type: 'seats-changed', data: seats },
+			});
+		});
+
+		it('should propagate Redis errors', async () => {
+			mockXadd.mockRejectedValue(new Error('Connection refused'));
+
+			await expect(broker.publish('trip:trip-1', 'seats-changed', seats)).rejects.toThrow('Connection refused');
+			expect(mockPublish).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('subscribe()', () => {
+		const message = (channel: string) => ({ message: { channel, event: { id: '1-0', type: 'seats-changed', data: seats } } });
+
+		it('should dispatch the messages of the pub/sub channel to the listeners of their channel', async () => {
+			const onTrip = vi.fn();
+			const onOther = vi.fn();
+			await broker.subscribe('trip:trip-1', onTrip);
+			await broker.subscribe('trip:trip-2', onOther);
+
+			subscriberHandlers.get('message')?.(message('trip:trip-1'));
+
+			expect(onTrip).toHaveBeenCalledWith({ id: '1-0', type: 'seats-changed', data: seats });
+			expect(onOther).not.toHaveBeenCalled();
+		});
+
+		// One subscription per node, whatever the number of streams
+		it('should open a single subscription for all the listeners', async () => {
+			await broker.subscribe('trip:trip-1', vi.fn());
+			await broker.subscribe('user:user-1', vi.fn());
+
+			expect(mockSubscribe).toHaveBeenCalledTimes(1);
+			expect(mockSubscribe).toHaveBeenCalledWith('test:realtime');
+		});
+
+		it('should close the subscription once the last listener is gone', async () => {
+			const first = await broker.subscribe('trip:trip-1', vi.fn());
+			const second = await broker.subscribe('trip:trip-1', vi.fn());
+
+			await first();
+			expect(mockUnsubscribe).not.toHaveBeenCalled();
+			await second();
+			expect(mockUnsubscribe).toHaveBeenCalledTimes(1);
+
+			await broker.subscribe('trip:trip-1', vi.fn());
+			expect(mockSubscribe).toHaveBeenCalledTimes(2);
+		});
+
+		it('should log subscription errors', async () => {
+			await broker.subscribe('trip:trip-1', vi.fn());
+
+			subscriberHandlers.get('error')?.(new Error('Connection lost'));
+
+			expect(logger.error).toHaveBeenCalledWith('Realtime subscription failed', expect.any(Error), { channel: 'test:realtime' });
+		});
+	});
+
+	describe('replay()', () => {
+		it('should read the backlog after the given stream id', async () => {
+			mockXrange.mockResolvedValue({ '1712345678902-0': { type: 'seats-changed', data: seats } });
+
+			const replayed = await broker.replay('trip:trip-1', '1712345678901-0');
+
+			expect(mockXrange).toHaveBeenCalledWith('test:realtime:trip:trip-1', '(1712345678901-0', '+', 50);
+			expect(replayed).toEqual([{ id: '1712345678902-0', type: 'seats-changed', data: seats }]);
+		});
+
+		// Ids the broker did not assign cannot be positioned in the stream
+		it('should read the whole backlog for an id that is not a stream id', async () => {
+			mockXrange.mockResolvedValue({});
+
+			await broker.replay('trip:trip-1', 'not-an-id');
+
+			expect(mockXrange).toHaveBeenCalledWith('test:realtime:trip:trip-1', '-', '+', 50);
+		});
+	});
+});
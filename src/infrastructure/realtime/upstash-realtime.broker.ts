@@ -0,0 +1,124 @@
+/**
+ * @module upstash-realtime.broker
+ * Upstash Redis implementation of the {@link RealtimeBroker} domain interface.
+ * Fans events out to every node through Redis pub/sub and keeps the backlog
+ * of each channel in a Redis stream, using the `@upstash/redis` REST client of
+ * the cache. Selected when the realtime transport is `redis`; configured
+ * through UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN.
+ */
+
+import { Redis } from '@upstash/redis';
+import { inject, injectable } from 'tsyringe';
+import type { RealtimeEvent, RealtimeEventPayloads, RealtimeEventType } from '../../domain/events/realtime-events.js';
+import type { RealtimeBroker, RealtimeListener } from '../../domain/services/realtime-broker.service.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import type { RealtimeConfig } from './realtime.config.js';
+
+/** Message sent on the pub/sub channel: an event and the channel it was published on. */
+type BrokerMessage = { channel: string; event: RealtimeEvent };
+
+/** The node's subscription to the pub/sub channel. */
+type BrokerSubscriber = ReturnType<typeof Redis.prototype.subscribe<BrokerMessage>>;
+
+/** Shape of the Redis stream ids assigned by XADD, e.g. `1712345678901-0`. */
+const STREAM_ID = /^\d+-\d+$/;
+
+/**
+ * Upstash implementation of {@link RealtimeBroker}.
+ * Every event is appended to the Redis stream of its channel, whose entry id
+ * becomes the event id, then published on a single pub/sub channel shared by
+ * all the event channels. Each node holds one subscription to it while it has
+ * listeners, and dispatches the messages to its local listeners by channel.
+ * Stream ids are ordered and survive restarts, so clients resume on any node.
+ * Injected via tsyringe as a singleton.
+ */
+@injectable()
+export class UpstashRealtimeBroker implements RealtimeBroker {
+	private readonly redis: Redis;
+	private readonly logger: Logger;
+	private readonly listeners = new Map<string, Set<RealtimeListener>>();
+	private subscriber: BrokerSubscriber | null = null;
+
+	constructor(
+		@inject(TOKENS.RealtimeConfig)
+		private readonly config: RealtimeConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ service: 'RealtimeBroker', transport: 'redis' });
+		const url = process.env.UPSTASH_REDIS_REST_URL;
+		const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+		if (!url || !token) {
+			throw new Error('UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN must be set');
+		}
+		this.redis = new Redis({ url, token });
+	}
+
+	async publish<K extends RealtimeEventType>(channel: string, type: K, data: RealtimeEventPayloads[K]): Promise<void> {
+		const key = this.backlogKey(channel);
+		const id = await this.redis.xadd(key, '*', { type, data: JSON.stringify(data) }, {
+			trim: { type: 'MAXLEN', threshold: this.config.backlogSize, comparison: '~' },
+		});
+		await this.redis.expire(key, this.config.backlogTtlSeconds);
+		const message: BrokerMessage = { channel, event: { id, type, data } as RealtimeEvent };
+		await this.redis.publish(this.pubSubChannel(), message);
+		this.logger.debug('Realtime event published', { channel, type, id });
+	}
+
+	async subscribe(channel: string, listener: RealtimeListener): Promise<() => Promise<void>> {
+		let channelListeners = this.listeners.get(channel);
+		if (!channelListeners) {
+			channelListeners = new Set();
+			this.listeners.set(channel, channelListeners);
+		}
+		channelListeners.add(listener);
+		this.ensureSubscribed();
+
+		return async () => {
+			const remaining = this.listeners.get(channel);
+			remaining?.delete(listener);
+			if (remaining?.size === 0) {
+				this.listeners.delete(channel);
+			}
+			if (this.listeners.size === 0 && this.subscriber) {
+				const subscriber = this.subscriber;
+				this.subscriber = null;
+				await subscriber.unsubscribe();
+			}
+		};
+	}
+
+	async replay(channel: string, lastEventId: string): Promise<RealtimeEvent[]> {
+		// Ids this broker did not assign cannot be positioned in the stream
+		const start = STREAM_ID.test(lastEventId) ? `(${lastEventId}` : '-';
+		const entries = await this.redis.xrange(this.backlogKey(channel), start, '+', this.config.backlogSize);
+		return Object.entries(entries).map(([id, fields]) => ({ id, type: fields.type, data: fields.data }) as RealtimeEvent);
+	}
+
+	/** Opens the node's subscription to the pub/sub channel, unless it is already open. */
+	private ensureSubscribed(): void {
+		if (this.subscriber) {
+			return;
+		}
+		const subscriber = this.redis.subscribe<BrokerMessage>(this.pubSubChannel());
+		subscriber.on('message', ({ message }) => {
+			for (const listener of this.listeners.get(message.channel) ?? []) {
+				listener(message.event);
+			}
+		});
+		subscriber.on('error', (error) => {
+			this.logger.error('Realtime subscription failed', error, { channel: this.pubSubChannel() });
+		});
+		this.subscriber = subscriber;
+	}
+
+	/** Key of the Redis stream holding the backlog of a channel. */
+	private backlogKey(channel: string): string {
+		return `${this.config.keyPrefix}realtime:${channel}`;
+	}
+
+	/** Name of the pub/sub channel all events are published on. */
+	private pubSubChannel(): string {
+		return `${this.config.keyPrefix}realtime`;
+	}
+}
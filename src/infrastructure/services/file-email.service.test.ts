@@ -0,0 +1,85 @@
+/**
+ * @module file-email.service.test
+ * Unit tests for {@link FileEmailService}.
+ * Writes emails to a temporary directory with the real nodemailer stream
+ * transport and a mocked email renderer. Tests cover the written MIME
+ * message, the creation of the directory, and error wrapping with recipient
+ * information.
+ */
+
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { EmailMessage } from '../../domain/services/email.service.js';
+import { EmailDeliveryError } from '../../lib/errors/email.errors.js';
+import { createMockEmailConfig, createMockEmailRenderer, createMockLogger } from '../../../tests/setup.js';
+import { FileEmailService } from './file-email.service.js';
+
+describe('FileEmailService', () => {
+	let root: string;
+	let mockRenderer: ReturnType<typeof createMockEmailRenderer>;
+	const message: EmailMessage = { template: 'welcome', variables: { firstName: 'John' } };
+
+	function createService(fileSinkDir: string) {
+		return new FileEmailService(mockRenderer, createMockEmailConfig({ transport: 'file', fileSinkDir }), createMockLogger() as any);
+	}
+
+	beforeEach(async () => {
+		root = await mkdtemp(join(tmpdir(), 'covoitapi-emails-'));
+		mockRenderer = createMockEmailRenderer();
+		mockRenderer.render.mockReturnValue({ subject: 'Test Subject', html: '<p>Test content</p>', text: 'Test content' });
+	});
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	describe('send()', () => {
+		// Verifies the directory is created and the email is written as an .eml file
+		it('should write the rendered email as an .eml file', async () => {
+			const dir = join(root, 'emails');
+
+			const result = await createService(dir).send('recipient@example.com', message, 'fr');
+
+			expect(result).toEqual({ success: true, value: undefined });
+			const files = await readdir(dir);
+			expect(files).toHaveLength(1);
+			expect(files[0]).toMatch(/-welcome-[0-9a-f-]{36}\.eml$/);
+			const eml = await readFile(join(dir, files[0]), 'utf-8');
+			expect(eml).toContain('From: noreply@test.com');
+			expect(eml).toContain('To: recipient@example.com');
+			expect(eml).toContain('Subject: Test Subject');
+			expect(eml).toContain('Test content');
+		});
+
+		it('should render the message in the given locale', async () => {
+			await createService(root).send('recipient@example.com', message, 'en');
+
+			expect(mockRenderer.render).toHaveBeenCalledWith(message, 'en');
+		});
+
+		it('should write one file per email', async () => {
+			const service = createService(root);
+
+			await service.send('first@example.com', message, 'fr');
+			await service.send('second@example.com', message, 'fr');
+
+			expect(await readdir(root)).toHaveLength(2);
+		});
+
+		it('should return err(EmailDeliveryError) with the recipient when the file cannot be written', async () => {
+			// A regular file where the directory should be makes mkdir fail
+			const blocked = join(root, 'blocked');
+			await writeFile(blocked, '');
+
+			const result = await createService(blocked).send('recipient@example.com', message, 'fr');
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error).toBeInstanceOf(EmailDeliveryError);
+				expect((result.error as EmailDeliveryError).recipient).toBe('recipient@example.com');
+			}
+		});
+	});
+});
@@ -0,0 +1,82 @@
+/**
+ * @module file-email.service
+ * File-sink implementation of the {@link EmailService} domain interface.
+ * Writes every email rendered by the {@link EmailRenderer} as an `.eml` file
+ * instead of sending it, so local runs and CI never reach a real provider and
+ * the emails can still be opened with any mail client. Selected when the email
+ * transport is `file`.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import type StreamTransport from 'nodemailer/lib/stream-transport/index.js';
+import { inject, injectable } from 'tsyringe';
+import type { Locale } from '../../domain/entities/user.entity.js';
+import type { EmailRenderer } from '../../domain/services/email-renderer.service.js';
+import type { EmailMessage, EmailService } from '../../domain/services/email.service.js';
+import type { EmailConfig } from '../email/email.config.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import type { Result } from '../../lib/shared/types/result.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { EmailDeliveryError } from '../../lib/errors/email.errors.js';
+
+/**
+ * File-sink implementation of {@link EmailService}.
+ * Builds the complete MIME message with a `nodemailer` stream transport and
+ * writes it to the directory set in the {@link EmailConfig}, which is created
+ * on first use. Files are named after the send time and the template, so a
+ * directory listing reads in sending order.
+ * All write errors are wrapped in {@link EmailDeliveryError} with the
+ * recipient address for debugging.
+ * Injected via tsyringe as a singleton.
+ */
+@injectable()
+export class FileEmailService implements EmailService {
+	private readonly transporter: Transporter<StreamTransport.SentMessageInfo>;
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(TOKENS.EmailRenderer)
+		private readonly renderer: EmailRenderer,
+		@inject(TOKENS.EmailConfig)
+		private readonly config: EmailConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ service: 'EmailService', transport: 'file' });
+		this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+	}
+
+	/**
+	 * Renders a template and writes it as an `.eml` file.
+	 * @param to - The recipient's email address.
+	 * @param message - The template and its variables.
+	 * @param locale - The language of the email.
+	 * @returns `ok(undefined)` once the file is written,
+	 *          or `err(EmailDeliveryError)` if it could not be built or written.
+	 */
+	async send(to: string, message: EmailMessage, locale: Locale): Promise<Result<void, EmailDeliveryError>> {
+		const email = this.renderer.render(message, locale);
+		try {
+			const info = await this.transporter.sendMail({
+				from: this.config.from,
+				to,
+				subject: email.subject,
+				html: email.html,
+				text: email.text,
+			});
+			const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+			const path = join(this.config.fileSinkDir, `${timestamp}-${message.template}-${randomUUID()}.eml`);
+			await mkdir(this.config.fileSinkDir, { recursive: true });
+			await writeFile(path, info.message);
+			this.logger.info('Email written', { to, template: message.template, locale, path });
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Email delivery failed', e instanceof Error ? e : null, { to, template: message.template, locale });
+			return err(new EmailDeliveryError(to, e));
+		}
+	}
+}
@@ -45,9 +45,17 @@ describe('HonoJwtService', () => {
 			expect(() => new HonoJwtService(createMockLogger() as any)).toThrow('JWT_SECRET environment variable is required');
 		});
 
-		it('should default JWT_EXPIRES_IN to 24h', () => {
+		it('should default JWT_EXPIRES_IN to 15m', async () => {
 			delete process.env.JWT_EXPIRES_IN;
-			expect(() => new HonoJwtService(createMockLogger() as any)).not.toThrow();
+			const service = new HonoJwtService(createMockLogger() as any);
+			mockSign.mockResolvedValue('token');
+			const now = Math.floor(Date.now() / 1000);
+
+			await service.sign({ userId: 'u', role: 'USER' });
+
+			const exp = mockSign.mock.calls[0][0].exp;
+			expect(exp).toBeGreaterThanOrEqual(now + 15 * 60 - 1);
+			expect(exp).toBeLessThanOrEqual(now + 15 * 60 + 1);
 		});
 	});
 
@@ -89,6 +97,16 @@ describe('HonoJwtService', () => {
 			expect(passedPayload.iat).toBeLessThanOrEqual(now + 1);
 		});
 
+		it('should store the session id in the sid claim', async () => {
+			mockSign.mockResolvedValue('token');
+
+			await jwtService.sign({ userId: 'user-123', role: 'USER', sessionId: 'session-1' });
+
+			const passedPayload = mockSign.mock.calls[0][0];
+			expect(passedPayload.sid).toBe('session-1');
+			expect(passedPayload).not.toHaveProperty('sessionId');
+		});
+
 		it('should return TokenSigningError when hono sign throws', async () => {
 			mockSign.mockRejectedValue(new Error('signing failed'));
 
@@ -114,6 +132,17 @@ describe('HonoJwtService', () => {
 			}
 		});
 
+		it('should return the session id from the sid claim', async () => {
+			mockVerify.mockResolvedValue({ userId: 'user-789', role: 'USER', sid: 'session-1', iss: 'covoitapi', aud: 'covoitapi' });
+
+			const result = await jwtService.verify('valid-token');
+
+			expect(result.success).toBe(true);
+			if (result.success) {
+				expect(result.value).toEqual({ userId: 'user-789', role: 'USER', sessionId: 'session-1' });
+			}
+		});
+
 		it('should default role to USER when missing from decoded token', async () => {
 			mockVerify.mockResolvedValue({ userId: 'user-123', iss: 'covoitapi', aud: 'covoitapi' });
 
@@ -274,7 +303,7 @@ describe('HonoJwtService', () => {
 			expect(exp).toBeLessThanOrEqual(now + 30 * 60 + 1);
 		});
 
-		it('should default to 24h for invalid format', async () => {
+		it('should default to 15m for invalid format', async () => {
 			process.env.JWT_EXPIRES_IN = 'invalid';
 			const service = new HonoJwtService(createMockLogger() as any);
 			mockSign.mockResolvedValue('token');
@@ -283,8 +312,8 @@ describe('HonoJwtService', () => {
 			await service.sign({ userId: 'u', role: 'USER' });
 
 			const exp = mockSign.mock.calls[0][0].exp;
-			expect(exp).toBeGreaterThanOrEqual(now + 86400 - 1);
-			expect(exp).toBeLessThanOrEqual(now + 86400 + 1);
+			expect(exp).toBeGreaterThanOrEqual(now + 15 * 60 - 1);
+			expect(exp).toBeLessThanOrEqual(now + 15 * 60 + 1);
 		});
 	});
 });
@@ -3,7 +3,8 @@
  * Hono JWT-based implementation of the {@link JwtService} domain interface.
  * Handles JWT token signing and verification using Hono's built-in JWT
  * utilities with HS256 algorithm. Reads configuration from environment
- * variables (JWT_SECRET, JWT_EXPIRES_IN).
+ * variables (JWT_SECRET, JWT_EXPIRES_IN). Access tokens are short-lived and
+ * carry their session id in the `sid` claim.
  */
 
 import { sign as honoSign, verify as honoVerify } from 'hono/jwt';
@@ -20,11 +21,15 @@ import {
 	TokenSigningError,
 } from '../../lib/errors/jwt.errors.js';
 
+/** Access token lifetime used when `JWT_EXPIRES_IN` cannot be parsed: 15 minutes. */
+const DEFAULT_EXPIRATION_SECONDS = 15 * 60;
+
 /**
  * Hono JWT implementation of {@link JwtService}.
  * Uses `hono/jwt` sign/verify functions with HS256 algorithm.
  * The JWT secret is read from `JWT_SECRET` env var (required at construction time).
- * Token expiration is configured via `JWT_EXPIRES_IN` env var (defaults to "24h").
+ * Token expiration is configured via `JWT_EXPIRES_IN` env var (defaults to "15m");
+ * clients renew expired access tokens with their refresh token.
  * Supports h (hours), d (days), and m (minutes) duration formats.
  * All errors are classified into typed Result error variants.
  * Injected via tsyringe as a singleton.
@@ -46,12 +51,13 @@ export class HonoJwtService implements JwtService {
 			throw new Error('JWT_SECRET environment variable is required');
 		}
 		this.secret = secret;
-		this.expiresIn = process.env.JWT_EXPIRES_IN || '24h';
+		this.expiresIn = process.env.JWT_EXPIRES_IN || '15m';
 	}
 
 	/**
 	 * Signs a JWT payload with an expiration timestamp using HS256.
-	 * @param payload - The JWT payload containing userId and role.
+	 * The session id, when present, is stored in the `sid` claim.
+	 * @param payload - The JWT payload containing userId, role and optional sessionId.
 	 * @returns `ok(string)` with the signed JWT token,
 	 *          or `err(TokenSigningError)` if signing fails.
 	 */
@@ -60,8 +66,9 @@ export class HonoJwtService implements JwtService {
 			// Calculate Unix timestamp expiration and merge into payload
 			const exp = this.calculateExpiration();
 			const iat = Math.floor(Date.now() / 1000);
+			const { sessionId, ...claims } = payload;
 			const token = await honoSign(
-				{ ...payload, exp, iat, iss: 'covoitapi', aud: 'covoitapi' },
+				{ ...claims, ...(sessionId && { sid: sessionId }), exp, iat, iss: 'covoitapi', aud: 'covoitapi' },
 				this.secret,
 				'HS256',
 			);
@@ -73,9 +80,10 @@ export class HonoJwtService implements JwtService {
 	}
 
 	/**
-	 * Verifies and decodes a JWT token, extracting the userId and role.
+	 * Verifies and decodes a JWT token, extracting the userId, role and session id.
 	 * Validates that the decoded payload contains a string userId.
-	 * Role defaults to "USER" when not present in the token.
+	 * Role defaults to "USER" when not present in the token; the session id is
+	 * only returned when the token carries a string `sid` claim.
 	 * @param token - The JWT token string to verify.
 	 * @returns `ok(JwtPayload)` with userId and role on success, or a typed error:
 	 *          `err(TokenExpiredError)` if the token has expired,
@@ -96,7 +104,11 @@ export class HonoJwtService implements JwtService {
 				return err(new TokenInvalidError('Token payload missing userId'));
 			}
 
-			return ok({ userId: decoded.userId, role: (decoded.role as string) ?? 'USER' });
+			const payload: JwtPayload = { userId: decoded.userId, role: (decoded.role as string) ?? 'USER' };
+			if (typeof decoded.sid === 'string') {
+				payload.sessionId = decoded.sid;
+			}
+			return ok(payload);
 		} catch (e) {
 			// Classify the raw JWT error into a typed domain error
 			const classified = this.classifyJwtError(e);
@@ -127,7 +139,7 @@ export class HonoJwtService implements JwtService {
 	/**
 	 * Calculates the token expiration as a Unix timestamp (seconds since epoch).
 	 * Parses the `expiresIn` string (e.g. "24h", "7d", "30m").
-	 * Falls back to 24 hours if the format is not recognized.
+	 * Falls back to 15 minutes if the format is not recognized.
 	 * @returns Unix timestamp for the token expiration.
 	 */
 	private calculateExpiration(): number {
@@ -135,8 +147,8 @@ export class HonoJwtService implements JwtService {
 		const match = /^(\d+)([hdm])$/.exec(this.expiresIn);
 
 		if (!match) {
-			// Default to 24 hours for unrecognized format
-			return now + 24 * 60 * 60;
+			// Default to 15 minutes for unrecognized format
+			return now + DEFAULT_EXPIRATION_SECONDS;
 		}
 
 		const value = Number.parseInt(match[1], 10);
@@ -150,7 +162,7 @@ export class HonoJwtService implements JwtService {
 			case 'm':
 				return now + value * 60;
 			default:
-				return now + 24 * 60 * 60;
+				return now + DEFAULT_EXPIRATION_SECONDS;
 		}
 	}
 }
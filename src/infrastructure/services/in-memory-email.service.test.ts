@@ -0,0 +1,90 @@
+/**
+ * @module in-memory-email.service.test
+ * Unit tests for {@link InMemoryEmailService}.
+ * Uses the real template renderer, so the kept emails are the ones users
+ * would receive. Tests cover keeping the rendered emails, the query helpers
+ * used by integration tests, simulated failures and clearing the mailbox.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EmailDeliveryError } from '../../lib/errors/email.errors.js';
+import { createMockEmailConfig } from '../../../tests/setup.js';
+import { TemplateEmailRenderer } from '../email/template-email.renderer.js';
+import { InMemoryEmailService } from './in-memory-email.service.js';
+
+describe('InMemoryEmailService', () => {
+	let mailbox: InMemoryEmailService;
+
+	beforeEach(() => {
+		mailbox = new InMemoryEmailService(new TemplateEmailRenderer(), createMockEmailConfig());
+	});
+
+	describe('send()', () => {
+		// Verifies the email is rendered in the recipient's locale and kept with its message
+		it('should keep the rendered email', async () => {
+			const message = { template: 'email-changed' as const, variables: { newEmail: 'new@example.com' } };
+
+			const result = await mailbox.send('old@example.com', message, 'en');
+
+			expect(result).toEqual({ success: true, value: undefined });
+			expect(mailbox.sent).toHaveLength(1);
+			const email = mailbox.sent[0];
+			expect(email).toMatchObject({ from: 'noreply@test.com', to: 'old@example.com', locale: 'en', message });
+			expect(email.subject).toBeTruthy();
+			expect(email.html).toContain('<html lang="en">');
+			expect(email.text).toContain('new@example.com');
+			expect(email.sentAt).toBeInstanceOf(Date);
+		});
+
+		it('should fail the requested number of sends without keeping them', async () => {
+			const message = { template: 'welcome' as const, variables: { firstName: null } };
+			mailbox.failNext(2);
+
+			const first = await mailbox.send('a@example.com', message, 'fr');
+			const second = await mailbox.send('b@example.com', message, 'fr');
+			const third = await mailbox.send('c@example.com', message, 'fr');
+
+			expect(first.success).toBe(false);
+			if (!first.success) {
+				expect(first.error).toBeInstanceOf(EmailDeliveryError);
+				expect((first.error as EmailDeliveryError).recipient).toBe('a@example.com');
+			}
+			expect(second.success).toBe(false);
+			expect(third.success).toBe(true);
+			expect(mailbox.sent.map((email) => email.to)).toEqual(['c@example.com']);
+		});
+	});
+
+	describe('queries', () => {
+		beforeEach(async () => {
+			await mailbox.send('jane@example.com', { template: 'welcome', variables: { firstName: 'Jane' } }, 'fr');
+			await mailbox.send('john@example.com', { template: 'welcome', variables: { firstName: 'John' } }, 'fr');
+			await mailbox.send('jane@example.com', { template: 'email-verification', variables: { verificationUrl: 'https://app.test/verify?token=abc' } }, 'fr');
+		});
+
+		it('should list the emails sent to an address', () => {
+			expect(mailbox.sentTo('jane@example.com').map((email) => email.message.template)).toEqual(['welcome', 'email-verification']);
+			expect(mailbox.sentTo('nobody@example.com')).toEqual([]);
+		});
+
+		it('should list the emails rendered from a template', () => {
+			expect(mailbox.sentWithTemplate('welcome').map((email) => email.to)).toEqual(['jane@example.com', 'john@example.com']);
+		});
+
+		it('should return the most recent email, overall or for an address', () => {
+			expect(mailbox.last()?.message.template).toBe('email-verification');
+			expect(mailbox.last('john@example.com')?.message.template).toBe('welcome');
+			expect(mailbox.last('nobody@example.com')).toBeUndefined();
+		});
+
+		it('should forget the sent emails and requested failures on clear()', async () => {
+			mailbox.failNext();
+
+			mailbox.clear();
+
+			expect(mailbox.sent).toEqual([]);
+			const result = await mailbox.send('jane@example.com', { template: 'welcome', variables: { firstName: null } }, 'fr');
+			expect(result.success).toBe(true);
+		});
+	});
+});
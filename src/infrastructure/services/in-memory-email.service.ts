@@ -0,0 +1,127 @@
+/**
+ * @module in-memory-email.service
+ * In-memory implementation of the {@link EmailService} domain interface.
+ * Keeps every email rendered by the {@link EmailRenderer} in a list instead of
+ * sending it, and exposes that list to tests: integration tests register it
+ * in place of the real transport and assert on what the use cases sent.
+ * Selected when the email transport is `memory`.
+ */
+
+import { inject, injectable } from 'tsyringe';
+import type { Locale } from '../../domain/entities/user.entity.js';
+import type { EmailRenderer } from '../../domain/services/email-renderer.service.js';
+import type { EmailMessage, EmailService, EmailTemplateId } from '../../domain/services/email.service.js';
+import type { EmailConfig } from '../email/email.config.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import type { Result } from '../../lib/shared/types/result.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { EmailDeliveryError } from '../../lib/errors/email.errors.js';
+
+/**
+ * An email kept by the {@link InMemoryEmailService}.
+ *
+ * @property from - The sender address.
+ * @property to - The recipient address.
+ * @property locale - The language the email was rendered in.
+ * @property message - The template and the variables it was rendered with.
+ * @property subject - The rendered subject.
+ * @property html - The rendered HTML body.
+ * @property text - The rendered plain-text body.
+ * @property sentAt - When the email was sent.
+ */
+export type SentEmail = {
+	from: string;
+	to: string;
+	locale: Locale;
+	message: EmailMessage;
+	subject: string;
+	html: string;
+	text: string;
+	sentAt: Date;
+};
+
+/**
+ * In-memory implementation of {@link EmailService}.
+ * Emails are still rendered, so a template that fails to render fails the
+ * test that sends it. Besides the list of sent emails, tests can make the
+ * next sends fail with {@link InMemoryEmailService.failNext} to exercise
+ * delivery errors.
+ * Injected via tsyringe as a singleton, so every resolution shares the same mailbox.
+ */
+@injectable()
+export class InMemoryEmailService implements EmailService {
+	private readonly emails: SentEmail[] = [];
+	private failuresLeft = 0;
+
+	constructor(
+		@inject(TOKENS.EmailRenderer)
+		private readonly renderer: EmailRenderer,
+		@inject(TOKENS.EmailConfig)
+		private readonly config: EmailConfig,
+	) {}
+
+	/**
+	 * Renders a template and keeps it, unless a failure was requested.
+	 * @param to - The recipient's email address.
+	 * @param message - The template and its variables.
+	 * @param locale - The language of the email.
+	 * @returns `ok(undefined)` once the email is kept,
+	 *          or `err(EmailDeliveryError)` while requested failures remain.
+	 */
+	async send(to: string, message: EmailMessage, locale: Locale): Promise<Result<void, EmailDeliveryError>> {
+		if (this.failuresLeft > 0) {
+			this.failuresLeft--;
+			return err(new EmailDeliveryError(to, new Error('Simulated delivery failure')));
+		}
+		const email = this.renderer.render(message, locale);
+		this.emails.push({ from: this.config.from, to, locale, message, ...email, sentAt: new Date() });
+		return ok(undefined);
+	}
+
+	/** Every email sent since the last {@link clear}, oldest first. */
+	get sent(): readonly SentEmail[] {
+		return this.emails;
+	}
+
+	/**
+	 * Lists the emails sent to an address.
+	 * @param to - The recipient address.
+	 * @returns The matching emails, oldest first.
+	 */
+	sentTo(to: string): SentEmail[] {
+		return this.emails.filter((email) => email.to === to);
+	}
+
+	/**
+	 * Lists the emails rendered from a template.
+	 * @param template - The template id.
+	 * @returns The matching emails, oldest first.
+	 */
+	sentWithTemplate(template: EmailTemplateId): SentEmail[] {
+		return this.emails.filter((email) => email.message.template === template);
+	}
+
+	/**
+	 * Returns the most recent email, optionally only among those sent to an address.
+	 * @param to - The recipient address to filter on.
+	 * @returns The email, or undefined if none matches.
+	 */
+	last(to?: string): SentEmail | undefined {
+		const emails = to === undefined ? this.emails : this.sentTo(to);
+		return emails.at(-1);
+	}
+
+	/**
+	 * Makes the next sends fail with an {@link EmailDeliveryError}, without keeping the emails.
+	 * @param count - How many sends fail.
+	 */
+	failNext(count = 1): void {
+		this.failuresLeft = count;
+	}
+
+	/** Forgets the sent emails and any requested failure. */
+	clear(): void {
+		this.emails.length = 0;
+		this.failuresLeft = 0;
+	}
+}
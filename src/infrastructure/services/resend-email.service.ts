@@ -1,26 +1,28 @@
 /**
  * @module resend-email.service
  * Resend-based implementation of the {@link EmailService} domain interface.
- * Sends transactional emails (welcome messages, notifications) via the
- * Resend API. Configured through RESEND_API_KEY and RESEND_FROM_EMAIL
- * environment variables.
+ * Sends transactional emails (welcome messages, password resets, email
+ * verification links, notifications) via the Resend API, rendered by the
+ * {@link EmailRenderer}. Selected when the email transport is `resend`.
  */
 
 import { Resend } from 'resend';
 import { inject, injectable } from 'tsyringe';
-import type { EmailService, SendEmailOptions } from '../../domain/services/email.service.js';
+import type { Locale } from '../../domain/entities/user.entity.js';
+import type { EmailRenderer } from '../../domain/services/email-renderer.service.js';
+import type { EmailMessage, EmailService } from '../../domain/services/email.service.js';
+import type { EmailConfig } from '../email/email.config.js';
 import type { Logger } from '../../lib/logging/logger.types.js';
 import { TOKENS } from '../../lib/shared/di/tokens.js';
 import type { Result } from '../../lib/shared/types/result.js';
 import { ok, err } from '../../lib/shared/types/result.js';
 import { EmailDeliveryError } from '../../lib/errors/email.errors.js';
-import { escapeHtml } from '../../lib/shared/utils/html-escape.util.js';
 
 /**
  * Resend implementation of {@link EmailService}.
- * Uses the `resend` npm package to send transactional emails.
- * The API key is read from `RESEND_API_KEY` env var at construction.
- * The sender address is read from `RESEND_FROM_EMAIL` env var at send time.
+ * Uses the `resend` npm package to send transactional emails, each with an
+ * HTML body and its plain-text alternative.
+ * The API key and the sender address come from the {@link EmailConfig}.
  * All delivery errors are wrapped in {@link EmailDeliveryError} with the
  * recipient address for debugging.
  * Injected via tsyringe as a singleton.
@@ -31,62 +33,43 @@ export class ResendEmailService implements EmailService {
 	private readonly logger: Logger;
 
 	/**
-	 * Initializes the Resend SDK client with the API key from environment.
+	 * Initializes the Resend SDK client with the configured API key.
 	 */
-	constructor(@inject(TOKENS.Logger) logger: Logger) {
-		this.logger = logger.child({ service: 'EmailService' });
-		this.resend = new Resend(process.env.RESEND_API_KEY);
+	constructor(
+		@inject(TOKENS.EmailRenderer)
+		private readonly renderer: EmailRenderer,
+		@inject(TOKENS.EmailConfig)
+		private readonly config: EmailConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ service: 'EmailService', transport: 'resend' });
+		this.resend = new Resend(config.resendApiKey);
 	}
 
 	/**
-	 * Sends a welcome email to a newly registered user.
-	 * Delegates to {@link send} with a pre-built HTML template.
-	 * @param to - The recipient email address.
-	 * @param firstName - The user's first name, interpolated into the greeting.
+	 * Renders a template and sends it via the Resend API.
+	 * @param to - The recipient's email address.
+	 * @param message - The template and its variables.
+	 * @param locale - The language of the email.
 	 * @returns `ok(undefined)` on success,
-	 *          or `err(EmailDeliveryError)` on failure.
-	 */
-	async sendWelcomeEmail(to: string, firstName: string): Promise<Result<void, EmailDeliveryError>> {
-		const safeFirstName = escapeHtml(firstName);
-		return this.send({
-			to,
-			subject: 'Welcome to Carpooling!',
-			html: `
-        <h1>Welcome, ${safeFirstName}!</h1>
-        <p>Thank you for joining our carpooling platform.</p>
-        <p>Start exploring rides and save money while reducing your carbon footprint!</p>
-      `,
-		});
-	}
-
-	/**
-	 * Sends an email with the given options via the Resend API.
-	 * Reads the sender address from RESEND_FROM_EMAIL at call time, returning
-	 * an error if it is not configured.
-	 * @param options - Email options including to, subject, and html body.
-	 * @returns `ok(undefined)` on success,
-	 *          or `err(EmailDeliveryError)` if the env var is missing or the API call fails.
+	 *          or `err(EmailDeliveryError)` if the API call fails.
 	 *          The error includes the recipient address for debugging.
 	 */
-	async send(options: SendEmailOptions): Promise<Result<void, EmailDeliveryError>> {
-		const fromEmail = process.env.RESEND_FROM_EMAIL;
-		if (!fromEmail) {
-			this.logger.error('RESEND_FROM_EMAIL not configured');
-			return err(new EmailDeliveryError(options.to, new Error('RESEND_FROM_EMAIL not configured')));
-		}
-
+	async send(to: string, message: EmailMessage, locale: Locale): Promise<Result<void, EmailDeliveryError>> {
+		const email = this.renderer.render(message, locale);
 		try {
 			await this.resend.emails.send({
-				from: fromEmail,
-				to: options.to,
-				subject: options.subject,
-				html: options.html,
+				from: this.config.from,
+				to,
+				subject: email.subject,
+				html: email.html,
+				text: email.text,
 			});
-			this.logger.info('Email sent', { to: options.to, subject: options.subject });
+			this.logger.info('Email sent', { to, template: message.template, locale });
 			return ok(undefined);
 		} catch (e) {
-			this.logger.error('Email delivery failed', e instanceof Error ? e : null, { to: options.to, subject: options.subject });
-			return err(new EmailDeliveryError(options.to, e));
+			this.logger.error('Email delivery failed', e instanceof Error ? e : null, { to, template: message.template, locale });
+			return err(new EmailDeliveryError(to, e));
 		}
 	}
 }
@@ -0,0 +1,96 @@
+/**
+ * @module smtp-email.service.test
+ * Unit tests for {@link SmtpEmailService}.
+ * Mocks nodemailer and the email renderer to verify email sending behavior
+ * without opening SMTP connections. Tests cover the transporter settings,
+ * sending the rendered subject and bodies, and error wrapping with recipient
+ * information.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { EmailMessage } from '../../domain/services/email.service.js';
+import { EmailDeliveryError } from '../../lib/errors/email.errors.js';
+import { createMockEmailConfig, createMockEmailRenderer, createMockLogger } from '../../../tests/setup.js';
+import { SmtpEmailService } from './smtp-email.service.js';
+
+// Mock nodemailer to avoid real SMTP connections in tests
+const mockSendMail = vi.fn();
+const mockCreateTransport = vi.fn((_options: unknown) => ({ sendMail: mockSendMail }));
+
+vi.mock('nodemailer', () => ({
+	default: { createTransport: (options: unknown) => mockCreateTransport(options) },
+}));
+
+describe('SmtpEmailService', () => {
+	let mockRenderer: ReturnType<typeof createMockEmailRenderer>;
+	const message: EmailMessage = { template: 'welcome', variables: { firstName: 'John' } };
+
+	function createService(smtp?: Partial<ReturnType<typeof createMockEmailConfig>['smtp']>) {
+		const config = createMockEmailConfig({ transport: 'smtp' });
+		return new SmtpEmailService(mockRenderer, { ...config, smtp: { ...config.smtp, ...smtp } }, createMockLogger() as any);
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockRenderer = createMockEmailRenderer();
+		mockRenderer.render.mockReturnValue({ subject: 'Test Subject', html: '<p>Test content</p>', text: 'Test content' });
+	});
+
+	describe('constructor', () => {
+		// Verifies a local Mailpit-style server is reached without credentials
+		it('should create an unauthenticated transporter when no user is configured', () => {
+			createService();
+
+			expect(mockCreateTransport).toHaveBeenCalledWith({ host: 'localhost', port: 1025, secure: false, auth: undefined });
+		});
+
+		it('should pass the credentials when a user is configured', () => {
+			createService({ host: 'smtp.example.com', port: 465, secure: true, user: 'mailer', password: 'secret' });
+
+			expect(mockCreateTransport).toHaveBeenCalledWith({
+				host: 'smtp.example.com',
+				port: 465,
+				secure: true,
+				auth: { user: 'mailer', pass: 'secret' },
+			});
+		});
+	});
+
+	describe('send()', () => {
+		it('should render the message in the given locale', async () => {
+			mockSendMail.mockResolvedValue({ messageId: 'message-1' });
+
+			await createService().send('recipient@example.com', message, 'en');
+
+			expect(mockRenderer.render).toHaveBeenCalledWith(message, 'en');
+		});
+
+		// Verifies the rendered subject and both bodies are sent from the configured address
+		it('should send the rendered email', async () => {
+			mockSendMail.mockResolvedValue({ messageId: 'message-1' });
+
+			const result = await createService().send('recipient@example.com', message, 'fr');
+
+			expect(result).toEqual({ success: true, value: undefined });
+			expect(mockSendMail).toHaveBeenCalledWith({
+				from: 'noreply@test.com',
+				to: 'recipient@example.com',
+				subject: 'Test Subject',
+				html: '<p>Test content</p>',
+				text: 'Test content',
+			});
+		});
+
+		it('should return err(EmailDeliveryError) with the recipient when the server fails', async () => {
+			mockSendMail.mockRejectedValue(new Error('Connection refused'));
+
+			const result = await createService().send('bounce@example.com', message, 'fr');
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error).toBeInstanceOf(EmailDeliveryError);
+				expect((result.error as EmailDeliveryError).recipient).toBe('bounce@example.com');
+			}
+		});
+	});
+});
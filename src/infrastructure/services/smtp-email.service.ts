@@ -0,0 +1,80 @@
+/**
+ * @module smtp-email.service
+ * SMTP implementation of the {@link EmailService} domain interface.
+ * Sends the emails rendered by the {@link EmailRenderer} to any SMTP server,
+ * typically a local Mailpit or MailHog that catches them during development.
+ * Selected when the email transport is `smtp`.
+ */
+
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import { inject, injectable } from 'tsyringe';
+import type { Locale } from '../../domain/entities/user.entity.js';
+import type { EmailRenderer } from '../../domain/services/email-renderer.service.js';
+import type { EmailMessage, EmailService } from '../../domain/services/email.service.js';
+import type { EmailConfig } from '../email/email.config.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import type { Result } from '../../lib/shared/types/result.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { EmailDeliveryError } from '../../lib/errors/email.errors.js';
+
+/**
+ * SMTP implementation of {@link EmailService}.
+ * Uses a `nodemailer` transporter built once from the SMTP settings of the
+ * {@link EmailConfig}; it keeps no connection open between two emails.
+ * All delivery errors are wrapped in {@link EmailDeliveryError} with the
+ * recipient address for debugging.
+ * Injected via tsyringe as a singleton.
+ */
+@injectable()
+export class SmtpEmailService implements EmailService {
+	private readonly transporter: Transporter;
+	private readonly logger: Logger;
+
+	/**
+	 * Creates the SMTP transporter. Credentials are only sent when a user is configured.
+	 */
+	constructor(
+		@inject(TOKENS.EmailRenderer)
+		private readonly renderer: EmailRenderer,
+		@inject(TOKENS.EmailConfig)
+		private readonly config: EmailConfig,
+		@inject(TOKENS.Logger) logger: Logger,
+	) {
+		this.logger = logger.child({ service: 'EmailService', transport: 'smtp' });
+		const { host, port, secure, user, password } = config.smtp;
+		this.transporter = nodemailer.createTransport({
+			host,
+			port,
+			secure,
+			auth: user ? { user, pass: password } : undefined,
+		});
+	}
+
+	/**
+	 * Renders a template and hands it to the SMTP server.
+	 * @param to - The recipient's email address.
+	 * @param message - The template and its variables.
+	 * @param locale - The language of the email.
+	 * @returns `ok(undefined)` once the server accepted the email,
+	 *          or `err(EmailDeliveryError)` if it could not be reached or refused it.
+	 */
+	async send(to: string, message: EmailMessage, locale: Locale): Promise<Result<void, EmailDeliveryError>> {
+		const email = this.renderer.render(message, locale);
+		try {
+			await this.transporter.sendMail({
+				from: this.config.from,
+				to,
+				subject: email.subject,
+				html: email.html,
+				text: email.text,
+			});
+			this.logger.info('Email sent', { to, template: message.template, locale });
+			return ok(undefined);
+		} catch (e) {
+			this.logger.error('Email delivery failed', e instanceof Error ? e : null, { to, template: message.template, locale });
+			return err(new EmailDeliveryError(to, e));
+		}
+	}
+}
@@ -165,6 +165,18 @@ export class NoSeatsAvailableError extends DomainError {
 	}
 }
 
+/**
+ * Thrown when a passenger requests a pickup/dropoff segment that the trip does not serve,
+ * either because a city is not one of its stops or because the dropoff is not after the pickup.
+ * @param tripId - The UUID of the trip.
+ */
+export class InvalidTripSegmentError extends DomainError {
+	constructor(tripId: string) {
+		super(`Trip ${tripId} does not serve the requested pickup and dropoff stops`, 'INVALID_TRIP_SEGMENT');
+		this.name = 'InvalidTripSegmentError';
+	}
+}
+
 /**
  * Thrown when a color cannot be found by the given identifier.
  * @param id - The UUID of the color.
@@ -176,6 +188,43 @@ export class ColorNotFoundError extends DomainError {
 	}
 }
 
+/**
+ * Thrown when a driver tries to accept or reject an inscription that is no longer pending.
+ * @param inscriptionId - The UUID of the inscription.
+ * @param status - The current status of the inscription.
+ */
+export class InscriptionNotPendingError extends DomainError {
+	constructor(inscriptionId: string, status: string) {
+		super(`Inscription ${inscriptionId} is not pending (current status: ${status})`, 'INSCRIPTION_NOT_PENDING');
+		this.name = 'InscriptionNotPendingError';
+	}
+}
+
+/**
+ * Thrown when a passenger tries to cancel an inscription that is not pending or active
+ * (e.g. already cancelled or rejected).
+ * @param inscriptionId - The UUID of the inscription.
+ * @param status - The current status of the inscription.
+ */
+export class InscriptionNotCancellableError extends DomainError {
+	constructor(inscriptionId: string, status: string) {
+		super(`Inscription ${inscriptionId} cannot be cancelled (current status: ${status})`, 'INSCRIPTION_NOT_CANCELLABLE');
+		this.name = 'InscriptionNotCancellableError';
+	}
+}
+
+/**
+ * Thrown when a passenger tries to cancel a booking after the cancellation cut-off.
+ * @param tripId - The UUID of the trip.
+ * @param cutoffHours - The number of hours before departure after which cancellation is refused.
+ */
+export class CancellationWindowClosedError extends DomainError {
+	constructor(tripId: string, cutoffHours: number) {
+		super(`Bookings on trip ${tripId} can no longer be cancelled less than ${cutoffHours}h before departure`, 'CANCELLATION_WINDOW_CLOSED');
+		this.name = 'CancellationWindowClosedError';
+	}
+}
+
 /**
  * Thrown when attempting to create a color with a name that already exists.
  * @param name - The duplicate color name.
@@ -198,3 +247,243 @@ export class ForbiddenError extends DomainError {
 		this.name = 'ForbiddenError';
 	}
 }
+
+/**
+ * Thrown when a refresh token is unknown, expired, or belongs to a revoked session.
+ */
+export class InvalidRefreshTokenError extends DomainError {
+	constructor() {
+		super('Refresh token is invalid or expired', 'REFRESH_TOKEN_INVALID');
+		this.name = 'InvalidRefreshTokenError';
+	}
+}
+
+/**
+ * Thrown when a refresh token that was already exchanged is presented again.
+ * The whole session is revoked, since the token may have been stolen.
+ * @param sessionId - The UUID of the revoked session.
+ */
+export class RefreshTokenReusedError extends DomainError {
+	constructor(sessionId: string) {
+		super(`Refresh token reuse detected, session ${sessionId} has been revoked`, 'REFRESH_TOKEN_REUSED');
+		this.name = 'RefreshTokenReusedError';
+	}
+}
+
+/**
+ * Thrown when an access token belongs to a session that has been revoked or no longer exists.
+ * @param sessionId - The UUID of the session.
+ */
+export class SessionRevokedError extends DomainError {
+	constructor(sessionId: string) {
+		super(`Session ${sessionId} has been revoked`, 'SESSION_REVOKED');
+		this.name = 'SessionRevokedError';
+	}
+}
+
+/**
+ * Thrown when a password reset or email verification token is unknown, expired,
+ * already used, or was issued for another purpose.
+ */
+export class InvalidAccountTokenError extends DomainError {
+	constructor() {
+		super('Token is invalid or expired', 'ACCOUNT_TOKEN_INVALID');
+		this.name = 'InvalidAccountTokenError';
+	}
+}
+
+/**
+ * Thrown when an action requires a verified email address and the user has not verified theirs.
+ * @param userId - The UUID of the user.
+ */
+export class EmailNotVerifiedError extends DomainError {
+	constructor(userId: string) {
+		super(`User ${userId} has not verified their email address`, 'EMAIL_NOT_VERIFIED');
+		this.name = 'EmailNotVerifiedError';
+	}
+}
+
+/**
+ * Thrown when the current password supplied to confirm a credential change is wrong.
+ */
+export class InvalidCurrentPasswordError extends DomainError {
+	constructor() {
+		super('Current password is incorrect', 'INVALID_CURRENT_PASSWORD');
+		this.name = 'InvalidCurrentPasswordError';
+	}
+}
+
+/**
+ * Thrown when an outbox message cannot be found by the given identifier.
+ * @param id - The UUID of the message.
+ */
+export class OutboxMessageNotFoundError extends DomainError {
+	constructor(id: string) {
+		super(`Outbox message not found: ${id}`, 'OUTBOX_MESSAGE_NOT_FOUND');
+		this.name = 'OutboxMessageNotFoundError';
+	}
+}
+
+/**
+ * Thrown when replaying an outbox message that is not dead (it is still queued or was sent).
+ * @param id - The UUID of the message.
+ * @param status - The current status of the message.
+ */
+export class OutboxMessageNotReplayableError extends DomainError {
+	constructor(id: string, status: string) {
+		super(`Outbox message ${id} is ${status}; only dead messages can be replayed`, 'OUTBOX_MESSAGE_NOT_REPLAYABLE');
+		this.name = 'OutboxMessageNotReplayableError';
+	}
+}
+
+/**
+ * Thrown when no email template is registered under the given identifier.
+ * @param template - The requested template id.
+ */
+export class EmailTemplateNotFoundError extends DomainError {
+	constructor(template: string) {
+		super(`Email template not found: ${template}`, 'EMAIL_TEMPLATE_NOT_FOUND');
+		this.name = 'EmailTemplateNotFoundError';
+	}
+}
+
+/**
+ * Thrown when a user who is neither the driver of a trip nor a passenger booked
+ * on it tries to read or post in its conversation.
+ * @param tripId - The UUID of the trip.
+ */
+export class NotTripParticipantError extends DomainError {
+	constructor(tripId: string) {
+		super(`Only the driver and the booked passengers of trip ${tripId} can take part in its conversation`, 'NOT_TRIP_PARTICIPANT');
+		this.name = 'NotTripParticipantError';
+	}
+}
+
+/**
+ * Thrown when a message cannot be found in the conversation of a trip.
+ * @param id - The UUID of the message.
+ */
+export class TripMessageNotFoundError extends DomainError {
+	constructor(id: string) {
+		super(`Trip message not found: ${id}`, 'TRIP_MESSAGE_NOT_FOUND');
+		this.name = 'TripMessageNotFoundError';
+	}
+}
+
+/**
+ * Thrown when a trip is reviewed before it was completed.
+ * @param tripId - The UUID of the trip.
+ */
+export class TripNotCompletedError extends DomainError {
+	constructor(tripId: string) {
+		super(`Trip ${tripId} is not completed`, 'TRIP_NOT_COMPLETED');
+		this.name = 'TripNotCompletedError';
+	}
+}
+
+/**
+ * Thrown when a review involves a user who did not travel on the trip as a
+ * passenger, i.e. holds no ACTIVE inscription on it.
+ * @param tripId - The UUID of the trip.
+ */
+export class NotTripPassengerError extends DomainError {
+	constructor(tripId: string) {
+		super(`Only passengers who travelled on trip ${tripId} can be part of its reviews`, 'NOT_TRIP_PASSENGER');
+		this.name = 'NotTripPassengerError';
+	}
+}
+
+/**
+ * Thrown when a user reviews the same person for the same trip twice.
+ * @param tripId - The UUID of the trip.
+ */
+export class AlreadyReviewedError extends DomainError {
+	constructor(tripId: string) {
+		super(`This review was already given for trip ${tripId}`, 'ALREADY_REVIEWED');
+		this.name = 'AlreadyReviewedError';
+	}
+}
+
+/**
+ * Thrown when a trip is asked to move to a status its current status cannot
+ * reach, e.g. cancelling a trip that has already departed.
+ * @param tripId - The UUID of the trip.
+ * @param from - The current status of the trip.
+ * @param to - The requested status.
+ */
+export class InvalidTripStatusTransitionError extends DomainError {
+	constructor(tripId: string, from: string, to: string) {
+		super(`Trip ${tripId} cannot move from ${from} to ${to}`, 'INVALID_TRIP_STATUS_TRANSITION');
+		this.name = 'InvalidTripStatusTransitionError';
+	}
+}
+
+/**
+ * Thrown when a seat is booked on a trip that no longer takes bookings: it
+ * has departed, is completed or was cancelled.
+ * @param tripId - The UUID of the trip.
+ */
+export class TripNotBookableError extends DomainError {
+	constructor(tripId: string) {
+		super(`Trip ${tripId} is no longer open to bookings`, 'TRIP_NOT_BOOKABLE');
+		this.name = 'TripNotBookableError';
+	}
+}
+
+/**
+ * Thrown when a trip that is no longer SCHEDULED is edited.
+ * @param tripId - The UUID of the trip.
+ */
+export class TripNotEditableError extends DomainError {
+	constructor(tripId: string) {
+		super(`Trip ${tripId} can no longer be edited`, 'TRIP_NOT_EDITABLE');
+		this.name = 'TripNotEditableError';
+	}
+}
+
+/**
+ * Thrown when a trip's seats are lowered below the seats its accepted bookings
+ * already hold on one of its legs.
+ * @param tripId - The UUID of the trip.
+ * @param booked - The most seats held on a leg of the trip.
+ */
+export class SeatsBelowBookingsError extends DomainError {
+	constructor(tripId: string, booked: number) {
+		super(`Trip ${tripId} already has ${booked} seats booked on a leg`, 'SEATS_BELOW_BOOKINGS');
+		this.name = 'SeatsBelowBookingsError';
+	}
+}
+
+/**
+ * Thrown when a trip series cannot be found by the given identifier.
+ * @param identifier - The UUID of the series.
+ */
+export class TripSeriesNotFoundError extends DomainError {
+	constructor(identifier: string) {
+		super(`Trip series not found: ${identifier}`, 'TRIP_SERIES_NOT_FOUND');
+		this.name = 'TripSeriesNotFoundError';
+	}
+}
+
+/**
+ * Thrown when a cancelled trip series is edited or cancelled again.
+ * @param seriesId - The UUID of the series.
+ */
+export class TripSeriesNotActiveError extends DomainError {
+	constructor(seriesId: string) {
+		super(`Trip series ${seriesId} is no longer active`, 'TRIP_SERIES_NOT_ACTIVE');
+		this.name = 'TripSeriesNotActiveError';
+	}
+}
+
+/**
+ * Thrown when the dates of a trip series do not hold together, e.g. an end
+ * date set before its start date.
+ * @param seriesId - The UUID of the series.
+ */
+export class InvalidTripSeriesScheduleError extends DomainError {
+	constructor(seriesId: string) {
+		super(`Trip series ${seriesId} cannot end before it starts`, 'INVALID_TRIP_SERIES_SCHEDULE');
+		this.name = 'InvalidTripSeriesScheduleError';
+	}
+}
@@ -26,15 +26,37 @@ describe('ErrorCodes', () => {
 		expect(ErrorCodes.USER_ALREADY_EXISTS.httpStatus).toBe(409);
 		expect(ErrorCodes.INVALID_CREDENTIALS.httpStatus).toBe(401);
 		expect(ErrorCodes.USER_NOT_FOUND.httpStatus).toBe(404);
+		expect(ErrorCodes.ACCOUNT_TOKEN_INVALID.httpStatus).toBe(400);
+		expect(ErrorCodes.EMAIL_NOT_VERIFIED.httpStatus).toBe(403);
+		expect(ErrorCodes.INVALID_CURRENT_PASSWORD.httpStatus).toBe(403);
+		expect(ErrorCodes.OUTBOX_MESSAGE_NOT_FOUND.httpStatus).toBe(404);
+		expect(ErrorCodes.OUTBOX_MESSAGE_NOT_REPLAYABLE.httpStatus).toBe(409);
+		expect(ErrorCodes.EMAIL_TEMPLATE_NOT_FOUND.httpStatus).toBe(404);
+		expect(ErrorCodes.NOT_TRIP_PARTICIPANT.httpStatus).toBe(403);
+		expect(ErrorCodes.TRIP_MESSAGE_NOT_FOUND.httpStatus).toBe(404);
+		expect(ErrorCodes.TRIP_NOT_COMPLETED.httpStatus).toBe(409);
+		expect(ErrorCodes.NOT_TRIP_PASSENGER.httpStatus).toBe(403);
+		expect(ErrorCodes.ALREADY_REVIEWED.httpStatus).toBe(409);
+		expect(ErrorCodes.INVALID_TRIP_STATUS_TRANSITION.httpStatus).toBe(409);
+		expect(ErrorCodes.TRIP_NOT_BOOKABLE.httpStatus).toBe(409);
+		expect(ErrorCodes.TRIP_NOT_EDITABLE.httpStatus).toBe(409);
+		expect(ErrorCodes.SEATS_BELOW_BOOKINGS.httpStatus).toBe(409);
+		expect(ErrorCodes.TRIP_SERIES_NOT_FOUND.httpStatus).toBe(404);
+		expect(ErrorCodes.TRIP_SERIES_NOT_ACTIVE.httpStatus).toBe(409);
+		expect(ErrorCodes.INVALID_TRIP_SERIES_SCHEDULE.httpStatus).toBe(400);
 	});
 
-	/** Validates HTTP status codes for authentication/authorization errors (401, 403, 400). */
+	/** Validates HTTP status codes for authentication/authorization errors (401, 403, 400, 429). */
 	it('should have correct HTTP statuses for auth errors', () => {
 		expect(ErrorCodes.UNAUTHORIZED.httpStatus).toBe(401);
 		expect(ErrorCodes.FORBIDDEN.httpStatus).toBe(403);
 		expect(ErrorCodes.TOKEN_EXPIRED.httpStatus).toBe(401);
 		expect(ErrorCodes.TOKEN_INVALID.httpStatus).toBe(401);
 		expect(ErrorCodes.TOKEN_MALFORMED.httpStatus).toBe(400);
+		expect(ErrorCodes.REFRESH_TOKEN_INVALID.httpStatus).toBe(401);
+		expect(ErrorCodes.REFRESH_TOKEN_REUSED.httpStatus).toBe(401);
+		expect(ErrorCodes.SESSION_REVOKED.httpStatus).toBe(401);
+		expect(ErrorCodes.RATE_LIMITED.httpStatus).toBe(429);
 	});
 
 	/** Validates HTTP status codes for infrastructure errors (500 Internal, 502 Bad Gateway). */
@@ -90,6 +90,26 @@ export const ErrorCodes = {
 		httpStatus: 400,
 		category: 'domain',
 	},
+	INVALID_TRIP_SEGMENT: {
+		code: 'INVALID_TRIP_SEGMENT',
+		httpStatus: 400,
+		category: 'domain',
+	},
+	INSCRIPTION_NOT_PENDING: {
+		code: 'INSCRIPTION_NOT_PENDING',
+		httpStatus: 409,
+		category: 'domain',
+	},
+	INSCRIPTION_NOT_CANCELLABLE: {
+		code: 'INSCRIPTION_NOT_CANCELLABLE',
+		httpStatus: 409,
+		category: 'domain',
+	},
+	CANCELLATION_WINDOW_CLOSED: {
+		code: 'CANCELLATION_WINDOW_CLOSED',
+		httpStatus: 409,
+		category: 'domain',
+	},
 	COLOR_NOT_FOUND: {
 		code: 'COLOR_NOT_FOUND',
 		httpStatus: 404,
@@ -100,6 +120,96 @@ export const ErrorCodes = {
 		httpStatus: 409,
 		category: 'domain',
 	},
+	ACCOUNT_TOKEN_INVALID: {
+		code: 'ACCOUNT_TOKEN_INVALID',
+		httpStatus: 400,
+		category: 'domain',
+	},
+	EMAIL_NOT_VERIFIED: {
+		code: 'EMAIL_NOT_VERIFIED',
+		httpStatus: 403,
+		category: 'domain',
+	},
+	INVALID_CURRENT_PASSWORD: {
+		code: 'INVALID_CURRENT_PASSWORD',
+		httpStatus: 403,
+		category: 'domain',
+	},
+	OUTBOX_MESSAGE_NOT_FOUND: {
+		code: 'OUTBOX_MESSAGE_NOT_FOUND',
+		httpStatus: 404,
+		category: 'domain',
+	},
+	OUTBOX_MESSAGE_NOT_REPLAYABLE: {
+		code: 'OUTBOX_MESSAGE_NOT_REPLAYABLE',
+		httpStatus: 409,
+		category: 'domain',
+	},
+	EMAIL_TEMPLATE_NOT_FOUND: {
+		code: 'EMAIL_TEMPLATE_NOT_FOUND',
+		httpStatus: 404,
+		category: 'domain',
+	},
+	NOT_TRIP_PARTICIPANT: {
+		code: 'NOT_TRIP_PARTICIPANT',
+		httpStatus: 403,
+		category: 'domain',
+	},
+	TRIP_MESSAGE_NOT_FOUND: {
+		code: 'TRIP_MESSAGE_NOT_FOUND',
+		httpStatus: 404,
+		category: 'domain',
+	},
+	TRIP_NOT_COMPLETED: {
+		code: 'TRIP_NOT_COMPLETED',
+		httpStatus: 409,
+		category: 'domain',
+	},
+	NOT_TRIP_PASSENGER: {
+		code: 'NOT_TRIP_PASSENGER',
+		httpStatus: 403,
+		category: 'domain',
+	},
+	ALREADY_REVIEWED: {
+		code: 'ALREADY_REVIEWED',
+		httpStatus: 409,
+		category: 'domain',
+	},
+	INVALID_TRIP_STATUS_TRANSITION: {
+		code: 'INVALID_TRIP_STATUS_TRANSITION',
+		httpStatus: 409,
+		category: 'domain',
+	},
+	TRIP_NOT_BOOKABLE: {
+		code: 'TRIP_NOT_BOOKABLE',
+		httpStatus: 409,
+		category: 'domain',
+	},
+	TRIP_NOT_EDITABLE: {
+		code: 'TRIP_NOT_EDITABLE',
+		httpStatus: 409,
+		category: 'domain',
+	},
+	SEATS_BELOW_BOOKINGS: {
+		code: 'SEATS_BELOW_BOOKINGS',
+		httpStatus: 409,
+		category: 'domain',
+	},
+	TRIP_SERIES_NOT_FOUND: {
+		code: 'TRIP_SERIES_NOT_FOUND',
+		httpStatus: 404,
+		category: 'domain',
+	},
+	TRIP_SERIES_NOT_ACTIVE: {
+		code: 'TRIP_SERIES_NOT_ACTIVE',
+		httpStatus: 409,
+		category: 'domain',
+	},
+	INVALID_TRIP_SERIES_SCHEDULE: {
+		code: 'INVALID_TRIP_SERIES_SCHEDULE',
+		httpStatus: 400,
+		category: 'domain',
+	},
 	RELATION_CONSTRAINT: {
 		code: 'RELATION_CONSTRAINT',
 		httpStatus: 409,
@@ -169,6 +279,26 @@ export const ErrorCodes = {
 		httpStatus: 400,
 		category: 'auth',
 	},
+	REFRESH_TOKEN_INVALID: {
+		code: 'REFRESH_TOKEN_INVALID',
+		httpStatus: 401,
+		category: 'auth',
+	},
+	REFRESH_TOKEN_REUSED: {
+		code: 'REFRESH_TOKEN_REUSED',
+		httpStatus: 401,
+		category: 'auth',
+	},
+	SESSION_REVOKED: {
+		code: 'SESSION_REVOKED',
+		httpStatus: 401,
+		category: 'auth',
+	},
+	RATE_LIMITED: {
+		code: 'RATE_LIMITED',
+		httpStatus: 429,
+		category: 'auth',
+	},
 	TOKEN_SIGNING_FAILED: {
 		code: 'TOKEN_SIGNING_FAILED',
 		httpStatus: 500,
@@ -14,7 +14,9 @@ export { ContextError, ContextNotFoundError } from './context.errors.js';
 // Domain errors - Business logic violations
 export {
 	AlreadyInscribedError,
+	AlreadyReviewedError,
 	BrandNotFoundError,
+	CancellationWindowClosedError,
 	CarAlreadyExistsError,
 	CarNotFoundError,
 	CityNotFoundError,
@@ -23,10 +25,33 @@ export {
 	DomainError,
 	DriverAlreadyExistsError,
 	DriverNotFoundError,
+	EmailNotVerifiedError,
+	EmailTemplateNotFoundError,
+	InscriptionNotCancellableError,
 	InscriptionNotFoundError,
+	InscriptionNotPendingError,
+	InvalidAccountTokenError,
 	InvalidCredentialsError,
+	InvalidCurrentPasswordError,
+	InvalidRefreshTokenError,
+	InvalidTripSegmentError,
+	InvalidTripSeriesScheduleError,
+	InvalidTripStatusTransitionError,
 	NoSeatsAvailableError,
+	NotTripParticipantError,
+	NotTripPassengerError,
+	OutboxMessageNotFoundError,
+	OutboxMessageNotReplayableError,
+	RefreshTokenReusedError,
+	SeatsBelowBookingsError,
+	SessionRevokedError,
+	TripMessageNotFoundError,
+	TripNotBookableError,
+	TripNotCompletedError,
+	TripNotEditableError,
 	TripNotFoundError,
+	TripSeriesNotActiveError,
+	TripSeriesNotFoundError,
 	UserAlreadyExistsError,
 	UserNotFoundError,
 } from './domain.errors.js';
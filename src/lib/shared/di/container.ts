@@ -4,9 +4,21 @@
  * This is the composition root of the application where all abstract interfaces
  * are bound to their concrete implementations:
  * - Repositories → CachedXRepository decorators wrapping PrismaXRepository (via two-token pattern)
- * - Services → Argon2 (password), Hono (JWT), Resend (email), Upstash (cache)
+ * - Services → Argon2 (password), Hono (JWT), the configured email transport (Resend, SMTP, file
+ *   sink or in-memory), template registry (email rendering), the configured cache backend (Upstash,
+ *   in-memory or both tiered), in-memory cache metrics, in-process event bus,
+ *   the configured realtime broker (in-memory or Upstash)
+ * - Domain event subscribers → cross-domain cache invalidation, driver role upgrade,
+ *   realtime trip updates
  * - PrismaClient → Configured instance with Neon serverless adapter
- * - CacheConfig → Per-domain TTL configuration from environment
+ * - CacheConfig → Cache backend, bounds and per-domain TTL configuration from environment
+ * - BookingConfig → Booking policy (cancellation cut-off) from environment
+ * - AuthConfig → Session and account policy (token lifetimes, email verification) from environment
+ * - OutboxConfig → Outbox delivery policy (retries, backoff, polling) from environment
+ * - EmailConfig → Email transport, sender address and transport settings from environment
+ * - NotificationConfig → Trip notification policy (reminder delay, polling) from environment
+ * - TripConfig → Trip lifecycle policy (status job polling, series materialization, time zone) from environment
+ * - RealtimeConfig → Event stream transport, heartbeat and backlog from environment
  *
  * This module also initializes the Prisma client with the Neon PostgreSQL adapter
  * and requires the DATABASE_URL environment variable to be set.
@@ -30,6 +42,12 @@ import { PrismaTripRepository } from '../../../infrastructure/database/repositor
 import { PrismaColorRepository } from '../../../infrastructure/database/repositories/prisma-color.repository.js';
 import { PrismaAuthRepository } from '../../../infrastructure/database/repositories/prisma-auth.repository.js';
 import { PrismaUserRepository } from '../../../infrastructure/database/repositories/prisma-user.repository.js';
+import { PrismaSessionRepository } from '../../../infrastructure/database/repositories/prisma-session.repository.js';
+import { PrismaAccountTokenRepository } from '../../../infrastructure/database/repositories/prisma-account-token.repository.js';
+import { PrismaOutboxRepository } from '../../../infrastructure/database/repositories/prisma-outbox.repository.js';
+import { PrismaTripMessageRepository } from '../../../infrastructure/database/repositories/prisma-trip-message.repository.js';
+import { PrismaReviewRepository } from '../../../infrastructure/database/repositories/prisma-review.repository.js';
+import { PrismaTripSeriesRepository } from '../../../infrastructure/database/repositories/prisma-trip-series.repository.js';
 import { CachedAuthRepository } from '../../../infrastructure/cache/repositories/cached-auth.repository.js';
 import { CachedUserRepository } from '../../../infrastructure/cache/repositories/cached-user.repository.js';
 import { CachedBrandRepository } from '../../../infrastructure/cache/repositories/cached-brand.repository.js';
@@ -40,13 +58,61 @@ import { CachedCarRepository } from '../../../infrastructure/cache/repositories/
 import { CachedDriverRepository } from '../../../infrastructure/cache/repositories/cached-driver.repository.js';
 import { CachedTripRepository } from '../../../infrastructure/cache/repositories/cached-trip.repository.js';
 import { CachedInscriptionRepository } from '../../../infrastructure/cache/repositories/cached-inscription.repository.js';
+import { CachedSessionRepository } from '../../../infrastructure/cache/repositories/cached-session.repository.js';
 import { UpstashCacheService } from '../../../infrastructure/cache/upstash-cache.service.js';
+import { InMemoryCacheService } from '../../../infrastructure/cache/in-memory-cache.service.js';
+import { TieredCacheService } from '../../../infrastructure/cache/tiered-cache.service.js';
+import { InMemoryCacheMetrics } from '../../../infrastructure/cache/in-memory-cache.metrics.js';
 import { createCacheConfig } from '../../../infrastructure/cache/cache.config.js';
+import type { CacheBackend } from '../../../infrastructure/cache/cache.config.js';
+import type { CacheService } from '../../../domain/services/cache.service.js';
+import { CacheInvalidationSubscriber } from '../../../infrastructure/cache/cache-invalidation.subscriber.js';
+import { createBookingConfig } from '../../../application/config/booking.config.js';
+import { createAuthConfig } from '../../../application/config/auth.config.js';
+import { createOutboxConfig } from '../../../application/config/outbox.config.js';
+import { createNotificationConfig } from '../../../application/config/notification.config.js';
+import { createTripConfig } from '../../../application/config/trip.config.js';
+import { DriverRoleSubscriber } from '../../../application/subscribers/driver-role.subscriber.js';
+import { TripRealtimeSubscriber } from '../../../application/subscribers/trip-realtime.subscriber.js';
 import { ArgonPasswordService } from '../../../infrastructure/services/argon-password.service.js';
 import { HonoJwtService } from '../../../infrastructure/services/hono-jwt.service.js';
 import { ResendEmailService } from '../../../infrastructure/services/resend-email.service.js';
+import { SmtpEmailService } from '../../../infrastructure/services/smtp-email.service.js';
+import { FileEmailService } from '../../../infrastructure/services/file-email.service.js';
+import { InMemoryEmailService } from '../../../infrastructure/services/in-memory-email.service.js';
+import { createEmailConfig } from '../../../infrastructure/email/email.config.js';
+import type { EmailTransport } from '../../../infrastructure/email/email.config.js';
+import type { EmailService } from '../../../domain/services/email.service.js';
+import { TemplateEmailRenderer } from '../../../infrastructure/email/template-email.renderer.js';
+import { InProcessEventBus } from '../../../infrastructure/events/in-process-event-bus.js';
+import { createRealtimeConfig } from '../../../infrastructure/realtime/realtime.config.js';
+import type { RealtimeTransport } from '../../../infrastructure/realtime/realtime.config.js';
+import type { RealtimeBroker } from '../../../domain/services/realtime-broker.service.js';
+import { InMemoryRealtimeBroker } from '../../../infrastructure/realtime/in-memory-realtime.broker.js';
+import { UpstashRealtimeBroker } from '../../../infrastructure/realtime/upstash-realtime.broker.js';
 import { logger } from '../../logging/logger.js';
 
+/** EmailService implementation of each email transport. */
+const EMAIL_SERVICES = {
+	resend: ResendEmailService,
+	smtp: SmtpEmailService,
+	file: FileEmailService,
+	memory: InMemoryEmailService,
+} satisfies Record<EmailTransport, unknown>;
+
+/** CacheService implementation of each cache backend. */
+const CACHE_SERVICES = {
+	upstash: UpstashCacheService,
+	memory: InMemoryCacheService,
+	tiered: TieredCacheService,
+} satisfies Record<CacheBackend, unknown>;
+
+/** RealtimeBroker implementation of each realtime transport. */
+const REALTIME_BROKERS = {
+	memory: InMemoryRealtimeBroker,
+	redis: UpstashRealtimeBroker,
+} satisfies Record<RealtimeTransport, unknown>;
+
 // Validate required environment variable
 const databaseUrl = process.env.DATABASE_URL;
 if (!databaseUrl) {
@@ -64,9 +130,34 @@ container.registerInstance(TOKENS.PrismaClient, prismaClient);
 // Register the Logger singleton instance
 container.registerInstance(TOKENS.Logger, logger);
 
-// Register cache configuration and service
-container.registerInstance(TOKENS.CacheConfig, createCacheConfig());
-container.registerSingleton(TOKENS.CacheService, UpstashCacheService);
+// Register cache configuration; it decides which backend implements CacheService
+const cacheConfig = createCacheConfig();
+container.registerInstance(TOKENS.CacheConfig, cacheConfig);
+container.registerSingleton<CacheService>(TOKENS.CacheService, CACHE_SERVICES[cacheConfig.backend]);
+container.registerSingleton(TOKENS.CacheMetrics, InMemoryCacheMetrics);
+
+// Register booking policy configuration
+container.registerInstance(TOKENS.BookingConfig, createBookingConfig());
+
+// Register session and account policy configuration
+container.registerInstance(TOKENS.AuthConfig, createAuthConfig());
+
+// Register outbox delivery policy configuration
+container.registerInstance(TOKENS.OutboxConfig, createOutboxConfig());
+
+// Register trip notification policy configuration
+container.registerInstance(TOKENS.NotificationConfig, createNotificationConfig());
+
+// Register trip lifecycle policy configuration
+container.registerInstance(TOKENS.TripConfig, createTripConfig());
+
+// Register email configuration; it decides which transport implements EmailService
+const emailConfig = createEmailConfig();
+container.registerInstance(TOKENS.EmailConfig, emailConfig);
+
+// Register event stream configuration; it decides which transport implements RealtimeBroker
+const realtimeConfig = createRealtimeConfig();
+container.registerInstance(TOKENS.RealtimeConfig, realtimeConfig);
 
 // Register Prisma repository implementations (PRISMA_TOKENS → raw DB access)
 container.register(PRISMA_TOKENS.AuthRepository, { useClass: PrismaAuthRepository });
@@ -79,6 +170,7 @@ container.register(PRISMA_TOKENS.DriverRepository, { useClass: PrismaDriverRepos
 container.register(PRISMA_TOKENS.TripRepository, { useClass: PrismaTripRepository });
 container.register(PRISMA_TOKENS.InscriptionRepository, { useClass: PrismaInscriptionRepository });
 container.register(PRISMA_TOKENS.ColorRepository, { useClass: PrismaColorRepository });
+container.register(PRISMA_TOKENS.SessionRepository, { useClass: PrismaSessionRepository });
 
 // Register cached repository decorators (TOKENS → cache-aside wrappers)
 container.register(TOKENS.AuthRepository, { useClass: CachedAuthRepository });
@@ -91,10 +183,26 @@ container.register(TOKENS.DriverRepository, { useClass: CachedDriverRepository }
 container.register(TOKENS.TripRepository, { useClass: CachedTripRepository });
 container.register(TOKENS.InscriptionRepository, { useClass: CachedInscriptionRepository });
 container.register(TOKENS.ColorRepository, { useClass: CachedColorRepository });
+container.register(TOKENS.SessionRepository, { useClass: CachedSessionRepository });
+
+// Register uncached repositories (TOKENS → raw DB access)
+container.register(TOKENS.AccountTokenRepository, { useClass: PrismaAccountTokenRepository });
+container.register(TOKENS.OutboxRepository, { useClass: PrismaOutboxRepository });
+container.register(TOKENS.TripMessageRepository, { useClass: PrismaTripMessageRepository });
+container.register(TOKENS.ReviewRepository, { useClass: PrismaReviewRepository });
+container.register(TOKENS.TripSeriesRepository, { useClass: PrismaTripSeriesRepository });
 
 // Register service implementations (Token → concrete service class)
 container.register(TOKENS.PasswordService, { useClass: ArgonPasswordService });
-container.register(TOKENS.EmailService, { useClass: ResendEmailService });
+container.registerSingleton<EmailService>(TOKENS.EmailService, EMAIL_SERVICES[emailConfig.transport]);
+container.register(TOKENS.EmailRenderer, { useClass: TemplateEmailRenderer });
 container.register(TOKENS.JwtService, { useClass: HonoJwtService });
+container.registerSingleton(TOKENS.EventBus, InProcessEventBus);
+container.registerSingleton<RealtimeBroker>(TOKENS.RealtimeBroker, REALTIME_BROKERS[realtimeConfig.transport]);
+
+// Register domain event subscribers; the event bus delivers every event to each of them, in this order
+container.register(TOKENS.DomainEventSubscriber, { useClass: CacheInvalidationSubscriber });
+container.register(TOKENS.DomainEventSubscriber, { useClass: DriverRoleSubscriber });
+container.register(TOKENS.DomainEventSubscriber, { useClass: TripRealtimeSubscriber });
 
 export { container } from 'tsyringe';
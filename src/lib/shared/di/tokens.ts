@@ -29,6 +29,7 @@ export const PRISMA_TOKENS = {
 	DriverRepository: Symbol('PrismaDriverRepository'),
 	TripRepository: Symbol('PrismaTripRepository'),
 	InscriptionRepository: Symbol('PrismaInscriptionRepository'),
+	SessionRepository: Symbol('PrismaSessionRepository'),
 } as const;
 
 /**
@@ -37,17 +38,44 @@ export const PRISMA_TOKENS = {
  * **Repositories** — resolve to CachedXRepository decorators (wrapping PrismaXRepository):
  * - AuthRepository, UserRepository, BrandRepository, ColorRepository,
  *   CityRepository, ModelRepository, CarRepository, DriverRepository,
- *   TripRepository, InscriptionRepository
+ *   TripRepository, InscriptionRepository, SessionRepository
+ * - AccountTokenRepository resolves directly to PrismaAccountTokenRepository
+ *   (tokens are looked up once per email link, so there is nothing to cache)
+ * - OutboxRepository resolves directly to PrismaOutboxRepository
+ *   (the delivery queue changes on every poll, so there is nothing to cache)
+ * - TripMessageRepository resolves directly to PrismaTripMessageRepository
+ *   (conversations and read markers change with every message, so there is nothing to cache)
+ * - ReviewRepository resolves directly to PrismaReviewRepository
+ *   (ratings are aggregated on every read so they are never stale)
+ * - TripSeriesRepository resolves directly to PrismaTripSeriesRepository
+ *   (series are only read by their driver and by the materialization job; their
+ *   occurrences are trips, cached through TripRepository)
  *
  * **Services** — resolve to infrastructure service implementations:
- * - EmailService → ResendEmailService
+ * - EmailService → ResendEmailService, SmtpEmailService, FileEmailService or
+ *   InMemoryEmailService, depending on the configured email transport
+ * - EmailRenderer → TemplateEmailRenderer
  * - PasswordService → ArgonPasswordService
  * - JwtService → HonoJwtService
- * - CacheService → UpstashCacheService
+ * - CacheService → UpstashCacheService, InMemoryCacheService or TieredCacheService,
+ *   depending on the configured cache backend
+ * - CacheMetrics → InMemoryCacheMetrics (per-domain hit/miss/eviction counters)
+ * - EventBus → InProcessEventBus
+ * - RealtimeBroker → InMemoryRealtimeBroker or UpstashRealtimeBroker, depending on
+ *   the configured realtime transport
+ * - DomainEventSubscriber → every subscriber reacting to domain events
+ *   (several classes are registered under this token)
  *
  * **Infrastructure** — resolve to client instances:
  * - PrismaClient → Configured PrismaClient with Neon adapter
- * - CacheConfig → Cache configuration with per-domain TTLs
+ * - CacheConfig → Cache configuration with backend, bounds and per-domain TTLs
+ * - BookingConfig → Booking policy (cancellation cut-off)
+ * - AuthConfig → Session and account policy (token lifetimes, email verification)
+ * - OutboxConfig → Outbox delivery policy (retries, backoff, polling)
+ * - EmailConfig → Email transport, sender address and transport settings
+ * - NotificationConfig → Trip notification policy (reminder delay, polling)
+ * - TripConfig → Trip lifecycle policy (status job polling, series materialization, time zone)
+ * - RealtimeConfig → Event stream transport, heartbeat and backlog
  */
 export const TOKENS = {
 	AuthRepository: Symbol('AuthRepository'),
@@ -60,12 +88,30 @@ export const TOKENS = {
 	DriverRepository: Symbol('DriverRepository'),
 	TripRepository: Symbol('TripRepository'),
 	InscriptionRepository: Symbol('InscriptionRepository'),
+	SessionRepository: Symbol('SessionRepository'),
+	AccountTokenRepository: Symbol('AccountTokenRepository'),
+	OutboxRepository: Symbol('OutboxRepository'),
+	TripMessageRepository: Symbol('TripMessageRepository'),
+	ReviewRepository: Symbol('ReviewRepository'),
+	TripSeriesRepository: Symbol('TripSeriesRepository'),
 	EmailService: Symbol('EmailService'),
+	EmailRenderer: Symbol('EmailRenderer'),
 	PasswordService: Symbol('PasswordService'),
 	JwtService: Symbol('JwtService'),
 	CacheService: Symbol('CacheService'),
+	CacheMetrics: Symbol('CacheMetrics'),
+	EventBus: Symbol('EventBus'),
+	DomainEventSubscriber: Symbol('DomainEventSubscriber'),
+	RealtimeBroker: Symbol('RealtimeBroker'),
 	PrismaClient: Symbol('PrismaClient'),
 	CacheConfig: Symbol('CacheConfig'),
+	BookingConfig: Symbol('BookingConfig'),
+	AuthConfig: Symbol('AuthConfig'),
+	OutboxConfig: Symbol('OutboxConfig'),
+	EmailConfig: Symbol('EmailConfig'),
+	NotificationConfig: Symbol('NotificationConfig'),
+	TripConfig: Symbol('TripConfig'),
+	RealtimeConfig: Symbol('RealtimeConfig'),
 	Logger: Symbol('Logger'),
 } as const;
 
@@ -0,0 +1,17 @@
+/**
+ * @module env.util
+ * Helpers for reading typed values from environment variables with fallbacks.
+ */
+
+/**
+ * Reads an integer from an environment variable.
+ * @param name - The environment variable name.
+ * @param fallback - Value returned when the variable is unset or not a valid integer.
+ * @returns The parsed integer, or the fallback.
+ */
+export function envInt(name: string, fallback: number): number {
+	const val = process.env[name];
+	if (!val) return fallback;
+	const parsed = Number.parseInt(val, 10);
+	return Number.isNaN(parsed) ? fallback : parsed;
+}
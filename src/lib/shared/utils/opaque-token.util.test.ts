@@ -0,0 +1,31 @@
+/**
+ * @module OpaqueTokenUtilTests
+ *
+ * Test suite for opaque token helpers: generateOpaqueToken() for random
+ * URL-safe tokens and hashOpaqueToken() for the stored SHA-256 digest.
+ */
+import { describe, it, expect } from 'vitest';
+import { generateOpaqueToken, hashOpaqueToken } from './opaque-token.util.js';
+
+describe('generateOpaqueToken()', () => {
+	/** Validates that 32 random bytes encode to a 43-character base64url string. */
+	it('should generate a URL-safe token', () => {
+		const token = generateOpaqueToken();
+		expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+	});
+
+	/** Validates that two calls never return the same token. */
+	it('should generate a different token on each call', () => {
+		expect(generateOpaqueToken()).not.toBe(generateOpaqueToken());
+	});
+});
+
+describe('hashOpaqueToken()', () => {
+	/** Validates that hashing is deterministic and yields a hex SHA-256 digest. */
+	it('should return a stable hex digest', () => {
+		const hash = hashOpaqueToken('token');
+		expect(hash).toMatch(/^[0-9a-f]{64}$/);
+		expect(hashOpaqueToken('token')).toBe(hash);
+		expect(hashOpaqueToken('other')).not.toBe(hash);
+	});
+});
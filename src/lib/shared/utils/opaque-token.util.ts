@@ -0,0 +1,26 @@
+/**
+ * @module opaque-token.util
+ * Helpers for random, single-purpose tokens handed to clients (e.g. refresh
+ * tokens). Only a hash of such a token is persisted, so a database leak does
+ * not expose usable tokens.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+
+/**
+ * Generates a random URL-safe token.
+ * @param bytes - Number of random bytes (defaults to 32, i.e. 256 bits).
+ * @returns The token, base64url-encoded.
+ */
+export function generateOpaqueToken(bytes = 32): string {
+	return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hashes a token for storage and lookup.
+ * @param token - The token as given to the client.
+ * @returns The hex-encoded SHA-256 hash of the token.
+ */
+export function hashOpaqueToken(token: string): string {
+	return createHash('sha256').update(token).digest('hex');
+}
@@ -1,17 +1,29 @@
 /**
- * Unit tests for the AuthController (register and login handlers).
+ * Unit tests for the AuthController (register, login, refresh, logout,
+ * forgot-password, reset-password and verify-email handlers).
  * Uses mock Hono contexts and mocked use cases resolved from tsyringe.
  * Verifies correct HTTP status codes, response shapes, Zod validation,
- * and proper delegation to RegisterUseCase and LoginUseCase.
+ * and proper delegation to the authentication use cases.
  */
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { Context } from 'hono';
 import { container } from 'tsyringe';
-import { register, login } from './auth.controller.js';
+import { register, login, refresh, logout, forgotPassword, resetPassword, verifyEmail } from './auth.controller.js';
 import { RegisterUseCase } from '../../application/use-cases/auth/register.use-case.js';
 import { LoginUseCase } from '../../application/use-cases/auth/login.use-case.js';
+import { RefreshTokenUseCase } from '../../application/use-cases/auth/refresh-token.use-case.js';
+import { LogoutUseCase } from '../../application/use-cases/auth/logout.use-case.js';
+import { ForgotPasswordUseCase } from '../../application/use-cases/auth/forgot-password.use-case.js';
+import { ResetPasswordUseCase } from '../../application/use-cases/auth/reset-password.use-case.js';
+import { VerifyEmailUseCase } from '../../application/use-cases/auth/verify-email.use-case.js';
 import { ok, err } from '../../lib/shared/types/result.js';
-import { InvalidCredentialsError, UserAlreadyExistsError } from '../../lib/errors/domain.errors.js';
+import {
+	InvalidAccountTokenError,
+	InvalidCredentialsError,
+	RefreshTokenReusedError,
+	UserAlreadyExistsError,
+	UserNotFoundError,
+} from '../../lib/errors/domain.errors.js';
 
 function createMockContext(jsonBody: unknown) {
 	const jsonMock = vi.fn((body, status) => ({ body, status }));
@@ -20,6 +32,7 @@ function createMockContext(jsonBody: unknown) {
 			json: vi.fn().mockResolvedValue(jsonBody),
 		},
 		json: jsonMock,
+		body: vi.fn((body, status) => ({ body, status })),
 		_getJsonCall: () => jsonMock.mock.calls[0],
 	} as unknown as Context & { _getJsonCall: () => [unknown, number] };
 }
@@ -75,9 +88,21 @@ describe('Auth Controller', () => {
 				email: 'test@example.com',
 				password: 'Password123',
 				confirmPassword: 'Password123',
+				locale: 'fr',
 			});
 		});
 
+		it('should pass the chosen locale to RegisterUseCase', async () => {
+			mockRegisterUseCase.execute.mockResolvedValue(
+				ok({ userId: 'user-123', token: 'jwt-token' }),
+			);
+
+			const ctx = createMockContext({ ...validRegisterInput, locale: 'en' });
+			await register(ctx);
+
+			expect(mockRegisterUseCase.execute).toHaveBeenCalledWith(expect.objectContaining({ locale: 'en' }));
+		});
+
 		it('should return error response when use case fails', async () => {
 			const error = new UserAlreadyExistsError('test@example.com');
 			mockRegisterUseCase.execute.mockResolvedValue(err(error));
@@ -167,4 +192,188 @@ describe('Auth Controller', () => {
 			await expect(login(ctx)).rejects.toThrow();
 		});
 	});
+
+	// Refresh endpoint: validates the refresh token, delegates to RefreshTokenUseCase
+	describe('refresh()', () => {
+		let mockRefreshUseCase: { execute: ReturnType<typeof vi.fn> };
+
+		beforeEach(() => {
+			container.clearInstances();
+			mockRefreshUseCase = { execute: vi.fn() };
+			container.register(RefreshTokenUseCase, { useValue: mockRefreshUseCase as unknown as RefreshTokenUseCase });
+		});
+
+		it('should return 200 with the new tokens on success', async () => {
+			const tokens = { userId: 'user-123', token: 'jwt-token', refreshToken: 'refresh-2' };
+			mockRefreshUseCase.execute.mockResolvedValue(ok(tokens));
+
+			const ctx = createMockContext({ refreshToken: 'refresh-1' });
+			await refresh(ctx);
+
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: tokens });
+			expect(mockRefreshUseCase.execute).toHaveBeenCalledWith({ refreshToken: 'refresh-1' });
+		});
+
+		it('should return 401 when the refresh token was reused', async () => {
+			mockRefreshUseCase.execute.mockResolvedValue(err(new RefreshTokenReusedError('session-1')));
+
+			const ctx = createMockContext({ refreshToken: 'refresh-1' });
+			await refresh(ctx);
+
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(401);
+			expect((response as { error: { code: string } }).error.code).toBe('REFRESH_TOKEN_REUSED');
+		});
+
+		it('should throw ZodError when the refresh token is missing', async () => {
+			const ctx = createMockContext({});
+
+			await expect(refresh(ctx)).rejects.toThrow();
+		});
+	});
+
+	// Logout endpoint: revokes the current or all sessions via LogoutUseCase
+	describe('logout()', () => {
+		let mockLogoutUseCase: { execute: ReturnType<typeof vi.fn> };
+
+		function createLogoutContext(jsonBody: unknown) {
+			const vars: Record<string, unknown> = { userId: 'user-123', sessionId: 'session-1' };
+			const jsonMock = vi.fn((body, status) => ({ body, status }));
+			return {
+				req: {
+					json: jsonBody === undefined
+						? vi.fn().mockRejectedValue(new SyntaxError('Unexpected end of JSON input'))
+						: vi.fn().mockResolvedValue(jsonBody),
+				},
+				get: vi.fn((key: string) => vars[key]),
+				json: jsonMock,
+				body: vi.fn((body, status) => ({ body, status })),
+				_getJsonCall: () => jsonMock.mock.calls[0],
+			} as unknown as Context & { _getJsonCall: () => [unknown, number] };
+		}
+
+		beforeEach(() => {
+			container.clearInstances();
+			mockLogoutUseCase = { execute: vi.fn() };
+			container.register(LogoutUseCase, { useValue: mockLogoutUseCase as unknown as LogoutUseCase });
+		});
+
+		it('should revoke the current session and return 204 when the body is empty', async () => {
+			mockLogoutUseCase.execute.mockResolvedValue(ok(undefined));
+
+			const ctx = createLogoutContext(undefined);
+			await logout(ctx);
+
+			expect(mockLogoutUseCase.execute).toHaveBeenCalledWith({ all: false, userId: 'user-123', sessionId: 'session-1' });
+			expect(ctx.body).toHaveBeenCalledWith(null, 204);
+		});
+
+		it('should pass the all flag to the use case', async () => {
+			mockLogoutUseCase.execute.mockResolvedValue(ok(undefined));
+
+			const ctx = createLogoutContext({ all: true });
+			await logout(ctx);
+
+			expect(mockLogoutUseCase.execute).toHaveBeenCalledWith({ all: true, userId: 'user-123', sessionId: 'session-1' });
+		});
+
+		it('should return error response when use case fails', async () => {
+			mockLogoutUseCase.execute.mockResolvedValue(err(new UserNotFoundError('user-123')));
+
+			const ctx = createLogoutContext({ all: true });
+			await logout(ctx);
+
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(404);
+		});
+	});
+
+	// Forgotten password endpoint: always accepted, delegates to ForgotPasswordUseCase
+	describe('forgotPassword()', () => {
+		let mockForgotPasswordUseCase: { execute: ReturnType<typeof vi.fn> };
+
+		beforeEach(() => {
+			container.clearInstances();
+			mockForgotPasswordUseCase = { execute: vi.fn() };
+			container.register(ForgotPasswordUseCase, { useValue: mockForgotPasswordUseCase as unknown as ForgotPasswordUseCase });
+		});
+
+		it('should return 202 on success', async () => {
+			mockForgotPasswordUseCase.execute.mockResolvedValue(ok(undefined));
+
+			const ctx = createMockContext({ email: 'test@example.com' });
+			await forgotPassword(ctx);
+
+			expect(mockForgotPasswordUseCase.execute).toHaveBeenCalledWith({ email: 'test@example.com' });
+			expect(ctx.body).toHaveBeenCalledWith(null, 202);
+		});
+
+		it('should throw ZodError for an invalid email', async () => {
+			const ctx = createMockContext({ email: 'invalid' });
+
+			await expect(forgotPassword(ctx)).rejects.toThrow();
+		});
+	});
+
+	// Password reset endpoint: delegates to ResetPasswordUseCase
+	describe('resetPassword()', () => {
+		let mockResetPasswordUseCase: { execute: ReturnType<typeof vi.fn> };
+		const validInput = { token: 'raw-token', password: 'NewPassword1', confirmPassword: 'NewPassword1' };
+
+		beforeEach(() => {
+			container.clearInstances();
+			mockResetPasswordUseCase = { execute: vi.fn() };
+			container.register(ResetPasswordUseCase, { useValue: mockResetPasswordUseCase as unknown as ResetPasswordUseCase });
+		});
+
+		it('should return 204 on success', async () => {
+			mockResetPasswordUseCase.execute.mockResolvedValue(ok(undefined));
+
+			const ctx = createMockContext(validInput);
+			await resetPassword(ctx);
+
+			expect(mockResetPasswordUseCase.execute).toHaveBeenCalledWith(validInput);
+			expect(ctx.body).toHaveBeenCalledWith(null, 204);
+		});
+
+		it('should return 400 when the token is invalid', async () => {
+			mockResetPasswordUseCase.execute.mockResolvedValue(err(new InvalidAccountTokenError()));
+
+			const ctx = createMockContext(validInput);
+			await resetPassword(ctx);
+
+			const [body, status] = ctx._getJsonCall();
+			expect(status).toBe(400);
+			expect(body).toMatchObject({ success: false, error: { code: 'ACCOUNT_TOKEN_INVALID' } });
+		});
+	});
+
+	// Email verification endpoint: delegates to VerifyEmailUseCase
+	describe('verifyEmail()', () => {
+		let mockVerifyEmailUseCase: { execute: ReturnType<typeof vi.fn> };
+
+		beforeEach(() => {
+			container.clearInstances();
+			mockVerifyEmailUseCase = { execute: vi.fn() };
+			container.register(VerifyEmailUseCase, { useValue: mockVerifyEmailUseCase as unknown as VerifyEmailUseCase });
+		});
+
+		it('should return 204 on success', async () => {
+			mockVerifyEmailUseCase.execute.mockResolvedValue(ok(undefined));
+
+			const ctx = createMockContext({ token: 'raw-token' });
+			await verifyEmail(ctx);
+
+			expect(mockVerifyEmailUseCase.execute).toHaveBeenCalledWith({ token: 'raw-token' });
+			expect(ctx.body).toHaveBeenCalledWith(null, 204);
+		});
+
+		it('should throw ZodError when the token is missing', async () => {
+			const ctx = createMockContext({});
+
+			await expect(verifyEmail(ctx)).rejects.toThrow();
+		});
+	});
 });
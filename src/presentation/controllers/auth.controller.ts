@@ -1,17 +1,31 @@
 /**
  * @module AuthController
- * Handles authentication endpoints for user registration and login.
- * Validates request bodies with Zod schemas, delegates to use cases resolved
- * from the tsyringe DI container, and converts Result objects to HTTP responses.
+ * Handles authentication endpoints for user registration, login, token
+ * refresh, logout, password recovery and email verification. Validates request bodies with Zod schemas, delegates to
+ * use cases resolved from the tsyringe DI container, and converts Result
+ * objects to HTTP responses.
  *
- * All routes in this controller are public (no auth middleware required).
+ * All routes in this controller are public except logout, which requires auth middleware.
  */
 import type { Context } from 'hono';
+import { ForgotPasswordUseCase } from '../../application/use-cases/auth/forgot-password.use-case.js';
 import { LoginUseCase } from '../../application/use-cases/auth/login.use-case.js';
+import { LogoutUseCase } from '../../application/use-cases/auth/logout.use-case.js';
+import { RefreshTokenUseCase } from '../../application/use-cases/auth/refresh-token.use-case.js';
 import { RegisterUseCase } from '../../application/use-cases/auth/register.use-case.js';
+import { ResetPasswordUseCase } from '../../application/use-cases/auth/reset-password.use-case.js';
+import { VerifyEmailUseCase } from '../../application/use-cases/auth/verify-email.use-case.js';
 import { container } from '../../lib/shared/di/container.js';
 import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
-import { loginSchema, registerSchema } from '../../application/schemas/auth.schema.js';
+import {
+	forgotPasswordSchema,
+	loginSchema,
+	logoutSchema,
+	refreshTokenSchema,
+	registerSchema,
+	resetPasswordSchema,
+	verifyEmailSchema,
+} from '../../application/schemas/auth.schema.js';
 
 /**
  * Registers a new user account.
@@ -19,11 +33,11 @@ import { loginSchema, registerSchema } from '../../application/schemas/auth.sche
  * **POST /api/auth/register** -- Public
  *
  * @param c - Hono request context containing the JSON body
- * @returns 201 with `{ success: true, data: { userId, token } }` on success,
+ * @returns 201 with `{ success: true, data: { userId, token, refreshToken } }` on success,
  *          or an error response (e.g. 409 USER_ALREADY_EXISTS).
  *          Throws ZodError (caught by error-handler middleware) on invalid input.
  *
- * Request body: `{ email: string, password: string, confirmPassword: string }`
+ * Request body: `{ email: string, password: string, confirmPassword: string, locale?: 'fr' | 'en' }`
  */
 export async function register(c: Context): Promise<Response> {
 	const body = await c.req.json();
@@ -41,7 +55,7 @@ export async function register(c: Context): Promise<Response> {
  * **POST /api/auth/login** -- Public
  *
  * @param c - Hono request context containing the JSON body
- * @returns 200 with `{ success: true, data: { userId, token } }` on success,
+ * @returns 200 with `{ success: true, data: { userId, token, refreshToken } }` on success,
  *          or an error response (e.g. 401 INVALID_CREDENTIALS).
  *          Throws ZodError (caught by error-handler middleware) on invalid input.
  *
@@ -56,3 +70,124 @@ export async function login(c: Context): Promise<Response> {
 
 	return resultToResponse(c, result, 200);
 }
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * The presented refresh token is consumed; presenting it again revokes the session.
+ *
+ * **POST /api/auth/refresh** -- Public
+ *
+ * @param c - Hono request context containing the JSON body
+ * @returns 200 with `{ success: true, data: { userId, token, refreshToken } }` on success,
+ *          or an error response (e.g. 401 REFRESH_TOKEN_INVALID, 401 REFRESH_TOKEN_REUSED).
+ *          Throws ZodError (caught by error-handler middleware) on invalid input.
+ *
+ * Request body: `{ refreshToken: string }`
+ */
+export async function refresh(c: Context): Promise<Response> {
+	const body = await c.req.json();
+	const validated = refreshTokenSchema.parse(body);
+
+	const refreshTokenUseCase = container.resolve(RefreshTokenUseCase);
+	const result = await refreshTokenUseCase.execute(validated);
+
+	return resultToResponse(c, result, 200);
+}
+
+/**
+ * Revokes the session of the presented access token, or every session of the user.
+ *
+ * **POST /api/auth/logout** -- Auth required
+ *
+ * @param c - Hono request context with `userId` and `sessionId` set by auth middleware
+ * @returns 204 (no content) on success,
+ *          or an error response (e.g. 404 USER_NOT_FOUND).
+ *          Throws ZodError (caught by error-handler middleware) on invalid input.
+ *
+ * Request body (optional): `{ all?: boolean }`
+ */
+export async function logout(c: Context): Promise<Response> {
+	const body = await c.req.json().catch(() => ({}));
+	const validated = logoutSchema.parse(body);
+
+	const logoutUseCase = container.resolve(LogoutUseCase);
+	const result = await logoutUseCase.execute({ ...validated, userId: c.get('userId'), sessionId: c.get('sessionId') });
+	if (!result.success) {
+		return resultToResponse(c, result);
+	}
+	return c.body(null, 204);
+}
+
+/**
+ * Emails a password reset link to the account registered with an address.
+ * Responds the same way whether or not the address is registered.
+ *
+ * **POST /api/auth/forgot-password** -- Public
+ *
+ * @param c - Hono request context containing the JSON body
+ * @returns 202 (accepted, no content) on success,
+ *          or an error response (e.g. 500 DATABASE_ERROR).
+ *          Throws ZodError (caught by error-handler middleware) on invalid input.
+ *
+ * Request body: `{ email: string }`
+ */
+export async function forgotPassword(c: Context): Promise<Response> {
+	const body = await c.req.json();
+	const validated = forgotPasswordSchema.parse(body);
+
+	const forgotPasswordUseCase = container.resolve(ForgotPasswordUseCase);
+	const result = await forgotPasswordUseCase.execute(validated);
+	if (!result.success) {
+		return resultToResponse(c, result);
+	}
+	return c.body(null, 202);
+}
+
+/**
+ * Sets a new password using the token from a password reset email, and signs
+ * the user out of every session.
+ *
+ * **POST /api/auth/reset-password** -- Public
+ *
+ * @param c - Hono request context containing the JSON body
+ * @returns 204 (no content) on success,
+ *          or an error response (e.g. 400 ACCOUNT_TOKEN_INVALID).
+ *          Throws ZodError (caught by error-handler middleware) on invalid input.
+ *
+ * Request body: `{ token: string, password: string, confirmPassword: string }`
+ */
+export async function resetPassword(c: Context): Promise<Response> {
+	const body = await c.req.json();
+	const validated = resetPasswordSchema.parse(body);
+
+	const resetPasswordUseCase = container.resolve(ResetPasswordUseCase);
+	const result = await resetPasswordUseCase.execute(validated);
+	if (!result.success) {
+		return resultToResponse(c, result);
+	}
+	return c.body(null, 204);
+}
+
+/**
+ * Marks the account's email address as verified using the token from a verification email.
+ *
+ * **POST /api/auth/verify-email** -- Public
+ *
+ * @param c - Hono request context containing the JSON body
+ * @returns 204 (no content) on success,
+ *          or an error response (e.g. 400 ACCOUNT_TOKEN_INVALID).
+ *          Throws ZodError (caught by error-handler middleware) on invalid input.
+ *
+ * Request body: `{ token: string }`
+ */
+export async function verifyEmail(c: Context): Promise<Response> {
+	const body = await c.req.json();
+	const validated = verifyEmailSchema.parse(body);
+
+	const verifyEmailUseCase = container.resolve(VerifyEmailUseCase);
+	const result = await verifyEmailUseCase.execute(validated);
+	if (!result.success) {
+		return resultToResponse(c, result);
+	}
+	return c.body(null, 204);
+}
@@ -0,0 +1,40 @@
+/**
+ * Unit tests for the CacheController (getCacheMetrics).
+ * Verifies the per-domain counters are returned as they are.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Context } from 'hono';
+import { container } from 'tsyringe';
+import { getCacheMetrics } from './cache.controller.js';
+import { GetCacheMetricsUseCase } from '../../application/use-cases/cache/get-cache-metrics.use-case.js';
+import { ok } from '../../lib/shared/types/result.js';
+
+function createMockContext() {
+	const jsonMock = vi.fn((body, status) => ({ body, status }));
+	return {
+		req: {},
+		json: jsonMock,
+		_getJsonCall: () => jsonMock.mock.calls[0],
+	} as unknown as Context & { _getJsonCall: () => [unknown, number] };
+}
+
+describe('Cache Controller', () => {
+	describe('getCacheMetrics()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(GetCacheMetricsUseCase, { useValue: mockUseCase as unknown as GetCacheMetricsUseCase });
+		});
+
+		it('should return 200 with the counters of each domain', async () => {
+			const metrics = { trip: { hits: 12, misses: 3, evictions: 1 } };
+			mockUseCase.execute.mockResolvedValue(ok(metrics));
+			const ctx = createMockContext();
+			await getCacheMetrics(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: metrics });
+		});
+	});
+});
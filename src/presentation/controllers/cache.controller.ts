@@ -0,0 +1,23 @@
+/**
+ * @module CacheController
+ * Lets admins read the cache counters of the node serving the request.
+ * All endpoints require authentication with the ADMIN role.
+ */
+import type { Context } from 'hono';
+import { GetCacheMetricsUseCase } from '../../application/use-cases/cache/get-cache-metrics.use-case.js';
+import { container } from '../../lib/shared/di/container.js';
+import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
+
+/**
+ * Returns the hits, misses and evictions of each cached domain.
+ *
+ * **GET /api/v1/admin/cache/metrics** -- Auth required, ADMIN only
+ *
+ * @param c - Hono request context
+ * @returns 200 with `{ success: true, data: Record<domain, { hits, misses, evictions }> }`
+ */
+export async function getCacheMetrics(c: Context): Promise<Response> {
+	const useCase = container.resolve(GetCacheMetricsUseCase);
+	const result = await useCase.execute();
+	return resultToResponse(c, result);
+}
@@ -1,18 +1,21 @@
 /**
- * Unit tests for the DriverController (createDriver handler).
+ * Unit tests for the DriverController (createDriver and getDriverProfile handlers).
  * Covers successful creation with userId injection from auth context,
- * input validation, and Zod error on invalid input.
+ * input validation, Zod error on invalid input, and the rated profile lookup.
  */
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { Context } from 'hono';
 import { container } from 'tsyringe';
-import { createDriver } from './driver.controller.js';
+import { createDriver, getDriverProfile } from './driver.controller.js';
 import { CreateDriverUseCase } from '../../application/use-cases/driver/create-driver.use-case.js';
-import { ok } from '../../lib/shared/types/result.js';
+import { GetDriverProfileUseCase } from '../../application/use-cases/driver/get-driver-profile.use-case.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { DriverNotFoundError } from '../../lib/errors/domain.errors.js';
 
 const TEST_USER_ID = '660e8400-e29b-41d4-a716-446655440001';
+const TEST_DRIVER_ID = '550e8400-e29b-41d4-a716-446655440000';
 
-function createMockContext(overrides?: { jsonBody?: unknown; userId?: string }) {
+function createMockContext(overrides?: { jsonBody?: unknown; params?: Record<string, string>; userId?: string }) {
 	const jsonMock = vi.fn((body, status) => ({ body, status }));
 	const bodyMock = vi.fn((body, status) => new Response(body, { status }));
 	const contextValues: Record<string, unknown> = {};
@@ -22,6 +25,7 @@ function createMockContext(overrides?: { jsonBody?: unknown; userId?: string })
 	return {
 		req: {
 			json: vi.fn().mockResolvedValue(overrides?.jsonBody ?? {}),
+			param: vi.fn((name: string) => overrides?.params?.[name]),
 		},
 		json: jsonMock,
 		body: bodyMock,
@@ -72,4 +76,42 @@ describe('Driver Controller', () => {
 			await expect(createDriver(ctx)).rejects.toThrow();
 		});
 	});
+
+	describe('getDriverProfile()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(GetDriverProfileUseCase, { useValue: mockUseCase as unknown as GetDriverProfileUseCase });
+		});
+
+		it('should return 200 with the profile and its rating', async () => {
+			const profile = { id: TEST_DRIVER_ID, refId: 1, userRefId: 2, firstName: 'Jean', lastName: 'Dupont', rating: { average: 4.5, count: 12 } };
+			mockUseCase.execute.mockResolvedValue(ok(profile));
+			const ctx = createMockContext({ params: { id: TEST_DRIVER_ID } });
+
+			await getDriverProfile(ctx);
+
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: profile });
+			expect(mockUseCase.execute).toHaveBeenCalledWith(TEST_DRIVER_ID);
+		});
+
+		it('should return 404 for an unknown driver', async () => {
+			mockUseCase.execute.mockResolvedValue(err(new DriverNotFoundError(TEST_DRIVER_ID)));
+			const ctx = createMockContext({ params: { id: TEST_DRIVER_ID } });
+
+			await getDriverProfile(ctx);
+
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(404);
+		});
+
+		it('should throw ZodError for an invalid driver id', async () => {
+			const ctx = createMockContext({ params: { id: 'bad' } });
+			await expect(getDriverProfile(ctx)).rejects.toThrow();
+		});
+	});
 });
@@ -1,12 +1,15 @@
 /**
  * @module DriverController
- * Handles driver registration. A user upgrades their role to DRIVER
- * by providing license information. Requires authentication with USER+ role.
- * The authenticated user's ID is injected from the request context.
+ * Handles driver registration and public driver profiles. A user upgrades
+ * their role to DRIVER by providing license information. Requires
+ * authentication with USER+ role. The authenticated user's ID is injected
+ * from the request context.
  */
 import type { Context } from 'hono';
 import { createDriverSchema, type CreateDriverSchemaType } from '../../application/schemas/driver.schema.js';
 import { CreateDriverUseCase } from '../../application/use-cases/driver/create-driver.use-case.js';
+import { GetDriverProfileUseCase } from '../../application/use-cases/driver/get-driver-profile.use-case.js';
+import { uuidSchema } from '../../application/schemas/common.schema.js';
 import { container } from '../../lib/shared/di/container.js';
 import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
 import type { WithAuthContext } from '../../lib/shared/types/auth-context.js';
@@ -38,3 +41,19 @@ export async function createDriver(c: Context): Promise<Response> {
 	const result = await useCase.execute(input);
 	return resultToResponse(c, result, 201);
 }
+
+/**
+ * Retrieves the public profile of a driver with their rating aggregate.
+ *
+ * **GET /api/drivers/:id** -- Auth required, USER+
+ *
+ * @param c - Hono request context with `id` route parameter (driver UUID)
+ * @returns 200 with `{ success: true, data: { id, refId, userRefId, firstName, lastName, rating: { average, count } } }`,
+ *          or 404 DRIVER_NOT_FOUND.
+ */
+export async function getDriverProfile(c: Context): Promise<Response> {
+	const id = uuidSchema.parse(c.req.param('id'));
+	const useCase = container.resolve(GetDriverProfileUseCase);
+	const result = await useCase.execute(id);
+	return resultToResponse(c, result);
+}
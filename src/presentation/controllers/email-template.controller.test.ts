@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the EmailTemplateController (previewEmailTemplate).
+ * Verifies rendering a template in the requested or default locale, error
+ * propagation, and Zod validation.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Context } from 'hono';
+import { container } from 'tsyringe';
+import { previewEmailTemplate } from './email-template.controller.js';
+import { PreviewEmailTemplateUseCase } from '../../application/use-cases/email/preview-email-template.use-case.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { EmailTemplateNotFoundError } from '../../lib/errors/domain.errors.js';
+
+function createMockContext(overrides?: { params?: Record<string, string>; queryParams?: Record<string, string> }) {
+	const jsonMock = vi.fn((body, status) => ({ body, status }));
+	const queryParams = overrides?.queryParams ?? {};
+	return {
+		req: {
+			param: vi.fn((name: string) => overrides?.params?.[name]),
+			query: vi.fn((name: string) => queryParams[name]),
+		},
+		json: jsonMock,
+		_getJsonCall: () => jsonMock.mock.calls[0],
+	} as unknown as Context & { _getJsonCall: () => [unknown, number] };
+}
+
+describe('Email Template Controller', () => {
+	describe('previewEmailTemplate()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(PreviewEmailTemplateUseCase, { useValue: mockUseCase as unknown as PreviewEmailTemplateUseCase });
+		});
+
+		it('should return 200 with the rendered sample in the requested locale', async () => {
+			const rendered = { subject: 'Welcome to Carpooling!', html: '<h1>Hello Camille,</h1>', text: 'Hello Camille,' };
+			mockUseCase.execute.mockResolvedValue(ok(rendered));
+			const ctx = createMockContext({ params: { template: 'welcome' }, queryParams: { locale: 'en' } });
+			await previewEmailTemplate(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: rendered });
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ template: 'welcome', locale: 'en' });
+		});
+
+		it('should default to the fr locale', async () => {
+			mockUseCase.execute.mockResolvedValue(ok({ subject: '', html: '', text: '' }));
+			const ctx = createMockContext({ params: { template: 'welcome' } });
+			await previewEmailTemplate(ctx);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ template: 'welcome', locale: 'fr' });
+		});
+
+		it('should return 404 for an unknown template', async () => {
+			mockUseCase.execute.mockResolvedValue(err(new EmailTemplateNotFoundError('newsletter')));
+			const ctx = createMockContext({ params: { template: 'newsletter' } });
+			await previewEmailTemplate(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(404);
+			expect(response).toMatchObject({ success: false, error: { code: 'EMAIL_TEMPLATE_NOT_FOUND' } });
+		});
+
+		it('should throw ZodError for an unsupported locale', async () => {
+			const ctx = createMockContext({ params: { template: 'welcome' }, queryParams: { locale: 'de' } });
+			await expect(previewEmailTemplate(ctx)).rejects.toThrow();
+		});
+	});
+});
@@ -0,0 +1,27 @@
+/**
+ * @module EmailTemplateController
+ * Lets admins preview the transactional email templates.
+ * All endpoints require authentication with the ADMIN role.
+ */
+import type { Context } from 'hono';
+import { PreviewEmailTemplateUseCase } from '../../application/use-cases/email/preview-email-template.use-case.js';
+import { container } from '../../lib/shared/di/container.js';
+import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
+import { emailTemplatePreviewSchema } from '../../application/schemas/email-template.schema.js';
+
+/**
+ * Renders an email template with sample variables.
+ *
+ * **GET /api/v1/admin/email-templates/:template/preview** -- Auth required, ADMIN only
+ *
+ * @param c - Hono request context with `template` route parameter and optional `locale` query param
+ * @returns 200 with `{ success: true, data: { subject, html, text } }` on success,
+ *          or an error response (404 EMAIL_TEMPLATE_NOT_FOUND).
+ *          Throws ZodError on an unsupported locale.
+ */
+export async function previewEmailTemplate(c: Context): Promise<Response> {
+	const { locale } = emailTemplatePreviewSchema.parse({ locale: c.req.query('locale') });
+	const useCase = container.resolve(PreviewEmailTemplateUseCase);
+	const result = await useCase.execute({ template: c.req.param('template'), locale });
+	return resultToResponse(c, result);
+}
@@ -1,21 +1,23 @@
 /**
  * Unit tests for the InscriptionController.
- * Covers all five handlers: listInscriptions, listUserInscriptions,
- * listTripPassengers, createInscription, and deleteInscription.
+ * Covers all handlers: listInscriptions, listUserInscriptions,
+ * listTripPassengers, createInscription, deleteInscription,
+ * acceptTripPassenger, and rejectTripPassenger.
  * Verifies pagination, userId injection from context, Zod validation,
  * and error propagation (TRIP_NOT_FOUND, INSCRIPTION_NOT_FOUND).
  */
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { Context } from 'hono';
 import { container } from 'tsyringe';
-import { listInscriptions, listUserInscriptions, listTripPassengers, createInscription, deleteInscription } from './inscription.controller.js';
+import { listInscriptions, listUserInscriptions, listTripPassengers, createInscription, deleteInscription, acceptTripPassenger, rejectTripPassenger } from './inscription.controller.js';
 import { ListInscriptionsUseCase } from '../../application/use-cases/inscription/list-inscriptions.use-case.js';
 import { ListUserInscriptionsUseCase } from '../../application/use-cases/inscription/list-user-inscriptions.use-case.js';
 import { ListTripPassengersUseCase } from '../../application/use-cases/inscription/list-trip-passengers.use-case.js';
 import { CreateInscriptionUseCase } from '../../application/use-cases/inscription/create-inscription.use-case.js';
 import { DeleteInscriptionUseCase } from '../../application/use-cases/inscription/delete-inscription.use-case.js';
+import { ReviewInscriptionUseCase } from '../../application/use-cases/inscription/review-inscription.use-case.js';
 import { ok, err } from '../../lib/shared/types/result.js';
-import { InscriptionNotFoundError, TripNotFoundError } from '../../lib/errors/domain.errors.js';
+import { InscriptionNotFoundError, InscriptionNotPendingError, TripNotFoundError } from '../../lib/errors/domain.errors.js';
 
 const TEST_UUID = '550e8400-e29b-41d4-a716-446655440000';
 const TEST_USER_ID = '660e8400-e29b-41d4-a716-446655440001';
@@ -157,6 +159,13 @@ describe('Inscription Controller', () => {
 			expect(response.status).toBe(204);
 		});
 
+		it('should pass the optional reason to the use case', async () => {
+			mockUseCase.execute.mockResolvedValue(ok(undefined));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, userId: TEST_USER_ID, jsonBody: { reason: 'Sick' } });
+			await deleteInscription(ctx);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ id: TEST_UUID, userId: TEST_USER_ID, reason: 'Sick' });
+		});
+
 		it('should return error when not found', async () => {
 			mockUseCase.execute.mockResolvedValue(err(new InscriptionNotFoundError(TEST_UUID)));
 			const ctx = createMockContext({ params: { id: TEST_UUID }, userId: TEST_USER_ID });
@@ -165,4 +174,40 @@ describe('Inscription Controller', () => {
 			expect(response).toHaveProperty('success', false);
 		});
 	});
+
+	// Driver decision on a pending passenger (nested resource: /trips/:id/passengers/:inscriptionId)
+	describe('acceptTripPassenger() / rejectTripPassenger()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(ReviewInscriptionUseCase, { useValue: mockUseCase as unknown as ReviewInscriptionUseCase });
+		});
+
+		it('should return 200 and pass ACCEPT with ids from params', async () => {
+			const inscription = { id: TEST_UUID, status: 'ACTIVE' };
+			mockUseCase.execute.mockResolvedValue(ok(inscription));
+			const ctx = createMockContext({ params: { id: TEST_UUID, inscriptionId: TEST_USER_ID }, userId: TEST_USER_ID });
+			await acceptTripPassenger(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: inscription });
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ tripId: TEST_UUID, inscriptionId: TEST_USER_ID, userId: TEST_USER_ID, decision: 'ACCEPT' });
+		});
+
+		it('should pass REJECT and propagate errors', async () => {
+			mockUseCase.execute.mockResolvedValue(err(new InscriptionNotPendingError(TEST_USER_ID, 'REJECTED')));
+			const ctx = createMockContext({ params: { id: TEST_UUID, inscriptionId: TEST_USER_ID }, userId: TEST_USER_ID });
+			await rejectTripPassenger(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(409);
+			expect(response).toHaveProperty('success', false);
+			expect(mockUseCase.execute).toHaveBeenCalledWith(expect.objectContaining({ decision: 'REJECT' }));
+		});
+
+		it('should throw ZodError for an invalid inscription id', async () => {
+			const ctx = createMockContext({ params: { id: TEST_UUID, inscriptionId: 'bad' }, userId: TEST_USER_ID });
+			await expect(acceptTripPassenger(ctx)).rejects.toThrow();
+		});
+	});
 });
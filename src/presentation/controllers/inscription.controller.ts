@@ -2,10 +2,12 @@
  * @module InscriptionController
  * Handles passenger inscriptions (sign-ups) to carpooling trips.
  * Provides listing of all inscriptions, per-user inscriptions, per-trip passengers,
- * creation, and deletion. All endpoints require authentication with USER+ role.
+ * creation, deletion, and the driver's accept/reject decision on pending passengers.
+ * All endpoints require authentication with USER+ role (DRIVER+ for accept/reject).
  *
  * Some handlers are mounted as nested resource routes in the main router
- * (e.g. GET /api/users/:id/inscriptions, GET /api/trips/:id/passengers).
+ * (e.g. GET /api/users/:id/inscriptions, GET /api/trips/:id/passengers,
+ * POST /api/trips/:id/passengers/:inscriptionId/accept).
  */
 import type { Context } from 'hono';
 import { CreateInscriptionUseCase } from '../../application/use-cases/inscription/create-inscription.use-case.js';
@@ -13,10 +15,11 @@ import { DeleteInscriptionUseCase } from '../../application/use-cases/inscriptio
 import { ListInscriptionsUseCase } from '../../application/use-cases/inscription/list-inscriptions.use-case.js';
 import { ListTripPassengersUseCase } from '../../application/use-cases/inscription/list-trip-passengers.use-case.js';
 import { ListUserInscriptionsUseCase } from '../../application/use-cases/inscription/list-user-inscriptions.use-case.js';
+import { ReviewInscriptionUseCase } from '../../application/use-cases/inscription/review-inscription.use-case.js';
 import { container } from '../../lib/shared/di/container.js';
 import { paginationSchema } from '../../lib/shared/utils/pagination.util.js';
 import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
-import { createInscriptionSchema } from '../../application/schemas/inscription.schema.js';
+import { cancelInscriptionSchema, createInscriptionSchema } from '../../application/schemas/inscription.schema.js';
 import type { CreateInscriptionSchemaType } from '../../application/schemas/inscription.schema.js';
 import type { WithAuthContext } from '../../lib/shared/types/auth-context.js';
 import { uuidSchema } from '../../application/schemas/common.schema.js';
@@ -101,10 +104,10 @@ export async function listTripPassengers(c: Context): Promise<Response> {
  *
  * @param c - Hono request context with JSON body and `userId` set on context
  * @returns 201 with `{ success: true, data: Inscription }` on success,
- *          or an error response (e.g. 404 TRIP_NOT_FOUND).
+ *          or an error response (e.g. 404 TRIP_NOT_FOUND, 400 INVALID_TRIP_SEGMENT).
  *          Throws ZodError on invalid input.
  *
- * Request body: `{ tripId: string }`
+ * Request body: `{ tripId: string, pickupCity?: string, dropoffCity?: string }`
  */
 export async function createInscription(c: Context): Promise<Response> {
 	const body = await c.req.json();
@@ -121,20 +124,64 @@ export async function createInscription(c: Context): Promise<Response> {
 }
 
 /**
- * Deletes an inscription by its UUID.
+ * Cancels an inscription by its UUID. The inscription is kept with status
+ * CANCELLED rather than deleted, and its seat is freed.
  *
  * **DELETE /api/inscriptions/:id** -- Auth required, USER+
  *
+ * The JSON body is optional; a missing or unparsable body is treated as empty.
+ *
  * @param c - Hono request context with `id` route parameter (UUID)
  * @returns 204 (no content) on success,
- *          or an error response (e.g. 404 INSCRIPTION_NOT_FOUND).
+ *          or an error response (e.g. 404 INSCRIPTION_NOT_FOUND, 409 CANCELLATION_WINDOW_CLOSED).
+ *          Throws ZodError on an invalid reason.
+ *
+ * Request body (optional): `{ reason?: string }`
  */
 export async function deleteInscription(c: Context): Promise<Response> {
 	const id = uuidSchema.parse(c.req.param('id'));
+	const body = await c.req.json().catch(() => ({}));
+	const { reason } = cancelInscriptionSchema.parse(body);
 	const useCase = container.resolve(DeleteInscriptionUseCase);
-	const result = await useCase.execute({ id, userId: c.get('userId') });
+	const result = await useCase.execute({ id, userId: c.get('userId'), reason });
 	if (!result.success) {
 		return resultToResponse(c, result);
 	}
 	return c.body(null, 204);
 }
+
+/**
+ * Accepts a pending passenger on a trip that requires approval.
+ * Only the trip's driver may accept; the passenger then holds a seat.
+ *
+ * **POST /api/trips/:id/passengers/:inscriptionId/accept** -- Auth required, DRIVER+ (trip owner)
+ *
+ * @param c - Hono request context with `id` (trip UUID) and `inscriptionId` route parameters
+ * @returns 200 with `{ success: true, data: Inscription }` on success,
+ *          or an error response (e.g. 403 FORBIDDEN, 409 INSCRIPTION_NOT_PENDING, 400 NO_SEATS_AVAILABLE).
+ */
+export async function acceptTripPassenger(c: Context): Promise<Response> {
+	return reviewTripPassenger(c, 'ACCEPT');
+}
+
+/**
+ * Rejects a pending passenger on a trip that requires approval.
+ * Only the trip's driver may reject.
+ *
+ * **POST /api/trips/:id/passengers/:inscriptionId/reject** -- Auth required, DRIVER+ (trip owner)
+ *
+ * @param c - Hono request context with `id` (trip UUID) and `inscriptionId` route parameters
+ * @returns 200 with `{ success: true, data: Inscription }` on success,
+ *          or an error response (e.g. 403 FORBIDDEN, 409 INSCRIPTION_NOT_PENDING).
+ */
+export async function rejectTripPassenger(c: Context): Promise<Response> {
+	return reviewTripPassenger(c, 'REJECT');
+}
+
+async function reviewTripPassenger(c: Context, decision: 'ACCEPT' | 'REJECT'): Promise<Response> {
+	const tripId = uuidSchema.parse(c.req.param('id'));
+	const inscriptionId = uuidSchema.parse(c.req.param('inscriptionId'));
+	const useCase = container.resolve(ReviewInscriptionUseCase);
+	const result = await useCase.execute({ tripId, inscriptionId, userId: c.get('userId'), decision });
+	return resultToResponse(c, result);
+}
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the OutboxController (listOutboxMessages, replayOutboxMessage).
+ * Verifies paginated listing with the status filter, replay of dead messages,
+ * error propagation, and Zod validation.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Context } from 'hono';
+import { container } from 'tsyringe';
+import { listOutboxMessages, replayOutboxMessage } from './outbox.controller.js';
+import { ListOutboxMessagesUseCase } from '../../application/use-cases/outbox/list-outbox-messages.use-case.js';
+import { ReplayOutboxMessageUseCase } from '../../application/use-cases/outbox/replay-outbox-message.use-case.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { OutboxMessageNotReplayableError } from '../../lib/errors/domain.errors.js';
+
+const TEST_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+function createMockContext(overrides?: { params?: Record<string, string>; queryParams?: Record<string, string> }) {
+	const jsonMock = vi.fn((body, status) => ({ body, status }));
+	const queryParams = overrides?.queryParams ?? {};
+	return {
+		req: {
+			param: vi.fn((name: string) => overrides?.params?.[name]),
+			query: vi.fn((name: string) => queryParams[name]),
+		},
+		json: jsonMock,
+		_getJsonCall: () => jsonMock.mock.calls[0],
+	} as unknown as Context & { _getJsonCall: () => [unknown, number] };
+}
+
+describe('Outbox Controller', () => {
+	// Paginated listing with the status filter
+	describe('listOutboxMessages()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(ListOutboxMessagesUseCase, { useValue: mockUseCase as unknown as ListOutboxMessagesUseCase });
+		});
+
+		it('should return 200 with the filtered page of messages', async () => {
+			const paginatedResult = {
+				data: [{ id: TEST_UUID, status: 'DEAD' }],
+				meta: { page: 2, limit: 10, total: 11, totalPages: 2 },
+			};
+			mockUseCase.execute.mockResolvedValue(ok(paginatedResult));
+			const ctx = createMockContext({ queryParams: { status: 'DEAD', page: '2', limit: '10' } });
+			await listOutboxMessages(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: paginatedResult });
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ status: 'DEAD' }, { page: 2, limit: 10 });
+		});
+
+		it('should throw ZodError for an unknown status', async () => {
+			const ctx = createMockContext({ queryParams: { status: 'FAILED' } });
+			await expect(listOutboxMessages(ctx)).rejects.toThrow();
+		});
+	});
+
+	// Replay of a dead message by UUID
+	describe('replayOutboxMessage()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(ReplayOutboxMessageUseCase, { useValue: mockUseCase as unknown as ReplayOutboxMessageUseCase });
+		});
+
+		it('should return 200 with the requeued message', async () => {
+			const message = { id: TEST_UUID, status: 'PENDING', attempts: 0 };
+			mockUseCase.execute.mockResolvedValue(ok(message));
+			const ctx = createMockContext({ params: { id: TEST_UUID } });
+			await replayOutboxMessage(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: message });
+			expect(mockUseCase.execute).toHaveBeenCalledWith(TEST_UUID);
+		});
+
+		it('should return 409 when the message is not dead', async () => {
+			mockUseCase.execute.mockResolvedValue(err(new OutboxMessageNotReplayableError(TEST_UUID, 'SENT')));
+			const ctx = createMockContext({ params: { id: TEST_UUID } });
+			await replayOutboxMessage(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(409);
+			expect(response).toHaveProperty('success', false);
+		});
+
+		it('should throw ZodError for an invalid UUID', async () => {
+			const ctx = createMockContext({ params: { id: 'not-a-uuid' } });
+			await expect(replayOutboxMessage(ctx)).rejects.toThrow();
+		});
+	});
+});
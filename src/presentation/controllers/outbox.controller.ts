@@ -0,0 +1,49 @@
+/**
+ * @module OutboxController
+ * Lets admins inspect the email outbox and replay dead messages.
+ * All endpoints require authentication with the ADMIN role.
+ */
+import type { Context } from 'hono';
+import { ListOutboxMessagesUseCase } from '../../application/use-cases/outbox/list-outbox-messages.use-case.js';
+import { ReplayOutboxMessageUseCase } from '../../application/use-cases/outbox/replay-outbox-message.use-case.js';
+import { container } from '../../lib/shared/di/container.js';
+import { paginationSchema } from '../../lib/shared/utils/pagination.util.js';
+import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
+import { outboxMessageFiltersSchema } from '../../application/schemas/outbox.schema.js';
+import { uuidSchema } from '../../application/schemas/common.schema.js';
+
+/**
+ * Lists outbox messages, newest first, with pagination.
+ *
+ * **GET /api/v1/admin/outbox** -- Auth required, ADMIN only
+ *
+ * @param c - Hono request context with optional `status`, `page` and `limit` query params
+ * @returns 200 with `{ success: true, data: { data: OutboxMessage[], meta: PaginationMeta } }`.
+ *          Throws ZodError on an unknown status.
+ */
+export async function listOutboxMessages(c: Context): Promise<Response> {
+	const filters = outboxMessageFiltersSchema.parse({ status: c.req.query('status') });
+	const pagination = paginationSchema.parse({
+		page: c.req.query('page'),
+		limit: c.req.query('limit'),
+	});
+	const useCase = container.resolve(ListOutboxMessagesUseCase);
+	const result = await useCase.execute(filters, pagination);
+	return resultToResponse(c, result);
+}
+
+/**
+ * Puts a dead outbox message back in the delivery queue.
+ *
+ * **POST /api/v1/admin/outbox/:id/replay** -- Auth required, ADMIN only
+ *
+ * @param c - Hono request context with `id` route parameter (UUID)
+ * @returns 200 with `{ success: true, data: OutboxMessage }` on success,
+ *          or an error response (404 OUTBOX_MESSAGE_NOT_FOUND, 409 OUTBOX_MESSAGE_NOT_REPLAYABLE).
+ */
+export async function replayOutboxMessage(c: Context): Promise<Response> {
+	const id = uuidSchema.parse(c.req.param('id'));
+	const useCase = container.resolve(ReplayOutboxMessageUseCase);
+	const result = await useCase.execute(id);
+	return resultToResponse(c, result);
+}
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the RealtimeController (Server-Sent Events handlers).
+ * Mounts streamTripEvents and streamMyEvents on a bare Hono app backed by the
+ * in-memory broker, and reads the streams as a client would: live events,
+ * replay after `Last-Event-ID` without duplicates, heartbeats, unsubscribing
+ * on disconnect, and the errors answered before streaming starts.
+ */
+import { Hono } from 'hono';
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockLogger, createMockRealtimeConfig } from '../../../tests/setup.js';
+import { GetTripUseCase } from '../../application/use-cases/trip/get-trip.use-case.js';
+import { TripNotFoundError } from '../../lib/errors/domain.errors.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import { err, ok } from '../../lib/shared/types/result.js';
+import { InMemoryRealtimeBroker } from '../../infrastructure/realtime/in-memory-realtime.broker.js';
+import { createErrorHandler } from '../middleware/error-handler.middleware.js';
+import { streamMyEvents, streamTripEvents } from './realtime.controller.js';
+
+const TEST_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const TEST_USER_ID = '660e8400-e29b-41d4-a716-446655440001';
+
+const seats = (remainingSeats: number) => ({ tripId: TEST_UUID, seats: 3, remainingSeats });
+
+/** Reads a stream until its text contains `expected`, then disconnects. */
+async function readUntil(res: Response, expected: string): Promise<string> {
+	const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+	const decoder = new TextDecoder();
+	let text = '';
+	while (!text.includes(expected)) {
+		const { value, done } = await reader.read();
+		if (done) break;
+		text += decoder.decode(value);
+	}
+	await reader.cancel();
+	return text;
+}
+
+/** Waits for the pending stream writes to run. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('Realtime Controller', () => {
+	let app: Hono<{ Variables: { userId: string } }>;
+	let broker: InMemoryRealtimeBroker;
+	let mockGetTrip: { execute: ReturnType<typeof vi.fn> };
+
+	beforeEach(() => {
+		const config = createMockRealtimeConfig({ heartbeatIntervalMs: 20 });
+		broker = new InMemoryRealtimeBroker(config);
+		container.registerInstance(TOKENS.RealtimeConfig, config);
+		container.registerInstance(TOKENS.RealtimeBroker, broker);
+		mockGetTrip = { execute: vi.fn().mockResolvedValue(ok({ id: TEST_UUID })) };
+		container.register(GetTripUseCase, { useValue: mockGetTrip as unknown as GetTripUseCase });
+
+		app = new Hono<{ Variables: { userId: string } }>();
+		app.onError(createErrorHandler(createMockLogger()));
+		app.use(async (c, next) => {
+			c.set('userId', TEST_USER_ID);
+			await next();
+		});
+		app.get('/trips/:id/events', streamTripEvents);
+		app.get('/users/me/events', streamMyEvents);
+	});
+
+	// Following a trip
+	describe('streamTripEvents()', () => {
+		it('should stream the events published on the trip', async () => {
+			const res = await app.request(`/trips/${TEST_UUID}/events`);
+			expect(res.status).toBe(200);
+			expect(res.headers.get('Content-Type')).toBe('text/event-stream');
+
+			await flush();
+			await broker.publish(`trip:${TEST_UUID}`, 'seats-changed', seats(2));
+
+			const text = await readUntil(res, 'remainingSeats');
+			expect(text).toContain(`event: seats-changed\ndata: ${JSON.stringify(seats(2))}\nid: 1\n\n`);
+			expect(mockGetTrip.execute).toHaveBeenCalledWith(TEST_UUID);
+		});
+
+		// Reconnecting clients send the id of the last event they received
+		it('should replay the events published after Last-Event-ID', async () => {
+			await broker.publish(`trip:${TEST_UUID}`, 'seats-changed', seats(2));
+			await broker.publish(`trip:${TEST_UUID}`, 'seats-changed', seats(1));
+
+			const res = await app.request(`/trips/${TEST_UUID}/events`, { headers: { 'Last-Event-ID': '1' } });
+
+			const text = await readUntil(res, 'id: 2');
+			expect(text).not.toContain('id: 1\n');
+			expect(text).toContain(JSON.stringify(seats(1)));
+		});
+
+		// Events published while the backlog is read are only sent once
+		it('should not send twice an event received during the replay', async () => {
+			await broker.publish(`trip:${TEST_UUID}`, 'seats-changed', seats(2));
+			const replay = broker.replay.bind(broker);
+			vi.spyOn(broker, 'replay').mockImplementation(async (channel, lastEventId) => {
+				await broker.publish(channel, 'seats-changed', seats(1));
+				return replay(channel, lastEventId);
+			});
+
+			const res = await app.request(`/trips/${TEST_UUID}/events`, { headers: { 'Last-Event-ID': 'unknown' } });
+
+			const text = await readUntil(res, 'id: 2');
+			expect(text.match(/id: 2\n/g)).toHaveLength(1);
+			expect(text.indexOf('id: 1\n')).toBeLessThan(text.indexOf('id: 2\n'));
+		});
+
+		it('should send heartbeats while idle', async () => {
+			const res = await app.request(`/trips/${TEST_UUID}/events`);
+
+			expect(await readUntil(res, ': heartbeat')).toContain(': heartbeat\n\n');
+		});
+
+		it('should unsubscribe when the client disconnects', async () => {
+			const unsubscribe = vi.fn().mockResolvedValue(undefined);
+			vi.spyOn(broker, 'subscribe').mockResolvedValue(unsubscribe);
+			const res = await app.request(`/trips/${TEST_UUID}/events`);
+
+			await readUntil(res, ': heartbeat');
+			await flush();
+
+			expect(unsubscribe).toHaveBeenCalledTimes(1);
+		});
+
+		it('should return 404 when the trip does not exist', async () => {
+			mockGetTrip.execute.mockResolvedValue(err(new TripNotFoundError(TEST_UUID)));
+			const subscribe = vi.spyOn(broker, 'subscribe');
+
+			const res = await app.request(`/trips/${TEST_UUID}/events`);
+
+			expect(res.status).toBe(404);
+			expect(subscribe).not.toHaveBeenCalled();
+		});
+
+		it('should return 400 for an invalid trip id', async () => {
+			const res = await app.request('/trips/not-a-uuid/events');
+
+			expect(res.status).toBe(400);
+			expect(mockGetTrip.execute).not.toHaveBeenCalled();
+		});
+
+		it('should answer an error and unsubscribe when the backlog cannot be read', async () => {
+			const unsubscribe = vi.fn().mockResolvedValue(undefined);
+			vi.spyOn(broker, 'subscribe').mockResolvedValue(unsubscribe);
+			vi.spyOn(broker, 'replay').mockRejectedValue(new Error('Connection refused'));
+
+			const res = await app.request(`/trips/${TEST_UUID}/events`, { headers: { 'Last-Event-ID': '1' } });
+
+			expect(res.status).toBe(500);
+			expect(unsubscribe).toHaveBeenCalled();
+		});
+	});
+
+	// Following one's own bookings
+	describe('streamMyEvents()', () => {
+		it('should stream the events published for the authenticated user', async () => {
+			const res = await app.request('/users/me/events');
+
+			await flush();
+			await broker.publish(`user:${TEST_USER_ID}`, 'booking-updated', { inscriptionId: 'ins-1', tripId: TEST_UUID, status: 'ACTIVE' });
+
+			const text = await readUntil(res, 'booking-updated');
+			expect(text).toContain('event: booking-updated\n');
+			expect(text).toContain('"status":"ACTIVE"');
+		});
+	});
+});
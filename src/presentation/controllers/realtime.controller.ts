@@ -0,0 +1,115 @@
+/**
+ * @module RealtimeController
+ * Streams realtime events to authenticated clients over Server-Sent Events:
+ * the changes of a trip to anyone looking at it, and the changes of their own
+ * bookings and booked trips to each user. Streams send a heartbeat comment
+ * while idle and resume after the `Last-Event-ID` sent by reconnecting clients.
+ */
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { GetTripUseCase } from '../../application/use-cases/trip/get-trip.use-case.js';
+import { uuidSchema } from '../../application/schemas/common.schema.js';
+import { tripChannel, userChannel } from '../../domain/events/realtime-events.js';
+import type { RealtimeEvent } from '../../domain/events/realtime-events.js';
+import type { RealtimeBroker } from '../../domain/services/realtime-broker.service.js';
+import type { RealtimeConfig } from '../../infrastructure/realtime/realtime.config.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { container } from '../../lib/shared/di/container.js';
+import { TOKENS } from '../../lib/shared/di/tokens.js';
+import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
+
+/**
+ * Streams the events of a channel until the client disconnects.
+ *
+ * The listener is registered before the backlog is read, and the events it
+ * receives meanwhile are held back, so that nothing published during the
+ * replay is lost; events received twice are only sent once. Subscribing and
+ * replaying happen before the response starts, so a broker failure is
+ * answered with a regular error response.
+ */
+async function streamChannel(c: Context, channel: string): Promise<Response> {
+	const broker = container.resolve<RealtimeBroker>(TOKENS.RealtimeBroker);
+	const config = container.resolve<RealtimeConfig>(TOKENS.RealtimeConfig);
+	const logger = container.resolve<Logger>(TOKENS.Logger).child({ controller: 'RealtimeController', channel });
+
+	let send: ((event: RealtimeEvent) => Promise<void>) | null = null;
+	const heldBack: RealtimeEvent[] = [];
+	const unsubscribe = await broker.subscribe(channel, (event) => {
+		if (send) {
+			void send(event);
+		} else {
+			heldBack.push(event);
+		}
+	});
+
+	let replayed: RealtimeEvent[];
+	try {
+		const lastEventId = c.req.header('Last-Event-ID');
+		replayed = lastEventId ? await broker.replay(channel, lastEventId) : [];
+	} catch (e) {
+		await unsubscribe();
+		throw e;
+	}
+
+	return streamSSE(c, async (stream) => {
+		const closed = new Promise<void>((resolve) => (stream.aborted ? resolve() : stream.onAbort(resolve)));
+		const write = (event: RealtimeEvent) => stream.writeSSE({ id: event.id, event: event.type, data: JSON.stringify(event.data) });
+
+		for (const event of replayed) {
+			await write(event);
+		}
+		// Events keep being held back while the previous ones are written
+		const replayedIds = new Set(replayed.map((event) => event.id));
+		for (let event = heldBack.shift(); event; event = heldBack.shift()) {
+			if (!replayedIds.has(event.id)) {
+				await write(event);
+			}
+		}
+		send = write;
+		logger.debug('Event stream opened', { replayed: replayed.length });
+
+		const heartbeat = setInterval(() => void stream.write(': heartbeat\n\n'), config.heartbeatIntervalMs);
+		await closed;
+		clearInterval(heartbeat);
+		await unsubscribe();
+		logger.debug('Event stream closed');
+	});
+}
+
+/**
+ * Streams the seat changes, edits and cancellation of a trip.
+ *
+ * **GET /api/v1/trips/:id/events** -- Auth required, USER+
+ *
+ * Events: `seats-changed`, `trip-updated`, `trip-cancelled`.
+ *
+ * @param c - Hono request context with `id` route parameter (UUID) and an optional
+ *            `Last-Event-ID` header to resume after
+ * @returns 200 with a `text/event-stream` body,
+ *          or an error response (e.g. 404 TRIP_NOT_FOUND) before streaming starts.
+ */
+export async function streamTripEvents(c: Context): Promise<Response> {
+	const id = uuidSchema.parse(c.req.param('id'));
+	const useCase = container.resolve(GetTripUseCase);
+	const result = await useCase.execute(id);
+	if (!result.success) {
+		return resultToResponse(c, result);
+	}
+	return streamChannel(c, tripChannel(id));
+}
+
+/**
+ * Streams the events about the authenticated user's bookings, and about the
+ * trips they are booked on.
+ *
+ * **GET /api/v1/users/me/events** -- Auth required, USER+
+ *
+ * Events: `booking-updated` (as a passenger or as the driver), `trip-updated`, `trip-cancelled`.
+ *
+ * @param c - Hono request context with `userId` set on context and an optional
+ *            `Last-Event-ID` header to resume after
+ * @returns 200 with a `text/event-stream` body.
+ */
+export async function streamMyEvents(c: Context): Promise<Response> {
+	return streamChannel(c, userChannel(c.get('userId')));
+}
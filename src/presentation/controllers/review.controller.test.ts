@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the ReviewController.
+ * Covers all handlers: rateDriver, ratePassenger, listDriverReviews,
+ * and listUserReviews.
+ * Verifies pagination, userId injection from context, Zod validation,
+ * and error propagation (TRIP_NOT_COMPLETED, ALREADY_REVIEWED, DRIVER_NOT_FOUND).
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Context } from 'hono';
+import { container } from 'tsyringe';
+import { listDriverReviews, listUserReviews, rateDriver, ratePassenger } from './review.controller.js';
+import { ListDriverReviewsUseCase } from '../../application/use-cases/review/list-driver-reviews.use-case.js';
+import { ListUserReviewsUseCase } from '../../application/use-cases/review/list-user-reviews.use-case.js';
+import { RateDriverUseCase } from '../../application/use-cases/review/rate-driver.use-case.js';
+import { RatePassengerUseCase } from '../../application/use-cases/review/rate-passenger.use-case.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { AlreadyReviewedError, DriverNotFoundError, TripNotCompletedError } from '../../lib/errors/domain.errors.js';
+
+const TEST_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const TEST_USER_ID = '660e8400-e29b-41d4-a716-446655440001';
+const TEST_INSCRIPTION_ID = '770e8400-e29b-41d4-a716-446655440002';
+
+function createMockContext(overrides?: { jsonBody?: unknown; params?: Record<string, string>; queryParams?: Record<string, string>; userId?: string }) {
+	const jsonMock = vi.fn((body, status) => ({ body, status }));
+	const queryParams = overrides?.queryParams ?? {};
+	const contextValues: Record<string, unknown> = {};
+	if (overrides?.userId) {
+		contextValues['userId'] = overrides.userId;
+	}
+	return {
+		req: {
+			json: vi.fn().mockResolvedValue(overrides?.jsonBody ?? {}),
+			param: vi.fn((name: string) => overrides?.params?.[name]),
+			query: vi.fn((name: string) => queryParams[name]),
+		},
+		json: jsonMock,
+		get: vi.fn((key: string) => contextValues[key]),
+		_getJsonCall: () => jsonMock.mock.calls[0],
+	} as unknown as Context & { _getJsonCall: () => [unknown, number] };
+}
+
+describe('Review Controller', () => {
+	// Passenger rating the driver (nested resource: /trips/:id/reviews)
+	describe('rateDriver()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(RateDriverUseCase, { useValue: mockUseCase as unknown as RateDriverUseCase });
+		});
+
+		it('should return 201 with the review and userId from context', async () => {
+			const review = { id: 'review-1', score: 5, comment: 'Great' };
+			mockUseCase.execute.mockResolvedValue(ok(review));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, jsonBody: { score: 5, comment: ' Great ' }, userId: TEST_USER_ID });
+			await rateDriver(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(201);
+			expect(response).toEqual({ success: true, data: review });
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ tripId: TEST_UUID, userId: TEST_USER_ID, score: 5, comment: 'Great' });
+		});
+
+		it('should return 409 before the trip took place', async () => {
+			mockUseCase.execute.mockResolvedValue(err(new TripNotCompletedError(TEST_UUID)));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, jsonBody: { score: 4 }, userId: TEST_USER_ID });
+			await rateDriver(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(409);
+			expect(response).toHaveProperty('success', false);
+		});
+
+		it('should throw ZodError for a score out of range', async () => {
+			const ctx = createMockContext({ params: { id: TEST_UUID }, jsonBody: { score: 6 }, userId: TEST_USER_ID });
+			await expect(rateDriver(ctx)).rejects.toThrow();
+			expect(mockUseCase.execute).not.toHaveBeenCalled();
+		});
+	});
+
+	// Driver rating a passenger (nested resource: /trips/:id/passengers/:inscriptionId/review)
+	describe('ratePassenger()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(RatePassengerUseCase, { useValue: mockUseCase as unknown as RatePassengerUseCase });
+		});
+
+		it('should return 201 and pass the trip, inscription and caller', async () => {
+			const review = { id: 'review-1', score: 4, comment: null };
+			mockUseCase.execute.mockResolvedValue(ok(review));
+			const ctx = createMockContext({ params: { id: TEST_UUID, inscriptionId: TEST_INSCRIPTION_ID }, jsonBody: { score: 4 }, userId: TEST_USER_ID });
+			await ratePassenger(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(201);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ tripId: TEST_UUID, inscriptionId: TEST_INSCRIPTION_ID, userId: TEST_USER_ID, score: 4, comment: undefined });
+		});
+
+		it('should return 409 when the passenger was already rated', async () => {
+			mockUseCase.execute.mockResolvedValue(err(new AlreadyReviewedError(TEST_UUID)));
+			const ctx = createMockContext({ params: { id: TEST_UUID, inscriptionId: TEST_INSCRIPTION_ID }, jsonBody: { score: 4 }, userId: TEST_USER_ID });
+			await ratePassenger(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(409);
+		});
+
+		it('should throw ZodError for an invalid inscription id', async () => {
+			const ctx = createMockContext({ params: { id: TEST_UUID, inscriptionId: 'bad' }, jsonBody: { score: 4 }, userId: TEST_USER_ID });
+			await expect(ratePassenger(ctx)).rejects.toThrow();
+		});
+	});
+
+	// Reviews received by a driver (nested resource: /drivers/:id/reviews)
+	describe('listDriverReviews()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(ListDriverReviewsUseCase, { useValue: mockUseCase as unknown as ListDriverReviewsUseCase });
+		});
+
+		it('should return 200 and pass the driver id and pagination', async () => {
+			const paginatedResult = { data: [], meta: { page: 2, limit: 5, total: 0, totalPages: 0 } };
+			mockUseCase.execute.mockResolvedValue(ok(paginatedResult));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, queryParams: { page: '2', limit: '5' } });
+			await listDriverReviews(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: paginatedResult });
+			expect(mockUseCase.execute).toHaveBeenCalledWith(TEST_UUID, { page: 2, limit: 5 });
+		});
+
+		it('should return 404 for an unknown driver', async () => {
+			mockUseCase.execute.mockResolvedValue(err(new DriverNotFoundError(TEST_UUID)));
+			const ctx = createMockContext({ params: { id: TEST_UUID } });
+			await listDriverReviews(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(404);
+		});
+	});
+
+	// Reviews received by a passenger (nested resource: /users/:id/reviews)
+	describe('listUserReviews()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(ListUserReviewsUseCase, { useValue: mockUseCase as unknown as ListUserReviewsUseCase });
+		});
+
+		it('should return 200 and pass the user id and default pagination', async () => {
+			const paginatedResult = { data: [], meta: { page: 1, limit: 20, total: 0, totalPages: 0 } };
+			mockUseCase.execute.mockResolvedValue(ok(paginatedResult));
+			const ctx = createMockContext({ params: { id: TEST_USER_ID } });
+			await listUserReviews(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(mockUseCase.execute).toHaveBeenCalledWith(TEST_USER_ID, { page: 1, limit: 20 });
+		});
+
+		it('should throw ZodError for an invalid user id', async () => {
+			const ctx = createMockContext({ params: { id: 'bad' } });
+			await expect(listUserReviews(ctx)).rejects.toThrow();
+		});
+	});
+});
@@ -0,0 +1,102 @@
+/**
+ * @module ReviewController
+ * Handles post-trip ratings: a passenger rating the driver, the driver
+ * rating a passenger, and the paginated reviews received by a driver or a
+ * passenger. Ratings are only accepted once the trip's date has passed.
+ *
+ * All handlers are mounted as nested resource routes in the main router
+ * (e.g. POST /api/trips/:id/reviews, GET /api/drivers/:id/reviews).
+ */
+import type { Context } from 'hono';
+import { ListDriverReviewsUseCase } from '../../application/use-cases/review/list-driver-reviews.use-case.js';
+import { ListUserReviewsUseCase } from '../../application/use-cases/review/list-user-reviews.use-case.js';
+import { RateDriverUseCase } from '../../application/use-cases/review/rate-driver.use-case.js';
+import { RatePassengerUseCase } from '../../application/use-cases/review/rate-passenger.use-case.js';
+import { container } from '../../lib/shared/di/container.js';
+import { paginationSchema } from '../../lib/shared/utils/pagination.util.js';
+import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
+import { createReviewSchema } from '../../application/schemas/review.schema.js';
+import { uuidSchema } from '../../application/schemas/common.schema.js';
+
+/**
+ * Rates the driver of a past trip as one of its passengers.
+ *
+ * **POST /api/trips/:id/reviews** -- Auth required, USER+ (passenger with an ACTIVE booking)
+ *
+ * @param c - Hono request context with `id` route parameter (trip UUID) and JSON body
+ * @returns 201 with `{ success: true, data: Review }` on success,
+ *          or an error response (e.g. 409 TRIP_NOT_COMPLETED, 403 NOT_TRIP_PASSENGER, 409 ALREADY_REVIEWED).
+ *          Throws ZodError on invalid input.
+ *
+ * Request body: `{ score: number, comment?: string }`
+ */
+export async function rateDriver(c: Context): Promise<Response> {
+	const tripId = uuidSchema.parse(c.req.param('id'));
+	const { score, comment } = createReviewSchema.parse(await c.req.json());
+	const useCase = container.resolve(RateDriverUseCase);
+	const result = await useCase.execute({ tripId, userId: c.get('userId'), score, comment });
+	return resultToResponse(c, result, 201);
+}
+
+/**
+ * Rates a passenger of a past trip as its driver.
+ *
+ * **POST /api/trips/:id/passengers/:inscriptionId/review** -- Auth required, DRIVER+ (trip owner)
+ *
+ * @param c - Hono request context with `id` (trip UUID) and `inscriptionId` route parameters and JSON body
+ * @returns 201 with `{ success: true, data: Review }` on success,
+ *          or an error response (e.g. 403 FORBIDDEN, 404 INSCRIPTION_NOT_FOUND, 409 ALREADY_REVIEWED).
+ *          Throws ZodError on invalid input.
+ *
+ * Request body: `{ score: number, comment?: string }`
+ */
+export async function ratePassenger(c: Context): Promise<Response> {
+	const tripId = uuidSchema.parse(c.req.param('id'));
+	const inscriptionId = uuidSchema.parse(c.req.param('inscriptionId'));
+	const { score, comment } = createReviewSchema.parse(await c.req.json());
+	const useCase = container.resolve(RatePassengerUseCase);
+	const result = await useCase.execute({ tripId, inscriptionId, userId: c.get('userId'), score, comment });
+	return resultToResponse(c, result, 201);
+}
+
+/**
+ * Lists the reviews a driver received from passengers, newest first, with pagination.
+ *
+ * **GET /api/drivers/:id/reviews** -- Auth required, USER+
+ *
+ * @param c - Hono request context with `id` route parameter (driver UUID)
+ *            and optional `page`/`limit` query params
+ * @returns 200 with `{ success: true, data: { data: Review[], meta: PaginationMeta } }`,
+ *          or 404 DRIVER_NOT_FOUND.
+ */
+export async function listDriverReviews(c: Context): Promise<Response> {
+	const driverId = uuidSchema.parse(c.req.param('id'));
+	const pagination = paginationSchema.parse({
+		page: c.req.query('page'),
+		limit: c.req.query('limit'),
+	});
+	const useCase = container.resolve(ListDriverReviewsUseCase);
+	const result = await useCase.execute(driverId, pagination);
+	return resultToResponse(c, result);
+}
+
+/**
+ * Lists the reviews a user received from drivers as a passenger, newest first, with pagination.
+ *
+ * **GET /api/users/:id/reviews** -- Auth required, USER+
+ *
+ * @param c - Hono request context with `id` route parameter (user UUID)
+ *            and optional `page`/`limit` query params
+ * @returns 200 with `{ success: true, data: { data: Review[], meta: PaginationMeta } }`,
+ *          or 404 USER_NOT_FOUND.
+ */
+export async function listUserReviews(c: Context): Promise<Response> {
+	const userId = uuidSchema.parse(c.req.param('id'));
+	const pagination = paginationSchema.parse({
+		page: c.req.query('page'),
+		limit: c.req.query('limit'),
+	});
+	const useCase = container.resolve(ListUserReviewsUseCase);
+	const result = await useCase.execute(userId, pagination);
+	return resultToResponse(c, result);
+}
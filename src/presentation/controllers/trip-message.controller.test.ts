@@ -0,0 +1,160 @@
+/**
+ * Unit tests for the TripMessageController.
+ * Covers all handlers: listTripMessages, postTripMessage,
+ * countUnreadTripMessages, and hideTripMessage.
+ * Verifies pagination, userId/role injection from context, Zod validation,
+ * and error propagation (NOT_TRIP_PARTICIPANT, TRIP_MESSAGE_NOT_FOUND).
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Context } from 'hono';
+import { container } from 'tsyringe';
+import { countUnreadTripMessages, hideTripMessage, listTripMessages, postTripMessage } from './trip-message.controller.js';
+import { CountUnreadTripMessagesUseCase } from '../../application/use-cases/trip-message/count-unread-trip-messages.use-case.js';
+import { HideTripMessageUseCase } from '../../application/use-cases/trip-message/hide-trip-message.use-case.js';
+import { ListTripMessagesUseCase } from '../../application/use-cases/trip-message/list-trip-messages.use-case.js';
+import { PostTripMessageUseCase } from '../../application/use-cases/trip-message/post-trip-message.use-case.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { NotTripParticipantError, TripMessageNotFoundError } from '../../lib/errors/domain.errors.js';
+
+const TEST_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const TEST_USER_ID = '660e8400-e29b-41d4-a716-446655440001';
+const TEST_MESSAGE_ID = '770e8400-e29b-41d4-a716-446655440002';
+
+function createMockContext(overrides?: { jsonBody?: unknown; params?: Record<string, string>; queryParams?: Record<string, string>; userId?: string; role?: string }) {
+	const jsonMock = vi.fn((body, status) => ({ body, status }));
+	const queryParams = overrides?.queryParams ?? {};
+	const contextValues: Record<string, unknown> = {};
+	if (overrides?.userId) {
+		contextValues['userId'] = overrides.userId;
+	}
+	if (overrides?.role) {
+		contextValues['role'] = overrides.role;
+	}
+	return {
+		req: {
+			json: vi.fn().mockResolvedValue(overrides?.jsonBody ?? {}),
+			param: vi.fn((name: string) => overrides?.params?.[name]),
+			query: vi.fn((name: string) => queryParams[name]),
+		},
+		json: jsonMock,
+		get: vi.fn((key: string) => contextValues[key]),
+		_getJsonCall: () => jsonMock.mock.calls[0],
+	} as unknown as Context & { _getJsonCall: () => [unknown, number] };
+}
+
+describe('TripMessage Controller', () => {
+	// Paginated conversation (nested resource: /trips/:id/messages)
+	describe('listTripMessages()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(ListTripMessagesUseCase, { useValue: mockUseCase as unknown as ListTripMessagesUseCase });
+		});
+
+		it('should return 200 and pass the trip id, caller and pagination', async () => {
+			const paginatedResult = { data: [], meta: { page: 2, limit: 5, total: 0, totalPages: 0 } };
+			mockUseCase.execute.mockResolvedValue(ok(paginatedResult));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, queryParams: { page: '2', limit: '5' }, userId: TEST_USER_ID, role: 'USER' });
+			await listTripMessages(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: paginatedResult });
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ tripId: TEST_UUID, userId: TEST_USER_ID, role: 'USER' }, { page: 2, limit: 5 });
+		});
+
+		it('should return 403 for a user outside the trip', async () => {
+			mockUseCase.execute.mockResolvedValue(err(new NotTripParticipantError(TEST_UUID)));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, userId: TEST_USER_ID, role: 'USER' });
+			await listTripMessages(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(403);
+			expect(response).toHaveProperty('success', false);
+		});
+
+		it('should throw ZodError for an invalid trip id', async () => {
+			const ctx = createMockContext({ params: { id: 'bad' }, userId: TEST_USER_ID });
+			await expect(listTripMessages(ctx)).rejects.toThrow();
+		});
+	});
+
+	// Posting with the author injected from auth context
+	describe('postTripMessage()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(PostTripMessageUseCase, { useValue: mockUseCase as unknown as PostTripMessageUseCase });
+		});
+
+		it('should return 201 with the trimmed body and userId from context', async () => {
+			const message = { id: TEST_MESSAGE_ID, body: 'On my way' };
+			mockUseCase.execute.mockResolvedValue(ok(message));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, jsonBody: { body: '  On my way ' }, userId: TEST_USER_ID });
+			await postTripMessage(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(201);
+			expect(response).toEqual({ success: true, data: message });
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ tripId: TEST_UUID, userId: TEST_USER_ID, body: 'On my way' });
+		});
+
+		it('should throw ZodError for a blank body', async () => {
+			const ctx = createMockContext({ params: { id: TEST_UUID }, jsonBody: { body: ' ' }, userId: TEST_USER_ID });
+			await expect(postTripMessage(ctx)).rejects.toThrow();
+			expect(mockUseCase.execute).not.toHaveBeenCalled();
+		});
+	});
+
+	// Unread count (nested resource: /trips/:id/messages/unread)
+	describe('countUnreadTripMessages()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(CountUnreadTripMessagesUseCase, { useValue: mockUseCase as unknown as CountUnreadTripMessagesUseCase });
+		});
+
+		it('should return 200 with the unread count', async () => {
+			mockUseCase.execute.mockResolvedValue(ok({ tripId: TEST_UUID, unreadCount: 4 }));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, userId: TEST_USER_ID });
+			await countUnreadTripMessages(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: { tripId: TEST_UUID, unreadCount: 4 } });
+			expect(mockUseCase.execute).toHaveBeenCalledWith(TEST_UUID, TEST_USER_ID);
+		});
+	});
+
+	// Admin moderation (nested resource: /trips/:id/messages/:messageId/hide)
+	describe('hideTripMessage()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(HideTripMessageUseCase, { useValue: mockUseCase as unknown as HideTripMessageUseCase });
+		});
+
+		it('should return 200 with the hidden message', async () => {
+			const message = { id: TEST_MESSAGE_ID, hiddenAt: new Date() };
+			mockUseCase.execute.mockResolvedValue(ok(message));
+			const ctx = createMockContext({ params: { id: TEST_UUID, messageId: TEST_MESSAGE_ID }, userId: TEST_USER_ID, role: 'ADMIN' });
+			await hideTripMessage(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(mockUseCase.execute).toHaveBeenCalledWith(TEST_UUID, TEST_MESSAGE_ID);
+		});
+
+		it('should return 404 when the message is not part of the trip', async () => {
+			mockUseCase.execute.mockResolvedValue(err(new TripMessageNotFoundError(TEST_MESSAGE_ID)));
+			const ctx = createMockContext({ params: { id: TEST_UUID, messageId: TEST_MESSAGE_ID }, role: 'ADMIN' });
+			await hideTripMessage(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(404);
+		});
+
+		it('should throw ZodError for an invalid message id', async () => {
+			const ctx = createMockContext({ params: { id: TEST_UUID, messageId: 'bad' }, role: 'ADMIN' });
+			await expect(hideTripMessage(ctx)).rejects.toThrow();
+		});
+	});
+});
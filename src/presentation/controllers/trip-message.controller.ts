@@ -0,0 +1,97 @@
+/**
+ * @module TripMessageController
+ * Handles the per-trip conversation between a driver and the passengers
+ * holding an ACTIVE booking: listing, posting, unread counts, and the
+ * admin moderation action that hides a message.
+ *
+ * All handlers are mounted as nested resource routes in the main router
+ * (e.g. GET /api/trips/:id/messages, POST /api/trips/:id/messages/:messageId/hide).
+ */
+import type { Context } from 'hono';
+import { CountUnreadTripMessagesUseCase } from '../../application/use-cases/trip-message/count-unread-trip-messages.use-case.js';
+import { HideTripMessageUseCase } from '../../application/use-cases/trip-message/hide-trip-message.use-case.js';
+import { ListTripMessagesUseCase } from '../../application/use-cases/trip-message/list-trip-messages.use-case.js';
+import { PostTripMessageUseCase } from '../../application/use-cases/trip-message/post-trip-message.use-case.js';
+import { container } from '../../lib/shared/di/container.js';
+import { paginationSchema } from '../../lib/shared/utils/pagination.util.js';
+import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
+import { postTripMessageSchema } from '../../application/schemas/trip-message.schema.js';
+import { uuidSchema } from '../../application/schemas/common.schema.js';
+
+/**
+ * Lists the messages of a trip's conversation, newest first, with pagination.
+ * Participants see visible messages only and the conversation is marked as
+ * read for them; admins see hidden messages too.
+ *
+ * **GET /api/trips/:id/messages** -- Auth required, USER+ (trip participant or ADMIN)
+ *
+ * @param c - Hono request context with `id` route parameter (trip UUID)
+ *            and optional `page`/`limit` query params
+ * @returns 200 with `{ success: true, data: { data: TripMessage[], meta: PaginationMeta } }`,
+ *          or an error response (e.g. 404 TRIP_NOT_FOUND, 403 NOT_TRIP_PARTICIPANT).
+ */
+export async function listTripMessages(c: Context): Promise<Response> {
+	const tripId = uuidSchema.parse(c.req.param('id'));
+	const pagination = paginationSchema.parse({
+		page: c.req.query('page'),
+		limit: c.req.query('limit'),
+	});
+	const useCase = container.resolve(ListTripMessagesUseCase);
+	const result = await useCase.execute({ tripId, userId: c.get('userId'), role: c.get('role') }, pagination);
+	return resultToResponse(c, result);
+}
+
+/**
+ * Posts a message to a trip's conversation as the authenticated user.
+ *
+ * **POST /api/trips/:id/messages** -- Auth required, USER+ (trip participant)
+ *
+ * @param c - Hono request context with `id` route parameter (trip UUID) and JSON body
+ * @returns 201 with `{ success: true, data: TripMessage }` on success,
+ *          or an error response (e.g. 404 TRIP_NOT_FOUND, 403 NOT_TRIP_PARTICIPANT).
+ *          Throws ZodError on invalid input.
+ *
+ * Request body: `{ body: string }`
+ */
+export async function postTripMessage(c: Context): Promise<Response> {
+	const tripId = uuidSchema.parse(c.req.param('id'));
+	const { body } = postTripMessageSchema.parse(await c.req.json());
+	const useCase = container.resolve(PostTripMessageUseCase);
+	const result = await useCase.execute({ tripId, userId: c.get('userId'), body });
+	return resultToResponse(c, result, 201);
+}
+
+/**
+ * Returns how many messages of a trip's conversation the authenticated user
+ * has not read yet.
+ *
+ * **GET /api/trips/:id/messages/unread** -- Auth required, USER+ (trip participant)
+ *
+ * @param c - Hono request context with `id` route parameter (trip UUID)
+ * @returns 200 with `{ success: true, data: { tripId, unreadCount } }`,
+ *          or an error response (e.g. 404 TRIP_NOT_FOUND, 403 NOT_TRIP_PARTICIPANT).
+ */
+export async function countUnreadTripMessages(c: Context): Promise<Response> {
+	const tripId = uuidSchema.parse(c.req.param('id'));
+	const useCase = container.resolve(CountUnreadTripMessagesUseCase);
+	const result = await useCase.execute(tripId, c.get('userId'));
+	return resultToResponse(c, result);
+}
+
+/**
+ * Hides a message from the trip's participants. The message is kept for
+ * moderation and stays visible to admins.
+ *
+ * **POST /api/trips/:id/messages/:messageId/hide** -- Auth required, ADMIN
+ *
+ * @param c - Hono request context with `id` (trip UUID) and `messageId` route parameters
+ * @returns 200 with `{ success: true, data: TripMessage }` on success,
+ *          or an error response (e.g. 404 TRIP_NOT_FOUND, 404 TRIP_MESSAGE_NOT_FOUND).
+ */
+export async function hideTripMessage(c: Context): Promise<Response> {
+	const tripId = uuidSchema.parse(c.req.param('id'));
+	const messageId = uuidSchema.parse(c.req.param('messageId'));
+	const useCase = container.resolve(HideTripMessageUseCase);
+	const result = await useCase.execute(tripId, messageId);
+	return resultToResponse(c, result);
+}
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for the TripSeriesController.
+ * Covers all handlers: listTripSeries, getTripSeries, createTripSeries,
+ * updateTripSeries, updateTripSeriesOccurrence and deleteTripSeries.
+ * Verifies pagination, userId injection from context, Zod validation, the
+ * optional cancellation body, and error propagation (TRIP_SERIES_NOT_FOUND,
+ * TRIP_SERIES_NOT_ACTIVE).
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Context } from 'hono';
+import { container, type InjectionToken } from 'tsyringe';
+import {
+	createTripSeries,
+	deleteTripSeries,
+	getTripSeries,
+	listTripSeries,
+	updateTripSeries,
+	updateTripSeriesOccurrence,
+} from './trip-series.controller.js';
+import { CreateTripSeriesUseCase } from '../../application/use-cases/trip-series/create-trip-series.use-case.js';
+import { DeleteTripSeriesUseCase } from '../../application/use-cases/trip-series/delete-trip-series.use-case.js';
+import { GetTripSeriesUseCase } from '../../application/use-cases/trip-series/get-trip-series.use-case.js';
+import { ListTripSeriesUseCase } from '../../application/use-cases/trip-series/list-trip-series.use-case.js';
+import { UpdateTripSeriesOccurrenceUseCase } from '../../application/use-cases/trip-series/update-trip-series-occurrence.use-case.js';
+import { UpdateTripSeriesUseCase } from '../../application/use-cases/trip-series/update-trip-series.use-case.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+import { TripSeriesNotActiveError, TripSeriesNotFoundError } from '../../lib/errors/domain.errors.js';
+
+const TEST_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const TEST_USER_ID = '660e8400-e29b-41d4-a716-446655440001';
+const TEST_TRIP_ID = '770e8400-e29b-41d4-a716-446655440002';
+
+function createMockContext(overrides?: { jsonBody?: unknown; jsonError?: boolean; params?: Record<string, string>; queryParams?: Record<string, string>; userId?: string }) {
+	const jsonMock = vi.fn((body, status) => ({ body, status }));
+	const bodyMock = vi.fn((body, status) => new Response(body, { status }));
+	const queryParams = overrides?.queryParams ?? {};
+	const contextValues: Record<string, unknown> = {};
+	if (overrides?.userId) {
+		contextValues['userId'] = overrides.userId;
+	}
+	return {
+		req: {
+			json: overrides?.jsonError ? vi.fn().mockRejectedValue(new SyntaxError('Unexpected end of JSON input')) : vi.fn().mockResolvedValue(overrides?.jsonBody ?? {}),
+			param: vi.fn((name: string) => overrides?.params?.[name]),
+			query: vi.fn((name: string) => queryParams[name]),
+		},
+		json: jsonMock,
+		body: bodyMock,
+		get: vi.fn((key: string) => contextValues[key]),
+		_getJsonCall: () => jsonMock.mock.calls[0],
+		_getBodyCall: () => bodyMock.mock.calls[0],
+	} as unknown as Context & { _getJsonCall: () => [unknown, number]; _getBodyCall: () => [unknown, number] };
+}
+
+function registerMockUseCase<T>(token: InjectionToken<T>) {
+	const mockUseCase = { execute: vi.fn() };
+	container.register(token, { useValue: mockUseCase as unknown as T });
+	return mockUseCase;
+}
+
+describe('Trip Series Controller', () => {
+	beforeEach(() => {
+		container.clearInstances();
+	});
+
+	describe('listTripSeries()', () => {
+		it('should return 200 with the series of the authenticated driver', async () => {
+			const mockUseCase = registerMockUseCase(ListTripSeriesUseCase);
+			const page = { data: [], meta: { page: 2, limit: 5, total: 0, totalPages: 0 } };
+			mockUseCase.execute.mockResolvedValue(ok(page));
+			const ctx = createMockContext({ queryParams: { page: '2', limit: '5' }, userId: TEST_USER_ID });
+			await listTripSeries(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(response).toEqual({ success: true, data: page });
+			expect(mockUseCase.execute).toHaveBeenCalledWith(TEST_USER_ID, { page: 2, limit: 5 });
+		});
+	});
+
+	describe('getTripSeries()', () => {
+		it('should return 200 with the series', async () => {
+			const mockUseCase = registerMockUseCase(GetTripSeriesUseCase);
+			mockUseCase.execute.mockResolvedValue(ok({ id: TEST_UUID, occurrences: [] }));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, userId: TEST_USER_ID });
+			await getTripSeries(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ id: TEST_UUID, userId: TEST_USER_ID });
+		});
+
+		it('should return 404 for an unknown series', async () => {
+			const mockUseCase = registerMockUseCase(GetTripSeriesUseCase);
+			mockUseCase.execute.mockResolvedValue(err(new TripSeriesNotFoundError(TEST_UUID)));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, userId: TEST_USER_ID });
+			await getTripSeries(ctx);
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(404);
+			expect(response).toHaveProperty('success', false);
+		});
+
+		it('should throw on an invalid UUID', async () => {
+			registerMockUseCase(GetTripSeriesUseCase);
+			const ctx = createMockContext({ params: { id: 'not-a-uuid' }, userId: TEST_USER_ID });
+			await expect(getTripSeries(ctx)).rejects.toThrow();
+		});
+	});
+
+	describe('createTripSeries()', () => {
+		const body = { daysOfWeek: [1, 5], departureTime: '07:45', startDate: '2026-10-19', kms: 60, departureCity: 'Versailles', arrivalCity: 'Paris', seats: 3, carId: 'car-1' };
+
+		it('should return 201 with userId from context', async () => {
+			const mockUseCase = registerMockUseCase(CreateTripSeriesUseCase);
+			mockUseCase.execute.mockResolvedValue(ok({ id: TEST_UUID }));
+			const ctx = createMockContext({ jsonBody: body, userId: TEST_USER_ID });
+			await createTripSeries(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(201);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ ...body, userId: TEST_USER_ID });
+		});
+
+		it('should throw ZodError without days of the week', async () => {
+			registerMockUseCase(CreateTripSeriesUseCase);
+			const ctx = createMockContext({ jsonBody: { ...body, daysOfWeek: [] }, userId: TEST_USER_ID });
+			await expect(createTripSeries(ctx)).rejects.toThrow();
+		});
+	});
+
+	describe('updateTripSeries()', () => {
+		it('should return 200 with the updated series', async () => {
+			const mockUseCase = registerMockUseCase(UpdateTripSeriesUseCase);
+			mockUseCase.execute.mockResolvedValue(ok({ id: TEST_UUID, endDate: null }));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, jsonBody: { endDate: null }, userId: TEST_USER_ID });
+			await updateTripSeries(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ endDate: null, id: TEST_UUID, userId: TEST_USER_ID });
+		});
+
+		it('should return 409 for a cancelled series', async () => {
+			const mockUseCase = registerMockUseCase(UpdateTripSeriesUseCase);
+			mockUseCase.execute.mockResolvedValue(err(new TripSeriesNotActiveError(TEST_UUID)));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, jsonBody: { seats: 2 }, userId: TEST_USER_ID });
+			await updateTripSeries(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(409);
+		});
+	});
+
+	describe('updateTripSeriesOccurrence()', () => {
+		it('should return 200 with the updated occurrence', async () => {
+			const mockUseCase = registerMockUseCase(UpdateTripSeriesOccurrenceUseCase);
+			mockUseCase.execute.mockResolvedValue(ok({ id: TEST_TRIP_ID, seats: 2 }));
+			const ctx = createMockContext({ params: { id: TEST_UUID, tripId: TEST_TRIP_ID }, jsonBody: { seats: 2 }, userId: TEST_USER_ID });
+			await updateTripSeriesOccurrence(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(200);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ seats: 2, seriesId: TEST_UUID, tripId: TEST_TRIP_ID, userId: TEST_USER_ID });
+		});
+	});
+
+	describe('deleteTripSeries()', () => {
+		it('should return 204 and pass the reason', async () => {
+			const mockUseCase = registerMockUseCase(DeleteTripSeriesUseCase);
+			mockUseCase.execute.mockResolvedValue(ok(undefined));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, jsonBody: { reason: 'New job' }, userId: TEST_USER_ID });
+			await deleteTripSeries(ctx);
+			const [, status] = ctx._getBodyCall();
+			expect(status).toBe(204);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ id: TEST_UUID, userId: TEST_USER_ID, reason: 'New job' });
+		});
+
+		it('should treat a missing body as no reason', async () => {
+			const mockUseCase = registerMockUseCase(DeleteTripSeriesUseCase);
+			mockUseCase.execute.mockResolvedValue(ok(undefined));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, jsonError: true, userId: TEST_USER_ID });
+			await deleteTripSeries(ctx);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ id: TEST_UUID, userId: TEST_USER_ID, reason: undefined });
+		});
+
+		it('should return 409 for a series already cancelled', async () => {
+			const mockUseCase = registerMockUseCase(DeleteTripSeriesUseCase);
+			mockUseCase.execute.mockResolvedValue(err(new TripSeriesNotActiveError(TEST_UUID)));
+			const ctx = createMockContext({ params: { id: TEST_UUID }, userId: TEST_USER_ID });
+			await deleteTripSeries(ctx);
+			const [, status] = ctx._getJsonCall();
+			expect(status).toBe(409);
+		});
+	});
+});
@@ -0,0 +1,148 @@
+/**
+ * @module TripSeriesController
+ * Handles recurring trips (trip series) offered by drivers, such as a daily
+ * commute: creating a series, listing and viewing a driver's series, editing
+ * the whole series or a single occurrence, and cancelling a series along
+ * with its upcoming occurrences. Occurrences are ordinary trips; cancelling a
+ * single one goes through DELETE /api/trips/:id.
+ *
+ * All endpoints require authentication and the DRIVER+ role.
+ */
+import type { Context } from 'hono';
+import { CreateTripSeriesUseCase } from '../../application/use-cases/trip-series/create-trip-series.use-case.js';
+import { DeleteTripSeriesUseCase } from '../../application/use-cases/trip-series/delete-trip-series.use-case.js';
+import { GetTripSeriesUseCase } from '../../application/use-cases/trip-series/get-trip-series.use-case.js';
+import { ListTripSeriesUseCase } from '../../application/use-cases/trip-series/list-trip-series.use-case.js';
+import { UpdateTripSeriesOccurrenceUseCase } from '../../application/use-cases/trip-series/update-trip-series-occurrence.use-case.js';
+import { UpdateTripSeriesUseCase } from '../../application/use-cases/trip-series/update-trip-series.use-case.js';
+import { container } from '../../lib/shared/di/container.js';
+import { paginationSchema } from '../../lib/shared/utils/pagination.util.js';
+import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
+import { createTripSeriesSchema, updateTripSeriesOccurrenceSchema, updateTripSeriesSchema } from '../../application/schemas/trip-series.schema.js';
+import { cancelTripSchema } from '../../application/schemas/trip.schema.js';
+import { uuidSchema } from '../../application/schemas/common.schema.js';
+
+/**
+ * Lists the series of the authenticated driver, newest first, with pagination.
+ *
+ * **GET /api/trips/series** -- Auth required, DRIVER+
+ *
+ * @param c - Hono request context with optional `page`/`limit` query params
+ * @returns 200 with `{ success: true, data: { data: TripSeries[], meta: PaginationMeta } }`,
+ *          or 404 DRIVER_NOT_FOUND.
+ */
+export async function listTripSeries(c: Context): Promise<Response> {
+	const pagination = paginationSchema.parse({
+		page: c.req.query('page'),
+		limit: c.req.query('limit'),
+	});
+	const useCase = container.resolve(ListTripSeriesUseCase);
+	const result = await useCase.execute(c.get('userId'), pagination);
+	return resultToResponse(c, result);
+}
+
+/**
+ * Gets a series of the authenticated driver with its occurrences from today on.
+ *
+ * **GET /api/trips/series/:id** -- Auth required, DRIVER+ (series owner)
+ *
+ * @param c - Hono request context with `id` route parameter (series UUID)
+ * @returns 200 with `{ success: true, data: TripSeries & { occurrences: Trip[] } }`,
+ *          or an error response (e.g. 404 TRIP_SERIES_NOT_FOUND, 403 FORBIDDEN).
+ */
+export async function getTripSeries(c: Context): Promise<Response> {
+	const id = uuidSchema.parse(c.req.param('id'));
+	const useCase = container.resolve(GetTripSeriesUseCase);
+	const result = await useCase.execute({ id, userId: c.get('userId') });
+	return resultToResponse(c, result);
+}
+
+/**
+ * Creates a series. The authenticated user is set as the driver, and the
+ * occurrences within the materialization horizon are created right away.
+ *
+ * **POST /api/trips/series** -- Auth required, DRIVER+
+ *
+ * @param c - Hono request context with JSON body and `userId` set on context
+ * @returns 201 with `{ success: true, data: TripSeries }` on success,
+ *          or an error response (e.g. 404 CAR_NOT_FOUND). Throws ZodError on invalid input.
+ *
+ * Request body: `{ daysOfWeek: number[], departureTime: string, startDate: string, endDate?: string, exceptions?: string[], kms: number, departureCity: string, arrivalCity: string, stops?: string[], seats: number, carId: string, pricePerSeat?: number, requiresApproval?: boolean }`
+ */
+export async function createTripSeries(c: Context): Promise<Response> {
+	const validated = createTripSeriesSchema.parse(await c.req.json());
+	const useCase = container.resolve(CreateTripSeriesUseCase);
+	const result = await useCase.execute({ ...validated, userId: c.get('userId') });
+	return resultToResponse(c, result, 201);
+}
+
+/**
+ * Edits a whole series. The change applies to its upcoming occurrences, except
+ * those edited on their own; occurrences on days the series no longer runs on
+ * are cancelled.
+ *
+ * **PATCH /api/trips/series/:id** -- Auth required, DRIVER+ (series owner)
+ *
+ * @param c - Hono request context with `id` route parameter (series UUID) and JSON body
+ * @returns 200 with `{ success: true, data: TripSeries }` on success,
+ *          or an error response (e.g. 409 TRIP_SERIES_NOT_ACTIVE, 400 INVALID_TRIP_SERIES_SCHEDULE).
+ *          Throws ZodError on invalid input.
+ *
+ * Request body (at least one field): `{ daysOfWeek?: number[], departureTime?: string, endDate?: string | null, exceptions?: string[], kms?: number, seats?: number, pricePerSeat?: number, requiresApproval?: boolean }`
+ */
+export async function updateTripSeries(c: Context): Promise<Response> {
+	const id = uuidSchema.parse(c.req.param('id'));
+	const validated = updateTripSeriesSchema.parse(await c.req.json());
+	const useCase = container.resolve(UpdateTripSeriesUseCase);
+	const result = await useCase.execute({ ...validated, id, userId: c.get('userId') });
+	return resultToResponse(c, result);
+}
+
+/**
+ * Edits a single occurrence of a series, which then keeps its own values when
+ * the series is edited.
+ *
+ * **PATCH /api/trips/series/:id/occurrences/:tripId** -- Auth required, DRIVER+ (series owner)
+ *
+ * @param c - Hono request context with `id` (series UUID) and `tripId` route parameters and JSON body
+ * @returns 200 with `{ success: true, data: Trip }` on success,
+ *          or an error response (e.g. 404 TRIP_NOT_FOUND, 409 TRIP_NOT_EDITABLE, 409 SEATS_BELOW_BOOKINGS).
+ *          Throws ZodError on invalid input.
+ *
+ * Request body (at least one field): `{ date?: string, kms?: number, seats?: number, pricePerSeat?: number, requiresApproval?: boolean }`
+ */
+export async function updateTripSeriesOccurrence(c: Context): Promise<Response> {
+	const seriesId = uuidSchema.parse(c.req.param('id'));
+	const tripId = uuidSchema.parse(c.req.param('tripId'));
+	const validated = updateTripSeriesOccurrenceSchema.parse(await c.req.json());
+	const useCase = container.resolve(UpdateTripSeriesOccurrenceUseCase);
+	const result = await useCase.execute({ ...validated, seriesId, tripId, userId: c.get('userId') });
+	return resultToResponse(c, result);
+}
+
+/**
+ * Cancels a series and its upcoming occurrences. The series and its trips
+ * are kept with status CANCELLED, and the booked passengers are notified.
+ *
+ * **DELETE /api/trips/series/:id** -- Auth required, DRIVER+ (series owner)
+ *
+ * The JSON body is optional; a missing or unparsable body is treated as empty.
+ *
+ * @param c - Hono request context with `id` route parameter (series UUID)
+ * @returns 204 (no content) on success,
+ *          or an error response (e.g. 404 TRIP_SERIES_NOT_FOUND, 409 TRIP_SERIES_NOT_ACTIVE).
+ *          Throws ZodError on an invalid reason.
+ *
+ * Request body (optional): `{ reason?: string }`
+ */
+export async function deleteTripSeries(c: Context): Promise<Response> {
+	const id = uuidSchema.parse(c.req.param('id'));
+	const body = await c.req.json().catch(() => ({}));
+	const { reason } = cancelTripSchema.parse(body);
+	const useCase = container.resolve(DeleteTripSeriesUseCase);
+	const result = await useCase.execute({ id, userId: c.get('userId'), reason });
+	if (!result.success) {
+		return resultToResponse(c, result);
+	}
+	return c.body(null, 204);
+}
@@ -102,7 +102,10 @@ describe('Trip Controller', () => {
             mockUseCase.execute.mockResolvedValue(ok([]));
             const ctx = createMockContext({ queryParams: { departureCity: 'Paris', arrivalCity: 'Lyon', date: '2025-06-15' } });
             await findTrip(ctx);
-            expect(mockUseCase.execute).toHaveBeenCalledWith({ departureCity: 'Paris', arrivalCity: 'Lyon', date: '2025-06-15' });
+            expect(mockUseCase.execute).toHaveBeenCalledWith(
+                { departureCity: 'Paris', arrivalCity: 'Lyon', date: '2025-06-15', sortBy: 'departureTime', sortOrder: 'asc' },
+                { page: 1, limit: 20 },
+            );
             const [, status] = ctx._getJsonCall();
             expect(status).toBe(200);
         });
@@ -111,7 +114,40 @@ describe('Trip Controller', () => {
             mockUseCase.execute.mockResolvedValue(ok([]));
             const ctx = createMockContext({ queryParams: {} });
             await findTrip(ctx);
-            expect(mockUseCase.execute).toHaveBeenCalledWith({ departureCity: undefined, arrivalCity: undefined, date: undefined });
+            expect(mockUseCase.execute).toHaveBeenCalledWith(
+                { departureCity: undefined, arrivalCity: undefined, date: undefined, sortBy: 'departureTime', sortOrder: 'asc' },
+                { page: 1, limit: 20 },
+            );
+        });
+
+        it('should coerce numeric filters and pass sort and pagination', async () => {
+            mockUseCase.execute.mockResolvedValue(ok({ data: [], meta: { page: 2, limit: 5, total: 0, totalPages: 0 } }));
+            const ctx = createMockContext({
+                queryParams: {
+                    dateFrom: '2025-06-15', dateTo: '2025-06-20', departureTimeFrom: '07:00', departureTimeTo: '09:30',
+                    minSeats: '2', maxPrice: '1500', sortBy: 'remainingSeats', sortOrder: 'desc', page: '2', limit: '5',
+                },
+            });
+            await findTrip(ctx);
+            expect(mockUseCase.execute).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    dateFrom: '2025-06-15', dateTo: '2025-06-20', departureTimeFrom: '07:00', departureTimeTo: '09:30',
+                    minSeats: 2, maxPrice: 1500, sortBy: 'remainingSeats', sortOrder: 'desc',
+                }),
+                { page: 2, limit: 5 },
+            );
+        });
+
+        it('should throw ZodError when dateFrom is after dateTo', async () => {
+            const ctx = createMockContext({ queryParams: { dateFrom: '2025-06-20', dateTo: '2025-06-15' } });
+            await expect(findTrip(ctx)).rejects.toThrow();
+            expect(mockUseCase.execute).not.toHaveBeenCalled();
+        });
+
+        it('should throw ZodError on a malformed departure time', async () => {
+            const ctx = createMockContext({ queryParams: { departureTimeFrom: '7h' } });
+            await expect(findTrip(ctx)).rejects.toThrow();
+            expect(mockUseCase.execute).not.toHaveBeenCalled();
         });
     });
 
@@ -157,11 +193,25 @@ describe('Trip Controller', () => {
             container.register(DeleteTripUseCase, { useValue: mockUseCase as unknown as DeleteTripUseCase });
         });
 
-        it('should return 204 on successful delete', async () => {
+        it('should return 204 on successful cancellation', async () => {
             mockUseCase.execute.mockResolvedValue(ok(undefined));
             const ctx = createMockContext({ params: { id: TEST_UUID }, userId: TEST_USER_ID });
             const response = await deleteTrip(ctx);
             expect(response.status).toBe(204);
+            expect(mockUseCase.execute).toHaveBeenCalledWith({ id: TEST_UUID, userId: TEST_USER_ID, reason: undefined });
+        });
+
+        it('should pass the optional reason to the use case', async () => {
+            mockUseCase.execute.mockResolvedValue(ok(undefined));
+            const ctx = createMockContext({ params: { id: TEST_UUID }, userId: TEST_USER_ID, jsonBody: { reason: '  Car broke down ' } });
+            await deleteTrip(ctx);
+            expect(mockUseCase.execute).toHaveBeenCalledWith({ id: TEST_UUID, userId: TEST_USER_ID, reason: 'Car broke down' });
+        });
+
+        it('should throw ZodError for an empty reason', async () => {
+            const ctx = createMockContext({ params: { id: TEST_UUID }, userId: TEST_USER_ID, jsonBody: { reason: '   ' } });
+            await expect(deleteTrip(ctx)).rejects.toThrow();
+            expect(mockUseCase.execute).not.toHaveBeenCalled();
         });
 
         it('should return error when trip not found', async () => {
@@ -2,7 +2,7 @@
  * @module TripController
  * Handles trip CRUD operations for the carpooling platform.
  * All endpoints require authentication. Listing, searching, and getting require
- * USER+ role; creation and deletion require DRIVER+ role.
+ * USER+ role; creation and cancellation require DRIVER+ role.
  */
 import type { Context } from 'hono';
 import { CreateTripUseCase } from '../../application/use-cases/trip/create-trip.use-case.js';
@@ -12,10 +12,12 @@ import { GetTripUseCase } from '../../application/use-cases/trip/get-trip.use-ca
 import { ListTripsUseCase } from '../../application/use-cases/trip/list-trips.use-case.js';
 import { container } from '../../lib/shared/di/container.js';
 import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
-import { createTripSchema, findTripQuerySchema } from '../../application/schemas/trip.schema.js';
+import { cancelTripSchema, createTripSchema, findTripQuerySchema, tripPriceSuggestionQuerySchema } from '../../application/schemas/trip.schema.js';
 import type { CreateTripSchemaType } from '../../application/schemas/trip.schema.js';
 import type { WithAuthContext } from '../../lib/shared/types/auth-context.js';
 import { uuidSchema } from '../../application/schemas/common.schema.js';
+import { suggestPricePerSeat } from '../../domain/pricing/trip-pricing.js';
+import { paginationSchema } from '../../lib/shared/utils/pagination.util.js';
 
 /**
  * Lists all available trips.
@@ -48,26 +50,65 @@ export async function getTrip(c: Context): Promise<Response> {
 }
 
 /**
- * Searches for trips by departure city, arrival city, and/or date.
+ * Searches for trips by route (city names or areas around a point), dates,
+ * departure time, seats needed and price, with sorting and pagination.
  *
  * **GET /api/trips/search** -- Auth required, USER+
  *
  * @param c - Hono request context with optional query params:
- *            `departureCity`, `arrivalCity`, `date` (ISO date string)
- * @returns 200 with `{ success: true, data: Trip[] }` matching the search criteria
+ *            `departureCity`, `arrivalCity`, `departureLat`, `departureLng`, `departureRadiusKm`,
+ *            `arrivalLat`, `arrivalLng`, `arrivalRadiusKm` (decimal degrees, kilometers),
+ *            `date`, `dateFrom`, `dateTo` (ISO date strings),
+ *            `departureTimeFrom`, `departureTimeTo` (`HH:MM`), `minSeats`, `maxPrice` (euro cents),
+ *            `sortBy` (`departureTime` | `remainingSeats` | `pickupDistance`), `sortOrder` (`asc` | `desc`),
+ *            `page` and `limit`
+ * @returns 200 with `{ success: true, data: { data: TripSearchResult[], meta: PaginationMeta } }`
+ *          matching the search criteria. Throws ZodError on invalid input.
  */
 export async function findTrip(c: Context): Promise<Response> {
     const validated = findTripQuerySchema.parse({
         departureCity: c.req.query('departureCity'),
         arrivalCity: c.req.query('arrivalCity'),
+        departureLat: c.req.query('departureLat'),
+        departureLng: c.req.query('departureLng'),
+        departureRadiusKm: c.req.query('departureRadiusKm'),
+        arrivalLat: c.req.query('arrivalLat'),
+        arrivalLng: c.req.query('arrivalLng'),
+        arrivalRadiusKm: c.req.query('arrivalRadiusKm'),
         date: c.req.query('date'),
+        dateFrom: c.req.query('dateFrom'),
+        dateTo: c.req.query('dateTo'),
+        departureTimeFrom: c.req.query('departureTimeFrom'),
+        departureTimeTo: c.req.query('departureTimeTo'),
+        minSeats: c.req.query('minSeats'),
+        maxPrice: c.req.query('maxPrice'),
+        sortBy: c.req.query('sortBy'),
+        sortOrder: c.req.query('sortOrder'),
+    });
+    const pagination = paginationSchema.parse({
+        page: c.req.query('page'),
+        limit: c.req.query('limit'),
     });
 
     const useCase = container.resolve(FindTripUseCase);
-    const result = await useCase.execute(validated);
+    const result = await useCase.execute(validated, pagination);
     return resultToResponse(c, result);
 }
 
+/**
+ * Suggests a per-seat price for a trip of the given distance.
+ *
+ * **GET /api/trips/price-suggestion** -- Auth required, USER+
+ *
+ * @param c - Hono request context with the `kms` query param (positive integer)
+ * @returns 200 with `{ success: true, data: { kms, suggestedPricePerSeat } }`,
+ *          the price being expressed in euro cents. Throws ZodError on invalid input.
+ */
+export async function suggestTripPrice(c: Context): Promise<Response> {
+    const { kms } = tripPriceSuggestionQuerySchema.parse({ kms: c.req.query('kms') });
+    return c.json({ success: true, data: { kms, suggestedPricePerSeat: suggestPricePerSeat(kms) } });
+}
+
 /**
  * Creates a new trip. The authenticated user is set as the driver.
  *
@@ -80,7 +121,7 @@ export async function findTrip(c: Context): Promise<Response> {
  * @returns 201 with `{ success: true, data: Trip }` on success.
  *          Throws ZodError on invalid input.
  *
- * Request body: `{ kms: number, date: string, departureCity: string, arrivalCity: string, seats: number, carId: string }`
+ * Request body: `{ kms: number, date: string, departureCity: string, arrivalCity: string, stops?: string[], seats: number, carId: string, pricePerSeat?: number, requiresApproval?: boolean }`
  */
 export async function createTrip(c: Context): Promise<Response> {
     const body = await c.req.json();
@@ -97,18 +138,26 @@ export async function createTrip(c: Context): Promise<Response> {
 }
 
 /**
- * Deletes a trip by its UUID.
+ * Cancels a trip by its UUID. The trip is kept with status CANCELLED rather
+ * than deleted, its bookings are cancelled and its passengers are notified.
  *
  * **DELETE /api/trips/:id** -- Auth required, DRIVER+
  *
+ * The JSON body is optional; a missing or unparsable body is treated as empty.
+ *
  * @param c - Hono request context with `id` route parameter (UUID)
  * @returns 204 (no content) on success,
- *          or an error response (e.g. 404 TRIP_NOT_FOUND).
+ *          or an error response (e.g. 404 TRIP_NOT_FOUND, 409 INVALID_TRIP_STATUS_TRANSITION).
+ *          Throws ZodError on an invalid reason.
+ *
+ * Request body (optional): `{ reason?: string }`
  */
 export async function deleteTrip(c: Context): Promise<Response> {
     const id = uuidSchema.parse(c.req.param('id'));
+    const body = await c.req.json().catch(() => ({}));
+    const { reason } = cancelTripSchema.parse(body);
     const useCase = container.resolve(DeleteTripUseCase);
-    const result = await useCase.execute({ id, userId: c.get('userId') });
+    const result = await useCase.execute({ id, userId: c.get('userId'), reason });
     if (!result.success) {
         return resultToResponse(c, result);
     }
@@ -1,27 +1,34 @@
 /**
- * Unit tests for the UserController (updateProfile handler).
+ * Unit tests for the UserController (updateProfile, changePassword and changeEmail handlers).
  * Verifies profile update with userId from auth context, Zod validation
- * (required fields, phone length), and USER_NOT_FOUND error propagation.
+ * (required fields, phone length), USER_NOT_FOUND error propagation, and
+ * credential changes forwarding the current session.
  */
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { Context } from 'hono';
 import { container } from 'tsyringe';
-import { updateProfile } from './user.controller.js';
+import { changeEmail, changePassword, updateProfile } from './user.controller.js';
+import { ChangeEmailUseCase } from '../../application/use-cases/user/change-email.use-case.js';
+import { ChangePasswordUseCase } from '../../application/use-cases/user/change-password.use-case.js';
 import { UpdateUserUseCase } from '../../application/use-cases/user/update-user.use-case.js';
 import { ok, err } from '../../lib/shared/types/result.js';
-import { UserNotFoundError } from '../../lib/errors/domain.errors.js';
+import { InvalidCurrentPasswordError, UserNotFoundError } from '../../lib/errors/domain.errors.js';
 
-function createMockContext(overrides?: { jsonBody?: unknown; userId?: string }) {
+function createMockContext(overrides?: { jsonBody?: unknown; userId?: string; sessionId?: string }) {
 	const jsonMock = vi.fn((body, status) => ({ body, status }));
 	const contextValues: Record<string, unknown> = {};
 	if (overrides?.userId) {
 		contextValues['userId'] = overrides.userId;
 	}
+	if (overrides?.sessionId) {
+		contextValues['sessionId'] = overrides.sessionId;
+	}
 	return {
 		req: {
 			json: vi.fn().mockResolvedValue(overrides?.jsonBody ?? {}),
 		},
 		json: jsonMock,
+		body: vi.fn((body, status) => ({ body, status })),
 		get: vi.fn((key: string) => contextValues[key]),
 		_getJsonCall: () => jsonMock.mock.calls[0],
 	} as unknown as Context & { _getJsonCall: () => [unknown, number] };
@@ -88,4 +95,69 @@ describe('User Controller', () => {
 			expect(response).toHaveProperty('success', false);
 		});
 	});
+
+	// Password change (PUT /api/users/me/password)
+	describe('changePassword()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		const body = { currentPassword: 'OldPassword1', password: 'NewPassword1', confirmPassword: 'NewPassword1' };
+
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(ChangePasswordUseCase, { useValue: mockUseCase as unknown as ChangePasswordUseCase });
+		});
+
+		it('should return 204 and pass the user and session from context', async () => {
+			mockUseCase.execute.mockResolvedValue(ok(undefined));
+
+			const ctx = createMockContext({ jsonBody: body, userId: 'user-123', sessionId: 'session-1' });
+			const response = (await changePassword(ctx)) as unknown as { status: number };
+
+			expect(response.status).toBe(204);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ ...body, userId: 'user-123', sessionId: 'session-1' });
+		});
+
+		it('should throw ZodError when the confirmation does not match', async () => {
+			const ctx = createMockContext({ jsonBody: { ...body, confirmPassword: 'Other1234' }, userId: 'user-123' });
+			await expect(changePassword(ctx)).rejects.toThrow();
+		});
+
+		it('should return 403 when the current password is wrong', async () => {
+			mockUseCase.execute.mockResolvedValue(err(new InvalidCurrentPasswordError()));
+
+			const ctx = createMockContext({ jsonBody: body, userId: 'user-123' });
+			await changePassword(ctx);
+
+			const [response, status] = ctx._getJsonCall();
+			expect(status).toBe(403);
+			expect(response).toHaveProperty('success', false);
+		});
+	});
+
+	// Email change (PUT /api/users/me/email)
+	describe('changeEmail()', () => {
+		let mockUseCase: { execute: ReturnType<typeof vi.fn> };
+		const body = { email: 'new@example.com', currentPassword: 'Password1' };
+
+		beforeEach(() => {
+			container.clearInstances();
+			mockUseCase = { execute: vi.fn() };
+			container.register(ChangeEmailUseCase, { useValue: mockUseCase as unknown as ChangeEmailUseCase });
+		});
+
+		it('should return 204 and pass the user and session from context', async () => {
+			mockUseCase.execute.mockResolvedValue(ok(undefined));
+
+			const ctx = createMockContext({ jsonBody: body, userId: 'user-123', sessionId: 'session-1' });
+			const response = (await changeEmail(ctx)) as unknown as { status: number };
+
+			expect(response.status).toBe(204);
+			expect(mockUseCase.execute).toHaveBeenCalledWith({ ...body, userId: 'user-123', sessionId: 'session-1' });
+		});
+
+		it('should throw ZodError for an invalid email', async () => {
+			const ctx = createMockContext({ jsonBody: { ...body, email: 'nope' }, userId: 'user-123' });
+			await expect(changeEmail(ctx)).rejects.toThrow();
+		});
+	});
 });
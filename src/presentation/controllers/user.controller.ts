@@ -2,16 +2,20 @@
  * @module UserController
  * Handles user profile management, listing, and GDPR-compliant anonymization.
  * All endpoints require authentication. Admin-only endpoints include listing
- * all users and anonymizing other users. Users can update their own profile
- * and request self-anonymization.
+ * all users, anonymizing other users and unlocking accounts locked after failed logins. Users can update their own profile,
+ * change their own password or email address, and request self-anonymization.
  */
 import type { Context } from 'hono';
 import { AnonymizeUserUseCase } from '../../application/use-cases/user/anonymize-user.use-case.js';
+import { ChangeEmailUseCase } from '../../application/use-cases/user/change-email.use-case.js';
+import { ChangePasswordUseCase } from '../../application/use-cases/user/change-password.use-case.js';
 import { GetUserUseCase } from '../../application/use-cases/user/get-user.use-case.js';
 import { ListUsersUseCase } from '../../application/use-cases/user/list-users.use-case.js';
+import { UnlockUserUseCase } from '../../application/use-cases/user/unlock-user.use-case.js';
 import { UpdateUserUseCase } from '../../application/use-cases/user/update-user.use-case.js';
 import { container } from '../../lib/shared/di/container.js';
 import { resultToResponse } from '../../lib/shared/utils/result-response.util.js';
+import { changeEmailSchema, changePasswordSchema } from '../../application/schemas/auth.schema.js';
 import { profileSchema } from '../../application/schemas/user.schema.js';
 import { uuidSchema } from '../../application/schemas/common.schema.js';
 
@@ -70,7 +74,8 @@ export async function getUser(c: Context): Promise<Response> {
  *          or an error response (e.g. 404 USER_NOT_FOUND).
  *          Throws ZodError on invalid input.
  *
- * Request body: `{ firstName: string, lastName: string, phone: string }`
+ * Request body: `{ firstName: string, lastName: string, phone: string, locale?: 'fr' | 'en',
+ * notifyBookingUpdates?: boolean, notifyTripReminders?: boolean }`
  */
 export async function updateProfile(c: Context): Promise<Response> {
 	const body = await c.req.json();
@@ -83,10 +88,64 @@ export async function updateProfile(c: Context): Promise<Response> {
 		firstName: validated.firstName,
 		lastName: validated.lastName,
 		phone: validated.phone,
+		locale: validated.locale,
+		notifyBookingUpdates: validated.notifyBookingUpdates,
+		notifyTripReminders: validated.notifyTripReminders,
 	});
 	return resultToResponse(c, result);
 }
 
+/**
+ * Changes the authenticated user's password. Every other session of the user
+ * is revoked; the session of the presented access token stays active.
+ *
+ * **PUT /api/users/me/password** -- Auth required, USER+
+ *
+ * @param c - Hono request context with JSON body, and `userId` and `sessionId` set by auth middleware
+ * @returns 204 (no content) on success,
+ *          or an error response (e.g. 403 INVALID_CURRENT_PASSWORD).
+ *          Throws ZodError on invalid input.
+ *
+ * Request body: `{ currentPassword: string, password: string, confirmPassword: string }`
+ */
+export async function changePassword(c: Context): Promise<Response> {
+	const body = await c.req.json();
+	const validated = changePasswordSchema.parse(body);
+
+	const useCase = container.resolve(ChangePasswordUseCase);
+	const result = await useCase.execute({ ...validated, userId: c.get('userId'), sessionId: c.get('sessionId') });
+	if (!result.success) {
+		return resultToResponse(c, result);
+	}
+	return c.body(null, 204);
+}
+
+/**
+ * Changes the authenticated user's email address. The new address must be
+ * verified again, the previous one is notified, and every other session of
+ * the user is revoked.
+ *
+ * **PUT /api/users/me/email** -- Auth required, USER+
+ *
+ * @param c - Hono request context with JSON body, and `userId` and `sessionId` set by auth middleware
+ * @returns 204 (no content) on success,
+ *          or an error response (e.g. 403 INVALID_CURRENT_PASSWORD, 409 USER_ALREADY_EXISTS).
+ *          Throws ZodError on invalid input.
+ *
+ * Request body: `{ email: string, currentPassword: string }`
+ */
+export async function changeEmail(c: Context): Promise<Response> {
+	const body = await c.req.json();
+	const validated = changeEmailSchema.parse(body);
+
+	const useCase = container.resolve(ChangeEmailUseCase);
+	const result = await useCase.execute({ ...validated, userId: c.get('userId'), sessionId: c.get('sessionId') });
+	if (!result.success) {
+		return resultToResponse(c, result);
+	}
+	return c.body(null, 204);
+}
+
 /**
  * Anonymizes the authenticated user's own data (GDPR self-service deletion).
  *
@@ -126,3 +185,22 @@ export async function anonymizeUser(c: Context): Promise<Response> {
 	}
 	return c.body(null, 204);
 }
+
+/**
+ * Lifts the login lock of a user's account and resets its failed attempts (admin action).
+ *
+ * **POST /api/users/:id/unlock** -- Auth required, ADMIN only
+ *
+ * @param c - Hono request context with `id` route parameter (UUID)
+ * @returns 204 (no content) on success,
+ *          or an error response (e.g. 404 USER_NOT_FOUND).
+ */
+export async function unlockUser(c: Context): Promise<Response> {
+	const id = uuidSchema.parse(c.req.param('id'));
+	const useCase = container.resolve(UnlockUserUseCase);
+	const result = await useCase.execute(id);
+	if (!result.success) {
+		return resultToResponse(c, result);
+	}
+	return c.body(null, 204);
+}
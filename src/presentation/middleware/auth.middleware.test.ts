@@ -1,15 +1,16 @@
 /**
  * Unit tests for the createAuthMiddleware factory.
  * Verifies JWT token extraction from x-auth-token header, JwtService delegation,
- * context population (userId, role), and error responses for missing/expired/
- * invalid/malformed tokens.
+ * context population (userId, role, sessionId), session revocation checks, and
+ * error responses for missing/expired/invalid/malformed tokens.
  */
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { Context, Next } from 'hono';
 import { createAuthMiddleware } from './auth.middleware.js';
 import { ok, err } from '../../lib/shared/types/result.js';
 import { TokenExpiredError, TokenInvalidError, TokenMalformedError } from '../../lib/errors/jwt.errors.js';
-import { createMockLogger } from '../../../tests/setup.js';
+import { DatabaseError } from '../../lib/errors/repository.errors.js';
+import { createMockLogger, createMockSessionRepository } from '../../../tests/setup.js';
 
 function createMockContext(token?: string, via: 'x-auth-token' | 'bearer' = 'x-auth-token') {
 	const jsonMock = vi.fn((body, status) => ({ body, status }));
@@ -44,14 +45,16 @@ function createMockJwtService() {
 // Tests for token validation, context population, and JWT error scenarios
 describe('authMiddleware', () => {
 	let mockJwtService: ReturnType<typeof createMockJwtService>;
+	let mockSessionRepository: ReturnType<typeof createMockSessionRepository>;
 	let mockLogger: ReturnType<typeof createMockLogger>;
 	let authMiddleware: ReturnType<typeof createAuthMiddleware>;
 	let mockNext: Next;
 
 	beforeEach(() => {
 		mockJwtService = createMockJwtService();
+		mockSessionRepository = createMockSessionRepository();
 		mockLogger = createMockLogger();
-		authMiddleware = createAuthMiddleware(mockJwtService, mockLogger);
+		authMiddleware = createAuthMiddleware(mockJwtService, mockSessionRepository, mockLogger);
 		mockNext = vi.fn().mockResolvedValue(undefined);
 	});
 
@@ -99,6 +102,72 @@ describe('authMiddleware', () => {
 		expect(mockNext).toHaveBeenCalled();
 	});
 
+	it('should not look up a session for tokens issued without one', async () => {
+		mockJwtService.verify.mockResolvedValue(ok({ userId: 'user-123', role: 'USER' }));
+		const ctx = createMockContext('valid-token');
+
+		await authMiddleware(ctx, mockNext);
+
+		expect(mockSessionRepository.findById).not.toHaveBeenCalled();
+		expect(mockNext).toHaveBeenCalled();
+	});
+
+	it('should set sessionId in context when the session is active', async () => {
+		mockJwtService.verify.mockResolvedValue(ok({ userId: 'user-123', role: 'USER', sessionId: 'session-1' }));
+		mockSessionRepository.findById.mockResolvedValue(ok({ id: 'session-1', userRefId: 1, createdAt: new Date(), revokedAt: null, revokedReason: null }));
+		const ctx = createMockContext('valid-token');
+
+		await authMiddleware(ctx, mockNext);
+
+		expect(mockSessionRepository.findById).toHaveBeenCalledWith('session-1');
+		expect(ctx._getSetCalls()).toContainEqual(['sessionId', 'session-1']);
+		expect(mockNext).toHaveBeenCalled();
+	});
+
+	it('should return 401 SESSION_REVOKED when the session has been revoked', async () => {
+		mockJwtService.verify.mockResolvedValue(ok({ userId: 'user-123', role: 'USER', sessionId: 'session-1' }));
+		mockSessionRepository.findById.mockResolvedValue(ok({ id: 'session-1', userRefId: 1, createdAt: new Date(), revokedAt: new Date(), revokedReason: 'LOGOUT' }));
+		const ctx = createMockContext('valid-token');
+
+		await authMiddleware(ctx, mockNext);
+
+		const [response, status] = ctx._getJsonCall();
+		expect(status).toBe(401);
+		expect(response).toEqual({
+			success: false,
+			error: {
+				code: 'SESSION_REVOKED',
+				message: 'Session session-1 has been revoked',
+			},
+		});
+		expect(mockNext).not.toHaveBeenCalled();
+	});
+
+	it('should return 401 SESSION_REVOKED when the session no longer exists', async () => {
+		mockJwtService.verify.mockResolvedValue(ok({ userId: 'user-123', role: 'USER', sessionId: 'session-1' }));
+		mockSessionRepository.findById.mockResolvedValue(ok(null));
+		const ctx = createMockContext('valid-token');
+
+		await authMiddleware(ctx, mockNext);
+
+		const [response, status] = ctx._getJsonCall();
+		expect(status).toBe(401);
+		expect((response as { error: { code: string } }).error.code).toBe('SESSION_REVOKED');
+		expect(mockNext).not.toHaveBeenCalled();
+	});
+
+	it('should return 500 when the session lookup fails', async () => {
+		mockJwtService.verify.mockResolvedValue(ok({ userId: 'user-123', role: 'USER', sessionId: 'session-1' }));
+		mockSessionRepository.findById.mockResolvedValue(err(new DatabaseError('db down')));
+		const ctx = createMockContext('valid-token');
+
+		await authMiddleware(ctx, mockNext);
+
+		const [, status] = ctx._getJsonCall();
+		expect(status).toBe(500);
+		expect(mockNext).not.toHaveBeenCalled();
+	});
+
 	it('should return error response on TokenExpiredError', async () => {
 		mockJwtService.verify.mockResolvedValue(err(new TokenExpiredError()));
 		const ctx = createMockContext('expired-token');
@@ -3,37 +3,79 @@
  * JWT authentication middleware for the Hono request pipeline.
  *
  * Extracts the JWT from the `Authorization: Bearer <token>` or `x-auth-token` header,
- * verifies it via the injected JwtService, and sets `userId` and `role`
- * on the Hono context for downstream handlers.
+ * verifies it via the injected JwtService, checks that the token's session has
+ * not been revoked, and sets `userId`, `role` and `sessionId` on the Hono
+ * context for downstream handlers.
  *
  * **Context values set on success:**
  * - `userId` (string) -- the authenticated user's UUID
  * - `role` (string) -- the user's role (as returned by JwtService)
+ * - `sessionId` (string | undefined) -- the session the token was issued for
  *
  * **Error responses:**
  * - 401 UNAUTHORIZED -- missing token header
  * - 401 TOKEN_EXPIRED / TOKEN_INVALID -- JWT verification failure
  * - 400 TOKEN_MALFORMED -- malformed JWT
+ * - 401 SESSION_REVOKED -- the token's session was revoked (logout, refresh token reuse)
  */
 import type { Context, Next } from 'hono';
 import type { ContentfulStatusCode } from 'hono/utils/http-status';
-import type { JwtService } from '../../domain/services/jwt.service.js';
+import type { SessionRepository } from '../../domain/repositories/session.repository.js';
+import type { JwtPayload, JwtService } from '../../domain/services/jwt.service.js';
 import type { Logger } from '../../lib/logging/logger.types.js';
 import { updateContext } from '../../lib/context/request-context.js';
+import { SessionRevokedError } from '../../lib/errors/domain.errors.js';
 import { getHttpStatus } from '../../lib/errors/error-registry.js';
+import type { Result } from '../../lib/shared/types/result.js';
+import { ok, err } from '../../lib/shared/types/result.js';
+
+/** Minimal error shape returned by the token and session checks. */
+type AuthFailure = { code: string; message: string };
+
+/**
+ * Checks that the session an access token was issued for is still active.
+ * Tokens issued without a session are accepted until they expire.
+ */
+async function checkSession(sessionRepository: SessionRepository, sessionId: string | undefined): Promise<Result<void, AuthFailure>> {
+	if (!sessionId) {
+		return ok(undefined);
+	}
+	const sessionResult = await sessionRepository.findById(sessionId);
+	if (!sessionResult.success) {
+		return sessionResult;
+	}
+	if (!sessionResult.value || sessionResult.value.revokedAt !== null) {
+		return err(new SessionRevokedError(sessionId));
+	}
+	return ok(undefined);
+}
+
+/** Verifies an access token and then the session it was issued for. */
+async function authenticate(jwtService: JwtService, sessionRepository: SessionRepository, token: string): Promise<Result<JwtPayload, AuthFailure>> {
+	const result = await jwtService.verify(token);
+	if (!result.success) {
+		return result;
+	}
+	const sessionResult = await checkSession(sessionRepository, result.value.sessionId);
+	if (!sessionResult.success) {
+		return sessionResult;
+	}
+	return result;
+}
 
 /**
  * Creates a Hono middleware that authenticates requests via JWT.
  *
  * Reads the `Authorization: Bearer` or `x-auth-token` header, verifies it, and populates the context
- * with `userId` and `role`. Returns an error response if the token is
- * missing, expired, invalid, or malformed.
+ * with `userId`, `role` and `sessionId`. Returns an error response if the token is
+ * missing, expired, invalid, or malformed, or if its session has been revoked.
  *
  * @param jwtService - Service for JWT token verification
+ * @param sessionRepository - Repository used to look up the token's session
  * @param logger - Logger instance for auth failure logging
  * @returns Hono middleware function
  */
-export function createAuthMiddleware(jwtService: JwtService, logger: Logger) {
+export function createAuthMiddleware(jwtService: JwtService, sessionRepository: SessionRepository, logger: Logger) {
 	return async (c: Context, next: Next): Promise<Response | undefined> => {
 		const authHeader = c.req.header('Authorization');
 		const token = (authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined)
@@ -56,11 +98,12 @@ export function createAuthMiddleware(jwtService: JwtService, logger: Logger) {
 			);
 		}
 
-		const result = await jwtService.verify(token);
+		const result = await authenticate(jwtService, sessionRepository, token);
 
 		if (result.success) {
 			c.set('userId', result.value.userId);
 			c.set('role', result.value.role);
+			c.set('sessionId', result.value.sessionId);
 			updateContext({ userId: result.value.userId });
 			await next();
 			return;
@@ -7,12 +7,19 @@
  * Route files import from this barrel instead of importing factory functions directly.
  *
  * Dependencies are resolved lazily on first use, allowing integration tests to
- * register mocks before the middleware captures its dependencies. Call
+ * register mocks before the middleware captures its dependencies. The auth
+ * middleware is resolved separately, on the first authenticated request, since
+ * its session repository depends on the cache and database clients while
+ * `requireRole` is already resolved when routes are declared. The rate limiter
+ * is resolved on the first rate-limited request for the same reason. Call
  * `resetMiddleware()` in test setup to force re-resolution after mock registration.
  */
 import type { Context, Next } from 'hono';
 import type { Logger } from '../../lib/logging/logger.types.js';
 import type { JwtService } from '../../domain/services/jwt.service.js';
+import type { SessionRepository } from '../../domain/repositories/session.repository.js';
+import type { CacheService } from '../../domain/services/cache.service.js';
+import type { CacheConfig } from '../../infrastructure/cache/cache.config.js';
 import { container } from '../../lib/shared/di/container.js';
 import { TOKENS } from '../../lib/shared/di/tokens.js';
 import { ROLE_HIERARCHY } from '../../domain/authorization/role-hierarchy.js';
@@ -20,22 +27,23 @@ import { createAuthMiddleware } from './auth.middleware.js';
 import { createRequireRole } from './authorization.middleware.js';
 import { createErrorHandler } from './error-handler.middleware.js';
 import { createRequestLogger } from './request-logger.middleware.js';
+import { createRateLimiter } from './rate-limit.middleware.js';
+import type { RateLimitPolicyName } from './rate-limit.policies.js';
 
 type MiddlewareInstances = {
-	authMiddleware: ReturnType<typeof createAuthMiddleware>;
 	requireRole: ReturnType<typeof createRequireRole>;
 	errorHandler: ReturnType<typeof createErrorHandler>;
 	requestLogger: ReturnType<typeof createRequestLogger>;
 };
 
 let _instances: MiddlewareInstances | null = null;
+let _authMiddleware: ReturnType<typeof createAuthMiddleware> | null = null;
+let _rateLimiter: ReturnType<typeof createRateLimiter> | null = null;
 
 function resolve(): MiddlewareInstances {
 	if (!_instances) {
 		const logger = container.resolve<Logger>(TOKENS.Logger);
-		const jwtService = container.resolve<JwtService>(TOKENS.JwtService);
 		_instances = {
-			authMiddleware: createAuthMiddleware(jwtService, logger),
 			requireRole: createRequireRole(ROLE_HIERARCHY, logger),
 			errorHandler: createErrorHandler(logger),
 			requestLogger: createRequestLogger(logger),
@@ -44,19 +52,43 @@ function resolve(): MiddlewareInstances {
 	return _instances;
 }
 
+function resolveAuth(): ReturnType<typeof createAuthMiddleware> {
+	if (!_authMiddleware) {
+		const logger = container.resolve<Logger>(TOKENS.Logger);
+		const jwtService = container.resolve<JwtService>(TOKENS.JwtService);
+		const sessionRepository = container.resolve<SessionRepository>(TOKENS.SessionRepository);
+		_authMiddleware = createAuthMiddleware(jwtService, sessionRepository, logger);
+	}
+	return _authMiddleware;
+}
+
+function resolveRateLimiter(): ReturnType<typeof createRateLimiter> {
+	if (!_rateLimiter) {
+		const logger = container.resolve<Logger>(TOKENS.Logger);
+		const cache = container.resolve<CacheService>(TOKENS.CacheService);
+		const cacheConfig = container.resolve<CacheConfig>(TOKENS.CacheConfig);
+		_rateLimiter = createRateLimiter(cache, cacheConfig.keyPrefix, logger);
+	}
+	return _rateLimiter;
+}
+
 /**
  * Forces re-resolution of all middleware dependencies from the DI container.
  * Use in integration test `beforeEach` after registering mock services.
  */
 export function resetMiddleware(): void {
 	_instances = null;
+	_authMiddleware = null;
+	_rateLimiter = null;
 }
 
 // Proxy exports that lazily resolve on first use
-export const authMiddleware = (c: Context, next: Next) => resolve().authMiddleware(c, next);
+export const authMiddleware = (c: Context, next: Next) => resolveAuth()(c, next);
 
 export const requireRole = (...roles: string[]) => resolve().requireRole(...roles);
 
+export const rateLimit = (policy: RateLimitPolicyName) => (c: Context, next: Next) => resolveRateLimiter()(policy)(c, next);
+
 export const errorHandler = (err: Error, c: Context) => resolve().errorHandler(err, c);
 
 export const requestLogger = (c: Context, next: Next) => resolve().requestLogger(c, next);
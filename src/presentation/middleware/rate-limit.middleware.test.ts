@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the createRateLimiter middleware factory.
+ * Verifies the counter keys (per user, per IP, per policy and window), the
+ * rules chosen by role, the RateLimit headers, the 429 RATE_LIMITED response,
+ * and that requests go through when the counters cannot be reached.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Context, Next } from 'hono';
+import { createRateLimiter } from './rate-limit.middleware.js';
+import { createMockCacheService, createMockLogger } from '../../../tests/setup.js';
+
+function createMockContext(values: { userId?: string; role?: string; forwardedFor?: string } = {}) {
+	const jsonMock = vi.fn((body: unknown, status: number) => ({ body, status }));
+	const headers = new Map<string, string>();
+	return {
+		get: vi.fn((key: string) => (key === 'userId' ? values.userId : key === 'role' ? values.role : undefined)),
+		header: vi.fn((name: string, value: string) => headers.set(name, value)),
+		json: jsonMock,
+		req: {
+			path: '/test',
+			method: 'GET',
+			header: vi.fn((name: string) => (name === 'x-forwarded-for' ? values.forwardedFor : undefined)),
+		},
+		_headers: headers,
+		_getJsonCall: () => jsonMock.mock.calls[0],
+	} as unknown as Context & {
+		_headers: Map<string, string>;
+		_getJsonCall: () => [unknown, number];
+	};
+}
+
+function createMockNext(): Next {
+	return vi.fn().mockResolvedValue(undefined);
+}
+
+describe('rateLimit', () => {
+	let cache: ReturnType<typeof createMockCacheService>;
+	let logger: ReturnType<typeof createMockLogger>;
+	let rateLimit: ReturnType<typeof createRateLimiter>;
+
+	beforeEach(() => {
+		// 00:00:15 into a minute window
+		vi.useFakeTimers({ now: new Date('2026-01-01T00:00:15Z') });
+		cache = createMockCacheService();
+		logger = createMockLogger();
+		rateLimit = createRateLimiter(cache, 'test:', logger);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should count authenticated requests per user, policy and window', async () => {
+		const ctx = createMockContext({ userId: 'user-1', role: 'USER', forwardedFor: '203.0.113.7' });
+
+		await rateLimit('trips')(ctx, createMockNext());
+
+		const window = Math.floor(Date.now() / 60_000);
+		expect(cache.increment).toHaveBeenCalledWith(`test:ratelimit:trips:user:user-1:${window}`, 60);
+	});
+
+	it('should count anonymous requests per client IP', async () => {
+		const ctx = createMockContext({ forwardedFor: '203.0.113.7' });
+
+		await rateLimit('login')(ctx, createMockNext());
+
+		expect(cache.increment).toHaveBeenCalledWith(expect.stringContaining('test:ratelimit:login:ip:203.0.113.7:'), 60);
+	});
+
+	it('should key anonymous requests on the address appended by the proxy, not the forged ones', async () => {
+		const ctx = createMockContext({ forwardedFor: '10.9.8.7, 192.0.2.1, 203.0.113.7' });
+
+		await rateLimit('login')(ctx, createMockNext());
+
+		expect(cache.increment).toHaveBeenCalledWith(expect.stringContaining('test:ratelimit:login:ip:203.0.113.7:'), 60);
+	});
+
+	it('should share one counter for anonymous requests without X-Forwarded-For', async () => {
+		const ctx = createMockContext();
+
+		await rateLimit('login')(ctx, createMockNext());
+
+		expect(cache.increment).toHaveBeenCalledWith(expect.stringContaining('test:ratelimit:login:ip:unknown:'), 60);
+	});
+
+	it('should call next() and set the RateLimit headers within the limit', async () => {
+		cache.increment.mockResolvedValue(2);
+		const ctx = createMockContext();
+		const next = createMockNext();
+
+		await rateLimit('login')(ctx, next);
+
+		expect(next).toHaveBeenCalled();
+		expect(Object.fromEntries(ctx._headers)).toEqual({
+			'RateLimit-Policy': '5;w=60',
+			'RateLimit-Limit': '5',
+			'RateLimit-Remaining': '3',
+			'RateLimit-Reset': '45',
+		});
+	});
+
+	it('should return 429 RATE_LIMITED over the limit', async () => {
+		cache.increment.mockResolvedValue(6);
+		const ctx = createMockContext();
+		const next = createMockNext();
+
+		await rateLimit('login')(ctx, next);
+
+		const [response, status] = ctx._getJsonCall();
+		expect(status).toBe(429);
+		expect(response).toEqual({
+			success: false,
+			error: { code: 'RATE_LIMITED', message: 'Too many requests, please try again later' },
+		});
+		expect(ctx._headers.get('RateLimit-Remaining')).toBe('0');
+		expect(ctx._headers.get('Retry-After')).toBe('45');
+		expect(next).not.toHaveBeenCalled();
+	});
+
+	it('should apply the rule of the user role when the policy has one', async () => {
+		cache.increment.mockResolvedValue(100);
+		const ctx = createMockContext({ userId: 'driver-1', role: 'DRIVER' });
+		const next = createMockNext();
+
+		await rateLimit('trips')(ctx, next);
+
+		expect(ctx._headers.get('RateLimit-Limit')).toBe('120');
+		expect(next).toHaveBeenCalled();
+	});
+
+	it('should apply the default rule to roles without one', async () => {
+		cache.increment.mockResolvedValue(100);
+		const ctx = createMockContext({ userId: 'user-1', role: 'USER' });
+		const next = createMockNext();
+
+		await rateLimit('trips')(ctx, next);
+
+		expect(ctx._headers.get('RateLimit-Limit')).toBe('60');
+		expect(next).not.toHaveBeenCalled();
+	});
+
+	// Verifies a cache outage never takes the API down
+	it('should let the request through when the counters cannot be reached', async () => {
+		cache.increment.mockRejectedValue(new Error('Connection refused'));
+		const ctx = createMockContext();
+		const next = createMockNext();
+
+		await rateLimit('login')(ctx, next);
+
+		expect(next).toHaveBeenCalled();
+		expect(logger.warn).toHaveBeenCalledWith('Rate limit check failed, allowing request', expect.any(Object));
+	});
+});
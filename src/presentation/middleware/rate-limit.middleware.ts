@@ -0,0 +1,106 @@
+/**
+ * @module RateLimitMiddleware
+ * Rate-limiting middleware for the Hono request pipeline.
+ *
+ * Counts the requests of each client in fixed windows, per policy of the
+ * {@link RATE_LIMIT_POLICIES} table. Counters are kept in the CacheService, so
+ * every instance shares them when the cache backend is Upstash. Clients are
+ * the authenticated user when there is one, the client IP otherwise.
+ *
+ * **Proxy assumption:** The API is deployed behind a single trusted reverse
+ * proxy that appends the address of its peer to `X-Forwarded-For`. Anonymous
+ * clients are keyed on that rightmost entry; the entries before it are sent by
+ * the client and can be forged to get a fresh counter on every request.
+ *
+ * **Pipeline position:** After authMiddleware on authenticated routes, so that
+ * requests are counted per user and by role.
+ *
+ * **Response headers (IETF RateLimit header fields, draft 6):**
+ * - `RateLimit-Policy` -- the rule applied, e.g. `5;w=60`
+ * - `RateLimit-Limit` -- requests accepted per window
+ * - `RateLimit-Remaining` -- requests left in the current window
+ * - `RateLimit-Reset` -- seconds until the window resets
+ * - `Retry-After` -- seconds until the window resets, on rejected requests only
+ *
+ * **Error responses:**
+ * - 429 RATE_LIMITED -- the client went over the limit of the window
+ *
+ * When the counters cannot be reached the request is let through, so that a
+ * cache outage never takes the API down.
+ */
+import type { Context, Next } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import type { CacheService } from '../../domain/services/cache.service.js';
+import type { Logger } from '../../lib/logging/logger.types.js';
+import { getHttpStatus } from '../../lib/errors/error-registry.js';
+import { RATE_LIMIT_POLICIES, type RateLimitPolicyName, type RateLimitRule, ruleFor } from './rate-limit.policies.js';
+
+/**
+ * Identifies the client: the authenticated user, or the address the trusted
+ * proxy appended last to `X-Forwarded-For`.
+ */
+function clientKey(c: Context): string {
+	const userId: string | undefined = c.get('userId');
+	if (userId) {
+		return `user:${userId}`;
+	}
+	const ip = c.req.header('x-forwarded-for')?.split(',').at(-1)?.trim();
+	return `ip:${ip || 'unknown'}`;
+}
+
+/** Sets the RateLimit header fields describing the client's current window. */
+function setRateLimitHeaders(c: Context, rule: RateLimitRule, count: number, resetSeconds: number): void {
+	c.header('RateLimit-Policy', `${rule.limit};w=${rule.windowSeconds}`);
+	c.header('RateLimit-Limit', String(rule.limit));
+	c.header('RateLimit-Remaining', String(Math.max(0, rule.limit - count)));
+	c.header('RateLimit-Reset', String(resetSeconds));
+}
+
+/**
+ * Creates a rate-limiting middleware factory.
+ *
+ * @param cache - Cache service holding the request counters
+ * @param keyPrefix - Prefix of the counter keys, shared with the cache entries
+ * @param logger - Logger instance for rejected requests and counter failures
+ * @returns A function that takes a policy name and returns the Hono middleware applying it
+ */
+export function createRateLimiter(cache: CacheService, keyPrefix: string, logger: Logger) {
+	return (policy: RateLimitPolicyName) => {
+		return async (c: Context, next: Next): Promise<Response | undefined> => {
+			const rule = ruleFor(RATE_LIMIT_POLICIES[policy], c.get('role'));
+			const now = Date.now();
+			const windowMs = rule.windowSeconds * 1000;
+			const window = Math.floor(now / windowMs);
+			const resetSeconds = Math.ceil(((window + 1) * windowMs - now) / 1000);
+			const key = `${keyPrefix}ratelimit:${policy}:${clientKey(c)}:${window}`;
+
+			let count: number;
+			try {
+				count = await cache.increment(key, rule.windowSeconds);
+			} catch (error) {
+				logger.warn('Rate limit check failed, allowing request', { policy, path: c.req.path, error: String(error) });
+				await next();
+				return;
+			}
+
+			setRateLimitHeaders(c, rule, count, resetSeconds);
+			if (count <= rule.limit) {
+				await next();
+				return;
+			}
+
+			logger.warn('Rate limit exceeded', { policy, path: c.req.path, method: c.req.method, userId: c.get('userId') });
+			c.header('Retry-After', String(resetSeconds));
+			return c.json(
+				{
+					success: false,
+					error: {
+						code: 'RATE_LIMITED',
+						message: 'Too many requests, please try again later',
+					},
+				},
+				getHttpStatus('RATE_LIMITED') as ContentfulStatusCode,
+			);
+		};
+	};
+}
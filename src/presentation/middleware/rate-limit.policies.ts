@@ -0,0 +1,74 @@
+/**
+ * @module RateLimitPolicies
+ * Rate-limit policy table: how many requests each route group accepts per
+ * window, by role. Anonymous requests and roles without a rule of their own
+ * get the policy's default rule.
+ *
+ * Each policy keeps its own counters, so the budget of one route group is not
+ * spent by requests to another. Authenticated requests are counted per user,
+ * anonymous ones per client IP.
+ */
+
+/**
+ * How many requests a client may send in a fixed window.
+ *
+ * @property limit - Requests accepted per window.
+ * @property windowSeconds - Length of the window in seconds.
+ */
+export type RateLimitRule = {
+	limit: number;
+	windowSeconds: number;
+};
+
+/**
+ * The rules of one route group.
+ *
+ * @property default - Rule of anonymous requests and of roles without a rule.
+ * @property roles - Rules by role, e.g. higher limits for admins.
+ */
+export type RateLimitPolicy = {
+	default: RateLimitRule;
+	roles?: Partial<Record<string, RateLimitRule>>;
+};
+
+const MINUTE = 60;
+
+/** Generous limits for admins, who moderate and back-office on behalf of many users. */
+const ADMIN_RULE: RateLimitRule = { limit: 600, windowSeconds: MINUTE };
+
+export const RATE_LIMIT_POLICIES = {
+	// Public authentication endpoints, counted per IP against brute force and abuse
+	login: { default: { limit: 5, windowSeconds: MINUTE } },
+	register: { default: { limit: 3, windowSeconds: MINUTE } },
+	refresh: { default: { limit: 10, windowSeconds: MINUTE } },
+	forgotPassword: { default: { limit: 3, windowSeconds: MINUTE } },
+	accountToken: { default: { limit: 5, windowSeconds: MINUTE } },
+
+	// Counted per user so a stolen access token cannot be used to guess the current password
+	credentialChange: { default: { limit: 5, windowSeconds: MINUTE } },
+
+	// Authenticated route groups
+	trips: {
+		default: { limit: 60, windowSeconds: MINUTE },
+		roles: { DRIVER: { limit: 120, windowSeconds: MINUTE }, ADMIN: ADMIN_RULE },
+	},
+	tripSeries: { default: { limit: 30, windowSeconds: MINUTE }, roles: { ADMIN: ADMIN_RULE } },
+	inscriptions: { default: { limit: 30, windowSeconds: MINUTE }, roles: { ADMIN: ADMIN_RULE } },
+	cities: { default: { limit: 30, windowSeconds: MINUTE }, roles: { ADMIN: ADMIN_RULE } },
+	catalog: { default: { limit: 60, windowSeconds: MINUTE }, roles: { ADMIN: ADMIN_RULE } },
+	drivers: { default: { limit: 30, windowSeconds: MINUTE }, roles: { ADMIN: ADMIN_RULE } },
+	users: { default: { limit: 60, windowSeconds: MINUTE }, roles: { ADMIN: ADMIN_RULE } },
+} satisfies Record<string, RateLimitPolicy>;
+
+/** Name of a policy of the table. */
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+/**
+ * Returns the rule applying to a request.
+ *
+ * @param policy - The policy of the route group.
+ * @param role - The role of the authenticated user, if any.
+ */
+export function ruleFor(policy: RateLimitPolicy, role: string | undefined): RateLimitRule {
+	return (role && policy.roles?.[role]) || policy.default;
+}
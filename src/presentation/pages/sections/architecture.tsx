@@ -9,7 +9,7 @@ export const ArchitectureSection = () => (
       <div class="arch-grid">
         <div class="arch-card">
           <h4>Domain Layer</h4>
-          <p>Entites metier pures, interfaces de repositories, et services abstraits. Aucune dependance externe. Contient <code>entities/</code>, <code>repositories/</code> (interfaces), <code>services/</code> (JwtService, PasswordService, EmailService, CacheService).</p>
+          <p>Entites metier pures, interfaces de repositories, et services abstraits. Aucune dependance externe. Contient <code>entities/</code>, <code>repositories/</code> (interfaces), <code>services/</code> (JwtService, PasswordService, EmailService, CacheService, RealtimeBroker).</p>
         </div>
         <div class="arch-card">
           <h4>Application Layer</h4>
@@ -17,11 +17,11 @@ export const ArchitectureSection = () => (
         </div>
         <div class="arch-card">
           <h4>Infrastructure Layer</h4>
-          <p>Implementations concretes : Prisma repositories, cached repositories (Upstash Redis), Argon2 password hashing, Hono JWT, Resend email. Contient <code>database/</code>, <code>cache/</code>, <code>services/</code>.</p>
+          <p>Implementations concretes : Prisma repositories, cached repositories (Upstash Redis, LRU en memoire ou les deux en L1/L2 selon <code>CACHE_BACKEND</code>), Argon2 password hashing, Hono JWT, email (Resend, SMTP, fichiers .eml ou memoire selon <code>EMAIL_TRANSPORT</code>), diffusion temps reel (memoire ou Redis pub/sub selon <code>REALTIME_TRANSPORT</code>). Contient <code>database/</code>, <code>cache/</code>, <code>realtime/</code>, <code>services/</code>.</p>
         </div>
         <div class="arch-card">
           <h4>Presentation Layer</h4>
-          <p>Routes Hono (versionnees /api/v1), controllers, middlewares (auth JWT, authorization par role, error handler, request logger). Contient <code>routes/</code>, <code>controllers/</code>, <code>middleware/</code>.</p>
+          <p>Routes Hono (versionnees /api/v1), controllers, middlewares (auth JWT, authorization par role, rate limiting, error handler, request logger). Contient <code>routes/</code>, <code>controllers/</code>, <code>middleware/</code>.</p>
         </div>
         <div class="arch-card">
           <h4>Lib (Shared)</h4>
@@ -40,7 +40,10 @@ export const ArchitectureSection = () => (
 │   │   ├── <span class="file">user.entity.ts</span>
 │   │   ├── <span class="file">driver.entity.ts</span>
 │   │   ├── <span class="file">trip.entity.ts</span>
+│   │   ├── <span class="file">trip-series.entity.ts</span>
 │   │   ├── <span class="file">inscription.entity.ts</span>
+│   │   ├── <span class="file">trip-message.entity.ts</span>
+│   │   ├── <span class="file">review.entity.ts</span>
 │   │   ├── <span class="file">car.entity.ts</span>
 │   │   ├── <span class="file">model.entity.ts</span>
 │   │   ├── <span class="file">brand.entity.ts</span>
@@ -52,7 +55,10 @@ export const ArchitectureSection = () => (
 │   │   ├── <span class="file">user.repository.ts</span>
 │   │   ├── <span class="file">driver.repository.ts</span>
 │   │   ├── <span class="file">trip.repository.ts</span>
+│   │   ├── <span class="file">trip-series.repository.ts</span>
 │   │   ├── <span class="file">inscription.repository.ts</span>
+│   │   ├── <span class="file">trip-message.repository.ts</span>
+│   │   ├── <span class="file">review.repository.ts</span>
 │   │   ├── <span class="file">car.repository.ts</span>
 │   │   ├── <span class="file">model.repository.ts</span>
 │   │   ├── <span class="file">brand.repository.ts</span>
@@ -62,7 +68,9 @@ export const ArchitectureSection = () => (
 │       ├── <span class="file">jwt.service.ts</span>
 │       ├── <span class="file">password.service.ts</span>
 │       ├── <span class="file">email.service.ts</span>
-│       └── <span class="file">cache.service.ts</span>
+│       ├── <span class="file">cache.service.ts</span>
+│       ├── <span class="file">cache-metrics.service.ts</span>
+│       └── <span class="file">realtime-broker.service.ts</span>
 │
 ├── <span class="dir">application/</span>                       <span class="comment"># Use cases &amp; Schemas Zod</span>
 │   ├── <span class="dir">schemas/</span>
@@ -71,7 +79,10 @@ export const ArchitectureSection = () => (
 │   │   ├── <span class="file">user.schema.ts</span>
 │   │   ├── <span class="file">driver.schema.ts</span>
 │   │   ├── <span class="file">trip.schema.ts</span>
+│   │   ├── <span class="file">trip-series.schema.ts</span>
 │   │   ├── <span class="file">inscription.schema.ts</span>
+│   │   ├── <span class="file">trip-message.schema.ts</span>
+│   │   ├── <span class="file">review.schema.ts</span>
 │   │   ├── <span class="file">car.schema.ts</span>
 │   │   ├── <span class="file">brand.schema.ts</span>
 │   │   ├── <span class="file">city.schema.ts</span>
@@ -79,9 +90,12 @@ export const ArchitectureSection = () => (
 │   └── <span class="dir">use-cases/</span>
 │       ├── <span class="dir">auth/</span>                  <span class="comment"># login, register</span>
 │       ├── <span class="dir">user/</span>                  <span class="comment"># get, list, update, anonymize, delete</span>
-│       ├── <span class="dir">driver/</span>                <span class="comment"># create-driver</span>
-│       ├── <span class="dir">trip/</span>                  <span class="comment"># create, delete, find, get, list</span>
+│       ├── <span class="dir">driver/</span>                <span class="comment"># create-driver, get-driver-profile</span>
+│       ├── <span class="dir">trip/</span>                  <span class="comment"># create, delete (annulation), find, get, list, advance-statuses</span>
+│       ├── <span class="dir">trip-series/</span>           <span class="comment"># create, get, list, update, update-occurrence, delete, materialize</span>
 │       ├── <span class="dir">inscription/</span>           <span class="comment"># create, delete, list, user-inscriptions, trip-passengers</span>
+│       ├── <span class="dir">trip-message/</span>          <span class="comment"># post, list, unread count, hide</span>
+│       ├── <span class="dir">review/</span>                <span class="comment"># rate-driver, rate-passenger, list reviews</span>
 │       ├── <span class="dir">car/</span>                   <span class="comment"># create, delete, list, update</span>
 │       ├── <span class="dir">brand/</span>                 <span class="comment"># create, delete, list</span>
 │       ├── <span class="dir">city/</span>                  <span class="comment"># create, delete, list</span>
@@ -100,14 +114,20 @@ export const ArchitectureSection = () => (
 │   │       ├── <span class="file">prisma-driver.repository.ts</span>
 │   │       ├── <span class="file">prisma-trip.repository.ts</span>
 │   │       ├── <span class="file">prisma-inscription.repository.ts</span>
+│   │       ├── <span class="file">prisma-trip-message.repository.ts</span>
+│   │       ├── <span class="file">prisma-review.repository.ts</span>
 │   │       ├── <span class="file">prisma-car.repository.ts</span>
 │   │       ├── <span class="file">prisma-model.repository.ts</span>
 │   │       ├── <span class="file">prisma-brand.repository.ts</span>
 │   │       ├── <span class="file">prisma-color.repository.ts</span>
 │   │       └── <span class="file">prisma-city.repository.ts</span>
-│   ├── <span class="dir">cache/</span>                         <span class="comment"># Upstash Redis cache layer</span>
+│   ├── <span class="dir">cache/</span>                         <span class="comment"># Cache layer (Upstash Redis, memoire, L1/L2)</span>
 │   │   ├── <span class="file">cache.config.ts</span>
-│   │   ├── <span class="file">cache.utils.ts</span>
+│   │   ├── <span class="file">cache.utils.ts</span>                <span class="comment"># cache-aside + invalidation par tags versionnes</span>
+│   │   ├── <span class="file">cache.tags.ts</span>
+│   │   ├── <span class="file">in-memory-cache.metrics.ts</span>    <span class="comment"># hits/misses/evictions par domaine</span>
+│   │   ├── <span class="file">in-memory-cache.service.ts</span>    <span class="comment"># LRU en memoire (CACHE_BACKEND=memory)</span>
+│   │   ├── <span class="file">tiered-cache.service.ts</span>       <span class="comment"># L1 memoire + L2 Upstash, invalidation pub/sub</span>
 │   │   ├── <span class="file">upstash-cache.service.ts</span>
 │   │   └── <span class="dir">repositories/</span>          <span class="comment"># Cached repository decorators</span>
 │   │       ├── <span class="file">cached-auth.repository.ts</span>
@@ -120,10 +140,21 @@ export const ArchitectureSection = () => (
 │   │       ├── <span class="file">cached-brand.repository.ts</span>
 │   │       ├── <span class="file">cached-color.repository.ts</span>
 │   │       └── <span class="file">cached-city.repository.ts</span>
+│   ├── <span class="dir">email/</span>                         <span class="comment"># Templates &amp; configuration des emails</span>
+│   │   ├── <span class="file">email.config.ts</span>          <span class="comment"># Choix du transport (EMAIL_TRANSPORT)</span>
+│   │   ├── <span class="file">template-email.renderer.ts</span>
+│   │   └── <span class="dir">templates/</span>
+│   ├── <span class="dir">realtime/</span>                      <span class="comment"># Diffusion des evenements SSE (REALTIME_TRANSPORT)</span>
+│   │   ├── <span class="file">realtime.config.ts</span>
+│   │   ├── <span class="file">in-memory-realtime.broker.ts</span> <span class="comment"># Un seul noeud</span>
+│   │   └── <span class="file">upstash-realtime.broker.ts</span>   <span class="comment"># Redis pub/sub + streams (multi-noeuds)</span>
 │   └── <span class="dir">services/</span>
 │       ├── <span class="file">argon-password.service.ts</span>  <span class="comment"># Argon2 hashing</span>
 │       ├── <span class="file">hono-jwt.service.ts</span>        <span class="comment"># JWT generation/verification</span>
-│       └── <span class="file">resend-email.service.ts</span>    <span class="comment"># Resend email integration</span>
+│       ├── <span class="file">resend-email.service.ts</span>    <span class="comment"># Resend email integration</span>
+│       ├── <span class="file">smtp-email.service.ts</span>      <span class="comment"># SMTP (Mailpit, MailHog)</span>
+│       ├── <span class="file">file-email.service.ts</span>      <span class="comment"># Fichiers .eml (dev, CI)</span>
+│       └── <span class="file">in-memory-email.service.ts</span> <span class="comment"># Boite mail en memoire (tests)</span>
 │
 ├── <span class="dir">presentation/</span>                      <span class="comment"># Hono routes &amp; middlewares</span>
 │   ├── <span class="dir">routes/</span>
@@ -148,11 +179,16 @@ export const ArchitectureSection = () => (
 │   │   ├── <span class="file">car.controller.ts</span>
 │   │   ├── <span class="file">city.controller.ts</span>
 │   │   ├── <span class="file">color.controller.ts</span>
-│   │   └── <span class="file">inscription.controller.ts</span>
+│   │   ├── <span class="file">inscription.controller.ts</span>
+│   │   ├── <span class="file">trip-message.controller.ts</span>    <span class="comment"># Conversation par trajet</span>
+│   │   ├── <span class="file">review.controller.ts</span>          <span class="comment"># Notes et avis apres trajet</span>
+│   │   └── <span class="file">realtime.controller.ts</span>     <span class="comment"># Flux Server-Sent Events</span>
 │   └── <span class="dir">middleware/</span>
 │       ├── <span class="file">auth.middleware.ts</span>         <span class="comment"># Verifie x-auth-token JWT</span>
 │       ├── <span class="file">authorization.middleware.ts</span> <span class="comment"># requireRole(USER/DRIVER/ADMIN)</span>
 │       ├── <span class="file">error-handler.middleware.ts</span>
+│       ├── <span class="file">rate-limit.middleware.ts</span>   <span class="comment"># Compteurs RateLimit-* via CacheService</span>
+│       ├── <span class="file">rate-limit.policies.ts</span>     <span class="comment"># Limites par groupe de routes et role</span>
 │       └── <span class="file">request-logger.middleware.ts</span>
 │
 └── <span class="dir">lib/</span>                               <span class="comment"># Utilitaires partages</span>
@@ -15,9 +15,14 @@ classDiagram
         +String email
         +String password
         +Role role
+        +DateTime emailVerifiedAt
+        +Int failedLoginAttempts
+        +DateTime lockedUntil
         +DateTime anonymizedAt
         +register(email, password) Auth
         +login(email, password) Token
+        +resetPassword(token, password) void
+        +verifyEmail(token) void
     }
 
     class User {
@@ -26,6 +31,9 @@ classDiagram
         +String firstName
         +String lastName
         +String phone
+        +Locale locale
+        +Boolean notifyBookingUpdates
+        +Boolean notifyTripReminders
         +Int authRefId
         +DateTime anonymizedAt
         +updateProfile() User
@@ -45,13 +53,48 @@ classDiagram
         +UUID id
         +Int refId
         +DateTime dateTrip
+        +DateTime arrivalAt
         +Int kms
         +Int seats
+        +Int pricePerSeat
+        +Boolean requiresApproval
+        +TripStatus status
+        +DateTime cancelledAt
+        +String cancellationReason
+        +Int seriesRefId
+        +DateTime occurrenceDate
+        +Boolean seriesDetached
         +Int driverRefId
         +Int carRefId
+        +DateTime reminderSentAt
         +create() Trip
-        +delete() void
-        +search(departure, arrival, date) Trip[]
+        +update(data) Boolean
+        +cancel(reason) void
+        +advanceStatuses(now) TripStatusAdvance
+        +search(filters, pagination) Trip[]
+    }
+
+    class TripSeries {
+        +UUID id
+        +Int refId
+        +Int[] daysOfWeek
+        +String departureTime
+        +DateTime startDate
+        +DateTime endDate
+        +DateTime[] exceptionDates
+        +Int kms
+        +Int seats
+        +Int pricePerSeat
+        +Boolean requiresApproval
+        +Int[] cityRefIds
+        +TripSeriesStatus status
+        +DateTime cancelledAt
+        +Int driverRefId
+        +Int carRefId
+        +create() TripSeries
+        +update(data) TripSeries
+        +cancel() Boolean
+        +findActive(now) TripSeries[]
     }
 
     class Inscription {
@@ -60,9 +103,42 @@ classDiagram
         +Int userRefId
         +Int tripRefId
         +InscriptionStatus status
+        +Int pricePerSeat
+        +DateTime cancelledAt
+        +String cancellationReason
+        +Int pickupPosition
+        +Int dropoffPosition
         +DateTime createdAt
         +create() Inscription
-        +delete() void
+        +accept() Inscription
+        +reject() Inscription
+        +cancel(reason) Inscription
+    }
+
+    class TripMessage {
+        +UUID id
+        +Int tripRefId
+        +Int authorRefId
+        +String body
+        +DateTime createdAt
+        +DateTime hiddenAt
+        +post() TripMessage
+        +hide() TripMessage
+        +countUnread() Int
+    }
+
+    class Review {
+        +UUID id
+        +Int tripRefId
+        +Int authorRefId
+        +Int subjectRefId
+        +ReviewDirection direction
+        +Int score
+        +String comment
+        +DateTime createdAt
+        +rateDriver() Review
+        +ratePassenger() Review
+        +summarizeDrivers() RatingSummary
     }
 
     class City {
@@ -70,6 +146,8 @@ classDiagram
         +Int refId
         +String cityName
         +String zipcode
+        +Float? latitude
+        +Float? longitude
         +create() City
         +delete() void
     }
@@ -78,6 +156,7 @@ classDiagram
         +Int tripRefId
         +Int cityRefId
         +CityTripType type
+        +Int position
     }
 
     class Car {
@@ -107,6 +186,43 @@ classDiagram
         +delete() void
     }
 
+    class Session {
+        +UUID id
+        +Int userRefId
+        +DateTime revokedAt
+        +String revokedReason
+        +revoke(reason) void
+    }
+
+    class RefreshToken {
+        +UUID id
+        +String tokenHash
+        +DateTime expiresAt
+        +DateTime usedAt
+        +rotate() RefreshToken
+    }
+
+    class AccountToken {
+        +UUID id
+        +String tokenHash
+        +AccountTokenPurpose purpose
+        +DateTime expiresAt
+        +DateTime usedAt
+        +redeem() void
+    }
+
+    class OutboxMessage {
+        +UUID id
+        +OutboxMessageType type
+        +Json payload
+        +OutboxMessageStatus status
+        +Int attempts
+        +DateTime nextAttemptAt
+        +String lastError
+        +deliver() void
+        +replay() void
+    }
+
     class Color {
         +UUID id
         +Int refId
@@ -118,12 +234,22 @@ classDiagram
     }
 
     Auth "1" --> "1" User : authentifie
+    Auth "1" --> "*" AccountToken : recupere
+    User "1" --> "*" Session : ouvre
+    Session "1" --> "1..*" RefreshToken : renouvele
     User "1" --> "0..1" Driver : devient conducteur
     User "1" --> "*" Inscription : reserve
     Driver "1" --> "*" Trip : publie
     Driver "1" --> "*" Car : possede
+    Driver "1" --> "*" TripSeries : planifie
+    TripSeries "1" --> "*" Trip : occurrences
     Trip "1" --> "*" Inscription : contient
-    Trip "1" --> "2" CityTrip : depart et arrivee
+    User "1" --> "*" TripMessage : ecrit
+    Trip "1" --> "*" TripMessage : conversation
+    User "1" --> "*" Review : redige
+    User "1" --> "*" Review : recoit
+    Trip "1" --> "*" Review : evalue
+    Trip "1" --> "2..*" CityTrip : depart, etapes et arrivee
     Trip "*" --> "1" Car : utilise
     City "1" --> "*" CityTrip : reference
     Car "*" --> "1" Model : est un modele
@@ -40,6 +40,9 @@ export const EntitiesSection = () => (
             { type: 'String', name: 'email' },
             { type: 'String', name: 'password' },
             { type: 'Role', name: 'role' },
+            { type: 'DateTime?', name: 'emailVerifiedAt' },
+            { type: 'Int', name: 'failedLoginAttempts' },
+            { type: 'DateTime?', name: 'lockedUntil' },
             { type: 'DateTime?', name: 'anonymizedAt' },
             { type: 'DateTime', name: 'createdAt' },
             { type: 'DateTime', name: 'updatedAt' },
@@ -56,6 +59,9 @@ export const EntitiesSection = () => (
             { type: 'String?', name: 'firstName' },
             { type: 'String?', name: 'lastName' },
             { type: 'String?', name: 'phone' },
+            { type: 'Locale', name: 'locale' },
+            { type: 'Boolean', name: 'notifyBookingUpdates' },
+            { type: 'Boolean', name: 'notifyTripReminders' },
             { type: 'Int', name: 'authRefId', badge: 'fk' },
             { type: 'DateTime?', name: 'anonymizedAt' },
             { type: 'DateTime', name: 'createdAt' },
@@ -84,8 +90,42 @@ export const EntitiesSection = () => (
             { type: 'UUID', name: 'id', badge: 'pk' },
             { type: 'Int', name: 'refId' },
             { type: 'DateTime', name: 'dateTrip' },
+            { type: 'DateTime', name: 'arrivalAt' },
             { type: 'Int', name: 'kms' },
             { type: 'Int', name: 'seats' },
+            { type: 'Int', name: 'pricePerSeat' },
+            { type: 'Boolean', name: 'requiresApproval' },
+            { type: 'TripStatus', name: 'status' },
+            { type: 'DateTime?', name: 'cancelledAt' },
+            { type: 'String?', name: 'cancellationReason' },
+            { type: 'Int?', name: 'seriesRefId', badge: 'fk' },
+            { type: 'DateTime?', name: 'occurrenceDate' },
+            { type: 'Boolean', name: 'seriesDetached' },
+            { type: 'Int', name: 'driverRefId', badge: 'fk' },
+            { type: 'Int', name: 'carRefId', badge: 'fk' },
+            { type: 'DateTime?', name: 'reminderSentAt' },
+          ]}
+        />
+
+        <EntityCard
+          icon="S"
+          iconStyle="background:rgba(52,211,153,0.15);color:var(--accent-3);"
+          title="TripSeries (Trajet recurrent)"
+          fields={[
+            { type: 'UUID', name: 'id', badge: 'pk' },
+            { type: 'Int', name: 'refId' },
+            { type: 'Int[]', name: 'daysOfWeek' },
+            { type: 'String', name: 'departureTime' },
+            { type: 'DateTime', name: 'startDate' },
+            { type: 'DateTime?', name: 'endDate' },
+            { type: 'DateTime[]', name: 'exceptionDates' },
+            { type: 'Int', name: 'kms' },
+            { type: 'Int', name: 'seats' },
+            { type: 'Int', name: 'pricePerSeat' },
+            { type: 'Boolean', name: 'requiresApproval' },
+            { type: 'Int[]', name: 'cityRefIds' },
+            { type: 'TripSeriesStatus', name: 'status' },
+            { type: 'DateTime?', name: 'cancelledAt' },
             { type: 'Int', name: 'driverRefId', badge: 'fk' },
             { type: 'Int', name: 'carRefId', badge: 'fk' },
           ]}
@@ -101,6 +141,41 @@ export const EntitiesSection = () => (
             { type: 'Int', name: 'userRefId', badge: 'fk' },
             { type: 'Int', name: 'tripRefId', badge: 'fk' },
             { type: 'InscriptionStatus', name: 'status' },
+            { type: 'Int', name: 'pricePerSeat' },
+            { type: 'DateTime?', name: 'cancelledAt' },
+            { type: 'String?', name: 'cancellationReason' },
+            { type: 'Int', name: 'pickupPosition' },
+            { type: 'Int', name: 'dropoffPosition' },
+            { type: 'DateTime', name: 'createdAt' },
+          ]}
+        />
+
+        <EntityCard
+          icon="M"
+          iconStyle="background:rgba(96,165,250,0.15);color:var(--accent);"
+          title="TripMessage (Message)"
+          fields={[
+            { type: 'UUID', name: 'id', badge: 'pk' },
+            { type: 'Int', name: 'tripRefId', badge: 'fk' },
+            { type: 'Int', name: 'authorRefId', badge: 'fk' },
+            { type: 'String', name: 'body' },
+            { type: 'DateTime', name: 'createdAt' },
+            { type: 'DateTime?', name: 'hiddenAt' },
+          ]}
+        />
+
+        <EntityCard
+          icon="R"
+          iconStyle="background:rgba(251,191,36,0.15);color:var(--warn);"
+          title="Review (Avis)"
+          fields={[
+            { type: 'UUID', name: 'id', badge: 'pk' },
+            { type: 'Int', name: 'tripRefId', badge: 'fk' },
+            { type: 'Int', name: 'authorRefId', badge: 'fk' },
+            { type: 'Int', name: 'subjectRefId', badge: 'fk' },
+            { type: 'Enum', name: 'direction' },
+            { type: 'Int', name: 'score' },
+            { type: 'String?', name: 'comment' },
             { type: 'DateTime', name: 'createdAt' },
           ]}
         />
@@ -114,6 +189,8 @@ export const EntitiesSection = () => (
             { type: 'Int', name: 'refId' },
             { type: 'String', name: 'cityName' },
             { type: 'String', name: 'zipcode' },
+            { type: 'Float?', name: 'latitude' },
+            { type: 'Float?', name: 'longitude' },
           ]}
         />
 
@@ -125,6 +202,7 @@ export const EntitiesSection = () => (
             { type: 'Int', name: 'tripRefId', badge: 'pk-fk' },
             { type: 'Int', name: 'cityRefId', badge: 'pk-fk' },
             { type: 'Enum', name: 'type' },
+            { type: 'Int', name: 'position' },
           ]}
         />
 
@@ -176,6 +254,65 @@ export const EntitiesSection = () => (
             { type: 'String', name: 'hex' },
           ]}
         />
+
+        <EntityCard
+          icon="S"
+          iconStyle="background:rgba(108,140,255,0.15);color:var(--accent);"
+          title="Session"
+          fields={[
+            { type: 'UUID', name: 'id', badge: 'pk' },
+            { type: 'Int', name: 'userRefId', badge: 'fk' },
+            { type: 'DateTime', name: 'createdAt' },
+            { type: 'DateTime?', name: 'revokedAt' },
+            { type: 'SessionRevocationReason?', name: 'revokedReason' },
+          ]}
+        />
+
+        <EntityCard
+          icon="RT"
+          iconStyle="background:rgba(108,140,255,0.15);color:var(--accent);"
+          title="RefreshToken (Jeton de renouvellement)"
+          fields={[
+            { type: 'UUID', name: 'id', badge: 'pk' },
+            { type: 'String', name: 'tokenHash' },
+            { type: 'UUID', name: 'sessionId', badge: 'fk' },
+            { type: 'DateTime', name: 'expiresAt' },
+            { type: 'DateTime?', name: 'usedAt' },
+            { type: 'DateTime', name: 'createdAt' },
+          ]}
+        />
+
+        <EntityCard
+          icon="AT"
+          iconStyle="background:rgba(108,140,255,0.15);color:var(--accent);"
+          title="AccountToken (Jeton de compte)"
+          fields={[
+            { type: 'UUID', name: 'id', badge: 'pk' },
+            { type: 'String', name: 'tokenHash' },
+            { type: 'Int', name: 'authRefId', badge: 'fk' },
+            { type: 'AccountTokenPurpose', name: 'purpose' },
+            { type: 'DateTime', name: 'expiresAt' },
+            { type: 'DateTime?', name: 'usedAt' },
+            { type: 'DateTime', name: 'createdAt' },
+          ]}
+        />
+
+        <EntityCard
+          icon="OB"
+          iconStyle="background:rgba(108,140,255,0.15);color:var(--accent);"
+          title="OutboxMessage (Message sortant)"
+          fields={[
+            { type: 'UUID', name: 'id', badge: 'pk' },
+            { type: 'OutboxMessageType', name: 'type' },
+            { type: 'Json', name: 'payload' },
+            { type: 'OutboxMessageStatus', name: 'status' },
+            { type: 'Int', name: 'attempts' },
+            { type: 'DateTime', name: 'nextAttemptAt' },
+            { type: 'String?', name: 'lastError' },
+            { type: 'DateTime', name: 'createdAt' },
+            { type: 'DateTime?', name: 'processedAt' },
+          ]}
+        />
       </div>
     </div>
   </section>
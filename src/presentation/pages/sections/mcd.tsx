@@ -13,6 +13,9 @@ erDiagram
         string email UK
         string password
         enum role
+        datetime email_verified_at
+        int failed_login_attempts
+        datetime locked_until
         datetime anonymized_at
     }
 
@@ -20,6 +23,9 @@ erDiagram
         string first_name
         string last_name
         string phone
+        string locale
+        boolean notify_booking_updates
+        boolean notify_trip_reminders
         datetime anonymized_at
     }
 
@@ -30,22 +36,65 @@ erDiagram
 
     TRIP {
         datetime date_trip
+        datetime arrival_at
         int kms
         int seats
+        enum status
+        datetime cancelled_at
+        string cancellation_reason
+        datetime occurrence_date
+        boolean series_detached
+        datetime reminder_sent_at
+    }
+
+    TRIP_SERIES {
+        int_array days_of_week
+        string departure_time
+        datetime start_date
+        datetime end_date
+        datetime_array exception_dates
+        int kms
+        int seats
+        int price_per_seat
+        int_array city_ref_ids
+        enum status
+        datetime cancelled_at
     }
 
     INSCRIPTION {
         enum status
+        int pickup_position
+        int dropoff_position
+        datetime created_at
+    }
+
+    TRIP_MESSAGE {
+        string body
+        datetime created_at
+        datetime hidden_at
+    }
+
+    TRIP_MESSAGE_READ {
+        datetime last_read_at
+    }
+
+    REVIEW {
+        string direction
+        int score
+        string comment
         datetime created_at
     }
 
     CITY {
         string city_name
         string zipcode
+        float latitude
+        float longitude
     }
 
     CITY_TRIP {
         enum type
+        int position
     }
 
     CAR {
@@ -70,12 +119,54 @@ erDiagram
         string _
     }
 
+    SESSION {
+        datetime created_at
+        datetime revoked_at
+        enum revoked_reason
+    }
+
+    REFRESH_TOKEN {
+        string token_hash UK
+        datetime expires_at
+        datetime used_at
+    }
+
+    ACCOUNT_TOKEN {
+        string token_hash UK
+        enum purpose
+        datetime expires_at
+        datetime used_at
+    }
+
+    OUTBOX_MESSAGE {
+        enum type
+        json payload
+        enum status
+        int attempts
+        datetime next_attempt_at
+        string last_error
+        datetime processed_at
+    }
+
     AUTH ||--|| USER : "authentifie (1,1)"
+    AUTH ||--o{ ACCOUNT_TOKEN : "recupere (0,n)"
     USER ||--o| DRIVER : "devient (0,1)"
+    USER ||--o{ SESSION : "ouvre (0,n)"
+    SESSION ||--|{ REFRESH_TOKEN : "renouvele (1,n)"
     USER ||--o{ INSCRIPTION : "reserve (0,n)"
     DRIVER ||--o{ TRIP : "publie (0,n)"
     DRIVER ||--o{ CAR : "possede (0,n)"
+    DRIVER ||--o{ TRIP_SERIES : "planifie (0,n)"
+    TRIP_SERIES ||--o{ TRIP : "occurrence (0,n)"
+    TRIP_SERIES }o--|| CAR : "utilise (1,1)"
     TRIP ||--o{ INSCRIPTION : "contient (0,n)"
+    USER ||--o{ TRIP_MESSAGE : "ecrit (0,n)"
+    TRIP ||--o{ TRIP_MESSAGE : "discute (0,n)"
+    USER ||--o{ TRIP_MESSAGE_READ : "lit (0,n)"
+    TRIP ||--o{ TRIP_MESSAGE_READ : "suivi (0,n)"
+    USER ||--o{ REVIEW : "redige (0,n)"
+    USER ||--o{ REVIEW : "recoit (0,n)"
+    TRIP ||--o{ REVIEW : "evalue (0,n)"
     TRIP ||--|{ CITY_TRIP : "etape (1,n)"
     TRIP }o--|| CAR : "utilise (1,1)"
     CITY ||--o{ CITY_TRIP : "reference (0,n)"
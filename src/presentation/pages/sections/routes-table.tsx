@@ -33,34 +33,64 @@ export const RoutesSection = () => (
           </thead>
           <tbody>
             <RouteGroup title="Authentification" />
-            <Route method="post" path="/api/v1/auth/register" auth="Public" params="email, password, confirmPassword" desc="Inscription utilisateur" />
-            <Route method="post" path="/api/v1/auth/login" auth="Public" params="email, password" desc="Authentification → JWT token" />
+            <Route method="post" path="/api/v1/auth/register" auth="Public" params="email, password, confirmPassword, ?locale (fr|en)" desc="Inscription utilisateur" />
+            <Route method="post" path="/api/v1/auth/login" auth="Public" params="email, password" desc="Authentification → JWT token + refresh token (delais progressifs puis verrouillage du compte apres des echecs)" />
+            <Route method="post" path="/api/v1/auth/refresh" auth="Public" params="refreshToken" desc="Renouveler le JWT (rotation du refresh token)" />
+            <Route method="post" path="/api/v1/auth/logout" auth="USER" params="?all" desc="Revoquer la session courante ou toutes les sessions" />
+            <Route method="post" path="/api/v1/auth/forgot-password" auth="Public" params="email" desc="Envoyer un lien de reinitialisation du mot de passe" />
+            <Route method="post" path="/api/v1/auth/reset-password" auth="Public" params="token, password, confirmPassword" desc="Reinitialiser le mot de passe (lien a usage unique)" />
+            <Route method="post" path="/api/v1/auth/verify-email" auth="Public" params="token" desc="Verifier l'adresse email" />
 
             <RouteGroup title="Utilisateurs" />
             <Route method="get" path="/api/v1/users" auth="ADMIN" params="?page, ?limit" desc="Liste de tous les utilisateurs" />
             <Route method="get" path="/api/v1/users/:id" auth="USER" params="id (UUID)" desc="Detail d'un utilisateur" />
-            <Route method="patch" path="/api/v1/users/me" auth="USER" params="?firstName, ?lastName, ?phone" desc="Modifier mon profil" />
+            <Route method="patch" path="/api/v1/users/me" auth="USER" params="?firstName, ?lastName, ?phone, ?locale, ?notifyBookingUpdates, ?notifyTripReminders" desc="Modifier mon profil (langue des emails, notifications de reservation et rappels de trajet)" />
+            <Route method="put" path="/api/v1/users/me/password" auth="USER" params="currentPassword, password, confirmPassword" desc="Changer mon mot de passe (revoque les autres sessions)" />
+            <Route method="put" path="/api/v1/users/me/email" auth="USER" params="email, currentPassword" desc="Changer mon email (nouvelle verification, ancien email notifie)" />
             <Route method="delete" path="/api/v1/users/me" auth="USER" params="—" desc="Anonymiser mon compte (RGPD)" />
+            <Route method="get" path="/api/v1/users/me/events" auth="USER" params="header ?Last-Event-ID" desc="Flux SSE de mes reservations et des trajets reserves (booking-updated, trip-updated, trip-cancelled)" />
             <Route method="delete" path="/api/v1/users/:id" auth="ADMIN" params="id (UUID)" desc="Anonymiser un utilisateur" />
+            <Route method="post" path="/api/v1/users/:id/unlock" auth="ADMIN" params="id (UUID)" desc="Deverrouiller un compte bloque apres des echecs de connexion" />
 
             <RouteGroup title="Conducteurs" />
             <Route method="post" path="/api/v1/drivers" auth="USER" params="driverLicense" desc="Devenir conducteur" />
+            <Route method="get" path="/api/v1/drivers/:id" auth="USER" params="id (UUID)" desc="Profil public d'un conducteur avec sa note moyenne" />
 
             <RouteGroup title="Trajets" />
             <Route method="get" path="/api/v1/trips" auth="USER" params="?page, ?limit" desc="Liste des trajets (pagine)" />
-            <Route method="get" path="/api/v1/trips/search" auth="USER" params="?departureCity, ?arrivalCity, ?date" desc="Rechercher un trajet" />
+            <Route method="get" path="/api/v1/trips/search" auth="USER" params="?departureCity, ?arrivalCity, ?departureLat, ?departureLng, ?departureRadiusKm, ?arrivalLat, ?arrivalLng, ?arrivalRadiusKm, ?date, ?dateFrom, ?dateTo, ?departureTimeFrom, ?departureTimeTo, ?minSeats, ?maxPrice, ?sortBy, ?sortOrder, ?page, ?limit" desc="Rechercher un trajet (pagine, trie, avec la note du conducteur)" />
+            <Route method="get" path="/api/v1/trips/price-suggestion" auth="USER" params="kms" desc="Prix par place suggere (centimes)" />
             <Route method="get" path="/api/v1/trips/:id" auth="USER" params="id (UUID)" desc="Detail d'un trajet" />
-            <Route method="post" path="/api/v1/trips" auth="DRIVER" params="kms, date, departureCity, arrivalCity, seats, carId" desc="Publier un trajet" />
-            <Route method="delete" path="/api/v1/trips/:id" auth="DRIVER" params="id (UUID)" desc="Supprimer un trajet" />
+            <Route method="get" path="/api/v1/trips/:id/events" auth="USER" params="id (UUID), header ?Last-Event-ID" desc="Flux SSE du trajet (seats-changed, trip-updated, trip-cancelled), heartbeat et reprise" />
+            <Route method="post" path="/api/v1/trips" auth="DRIVER" params="kms, date, departureCity, arrivalCity, ?stops, seats, carId, ?pricePerSeat, ?requiresApproval" desc="Publier un trajet" />
+            <Route method="delete" path="/api/v1/trips/:id" auth="DRIVER" params="id (UUID), ?reason" desc="Annuler un trajet non parti (statut CANCELLED, reservations annulees, passagers prevenus)" />
+
+            <RouteGroup title="Trajets recurrents (series)" />
+            <Route method="get" path="/api/v1/trips/series" auth="DRIVER" params="?page, ?limit" desc="Series du conducteur connecte (pagine)" />
+            <Route method="get" path="/api/v1/trips/series/:id" auth="DRIVER" params="id (UUID)" desc="Detail d'une serie avec ses occurrences a venir" />
+            <Route method="post" path="/api/v1/trips/series" auth="DRIVER" params="daysOfWeek, departureTime, startDate, ?endDate, ?exceptions, kms, departureCity, arrivalCity, ?stops, seats, carId, ?pricePerSeat, ?requiresApproval" desc="Publier un trajet recurrent (occurrences creees a l'avance)" />
+            <Route method="patch" path="/api/v1/trips/series/:id" auth="DRIVER" params="id (UUID), ?daysOfWeek, ?departureTime, ?endDate, ?exceptions, ?kms, ?seats, ?pricePerSeat, ?requiresApproval" desc="Modifier la serie et ses occurrences a venir non modifiees individuellement" />
+            <Route method="patch" path="/api/v1/trips/series/:id/occurrences/:tripId" auth="DRIVER" params="id (UUID), tripId (UUID), ?date, ?kms, ?seats, ?pricePerSeat, ?requiresApproval" desc="Modifier une seule occurrence (detachee de la serie)" />
+            <Route method="delete" path="/api/v1/trips/series/:id" auth="DRIVER" params="id (UUID), ?reason" desc="Annuler la serie et toutes ses occurrences a venir" />
 
             <RouteGroup title="Inscriptions (Reservations)" />
             <Route method="get" path="/api/v1/inscriptions" auth="USER" params="?page, ?limit" desc="Liste des reservations" />
-            <Route method="post" path="/api/v1/inscriptions" auth="USER" params="tripId" desc="Reserver une place" />
-            <Route method="delete" path="/api/v1/inscriptions/:id" auth="USER" params="id (UUID)" desc="Annuler une reservation" />
+            <Route method="post" path="/api/v1/inscriptions" auth="USER" params="tripId, ?pickupCity, ?dropoffCity" desc="Reserver une place (trajet complet ou troncon)" />
+            <Route method="delete" path="/api/v1/inscriptions/:id" auth="USER" params="id (UUID), ?reason" desc="Annuler une reservation (statut CANCELLED)" />
 
             <RouteGroup title="Routes imbriquees" />
             <Route method="get" path="/api/v1/users/:id/inscriptions" auth="USER" params="id (UUID), ?page, ?limit" desc="Reservations d'un utilisateur" />
             <Route method="get" path="/api/v1/trips/:id/passengers" auth="USER" params="id (UUID), ?page, ?limit" desc="Passagers d'un trajet" />
+            <Route method="post" path="/api/v1/trips/:id/passengers/:inscriptionId/accept" auth="DRIVER" params="id (UUID), inscriptionId (UUID)" desc="Accepter une demande de reservation" />
+            <Route method="post" path="/api/v1/trips/:id/passengers/:inscriptionId/reject" auth="DRIVER" params="id (UUID), inscriptionId (UUID)" desc="Refuser une demande de reservation" />
+            <Route method="get" path="/api/v1/trips/:id/messages" auth="USER" params="id (UUID), ?page, ?limit" desc="Conversation du trajet (conducteur et passagers confirmes), marquee comme lue ; messages masques visibles par ADMIN" />
+            <Route method="post" path="/api/v1/trips/:id/messages" auth="USER" params="id (UUID), body" desc="Envoyer un message dans la conversation du trajet" />
+            <Route method="get" path="/api/v1/trips/:id/messages/unread" auth="USER" params="id (UUID)" desc="Nombre de messages non lus de la conversation" />
+            <Route method="post" path="/api/v1/trips/:id/messages/:messageId/hide" auth="ADMIN" params="id (UUID), messageId (UUID)" desc="Masquer un message (moderation)" />
+            <Route method="post" path="/api/v1/trips/:id/reviews" auth="USER" params="id (UUID), score (1-5), ?comment" desc="Noter le conducteur apres le trajet (passager confirme, une fois)" />
+            <Route method="post" path="/api/v1/trips/:id/passengers/:inscriptionId/review" auth="DRIVER" params="id (UUID), inscriptionId (UUID), score (1-5), ?comment" desc="Noter un passager apres le trajet (une fois)" />
+            <Route method="get" path="/api/v1/drivers/:id/reviews" auth="USER" params="id (UUID), ?page, ?limit" desc="Avis recus par un conducteur" />
+            <Route method="get" path="/api/v1/users/:id/reviews" auth="USER" params="id (UUID), ?page, ?limit" desc="Avis recus par un passager" />
 
             <RouteGroup title="Marques" />
             <Route method="get" path="/api/v1/brands" auth="DRIVER" params="?page, ?limit" desc="Liste des marques" />
@@ -76,7 +106,7 @@ export const RoutesSection = () => (
 
             <RouteGroup title="Villes" />
             <Route method="get" path="/api/v1/cities" auth="USER" params="?page, ?limit" desc="Liste des villes" />
-            <Route method="post" path="/api/v1/cities" auth="USER" params="cityName, zipcode" desc="Ajouter une ville" />
+            <Route method="post" path="/api/v1/cities" auth="USER" params="cityName, zipcode, ?latitude, ?longitude" desc="Ajouter une ville" />
             <Route method="delete" path="/api/v1/cities/:id" auth="ADMIN" params="id (UUID)" desc="Supprimer une ville" />
 
             <RouteGroup title="Couleurs" />
@@ -85,6 +115,12 @@ export const RoutesSection = () => (
             <Route method="patch" path="/api/v1/colors/:id" auth="ADMIN" params="?name, ?hex" desc="Modifier une couleur" />
             <Route method="delete" path="/api/v1/colors/:id" auth="ADMIN" params="id (UUID)" desc="Supprimer une couleur" />
 
+            <RouteGroup title="Administration" />
+            <Route method="get" path="/api/v1/admin/outbox" auth="ADMIN" params="?status, ?page, ?limit" desc="Inspecter la file d'envoi des emails (outbox)" />
+            <Route method="post" path="/api/v1/admin/outbox/:id/replay" auth="ADMIN" params="id (UUID)" desc="Relancer un message en echec definitif (DEAD)" />
+            <Route method="get" path="/api/v1/admin/email-templates/:template/preview" auth="ADMIN" params="template, ?locale (fr|en)" desc="Previsualiser un modele d'email avec des donnees d'exemple" />
+            <Route method="get" path="/api/v1/admin/cache/metrics" auth="ADMIN" params="—" desc="Consulter les hits, misses et evictions du cache par domaine" />
+
             <RouteGroup title="Systeme" />
             <Route method="get" path="/api/health" auth="Public" params="—" desc="Health check" />
           </tbody>
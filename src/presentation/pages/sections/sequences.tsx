@@ -24,11 +24,20 @@ sequenceDiagram
     App->>API: POST /api/v1/auth/login {email, password}
     API->>DB: SELECT auth WHERE email = ?
     DB-->>API: Auth trouve
-    alt Password correct (Argon2)
-        API->>API: Genere token JWT
-        API-->>App: 200 {token, userId}
+    alt Compte verrouille (locked_until > maintenant)
+        API-->>App: 401 {error INVALID_CREDENTIALS}
+        App-->>U: Affiche message erreur
+    else Password correct (Argon2)
+        API->>DB: UPDATE auths SET failed_login_attempts = 0, locked_until = NULL
+        API->>DB: INSERT INTO sessions + refresh_tokens (hash)
+        API->>API: Genere token JWT (sid = session)
+        API-->>App: 200 {token, refreshToken, userId}
         App-->>U: Redirection Accueil
     else Password incorrect
+        API->>DB: UPDATE auths SET failed_login_attempts + 1
+        opt Delai progressif ou verrouillage
+            API->>DB: UPDATE auths SET locked_until = ? + INSERT INTO outbox_messages (alerte, au verrouillage)
+        end
         API-->>App: 401 {error INVALID_CREDENTIALS}
         App-->>U: Affiche message erreur
     end
@@ -115,11 +124,12 @@ sequenceDiagram
     API->>API: authMiddleware + requireRole USER
     API->>DB: SELECT trip WHERE id = tripId
     DB-->>API: Trip trouve
-    API->>DB: COUNT inscriptions WHERE tripRefId = ?
+    API->>DB: BEGIN + SELECT trip FOR UPDATE
+    API->>DB: COUNT inscriptions ACTIVE WHERE tripRefId = ?
     DB-->>API: Nombre de reservations
 
     alt Places disponibles et pas deja inscrit
-        API->>DB: INSERT INTO inscriptions
+        API->>DB: INSERT INTO inscriptions + COMMIT
         DB-->>API: Inscription creee
         API-->>App: 201 {inscription}
         App-->>U: Reservation effectuee
@@ -140,12 +150,13 @@ sequenceDiagram
     participant API as API REST Hono
     participant DB as Neon PostgreSQL
 
-    U->>App: Saisit ville depart, ville arrivee, date
-    App->>API: GET /api/v1/trips/search?departureCity=X&arrivalCity=Y&date=Z
+    U->>App: Saisit villes, dates, horaires, places, prix max
+    App->>API: GET /api/v1/trips/search?departureCity=X&arrivalCity=Y&dateFrom=D1&dateTo=D2&minSeats=N&page=1
     API->>API: authMiddleware + requireRole USER
-    API->>DB: SELECT trips WHERE cities match AND date
-    DB-->>API: Resultats
-    API-->>App: 200 [{trip1}, {trip2}, ...]
+    API->>DB: SELECT trips WHERE cities match AND dates AND prix AND places
+    DB-->>API: Resultats + inscriptions
+    API->>API: Ordre des arrets, plage horaire, places restantes, tri, page
+    API-->>App: 200 {data: [{trip1, remainingSeats}, ...], meta}
     App-->>U: Affiche resultats de recherche
       `} />
 
@@ -2,35 +2,34 @@
  * @module AuthRoutes
  * Authentication endpoint group mounted at `/api/auth`.
  *
- * All routes in this group are **public** -- no authMiddleware or role checks.
- * Rate limiting is applied to prevent brute-force and abuse.
+ * All routes in this group are **public** except logout -- no role checks.
+ * Rate limiting is applied per client IP to prevent brute-force and abuse
+ * (see the `RATE_LIMIT_POLICIES` table).
  *
  * Endpoints:
  * - POST /register -- Create a new user account (3 req/min)
- * - POST /login    -- Authenticate and receive a JWT token (5 req/min)
+ * - POST /login    -- Authenticate and receive a JWT and a refresh token (5 req/min)
+ * - POST /refresh  -- Exchange a refresh token for new tokens (10 req/min)
+ * - POST /logout   -- Revoke the current session or all sessions (auth required)
+ * - POST /forgot-password -- Email a password reset link (3 req/min)
+ * - POST /reset-password  -- Set a new password from a reset link (5 req/min)
+ * - POST /verify-email    -- Verify the email address from a verification link (5 req/min)
  */
 import { Hono } from 'hono';
-import { rateLimiter } from 'hono-rate-limiter';
-import { login, register } from '../controllers/auth.controller.js';
-
-const loginLimiter = rateLimiter({
-	windowMs: 60 * 1000,
-	limit: 5,
-	keyGenerator: (c) => c.req.header('x-forwarded-for') ?? 'unknown',
-	message: { success: false, error: { code: 'RATE_LIMITED', message: 'Too many login attempts, please try again later' } },
-});
-
-const registerLimiter = rateLimiter({
-	windowMs: 60 * 1000,
-	limit: 3,
-	keyGenerator: (c) => c.req.header('x-forwarded-for') ?? 'unknown',
-	message: { success: false, error: { code: 'RATE_LIMITED', message: 'Too many registration attempts, please try again later' } },
-});
+import { forgotPassword, login, logout, refresh, register, resetPassword, verifyEmail } from '../controllers/auth.controller.js';
+import { authMiddleware, rateLimit } from '../middleware/index.js';
 
 const authRoutes = new Hono();
 
 // Public routes — no auth, no role check, rate limited
-authRoutes.post('/register', registerLimiter, register);
-authRoutes.post('/login', loginLimiter, login);
+authRoutes.post('/register', rateLimit('register'), register);
+authRoutes.post('/login', rateLimit('login'), login);
+authRoutes.post('/refresh', rateLimit('refresh'), refresh);
+authRoutes.post('/forgot-password', rateLimit('forgotPassword'), forgotPassword);
+authRoutes.post('/reset-password', rateLimit('accountToken'), resetPassword);
+authRoutes.post('/verify-email', rateLimit('accountToken'), verifyEmail);
+
+// Authenticated routes — any role
+authRoutes.post('/logout', authMiddleware, logout);
 
 export { authRoutes };
@@ -2,7 +2,7 @@
  * @module BrandRoutes
  * Car brand endpoint group mounted at `/api/brands`.
  *
- * Middleware chain: authMiddleware (all routes) -> requireRole (per route)
+ * Middleware chain: authMiddleware -> rateLimit('catalog') (all routes) -> requireRole (per route)
  *
  * Endpoints:
  * - GET    /         -- List brands (DRIVER+)
@@ -10,12 +10,12 @@
  * - DELETE /:id      -- Delete brand (ADMIN)
  */
 import { Hono } from 'hono';
-import { authMiddleware, requireRole } from '../middleware/index.js';
+import { authMiddleware, rateLimit, requireRole } from '../middleware/index.js';
 import { createBrand, deleteBrand, listBrands } from '../controllers/brand.controller.js';
 
 const brandRoutes = new Hono();
 
-brandRoutes.use('*', authMiddleware);
+brandRoutes.use('*', authMiddleware, rateLimit('catalog'));
 
 brandRoutes.get('/', requireRole('DRIVER'), listBrands);
 brandRoutes.post('/', requireRole('ADMIN'), createBrand);
@@ -0,0 +1,20 @@
+/**
+ * @module CacheRoutes
+ * Cache administration endpoint group mounted at `/api/v1/admin/cache`.
+ *
+ * Middleware chain: authMiddleware -> requireRole('ADMIN') (all routes)
+ *
+ * Endpoints:
+ * - GET    /metrics     -- Hits, misses and evictions per cached domain (ADMIN)
+ */
+import { Hono } from 'hono';
+import { authMiddleware, requireRole } from '../middleware/index.js';
+import { getCacheMetrics } from '../controllers/cache.controller.js';
+
+const cacheRoutes = new Hono();
+
+cacheRoutes.use('*', authMiddleware, requireRole('ADMIN'));
+
+cacheRoutes.get('/metrics', getCacheMetrics);
+
+export { cacheRoutes };
@@ -2,7 +2,7 @@
  * @module CarRoutes
  * Car management endpoint group mounted at `/api/cars`.
  *
- * Middleware chain: authMiddleware (all routes) -> requireRole('DRIVER') (per route)
+ * Middleware chain: authMiddleware -> rateLimit('catalog') (all routes) -> requireRole('DRIVER') (per route)
  *
  * Endpoints:
  * - GET    /         -- List cars (DRIVER+)
@@ -12,12 +12,12 @@
  * - DELETE /:id      -- Delete car (DRIVER+)
  */
 import { Hono } from 'hono';
-import { authMiddleware, requireRole } from '../middleware/index.js';
+import { authMiddleware, rateLimit, requireRole } from '../middleware/index.js';
 import { createCar, deleteCar, listCars, patchCar, updateCar } from '../controllers/car.controller.js';
 
 const carRoutes = new Hono();
 
-carRoutes.use('*', authMiddleware);
+carRoutes.use('*', authMiddleware, rateLimit('catalog'));
 
 carRoutes.get('/', requireRole('DRIVER'), listCars); //TODO : change to admin only and make a separate route for drivers to list their own cars by :id
 carRoutes.post('/', requireRole('DRIVER'), createCar);
@@ -2,7 +2,7 @@
  * @module CityRoutes
  * City management endpoint group mounted at `/api/cities`.
  *
- * Middleware chain: authMiddleware (all routes) -> requireRole (per route)
+ * Middleware chain: authMiddleware -> rateLimit('cities') (all routes) -> requireRole (per route)
  *
  * Endpoints:
  * - GET    /         -- List cities (USER+)
@@ -10,12 +10,12 @@
  * - DELETE /:id      -- Delete city (ADMIN)
  */
 import { Hono } from 'hono';
-import { authMiddleware, requireRole } from '../middleware/index.js';
+import { authMiddleware, rateLimit, requireRole } from '../middleware/index.js';
 import { createCity, deleteCity, listCities } from '../controllers/city.controller.js';
 
 const cityRoutes = new Hono();
 
-cityRoutes.use('*', authMiddleware);
+cityRoutes.use('*', authMiddleware, rateLimit('cities'));
 
 cityRoutes.get('/', requireRole('USER'), listCities);
 cityRoutes.post('/', requireRole('USER'), createCity);
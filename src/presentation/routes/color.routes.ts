@@ -2,7 +2,7 @@
  * @module ColorRoutes
  * Car color management endpoint group mounted at `/api/colors`.
  *
- * Middleware chain: authMiddleware (all routes) -> requireRole (per route)
+ * Middleware chain: authMiddleware -> rateLimit('catalog') (all routes) -> requireRole (per route)
  *
  * Endpoints:
  * - GET    /         -- List colors (DRIVER+)
@@ -11,12 +11,12 @@
  * - DELETE /:id      -- Delete color (ADMIN only)
  */
 import { Hono } from 'hono';
-import { authMiddleware, requireRole } from '../middleware/index.js';
+import { authMiddleware, rateLimit, requireRole } from '../middleware/index.js';
 import { listColors, createColor, updateColor, deleteColor } from '../controllers/color.controller.js';
 
 const colorRoutes = new Hono();
 
-colorRoutes.use('*', authMiddleware);
+colorRoutes.use('*', authMiddleware, rateLimit('catalog'));
 
 colorRoutes.get('/', requireRole('DRIVER'), listColors);
 colorRoutes.post('/', requireRole('ADMIN'), createColor);
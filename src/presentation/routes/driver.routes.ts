@@ -1,20 +1,22 @@
 /**
  * @module DriverRoutes
- * Driver registration endpoint group mounted at `/api/drivers`.
+ * Driver registration and profile endpoint group mounted at `/api/drivers`.
  *
- * Middleware chain: authMiddleware (all routes) -> requireRole('USER') (per route)
+ * Middleware chain: authMiddleware -> rateLimit('drivers') (all routes) -> requireRole('USER') (per route)
  *
  * Endpoints:
  * - POST / -- Register the authenticated user as a driver (USER+)
+ * - GET /:id -- Public driver profile with rating aggregate (USER+)
  */
 import { Hono } from 'hono';
-import { authMiddleware, requireRole } from '../middleware/index.js';
-import { createDriver } from '../controllers/driver.controller.js';
+import { authMiddleware, rateLimit, requireRole } from '../middleware/index.js';
+import { createDriver, getDriverProfile } from '../controllers/driver.controller.js';
 
 const driverRoutes = new Hono();
 
-driverRoutes.use('*', authMiddleware);
+driverRoutes.use('*', authMiddleware, rateLimit('drivers'));
 
 driverRoutes.post('/', requireRole('USER'), createDriver);
+driverRoutes.get('/:id', requireRole('USER'), getDriverProfile);
 
 export { driverRoutes };
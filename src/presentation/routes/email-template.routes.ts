@@ -0,0 +1,20 @@
+/**
+ * @module EmailTemplateRoutes
+ * Email template administration endpoint group mounted at `/api/v1/admin/email-templates`.
+ *
+ * Middleware chain: authMiddleware -> requireRole('ADMIN') (all routes)
+ *
+ * Endpoints:
+ * - GET    /:template/preview  -- Render a template with sample variables (ADMIN)
+ */
+import { Hono } from 'hono';
+import { authMiddleware, requireRole } from '../middleware/index.js';
+import { previewEmailTemplate } from '../controllers/email-template.controller.js';
+
+const emailTemplateRoutes = new Hono();
+
+emailTemplateRoutes.use('*', authMiddleware, requireRole('ADMIN'));
+
+emailTemplateRoutes.get('/:template/preview', previewEmailTemplate);
+
+export { emailTemplateRoutes };
@@ -2,7 +2,7 @@
  * @module InscriptionRoutes
  * Inscription (passenger sign-up) endpoint group mounted at `/api/inscriptions`.
  *
- * Middleware chain: authMiddleware (all routes) -> requireRole('USER') (per route)
+ * Middleware chain: authMiddleware -> rateLimit('inscriptions') (all routes) -> requireRole('USER') (per route)
  *
  * Endpoints:
  * - GET    /         -- List all inscriptions (USER+)
@@ -15,7 +15,7 @@
  * - GET /api/travels/:id/passengers
  */
 import { Hono } from 'hono';
-import { authMiddleware, requireRole } from '../middleware/index.js';
+import { authMiddleware, rateLimit, requireRole } from '../middleware/index.js';
 import {
 	createInscription,
 	deleteInscription,
@@ -24,7 +24,7 @@ import {
 
 const inscriptionRoutes = new Hono();
 
-inscriptionRoutes.use('*', authMiddleware);
+inscriptionRoutes.use('*', authMiddleware, rateLimit('inscriptions'));
 
 inscriptionRoutes.get('/', requireRole('USER'), listInscriptions);
 inscriptionRoutes.post('/', requireRole('USER'), createInscription);
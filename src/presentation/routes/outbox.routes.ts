@@ -0,0 +1,22 @@
+/**
+ * @module OutboxRoutes
+ * Outbox administration endpoint group mounted at `/api/v1/admin/outbox`.
+ *
+ * Middleware chain: authMiddleware -> requireRole('ADMIN') (all routes)
+ *
+ * Endpoints:
+ * - GET    /            -- List outbox messages, filterable by status (ADMIN)
+ * - POST   /:id/replay  -- Requeue a dead message (ADMIN)
+ */
+import { Hono } from 'hono';
+import { authMiddleware, requireRole } from '../middleware/index.js';
+import { listOutboxMessages, replayOutboxMessage } from '../controllers/outbox.controller.js';
+
+const outboxRoutes = new Hono();
+
+outboxRoutes.use('*', authMiddleware, requireRole('ADMIN'));
+
+outboxRoutes.get('/', listOutboxMessages);
+outboxRoutes.post('/:id/replay', replayOutboxMessage);
+
+export { outboxRoutes };
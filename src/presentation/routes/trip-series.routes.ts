@@ -0,0 +1,37 @@
+/**
+ * @module TripSeriesRoutes
+ * Recurring trip (trip series) endpoint group mounted at `/api/trips/series`.
+ *
+ * Middleware chain: authMiddleware -> rateLimit('tripSeries') (all routes) -> requireRole (per route)
+ *
+ * Endpoints:
+ * - GET    /     -- List the authenticated driver's series (DRIVER+)
+ * - GET    /:id  -- Get a series with its occurrences from today on (DRIVER+)
+ * - POST   /     -- Create a series and its first occurrences (DRIVER+)
+ * - PATCH  /:id  -- Edit the series and its upcoming occurrences (DRIVER+)
+ * - PATCH  /:id/occurrences/:tripId -- Edit a single occurrence (DRIVER+)
+ * - DELETE /:id  -- Cancel the series and its upcoming occurrences (DRIVER+)
+ */
+import { Hono } from 'hono';
+import { authMiddleware, rateLimit, requireRole } from '../middleware/index.js';
+import {
+	createTripSeries,
+	deleteTripSeries,
+	getTripSeries,
+	listTripSeries,
+	updateTripSeries,
+	updateTripSeriesOccurrence,
+} from '../controllers/trip-series.controller.js';
+
+const tripSeriesRoutes = new Hono();
+
+tripSeriesRoutes.use('*', authMiddleware, rateLimit('tripSeries'));
+
+tripSeriesRoutes.get('/', requireRole('DRIVER'), listTripSeries);
+tripSeriesRoutes.get('/:id', requireRole('DRIVER'), getTripSeries);
+tripSeriesRoutes.post('/', requireRole('DRIVER'), createTripSeries);
+tripSeriesRoutes.patch('/:id', requireRole('DRIVER'), updateTripSeries);
+tripSeriesRoutes.patch('/:id/occurrences/:tripId', requireRole('DRIVER'), updateTripSeriesOccurrence);
+tripSeriesRoutes.delete('/:id', requireRole('DRIVER'), deleteTripSeries);
+
+export { tripSeriesRoutes };
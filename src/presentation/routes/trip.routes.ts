@@ -2,26 +2,31 @@
  * @module TripRoutes
  * Trip (carpooling journey) endpoint group mounted at `/api/trips`.
  *
- * Middleware chain: authMiddleware (all routes) -> requireRole (per route)
+ * Middleware chain: authMiddleware -> rateLimit('trips') (all routes) -> requireRole (per route)
  *
  * Endpoints:
  * - GET    /         -- List all trips (USER+)
  * - GET    /search   -- Search trips by departure, arrival, date (USER+)
+ * - GET    /price-suggestion -- Suggested price per seat for a distance (USER+)
  * - GET    /:id      -- Get trip by UUID (USER+)
+ * - GET    /:id/events -- Stream the trip's seat changes, edits and cancellation over SSE (USER+)
  * - POST   /         -- Create trip (DRIVER+)
- * - DELETE /:id      -- Delete trip (DRIVER+)
+ * - DELETE /:id      -- Cancel trip, keeping it with status CANCELLED (DRIVER+)
  */
 import { Hono } from 'hono';
-import { authMiddleware, requireRole } from '../middleware/index.js';
-import { createTrip, deleteTrip, findTrip, getTrip, listTrips } from '../controllers/trip.controller.js';
+import { authMiddleware, rateLimit, requireRole } from '../middleware/index.js';
+import { createTrip, deleteTrip, findTrip, getTrip, listTrips, suggestTripPrice } from '../controllers/trip.controller.js';
+import { streamTripEvents } from '../controllers/realtime.controller.js';
 
 const tripRoutes = new Hono();
 
-tripRoutes.use('*', authMiddleware);
+tripRoutes.use('*', authMiddleware, rateLimit('trips'));
 
 tripRoutes.get('/', requireRole('USER'), listTrips);
 tripRoutes.get('/search', requireRole('USER'), findTrip);
+tripRoutes.get('/price-suggestion', requireRole('USER'), suggestTripPrice);
 tripRoutes.get('/:id', requireRole('USER'), getTrip);
+tripRoutes.get('/:id/events', requireRole('USER'), streamTripEvents);
 tripRoutes.post('/', requireRole('DRIVER'), createTrip);
 tripRoutes.delete('/:id', requireRole('DRIVER'), deleteTrip);
 
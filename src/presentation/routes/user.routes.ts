@@ -2,28 +2,49 @@
  * @module UserRoutes
  * User management endpoint group mounted at `/api/users`.
  *
- * Middleware chain: authMiddleware (all routes) -> requireRole (per route)
+ * Middleware chain: authMiddleware -> rateLimit('users') (all routes) -> requireRole (per route)
  *
  * Endpoints:
  * - PATCH  /me       -- Update own profile (USER+)
+ * - GET    /me/events   -- Stream own booking and trip updates over SSE (USER+)
+ * - PUT    /me/password -- Change own password (USER+, 5 req/min per user)
+ * - PUT    /me/email    -- Change own email address (USER+, 5 req/min per user)
  * - DELETE /me       -- GDPR self-anonymization (USER+)
  * - GET    /         -- List all users (ADMIN)
  * - GET    /:id      -- Get user by UUID (USER+)
  * - DELETE /:id      -- Anonymize user by UUID (ADMIN)
+ * - POST   /:id/unlock -- Lift the login lock of a user's account (ADMIN)
  *
  * Note: `/me` routes are defined before `/:id` to prevent route shadowing.
  */
 import { Hono } from 'hono';
-import { authMiddleware, requireRole } from '../middleware/index.js';
-import { listUsers, getUser, updateProfile, anonymizeMe, anonymizeUser } from '../controllers/user.controller.js';
+import { authMiddleware, rateLimit, requireRole } from '../middleware/index.js';
+import {
+	listUsers,
+	getUser,
+	updateProfile,
+	changePassword,
+	changeEmail,
+	anonymizeMe,
+	anonymizeUser,
+	unlockUser,
+} from '../controllers/user.controller.js';
+import { streamMyEvents } from '../controllers/realtime.controller.js';
 
 const userRoutes = new Hono();
 
-userRoutes.use('*', authMiddleware);
+userRoutes.use('*', authMiddleware, rateLimit('users'));
 
 // Profile management
 userRoutes.patch('/me', requireRole('USER'), updateProfile);
 
+// Realtime updates
+userRoutes.get('/me/events', requireRole('USER'), streamMyEvents);
+
+// Credential changes (current password required)
+userRoutes.put('/me/password', requireRole('USER'), rateLimit('credentialChange'), changePassword);
+userRoutes.put('/me/email', requireRole('USER'), rateLimit('credentialChange'), changeEmail);
+
 // GDPR anonymization (self-service)
 userRoutes.delete('/me', requireRole('USER'), anonymizeMe);
 
@@ -32,4 +53,7 @@ userRoutes.get('/', requireRole('ADMIN'), listUsers);
 userRoutes.get('/:id', requireRole('USER'), getUser);
 userRoutes.delete('/:id', requireRole('ADMIN'), anonymizeUser);
 
+// Account lockout (failed logins)
+userRoutes.post('/:id/unlock', requireRole('ADMIN'), unlockUser);
+
 export { userRoutes };
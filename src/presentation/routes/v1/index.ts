@@ -7,9 +7,15 @@ import { cityRoutes } from '../city.routes.js';
 import { colorRoutes } from '../color.routes.js';
 import { driverRoutes } from '../driver.routes.js';
 import { tripRoutes } from '../trip.routes.js';
+import { tripSeriesRoutes } from '../trip-series.routes.js';
 import { inscriptionRoutes } from '../inscription.routes.js';
 import { userRoutes } from '../user.routes.js';
-import { listUserInscriptions, listTripPassengers } from '../../controllers/inscription.controller.js';
+import { outboxRoutes } from '../outbox.routes.js';
+import { emailTemplateRoutes } from '../email-template.routes.js';
+import { cacheRoutes } from '../cache.routes.js';
+import { acceptTripPassenger, listUserInscriptions, listTripPassengers, rejectTripPassenger } from '../../controllers/inscription.controller.js';
+import { listDriverReviews, listUserReviews, rateDriver, ratePassenger } from '../../controllers/review.controller.js';
+import { countUnreadTripMessages, hideTripMessage, listTripMessages, postTripMessage } from '../../controllers/trip-message.controller.js';
 
 const v1Routes = new Hono();
 
@@ -19,12 +25,27 @@ v1Routes.route('/cars', carRoutes);
 v1Routes.route('/cities', cityRoutes);
 v1Routes.route('/colors', colorRoutes);
 v1Routes.route('/drivers', driverRoutes);
+// Mounted before /trips so that /trips/:id does not capture "series"
+v1Routes.route('/trips/series', tripSeriesRoutes);
 v1Routes.route('/trips', tripRoutes);
 v1Routes.route('/inscriptions', inscriptionRoutes);
 v1Routes.route('/users', userRoutes);
+v1Routes.route('/admin/outbox', outboxRoutes);
+v1Routes.route('/admin/email-templates', emailTemplateRoutes);
+v1Routes.route('/admin/cache', cacheRoutes);
 
 // Nested resource routes
 v1Routes.get('/users/:id/inscriptions', authMiddleware, requireRole('USER'), listUserInscriptions);
 v1Routes.get('/trips/:id/passengers', authMiddleware, requireRole('USER'), listTripPassengers);
+v1Routes.post('/trips/:id/passengers/:inscriptionId/accept', authMiddleware, requireRole('DRIVER'), acceptTripPassenger);
+v1Routes.post('/trips/:id/passengers/:inscriptionId/reject', authMiddleware, requireRole('DRIVER'), rejectTripPassenger);
+v1Routes.get('/trips/:id/messages', authMiddleware, requireRole('USER'), listTripMessages);
+v1Routes.post('/trips/:id/messages', authMiddleware, requireRole('USER'), postTripMessage);
+v1Routes.get('/trips/:id/messages/unread', authMiddleware, requireRole('USER'), countUnreadTripMessages);
+v1Routes.post('/trips/:id/messages/:messageId/hide', authMiddleware, requireRole('ADMIN'), hideTripMessage);
+v1Routes.post('/trips/:id/reviews', authMiddleware, requireRole('USER'), rateDriver);
+v1Routes.post('/trips/:id/passengers/:inscriptionId/review', authMiddleware, requireRole('DRIVER'), ratePassenger);
+v1Routes.get('/drivers/:id/reviews', authMiddleware, requireRole('USER'), listDriverReviews);
+v1Routes.get('/users/:id/reviews', authMiddleware, requireRole('USER'), listUserReviews);
 
 export { v1Routes };
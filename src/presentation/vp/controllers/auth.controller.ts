@@ -14,6 +14,7 @@ export async function vpRegister(c: Context): Promise<Response> {
 		email: validated.email,
 		password: validated.password,
 		confirmPassword: validated.password,
+		locale: 'fr',
 	});
 	return resultToResponse(c, result, 201);
 }
@@ -3,6 +3,8 @@ import { container } from '../../../lib/shared/di/container.js';
 import { TOKENS } from '../../../lib/shared/di/tokens.js';
 import { resultToResponse } from '../../../lib/shared/utils/result-response.util.js';
 import { paginationSchema } from '../../../lib/shared/utils/pagination.util.js';
+import { err } from '../../../lib/shared/types/result.js';
+import { TripNotEditableError } from '../../../lib/errors/domain.errors.js';
 import { ListTripsUseCase } from '../../../application/use-cases/trip/list-trips.use-case.js';
 import { GetTripUseCase } from '../../../application/use-cases/trip/get-trip.use-case.js';
 import { FindTripUseCase } from '../../../application/use-cases/trip/find-trip.use-case.js';
@@ -11,13 +13,17 @@ import { DeleteTripUseCase } from '../../../application/use-cases/trip/delete-tr
 import { CreateInscriptionUseCase } from '../../../application/use-cases/inscription/create-inscription.use-case.js';
 import { ListTripPassengersUseCase } from '../../../application/use-cases/inscription/list-trip-passengers.use-case.js';
 import type { CityRepository } from '../../../domain/repositories/city.repository.js';
-import type { EmailService } from '../../../domain/services/email.service.js';
+import { domainEvent } from '../../../domain/events/domain-events.js';
+import { estimateArrival, isEditable } from '../../../domain/lifecycle/trip-lifecycle.js';
+import type { EventBus } from '../../../domain/services/event-bus.service.js';
+import type { TripStatus } from '../../../domain/entities/trip.entity.js';
 import type { WithAuthContext } from '../../../lib/shared/types/auth-context.js';
+import { cancelTripSchema, findTripQuerySchema } from '../../../application/schemas/trip.schema.js';
 import type { CreateTripSchemaType } from '../../../application/schemas/trip.schema.js';
 import type { CreateInscriptionSchemaType } from '../../../application/schemas/inscription.schema.js';
 import { uuidSchema } from '../../../application/schemas/common.schema.js';
 import { vpCreateTripSchema, vpPatchTripSchema, vpTripInscriptionSchema } from '../schemas.js';
-import type { PrismaClient } from '../../../infrastructure/database/generated/prisma/client.js';
+import type { Prisma, PrismaClient } from '../../../infrastructure/database/generated/prisma/client.js';
 
 async function findOrCreateCityRefId(cityName: string): Promise<number> {
 	const cityRepo = container.resolve<CityRepository>(TOKENS.CityRepository);
@@ -29,18 +35,37 @@ async function findOrCreateCityRefId(cityName: string): Promise<number> {
 	return createResult.value.refId;
 }
 
-export async function vpListTrips(c: Context): Promise<Response> {
-	const startingcity = c.req.query('startingcity');
-	const arrivalcity = c.req.query('arrivalcity');
-	const tripdate = c.req.query('tripdate');
+/** Maps the vp `sort` query values to the search sort fields. */
+const VP_TRIP_SORT_FIELDS: Record<string, string> = {
+	departure_time: 'departureTime',
+	remaining_seats: 'remainingSeats',
+};
 
-	if (startingcity || arrivalcity || tripdate) {
-		const useCase = container.resolve(FindTripUseCase);
-		const result = await useCase.execute({
-			departureCity: startingcity,
-			arrivalCity: arrivalcity,
-			date: tripdate,
+/** vp query parameters that switch the listing to a trip search. */
+const VP_TRIP_SEARCH_PARAMS = ['startingcity', 'arrivalcity', 'tripdate', 'datefrom', 'dateto', 'timefrom', 'timeto', 'minseats', 'maxprice', 'sort', 'order'];
+
+export async function vpListTrips(c: Context): Promise<Response> {
+	if (VP_TRIP_SEARCH_PARAMS.some((param) => c.req.query(param))) {
+		const pagination = paginationSchema.parse({
+			page: c.req.query('page'),
+			limit: c.req.query('limit'),
 		});
+		const sort = c.req.query('sort');
+		const validated = findTripQuerySchema.parse({
+			departureCity: c.req.query('startingcity'),
+			arrivalCity: c.req.query('arrivalcity'),
+			date: c.req.query('tripdate'),
+			dateFrom: c.req.query('datefrom'),
+			dateTo: c.req.query('dateto'),
+			departureTimeFrom: c.req.query('timefrom'),
+			departureTimeTo: c.req.query('timeto'),
+			minSeats: c.req.query('minseats'),
+			maxPrice: c.req.query('maxprice'),
+			sortBy: sort ? (VP_TRIP_SORT_FIELDS[sort] ?? sort) : undefined,
+			sortOrder: c.req.query('order'),
+		});
+		const useCase = container.resolve(FindTripUseCase);
+		const result = await useCase.execute(validated, pagination);
 		return resultToResponse(c, result);
 	}
 
@@ -93,6 +118,8 @@ export async function vpCreateTrip(c: Context): Promise<Response> {
 		departureCity: validated.starting_address.city_name,
 		arrivalCity: validated.arrival_address.city_name,
 		seats: validated.available_seats,
+		pricePerSeat: validated.price_per_seat,
+		requiresApproval: validated.requires_approval,
 		carId,
 		userId,
 	};
@@ -102,18 +129,49 @@ export async function vpCreateTrip(c: Context): Promise<Response> {
 	return resultToResponse(c, result, 201);
 }
 
-function buildScalarUpdates(validated: { kms?: number; available_seats?: number; trip_datetime?: string }): Record<string, unknown> {
+function buildScalarUpdates(validated: { kms?: number; available_seats?: number; price_per_seat?: number; requires_approval?: boolean; trip_datetime?: string }): Record<string, unknown> {
 	const data: Record<string, unknown> = {};
 	if (validated.kms !== undefined) data.kms = validated.kms;
 	if (validated.available_seats !== undefined) data.seats = validated.available_seats;
+	if (validated.price_per_seat !== undefined) data.pricePerSeat = validated.price_per_seat;
+	if (validated.requires_approval !== undefined) data.requiresApproval = validated.requires_approval;
 	if (validated.trip_datetime !== undefined) data.dateTrip = new Date(validated.trip_datetime);
 	return data;
 }
 
-async function replaceCityTrip(prisma: PrismaClient, tripRefId: number, cityName: string, type: 'DEPARTURE' | 'ARRIVAL'): Promise<void> {
+async function nextStopPosition(prisma: Prisma.TransactionClient, tripRefId: number): Promise<number> {
+	const last = await prisma.cityTrip.aggregate({ where: { tripRefId }, _max: { position: true } });
+	return (last._max.position ?? 0) + 1;
+}
+
+async function replaceCityTrip(prisma: Prisma.TransactionClient, tripRefId: number, cityName: string, type: 'DEPARTURE' | 'ARRIVAL'): Promise<void> {
 	const cityRefId = await findOrCreateCityRefId(cityName);
+	// Keep the replaced endpoint at its place on the route; intermediate stops are untouched
+	const existing = await prisma.cityTrip.findFirst({ where: { tripRefId, type } });
+	const position = existing?.position ?? (type === 'DEPARTURE' ? 0 : await nextStopPosition(prisma, tripRefId));
 	await prisma.cityTrip.deleteMany({ where: { tripRefId, type } });
-	await prisma.cityTrip.create({ data: { tripRefId, cityRefId, type } });
+	await prisma.cityTrip.create({ data: { tripRefId, cityRefId, type, position } });
+}
+
+async function replaceAddresses(
+	prisma: Prisma.TransactionClient,
+	tripRefId: number,
+	validated: { starting_address?: { city_name: string }; arrival_address?: { city_name: string } },
+): Promise<void> {
+	if (validated.starting_address) {
+		await replaceCityTrip(prisma, tripRefId, validated.starting_address.city_name, 'DEPARTURE');
+	}
+	if (validated.arrival_address) {
+		await replaceCityTrip(prisma, tripRefId, validated.arrival_address.city_name, 'ARRIVAL');
+	}
+}
+
+/** A new schedule or distance moves the estimated arrival the trip completes at. */
+function withEstimatedArrival(data: Record<string, unknown>, trip: { dateTrip: Date; kms: number }): Record<string, unknown> {
+	if (data.dateTrip === undefined && data.kms === undefined) return data;
+	const dateTrip = (data.dateTrip as Date | undefined) ?? trip.dateTrip;
+	const kms = (data.kms as number | undefined) ?? trip.kms;
+	return { ...data, arrivalAt: estimateArrival(dateTrip, kms) };
 }
 
 function isPrismaNotFound(e: unknown): boolean {
@@ -139,24 +197,33 @@ export async function vpPatchTrip(c: Context): Promise<Response> {
 	const prisma = container.resolve<PrismaClient>(TOKENS.PrismaClient);
 
 	try {
-		const trip = await prisma.trip.findUnique({ where: { id }, select: { refId: true } });
-		if (!trip) {
+		// The trip row stays locked until the edit commits, so the lifecycle job cannot start it meanwhile
+		const edited = await prisma.$transaction(async (tx) => {
+			const rows = await tx.$queryRaw<{ ref_id: number; status: TripStatus; date_trip: Date; kms: number }[]>`
+				SELECT "ref_id", "status", "date_trip", "kms" FROM "trips" WHERE "id" = ${id} FOR UPDATE`;
+			const trip = rows[0];
+			if (!trip || !isEditable(trip.status)) {
+				return trip ? 'NOT_EDITABLE' : 'NOT_FOUND';
+			}
+			if (hasScalarUpdates) {
+				await tx.trip.update({ where: { id }, data: withEstimatedArrival(data, { dateTrip: trip.date_trip, kms: trip.kms }) });
+			}
+			await replaceAddresses(tx, trip.ref_id, validated);
+			return 'EDITED';
+		});
+		if (edited === 'NOT_FOUND') {
 			return c.json(
 				{ success: false, error: { code: 'TRIP_NOT_FOUND', message: `Trip not found: ${id}` } },
 				404,
 			);
 		}
-
-		if (hasScalarUpdates) {
-			await prisma.trip.update({ where: { id }, data });
-		}
-		if (validated.starting_address) {
-			await replaceCityTrip(prisma, trip.refId, validated.starting_address.city_name, 'DEPARTURE');
-		}
-		if (validated.arrival_address) {
-			await replaceCityTrip(prisma, trip.refId, validated.arrival_address.city_name, 'ARRIVAL');
+		if (edited === 'NOT_EDITABLE') {
+			return resultToResponse(c, err(new TripNotEditableError(id)));
 		}
 
+		// Followers of the trip are told in reaction to TripUpdated
+		await container.resolve<EventBus>(TOKENS.EventBus).publish(domainEvent('TripUpdated', { tripId: id }));
+
 		const updated = await prisma.trip.findUnique({ where: { id } });
 		return c.json({ success: true, data: updated });
 	} catch (e: unknown) {
@@ -172,49 +239,11 @@ export async function vpPatchTrip(c: Context): Promise<Response> {
 
 export async function vpDeleteTrip(c: Context): Promise<Response> {
 	const id = uuidSchema.parse(c.req.param('id'));
-	const prisma = container.resolve<PrismaClient>(TOKENS.PrismaClient);
-
-	// Notify passengers before deletion
-	try {
-		const trip = await prisma.trip.findUnique({
-			where: { id },
-			select: {
-				refId: true,
-				dateTrip: true,
-				inscriptions: {
-					where: { status: 'ACTIVE' },
-					select: {
-						user: {
-							select: {
-								firstName: true,
-								auth: { select: { email: true } },
-							},
-						},
-					},
-				},
-			},
-		});
-
-		if (trip && trip.inscriptions.length > 0) {
-			const emailService = container.resolve<EmailService>(TOKENS.EmailService);
-			const tripDate = trip.dateTrip.toLocaleDateString('fr-FR');
-
-			await Promise.allSettled(
-				trip.inscriptions.map((inscription) =>
-					emailService.send({
-						to: inscription.user.auth.email,
-						subject: 'Trajet annulé',
-						html: `<p>Bonjour ${inscription.user.firstName ?? ''},</p><p>Le trajet du ${tripDate} auquel vous étiez inscrit(e) a été annulé.</p>`,
-					}),
-				),
-			);
-		}
-	} catch {
-		// Don't block deletion if email notification fails
-	}
-
+	const body = await c.req.json().catch(() => ({}));
+	const { reason } = cancelTripSchema.parse(body);
+	// The trip is kept as CANCELLED; the emails to its passengers are recorded with the cancellation
 	const useCase = container.resolve(DeleteTripUseCase);
-	const result = await useCase.execute({ id, userId: c.get('userId') as string });
+	const result = await useCase.execute({ id, userId: c.get('userId') as string, reason });
 	if (!result.success) return resultToResponse(c, result);
 	return c.body(null, 204);
 }
@@ -1,5 +1,5 @@
 import { Hono } from 'hono';
-import { authMiddleware, requireRole } from '../middleware/index.js';
+import { authMiddleware, rateLimit, requireRole } from '../middleware/index.js';
 import { vpRegister, vpLogin } from './controllers/auth.controller.js';
 import { vpListBrands, vpCreateBrand, vpUpdateBrand, vpDeleteBrand } from './controllers/brand.controller.js';
 import { vpListCars, vpGetCar, vpCreateCar, vpUpdateCar, vpDeleteCar } from './controllers/car.controller.js';
@@ -14,39 +14,39 @@ import {
 
 const vpRoutes = new Hono();
 
-// Auth (public)
-vpRoutes.post('/register', vpRegister);
-vpRoutes.post('/login', vpLogin);
+// Auth (public), sharing the rate limits of the v1 auth endpoints
+vpRoutes.post('/register', rateLimit('register'), vpRegister);
+vpRoutes.post('/login', rateLimit('login'), vpLogin);
 
 // Persons
-vpRoutes.post('/persons', authMiddleware, requireRole('USER'), vpCreatePerson);
-vpRoutes.get('/persons', authMiddleware, requireRole('ADMIN'), vpListPersons);
-vpRoutes.get('/persons/:id', authMiddleware, requireRole('USER'), vpGetPerson);
-vpRoutes.patch('/persons/:id', authMiddleware, requireRole('USER'), vpPatchPerson);
-vpRoutes.delete('/persons/:id', authMiddleware, requireRole('ADMIN'), vpDeletePerson);
-vpRoutes.get('/persons/:id/trips-driver', authMiddleware, requireRole('USER'), vpGetPersonTripsDriver);
-vpRoutes.get('/persons/:id/trips-passenger', authMiddleware, requireRole('USER'), vpGetPersonTripsPassenger);
+vpRoutes.post('/persons', authMiddleware, rateLimit('users'), requireRole('USER'), vpCreatePerson);
+vpRoutes.get('/persons', authMiddleware, rateLimit('users'), requireRole('ADMIN'), vpListPersons);
+vpRoutes.get('/persons/:id', authMiddleware, rateLimit('users'), requireRole('USER'), vpGetPerson);
+vpRoutes.patch('/persons/:id', authMiddleware, rateLimit('users'), requireRole('USER'), vpPatchPerson);
+vpRoutes.delete('/persons/:id', authMiddleware, rateLimit('users'), requireRole('ADMIN'), vpDeletePerson);
+vpRoutes.get('/persons/:id/trips-driver', authMiddleware, rateLimit('users'), requireRole('USER'), vpGetPersonTripsDriver);
+vpRoutes.get('/persons/:id/trips-passenger', authMiddleware, rateLimit('users'), requireRole('USER'), vpGetPersonTripsPassenger);
 
 // Brands
-vpRoutes.get('/brands', vpListBrands);
-vpRoutes.post('/brands', authMiddleware, requireRole('ADMIN'), vpCreateBrand);
-vpRoutes.put('/brands/:id', authMiddleware, requireRole('ADMIN'), vpUpdateBrand);
-vpRoutes.delete('/brands/:id', authMiddleware, requireRole('ADMIN'), vpDeleteBrand);
+vpRoutes.get('/brands', rateLimit('catalog'), vpListBrands);
+vpRoutes.post('/brands', authMiddleware, rateLimit('catalog'), requireRole('ADMIN'), vpCreateBrand);
+vpRoutes.put('/brands/:id', authMiddleware, rateLimit('catalog'), requireRole('ADMIN'), vpUpdateBrand);
+vpRoutes.delete('/brands/:id', authMiddleware, rateLimit('catalog'), requireRole('ADMIN'), vpDeleteBrand);
 
 // Cars
-vpRoutes.get('/cars', authMiddleware, requireRole('USER'), vpListCars);
-vpRoutes.get('/cars/:id', authMiddleware, requireRole('USER'), vpGetCar);
-vpRoutes.post('/cars', authMiddleware, requireRole('USER'), vpCreateCar);
-vpRoutes.put('/cars/:id', authMiddleware, requireRole('USER'), vpUpdateCar);
-vpRoutes.delete('/cars/:id', authMiddleware, requireRole('USER'), vpDeleteCar);
+vpRoutes.get('/cars', authMiddleware, rateLimit('catalog'), requireRole('USER'), vpListCars);
+vpRoutes.get('/cars/:id', authMiddleware, rateLimit('catalog'), requireRole('USER'), vpGetCar);
+vpRoutes.post('/cars', authMiddleware, rateLimit('catalog'), requireRole('USER'), vpCreateCar);
+vpRoutes.put('/cars/:id', authMiddleware, rateLimit('catalog'), requireRole('USER'), vpUpdateCar);
+vpRoutes.delete('/cars/:id', authMiddleware, rateLimit('catalog'), requireRole('USER'), vpDeleteCar);
 
 // Trips
-vpRoutes.get('/trips', authMiddleware, requireRole('USER'), vpListTrips);
-vpRoutes.get('/trips/:id', authMiddleware, requireRole('USER'), vpGetTrip);
-vpRoutes.get('/trips/:id/person', authMiddleware, requireRole('USER'), vpGetTripPassengers);
-vpRoutes.post('/trips', authMiddleware, requireRole('DRIVER'), vpCreateTrip);
-vpRoutes.patch('/trips/:id', authMiddleware, requireRole('USER'), vpPatchTrip);
-vpRoutes.delete('/trips/:id', authMiddleware, requireRole('USER'), vpDeleteTrip);
-vpRoutes.post('/trips/:id/person', authMiddleware, requireRole('USER'), vpCreateTripInscription);
+vpRoutes.get('/trips', authMiddleware, rateLimit('trips'), requireRole('USER'), vpListTrips);
+vpRoutes.get('/trips/:id', authMiddleware, rateLimit('trips'), requireRole('USER'), vpGetTrip);
+vpRoutes.get('/trips/:id/person', authMiddleware, rateLimit('trips'), requireRole('USER'), vpGetTripPassengers);
+vpRoutes.post('/trips', authMiddleware, rateLimit('trips'), requireRole('DRIVER'), vpCreateTrip);
+vpRoutes.patch('/trips/:id', authMiddleware, rateLimit('trips'), requireRole('USER'), vpPatchTrip);
+vpRoutes.delete('/trips/:id', authMiddleware, rateLimit('trips'), requireRole('USER'), vpDeleteTrip);
+vpRoutes.post('/trips/:id/person', authMiddleware, rateLimit('inscriptions'), requireRole('USER'), vpCreateTripInscription);
 
 export { vpRoutes };
@@ -49,6 +49,8 @@ export const vpCreateTripSchema = z.object({
 	person_id: z.number().int().positive('Person ID must be a positive integer').optional(),
 	trip_datetime: z.string().min(1, 'Trip datetime is required'),
 	available_seats: z.number().int().positive('Seats must be positive'),
+	price_per_seat: z.number().int().nonnegative('Price per seat cannot be negative').optional(),
+	requires_approval: z.boolean().optional(),
 	car_id: z.string().min(1, 'Car ID is required').optional(),
 	starting_address: vpAddressSchema,
 	arrival_address: vpAddressSchema,
@@ -58,6 +60,8 @@ export const vpPatchTripSchema = z.object({
 	kms: z.number().int().positive().optional(),
 	trip_datetime: z.string().optional(),
 	available_seats: z.number().int().positive().optional(),
+	price_per_seat: z.number().int().nonnegative().optional(),
+	requires_approval: z.boolean().optional(),
 	starting_address: vpAddressSchema.optional(),
 	arrival_address: vpAddressSchema.optional(),
 });
@@ -0,0 +1,41 @@
+/**
+ * @module worker
+ * Standalone entry point of the outbox worker, for deployments where the
+ * API runs on serverless functions and cannot keep a background loop alive.
+ * Delivers outbox messages, records trip reminders, advances trip statuses
+ * and materializes trip series until SIGINT or SIGTERM, then finishes the
+ * batches in progress before exiting.
+ *
+ * Usage: pnpm worker
+ */
+
+import 'reflect-metadata';
+import 'dotenv/config';
+import { container } from './lib/shared/di/container.js';
+import { TOKENS } from './lib/shared/di/tokens.js';
+import { logger } from './lib/logging/index.js';
+import { OutboxWorker } from './infrastructure/jobs/outbox-worker.js';
+import { TripReminderJob } from './infrastructure/jobs/trip-reminder-job.js';
+import { TripSeriesJob } from './infrastructure/jobs/trip-series-job.js';
+import { TripStatusJob } from './infrastructure/jobs/trip-status-job.js';
+import type { PrismaClient } from './infrastructure/database/generated/prisma/client.js';
+
+const worker = container.resolve(OutboxWorker);
+const reminderJob = container.resolve(TripReminderJob);
+const statusJob = container.resolve(TripStatusJob);
+const seriesJob = container.resolve(TripSeriesJob);
+
+async function shutdown(signal: string): Promise<void> {
+	logger.info('Worker shutting down', { signal });
+	await Promise.all([worker.stop(), reminderJob.stop(), statusJob.stop(), seriesJob.stop()]);
+	await container.resolve<PrismaClient>(TOKENS.PrismaClient).$disconnect();
+	process.exit(0);
+}
+
+process.once('SIGINT', () => void shutdown('SIGINT'));
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
+
+worker.start();
+reminderJob.start();
+statusJob.start();
+seriesJob.start();
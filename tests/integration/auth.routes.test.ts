@@ -3,10 +3,27 @@ import { container } from 'tsyringe';
 import { TOKENS } from '../../src/lib/shared/di/tokens.js';
 import { RegisterUseCase } from '../../src/application/use-cases/auth/register.use-case.js';
 import { LoginUseCase } from '../../src/application/use-cases/auth/login.use-case.js';
+import { RefreshTokenUseCase } from '../../src/application/use-cases/auth/refresh-token.use-case.js';
+import { LogoutUseCase } from '../../src/application/use-cases/auth/logout.use-case.js';
+import { ForgotPasswordUseCase } from '../../src/application/use-cases/auth/forgot-password.use-case.js';
+import { ResetPasswordUseCase } from '../../src/application/use-cases/auth/reset-password.use-case.js';
+import { VerifyEmailUseCase } from '../../src/application/use-cases/auth/verify-email.use-case.js';
 import { ok, err } from '../../src/lib/shared/types/result.js';
-import { UserAlreadyExistsError, InvalidCredentialsError } from '../../src/lib/errors/domain.errors.js';
-import { jsonHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
-import { createMockLogger } from '../setup.js';
+import {
+	UserAlreadyExistsError,
+	InvalidAccountTokenError,
+	InvalidCredentialsError,
+	InvalidRefreshTokenError,
+} from '../../src/lib/errors/domain.errors.js';
+import { authHeaders, jsonHeaders, registerInMemoryEmailService, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
+import {
+	createMockAccountTokenRepository,
+	createMockAuthConfig,
+	createMockAuthRepository,
+	createMockLogger,
+	createMockUserData,
+	createMockUserRepository,
+} from '../setup.js';
 
 vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
 	PrismaClient: class { $extends() { return this; } },
@@ -17,13 +34,24 @@ import { app } from '../../src/presentation/routes/index.js';
 describe('Auth Routes', () => {
 	let registerMock: { execute: ReturnType<typeof vi.fn> };
 	let loginMock: { execute: ReturnType<typeof vi.fn> };
+	let refreshMock: { execute: ReturnType<typeof vi.fn> };
+	let logoutMock: { execute: ReturnType<typeof vi.fn> };
+	let forgotPasswordMock: { execute: ReturnType<typeof vi.fn> };
+	let resetPasswordMock: { execute: ReturnType<typeof vi.fn> };
+	let verifyEmailMock: { execute: ReturnType<typeof vi.fn> };
 
 	beforeEach(() => {
 		container.clearInstances();
 		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
 		registerMockJwtService();
 		registerMock = registerMockUseCase(RegisterUseCase);
 		loginMock = registerMockUseCase(LoginUseCase);
+		refreshMock = registerMockUseCase(RefreshTokenUseCase);
+		logoutMock = registerMockUseCase(LogoutUseCase);
+		forgotPasswordMock = registerMockUseCase(ForgotPasswordUseCase);
+		resetPasswordMock = registerMockUseCase(ResetPasswordUseCase);
+		verifyEmailMock = registerMockUseCase(VerifyEmailUseCase);
 	});
 
 	describe('POST /api/v1/auth/register', () => {
@@ -97,6 +125,28 @@ describe('Auth Routes', () => {
 			expect(body.error.code).toBe('INVALID_CREDENTIALS');
 		});
 
+		it('should return 429 RATE_LIMITED after 5 attempts in a minute from one IP', async () => {
+			loginMock.execute.mockResolvedValue(err(new InvalidCredentialsError()));
+			const attempt = (ip: string) =>
+				app.request('/api/v1/auth/login', {
+					method: 'POST',
+					body: JSON.stringify(validBody),
+					headers: { 'Content-Type': 'application/json', 'x-forwarded-for': ip },
+				});
+			for (let i = 0; i < 5; i++) {
+				expect((await attempt('203.0.113.7')).status).toBe(401);
+			}
+
+			const res = await attempt('203.0.113.7');
+
+			expect(res.status).toBe(429);
+			expect((await res.json()).error.code).toBe('RATE_LIMITED');
+			expect(res.headers.get('RateLimit-Limit')).toBe('5');
+			expect(res.headers.get('RateLimit-Remaining')).toBe('0');
+			expect(res.headers.get('Retry-After')).not.toBeNull();
+			expect((await attempt('198.51.100.1')).status).toBe(401);
+		});
+
 		it('should reject missing fields', async () => {
 			const res = await app.request('/api/v1/auth/login', {
 				method: 'POST',
@@ -106,4 +156,168 @@ describe('Auth Routes', () => {
 			expect(res.ok).toBe(false);
 		});
 	});
+
+	describe('POST /api/v1/auth/refresh', () => {
+		it('should return 200 with new tokens', async () => {
+			const tokens = { userId: 'u1', token: 'jwt-2', refreshToken: 'refresh-2' };
+			refreshMock.execute.mockResolvedValue(ok(tokens));
+			const res = await app.request('/api/v1/auth/refresh', {
+				method: 'POST',
+				body: JSON.stringify({ refreshToken: 'refresh-1' }),
+				headers: jsonHeaders(),
+			});
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body).toEqual({ success: true, data: tokens });
+		});
+
+		it('should return 401 for an invalid refresh token', async () => {
+			refreshMock.execute.mockResolvedValue(err(new InvalidRefreshTokenError()));
+			const res = await app.request('/api/v1/auth/refresh', {
+				method: 'POST',
+				body: JSON.stringify({ refreshToken: 'nope' }),
+				headers: jsonHeaders(),
+			});
+			expect(res.status).toBe(401);
+			const body = await res.json();
+			expect(body.error.code).toBe('REFRESH_TOKEN_INVALID');
+		});
+	});
+
+	describe('POST /api/v1/auth/logout', () => {
+		it('should return 204 for an authenticated user', async () => {
+			logoutMock.execute.mockResolvedValue(ok(undefined));
+			const res = await app.request('/api/v1/auth/logout', {
+				method: 'POST',
+				body: JSON.stringify({ all: true }),
+				headers: authHeaders(),
+			});
+			expect(res.status).toBe(204);
+			expect(logoutMock.execute).toHaveBeenCalledWith(expect.objectContaining({ userId: 'test-user-id', all: true }));
+		});
+
+		it('should return 401 without a token', async () => {
+			const res = await app.request('/api/v1/auth/logout', {
+				method: 'POST',
+				headers: jsonHeaders(),
+			});
+			expect(res.status).toBe(401);
+			expect(logoutMock.execute).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('POST /api/v1/auth/forgot-password', () => {
+		it('should return 202 for any valid email', async () => {
+			forgotPasswordMock.execute.mockResolvedValue(ok(undefined));
+			const res = await app.request('/api/v1/auth/forgot-password', {
+				method: 'POST',
+				body: JSON.stringify({ email: 'test@test.com' }),
+				headers: jsonHeaders(),
+			});
+			expect(res.status).toBe(202);
+			expect(forgotPasswordMock.execute).toHaveBeenCalledWith({ email: 'test@test.com' });
+		});
+
+		it('should reject an invalid email', async () => {
+			const res = await app.request('/api/v1/auth/forgot-password', {
+				method: 'POST',
+				body: JSON.stringify({ email: 'invalid' }),
+				headers: jsonHeaders(),
+			});
+			expect(res.status).toBe(400);
+		});
+
+		// Runs the real use case, then delivers the queued message to the in-memory mailbox to check the email users receive
+		describe('with the real use case', () => {
+			let mailbox: ReturnType<typeof registerInMemoryEmailService>;
+			let userRepository: ReturnType<typeof createMockUserRepository>;
+			let accountTokenRepository: ReturnType<typeof createMockAccountTokenRepository>;
+
+			beforeEach(() => {
+				mailbox = registerInMemoryEmailService();
+				const authRepository = createMockAuthRepository();
+				userRepository = createMockUserRepository();
+				accountTokenRepository = createMockAccountTokenRepository();
+				authRepository.findByEmail.mockResolvedValue(ok({ id: 'auth-1', refId: 1, email: 'test@test.com', anonymizedAt: null }));
+				userRepository.findByAuthRefId.mockResolvedValue(ok(null));
+				accountTokenRepository.create.mockResolvedValue(ok({}));
+				container.registerInstance(TOKENS.AuthRepository, authRepository);
+				container.registerInstance(TOKENS.UserRepository, userRepository);
+				container.registerInstance(TOKENS.AccountTokenRepository, accountTokenRepository);
+				container.registerInstance(TOKENS.AuthConfig, createMockAuthConfig());
+				container.register(ForgotPasswordUseCase, { useClass: ForgotPasswordUseCase });
+			});
+
+			async function requestReset() {
+				return app.request('/api/v1/auth/forgot-password', {
+					method: 'POST',
+					body: JSON.stringify({ email: 'test@test.com' }),
+					// Own client address, so the requests above do not count toward the rate limit
+					headers: new Headers({ 'Content-Type': 'application/json', 'x-forwarded-for': '198.51.100.7' }),
+				});
+			}
+
+			it('should email the reset link in the account locale', async () => {
+				userRepository.findByAuthRefId.mockResolvedValue(ok(createMockUserData({ locale: 'en' })));
+
+				const res = await requestReset();
+
+				expect(res.status).toBe(202);
+				const [, [queued]] = accountTokenRepository.create.mock.calls[0];
+				await mailbox.send(queued.payload.to, queued.payload.message, queued.payload.locale);
+				expect(mailbox.sent).toHaveLength(1);
+				const email = mailbox.last('test@test.com');
+				expect(email?.message.template).toBe('password-reset');
+				expect(email?.locale).toBe('en');
+				expect(email?.text).toContain('https://app.test/reset-password?token=');
+			});
+
+			it('should return 202 without sending the reset email during the request', async () => {
+				const res = await requestReset();
+
+				expect(res.status).toBe(202);
+				expect(accountTokenRepository.create).toHaveBeenCalledOnce();
+				expect(mailbox.sent).toEqual([]);
+			});
+		});
+	});
+
+	describe('POST /api/v1/auth/reset-password', () => {
+		const validBody = { token: 'raw-token', password: 'NewPassword1', confirmPassword: 'NewPassword1' };
+
+		it('should return 204 when the password is reset', async () => {
+			resetPasswordMock.execute.mockResolvedValue(ok(undefined));
+			const res = await app.request('/api/v1/auth/reset-password', {
+				method: 'POST',
+				body: JSON.stringify(validBody),
+				headers: jsonHeaders(),
+			});
+			expect(res.status).toBe(204);
+		});
+
+		it('should return 400 for an invalid token', async () => {
+			resetPasswordMock.execute.mockResolvedValue(err(new InvalidAccountTokenError()));
+			const res = await app.request('/api/v1/auth/reset-password', {
+				method: 'POST',
+				body: JSON.stringify(validBody),
+				headers: jsonHeaders(),
+			});
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.error.code).toBe('ACCOUNT_TOKEN_INVALID');
+		});
+	});
+
+	describe('POST /api/v1/auth/verify-email', () => {
+		it('should return 204 when the email is verified', async () => {
+			verifyEmailMock.execute.mockResolvedValue(ok(undefined));
+			const res = await app.request('/api/v1/auth/verify-email', {
+				method: 'POST',
+				body: JSON.stringify({ token: 'raw-token' }),
+				headers: jsonHeaders(),
+			});
+			expect(res.status).toBe(204);
+			expect(verifyEmailMock.execute).toHaveBeenCalledWith({ token: 'raw-token' });
+		});
+	});
 });
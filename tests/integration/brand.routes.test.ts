@@ -6,7 +6,7 @@ import { CreateBrandUseCase } from '../../src/application/use-cases/brand/create
 import { DeleteBrandUseCase } from '../../src/application/use-cases/brand/delete-brand.use-case.js';
 import { ok, err } from '../../src/lib/shared/types/result.js';
 import { BrandNotFoundError } from '../../src/lib/errors/domain.errors.js';
-import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
 import { createMockLogger } from '../setup.js';
 
 vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
@@ -25,6 +25,7 @@ describe('Brand Routes', () => {
 	beforeEach(() => {
 		container.clearInstances();
 		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
 		registerMockJwtService();
 		listMock = registerMockUseCase(ListBrandsUseCase);
 		createMock = registerMockUseCase(CreateBrandUseCase);
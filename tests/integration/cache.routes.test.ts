@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { TOKENS } from '../../src/lib/shared/di/tokens.js';
+import { GetCacheMetricsUseCase } from '../../src/application/use-cases/cache/get-cache-metrics.use-case.js';
+import { ok } from '../../src/lib/shared/types/result.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
+import { createMockLogger } from '../setup.js';
+
+vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
+	PrismaClient: class { $extends() { return this; } },
+}));
+
+import { app } from '../../src/presentation/routes/index.js';
+
+describe('Cache Routes', () => {
+	let metricsMock: { execute: ReturnType<typeof vi.fn> };
+
+	beforeEach(() => {
+		container.clearInstances();
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerMockJwtService();
+		metricsMock = registerMockUseCase(GetCacheMetricsUseCase);
+	});
+
+	describe('GET /api/v1/admin/cache/metrics', () => {
+		it('should return 200 with the counters of each domain', async () => {
+			const metrics = { trip: { hits: 12, misses: 3, evictions: 1 }, inscription: { hits: 4, misses: 4, evictions: 0 } };
+			metricsMock.execute.mockResolvedValue(ok(metrics));
+			const res = await app.request('/api/v1/admin/cache/metrics', { headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ success: true, data: metrics });
+		});
+
+		it('should return 401 without auth token', async () => {
+			const res = await app.request('/api/v1/admin/cache/metrics');
+			expect(res.status).toBe(401);
+		});
+
+		it('should return 403 for non-admin users', async () => {
+			registerMockJwtService('USER');
+			const res = await app.request('/api/v1/admin/cache/metrics', { headers: authHeaders() });
+			expect(res.status).toBe(403);
+			expect(metricsMock.execute).not.toHaveBeenCalled();
+		});
+	});
+});
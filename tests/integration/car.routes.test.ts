@@ -7,7 +7,7 @@ import { UpdateCarUseCase } from '../../src/application/use-cases/car/update-car
 import { DeleteCarUseCase } from '../../src/application/use-cases/car/delete-car.use-case.js';
 import { ok, err } from '../../src/lib/shared/types/result.js';
 import { CarNotFoundError, CarAlreadyExistsError } from '../../src/lib/errors/domain.errors.js';
-import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
 import { createMockLogger } from '../setup.js';
 
 vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
@@ -27,6 +27,7 @@ describe('Car Routes', () => {
 	beforeEach(() => {
 		container.clearInstances();
 		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
 		registerMockJwtService();
 		listMock = registerMockUseCase(ListCarsUseCase);
 		createMock = registerMockUseCase(CreateCarUseCase);
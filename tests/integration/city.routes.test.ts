@@ -6,7 +6,7 @@ import { CreateCityUseCase } from '../../src/application/use-cases/city/create-c
 import { DeleteCityUseCase } from '../../src/application/use-cases/city/delete-city.use-case.js';
 import { ok, err } from '../../src/lib/shared/types/result.js';
 import { CityNotFoundError } from '../../src/lib/errors/domain.errors.js';
-import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
 import { createMockLogger } from '../setup.js';
 
 vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
@@ -25,6 +25,7 @@ describe('City Routes', () => {
 	beforeEach(() => {
 		container.clearInstances();
 		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
 		registerMockJwtService();
 		listMock = registerMockUseCase(ListCitiesUseCase);
 		createMock = registerMockUseCase(CreateCityUseCase);
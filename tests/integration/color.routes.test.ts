@@ -7,7 +7,7 @@ import { UpdateColorUseCase } from '../../src/application/use-cases/color/update
 import { DeleteColorUseCase } from '../../src/application/use-cases/color/delete-color.use-case.js';
 import { ok, err } from '../../src/lib/shared/types/result.js';
 import { ColorNotFoundError } from '../../src/lib/errors/domain.errors.js';
-import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
 import { createMockLogger } from '../setup.js';
 
 vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
@@ -27,6 +27,7 @@ describe('Color Routes', () => {
 	beforeEach(() => {
 		container.clearInstances();
 		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
 		registerMockJwtService();
 		listMock = registerMockUseCase(ListColorsUseCase);
 		createMock = registerMockUseCase(CreateColorUseCase);
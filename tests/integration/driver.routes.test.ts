@@ -2,8 +2,10 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { container } from 'tsyringe';
 import { TOKENS } from '../../src/lib/shared/di/tokens.js';
 import { CreateDriverUseCase } from '../../src/application/use-cases/driver/create-driver.use-case.js';
-import { ok } from '../../src/lib/shared/types/result.js';
-import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
+import { GetDriverProfileUseCase } from '../../src/application/use-cases/driver/get-driver-profile.use-case.js';
+import { ok, err } from '../../src/lib/shared/types/result.js';
+import { DriverNotFoundError } from '../../src/lib/errors/domain.errors.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
 import { createMockLogger } from '../setup.js';
 
 vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
@@ -12,14 +14,19 @@ vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
 
 import { app } from '../../src/presentation/routes/index.js';
 
+const TEST_DRIVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
 describe('Driver Routes', () => {
 	let createMock: { execute: ReturnType<typeof vi.fn> };
+	let profileMock: { execute: ReturnType<typeof vi.fn> };
 
 	beforeEach(() => {
 		container.clearInstances();
 		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
 		registerMockJwtService('USER');
 		createMock = registerMockUseCase(CreateDriverUseCase);
+		profileMock = registerMockUseCase(GetDriverProfileUseCase);
 	});
 
 	describe('POST /api/v1/drivers', () => {
@@ -67,4 +74,30 @@ describe('Driver Routes', () => {
 			});
 		});
 	});
+
+	describe('GET /api/v1/drivers/:id', () => {
+		const url = `/api/v1/drivers/${TEST_DRIVER_UUID}`;
+
+		it('should return 200 with the profile and its rating', async () => {
+			const profile = { id: TEST_DRIVER_UUID, refId: 1, userRefId: 2, firstName: 'Jean', lastName: 'Dupont', rating: { average: 4.7, count: 3 } };
+			profileMock.execute.mockResolvedValue(ok(profile));
+			const res = await app.request(url, { headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ success: true, data: profile });
+			expect(profileMock.execute).toHaveBeenCalledWith(TEST_DRIVER_UUID);
+		});
+
+		it('should return 404 for an unknown driver', async () => {
+			profileMock.execute.mockResolvedValue(err(new DriverNotFoundError(TEST_DRIVER_UUID)));
+			const res = await app.request(url, { headers: authHeaders() });
+			expect(res.status).toBe(404);
+			const body = await res.json();
+			expect(body.error.code).toBe('DRIVER_NOT_FOUND');
+		});
+
+		it('should return 401 without auth token', async () => {
+			const res = await app.request(url);
+			expect(res.status).toBe(401);
+		});
+	});
 });
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { TOKENS } from '../../src/lib/shared/di/tokens.js';
+import { PreviewEmailTemplateUseCase } from '../../src/application/use-cases/email/preview-email-template.use-case.js';
+import { ok, err } from '../../src/lib/shared/types/result.js';
+import { EmailTemplateNotFoundError } from '../../src/lib/errors/domain.errors.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
+import { createMockLogger } from '../setup.js';
+
+vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
+	PrismaClient: class { $extends() { return this; } },
+}));
+
+import { app } from '../../src/presentation/routes/index.js';
+
+describe('Email Template Routes', () => {
+	let previewMock: { execute: ReturnType<typeof vi.fn> };
+
+	beforeEach(() => {
+		container.clearInstances();
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerMockJwtService();
+		previewMock = registerMockUseCase(PreviewEmailTemplateUseCase);
+	});
+
+	describe('GET /api/v1/admin/email-templates/:template/preview', () => {
+		it('should return 200 with the rendered sample', async () => {
+			const rendered = { subject: 'Votre trajet a été annulé', html: '<p>Bonjour Camille,</p>', text: 'Bonjour Camille,' };
+			previewMock.execute.mockResolvedValue(ok(rendered));
+			const res = await app.request('/api/v1/admin/email-templates/trip-cancelled/preview?locale=fr', { headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ success: true, data: rendered });
+			expect(previewMock.execute).toHaveBeenCalledWith({ template: 'trip-cancelled', locale: 'fr' });
+		});
+
+		it('should return 404 for an unknown template', async () => {
+			previewMock.execute.mockResolvedValue(err(new EmailTemplateNotFoundError('newsletter')));
+			const res = await app.request('/api/v1/admin/email-templates/newsletter/preview', { headers: authHeaders() });
+			expect(res.status).toBe(404);
+		});
+
+		it('should return 400 for an unsupported locale', async () => {
+			const res = await app.request('/api/v1/admin/email-templates/welcome/preview?locale=de', { headers: authHeaders() });
+			expect(res.status).toBe(400);
+			expect(previewMock.execute).not.toHaveBeenCalled();
+		});
+
+		it('should return 401 without auth token', async () => {
+			const res = await app.request('/api/v1/admin/email-templates/welcome/preview');
+			expect(res.status).toBe(401);
+		});
+
+		it('should return 403 for non-admin users', async () => {
+			registerMockJwtService('USER');
+			const res = await app.request('/api/v1/admin/email-templates/welcome/preview', { headers: authHeaders() });
+			expect(res.status).toBe(403);
+			expect(previewMock.execute).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -6,10 +6,13 @@ import { ListUserInscriptionsUseCase } from '../../src/application/use-cases/ins
 import { ListTripPassengersUseCase } from '../../src/application/use-cases/inscription/list-trip-passengers.use-case.js';
 import { CreateInscriptionUseCase } from '../../src/application/use-cases/inscription/create-inscription.use-case.js';
 import { DeleteInscriptionUseCase } from '../../src/application/use-cases/inscription/delete-inscription.use-case.js';
+import { ReviewInscriptionUseCase } from '../../src/application/use-cases/inscription/review-inscription.use-case.js';
 import { ok, err } from '../../src/lib/shared/types/result.js';
-import { InscriptionNotFoundError, TripNotFoundError, AlreadyInscribedError, NoSeatsAvailableError } from '../../src/lib/errors/domain.errors.js';
-import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
-import { createMockLogger } from '../setup.js';
+import { InscriptionNotFoundError, InscriptionNotPendingError, TripNotFoundError, AlreadyInscribedError, NoSeatsAvailableError, ForbiddenError, CancellationWindowClosedError, TripNotBookableError } from '../../src/lib/errors/domain.errors.js';
+import { PrismaInscriptionRepository } from '../../src/infrastructure/database/repositories/prisma-inscription.repository.js';
+import { resetMiddleware } from '../../src/presentation/middleware/index.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
+import { createMockEventBus, createMockLogger, createMockTripData, createMockTripRepository, createMockUserRepository } from '../setup.js';
 
 vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
 	PrismaClient: class { $extends() { return this; } },
@@ -27,16 +30,19 @@ describe('Inscription Routes', () => {
 	let listPassengersMock: { execute: ReturnType<typeof vi.fn> };
 	let createMock: { execute: ReturnType<typeof vi.fn> };
 	let deleteMock: { execute: ReturnType<typeof vi.fn> };
+	let reviewMock: { execute: ReturnType<typeof vi.fn> };
 
 	beforeEach(() => {
 		container.clearInstances();
 		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
 		registerMockJwtService();
 		listMock = registerMockUseCase(ListInscriptionsUseCase);
 		listUserMock = registerMockUseCase(ListUserInscriptionsUseCase);
 		listPassengersMock = registerMockUseCase(ListTripPassengersUseCase);
 		createMock = registerMockUseCase(CreateInscriptionUseCase);
 		deleteMock = registerMockUseCase(DeleteInscriptionUseCase);
+		reviewMock = registerMockUseCase(ReviewInscriptionUseCase);
 	});
 
 	describe('GET /api/v1/inscriptions', () => {
@@ -73,6 +79,63 @@ describe('Inscription Routes', () => {
 		});
 	});
 
+	describe('POST /api/v1/trips/:id/passengers/:inscriptionId/accept', () => {
+		const url = `/api/v1/trips/${TEST_TRIP_UUID}/passengers/${TEST_UUID}/accept`;
+
+		it('should return 200 and pass the accept decision', async () => {
+			const inscription = { id: TEST_UUID, status: 'ACTIVE' };
+			reviewMock.execute.mockResolvedValue(ok(inscription));
+			const res = await app.request(url, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body).toEqual({ success: true, data: inscription });
+			expect(reviewMock.execute).toHaveBeenCalledWith({
+				tripId: TEST_TRIP_UUID,
+				inscriptionId: TEST_UUID,
+				userId: 'test-user-id',
+				decision: 'ACCEPT',
+			});
+		});
+
+		it('should return 400 when the trip is full', async () => {
+			reviewMock.execute.mockResolvedValue(err(new NoSeatsAvailableError(TEST_TRIP_UUID)));
+			const res = await app.request(url, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(400);
+		});
+
+		it('should return 403 when the requester does not own the trip', async () => {
+			reviewMock.execute.mockResolvedValue(err(new ForbiddenError('Trip', TEST_TRIP_UUID)));
+			const res = await app.request(url, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(403);
+		});
+
+		it('should return 403 for a USER role', async () => {
+			registerMockJwtService('USER');
+			const res = await app.request(url, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(403);
+			expect(reviewMock.execute).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('POST /api/v1/trips/:id/passengers/:inscriptionId/reject', () => {
+		const url = `/api/v1/trips/${TEST_TRIP_UUID}/passengers/${TEST_UUID}/reject`;
+
+		it('should return 200 and pass the reject decision', async () => {
+			reviewMock.execute.mockResolvedValue(ok({ id: TEST_UUID, status: 'REJECTED' }));
+			const res = await app.request(url, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(reviewMock.execute).toHaveBeenCalledWith(expect.objectContaining({ decision: 'REJECT' }));
+		});
+
+		it('should return 409 when the inscription is not pending', async () => {
+			reviewMock.execute.mockResolvedValue(err(new InscriptionNotPendingError(TEST_UUID, 'ACTIVE')));
+			const res = await app.request(url, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(409);
+			const body = await res.json();
+			expect(body.error.code).toBe('INSCRIPTION_NOT_PENDING');
+		});
+	});
+
 	describe('POST /api/v1/inscriptions', () => {
 		const validBody = { tripId: 'r1' };
 
@@ -118,6 +181,18 @@ describe('Inscription Routes', () => {
 			expect(res.status).toBe(409);
 		});
 
+		it('should return 409 when the trip no longer takes bookings', async () => {
+			createMock.execute.mockResolvedValue(err(new TripNotBookableError('r1')));
+			const res = await app.request('/api/v1/inscriptions', {
+				method: 'POST',
+				body: JSON.stringify(validBody),
+				headers: authHeaders(),
+			});
+			expect(res.status).toBe(409);
+			const body = await res.json();
+			expect(body.error.code).toBe('TRIP_NOT_BOOKABLE');
+		});
+
 		it('should return 400 when no seats available', async () => {
 			createMock.execute.mockResolvedValue(err(new NoSeatsAvailableError('r1')));
 			const res = await app.request('/api/v1/inscriptions', {
@@ -137,6 +212,29 @@ describe('Inscription Routes', () => {
 				headers: authHeaders(),
 			});
 			expect(res.status).toBe(204);
+			expect(deleteMock.execute).toHaveBeenCalledWith({ id: TEST_UUID, userId: 'test-user-id', reason: undefined });
+		});
+
+		it('should pass the cancellation reason from the body', async () => {
+			deleteMock.execute.mockResolvedValue(ok(undefined));
+			const res = await app.request(`/api/v1/inscriptions/${TEST_UUID}`, {
+				method: 'DELETE',
+				headers: authHeaders(),
+				body: JSON.stringify({ reason: 'Plans changed' }),
+			});
+			expect(res.status).toBe(204);
+			expect(deleteMock.execute).toHaveBeenCalledWith(expect.objectContaining({ reason: 'Plans changed' }));
+		});
+
+		it('should return 409 after the cancellation cut-off', async () => {
+			deleteMock.execute.mockResolvedValue(err(new CancellationWindowClosedError(TEST_TRIP_UUID, 24)));
+			const res = await app.request(`/api/v1/inscriptions/${TEST_UUID}`, {
+				method: 'DELETE',
+				headers: authHeaders(),
+			});
+			expect(res.status).toBe(409);
+			const body = await res.json();
+			expect(body.error.code).toBe('CANCELLATION_WINDOW_CLOSED');
 		});
 
 		it('should return 404 when not found', async () => {
@@ -148,4 +246,93 @@ describe('Inscription Routes', () => {
 			expect(res.status).toBe(404);
 		});
 	});
+
+	// Real use case and Prisma repository against an in-memory database whose
+	// interactive transactions hold the trip row lock until they finish
+	describe('POST /api/v1/inscriptions with concurrent bookings', () => {
+		const PASSENGERS = 5;
+
+		function createLockingPrisma(seats: number) {
+			const rows: { id: string; userRefId: number; tripRefId: number; status: string; pickupPosition: number; dropoffPosition: number }[] = [];
+			// Yields to the event loop so that unlocked reads and writes would interleave
+			const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+			const tx = {
+				$queryRaw: vi.fn(async () => [{ id: TEST_TRIP_UUID, seats, status: 'SCHEDULED', date_trip: new Date(Date.now() + 86_400_000) }]),
+				inscription: {
+					// Every booking here covers the whole route, so all of them overlap
+					findMany: vi.fn(async ({ where }: { where: { tripRefId: number; status: string } }) => {
+						await tick();
+						return rows.filter((r) => r.tripRefId === where.tripRefId && r.status === where.status);
+					}),
+					upsert: vi.fn(async ({ create }: { create: Omit<(typeof rows)[number], 'id'> }) => {
+						await tick();
+						const row = { id: `ins-${rows.length + 1}`, ...create };
+						rows.push(row);
+						return row;
+					}),
+				},
+				outboxMessage: { createMany: vi.fn() },
+			};
+			let lock: Promise<unknown> = Promise.resolve();
+			return {
+				rows,
+				outbox: tx.outboxMessage.createMany,
+				$transaction: vi.fn((fn: (client: typeof tx) => Promise<unknown>) => {
+					const run = lock.then(() => fn(tx));
+					lock = run.catch(() => undefined);
+					return run;
+				}),
+			};
+		}
+
+		beforeEach(() => {
+			container.register(CreateInscriptionUseCase, { useClass: CreateInscriptionUseCase });
+			const userRepo = createMockUserRepository();
+			userRepo.findById.mockImplementation(async (id: string) => ok({ id, refId: Number(id.split('-')[1]), anonymizedAt: null }));
+			const tripRepo = createMockTripRepository();
+			tripRepo.findById.mockResolvedValue(ok(createMockTripData({ id: TEST_TRIP_UUID, refId: 1, seats: 1, dateTrip: new Date(Date.now() + 86_400_000) })));
+			tripRepo.findDriverContact.mockResolvedValue(
+				ok({ id: 'driver-user', firstName: 'Paul', email: 'paul@example.com', locale: 'fr', notifyBookingUpdates: true, notifyTripReminders: true }),
+			);
+			container.registerInstance(TOKENS.UserRepository, userRepo);
+			container.registerInstance(TOKENS.TripRepository, tripRepo);
+			container.registerInstance(TOKENS.InscriptionRepository, {
+				existsByUserAndTrip: vi.fn().mockResolvedValue(ok(false)),
+				create: (data: never, outbox: never) => container.resolve(PrismaInscriptionRepository).create(data, outbox),
+			});
+			// Reactions to the booking are not under test
+			container.registerInstance(TOKENS.EventBus, createMockEventBus());
+			// Each token authenticates a different passenger
+			container.registerInstance(TOKENS.JwtService, {
+				verify: vi.fn(async (token: string) => ok({ userId: token, role: 'USER' })),
+			});
+			resetMiddleware();
+		});
+
+		it('should book the last seat exactly once when requests race', async () => {
+			const prisma = createLockingPrisma(1);
+			container.registerInstance(TOKENS.PrismaClient, prisma);
+
+			const responses = await Promise.all(
+				Array.from({ length: PASSENGERS }, (_, i) =>
+					app.request('/api/v1/inscriptions', {
+						method: 'POST',
+						body: JSON.stringify({ tripId: TEST_TRIP_UUID }),
+						headers: authHeaders({ 'x-auth-token': `passenger-${i + 1}` }),
+					}),
+				),
+			);
+
+			const statuses = responses.map((res) => res.status);
+			expect(statuses.filter((status) => status === 201)).toHaveLength(1);
+			expect(statuses.filter((status) => status === 400)).toHaveLength(PASSENGERS - 1);
+			const refused = await Promise.all(responses.filter((res) => res.status === 400).map((res) => res.json()));
+			for (const body of refused) {
+				expect(body.error.code).toBe('NO_SEATS_AVAILABLE');
+			}
+			expect(prisma.rows).toHaveLength(1);
+			// Only the booking that took the seat tells the driver
+			expect(prisma.outbox).toHaveBeenCalledOnce();
+		});
+	});
 });
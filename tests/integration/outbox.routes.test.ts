@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { TOKENS } from '../../src/lib/shared/di/tokens.js';
+import { ListOutboxMessagesUseCase } from '../../src/application/use-cases/outbox/list-outbox-messages.use-case.js';
+import { ReplayOutboxMessageUseCase } from '../../src/application/use-cases/outbox/replay-outbox-message.use-case.js';
+import { ok, err } from '../../src/lib/shared/types/result.js';
+import { OutboxMessageNotFoundError } from '../../src/lib/errors/domain.errors.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
+import { createMockLogger } from '../setup.js';
+
+vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
+	PrismaClient: class { $extends() { return this; } },
+}));
+
+import { app } from '../../src/presentation/routes/index.js';
+
+const TEST_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+describe('Outbox Routes', () => {
+	let listMock: { execute: ReturnType<typeof vi.fn> };
+	let replayMock: { execute: ReturnType<typeof vi.fn> };
+
+	beforeEach(() => {
+		container.clearInstances();
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerMockJwtService();
+		listMock = registerMockUseCase(ListOutboxMessagesUseCase);
+		replayMock = registerMockUseCase(ReplayOutboxMessageUseCase);
+	});
+
+	describe('GET /api/v1/admin/outbox', () => {
+		it('should return 200 with the messages', async () => {
+			const page = { data: [{ id: TEST_UUID, status: 'DEAD' }], meta: { page: 1, limit: 20, total: 1, totalPages: 1 } };
+			listMock.execute.mockResolvedValue(ok(page));
+			const res = await app.request('/api/v1/admin/outbox?status=DEAD', { headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ success: true, data: page });
+			expect(listMock.execute).toHaveBeenCalledWith({ status: 'DEAD' }, { page: 1, limit: 20 });
+		});
+
+		it('should return 401 without auth token', async () => {
+			const res = await app.request('/api/v1/admin/outbox');
+			expect(res.status).toBe(401);
+		});
+
+		it('should return 403 for non-admin users', async () => {
+			registerMockJwtService('USER');
+			const res = await app.request('/api/v1/admin/outbox', { headers: authHeaders() });
+			expect(res.status).toBe(403);
+			expect(listMock.execute).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('POST /api/v1/admin/outbox/:id/replay', () => {
+		it('should return 200 with the requeued message', async () => {
+			const message = { id: TEST_UUID, status: 'PENDING' };
+			replayMock.execute.mockResolvedValue(ok(message));
+			const res = await app.request(`/api/v1/admin/outbox/${TEST_UUID}/replay`, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ success: true, data: message });
+		});
+
+		it('should return 404 for an unknown message', async () => {
+			replayMock.execute.mockResolvedValue(err(new OutboxMessageNotFoundError(TEST_UUID)));
+			const res = await app.request(`/api/v1/admin/outbox/${TEST_UUID}/replay`, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(404);
+		});
+	});
+});
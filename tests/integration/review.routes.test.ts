@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { TOKENS } from '../../src/lib/shared/di/tokens.js';
+import { ListDriverReviewsUseCase } from '../../src/application/use-cases/review/list-driver-reviews.use-case.js';
+import { ListUserReviewsUseCase } from '../../src/application/use-cases/review/list-user-reviews.use-case.js';
+import { RateDriverUseCase } from '../../src/application/use-cases/review/rate-driver.use-case.js';
+import { RatePassengerUseCase } from '../../src/application/use-cases/review/rate-passenger.use-case.js';
+import { ok, err } from '../../src/lib/shared/types/result.js';
+import { AlreadyReviewedError, NotTripPassengerError, TripNotCompletedError } from '../../src/lib/errors/domain.errors.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
+import { createMockLogger } from '../setup.js';
+
+vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
+	PrismaClient: class { $extends() { return this; } },
+}));
+
+import { app } from '../../src/presentation/routes/index.js';
+
+const TEST_TRIP_UUID = '770e8400-e29b-41d4-a716-446655440002';
+const TEST_INSCRIPTION_UUID = '880e8400-e29b-41d4-a716-446655440003';
+const TEST_DRIVER_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const TEST_USER_UUID = '660e8400-e29b-41d4-a716-446655440001';
+
+describe('Review Routes', () => {
+	let rateDriverMock: { execute: ReturnType<typeof vi.fn> };
+	let ratePassengerMock: { execute: ReturnType<typeof vi.fn> };
+	let driverReviewsMock: { execute: ReturnType<typeof vi.fn> };
+	let userReviewsMock: { execute: ReturnType<typeof vi.fn> };
+
+	beforeEach(() => {
+		container.clearInstances();
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
+		registerMockJwtService('USER');
+		rateDriverMock = registerMockUseCase(RateDriverUseCase);
+		ratePassengerMock = registerMockUseCase(RatePassengerUseCase);
+		driverReviewsMock = registerMockUseCase(ListDriverReviewsUseCase);
+		userReviewsMock = registerMockUseCase(ListUserReviewsUseCase);
+	});
+
+	describe('POST /api/v1/trips/:id/reviews', () => {
+		const url = `/api/v1/trips/${TEST_TRIP_UUID}/reviews`;
+
+		it('should return 201 with the recorded review', async () => {
+			const review = { id: 'review-1', score: 5, comment: 'Great ride' };
+			rateDriverMock.execute.mockResolvedValue(ok(review));
+			const res = await app.request(url, { method: 'POST', body: JSON.stringify({ score: 5, comment: 'Great ride' }), headers: authHeaders() });
+			expect(res.status).toBe(201);
+			expect(await res.json()).toEqual({ success: true, data: review });
+			expect(rateDriverMock.execute).toHaveBeenCalledWith({ tripId: TEST_TRIP_UUID, userId: 'test-user-id', score: 5, comment: 'Great ride' });
+		});
+
+		it('should return 409 before the trip took place', async () => {
+			rateDriverMock.execute.mockResolvedValue(err(new TripNotCompletedError(TEST_TRIP_UUID)));
+			const res = await app.request(url, { method: 'POST', body: JSON.stringify({ score: 5 }), headers: authHeaders() });
+			expect(res.status).toBe(409);
+			const body = await res.json();
+			expect(body.error.code).toBe('TRIP_NOT_COMPLETED');
+		});
+
+		it('should return 403 for a user who did not travel', async () => {
+			rateDriverMock.execute.mockResolvedValue(err(new NotTripPassengerError(TEST_TRIP_UUID)));
+			const res = await app.request(url, { method: 'POST', body: JSON.stringify({ score: 2 }), headers: authHeaders() });
+			expect(res.status).toBe(403);
+			const body = await res.json();
+			expect(body.error.code).toBe('NOT_TRIP_PASSENGER');
+		});
+
+		it('should return 400 for a score out of range', async () => {
+			const res = await app.request(url, { method: 'POST', body: JSON.stringify({ score: 0 }), headers: authHeaders() });
+			expect(res.status).toBe(400);
+			expect(rateDriverMock.execute).not.toHaveBeenCalled();
+		});
+
+		it('should return 401 without auth token', async () => {
+			const res = await app.request(url, { method: 'POST', body: JSON.stringify({ score: 5 }) });
+			expect(res.status).toBe(401);
+		});
+	});
+
+	describe('POST /api/v1/trips/:id/passengers/:inscriptionId/review', () => {
+		const url = `/api/v1/trips/${TEST_TRIP_UUID}/passengers/${TEST_INSCRIPTION_UUID}/review`;
+
+		it('should return 201 for the driver', async () => {
+			registerMockJwtService('DRIVER');
+			ratePassengerMock.execute.mockResolvedValue(ok({ id: 'review-1', score: 4 }));
+			const res = await app.request(url, { method: 'POST', body: JSON.stringify({ score: 4 }), headers: authHeaders() });
+			expect(res.status).toBe(201);
+			expect(ratePassengerMock.execute).toHaveBeenCalledWith({
+				tripId: TEST_TRIP_UUID,
+				inscriptionId: TEST_INSCRIPTION_UUID,
+				userId: 'test-user-id',
+				score: 4,
+				comment: undefined,
+			});
+		});
+
+		it('should return 409 when the passenger was already rated', async () => {
+			registerMockJwtService('DRIVER');
+			ratePassengerMock.execute.mockResolvedValue(err(new AlreadyReviewedError(TEST_TRIP_UUID)));
+			const res = await app.request(url, { method: 'POST', body: JSON.stringify({ score: 4 }), headers: authHeaders() });
+			expect(res.status).toBe(409);
+			const body = await res.json();
+			expect(body.error.code).toBe('ALREADY_REVIEWED');
+		});
+
+		it('should return 403 for a USER role', async () => {
+			const res = await app.request(url, { method: 'POST', body: JSON.stringify({ score: 4 }), headers: authHeaders() });
+			expect(res.status).toBe(403);
+			expect(ratePassengerMock.execute).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('GET /api/v1/drivers/:id/reviews', () => {
+		const url = `/api/v1/drivers/${TEST_DRIVER_UUID}/reviews`;
+
+		it('should return 200 and pass the pagination', async () => {
+			const page = { data: [], meta: { page: 2, limit: 10, total: 0, totalPages: 0 } };
+			driverReviewsMock.execute.mockResolvedValue(ok(page));
+			const res = await app.request(`${url}?page=2&limit=10`, { headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ success: true, data: page });
+			expect(driverReviewsMock.execute).toHaveBeenCalledWith(TEST_DRIVER_UUID, { page: 2, limit: 10 });
+		});
+
+		it('should return 401 without auth token', async () => {
+			const res = await app.request(url);
+			expect(res.status).toBe(401);
+		});
+	});
+
+	describe('GET /api/v1/users/:id/reviews', () => {
+		const url = `/api/v1/users/${TEST_USER_UUID}/reviews`;
+
+		it('should return 200 with the reviews received as a passenger', async () => {
+			const page = { data: [], meta: { page: 1, limit: 20, total: 0, totalPages: 0 } };
+			userReviewsMock.execute.mockResolvedValue(ok(page));
+			const res = await app.request(url, { headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(userReviewsMock.execute).toHaveBeenCalledWith(TEST_USER_UUID, { page: 1, limit: 20 });
+		});
+	});
+});
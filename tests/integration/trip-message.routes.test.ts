@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { TOKENS } from '../../src/lib/shared/di/tokens.js';
+import { CountUnreadTripMessagesUseCase } from '../../src/application/use-cases/trip-message/count-unread-trip-messages.use-case.js';
+import { HideTripMessageUseCase } from '../../src/application/use-cases/trip-message/hide-trip-message.use-case.js';
+import { ListTripMessagesUseCase } from '../../src/application/use-cases/trip-message/list-trip-messages.use-case.js';
+import { PostTripMessageUseCase } from '../../src/application/use-cases/trip-message/post-trip-message.use-case.js';
+import { ok, err } from '../../src/lib/shared/types/result.js';
+import { NotTripParticipantError, TripMessageNotFoundError } from '../../src/lib/errors/domain.errors.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
+import { createMockLogger } from '../setup.js';
+
+vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
+	PrismaClient: class { $extends() { return this; } },
+}));
+
+import { app } from '../../src/presentation/routes/index.js';
+
+const TEST_TRIP_UUID = '770e8400-e29b-41d4-a716-446655440002';
+const TEST_MESSAGE_UUID = '880e8400-e29b-41d4-a716-446655440003';
+
+describe('Trip Message Routes', () => {
+	let listMock: { execute: ReturnType<typeof vi.fn> };
+	let postMock: { execute: ReturnType<typeof vi.fn> };
+	let unreadMock: { execute: ReturnType<typeof vi.fn> };
+	let hideMock: { execute: ReturnType<typeof vi.fn> };
+
+	beforeEach(() => {
+		container.clearInstances();
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
+		registerMockJwtService('USER');
+		listMock = registerMockUseCase(ListTripMessagesUseCase);
+		postMock = registerMockUseCase(PostTripMessageUseCase);
+		unreadMock = registerMockUseCase(CountUnreadTripMessagesUseCase);
+		hideMock = registerMockUseCase(HideTripMessageUseCase);
+	});
+
+	describe('GET /api/v1/trips/:id/messages', () => {
+		const url = `/api/v1/trips/${TEST_TRIP_UUID}/messages`;
+
+		it('should return 200 and pass the caller and pagination', async () => {
+			const page = { data: [], meta: { page: 1, limit: 20, total: 0, totalPages: 0 } };
+			listMock.execute.mockResolvedValue(ok(page));
+			const res = await app.request(url, { headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ success: true, data: page });
+			expect(listMock.execute).toHaveBeenCalledWith({ tripId: TEST_TRIP_UUID, userId: 'test-user-id', role: 'USER' }, { page: 1, limit: 20 });
+		});
+
+		it('should return 403 for a user outside the trip', async () => {
+			listMock.execute.mockResolvedValue(err(new NotTripParticipantError(TEST_TRIP_UUID)));
+			const res = await app.request(url, { headers: authHeaders() });
+			expect(res.status).toBe(403);
+			const body = await res.json();
+			expect(body.error.code).toBe('NOT_TRIP_PARTICIPANT');
+		});
+
+		it('should return 401 without auth token', async () => {
+			const res = await app.request(url);
+			expect(res.status).toBe(401);
+		});
+	});
+
+	describe('POST /api/v1/trips/:id/messages', () => {
+		const url = `/api/v1/trips/${TEST_TRIP_UUID}/messages`;
+
+		it('should return 201 with the posted message', async () => {
+			const message = { id: TEST_MESSAGE_UUID, body: 'See you at 8' };
+			postMock.execute.mockResolvedValue(ok(message));
+			const res = await app.request(url, { method: 'POST', body: JSON.stringify({ body: 'See you at 8' }), headers: authHeaders() });
+			expect(res.status).toBe(201);
+			expect(await res.json()).toEqual({ success: true, data: message });
+			expect(postMock.execute).toHaveBeenCalledWith({ tripId: TEST_TRIP_UUID, userId: 'test-user-id', body: 'See you at 8' });
+		});
+
+		it('should return 400 for an empty message', async () => {
+			const res = await app.request(url, { method: 'POST', body: JSON.stringify({ body: '' }), headers: authHeaders() });
+			expect(res.status).toBe(400);
+			expect(postMock.execute).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('GET /api/v1/trips/:id/messages/unread', () => {
+		it('should return 200 with the unread count', async () => {
+			unreadMock.execute.mockResolvedValue(ok({ tripId: TEST_TRIP_UUID, unreadCount: 2 }));
+			const res = await app.request(`/api/v1/trips/${TEST_TRIP_UUID}/messages/unread`, { headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ success: true, data: { tripId: TEST_TRIP_UUID, unreadCount: 2 } });
+		});
+	});
+
+	describe('POST /api/v1/trips/:id/messages/:messageId/hide', () => {
+		const url = `/api/v1/trips/${TEST_TRIP_UUID}/messages/${TEST_MESSAGE_UUID}/hide`;
+
+		it('should return 200 for an admin', async () => {
+			registerMockJwtService('ADMIN');
+			hideMock.execute.mockResolvedValue(ok({ id: TEST_MESSAGE_UUID }));
+			const res = await app.request(url, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(hideMock.execute).toHaveBeenCalledWith(TEST_TRIP_UUID, TEST_MESSAGE_UUID);
+		});
+
+		it('should return 404 when the message does not belong to the trip', async () => {
+			registerMockJwtService('ADMIN');
+			hideMock.execute.mockResolvedValue(err(new TripMessageNotFoundError(TEST_MESSAGE_UUID)));
+			const res = await app.request(url, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(404);
+		});
+
+		it('should return 403 for a USER role', async () => {
+			const res = await app.request(url, { method: 'POST', headers: authHeaders() });
+			expect(res.status).toBe(403);
+			expect(hideMock.execute).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { TOKENS } from '../../src/lib/shared/di/tokens.js';
+import { CreateTripSeriesUseCase } from '../../src/application/use-cases/trip-series/create-trip-series.use-case.js';
+import { DeleteTripSeriesUseCase } from '../../src/application/use-cases/trip-series/delete-trip-series.use-case.js';
+import { GetTripSeriesUseCase } from '../../src/application/use-cases/trip-series/get-trip-series.use-case.js';
+import { ListTripSeriesUseCase } from '../../src/application/use-cases/trip-series/list-trip-series.use-case.js';
+import { UpdateTripSeriesOccurrenceUseCase } from '../../src/application/use-cases/trip-series/update-trip-series-occurrence.use-case.js';
+import { UpdateTripSeriesUseCase } from '../../src/application/use-cases/trip-series/update-trip-series.use-case.js';
+import { GetTripUseCase } from '../../src/application/use-cases/trip/get-trip.use-case.js';
+import { ok, err } from '../../src/lib/shared/types/result.js';
+import { TripNotEditableError, TripSeriesNotActiveError, TripSeriesNotFoundError } from '../../src/lib/errors/domain.errors.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
+import { createMockLogger } from '../setup.js';
+
+vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
+	PrismaClient: class { $extends() { return this; } },
+}));
+
+import { app } from '../../src/presentation/routes/index.js';
+
+const TEST_SERIES_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const TEST_TRIP_UUID = '770e8400-e29b-41d4-a716-446655440002';
+
+describe('Trip Series Routes', () => {
+	let listMock: { execute: ReturnType<typeof vi.fn> };
+	let getMock: { execute: ReturnType<typeof vi.fn> };
+	let createMock: { execute: ReturnType<typeof vi.fn> };
+	let updateMock: { execute: ReturnType<typeof vi.fn> };
+	let updateOccurrenceMock: { execute: ReturnType<typeof vi.fn> };
+	let deleteMock: { execute: ReturnType<typeof vi.fn> };
+	let getTripMock: { execute: ReturnType<typeof vi.fn> };
+
+	beforeEach(() => {
+		container.clearInstances();
+		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
+		registerMockJwtService('DRIVER');
+		listMock = registerMockUseCase(ListTripSeriesUseCase);
+		getMock = registerMockUseCase(GetTripSeriesUseCase);
+		createMock = registerMockUseCase(CreateTripSeriesUseCase);
+		updateMock = registerMockUseCase(UpdateTripSeriesUseCase);
+		updateOccurrenceMock = registerMockUseCase(UpdateTripSeriesOccurrenceUseCase);
+		deleteMock = registerMockUseCase(DeleteTripSeriesUseCase);
+		getTripMock = registerMockUseCase(GetTripUseCase);
+	});
+
+	describe('GET /api/v1/trips/series', () => {
+		it('should return 200 with the driver series rather than a trip', async () => {
+			const page = { data: [], meta: { page: 1, limit: 20, total: 0, totalPages: 0 } };
+			listMock.execute.mockResolvedValue(ok(page));
+			const res = await app.request('/api/v1/trips/series', { headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ success: true, data: page });
+			expect(listMock.execute).toHaveBeenCalledWith('test-user-id', { page: 1, limit: 20 });
+			expect(getTripMock.execute).not.toHaveBeenCalled();
+		});
+
+		it('should return 403 for a USER role', async () => {
+			registerMockJwtService('USER');
+			const res = await app.request('/api/v1/trips/series', { headers: authHeaders() });
+			expect(res.status).toBe(403);
+		});
+
+		it('should return 401 without auth token', async () => {
+			const res = await app.request('/api/v1/trips/series');
+			expect(res.status).toBe(401);
+		});
+	});
+
+	describe('GET /api/v1/trips/series/:id', () => {
+		it('should return 200 with the series and its occurrences', async () => {
+			const series = { id: TEST_SERIES_UUID, occurrences: [] };
+			getMock.execute.mockResolvedValue(ok(series));
+			const res = await app.request(`/api/v1/trips/series/${TEST_SERIES_UUID}`, { headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(getMock.execute).toHaveBeenCalledWith({ id: TEST_SERIES_UUID, userId: 'test-user-id' });
+		});
+
+		it('should return 404 for an unknown series', async () => {
+			getMock.execute.mockResolvedValue(err(new TripSeriesNotFoundError(TEST_SERIES_UUID)));
+			const res = await app.request(`/api/v1/trips/series/${TEST_SERIES_UUID}`, { headers: authHeaders() });
+			expect(res.status).toBe(404);
+			const body = await res.json();
+			expect(body.error.code).toBe('TRIP_SERIES_NOT_FOUND');
+		});
+	});
+
+	describe('POST /api/v1/trips/series', () => {
+		const body = {
+			daysOfWeek: [1, 2, 3, 4, 5],
+			departureTime: '07:45',
+			startDate: '2026-10-19',
+			kms: 60,
+			departureCity: 'Versailles',
+			arrivalCity: 'Paris',
+			seats: 3,
+			carId: 'car-1',
+		};
+
+		it('should return 201 with the created series', async () => {
+			createMock.execute.mockResolvedValue(ok({ id: TEST_SERIES_UUID }));
+			const res = await app.request('/api/v1/trips/series', { method: 'POST', body: JSON.stringify(body), headers: authHeaders() });
+			expect(res.status).toBe(201);
+			expect(createMock.execute).toHaveBeenCalledWith({ ...body, userId: 'test-user-id' });
+		});
+
+		it('should return 400 for an end date before the start date', async () => {
+			const res = await app.request('/api/v1/trips/series', { method: 'POST', body: JSON.stringify({ ...body, endDate: '2026-10-01' }), headers: authHeaders() });
+			expect(res.status).toBe(400);
+			expect(createMock.execute).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('PATCH /api/v1/trips/series/:id', () => {
+		it('should return 200 with the updated series', async () => {
+			updateMock.execute.mockResolvedValue(ok({ id: TEST_SERIES_UUID, seats: 2 }));
+			const res = await app.request(`/api/v1/trips/series/${TEST_SERIES_UUID}`, { method: 'PATCH', body: JSON.stringify({ seats: 2 }), headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(updateMock.execute).toHaveBeenCalledWith({ seats: 2, id: TEST_SERIES_UUID, userId: 'test-user-id' });
+		});
+
+		it('should return 409 for a cancelled series', async () => {
+			updateMock.execute.mockResolvedValue(err(new TripSeriesNotActiveError(TEST_SERIES_UUID)));
+			const res = await app.request(`/api/v1/trips/series/${TEST_SERIES_UUID}`, { method: 'PATCH', body: JSON.stringify({ seats: 2 }), headers: authHeaders() });
+			expect(res.status).toBe(409);
+			const body = await res.json();
+			expect(body.error.code).toBe('TRIP_SERIES_NOT_ACTIVE');
+		});
+
+		it('should return 400 for an empty edit', async () => {
+			const res = await app.request(`/api/v1/trips/series/${TEST_SERIES_UUID}`, { method: 'PATCH', body: JSON.stringify({}), headers: authHeaders() });
+			expect(res.status).toBe(400);
+		});
+	});
+
+	describe('PATCH /api/v1/trips/series/:id/occurrences/:tripId', () => {
+		const url = `/api/v1/trips/series/${TEST_SERIES_UUID}/occurrences/${TEST_TRIP_UUID}`;
+
+		it('should return 200 with the updated occurrence', async () => {
+			updateOccurrenceMock.execute.mockResolvedValue(ok({ id: TEST_TRIP_UUID, seats: 2, seriesDetached: true }));
+			const res = await app.request(url, { method: 'PATCH', body: JSON.stringify({ seats: 2 }), headers: authHeaders() });
+			expect(res.status).toBe(200);
+			expect(updateOccurrenceMock.execute).toHaveBeenCalledWith({ seats: 2, seriesId: TEST_SERIES_UUID, tripId: TEST_TRIP_UUID, userId: 'test-user-id' });
+		});
+
+		it('should return 409 for an occurrence that departed', async () => {
+			updateOccurrenceMock.execute.mockResolvedValue(err(new TripNotEditableError(TEST_TRIP_UUID)));
+			const res = await app.request(url, { method: 'PATCH', body: JSON.stringify({ seats: 2 }), headers: authHeaders() });
+			expect(res.status).toBe(409);
+		});
+	});
+
+	describe('DELETE /api/v1/trips/series/:id', () => {
+		it('should return 204 and pass the reason', async () => {
+			deleteMock.execute.mockResolvedValue(ok(undefined));
+			const res = await app.request(`/api/v1/trips/series/${TEST_SERIES_UUID}`, { method: 'DELETE', body: JSON.stringify({ reason: 'New job' }), headers: authHeaders() });
+			expect(res.status).toBe(204);
+			expect(deleteMock.execute).toHaveBeenCalledWith({ id: TEST_SERIES_UUID, userId: 'test-user-id', reason: 'New job' });
+		});
+
+		it('should return 204 without a body', async () => {
+			deleteMock.execute.mockResolvedValue(ok(undefined));
+			const res = await app.request(`/api/v1/trips/series/${TEST_SERIES_UUID}`, { method: 'DELETE', headers: authHeaders() });
+			expect(res.status).toBe(204);
+			expect(deleteMock.execute).toHaveBeenCalledWith({ id: TEST_SERIES_UUID, userId: 'test-user-id', reason: undefined });
+		});
+	});
+});
@@ -7,8 +7,8 @@ import { FindTripUseCase } from '../../src/application/use-cases/trip/find-trip.
 import { CreateTripUseCase } from '../../src/application/use-cases/trip/create-trip.use-case.js';
 import { DeleteTripUseCase } from '../../src/application/use-cases/trip/delete-trip.use-case.js';
 import { ok, err } from '../../src/lib/shared/types/result.js';
-import { TripNotFoundError } from '../../src/lib/errors/domain.errors.js';
-import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
+import { InvalidTripStatusTransitionError, TripNotFoundError } from '../../src/lib/errors/domain.errors.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
 import { createMockLogger } from '../setup.js';
 
 vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
@@ -29,6 +29,7 @@ describe('Trip Routes', () => {
     beforeEach(() => {
         container.clearInstances();
         container.registerInstance(TOKENS.Logger, createMockLogger());
+        registerInMemoryCache();
         registerMockJwtService();
         listMock = registerMockUseCase(ListTripsUseCase);
         getMock = registerMockUseCase(GetTripUseCase);
@@ -47,6 +48,13 @@ describe('Trip Routes', () => {
             expect(body).toEqual({ success: true, data: trips });
         });
 
+        it('should return the RateLimit headers of the trips policy for the role', async () => {
+            listMock.execute.mockResolvedValue(ok([]));
+            const res = await app.request('/api/v1/trips', { headers: authHeaders() });
+            expect(res.headers.get('RateLimit-Policy')).toBe('600;w=60');
+            expect(res.headers.get('RateLimit-Remaining')).toBe('599');
+        });
+
         it('should return 401 without auth token', async () => {
             const res = await app.request('/api/v1/trips');
             expect(res.status).toBe(401);
@@ -74,14 +82,52 @@ describe('Trip Routes', () => {
             findMock.execute.mockResolvedValue(ok([]));
             const res = await app.request('/api/v1/trips/search?departureCity=Paris&arrivalCity=Lyon&date=2025-06-15', { headers: authHeaders() });
             expect(res.status).toBe(200);
-            expect(findMock.execute).toHaveBeenCalledWith({ departureCity: 'Paris', arrivalCity: 'Lyon', date: '2025-06-15' });
+            expect(findMock.execute).toHaveBeenCalledWith(
+                { departureCity: 'Paris', arrivalCity: 'Lyon', date: '2025-06-15', sortBy: 'departureTime', sortOrder: 'asc' },
+                { page: 1, limit: 20 },
+            );
         });
 
         it('should handle missing query params', async () => {
             findMock.execute.mockResolvedValue(ok([]));
             const res = await app.request('/api/v1/trips/search', { headers: authHeaders() });
             expect(res.status).toBe(200);
-            expect(findMock.execute).toHaveBeenCalledWith({ departureCity: undefined, arrivalCity: undefined, date: undefined });
+            expect(findMock.execute).toHaveBeenCalledWith(
+                { departureCity: undefined, arrivalCity: undefined, date: undefined, sortBy: 'departureTime', sortOrder: 'asc' },
+                { page: 1, limit: 20 },
+            );
+        });
+
+        it('should return the paginated envelope', async () => {
+            const page = { data: [{ id: 't1', remainingSeats: 2 }], meta: { page: 2, limit: 1, total: 3, totalPages: 3 } };
+            findMock.execute.mockResolvedValue(ok(page));
+            const res = await app.request('/api/v1/trips/search?minSeats=2&maxPrice=1500&sortBy=remainingSeats&page=2&limit=1', { headers: authHeaders() });
+            expect(res.status).toBe(200);
+            expect(await res.json()).toEqual({ success: true, data: page });
+            expect(findMock.execute).toHaveBeenCalledWith(
+                expect.objectContaining({ minSeats: 2, maxPrice: 1500, sortBy: 'remainingSeats' }),
+                { page: 2, limit: 1 },
+            );
+        });
+
+        it('should return 400 on an invalid sort field', async () => {
+            const res = await app.request('/api/v1/trips/search?sortBy=price', { headers: authHeaders() });
+            expect(res.status).toBe(400);
+            expect(findMock.execute).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('GET /api/v1/trips/price-suggestion', () => {
+        it('should return the suggested price per seat in cents', async () => {
+            const res = await app.request('/api/v1/trips/price-suggestion?kms=450', { headers: authHeaders() });
+            expect(res.status).toBe(200);
+            const body = await res.json();
+            expect(body).toEqual({ success: true, data: { kms: 450, suggestedPricePerSeat: 2700 } });
+        });
+
+        it('should return 400 when kms is missing', async () => {
+            const res = await app.request('/api/v1/trips/price-suggestion', { headers: authHeaders() });
+            expect(res.status).toBe(400);
         });
     });
 
@@ -129,5 +175,27 @@ describe('Trip Routes', () => {
             });
             expect(res.status).toBe(404);
         });
+
+        it('should pass the cancellation reason', async () => {
+            deleteMock.execute.mockResolvedValue(ok(undefined));
+            const res = await app.request(`/api/v1/trips/${TEST_UUID}`, {
+                method: 'DELETE',
+                headers: authHeaders(),
+                body: JSON.stringify({ reason: 'Car broke down' }),
+            });
+            expect(res.status).toBe(204);
+            expect(deleteMock.execute).toHaveBeenCalledWith(expect.objectContaining({ id: TEST_UUID, reason: 'Car broke down' }));
+        });
+
+        it('should return 409 when the trip has already departed', async () => {
+            deleteMock.execute.mockResolvedValue(err(new InvalidTripStatusTransitionError(TEST_UUID, 'IN_PROGRESS', 'CANCELLED')));
+            const res = await app.request(`/api/v1/trips/${TEST_UUID}`, {
+                method: 'DELETE',
+                headers: authHeaders(),
+            });
+            expect(res.status).toBe(409);
+            const body = await res.json();
+            expect(body.error.code).toBe('INVALID_TRIP_STATUS_TRANSITION');
+        });
     });
 });
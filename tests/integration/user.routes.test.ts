@@ -4,9 +4,12 @@ import { TOKENS } from '../../src/lib/shared/di/tokens.js';
 import { ListUsersUseCase } from '../../src/application/use-cases/user/list-users.use-case.js';
 import { GetUserUseCase } from '../../src/application/use-cases/user/get-user.use-case.js';
 import { AnonymizeUserUseCase } from '../../src/application/use-cases/user/anonymize-user.use-case.js';
+import { ChangePasswordUseCase } from '../../src/application/use-cases/user/change-password.use-case.js';
+import { ChangeEmailUseCase } from '../../src/application/use-cases/user/change-email.use-case.js';
+import { UnlockUserUseCase } from '../../src/application/use-cases/user/unlock-user.use-case.js';
 import { ok, err } from '../../src/lib/shared/types/result.js';
-import { UserNotFoundError } from '../../src/lib/errors/domain.errors.js';
-import { authHeaders, registerMockJwtService, registerMockUseCase } from './helpers.js';
+import { InvalidCurrentPasswordError, UserAlreadyExistsError, UserNotFoundError } from '../../src/lib/errors/domain.errors.js';
+import { authHeaders, registerMockJwtService, registerMockUseCase, registerInMemoryCache } from './helpers.js';
 import { createMockLogger } from '../setup.js';
 
 vi.mock('../../src/infrastructure/database/generated/prisma/client.js', () => ({
@@ -21,14 +24,21 @@ describe('User Routes', () => {
 	let listMock: { execute: ReturnType<typeof vi.fn> };
 	let getMock: { execute: ReturnType<typeof vi.fn> };
 	let deleteMock: { execute: ReturnType<typeof vi.fn> };
+	let changePasswordMock: { execute: ReturnType<typeof vi.fn> };
+	let changeEmailMock: { execute: ReturnType<typeof vi.fn> };
+	let unlockMock: { execute: ReturnType<typeof vi.fn> };
 
 	beforeEach(() => {
 		container.clearInstances();
 		container.registerInstance(TOKENS.Logger, createMockLogger());
+		registerInMemoryCache();
 		registerMockJwtService();
 		listMock = registerMockUseCase(ListUsersUseCase);
 		getMock = registerMockUseCase(GetUserUseCase);
 		deleteMock = registerMockUseCase(AnonymizeUserUseCase);
+		changePasswordMock = registerMockUseCase(ChangePasswordUseCase);
+		changeEmailMock = registerMockUseCase(ChangeEmailUseCase);
+		unlockMock = registerMockUseCase(UnlockUserUseCase);
 	});
 
 	describe('GET /api/v1/users', () => {
@@ -82,4 +92,98 @@ describe('User Routes', () => {
 			expect(res.status).toBe(404);
 		});
 	});
+
+	describe('POST /api/v1/users/:id/unlock', () => {
+		it('should return 204 on success', async () => {
+			unlockMock.execute.mockResolvedValue(ok(undefined));
+			const res = await app.request(`/api/v1/users/${TEST_UUID}/unlock`, {
+				method: 'POST',
+				headers: authHeaders(),
+			});
+			expect(res.status).toBe(204);
+			expect(unlockMock.execute).toHaveBeenCalledWith(TEST_UUID);
+		});
+
+		it('should return 404 when not found', async () => {
+			unlockMock.execute.mockResolvedValue(err(new UserNotFoundError(TEST_UUID)));
+			const res = await app.request(`/api/v1/users/${TEST_UUID}/unlock`, {
+				method: 'POST',
+				headers: authHeaders(),
+			});
+			expect(res.status).toBe(404);
+		});
+
+		it('should return 403 for non-admin users', async () => {
+			registerMockJwtService('USER');
+			const res = await app.request(`/api/v1/users/${TEST_UUID}/unlock`, {
+				method: 'POST',
+				headers: authHeaders(),
+			});
+			expect(res.status).toBe(403);
+			expect(unlockMock.execute).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('PUT /api/v1/users/me/password', () => {
+		const body = { currentPassword: 'OldPassword1', password: 'NewPassword1', confirmPassword: 'NewPassword1' };
+
+		it('should return 204 on success', async () => {
+			changePasswordMock.execute.mockResolvedValue(ok(undefined));
+			const res = await app.request('/api/v1/users/me/password', {
+				method: 'PUT',
+				headers: authHeaders(),
+				body: JSON.stringify(body),
+			});
+			expect(res.status).toBe(204);
+			expect(changePasswordMock.execute).toHaveBeenCalledWith(expect.objectContaining({ userId: 'test-user-id' }));
+		});
+
+		it('should return 403 when the current password is wrong', async () => {
+			changePasswordMock.execute.mockResolvedValue(err(new InvalidCurrentPasswordError()));
+			const res = await app.request('/api/v1/users/me/password', {
+				method: 'PUT',
+				headers: authHeaders(),
+				body: JSON.stringify(body),
+			});
+			expect(res.status).toBe(403);
+		});
+
+		it('should return 401 without auth token', async () => {
+			const res = await app.request('/api/v1/users/me/password', { method: 'PUT', body: JSON.stringify(body) });
+			expect(res.status).toBe(401);
+		});
+	});
+
+	describe('PUT /api/v1/users/me/email', () => {
+		const body = { email: 'new@example.com', currentPassword: 'Password1' };
+
+		it('should return 204 on success', async () => {
+			changeEmailMock.execute.mockResolvedValue(ok(undefined));
+			const res = await app.request('/api/v1/users/me/email', {
+				method: 'PUT',
+				headers: authHeaders(),
+				body: JSON.stringify(body),
+			});
+			expect(res.status).toBe(204);
+		});
+
+		it('should return 409 when the email is already registered', async () => {
+			changeEmailMock.execute.mockResolvedValue(err(new UserAlreadyExistsError('new@example.com')));
+			const res = await app.request('/api/v1/users/me/email', {
+				method: 'PUT',
+				headers: authHeaders(),
+				body: JSON.stringify(body),
+			});
+			expect(res.status).toBe(409);
+		});
+
+		it('should return 400 for an invalid email', async () => {
+			const res = await app.request('/api/v1/users/me/email', {
+				method: 'PUT',
+				headers: authHeaders(),
+				body: JSON.stringify({ ...body, email: 'nope' }),
+			});
+			expect(res.status).toBe(400);
+		});
+	});
 });
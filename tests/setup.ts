@@ -3,6 +3,9 @@ import type { Context, Next } from 'hono';
 import { container } from 'tsyringe';
 import { beforeEach, vi } from 'vitest';
 import { TOKENS } from '../src/lib/shared/di/tokens.js';
+import type { CacheBackend } from '../src/infrastructure/cache/cache.config.js';
+import type { EmailConfig } from '../src/infrastructure/email/email.config.js';
+import type { RealtimeConfig } from '../src/infrastructure/realtime/realtime.config.js';
 
 beforeEach(() => {
 	container.clearInstances();
@@ -26,9 +29,16 @@ export function createMockUserRepository() {
 export function createMockAuthRepository() {
 	return {
 		findByEmail: vi.fn(),
+		findByRefId: vi.fn(),
 		createWithUser: vi.fn(),
 		existsByEmail: vi.fn(),
 		updateRole: vi.fn(),
+		updatePassword: vi.fn(),
+		markEmailVerified: vi.fn(),
+		updateEmail: vi.fn(),
+		recordLoginFailure: vi.fn(),
+		lockLogin: vi.fn(),
+		clearLoginFailures: vi.fn(),
 	};
 }
 
@@ -75,6 +85,8 @@ export function createMockDriverRepository() {
 	return {
 		findByUserRefId: vi.fn(),
 		findByUserId: vi.fn(),
+		findByRefId: vi.fn(),
+		findProfile: vi.fn(),
 		create: vi.fn(),
 	};
 }
@@ -83,9 +95,27 @@ export function createMockTripRepository() {
 	return {
 		findAll: vi.fn(),
 		findById: vi.fn(),
+		findByRefId: vi.fn(),
+		findDriverContact: vi.fn(),
 		findByFilters: vi.fn(),
 		create: vi.fn(),
-		delete: vi.fn(),
+		update: vi.fn(),
+		findBySeries: vi.fn(),
+		cancel: vi.fn(),
+		advanceStatuses: vi.fn(),
+		findDueReminders: vi.fn(),
+		markReminderSent: vi.fn(),
+	};
+}
+
+export function createMockTripSeriesRepository() {
+	return {
+		create: vi.fn(),
+		findById: vi.fn(),
+		findByDriverRefId: vi.fn(),
+		findActive: vi.fn(),
+		update: vi.fn(),
+		cancel: vi.fn(),
 	};
 }
 
@@ -97,8 +127,12 @@ export function createMockInscriptionRepository() {
 		findByTripRefId: vi.fn(),
 		findByUserId: vi.fn(),
 		findByTripId: vi.fn(),
+		findPassengerContacts: vi.fn(),
+		findNotificationDetails: vi.fn(),
 		findByIdAndUserId: vi.fn(),
 		create: vi.fn(),
+		updateStatus: vi.fn(),
+		cancel: vi.fn(),
 		delete: vi.fn(),
 		existsByUserAndTrip: vi.fn(),
 		countByTripRefId: vi.fn(),
@@ -116,26 +150,106 @@ export function createMockColorRepository() {
 	};
 }
 
+export function createMockSessionRepository() {
+	return {
+		create: vi.fn(),
+		findById: vi.fn(),
+		findRefreshToken: vi.fn(),
+		rotateRefreshToken: vi.fn(),
+		revoke: vi.fn(),
+		revokeAllForUser: vi.fn(),
+	};
+}
+
+export function createMockAccountTokenRepository() {
+	return {
+		create: vi.fn(),
+		findByHash: vi.fn(),
+		consume: vi.fn(),
+	};
+}
+
+export function createMockOutboxRepository() {
+	return {
+		claimDue: vi.fn(),
+		markSent: vi.fn(),
+		markFailed: vi.fn(),
+		markDead: vi.fn(),
+		findAll: vi.fn(),
+		findById: vi.fn(),
+		replay: vi.fn(),
+	};
+}
+
+export function createMockTripMessageRepository() {
+	return {
+		create: vi.fn(),
+		findByTripRefId: vi.fn(),
+		findById: vi.fn(),
+		hide: vi.fn(),
+		markRead: vi.fn(),
+		countUnread: vi.fn(),
+	};
+}
+
+export function createMockReviewRepository() {
+	return {
+		create: vi.fn(),
+		exists: vi.fn(),
+		findBySubjectRefId: vi.fn(),
+		summarizeDrivers: vi.fn(),
+	};
+}
+
 // ─── Cache Mocks ───
 
 export function createMockCacheService() {
 	return {
 		get: vi.fn().mockResolvedValue(null),
+		getMany: vi.fn().mockResolvedValue([]),
 		set: vi.fn().mockResolvedValue(undefined),
+		increment: vi.fn().mockResolvedValue(1),
 		delete: vi.fn().mockResolvedValue(undefined),
 		deleteByPattern: vi.fn().mockResolvedValue(undefined),
 		isHealthy: vi.fn().mockResolvedValue(true),
 	};
 }
 
+/** Tags invalidated through a mock cache service, in order, without the `test:tag:` key prefix. */
+export function invalidatedTags(cache: ReturnType<typeof createMockCacheService>): string[] {
+	return cache.set.mock.calls
+		.map(([key]) => String(key))
+		.filter((key) => key.startsWith('test:tag:'))
+		.map((key) => key.slice('test:tag:'.length));
+}
+
+export function createMockCacheMetrics() {
+	return {
+		recordHit: vi.fn(),
+		recordMiss: vi.fn(),
+		recordEviction: vi.fn(),
+		snapshot: vi.fn().mockReturnValue({}),
+	};
+}
+
 export function createMockCacheConfig(overrides?: Partial<{
 	enabled: boolean;
+	backend: CacheBackend;
 	keyPrefix: string;
+	maxEntries: number;
+	l1Ttl: number;
+	ttlJitter: number;
+	staleTtl: number;
 	ttl: Partial<Record<string, number>>;
 }>) {
 	return {
 		enabled: overrides?.enabled ?? true,
+		backend: overrides?.backend ?? 'upstash',
 		keyPrefix: overrides?.keyPrefix ?? 'test:',
+		maxEntries: overrides?.maxEntries ?? 100,
+		l1Ttl: overrides?.l1Ttl ?? 5,
+		ttlJitter: overrides?.ttlJitter ?? 0,
+		staleTtl: overrides?.staleTtl ?? 0,
 		ttl: {
 			brand: 3600,
 			color: 3600,
@@ -147,11 +261,52 @@ export function createMockCacheConfig(overrides?: Partial<{
 			auth: 300,
 			trip: 300,
 			inscription: 120,
+			session: 60,
+			negative: 30,
+			tag: 86400,
 			...overrides?.ttl,
 		},
 	};
 }
 
+// ─── Config Mocks ───
+
+export function createMockAuthConfig(overrides?: Partial<{
+	refreshTokenTtlDays: number;
+	passwordResetTokenTtlMinutes: number;
+	emailVerificationTokenTtlHours: number;
+	requireVerifiedEmailForDrivers: boolean;
+	loginDelayAfterAttempts: number;
+	loginDelayBaseSeconds: number;
+	loginLockoutThreshold: number;
+	loginLockoutMinutes: number;
+	appUrl: string;
+}>) {
+	return {
+		refreshTokenTtlDays: 30,
+		passwordResetTokenTtlMinutes: 60,
+		emailVerificationTokenTtlHours: 48,
+		requireVerifiedEmailForDrivers: true,
+		loginDelayAfterAttempts: 3,
+		loginDelayBaseSeconds: 2,
+		loginLockoutThreshold: 10,
+		loginLockoutMinutes: 15,
+		appUrl: 'https://app.test',
+		...overrides,
+	};
+}
+
+export function createMockEmailConfig(overrides?: Partial<EmailConfig>): EmailConfig {
+	return {
+		transport: 'memory',
+		from: 'noreply@test.com',
+		resendApiKey: 'test-api-key',
+		smtp: { host: 'localhost', port: 1025, secure: false, user: undefined, password: undefined },
+		fileSinkDir: 'tmp/emails',
+		...overrides,
+	};
+}
+
 // ─── Service Mocks ───
 
 export function createMockPasswordService() {
@@ -161,13 +316,93 @@ export function createMockPasswordService() {
 	};
 }
 
+export function createMockOutboxConfig(overrides?: Partial<{
+	maxAttempts: number;
+	retryBaseDelayMs: number;
+	retryMaxDelayMs: number;
+	batchSize: number;
+	pollIntervalMs: number;
+	claimTimeoutMs: number;
+	runWorkerInProcess: boolean;
+}>) {
+	return {
+		maxAttempts: 3,
+		retryBaseDelayMs: 1000,
+		retryMaxDelayMs: 10_000,
+		batchSize: 10,
+		pollIntervalMs: 100,
+		claimTimeoutMs: 60_000,
+		runWorkerInProcess: false,
+		...overrides,
+	};
+}
+
+export function createMockNotificationConfig(overrides?: Partial<{
+	tripReminderHoursBefore: number;
+	reminderPollIntervalMs: number;
+	reminderBatchSize: number;
+}>) {
+	return {
+		tripReminderHoursBefore: 24,
+		reminderPollIntervalMs: 100,
+		reminderBatchSize: 10,
+		...overrides,
+	};
+}
+
+export function createMockTripConfig(overrides?: Partial<{
+	statusPollIntervalMs: number;
+	seriesHorizonDays: number;
+	seriesPollIntervalMs: number;
+	timeZone: string;
+}>) {
+	return {
+		statusPollIntervalMs: 100,
+		seriesHorizonDays: 14,
+		seriesPollIntervalMs: 100,
+		timeZone: 'Europe/Paris',
+		...overrides,
+	};
+}
+
+export function createMockEventBus() {
+	return {
+		publish: vi.fn().mockResolvedValue(undefined),
+	};
+}
+
+export function createMockRealtimeBroker() {
+	return {
+		publish: vi.fn().mockResolvedValue(undefined),
+		subscribe: vi.fn(),
+		replay: vi.fn().mockResolvedValue([]),
+	};
+}
+
+export function createMockRealtimeConfig(overrides?: Partial<RealtimeConfig>): RealtimeConfig {
+	return {
+		transport: 'memory',
+		heartbeatIntervalMs: 50,
+		backlogSize: 5,
+		backlogTtlSeconds: 60,
+		keyPrefix: 'test:',
+		...overrides,
+	};
+}
+
 export function createMockEmailService() {
 	return {
-		sendWelcomeEmail: vi.fn(),
 		send: vi.fn(),
 	};
 }
 
+export function createMockEmailRenderer() {
+	return {
+		render: vi.fn(),
+		preview: vi.fn(),
+	};
+}
+
 export function createMockJwtService() {
 	return {
 		sign: vi.fn(),
@@ -300,6 +535,26 @@ export function createMockLoginUseCase() {
 	return { execute: vi.fn() };
 }
 
+export function createMockRefreshTokenUseCase() {
+	return { execute: vi.fn() };
+}
+
+export function createMockLogoutUseCase() {
+	return { execute: vi.fn() };
+}
+
+export function createMockForgotPasswordUseCase() {
+	return { execute: vi.fn() };
+}
+
+export function createMockResetPasswordUseCase() {
+	return { execute: vi.fn() };
+}
+
+export function createMockVerifyEmailUseCase() {
+	return { execute: vi.fn() };
+}
+
 export function createMockListBrandsUseCase() {
 	return { execute: vi.fn() };
 }
@@ -419,6 +674,9 @@ export function createMockUserData(overrides?: Partial<{
 	firstName: string | null;
 	lastName: string | null;
 	phone: string | null;
+	locale: 'fr' | 'en';
+	notifyBookingUpdates: boolean;
+	notifyTripReminders: boolean;
 	email: string;
 	anonymizedAt: Date | null;
 	createdAt: Date;
@@ -431,6 +689,9 @@ export function createMockUserData(overrides?: Partial<{
 		firstName: overrides?.firstName === undefined ? 'John' : overrides.firstName,
 		lastName: overrides?.lastName === undefined ? 'Doe' : overrides.lastName,
 		phone: overrides?.phone === undefined ? '0612345678' : overrides.phone,
+		locale: overrides?.locale ?? ('fr' as const),
+		notifyBookingUpdates: overrides?.notifyBookingUpdates ?? true,
+		notifyTripReminders: overrides?.notifyTripReminders ?? true,
 		email: overrides?.email ?? 'test@example.com',
 		anonymizedAt: overrides?.anonymizedAt ?? null,
 		createdAt: overrides?.createdAt ?? new Date('2025-01-01'),
@@ -461,6 +722,9 @@ export function createMockInscriptionData(overrides?: Partial<{
 	userRefId: number;
 	tripRefId: number;
 	status: string;
+	pricePerSeat: number;
+	pickupPosition: number;
+	dropoffPosition: number;
 }>) {
 	return {
 		id: overrides?.id ?? 'inscription-id-1',
@@ -469,6 +733,9 @@ export function createMockInscriptionData(overrides?: Partial<{
 		userRefId: overrides?.userRefId ?? 1,
 		tripRefId: overrides?.tripRefId ?? 1,
 		status: overrides?.status ?? 'ACTIVE',
+		pricePerSeat: overrides?.pricePerSeat ?? 1500,
+		pickupPosition: overrides?.pickupPosition ?? 0,
+		dropoffPosition: overrides?.dropoffPosition ?? 1,
 	};
 }
 
@@ -476,8 +743,17 @@ export function createMockTripData(overrides?: Partial<{
 	id: string;
 	refId: number;
 	dateTrip: Date;
+	arrivalAt: Date;
 	kms: number;
 	seats: number;
+	pricePerSeat: number;
+	requiresApproval: boolean;
+	status: string;
+	cancelledAt: Date | null;
+	cancellationReason: string | null;
+	seriesRefId: number | null;
+	occurrenceDate: Date | null;
+	seriesDetached: boolean;
 	driverRefId: number;
 	carRefId: number;
 }>) {
@@ -485,9 +761,58 @@ export function createMockTripData(overrides?: Partial<{
 		id: overrides?.id ?? 'trip-id-1',
 		refId: overrides?.refId ?? 1,
 		dateTrip: overrides?.dateTrip ?? new Date('2025-06-01'),
+		arrivalAt: overrides?.arrivalAt ?? new Date('2025-06-01T01:15:00'),
 		kms: overrides?.kms ?? 100,
 		seats: overrides?.seats ?? 3,
+		pricePerSeat: overrides?.pricePerSeat ?? 1500,
+		requiresApproval: overrides?.requiresApproval ?? false,
+		status: overrides?.status ?? 'SCHEDULED',
+		cancelledAt: overrides?.cancelledAt ?? null,
+		cancellationReason: overrides?.cancellationReason ?? null,
+		seriesRefId: overrides?.seriesRefId ?? null,
+		occurrenceDate: overrides?.occurrenceDate ?? null,
+		seriesDetached: overrides?.seriesDetached ?? false,
 		driverRefId: overrides?.driverRefId ?? 1,
 		carRefId: overrides?.carRefId ?? 1,
 	};
 }
+
+export function createMockTripSeriesData(overrides?: Partial<{
+	id: string;
+	refId: number;
+	daysOfWeek: number[];
+	departureTime: string;
+	startDate: Date;
+	endDate: Date | null;
+	exceptionDates: Date[];
+	kms: number;
+	seats: number;
+	pricePerSeat: number;
+	requiresApproval: boolean;
+	cityRefIds: number[];
+	status: 'ACTIVE' | 'CANCELLED';
+	cancelledAt: Date | null;
+	createdAt: Date;
+	driverRefId: number;
+	carRefId: number;
+}>) {
+	return {
+		id: overrides?.id ?? 'series-id-1',
+		refId: overrides?.refId ?? 4,
+		daysOfWeek: overrides?.daysOfWeek ?? [1, 2, 3, 4, 5],
+		departureTime: overrides?.departureTime ?? '07:45',
+		startDate: overrides?.startDate ?? new Date('2026-10-18T22:00:00Z'),
+		endDate: overrides?.endDate ?? null,
+		exceptionDates: overrides?.exceptionDates ?? [],
+		kms: overrides?.kms ?? 60,
+		seats: overrides?.seats ?? 3,
+		pricePerSeat: overrides?.pricePerSeat ?? 400,
+		requiresApproval: overrides?.requiresApproval ?? false,
+		cityRefIds: overrides?.cityRefIds ?? [30, 31],
+		status: overrides?.status ?? 'ACTIVE',
+		cancelledAt: overrides?.cancelledAt ?? null,
+		createdAt: overrides?.createdAt ?? new Date(2026, 9, 18),
+		driverRefId: overrides?.driverRefId ?? 10,
+		carRefId: overrides?.carRefId ?? 20,
+	};
+}